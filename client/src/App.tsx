@@ -32,11 +32,13 @@ import CDNMonitoring from "@/pages/CDNMonitoring";
 import CDNTest from "@/pages/CDNTest";
 import StripeDashboard from "@/pages/stripe-dashboard";
 import AdminPricingPage from "@/pages/admin-pricing";
+import AdminApprovalsPage from "@/pages/admin-approvals";
 import AdminCalculatorManager from "@/pages/admin-calculator-manager";
 import AdminCalculatorSettings from "@/pages/admin-calculator-settings";
 import SettingsHub from "@/pages/settings-hub";
 import SeedPaySettings from "@/pages/seedpay-settings";
 import AssistantPage from "@/pages/assistant";
+import ProposalPage from "@/pages/proposal";
 import { AssistantWidget } from "@/components/assistant/AssistantWidget";
 import { Loader2 } from "lucide-react";
 
@@ -136,6 +138,10 @@ function Router() {
         <ProtectedRoute path="/kb-admin" component={KbAdmin} />
         <ProtectedRoute path="/user-management" component={UserManagement} />
         <ProtectedRoute path="/admin/pricing" component={AdminPricingPage} />
+        <ProtectedRoute
+          path="/admin/approvals"
+          component={AdminApprovalsPage}
+        />
         {/* Consolidate legacy calculator admin routes under app settings */}
         <ProtectedRoute
           path="/admin/calculator-manager"
@@ -152,6 +158,7 @@ function Router() {
         <ProtectedRoute path="/assistant" component={AssistantPage} />
         <Route path="/auth" component={AuthPage} />
         <Route path="/request-access" component={RequestAccess} />
+        <Route path="/proposals/:token" component={ProposalPage} />
         <Route component={NotFound} />
       </Switch>
     </ErrorBoundary>
@@ -179,7 +186,7 @@ function AuthGate() {
   return (
     <>
       <Router />
-      {/* Global Assistant Widget (hidden on /auth and /request-access internally) */}
+      {/* Global Assistant Widget (hidden on /auth, /request-access and proposals internally) */}
       <AssistantWidget />
     </>
   );
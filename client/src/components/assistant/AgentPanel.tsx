@@ -1,14 +1,21 @@
-import React, { useMemo, useState } from "react";
+import React, { useEffect, useMemo, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { useAuth } from "@/hooks/use-auth";
-import { apiRequest } from "@/lib/queryClient";
-import { Bot, Send, Paperclip, ExternalLink } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import { Bot, Send, Paperclip, ExternalLink, Plus, Share2 } from "lucide-react";
 import {
   BoxPickerModal,
   type BoxAttachment,
 } from "@/components/assistant/BoxPickerModal";
+import { AssistantThread } from "@/components/assistant/AssistantThread";
+import type {
+  AssistantConversationDetail,
+  AssistantMessageView,
+} from "@shared/assistant-conversations";
 
 export type AgentMode = "sell" | "support";
 
@@ -23,24 +30,84 @@ interface AgentPanelProps {
   allowBox?: boolean; // UI gate for Box
   compact?: boolean; // smaller paddings for widget mode
   onOpenWorkspace?: () => void;
+  conversationId?: number | null; // resume a saved conversation
+  onConversationChange?: (id: number | null) => void;
 }
 
+export const CONVERSATIONS_KEY = ["/api/assistant/conversations"];
+
 export function AgentPanel({
   initialMode = "sell",
   allowBox = false,
   compact = false,
   onOpenWorkspace,
+  conversationId: resumeId = null,
+  onConversationChange,
 }: AgentPanelProps) {
   const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
   const [mode, setMode] = useState<AgentMode>(initialMode);
   const [question, setQuestion] = useState("");
-  const [answer, setAnswer] = useState<string>("");
+  const [conversationId, setConversationId] = useState<number | null>(resumeId);
+  const [messages, setMessages] = useState<AssistantMessageView[]>([]);
   const [loading, setLoading] = useState(false);
   const [attachments, setAttachments] = useState<Attachment[]>([]);
   const [showBox, setShowBox] = useState(false);
-  const [citations, setCitations] = useState<Array<{ name: string }>>([]);
   const [errorMsg, setErrorMsg] = useState<string>("");
 
+  const changeConversation = (id: number | null) => {
+    setConversationId(id);
+    onConversationChange?.(id);
+  };
+
+  // Load a conversation picked from outside (e.g. the workspace history list)
+  useEffect(() => {
+    if (resumeId === conversationId) return;
+    setConversationId(resumeId);
+    setErrorMsg("");
+    if (resumeId === null) {
+      setMessages([]);
+      return;
+    }
+    apiRequest<AssistantConversationDetail>("GET", `/api/assistant/conversations/${resumeId}`)
+      .then((detail) => {
+        setMode(detail.mode);
+        setMessages(detail.messages);
+      })
+      .catch((e) => setErrorMsg(apiErrorMessage(e, "Failed to load conversation")));
+    // Only react to the prop; the panel's own new conversations are echoed back through it
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [resumeId]);
+
+  const startNewConversation = () => {
+    changeConversation(null);
+    setMessages([]);
+    setErrorMsg("");
+  };
+
+  // A conversation keeps one mode; switching starts a new one
+  const switchMode = (next: AgentMode) => {
+    if (next === mode) return;
+    setMode(next);
+    if (messages.length) startNewConversation();
+  };
+
+  // Update the answer being written (negative ID until the server saves it)
+  const updatePending = (pendingId: number, update: Partial<AssistantMessageView>) =>
+    setMessages((prev) => prev.map((m) => (m.id === pendingId ? { ...m, ...update } : m)));
+
+  const onShare = async () => {
+    if (!conversationId) return;
+    try {
+      const { shareToken } = await apiRequest<{ shareToken: string }>("POST", `/api/assistant/conversations/${conversationId}/share`, {});
+      await navigator.clipboard.writeText(`${window.location.origin}/assistant?shared=${shareToken}`);
+      toast({ title: "Share link copied", description: "Anyone signed in can read this conversation" });
+    } catch (e) {
+      toast({ title: "Failed to share conversation", description: apiErrorMessage(e, "Failed to share conversation"), variant: "destructive" });
+    }
+  };
+
   // Compute persona by defaultDashboard
   const persona = useMemo(() => {
     const pref = (user?.defaultDashboard || "").toLowerCase();
@@ -55,10 +122,23 @@ export function AgentPanel({
 
   const onAsk = async () => {
     if (!question.trim()) return;
+    const asked = question.trim();
+    const now = new Date().toISOString();
+    const pendingId = -Date.now();
     setLoading(true);
-    setAnswer("");
-    setCitations([]);
     setErrorMsg("");
+    setMessages((prev) => [
+      ...prev,
+      { id: pendingId - 1, role: "user", content: asked, citations: [], createdAt: now, feedback: null },
+      { id: pendingId, role: "assistant", content: "", citations: [], createdAt: now, feedback: null },
+    ]);
+    const dropPending = () => setMessages((prev) => prev.filter((m) => m.id !== pendingId && m.id !== pendingId - 1));
+    const body = {
+      mode,
+      question: asked,
+      conversationId,
+      attachments: canUseBox ? attachments : [],
+    };
     try {
       // Streaming first
       const response = await fetch("/api/ai/query/stream", {
@@ -68,18 +148,14 @@ export function AgentPanel({
           Accept: "text/event-stream",
         },
         credentials: "include",
-        body: JSON.stringify({
-          mode,
-          question,
-          attachments: canUseBox ? attachments : [],
-        }),
+        body: JSON.stringify(body),
       });
 
       if (response.status === 403) {
         // surface permission error inline
         const text = await response.text();
         setErrorMsg(text || "Access denied. Attachments are not permitted for your role.");
-        setLoading(false);
+        dropPending();
         return;
       }
 
@@ -87,6 +163,7 @@ export function AgentPanel({
         const reader = response.body!.getReader();
         const decoder = new TextDecoder("utf-8");
         let buffer = "";
+        let answer = "";
         while (true) {
           const { value, done } = await reader.read();
           if (done) break;
@@ -100,8 +177,13 @@ export function AgentPanel({
             if (dataLine === "[DONE]") continue;
             try {
               const payload = JSON.parse(dataLine);
-              if (payload.meta?.citations) setCitations(payload.meta.citations);
-              if (payload.delta) setAnswer((prev) => prev + payload.delta);
+              if (payload.meta?.citations) updatePending(pendingId, { citations: payload.meta.citations });
+              if (payload.meta?.conversationId) changeConversation(payload.meta.conversationId);
+              if (payload.meta?.messageId) updatePending(pendingId, { id: payload.meta.messageId });
+              if (payload.delta) {
+                answer += payload.delta;
+                updatePending(pendingId, { content: answer });
+              }
             } catch {
               // ignore malformed chunk
             }
@@ -110,13 +192,13 @@ export function AgentPanel({
       } else {
         // Fallback to non-streaming JSON endpoint
         try {
-          const res = await apiRequest("POST", "/api/ai/query", {
-            mode,
-            question,
-            attachments: canUseBox ? attachments : []
+          const res = await apiRequest("POST", "/api/ai/query", body);
+          changeConversation(res.conversationId);
+          updatePending(pendingId, {
+            id: res.messageId,
+            content: res?.answer || "",
+            citations: Array.isArray(res?.citations) ? res.citations : [],
           });
-          setAnswer(res?.answer || "");
-          if (Array.isArray(res?.citations)) setCitations(res.citations);
         } catch (e: any) {
           const msg = e?.message || "Request failed";
           if (typeof msg === 'string' && msg.startsWith("403:")) {
@@ -124,13 +206,18 @@ export function AgentPanel({
           } else {
             setErrorMsg(msg);
           }
+          dropPending();
+          return;
         }
       }
+      setQuestion("");
     } catch (e: any) {
       const msg = e?.message || "Failed to get response";
       setErrorMsg(typeof msg === 'string' ? msg : "Request failed");
+      dropPending();
     } finally {
       setLoading(false);
+      queryClient.invalidateQueries({ queryKey: CONVERSATIONS_KEY });
     }
   };
 
@@ -148,6 +235,9 @@ export function AgentPanel({
         : "text-white/70 hover:text-white/90"
     }`;
 
+  let placeholder = mode === "sell" ? "Ask for sales help…" : "Ask for service support…";
+  if (messages.length) placeholder = "Ask a follow-up…";
+
   return (
     <div className={`rounded-2xl border border-white/10 bg-slate-950/90 text-white shadow-2xl backdrop-blur-sm ${containerSpacing}`}>
       <div className="flex flex-wrap items-start justify-between gap-3">
@@ -163,13 +253,23 @@ export function AgentPanel({
         )}
         <div className="flex items-center gap-2">
           <div className="flex items-center gap-1 rounded-full bg-white/10 p-1">
-            <Button size="sm" variant="ghost" className={modeButtonClass("sell")} onClick={() => setMode("sell")}>
+            <Button size="sm" variant="ghost" className={modeButtonClass("sell")} onClick={() => switchMode("sell")}>
               Sell
             </Button>
-            <Button size="sm" variant="ghost" className={modeButtonClass("support")} onClick={() => setMode("support")}>
+            <Button size="sm" variant="ghost" className={modeButtonClass("support")} onClick={() => switchMode("support")}>
               Support
             </Button>
           </div>
+          {conversationId !== null && (
+            <Button size="sm" variant="ghost" className="h-8 w-8 rounded-full p-0 text-white/70 hover:text-white hover:bg-white/10" title="Copy share link" onClick={onShare}>
+              <Share2 className="h-4 w-4" />
+            </Button>
+          )}
+          {messages.length > 0 && (
+            <Button size="sm" variant="ghost" className="h-8 w-8 rounded-full p-0 text-white/70 hover:text-white hover:bg-white/10" title="New conversation" onClick={startNewConversation} disabled={loading}>
+              <Plus className="h-4 w-4" />
+            </Button>
+          )}
           {showWorkspaceBtn && (
             <Button
               variant="outline"
@@ -208,6 +308,15 @@ export function AgentPanel({
           </div>
         )}
 
+        {messages.length > 0 && (
+          <AssistantThread
+            messages={messages}
+            onFeedbackSaved={(messageId, feedback) =>
+              setMessages((prev) => prev.map((m) => (m.id === messageId ? { ...m, feedback } : m)))
+            }
+          />
+        )}
+
         <div className="flex flex-col gap-3">
           {!!errorMsg && (
             <div className="rounded-lg border border-red-500/30 bg-red-500/10 px-3 py-2 text-xs text-red-200">
@@ -217,7 +326,7 @@ export function AgentPanel({
           <Textarea
             value={question}
             onChange={(e) => setQuestion(e.target.value)}
-            placeholder={mode === "sell" ? "Ask for sales help…" : "Ask for service support…"}
+            placeholder={placeholder}
             className="min-h-[120px] rounded-xl border-white/15 bg-white/5 text-sm text-white placeholder:text-white/60 focus:border-orange-500/60 focus:ring-2 focus:ring-orange-500/30"
           />
           <div className="flex flex-wrap items-center justify-between gap-3">
@@ -228,23 +337,6 @@ export function AgentPanel({
             </Button>
           </div>
         </div>
-
-        {answer && (
-          <div className="rounded-xl border border-white/10 bg-white/5 p-3 text-sm text-white whitespace-pre-wrap">
-            {answer}
-          </div>
-        )}
-
-        {!!citations.length && (
-          <div className="rounded-xl border border-white/10 bg-white/5 p-3 text-xs text-white/70">
-            <div className="font-semibold uppercase tracking-wide text-white/60">Sources</div>
-            <ul className="mt-2 space-y-1">
-              {citations.map((c, idx) => (
-                <li key={idx}>{c.name}</li>
-              ))}
-            </ul>
-          </div>
-        )}
       </div>
 
       <BoxPickerModal
@@ -0,0 +1,104 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import type { AssistantConversation } from "@shared/schema";
+import { History, Link2, Trash2 } from "lucide-react";
+import { CONVERSATIONS_KEY } from "./AgentPanel";
+
+type ConversationRow = Omit<
+  AssistantConversation,
+  "createdAt" | "updatedAt"
+> & {
+  createdAt: string;
+  updatedAt: string;
+};
+
+interface AssistantConversationListProps {
+  selectedId: number | null;
+  onSelect: (id: number | null) => void;
+}
+
+// The signed-in user's saved conversations, most recent first
+export function AssistantConversationList({
+  selectedId,
+  onSelect,
+}: AssistantConversationListProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: conversations = [], isLoading } = useQuery({
+    queryKey: CONVERSATIONS_KEY,
+    queryFn: async () =>
+      await apiRequest<ConversationRow[]>(
+        "GET",
+        "/api/assistant/conversations",
+      ),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) =>
+      await apiRequest("DELETE", `/api/assistant/conversations/${id}`),
+    onSuccess: (_result, id) => {
+      if (id === selectedId) onSelect(null);
+      queryClient.invalidateQueries({ queryKey: CONVERSATIONS_KEY });
+    },
+    onError: (error) =>
+      toast({
+        title: "Failed to delete conversation",
+        description: apiErrorMessage(error, "Failed to delete conversation"),
+        variant: "destructive",
+      }),
+  });
+
+  return (
+    <div className="rounded-2xl border border-white/10 bg-slate-950/80 p-4 text-white">
+      <div className="mb-3 flex items-center gap-2 text-sm font-semibold">
+        <History className="h-4 w-4" />
+        Conversations
+      </div>
+      {isLoading && <div className="text-xs text-white/60">Loading...</div>}
+      {!isLoading && conversations.length === 0 && (
+        <div className="text-xs text-white/60">
+          Your questions are saved here so you can pick them up later
+        </div>
+      )}
+      <ul className="space-y-1">
+        {conversations.map((c) => (
+          <li
+            key={c.id}
+            className={`group flex items-center gap-1 rounded-lg px-2 py-1.5 ${
+              c.id === selectedId ? "bg-white/15" : "hover:bg-white/10"
+            }`}
+          >
+            <button
+              type="button"
+              className="min-w-0 flex-1 text-left"
+              onClick={() => onSelect(c.id)}
+            >
+              <div className="truncate text-sm">{c.title}</div>
+              <div className="flex items-center gap-1 text-xs text-white/50">
+                <span className="capitalize">{c.mode}</span>
+                <span>·</span>
+                <span>{new Date(c.updatedAt).toLocaleDateString()}</span>
+                {c.shareToken && (
+                  <Link2 className="h-3 w-3" aria-label="Shared" />
+                )}
+              </div>
+            </button>
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-7 w-7 shrink-0 p-0 text-white/50 opacity-0 hover:text-white group-hover:opacity-100"
+              title="Delete conversation"
+              disabled={deleteMutation.isPending}
+              onClick={() => deleteMutation.mutate(c.id)}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
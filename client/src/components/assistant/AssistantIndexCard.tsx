@@ -0,0 +1,242 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import type { AssistantSourceType } from "@shared/assistant-retrieval";
+import type { AssistantBoxFolder } from "@shared/schema";
+import { Database, FolderPlus, RefreshCw, Trash2 } from "lucide-react";
+
+interface AssistantIndexStatus {
+  embeddingModel: string;
+  rebuilding: boolean;
+  stats: Array<{
+    sourceType: AssistantSourceType;
+    embeddingModel: string;
+    sources: number;
+    chunks: number;
+    lastIndexedAt: string | null;
+  }>;
+  folders: Array<
+    Omit<AssistantBoxFolder, "lastIndexedAt" | "createdAt"> & {
+      lastIndexedAt: string | null;
+      createdAt: string;
+    }
+  >;
+}
+
+const STATUS_KEY = ["/api/admin/assistant-index"];
+
+const SOURCE_LABELS: Record<AssistantSourceType, string> = {
+  kb_article: "KB articles",
+  box_file: "Box files",
+};
+
+function folderIndexState(
+  folder: AssistantIndexStatus["folders"][number],
+): string {
+  if (folder.lastIndexError) return `Indexing failed: ${folder.lastIndexError}`;
+  if (folder.lastIndexedAt) {
+    return `Indexed ${new Date(folder.lastIndexedAt).toLocaleString()}`;
+  }
+  return "Indexing...";
+}
+
+// Admin view of the Seed Assistant retrieval index: what's indexed, full
+// rebuilds, and which Box client folders may be indexed
+export function AssistantIndexCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [folderId, setFolderId] = useState("");
+
+  const { data: status, isLoading } = useQuery({
+    queryKey: STATUS_KEY,
+    queryFn: async () =>
+      await apiRequest<AssistantIndexStatus>(
+        "GET",
+        "/api/admin/assistant-index",
+      ),
+    refetchInterval: (query) => (query.state.data?.rebuilding ? 5000 : false),
+  });
+
+  const onError = (title: string) => (error: unknown) =>
+    toast({
+      title,
+      description: apiErrorMessage(error, title),
+      variant: "destructive",
+    });
+
+  const rebuildMutation = useMutation({
+    mutationFn: async () =>
+      await apiRequest("POST", "/api/admin/assistant-index/rebuild", {}),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: STATUS_KEY });
+      toast({
+        title: "Rebuild started",
+        description: "Unchanged sources are skipped",
+      });
+    },
+    onError: onError("Failed to start rebuild"),
+  });
+
+  const approveMutation = useMutation({
+    mutationFn: async (id: string) =>
+      await apiRequest("POST", "/api/admin/assistant-index/box-folders", {
+        folderId: id,
+      }),
+    onSuccess: () => {
+      setFolderId("");
+      queryClient.invalidateQueries({ queryKey: STATUS_KEY });
+      toast({
+        title: "Folder approved",
+        description: "Its files are being indexed",
+      });
+    },
+    onError: onError("Failed to approve folder"),
+  });
+
+  const reindexMutation = useMutation({
+    mutationFn: async (id: number) =>
+      await apiRequest(
+        "POST",
+        `/api/admin/assistant-index/box-folders/${id}/reindex`,
+        {},
+      ),
+    onSuccess: () => toast({ title: "Re-index started" }),
+    onError: onError("Failed to re-index folder"),
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: number) =>
+      await apiRequest(
+        "DELETE",
+        `/api/admin/assistant-index/box-folders/${id}`,
+      ),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: STATUS_KEY });
+      toast({ title: "Folder removed from the index" });
+    },
+    onError: onError("Failed to revoke folder"),
+  });
+
+  const currentStats = (status?.stats ?? []).filter(
+    (s) => s.embeddingModel === status?.embeddingModel,
+  );
+
+  return (
+    <Card className="bg-white/15 backdrop-blur-md border-white/30">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="text-white flex items-center gap-2">
+          <Database className="h-5 w-5" />
+          Assistant Index
+        </CardTitle>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => rebuildMutation.mutate()}
+          disabled={rebuildMutation.isPending || status?.rebuilding}
+        >
+          <RefreshCw
+            className={`h-4 w-4 mr-1 ${status?.rebuilding ? "animate-spin" : ""}`}
+          />
+          {status?.rebuilding ? "Rebuilding..." : "Rebuild"}
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4 text-sm text-white">
+        {isLoading && <div className="text-white/70">Loading...</div>}
+        {status && (
+          <>
+            <div className="text-white/70">
+              Embeddings: {status.embeddingModel}
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              {(["kb_article", "box_file"] as const).map((type) => {
+                const row = currentStats.find((s) => s.sourceType === type);
+                return (
+                  <div key={type} className="rounded-md bg-white/10 p-3">
+                    <div className="font-semibold">{SOURCE_LABELS[type]}</div>
+                    <div className="text-white/70">
+                      {row?.sources ?? 0} sources · {row?.chunks ?? 0} passages
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+
+            <div className="space-y-2">
+              <div className="font-semibold">Approved Box folders</div>
+              {status.folders.length === 0 && (
+                <div className="text-white/70">
+                  No client folders are indexed yet
+                </div>
+              )}
+              {status.folders.map((folder) => (
+                <div
+                  key={folder.id}
+                  className="flex items-center justify-between gap-2"
+                >
+                  <div className="min-w-0">
+                    <div className="truncate">{folder.name}</div>
+                    <div
+                      className={
+                        folder.lastIndexError
+                          ? "text-red-200 text-xs"
+                          : "text-white/60 text-xs"
+                      }
+                    >
+                      {folderIndexState(folder)}
+                    </div>
+                  </div>
+                  <div className="flex shrink-0 gap-1">
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="text-white hover:text-white"
+                      title="Re-index"
+                      onClick={() => reindexMutation.mutate(folder.id)}
+                    >
+                      <RefreshCw className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="text-white hover:text-white"
+                      title="Remove from index"
+                      onClick={() => revokeMutation.mutate(folder.id)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+              <form
+                className="flex gap-2"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  if (folderId.trim()) approveMutation.mutate(folderId.trim());
+                }}
+              >
+                <Input
+                  value={folderId}
+                  onChange={(e) => setFolderId(e.target.value)}
+                  placeholder="Box folder ID"
+                  className="bg-white/10 border-white/30 text-white placeholder:text-white/50"
+                />
+                <Button
+                  type="submit"
+                  size="sm"
+                  disabled={approveMutation.isPending || !folderId.trim()}
+                >
+                  <FolderPlus className="h-4 w-4 mr-1" />
+                  Approve
+                </Button>
+              </form>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
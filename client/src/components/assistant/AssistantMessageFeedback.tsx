@@ -0,0 +1,117 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import type {
+  AssistantFeedbackRating,
+  AssistantMessageView,
+} from "@shared/assistant-conversations";
+import { ThumbsDown, ThumbsUp } from "lucide-react";
+
+interface AssistantMessageFeedbackProps {
+  messageId: number;
+  feedback: AssistantMessageView["feedback"];
+  onSaved?: (feedback: NonNullable<AssistantMessageView["feedback"]>) => void;
+}
+
+// Thumbs up/down on one answer. Thumbs down asks what was wrong before saving.
+export function AssistantMessageFeedback({
+  messageId,
+  feedback,
+  onSaved,
+}: AssistantMessageFeedbackProps) {
+  const { toast } = useToast();
+  const [rating, setRating] = useState(feedback?.rating ?? null);
+  const [commenting, setCommenting] = useState(false);
+  const [comment, setComment] = useState(feedback?.comment ?? "");
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: {
+      rating: AssistantFeedbackRating;
+      comment: string | null;
+    }) =>
+      await apiRequest(
+        "PUT",
+        `/api/assistant/messages/${messageId}/feedback`,
+        data,
+      ),
+    onSuccess: (_saved, data) => {
+      setRating(data.rating);
+      setCommenting(false);
+      onSaved?.(data);
+      toast({ title: "Thanks for the feedback" });
+    },
+    onError: (error) =>
+      toast({
+        title: "Failed to save feedback",
+        description: apiErrorMessage(error, "Failed to save feedback"),
+        variant: "destructive",
+      }),
+  });
+
+  const buttonClass = (active: boolean) =>
+    `h-7 w-7 p-0 ${active ? "text-orange-300" : "text-white/50 hover:text-white"}`;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-1">
+        <span className="mr-1 text-xs text-white/50">Helpful?</span>
+        <Button
+          size="sm"
+          variant="ghost"
+          className={buttonClass(rating === "up")}
+          title="Good answer"
+          disabled={saveMutation.isPending}
+          onClick={() => saveMutation.mutate({ rating: "up", comment: null })}
+        >
+          <ThumbsUp className="h-4 w-4" />
+        </Button>
+        <Button
+          size="sm"
+          variant="ghost"
+          className={buttonClass(rating === "down")}
+          title="Bad answer"
+          disabled={saveMutation.isPending}
+          onClick={() => setCommenting(true)}
+        >
+          <ThumbsDown className="h-4 w-4" />
+        </Button>
+      </div>
+      {commenting && (
+        <div className="space-y-2">
+          <Textarea
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            placeholder="What was wrong or missing? (optional)"
+            className="min-h-[60px] rounded-lg border-white/15 bg-white/5 text-xs text-white placeholder:text-white/50"
+          />
+          <div className="flex justify-end gap-2">
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-7 text-xs text-white/70 hover:text-white"
+              onClick={() => setCommenting(false)}
+            >
+              Cancel
+            </Button>
+            <Button
+              size="sm"
+              className="h-7 bg-orange-500 text-xs text-white hover:bg-orange-600"
+              disabled={saveMutation.isPending}
+              onClick={() =>
+                saveMutation.mutate({
+                  rating: "down",
+                  comment: comment.trim() || null,
+                })
+              }
+            >
+              Send
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
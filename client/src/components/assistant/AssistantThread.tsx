@@ -0,0 +1,78 @@
+import { ExternalLink } from "lucide-react";
+import type { AssistantMessageView } from "@shared/assistant-conversations";
+import type { AssistantCitation } from "@shared/assistant-retrieval";
+import { AssistantMessageFeedback } from "./AssistantMessageFeedback";
+
+interface AssistantThreadProps {
+  messages: AssistantMessageView[];
+  // Omit for read-only views (shared links)
+  onFeedbackSaved?: (
+    messageId: number,
+    feedback: NonNullable<AssistantMessageView["feedback"]>,
+  ) => void;
+}
+
+function CitationList({ citations }: { citations: AssistantCitation[] }) {
+  return (
+    <div className="rounded-lg border border-white/10 bg-white/5 p-2 text-xs text-white/70">
+      <div className="font-semibold uppercase tracking-wide text-white/60">
+        Sources
+      </div>
+      <ul className="mt-1 space-y-1">
+        {citations.map((c) => (
+          <li key={`${c.sourceType}:${c.sourceId}`}>
+            <a
+              href={c.url}
+              target={c.sourceType === "box_file" ? "_blank" : undefined}
+              rel="noreferrer"
+              className="hover:text-white hover:underline"
+            >
+              [{c.index}] {c.name}
+              {c.sourceType === "box_file" && (
+                <ExternalLink className="ml-1 inline h-3 w-3" />
+              )}
+            </a>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+// Questions and answers of one conversation, oldest first. Answers still
+// streaming have a negative ID and can't be rated yet.
+export function AssistantThread({
+  messages,
+  onFeedbackSaved,
+}: AssistantThreadProps) {
+  return (
+    <div className="flex flex-col gap-3">
+      {messages.map((message) =>
+        message.role === "user" ? (
+          <div
+            key={message.id}
+            className="self-end max-w-[85%] rounded-xl bg-orange-500/20 px-3 py-2 text-sm text-white whitespace-pre-wrap"
+          >
+            {message.content}
+          </div>
+        ) : (
+          <div key={message.id} className="space-y-2">
+            <div className="rounded-xl border border-white/10 bg-white/5 p-3 text-sm text-white whitespace-pre-wrap">
+              {message.content || "…"}
+            </div>
+            {message.citations.length > 0 && (
+              <CitationList citations={message.citations} />
+            )}
+            {onFeedbackSaved && message.id > 0 && (
+              <AssistantMessageFeedback
+                messageId={message.id}
+                feedback={message.feedback}
+                onSaved={(feedback) => onFeedbackSaved(message.id, feedback)}
+              />
+            )}
+          </div>
+        ),
+      )}
+    </div>
+  );
+}
@@ -10,8 +10,12 @@ export function AssistantWidget() {
   const [location, navigate] = useLocation();
   const [open, setOpen] = useState(false);
 
-  // Hide on auth-like routes
-  if (location.startsWith("/auth") || location.startsWith("/request-access")) {
+  // Hide on auth-like routes and client-facing proposals
+  if (
+    location.startsWith("/auth") ||
+    location.startsWith("/request-access") ||
+    location.startsWith("/proposals/")
+  ) {
     return null;
   }
 
@@ -0,0 +1,83 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { apiRequest } from "@/lib/queryClient";
+import type { LowRatedAssistantAnswer } from "@shared/assistant-conversations";
+import { ThumbsDown } from "lucide-react";
+
+// Admin review of thumbs-down answers: what was asked, what the assistant
+// said, which sources it used and the rater's comment
+export function LowRatedAnswersCard() {
+  const [days, setDays] = useState("30");
+
+  const { data: answers = [], isLoading } = useQuery({
+    queryKey: ["/api/admin/assistant/low-rated-answers", days],
+    queryFn: async () =>
+      await apiRequest<LowRatedAssistantAnswer[]>(
+        "GET",
+        `/api/admin/assistant/low-rated-answers?days=${days}`,
+      ),
+  });
+
+  return (
+    <Card className="bg-white/15 backdrop-blur-md border-white/30">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="text-white flex items-center gap-2">
+          <ThumbsDown className="h-5 w-5" />
+          Low-Rated Answers
+        </CardTitle>
+        <Select value={days} onValueChange={setDays}>
+          <SelectTrigger className="w-[140px] bg-white/10 border-white/30 text-white">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="7">Last 7 days</SelectItem>
+            <SelectItem value="30">Last 30 days</SelectItem>
+            <SelectItem value="90">Last 90 days</SelectItem>
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent className="space-y-3 text-sm text-white">
+        {isLoading && <div className="text-white/70">Loading...</div>}
+        {!isLoading && answers.length === 0 && (
+          <div className="text-white/70">No thumbs-down answers</div>
+        )}
+        {answers.map((a) => (
+          <div
+            key={a.feedbackId}
+            className="rounded-md bg-white/10 p-3 space-y-2"
+          >
+            <div className="flex items-center justify-between gap-2 text-xs text-white/60">
+              <span className="capitalize">{a.mode} mode</span>
+              <span>
+                {a.ratedBy ?? "Unknown"} ·{" "}
+                {new Date(a.ratedAt).toLocaleDateString()}
+              </span>
+            </div>
+            {a.question && <div className="font-semibold">{a.question}</div>}
+            <div className="whitespace-pre-wrap text-white/80 line-clamp-6">
+              {a.answer}
+            </div>
+            {a.citations.length > 0 && (
+              <div className="text-xs text-white/60">
+                Sources: {a.citations.map((c) => c.name).join(", ")}
+              </div>
+            )}
+            {a.comment && (
+              <div className="rounded bg-red-500/15 px-2 py-1 text-xs text-red-100">
+                {a.comment}
+              </div>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,48 @@
+import { useQuery } from "@tanstack/react-query";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import type { AssistantConversationDetail } from "@shared/assistant-conversations";
+import { Link2 } from "lucide-react";
+import { AssistantThread } from "./AssistantThread";
+
+// Read-only view of a conversation opened from a share link
+export function SharedConversationView({ token }: { token: string }) {
+  const {
+    data: conversation,
+    isLoading,
+    error,
+  } = useQuery({
+    queryKey: ["/api/assistant/shared", token],
+    queryFn: async () =>
+      await apiRequest<AssistantConversationDetail>(
+        "GET",
+        `/api/assistant/shared/${encodeURIComponent(token)}`,
+      ),
+    retry: false,
+  });
+
+  return (
+    <div className="rounded-2xl border border-white/10 bg-slate-950/90 p-6 text-white shadow-2xl space-y-4">
+      {isLoading && <div className="text-sm text-white/70">Loading...</div>}
+      {error && (
+        <div className="text-sm text-red-200">
+          {apiErrorMessage(error, "This share link is no longer valid")}
+        </div>
+      )}
+      {conversation && (
+        <>
+          <div>
+            <div className="flex items-center gap-2 text-base font-semibold">
+              <Link2 className="h-4 w-4" />
+              {conversation.title}
+            </div>
+            <div className="text-xs text-white/60">
+              <span className="capitalize">{conversation.mode}</span> mode ·
+              shared by {conversation.ownerName ?? "a teammate"}
+            </div>
+          </div>
+          <AssistantThread messages={conversation.messages} />
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,222 @@
+import { useState } from "react";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  CLIENT_ACTIVITY_SOURCES,
+  CLIENT_ACTIVITY_SOURCE_LABELS,
+  type ClientActivitySource,
+  type ClientTimelinePage,
+} from "@shared/client-activity";
+import {
+  AlertCircle,
+  BadgeDollarSign,
+  ChevronLeft,
+  ChevronRight,
+  FileText,
+  MessageSquare,
+  ShieldCheck,
+  Sparkles,
+  type LucideIcon,
+} from "lucide-react";
+
+const SOURCE_ICONS: Record<ClientActivitySource, LucideIcon> = {
+  quote: FileText,
+  hubspot: MessageSquare,
+  document: FileText,
+  ai_insights: Sparkles,
+  approval: ShieldCheck,
+  commission: BadgeDollarSign,
+};
+
+const PAGE_SIZE = 20;
+
+export const clientActivityKey = (contactId: string) => [
+  "/api/client-intel/activity",
+  contactId,
+];
+
+interface ClientActivityTimelineProps {
+  contactId: string;
+  email: string;
+}
+
+// Everything that has happened with the account, filterable by source and date
+export function ClientActivityTimeline({
+  contactId,
+  email,
+}: ClientActivityTimelineProps) {
+  const [sources, setSources] = useState<ClientActivitySource[]>([]);
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [page, setPage] = useState(1);
+
+  const params = new URLSearchParams({
+    email,
+    page: String(page),
+    pageSize: String(PAGE_SIZE),
+  });
+  if (sources.length) params.set("sources", sources.join(","));
+  if (from) params.set("from", from);
+  if (to) params.set("to", to);
+
+  const { data, isLoading, isError, isFetching } = useQuery({
+    queryKey: [...clientActivityKey(contactId), params.toString()],
+    queryFn: async () =>
+      await apiRequest<ClientTimelinePage>(
+        "GET",
+        `/api/client-intel/activity/${contactId}?${params}`,
+      ),
+    enabled: !!email,
+    placeholderData: keepPreviousData,
+  });
+
+  const toggleSource = (source: ClientActivitySource) => {
+    setSources((current) =>
+      current.includes(source)
+        ? current.filter((s) => s !== source)
+        : [...current, source],
+    );
+    setPage(1);
+  };
+
+  const lastPage = data ? Math.max(1, Math.ceil(data.total / PAGE_SIZE)) : 1;
+
+  return (
+    <div className="bg-muted border rounded-lg p-4 space-y-4">
+      <h4 className="font-medium text-foreground">Activity Timeline</h4>
+
+      <div className="flex flex-wrap gap-2">
+        {CLIENT_ACTIVITY_SOURCES.map((source) => (
+          <Button
+            key={source}
+            size="sm"
+            variant={sources.includes(source) ? "default" : "outline"}
+            onClick={() => toggleSource(source)}
+          >
+            {CLIENT_ACTIVITY_SOURCE_LABELS[source]}
+            {data && (
+              <span className="ml-1 text-xs opacity-70">
+                {data.counts[source]}
+              </span>
+            )}
+          </Button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="text-muted-foreground">From</span>
+        <Input
+          type="date"
+          className="w-40"
+          value={from}
+          onChange={(e) => {
+            setFrom(e.target.value);
+            setPage(1);
+          }}
+        />
+        <span className="text-muted-foreground">to</span>
+        <Input
+          type="date"
+          className="w-40"
+          value={to}
+          onChange={(e) => {
+            setTo(e.target.value);
+            setPage(1);
+          }}
+        />
+        {(from || to || sources.length > 0) && (
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => {
+              setSources([]);
+              setFrom("");
+              setTo("");
+              setPage(1);
+            }}
+          >
+            Clear filters
+          </Button>
+        )}
+      </div>
+
+      {data && data.unavailable.length > 0 && (
+        <p className="text-xs text-destructive flex items-center gap-1">
+          <AlertCircle className="h-3 w-3" />
+          Couldn't load{" "}
+          {data.unavailable
+            .map((source) => CLIENT_ACTIVITY_SOURCE_LABELS[source])
+            .join(", ")}
+          ; showing everything else.
+        </p>
+      )}
+      {isLoading && (
+        <p className="text-sm text-muted-foreground">Loading activity...</p>
+      )}
+      {isError && (
+        <p className="text-sm text-destructive">
+          Couldn't load this client's activity.
+        </p>
+      )}
+      {data && data.total === 0 && (
+        <p className="text-sm text-muted-foreground">
+          No activity matches these filters.
+        </p>
+      )}
+
+      <ol className="space-y-3">
+        {data?.events.map((event) => {
+          const Icon = SOURCE_ICONS[event.source];
+          return (
+            <li key={event.id} className="flex gap-3">
+              <Icon className="h-4 w-4 mt-0.5 text-muted-foreground shrink-0" />
+              <div className="min-w-0">
+                <p className="text-sm text-foreground">{event.title}</p>
+                {event.detail && (
+                  <p className="text-xs text-muted-foreground break-words">
+                    {event.detail}
+                  </p>
+                )}
+                <p className="text-xs text-muted-foreground">
+                  {new Date(event.occurredAt).toLocaleString()} ·{" "}
+                  {CLIENT_ACTIVITY_SOURCE_LABELS[event.source]}
+                  {event.actor && ` · ${event.actor}`}
+                </p>
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+
+      {data && data.total > PAGE_SIZE && (
+        <div className="flex items-center justify-between text-sm">
+          <span className="text-muted-foreground">
+            Page {data.page} of {lastPage} · {data.total} events
+          </span>
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={data.page <= 1 || isFetching}
+              onClick={() => setPage(data.page - 1)}
+            >
+              <ChevronLeft className="h-4 w-4" />
+              Previous
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={data.page >= lastPage || isFetching}
+              onClick={() => setPage(data.page + 1)}
+            >
+              Next
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,309 @@
+import { useRef } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import {
+  apiDownload,
+  apiErrorMessage,
+  apiRequest,
+  apiUpload,
+  queryClient,
+} from "@/lib/queryClient";
+import {
+  CLIENT_DOCUMENT_MAX_BYTES,
+  CLIENT_DOCUMENT_TYPES,
+  type ClientDocumentListItem,
+  type ClientDocumentSummaryStatus,
+} from "@shared/client-documents";
+import type { ClientIntelProfile } from "@shared/schema";
+import { clientActivityKey } from "./ClientActivityTimeline";
+import {
+  AlertCircle,
+  Download,
+  FileText,
+  Loader2,
+  RefreshCw,
+  Trash2,
+  Upload,
+} from "lucide-react";
+
+const documentsKey = (profileId: number) => [
+  "/api/client-intel/profiles",
+  profileId,
+  "documents",
+];
+
+const STATUS_BADGES: Record<
+  ClientDocumentSummaryStatus,
+  { label: string; className: string }
+> = {
+  pending: { label: "Summarizing", className: "bg-blue-100 text-blue-800" },
+  ready: { label: "Summarized", className: "bg-green-100 text-green-800" },
+  failed: { label: "Summary failed", className: "bg-red-100 text-red-800" },
+  skipped: { label: "No text", className: "bg-gray-100 text-gray-800" },
+};
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+interface ClientDocumentsPanelProps {
+  contactId: string;
+  email: string;
+  companyName: string;
+}
+
+// Document vault for one client: uploads, AI summaries, download and delete
+export function ClientDocumentsPanel({
+  contactId,
+  email,
+  companyName,
+}: ClientDocumentsPanelProps) {
+  const { toast } = useToast();
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  // Documents hang off the contact's client profile, created on first use
+  const { data: profile, isError: profileError } = useQuery({
+    queryKey: ["/api/client-intel/profiles", email],
+    queryFn: async () =>
+      await apiRequest<ClientIntelProfile>(
+        "POST",
+        "/api/client-intel/profiles",
+        { email, companyName, hubspotContactId: contactId },
+      ),
+    enabled: !!email,
+    staleTime: Infinity,
+  });
+  const profileId = profile?.id;
+
+  const { data: documents = [], isLoading } = useQuery({
+    queryKey: documentsKey(profileId ?? 0),
+    queryFn: async () =>
+      await apiRequest<ClientDocumentListItem[]>(
+        "GET",
+        `/api/client-intel/profiles/${profileId}/documents`,
+      ),
+    enabled: !!profileId,
+    // Poll while summaries are being written
+    refetchInterval: (query) =>
+      query.state.data?.some((d) => d.summaryStatus === "pending")
+        ? 5000
+        : false,
+  });
+
+  const invalidate = () => {
+    if (profileId) {
+      queryClient.invalidateQueries({ queryKey: documentsKey(profileId) });
+    }
+    queryClient.invalidateQueries({ queryKey: clientActivityKey(contactId) });
+  };
+
+  const uploadMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const body = new FormData();
+      body.append("file", file);
+      return await apiUpload(
+        `/api/client-intel/profiles/${profileId}/documents`,
+        body,
+      );
+    },
+    onSuccess: () => {
+      toast({ title: "Document uploaded" });
+      invalidate();
+    },
+    onError: (error) => {
+      toast({
+        title: "Upload failed",
+        description: apiErrorMessage(error, "Failed to upload document"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const summarizeMutation = useMutation({
+    mutationFn: async (documentId: number) =>
+      await apiRequest(
+        "POST",
+        `/api/client-intel/documents/${documentId}/summarize`,
+        {},
+      ),
+    onSuccess: invalidate,
+    onError: (error) => {
+      toast({
+        title: "Summary failed",
+        description: apiErrorMessage(error, "Failed to summarize document"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (documentId: number) =>
+      await apiRequest("DELETE", `/api/client-intel/documents/${documentId}`),
+    onSuccess: () => {
+      toast({ title: "Document deleted" });
+      invalidate();
+    },
+    onError: (error) => {
+      toast({
+        title: "Delete failed",
+        description: apiErrorMessage(error, "Failed to delete document"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Let the same file be picked again
+    if (fileInput.current) fileInput.current.value = "";
+    if (!file) return;
+    if (file.size > CLIENT_DOCUMENT_MAX_BYTES) {
+      toast({
+        title: "File too large",
+        description: `Documents can be up to ${formatSize(CLIENT_DOCUMENT_MAX_BYTES)}`,
+        variant: "destructive",
+      });
+      return;
+    }
+    uploadMutation.mutate(file);
+  };
+
+  const handleDownload = async (document: ClientDocumentListItem) => {
+    try {
+      await apiDownload(
+        `/api/client-intel/documents/${document.id}/download`,
+        document.fileName,
+      );
+    } catch (error) {
+      toast({
+        title: "Download failed",
+        description: apiErrorMessage(error, "Failed to download document"),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = (document: ClientDocumentListItem) => {
+    if (confirm(`Delete ${document.fileName}? This can't be undone.`)) {
+      deleteMutation.mutate(document.id);
+    }
+  };
+
+  return (
+    <div className="bg-muted border rounded-lg p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="font-medium text-foreground">Documents & Files</h4>
+        <input
+          ref={fileInput}
+          type="file"
+          className="hidden"
+          accept={CLIENT_DOCUMENT_TYPES.map((t) => `.${t}`).join(",")}
+          onChange={handleFile}
+        />
+        <Button
+          size="sm"
+          variant="outline"
+          disabled={!profileId || uploadMutation.isPending}
+          onClick={() => fileInput.current?.click()}
+        >
+          {uploadMutation.isPending ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <Upload className="h-4 w-4 mr-2" />
+          )}
+          Upload
+        </Button>
+      </div>
+
+      {profileError && (
+        <p className="text-sm text-destructive">
+          Couldn't load this client's documents.
+        </p>
+      )}
+      {isLoading && (
+        <p className="text-sm text-muted-foreground">Loading documents...</p>
+      )}
+      {profileId && !isLoading && documents.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          No documents yet. Upload {CLIENT_DOCUMENT_TYPES.join(", ")} files to
+          get an AI summary.
+        </p>
+      )}
+
+      <div className="space-y-3">
+        {documents.map((document) => {
+          const status = STATUS_BADGES[document.summaryStatus];
+          return (
+            <div
+              key={document.id}
+              className="bg-background border rounded-md p-3 space-y-2"
+            >
+              <div className="flex items-start justify-between gap-2">
+                <div className="flex items-start gap-2 min-w-0">
+                  <FileText className="h-4 w-4 mt-0.5 text-muted-foreground shrink-0" />
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-foreground truncate">
+                      {document.fileName}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {formatSize(document.fileSize)} ·{" "}
+                      {new Date(document.createdAt).toLocaleDateString()}
+                      {document.uploadedByName &&
+                        ` · ${document.uploadedByName}`}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  <Badge className={status.className}>{status.label}</Badge>
+                  {document.summaryStatus === "failed" && (
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      title="Retry summary"
+                      disabled={summarizeMutation.isPending}
+                      onClick={() => summarizeMutation.mutate(document.id)}
+                    >
+                      <RefreshCw className="h-4 w-4" />
+                    </Button>
+                  )}
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    title="Download"
+                    onClick={() => handleDownload(document)}
+                  >
+                    <Download className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    title="Delete"
+                    disabled={deleteMutation.isPending}
+                    onClick={() => handleDelete(document)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+              {document.summary && (
+                <p className="text-sm text-muted-foreground whitespace-pre-line">
+                  {document.summary}
+                </p>
+              )}
+              {document.summaryStatus === "failed" && document.summaryError && (
+                <p className="text-xs text-destructive flex items-center gap-1">
+                  <AlertCircle className="h-3 w-3" />
+                  {document.summaryError}
+                </p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
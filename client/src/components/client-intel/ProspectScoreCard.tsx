@@ -0,0 +1,140 @@
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { apiRequest } from "@/lib/queryClient";
+import type {
+  ClientIntelAnalysisStatus,
+  ProspectScore,
+  ProspectScoreComparison,
+} from "@shared/client-intel";
+import { AlertCircle, Gauge, Sparkles } from "lucide-react";
+
+export const prospectScoreKey = (contactId: string) => [
+  "/api/client-intel/prospect-score",
+  contactId,
+];
+
+const TIER_CLASSES: Record<string, string> = {
+  A: "bg-green-100 text-green-800",
+  B: "bg-yellow-100 text-yellow-800",
+  C: "bg-gray-100 text-gray-800",
+};
+
+interface ProspectScoreCardProps {
+  contactId: string;
+  // From an insights run this session; newer than the stored AI score
+  aiScore?: ProspectScore | null;
+  aiAnalysis?: ClientIntelAnalysisStatus["prospectScore"];
+}
+
+// Rules-based lead score with its per-factor breakdown, next to the AI score
+export function ProspectScoreCard({
+  contactId,
+  aiScore,
+  aiAnalysis,
+}: ProspectScoreCardProps) {
+  const { data, isLoading, isError } = useQuery({
+    queryKey: prospectScoreKey(contactId),
+    queryFn: async () =>
+      await apiRequest<ProspectScoreComparison>(
+        "GET",
+        `/api/client-intel/prospect-score/${contactId}`,
+      ),
+  });
+
+  const stored = data?.ai;
+  let ai: ProspectScore | null = null;
+  let aiFailed = false;
+  if (aiAnalysis) {
+    ai = aiScore ?? null;
+    aiFailed = aiAnalysis.status === "failed";
+  } else if (stored) {
+    ai = stored.status === "ok" ? (stored.parsed as ProspectScore) : null;
+    aiFailed = stored.status === "failed";
+  }
+
+  return (
+    <div className="bg-muted border rounded-lg p-4">
+      <h4 className="font-semibold text-foreground mb-3 flex items-center gap-2">
+        <Gauge className="h-4 w-4" />
+        Lead Score
+      </h4>
+      {isLoading && (
+        <p className="text-sm text-muted-foreground">Scoring prospect...</p>
+      )}
+      {isError && (
+        <p className="text-sm text-destructive">
+          Couldn't calculate the rules score.
+        </p>
+      )}
+      {data && (
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <p className="text-xs text-muted-foreground">Rules score</p>
+              <div className="flex items-center gap-2">
+                <span className="text-2xl font-semibold text-foreground">
+                  {data.rules.score}
+                </span>
+                <span className="text-sm text-muted-foreground">/ 100</span>
+                <Badge className={TIER_CLASSES[data.rules.tier]}>
+                  Tier {data.rules.tier}
+                </Badge>
+              </div>
+            </div>
+            <div>
+              <p className="text-xs text-muted-foreground flex items-center gap-1">
+                <Sparkles className="h-3 w-3" />
+                AI score
+              </p>
+              {ai && (
+                <div className="flex items-center gap-2">
+                  <span className="text-2xl font-semibold text-foreground">
+                    {ai.score}
+                  </span>
+                  <span className="text-sm text-muted-foreground">/ 10</span>
+                  <Badge className={TIER_CLASSES[ai.tier]}>
+                    Tier {ai.tier}
+                  </Badge>
+                </div>
+              )}
+              {!ai && aiFailed && (
+                <p className="text-sm text-destructive flex items-center gap-1 mt-1">
+                  <AlertCircle className="h-4 w-4" />
+                  Analysis failed
+                </p>
+              )}
+              {!ai && !aiFailed && (
+                <p className="text-sm text-muted-foreground mt-1">
+                  Generate insights to get an AI score
+                </p>
+              )}
+            </div>
+          </div>
+          {ai && (
+            <p className="text-sm text-muted-foreground">{ai.reasoning}</p>
+          )}
+          <div className="space-y-2">
+            {data.rules.factors.map((factor) => (
+              <div key={factor.factor}>
+                <div className="flex justify-between text-xs">
+                  <span className="text-foreground">
+                    {factor.label}
+                    <span className="text-muted-foreground">
+                      {" "}
+                      · {factor.detail}
+                    </span>
+                  </span>
+                  <span className="text-muted-foreground">
+                    {factor.points} / {factor.maxPoints}
+                  </span>
+                </div>
+                <Progress value={factor.value * 100} className="h-1.5" />
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+import type { UseFormReturn } from "react-hook-form";
+import { CalendarClock } from "lucide-react";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { KbCard } from "@/components/seedkb/KbCard";
+import type { QuoteFormFields } from "@/features/quote-calculator/schema";
+import {
+  CONTRACT_TERMS,
+  CONTRACT_TERM_LABELS,
+  termDiscountPct,
+  type ContractTerm,
+  type ContractTermResult,
+} from "@shared/pricing-terms";
+
+interface ContractTermSectionProps {
+  form: UseFormReturn<QuoteFormFields>;
+  terms?: ContractTermResult;
+  configuredPct?: Partial<Record<ContractTerm, number>>;
+}
+
+const fmt = (n: number) =>
+  `$${n.toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+
+export default function ContractTermSection({
+  form,
+  terms,
+  configuredPct,
+}: ContractTermSectionProps) {
+  const contractTerm = form.watch("contractTerm") || "monthly";
+
+  return (
+    <KbCard className="p-6 mb-8">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xl font-semibold text-foreground">Contract Term</h3>
+        {terms && terms.discountPct > 0 && (
+          <Badge variant="secondary">{terms.discountPct}% term discount</Badge>
+        )}
+      </div>
+      <hr className="border mt-3 mb-5" />
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6 items-start">
+        <div className="space-y-2">
+          <Label htmlFor="contractTerm" className="flex items-center gap-2">
+            <CalendarClock className="h-4 w-4" />
+            Term and billing
+          </Label>
+          <Select
+            value={contractTerm}
+            onValueChange={(v) =>
+              form.setValue("contractTerm", v as ContractTerm, {
+                shouldDirty: true,
+              })
+            }
+          >
+            <SelectTrigger id="contractTerm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CONTRACT_TERMS.map((term) => {
+                const pct = termDiscountPct(term, configuredPct);
+                return (
+                  <SelectItem key={term} value={term}>
+                    {CONTRACT_TERM_LABELS[term]}
+                    {pct > 0 ? ` (${pct}% off monthly)` : ""}
+                  </SelectItem>
+                );
+              })}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {terms && terms.term !== "monthly" && (
+          <div className="rounded-lg p-4 border bg-muted text-sm space-y-1">
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Commitment</span>
+              <span className="font-medium">
+                {terms.commitmentMonths} months
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Monthly savings</span>
+              <span className="font-medium">{fmt(terms.discountMonthly)}</span>
+            </div>
+            {terms.billingFrequency === "annually" && (
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">
+                  Billed up front (first year)
+                </span>
+                <span className="font-semibold">{fmt(terms.prepayAmount)}</span>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </KbCard>
+  );
+}
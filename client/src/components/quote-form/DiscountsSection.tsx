@@ -0,0 +1,463 @@
+import { useState } from "react";
+import type { UseFormReturn } from "react-hook-form";
+import {
+  AlertTriangle,
+  CheckCircle,
+  ChevronDown,
+  ChevronUp,
+  Plus,
+  Tag,
+  Trash2,
+  X,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { KbCard } from "@/components/seedkb/KbCard";
+import { useToast } from "@/hooks/use-toast";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import type { QuoteFormFields } from "@/features/quote-calculator/schema";
+import { ApprovalWorkflow } from "@/features/quote-calculator/components/ApprovalWorkflow";
+import {
+  DISCOUNTABLE_FEES,
+  DISCOUNT_SERVICE_LABELS,
+  DISCOUNT_SERVICE_LINES,
+  describeDiscount,
+  type AppliedLineItemDiscount,
+  type DiscountKind,
+  type DiscountServiceLine,
+  type DiscountTotals,
+  type LineItemDiscount,
+} from "@shared/pricing-discounts";
+
+interface DiscountsSectionProps {
+  form: UseFormReturn<QuoteFormFields>;
+  applied: AppliedLineItemDiscount[];
+  totals?: DiscountTotals;
+  approvalThresholdPct: number;
+  quoteId?: number;
+}
+
+const KIND_LABELS: Record<DiscountKind, string> = {
+  percent: "% off",
+  fixed: "$ off",
+  override: "Set price",
+};
+
+const fmt = (n: number) =>
+  `$${n.toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+
+export default function DiscountsSection({
+  form,
+  applied,
+  totals,
+  approvalThresholdPct,
+  quoteId,
+}: DiscountsSectionProps) {
+  const { toast } = useToast();
+  const [isExpanded, setIsExpanded] = useState(true);
+  const [promoInput, setPromoInput] = useState("");
+  const [isApplyingPromo, setIsApplyingPromo] = useState(false);
+  const [isApprovalOpen, setIsApprovalOpen] = useState(false);
+  // Percent covered by the approval granted in this session
+  const [approvedPct, setApprovedPct] = useState<number | null>(null);
+
+  const discounts: LineItemDiscount[] = form.watch("lineItemDiscounts") || [];
+  const promoCode = form.watch("promoCode");
+  const manual = discounts.filter((d) => d.source !== "promo");
+  const promo = discounts.filter((d) => d.source === "promo");
+
+  const setDiscounts = (next: LineItemDiscount[]) =>
+    form.setValue("lineItemDiscounts", next, { shouldDirty: true });
+
+  const updateManual = (index: number, patch: Partial<LineItemDiscount>) => {
+    const next = manual.map((d, i) => {
+      if (i !== index) return d;
+      const merged = { ...d, ...patch } as LineItemDiscount;
+      // Keep appliesTo valid for the chosen service; duration is monthly-only
+      if (!DISCOUNTABLE_FEES[merged.service].includes(merged.appliesTo)) {
+        merged.appliesTo = DISCOUNTABLE_FEES[merged.service][0] ?? "monthly";
+      }
+      if (merged.appliesTo === "setup") merged.durationMonths = null;
+      return merged;
+    });
+    setDiscounts([...next, ...promo]);
+  };
+
+  const addManual = () =>
+    setDiscounts([
+      ...manual,
+      {
+        service: "bookkeeping",
+        appliesTo: "monthly",
+        kind: "percent",
+        value: 0,
+        durationMonths: null,
+        source: "manual",
+      },
+      ...promo,
+    ]);
+
+  const removeManual = (index: number) =>
+    setDiscounts([...manual.filter((_, i) => i !== index), ...promo]);
+
+  const appliedFor = (d: LineItemDiscount) =>
+    applied.find(
+      (a) =>
+        a.source === "manual" &&
+        a.service === d.service &&
+        a.appliesTo === d.appliesTo &&
+        a.kind === d.kind &&
+        a.value === d.value,
+    );
+
+  const applyPromo = async () => {
+    const code = promoInput.trim();
+    if (!code) return;
+    setIsApplyingPromo(true);
+    try {
+      const result = await apiRequest<{
+        code: string;
+        discounts: LineItemDiscount[];
+      }>("POST", "/api/pricing/promo-codes/validate", { code });
+      setDiscounts([...manual, ...result.discounts]);
+      form.setValue("promoCode", result.code, { shouldDirty: true });
+      setPromoInput("");
+      toast({
+        title: "Promo Applied",
+        description: `${result.code}: ${result.discounts.map((d) => describeDiscount({ ...d, durationMonths: d.durationMonths ?? null, promoCode: null })).join(", ")}`,
+      });
+    } catch (error) {
+      toast({
+        title: "Promo Code Rejected",
+        description: apiErrorMessage(error, "Promo code could not be applied."),
+        variant: "destructive",
+      });
+    } finally {
+      setIsApplyingPromo(false);
+    }
+  };
+
+  const removePromo = () => {
+    setDiscounts(manual);
+    form.setValue("promoCode", "", { shouldDirty: true });
+  };
+
+  const requestApproval = () => {
+    if (!form.getValues("contactEmail")) {
+      toast({
+        title: "Error",
+        description: "Contact email is required to request approval.",
+        variant: "destructive",
+      });
+      return;
+    }
+    setIsApprovalOpen(true);
+  };
+
+  const maxManualDiscountPct = totals?.maxManualDiscountPct ?? 0;
+  const isApproved =
+    approvedPct !== null &&
+    maxManualDiscountPct <= approvedPct &&
+    !!form.watch("discountApprovalRequestId");
+
+  return (
+    <KbCard className="p-6 mb-8">
+      <div
+        className="cursor-pointer select-none"
+        role="button"
+        tabIndex={0}
+        aria-expanded={isExpanded}
+        onClick={() => setIsExpanded(!isExpanded)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter" || e.key === " ") {
+            e.preventDefault();
+            setIsExpanded(!isExpanded);
+          }
+        }}
+      >
+        <div className="flex items-center justify-between group p-3 -m-3 rounded-lg transition-colors">
+          <h3 className="text-xl font-semibold text-foreground">
+            Discounts & Overrides
+          </h3>
+          <div className="flex items-center gap-2 text-muted-foreground">
+            {totals?.monthly || totals?.setup ? (
+              <Badge variant="secondary">
+                -{fmt(totals?.monthly || 0)}/mo · -{fmt(totals?.setup || 0)}{" "}
+                setup
+              </Badge>
+            ) : null}
+            <span className="text-sm font-medium">
+              {isExpanded ? "Collapse" : "Expand"}
+            </span>
+            {isExpanded ? (
+              <ChevronUp className="h-5 w-5 transition-transform" />
+            ) : (
+              <ChevronDown className="h-5 w-5 transition-transform" />
+            )}
+          </div>
+        </div>
+        <hr className="border mt-3 mb-5" />
+      </div>
+
+      {isExpanded && (
+        <div className="space-y-6 animate-in slide-in-from-top-2 duration-300">
+          {/* Manual line-item discounts */}
+          <div className="space-y-3">
+            {manual.length === 0 && (
+              <p className="text-sm text-muted-foreground">
+                No manual discounts. List prices apply.
+              </p>
+            )}
+            {manual.map((d, index) => {
+              const result = appliedFor(d);
+              return (
+                <div
+                  key={index}
+                  className="rounded-lg p-4 border bg-muted space-y-3"
+                >
+                  <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                    <Select
+                      value={d.service}
+                      onValueChange={(v) =>
+                        updateManual(index, {
+                          service: v as DiscountServiceLine,
+                        })
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {DISCOUNT_SERVICE_LINES.map((s) => (
+                          <SelectItem key={s} value={s}>
+                            {DISCOUNT_SERVICE_LABELS[s]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Select
+                      value={d.appliesTo}
+                      onValueChange={(v) =>
+                        updateManual(index, {
+                          appliesTo: v as "monthly" | "setup",
+                        })
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {DISCOUNTABLE_FEES[d.service].map((fee) => (
+                          <SelectItem key={fee} value={fee}>
+                            {fee === "monthly" ? "Monthly fee" : "Setup fee"}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Select
+                      value={d.kind}
+                      onValueChange={(v) =>
+                        updateManual(index, { kind: v as DiscountKind })
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(KIND_LABELS) as DiscountKind[]).map(
+                          (k) => (
+                            <SelectItem key={k} value={k}>
+                              {KIND_LABELS[k]}
+                            </SelectItem>
+                          ),
+                        )}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      type="number"
+                      min="0"
+                      max={d.kind === "percent" ? 100 : undefined}
+                      aria-label="Discount value"
+                      value={d.value}
+                      onChange={(e) =>
+                        updateManual(index, {
+                          value: Math.max(0, Number(e.target.value) || 0),
+                        })
+                      }
+                    />
+                    <Input
+                      type="number"
+                      min="1"
+                      placeholder="Months (blank = ongoing)"
+                      aria-label="Duration in months"
+                      disabled={d.appliesTo === "setup"}
+                      value={d.durationMonths ?? ""}
+                      onChange={(e) =>
+                        updateManual(index, {
+                          durationMonths: e.target.value
+                            ? Math.max(1, parseInt(e.target.value))
+                            : null,
+                        })
+                      }
+                    />
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <Input
+                      placeholder="Reason (e.g. multi-service bundle)"
+                      value={d.reason || ""}
+                      onChange={(e) =>
+                        updateManual(index, { reason: e.target.value })
+                      }
+                    />
+                    <div className="text-sm whitespace-nowrap text-muted-foreground">
+                      {result
+                        ? `${fmt(result.listPrice)} → ${fmt(result.discountedPrice)}`
+                        : "Service not on quote"}
+                    </div>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      aria-label="Remove discount"
+                      onClick={() => removeManual(index)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+            <Button type="button" variant="outline" onClick={addManual}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Discount
+            </Button>
+          </div>
+
+          {/* Promo code */}
+          <div className="space-y-2">
+            <Label className="flex items-center gap-2">
+              <Tag className="h-4 w-4" />
+              Promo Code
+            </Label>
+            {promoCode ? (
+              <div className="flex flex-wrap items-center gap-2">
+                <Badge variant="default">{promoCode}</Badge>
+                {promo.map((d, i) => (
+                  <span key={i} className="text-sm text-muted-foreground">
+                    {DISCOUNT_SERVICE_LABELS[d.service]}{" "}
+                    {describeDiscount({
+                      ...d,
+                      durationMonths: d.durationMonths ?? null,
+                      promoCode: null,
+                    })}
+                  </span>
+                ))}
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  aria-label="Remove promo code"
+                  onClick={removePromo}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ) : (
+              <div className="flex gap-2 max-w-sm">
+                <Input
+                  placeholder="Enter promo code"
+                  value={promoInput}
+                  onChange={(e) => setPromoInput(e.target.value)}
+                />
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={applyPromo}
+                  disabled={isApplyingPromo || !promoInput.trim()}
+                >
+                  {isApplyingPromo ? "Checking..." : "Apply"}
+                </Button>
+              </div>
+            )}
+          </div>
+
+          {/* Reason for the quote's discounts */}
+          <div className="space-y-2">
+            <Label htmlFor="discountReason">Discount Reason</Label>
+            <Textarea
+              id="discountReason"
+              placeholder="Why is this client getting a discount?"
+              {...form.register("discountReason")}
+            />
+          </div>
+
+          {/* Approval for discounts above the threshold */}
+          {totals?.requiresApproval && (
+            <div className="rounded-lg p-4 border border-amber-500 bg-amber-50 space-y-3">
+              <div className="flex items-start gap-2 text-amber-900">
+                <AlertTriangle className="h-5 w-5 mt-0.5 flex-shrink-0" />
+                <div className="text-sm">
+                  A {totals.maxManualDiscountPct}% discount exceeds the{" "}
+                  {approvalThresholdPct}% limit and needs admin approval before
+                  this quote can be saved. Quotes whose discount was already
+                  approved at this level can be saved as is.
+                </div>
+              </div>
+              {isApproved ? (
+                <div className="flex items-center gap-2 text-sm text-green-800">
+                  <CheckCircle className="h-4 w-4" />
+                  Approved for discounts up to {approvedPct}%.
+                </div>
+              ) : (
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={requestApproval}
+                >
+                  Request Approval
+                </Button>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+      {isApprovalOpen && (
+        <ApprovalWorkflow
+          type="discount"
+          contactEmail={form.getValues("contactEmail")}
+          quoteId={quoteId}
+          context={`${maxManualDiscountPct}% discount (limit ${approvalThresholdPct}%): ${
+            form.getValues("discountReason") || "no discount reason given"
+          }`}
+          requestedOverride={{ maxDiscountPct: maxManualDiscountPct }}
+          quoteSnapshot={{
+            lineItemDiscounts: discounts,
+            promoCode: promoCode || null,
+            discountTotals: totals,
+            applied,
+          }}
+          onApproved={(approvalRequestId) => {
+            form.setValue("discountApprovalRequestId", approvalRequestId);
+            setApprovedPct(maxManualDiscountPct);
+            setIsApprovalOpen(false);
+            toast({
+              title: "Approval Granted",
+              description: `Discounts up to ${maxManualDiscountPct}% approved.`,
+            });
+          }}
+          onCancel={() => setIsApprovalOpen(false)}
+        />
+      )}
+    </KbCard>
+  );
+}
@@ -0,0 +1,210 @@
+import { useEffect, useMemo, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+import { diffKbVersions, type KbDiffRow } from "@shared/kb";
+import { RotateCcw } from "lucide-react";
+
+interface KbArticleVersionRow {
+  id: number;
+  version: number;
+  title: string;
+  content: string;
+  authorId: number;
+  authorName: string | null;
+  changeNote: string | null;
+  createdAt: string;
+}
+
+interface KbArticleHistoryDialogProps {
+  articleId: number | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const ROW_STYLES: Record<KbDiffRow["type"], [string, string]> = {
+  same: ["", ""],
+  added: ["bg-gray-50", "bg-green-50"],
+  removed: ["bg-red-50", "bg-gray-50"],
+  changed: ["bg-red-50", "bg-green-50"],
+};
+
+// Version list, side-by-side diff between any two versions, and restore
+export function KbArticleHistoryDialog({
+  articleId,
+  onOpenChange,
+}: KbArticleHistoryDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [fromId, setFromId] = useState<number | null>(null);
+  const [toId, setToId] = useState<number | null>(null);
+
+  const { data: versions = [], isLoading } = useQuery({
+    queryKey: ["/api/kb/articles", articleId, "versions"],
+    queryFn: async () =>
+      await apiRequest<KbArticleVersionRow[]>(
+        "GET",
+        `/api/kb/articles/${articleId}/versions`,
+      ),
+    enabled: articleId !== null,
+  });
+
+  // Default to comparing the latest version with the one before it
+  useEffect(() => {
+    setToId(versions[0]?.id ?? null);
+    setFromId(versions[1]?.id ?? versions[0]?.id ?? null);
+  }, [versions]);
+
+  const from = versions.find((v) => v.id === fromId);
+  const to = versions.find((v) => v.id === toId);
+  const diff = useMemo(
+    () =>
+      from && to
+        ? [
+            ...diffKbVersions(from.title, to.title),
+            ...diffKbVersions(from.content, to.content),
+          ]
+        : [],
+    [from, to],
+  );
+
+  const restoreMutation = useMutation({
+    mutationFn: async (version: KbArticleVersionRow) =>
+      await apiRequest(
+        "POST",
+        `/api/kb/articles/${articleId}/versions/${version.id}/restore`,
+        {},
+      ),
+    onSuccess: (_, version) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/kb/articles"] });
+      toast({
+        title: "Version restored",
+        description: `Version ${version.version} is now the current version`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Restore failed",
+        description: apiErrorMessage(error, "Failed to restore version"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const versionLabel = (v: KbArticleVersionRow) =>
+    `v${v.version} · ${new Date(v.createdAt).toLocaleString()}`;
+
+  return (
+    <Dialog open={articleId !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-[95vw] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Version History</DialogTitle>
+        </DialogHeader>
+
+        {isLoading && <div className="text-center py-8">Loading...</div>}
+        {!isLoading && versions.length === 0 && (
+          <div className="text-center py-8 text-gray-500">
+            No versions recorded yet
+          </div>
+        )}
+
+        {versions.length > 0 && (
+          <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+            <div className="space-y-2">
+              {versions.map((v, i) => (
+                <div key={v.id} className="border rounded-md p-3 text-sm">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-semibold">Version {v.version}</span>
+                    {i === 0 ? (
+                      <span className="text-xs text-green-700">Current</span>
+                    ) : (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => restoreMutation.mutate(v)}
+                        disabled={restoreMutation.isPending}
+                      >
+                        <RotateCcw className="h-3 w-3 mr-1" />
+                        Restore
+                      </Button>
+                    )}
+                  </div>
+                  <div className="text-gray-500">
+                    {v.authorName ?? `User #${v.authorId}`} ·{" "}
+                    {new Date(v.createdAt).toLocaleString()}
+                  </div>
+                  {v.changeNote && (
+                    <div className="mt-1 text-gray-700">{v.changeNote}</div>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            <div className="lg:col-span-3 space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                {[
+                  { value: fromId, onChange: setFromId },
+                  { value: toId, onChange: setToId },
+                ].map((side, i) => (
+                  <Select
+                    key={i}
+                    value={side.value ? String(side.value) : undefined}
+                    onValueChange={(value) => side.onChange(Number(value))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {versions.map((v) => (
+                        <SelectItem key={v.id} value={String(v.id)}>
+                          {versionLabel(v)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ))}
+              </div>
+
+              <div className="border rounded-md divide-y text-sm">
+                {diff.every((row) => row.type === "same") && (
+                  <div className="p-3 text-gray-500">
+                    These versions are identical
+                  </div>
+                )}
+                {diff.map((row, i) => {
+                  const [leftStyle, rightStyle] = ROW_STYLES[row.type];
+                  return (
+                    <div key={i} className="grid grid-cols-2 divide-x">
+                      <div className={cn("p-2 whitespace-pre-wrap", leftStyle)}>
+                        {row.left}
+                      </div>
+                      <div
+                        className={cn("p-2 whitespace-pre-wrap", rightStyle)}
+                      >
+                        {row.right}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
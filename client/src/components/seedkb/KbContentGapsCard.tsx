@@ -0,0 +1,46 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { apiRequest } from "@/lib/queryClient";
+import type { KbContentGap } from "@shared/kb";
+import { SearchX } from "lucide-react";
+
+// Zero-result searches from the last 90 days: topics staff look for that
+// the knowledge base doesn't cover yet
+export function KbContentGapsCard() {
+  const { data: gaps = [], isLoading } = useQuery<KbContentGap[]>({
+    queryKey: ["/api/kb/content-gaps"],
+    queryFn: async () =>
+      await apiRequest<KbContentGap[]>("GET", "/api/kb/content-gaps"),
+  });
+
+  return (
+    <Card className="bg-white/15 backdrop-blur-md border-white/30">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center gap-2">
+          <SearchX className="h-5 w-5" />
+          Content Gaps
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {isLoading && <div className="text-white/70 text-sm">Loading...</div>}
+        {!isLoading && gaps.length === 0 && (
+          <div className="text-white/70 text-sm">
+            Every recent search found something
+          </div>
+        )}
+        {gaps.slice(0, 15).map((gap) => (
+          <div
+            key={gap.query}
+            className="flex items-center justify-between gap-2 text-sm text-white"
+            title={`Last searched ${new Date(gap.lastSearchedAt).toLocaleDateString()}`}
+          >
+            <span className="truncate">&ldquo;{gap.query}&rdquo;</span>
+            <span className="shrink-0 text-white/70">
+              {gap.searches}× · {gap.users} {gap.users === 1 ? "user" : "users"}
+            </span>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
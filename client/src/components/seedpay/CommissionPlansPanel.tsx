@@ -0,0 +1,764 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useSalesRepList } from "@/hooks/useSalesRepList";
+import { apiErrorMessage, apiRequest, queryClient } from "@/lib/queryClient";
+import { seedpayKeys } from "@/lib/queryKeys";
+import {
+  DEFAULT_COMMISSION_PLAN_RULES,
+  formatCommissionRate,
+  resolveCommissionPlan,
+  type ClawbackRule,
+  type ClawbackTrigger,
+  type CommissionPlanRules,
+  type MilestoneBonusTier,
+  type MonthlyBonusTier,
+} from "@shared/commission-plans";
+import { Lock, Plus, Trash2 } from "lucide-react";
+
+interface CommissionPlanRow {
+  id: number;
+  name: string;
+  description: string | null;
+  rulesJson: string;
+  rules: CommissionPlanRules;
+  isDefault: boolean;
+  effectiveFrom: string;
+  effectiveTo: string | null;
+  commissionCount: number;
+}
+
+interface PlanAssignmentRow {
+  id: number;
+  salesRepId: number;
+  planId: number;
+  effectiveFrom: string;
+  effectiveTo: string | null;
+}
+
+// Percent inputs are edited as whole numbers and stored as fractions
+const toPercent = (rate: number) => Math.round(rate * 1000) / 10;
+
+const CLAWBACK_TRIGGER_LABELS: Record<ClawbackTrigger, string> = {
+  subscription_cancelled: "Client cancels",
+  invoice_cancelled: "Invoice refunded",
+};
+
+export function CommissionPlansPanel() {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [rules, setRules] = useState<CommissionPlanRules>(
+    DEFAULT_COMMISSION_PLAN_RULES,
+  );
+  const [effectiveFrom, setEffectiveFrom] = useState("");
+  const [isDefault, setIsDefault] = useState(false);
+
+  const { data: plans = [], isLoading } = useQuery<CommissionPlanRow[]>({
+    queryKey: seedpayKeys.commissionPlans.admin(),
+    queryFn: async () =>
+      await apiRequest<CommissionPlanRow[]>(
+        "GET",
+        "/api/admin/commission-plans",
+      ),
+  });
+
+  const { data: assignments = [] } = useQuery<PlanAssignmentRow[]>({
+    queryKey: seedpayKeys.commissionPlans.assignments(),
+    queryFn: async () =>
+      await apiRequest<PlanAssignmentRow[]>(
+        "GET",
+        "/api/admin/commission-plans/assignments",
+      ),
+  });
+
+  const { data: salesReps = [] } = useSalesRepList();
+
+  const invalidate = () =>
+    queryClient.invalidateQueries({
+      queryKey: seedpayKeys.commissionPlans.root(),
+    });
+
+  const createMutation = useMutation({
+    mutationFn: async () =>
+      await apiRequest("POST", "/api/admin/commission-plans", {
+        name,
+        description: description || null,
+        rules,
+        isDefault,
+        effectiveFrom: effectiveFrom || undefined,
+      }),
+    onSuccess: () => {
+      toast({ title: "Commission plan created", description: name });
+      setName("");
+      setDescription("");
+      setRules(DEFAULT_COMMISSION_PLAN_RULES);
+      setEffectiveFrom("");
+      setIsDefault(false);
+      invalidate();
+    },
+    onError: (error) => {
+      toast({
+        title: "Create failed",
+        description: apiErrorMessage(error, "Failed to create commission plan"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({
+      plan,
+      patch,
+    }: {
+      plan: CommissionPlanRow;
+      patch: { isDefault?: boolean; effectiveTo?: string };
+    }) =>
+      await apiRequest("PUT", `/api/admin/commission-plans/${plan.id}`, patch),
+    onSuccess: invalidate,
+    onError: (error) => {
+      toast({
+        title: "Update failed",
+        description: apiErrorMessage(error, "Failed to update commission plan"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const assignMutation = useMutation({
+    mutationFn: async ({
+      salesRepId,
+      planId,
+    }: {
+      salesRepId: number;
+      planId: number;
+    }) =>
+      await apiRequest(
+        "POST",
+        `/api/admin/sales-reps/${salesRepId}/commission-plan`,
+        { planId },
+      ),
+    onSuccess: () => {
+      toast({
+        title: "Plan assigned",
+        description: "Applies to commissions earned from now on",
+      });
+      invalidate();
+    },
+    onError: (error) => {
+      toast({
+        title: "Assignment failed",
+        description: apiErrorMessage(error, "Failed to assign commission plan"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateRate = (key: keyof CommissionPlanRules["rates"], pct: string) =>
+    setRules({
+      ...rules,
+      rates: {
+        ...rules.rates,
+        [key]: Math.min(100, Math.max(0, Number(pct) || 0)) / 100,
+      },
+    });
+
+  const updateMonthlyTier = (index: number, patch: Partial<MonthlyBonusTier>) =>
+    setRules({
+      ...rules,
+      monthlyBonusTiers: rules.monthlyBonusTiers.map((t, i) =>
+        i === index ? { ...t, ...patch } : t,
+      ),
+    });
+
+  const updateMilestone = (index: number, patch: Partial<MilestoneBonusTier>) =>
+    setRules({
+      ...rules,
+      milestoneBonuses: rules.milestoneBonuses.map((m, i) =>
+        i === index ? { ...m, ...patch } : m,
+      ),
+    });
+
+  const updateClawbackRule = (index: number, patch: Partial<ClawbackRule>) =>
+    setRules({
+      ...rules,
+      clawbackRules: rules.clawbackRules.map((r, i) =>
+        i === index ? { ...r, ...patch } : r,
+      ),
+    });
+
+  const activePlans = plans.filter(
+    (p) => !p.effectiveTo || new Date(p.effectiveTo) > new Date(),
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Commission Plans</CardTitle>
+        <CardDescription>
+          Rates, residual window, bonus ladders and clawbacks per sales rep.
+          Commissions keep the plan they were earned under; plans with earned
+          commissions are locked.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-8">
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div>
+              <Label htmlFor="plan-name">Name</Label>
+              <Input
+                id="plan-name"
+                placeholder="2027 Sales Plan"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+              />
+            </div>
+            <div className="md:col-span-2">
+              <Label htmlFor="plan-description">Description</Label>
+              <Input
+                id="plan-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="plan-effective-from">Effective from</Label>
+              <Input
+                id="plan-effective-from"
+                type="date"
+                value={effectiveFrom}
+                onChange={(e) => setEffectiveFrom(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="plan-setup-rate">Setup fee %</Label>
+              <Input
+                id="plan-setup-rate"
+                type="number"
+                min="0"
+                max="100"
+                value={toPercent(rules.rates.setupRate)}
+                onChange={(e) => updateRate("setupRate", e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="plan-first-month-rate">Month 1 %</Label>
+              <Input
+                id="plan-first-month-rate"
+                type="number"
+                min="0"
+                max="100"
+                value={toPercent(rules.rates.firstMonthRate)}
+                onChange={(e) => updateRate("firstMonthRate", e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="plan-residual-rate">Residual %</Label>
+              <Input
+                id="plan-residual-rate"
+                type="number"
+                min="0"
+                max="100"
+                value={toPercent(rules.rates.residualRate)}
+                onChange={(e) => updateRate("residualRate", e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="plan-residual-through">
+                Residuals through month
+              </Label>
+              <Input
+                id="plan-residual-through"
+                type="number"
+                min="1"
+                value={rules.residualThroughMonth}
+                onChange={(e) =>
+                  setRules({
+                    ...rules,
+                    residualThroughMonth: Math.max(
+                      1,
+                      parseInt(e.target.value) || 1,
+                    ),
+                  })
+                }
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Monthly bonus tiers</Label>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() =>
+                    setRules({
+                      ...rules,
+                      monthlyBonusTiers: [
+                        ...rules.monthlyBonusTiers,
+                        {
+                          minClients: 1,
+                          amount: 0,
+                          bonusType: "cash",
+                          description: "New tier",
+                        },
+                      ],
+                    })
+                  }
+                >
+                  <Plus className="w-4 h-4" />
+                </Button>
+              </div>
+              {rules.monthlyBonusTiers.map((tier, i) => (
+                <div key={i} className="flex gap-2">
+                  <Input
+                    aria-label="Minimum clients"
+                    type="number"
+                    min="1"
+                    className="w-20"
+                    value={tier.minClients}
+                    onChange={(e) =>
+                      updateMonthlyTier(i, {
+                        minClients: Math.max(1, parseInt(e.target.value) || 1),
+                      })
+                    }
+                  />
+                  <Input
+                    aria-label="Bonus amount"
+                    type="number"
+                    min="0"
+                    className="w-24"
+                    value={tier.amount}
+                    onChange={(e) =>
+                      updateMonthlyTier(i, {
+                        amount: Math.max(0, Number(e.target.value) || 0),
+                      })
+                    }
+                  />
+                  <Input
+                    aria-label="Description"
+                    value={tier.description}
+                    onChange={(e) =>
+                      updateMonthlyTier(i, { description: e.target.value })
+                    }
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    aria-label="Remove tier"
+                    onClick={() =>
+                      setRules({
+                        ...rules,
+                        monthlyBonusTiers: rules.monthlyBonusTiers.filter(
+                          (_, j) => j !== i,
+                        ),
+                      })
+                    }
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Milestone bonuses</Label>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() =>
+                    setRules({
+                      ...rules,
+                      milestoneBonuses: [
+                        ...rules.milestoneBonuses,
+                        {
+                          threshold: 1,
+                          amount: 0,
+                          includesEquity: false,
+                          description: "New milestone",
+                        },
+                      ],
+                    })
+                  }
+                >
+                  <Plus className="w-4 h-4" />
+                </Button>
+              </div>
+              {rules.milestoneBonuses.map((milestone, i) => (
+                <div key={i} className="flex gap-2">
+                  <Input
+                    aria-label="Client threshold"
+                    type="number"
+                    min="1"
+                    className="w-20"
+                    value={milestone.threshold}
+                    onChange={(e) =>
+                      updateMilestone(i, {
+                        threshold: Math.max(1, parseInt(e.target.value) || 1),
+                      })
+                    }
+                  />
+                  <Input
+                    aria-label="Bonus amount"
+                    type="number"
+                    min="0"
+                    className="w-24"
+                    value={milestone.amount}
+                    onChange={(e) =>
+                      updateMilestone(i, {
+                        amount: Math.max(0, Number(e.target.value) || 0),
+                      })
+                    }
+                  />
+                  <Input
+                    aria-label="Description"
+                    value={milestone.description}
+                    onChange={(e) =>
+                      updateMilestone(i, { description: e.target.value })
+                    }
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    aria-label="Remove milestone"
+                    onClick={() =>
+                      setRules({
+                        ...rules,
+                        milestoneBonuses: rules.milestoneBonuses.filter(
+                          (_, j) => j !== i,
+                        ),
+                      })
+                    }
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Clawback rules</Label>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() =>
+                  setRules({
+                    ...rules,
+                    clawbackRules: [
+                      ...rules.clawbackRules,
+                      {
+                        trigger: "subscription_cancelled",
+                        commissionTypes: ["setup", "month_1"],
+                        withinDays: 90,
+                        percent: 1,
+                        earnedAfterEventOnly: false,
+                        description: "New clawback rule",
+                      },
+                    ],
+                  })
+                }
+              >
+                <Plus className="w-4 h-4" />
+              </Button>
+            </div>
+            {rules.clawbackRules.map((rule, i) => (
+              <div key={i} className="flex items-center gap-2">
+                <Select
+                  value={rule.trigger}
+                  onValueChange={(trigger) =>
+                    updateClawbackRule(i, {
+                      trigger: trigger as ClawbackTrigger,
+                    })
+                  }
+                >
+                  <SelectTrigger className="w-40" aria-label="Trigger">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(CLAWBACK_TRIGGER_LABELS).map(
+                      ([value, label]) => (
+                        <SelectItem key={value} value={value}>
+                          {label}
+                        </SelectItem>
+                      ),
+                    )}
+                  </SelectContent>
+                </Select>
+                <Input
+                  aria-label="Commission types"
+                  className="w-48"
+                  value={rule.commissionTypes.join(", ")}
+                  onChange={(e) =>
+                    updateClawbackRule(i, {
+                      commissionTypes: e.target.value
+                        .split(",")
+                        .map((t) => t.trim())
+                        .filter(Boolean),
+                    })
+                  }
+                />
+                <Input
+                  aria-label="Within days (blank for any time)"
+                  placeholder="Any time"
+                  type="number"
+                  min="1"
+                  className="w-24"
+                  value={rule.withinDays ?? ""}
+                  onChange={(e) =>
+                    updateClawbackRule(i, {
+                      withinDays: e.target.value
+                        ? Math.max(1, parseInt(e.target.value) || 1)
+                        : null,
+                    })
+                  }
+                />
+                <Input
+                  aria-label="Clawback %"
+                  type="number"
+                  min="0"
+                  max="100"
+                  className="w-20"
+                  value={toPercent(rule.percent)}
+                  onChange={(e) =>
+                    updateClawbackRule(i, {
+                      percent:
+                        Math.min(
+                          100,
+                          Math.max(0, Number(e.target.value) || 0),
+                        ) / 100,
+                    })
+                  }
+                />
+                <div className="flex items-center gap-1 text-xs whitespace-nowrap">
+                  <Switch
+                    aria-label="Only commissions earned after the event"
+                    checked={rule.earnedAfterEventOnly}
+                    onCheckedChange={(earnedAfterEventOnly) =>
+                      updateClawbackRule(i, { earnedAfterEventOnly })
+                    }
+                  />
+                  After event only
+                </div>
+                <Input
+                  aria-label="Description"
+                  value={rule.description}
+                  onChange={(e) =>
+                    updateClawbackRule(i, { description: e.target.value })
+                  }
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  aria-label="Remove clawback rule"
+                  onClick={() =>
+                    setRules({
+                      ...rules,
+                      clawbackRules: rules.clawbackRules.filter(
+                        (_, j) => j !== i,
+                      ),
+                    })
+                  }
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <Switch
+                id="plan-is-default"
+                checked={isDefault}
+                onCheckedChange={setIsDefault}
+              />
+              <Label htmlFor="plan-is-default">
+                Company default for reps without an assigned plan
+              </Label>
+            </div>
+            <Button
+              onClick={() => createMutation.mutate()}
+              disabled={!name.trim() || createMutation.isPending}
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Create Plan
+            </Button>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="text-center py-8">Loading...</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Plan</TableHead>
+                <TableHead>Rates</TableHead>
+                <TableHead>Effective</TableHead>
+                <TableHead>Commissions</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {plans.map((plan) => {
+                const ended =
+                  !!plan.effectiveTo &&
+                  new Date(plan.effectiveTo) <= new Date();
+                return (
+                  <TableRow key={plan.id}>
+                    <TableCell>
+                      <div className="flex items-center gap-2 font-medium">
+                        {plan.name}
+                        {plan.isDefault && <Badge>Default</Badge>}
+                        {plan.commissionCount > 0 && (
+                          <Lock
+                            className="w-3 h-3 text-gray-400"
+                            aria-label="Locked"
+                          />
+                        )}
+                      </div>
+                      {plan.description && (
+                        <div className="text-xs text-gray-500">
+                          {plan.description}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      Setup {formatCommissionRate(plan.rules.rates.setupRate)}
+                      {" · "}Month 1{" "}
+                      {formatCommissionRate(plan.rules.rates.firstMonthRate)}
+                      {" · "}Residual{" "}
+                      {formatCommissionRate(plan.rules.rates.residualRate)}{" "}
+                      through month {plan.rules.residualThroughMonth}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {new Date(plan.effectiveFrom).toLocaleDateString()}
+                      {" – "}
+                      {plan.effectiveTo
+                        ? new Date(plan.effectiveTo).toLocaleDateString()
+                        : "open"}
+                    </TableCell>
+                    <TableCell>{plan.commissionCount}</TableCell>
+                    <TableCell className="text-right space-x-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() =>
+                          updateMutation.mutate({
+                            plan,
+                            patch: { isDefault: !plan.isDefault },
+                          })
+                        }
+                        disabled={updateMutation.isPending || ended}
+                      >
+                        {plan.isDefault ? "Unset Default" : "Make Default"}
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() =>
+                          updateMutation.mutate({
+                            plan,
+                            patch: { effectiveTo: new Date().toISOString() },
+                          })
+                        }
+                        disabled={updateMutation.isPending || ended}
+                      >
+                        End Plan
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+
+        <div className="space-y-2">
+          <h3 className="text-sm font-semibold">Sales Rep Plans</h3>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Sales Rep</TableHead>
+                <TableHead>Current Plan</TableHead>
+                <TableHead>Assign Plan</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {salesReps.map((rep) => {
+                const current = resolveCommissionPlan(
+                  plans,
+                  assignments,
+                  rep.id,
+                );
+                return (
+                  <TableRow key={rep.id}>
+                    <TableCell>
+                      <div className="font-medium">{rep.name}</div>
+                      <div className="text-xs text-gray-500">{rep.email}</div>
+                    </TableCell>
+                    <TableCell>{current.name}</TableCell>
+                    <TableCell>
+                      <Select
+                        value=""
+                        onValueChange={(planId) =>
+                          assignMutation.mutate({
+                            salesRepId: rep.id,
+                            planId: Number(planId),
+                          })
+                        }
+                        disabled={assignMutation.isPending}
+                      >
+                        <SelectTrigger className="w-56">
+                          <SelectValue placeholder="Switch plan..." />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {activePlans.map((plan) => (
+                            <SelectItem key={plan.id} value={String(plan.id)}>
+                              {plan.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
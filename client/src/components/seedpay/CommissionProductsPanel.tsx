@@ -0,0 +1,377 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiErrorMessage, apiRequest, queryClient } from "@/lib/queryClient";
+import { seedpayKeys } from "@/lib/queryKeys";
+import type {
+  ProductCommissionType,
+  UnclassifiedProduct,
+} from "@shared/commission-classification";
+import { Plus, Trash2 } from "lucide-react";
+
+interface ProductMappingRow {
+  id: number;
+  hubspotProductId: string;
+  productName: string | null;
+  commissionType: ProductCommissionType;
+  serviceType: string | null;
+  notes: string | null;
+  updatedAt: string;
+}
+
+const COMMISSION_TYPE_LABELS: Record<ProductCommissionType, string> = {
+  setup: "Setup fee",
+  monthly: "Monthly",
+  none: "Not commissionable",
+};
+
+const EMPTY_FORM = {
+  hubspotProductId: "",
+  productName: "",
+  commissionType: "monthly" as ProductCommissionType,
+  serviceType: "",
+  notes: "",
+};
+
+const money = (n: number) =>
+  `$${n.toLocaleString(undefined, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+
+export function CommissionProductsPanel() {
+  const { toast } = useToast();
+  const [form, setForm] = useState(EMPTY_FORM);
+
+  const { data: mappings = [] } = useQuery<ProductMappingRow[]>({
+    queryKey: seedpayKeys.commissionProducts.mappings(),
+    queryFn: async () =>
+      await apiRequest<ProductMappingRow[]>(
+        "GET",
+        "/api/admin/commission-products/mappings",
+      ),
+  });
+
+  const { data: unclassified = [], isLoading: unclassifiedLoading } = useQuery<
+    UnclassifiedProduct[]
+  >({
+    queryKey: seedpayKeys.commissionProducts.unclassified(),
+    queryFn: async () =>
+      await apiRequest<UnclassifiedProduct[]>(
+        "GET",
+        "/api/admin/commission-products/unclassified",
+      ),
+  });
+
+  const invalidate = () =>
+    queryClient.invalidateQueries({
+      queryKey: seedpayKeys.commissionProducts.root(),
+    });
+
+  const saveMutation = useMutation({
+    mutationFn: async () =>
+      await apiRequest("PUT", "/api/admin/commission-products/mappings", {
+        hubspotProductId: form.hubspotProductId,
+        productName: form.productName || null,
+        commissionType: form.commissionType,
+        serviceType: form.serviceType || null,
+        notes: form.notes || null,
+      }),
+    onSuccess: () => {
+      toast({ title: "Product mapping saved" });
+      setForm(EMPTY_FORM);
+      invalidate();
+    },
+    onError: (error) => {
+      toast({
+        title: "Save failed",
+        description: apiErrorMessage(error, "Failed to save product mapping"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) =>
+      await apiRequest(
+        "DELETE",
+        `/api/admin/commission-products/mappings/${id}`,
+      ),
+    onSuccess: () => {
+      toast({ title: "Product mapping removed" });
+      invalidate();
+    },
+    onError: (error) => {
+      toast({
+        title: "Delete failed",
+        description: apiErrorMessage(error, "Failed to delete product mapping"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const editMapping = (row: ProductMappingRow) =>
+    setForm({
+      hubspotProductId: row.hubspotProductId,
+      productName: row.productName ?? "",
+      commissionType: row.commissionType,
+      serviceType: row.serviceType ?? "",
+      notes: row.notes ?? "",
+    });
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Unclassified Invoice Lines</CardTitle>
+          <CardDescription>
+            Synced line items whose HubSpot product isn't in the service
+            registry or mapped below. They earn no commission until mapped.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {unclassifiedLoading ? (
+            <div className="text-center py-8">Loading...</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Product</TableHead>
+                  <TableHead className="text-right">Lines</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                  <TableHead>Example invoices</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {unclassified.map((product) => (
+                  <TableRow key={product.productId ?? `name:${product.name}`}>
+                    <TableCell>
+                      <div className="font-medium">{product.name}</div>
+                      <div className="text-xs text-gray-500">
+                        {product.productId
+                          ? `Product ${product.productId}`
+                          : "No HubSpot product"}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {product.lineCount}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {money(product.totalAmount)}
+                    </TableCell>
+                    <TableCell className="text-sm text-gray-600">
+                      {product.invoices.join(", ")}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {product.productId && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() =>
+                            setForm({
+                              ...EMPTY_FORM,
+                              hubspotProductId: product.productId ?? "",
+                              productName: product.name,
+                            })
+                          }
+                        >
+                          Map
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {unclassified.length === 0 && (
+                  <TableRow>
+                    <TableCell
+                      colSpan={5}
+                      className="text-center text-gray-500"
+                    >
+                      Every synced line item is classified
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Product Mappings</CardTitle>
+          <CardDescription>
+            Commission classification for legacy and one-off HubSpot products.
+            Registry services are classified automatically.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-3 items-end">
+            <div className="space-y-1">
+              <Label htmlFor="mapping-product-id">HubSpot product ID</Label>
+              <Input
+                id="mapping-product-id"
+                value={form.hubspotProductId}
+                onChange={(e) =>
+                  setForm({ ...form, hubspotProductId: e.target.value })
+                }
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="mapping-product-name">Product name</Label>
+              <Input
+                id="mapping-product-name"
+                value={form.productName}
+                onChange={(e) =>
+                  setForm({ ...form, productName: e.target.value })
+                }
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Commission type</Label>
+              <Select
+                value={form.commissionType}
+                onValueChange={(value) =>
+                  setForm({
+                    ...form,
+                    commissionType: value as ProductCommissionType,
+                  })
+                }
+              >
+                <SelectTrigger data-testid="select-mapping-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(COMMISSION_TYPE_LABELS).map(
+                    ([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ),
+                  )}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="mapping-service-type">Plan service key</Label>
+              <Input
+                id="mapping-service-type"
+                placeholder="e.g. bookkeeping"
+                value={form.serviceType}
+                onChange={(e) =>
+                  setForm({ ...form, serviceType: e.target.value })
+                }
+              />
+            </div>
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={!form.hubspotProductId.trim() || saveMutation.isPending}
+              data-testid="button-save-mapping"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Save Mapping
+            </Button>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="mapping-notes">Notes</Label>
+            <Input
+              id="mapping-notes"
+              value={form.notes}
+              onChange={(e) => setForm({ ...form, notes: e.target.value })}
+            />
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Product</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Service key</TableHead>
+                <TableHead>Notes</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {mappings.map((row) => (
+                <TableRow key={row.id}>
+                  <TableCell>
+                    <div className="font-medium">
+                      {row.productName || row.hubspotProductId}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      Product {row.hubspotProductId}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <Badge
+                      variant={
+                        row.commissionType === "none" ? "secondary" : "default"
+                      }
+                    >
+                      {COMMISSION_TYPE_LABELS[row.commissionType]}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>{row.serviceType ?? "—"}</TableCell>
+                  <TableCell className="text-sm text-gray-600">
+                    {row.notes}
+                  </TableCell>
+                  <TableCell className="text-right space-x-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => editMapping(row)}
+                    >
+                      Edit
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => deleteMutation.mutate(row.id)}
+                      disabled={deleteMutation.isPending}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {mappings.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-gray-500">
+                    No product mappings yet
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,427 @@
+import { useMemo, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import {
+  apiDownload,
+  apiErrorMessage,
+  apiRequest,
+  queryClient,
+} from "@/lib/queryClient";
+import { seedpayKeys } from "@/lib/queryKeys";
+import {
+  commissionPeriodFor,
+  previousCommissionPeriod,
+  type CommissionPeriod,
+  type PayoutStatement,
+} from "@shared/commission-payouts";
+import {
+  AlertTriangle,
+  CheckCircle,
+  FileText,
+  Lock,
+  Undo2,
+} from "lucide-react";
+
+interface PayoutPreviewResponse {
+  period: CommissionPeriod;
+  statements: PayoutStatement[];
+  pendingAdjustmentIds: number[];
+  total: number;
+  lockedRunId: number | null;
+  periodEnded: boolean;
+}
+
+interface PayoutRunRow {
+  id: number;
+  periodStart: string;
+  periodEnd: string;
+  status: "locked" | "paid";
+  totalAmount: string;
+  lockedAt: string;
+  paidAt: string | null;
+  statements: Array<{
+    salesRepId: number;
+    salesRepName: string;
+    totalAmount: string;
+  }>;
+}
+
+const money = (n: number | string) =>
+  `$${Number(n).toLocaleString(undefined, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+
+// Current period plus the five before it
+function recentPeriods(): CommissionPeriod[] {
+  let period = commissionPeriodFor(new Date());
+  const periods = [period];
+  while (periods.length < 6) {
+    period = previousCommissionPeriod(period);
+    periods.push(period);
+  }
+  return periods;
+}
+
+export function PayoutRunsPanel() {
+  const { toast } = useToast();
+  const periods = useMemo(recentPeriods, []);
+  // Default to the latest period that has ended
+  const [periodStart, setPeriodStart] = useState(
+    previousCommissionPeriod(commissionPeriodFor(new Date())).periodStart,
+  );
+
+  const { data: preview, isLoading: previewLoading } =
+    useQuery<PayoutPreviewResponse>({
+      queryKey: seedpayKeys.payoutRuns.preview(periodStart),
+      queryFn: async () =>
+        await apiRequest<PayoutPreviewResponse>(
+          "GET",
+          `/api/admin/payout-runs/preview?periodStart=${periodStart}`,
+        ),
+    });
+
+  const { data: runs = [] } = useQuery<PayoutRunRow[]>({
+    queryKey: seedpayKeys.payoutRuns.list(),
+    queryFn: async () =>
+      await apiRequest<PayoutRunRow[]>("GET", "/api/admin/payout-runs"),
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: seedpayKeys.payoutRuns.root() });
+    queryClient.invalidateQueries({ queryKey: ["/api/commissions"] });
+  };
+
+  const lockMutation = useMutation({
+    mutationFn: async () =>
+      await apiRequest("POST", "/api/admin/payout-runs", { periodStart }),
+    onSuccess: () => {
+      toast({
+        title: "Period locked",
+        description: "Statements are ready to download",
+      });
+      invalidate();
+    },
+    onError: (error) => {
+      toast({
+        title: "Lock failed",
+        description: apiErrorMessage(error, "Failed to lock payout period"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const paidMutation = useMutation({
+    mutationFn: async (runId: number) =>
+      await apiRequest("POST", `/api/admin/payout-runs/${runId}/paid`, {}),
+    onSuccess: () => {
+      toast({ title: "Payout run marked paid" });
+      invalidate();
+    },
+    onError: (error) => {
+      toast({
+        title: "Update failed",
+        description: apiErrorMessage(error, "Failed to mark payout run paid"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const clawbackMutation = useMutation({
+    mutationFn: async () =>
+      await apiRequest<{ events: number; clawbacks: unknown[] }>(
+        "POST",
+        "/api/admin/commission-clawbacks/run",
+        {},
+      ),
+    onSuccess: (result) => {
+      toast({
+        title: "Clawbacks applied",
+        description: `${result.clawbacks.length} new clawback(s) from ${result.events} cancellation(s) and refund(s)`,
+      });
+      invalidate();
+    },
+    onError: (error) => {
+      toast({
+        title: "Clawback run failed",
+        description: apiErrorMessage(error, "Failed to apply clawbacks"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const download = async (
+    run: PayoutRunRow,
+    salesRepId: number,
+    format: "pdf" | "csv",
+  ) => {
+    try {
+      await apiDownload(
+        `/api/admin/payout-runs/${run.id}/statements/${salesRepId}?format=${format}`,
+        `commission-statement-${run.periodStart}-rep-${salesRepId}.${format}`,
+      );
+    } catch (error) {
+      toast({
+        title: "Download failed",
+        description: apiErrorMessage(error, "Failed to download statement"),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleLock = () => {
+    if (!preview) return;
+    const confirmed = confirm(
+      `Lock ${preview.period.periodStart} to ${preview.period.periodEnd} for ${money(preview.total)}? Locked commissions can only be corrected with reversal entries.`,
+    );
+    if (confirmed) lockMutation.mutate();
+  };
+
+  // Why the selected period can't be locked, if anything
+  const lockBlocker = (() => {
+    if (!preview) return null;
+    if (preview.lockedRunId) return "This period is already locked";
+    if (!preview.periodEnded) return "The period has not ended yet";
+    if (preview.pendingAdjustmentIds.length > 0) {
+      return `${preview.pendingAdjustmentIds.length} pending adjustment request(s) must be reviewed first`;
+    }
+    return null;
+  })();
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Payout Preview</CardTitle>
+          <CardDescription>
+            Unpaid commissions, bonuses, clawbacks and reversals per rep for a
+            14th–13th period. Locking snapshots each rep's statement.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center justify-between gap-4">
+            <Select value={periodStart} onValueChange={setPeriodStart}>
+              <SelectTrigger
+                className="w-72"
+                data-testid="select-payout-period"
+              >
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {periods.map((p) => (
+                  <SelectItem key={p.periodStart} value={p.periodStart}>
+                    {p.periodStart} to {p.periodEnd}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                onClick={() => clawbackMutation.mutate()}
+                disabled={clawbackMutation.isPending}
+                data-testid="button-run-clawbacks"
+              >
+                <Undo2 className="w-4 h-4 mr-2" />
+                Run Clawbacks
+              </Button>
+              <Button
+                onClick={handleLock}
+                disabled={!!lockBlocker || lockMutation.isPending}
+                data-testid="button-lock-period"
+              >
+                <Lock className="w-4 h-4 mr-2" />
+                Lock Period
+              </Button>
+            </div>
+          </div>
+
+          {lockBlocker && (
+            <div className="flex items-center gap-2 text-sm text-amber-700">
+              <AlertTriangle className="w-4 h-4" />
+              {lockBlocker}
+            </div>
+          )}
+
+          {previewLoading ? (
+            <div className="text-center py-8">Loading...</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Sales Rep</TableHead>
+                  <TableHead className="text-right">Commissions</TableHead>
+                  <TableHead className="text-right">Bonuses</TableHead>
+                  <TableHead className="text-right">Reversals</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {preview?.statements.map((st) => (
+                  <TableRow key={st.salesRepId}>
+                    <TableCell className="font-medium">
+                      {st.salesRepName}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {money(st.commissionTotal)}
+                      <span className="ml-1 text-xs text-gray-500">
+                        ({st.commissions.length})
+                      </span>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {money(st.bonusTotal)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {money(st.reversalTotal)}
+                    </TableCell>
+                    <TableCell className="text-right font-semibold">
+                      {money(st.total)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {preview && preview.statements.length === 0 && (
+                  <TableRow>
+                    <TableCell
+                      colSpan={5}
+                      className="text-center text-gray-500"
+                    >
+                      Nothing to pay for this period
+                    </TableCell>
+                  </TableRow>
+                )}
+                {preview && preview.statements.length > 0 && (
+                  <TableRow>
+                    <TableCell colSpan={4} className="font-semibold">
+                      Period total
+                    </TableCell>
+                    <TableCell className="text-right font-semibold">
+                      {money(preview.total)}
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Payout Runs</CardTitle>
+          <CardDescription>
+            Locked periods and their per-rep statements.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Period</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Total</TableHead>
+                <TableHead>Statements</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {runs.map((run) => (
+                <TableRow key={run.id}>
+                  <TableCell>
+                    {run.periodStart} to {run.periodEnd}
+                    <div className="text-xs text-gray-500">
+                      Locked {new Date(run.lockedAt).toLocaleDateString()}
+                      {run.paidAt &&
+                        ` · Paid ${new Date(run.paidAt).toLocaleDateString()}`}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <Badge
+                      variant={run.status === "paid" ? "default" : "secondary"}
+                    >
+                      {run.status === "paid" ? "Paid" : "Locked"}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {money(run.totalAmount)}
+                  </TableCell>
+                  <TableCell className="space-y-1">
+                    {run.statements.map((st) => (
+                      <div
+                        key={st.salesRepId}
+                        className="flex items-center gap-2 text-sm"
+                      >
+                        <span className="min-w-32">{st.salesRepName}</span>
+                        <span className="text-gray-500">
+                          {money(st.totalAmount)}
+                        </span>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => download(run, st.salesRepId, "pdf")}
+                        >
+                          <FileText className="w-3 h-3 mr-1" />
+                          PDF
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => download(run, st.salesRepId, "csv")}
+                        >
+                          CSV
+                        </Button>
+                      </div>
+                    ))}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {run.status === "locked" && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => paidMutation.mutate(run.id)}
+                        disabled={paidMutation.isPending}
+                      >
+                        <CheckCircle className="w-4 h-4 mr-2" />
+                        Mark Paid
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+              {runs.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-gray-500">
+                    No periods locked yet
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
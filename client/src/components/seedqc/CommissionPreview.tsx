@@ -2,28 +2,60 @@ import React from "react";
 import { CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { DollarSign } from "lucide-react";
 import { KbCard } from "@/components/seedkb/KbCard";
+import { calculateProjectedCommission } from "@shared/commission-calculator";
+import {
+  commissionRatesFor,
+  formatCommissionRate as pct,
+} from "@shared/commission-plans";
+import { useCommissionPlan } from "@/hooks/useCommissionPlan";
+import type { ContractTerm } from "@shared/pricing-terms";
 
 type Props = {
   setupFee: number;
   monthlyFee: number;
+  // Time-limited monthly discounts; residuals rise as each one ends
+  monthlyDiscounts?: Array<{ amount: number; durationMonths: number | null }>;
+  contractTerm?: ContractTerm;
 };
 
-export function CommissionPreview({ setupFee, monthlyFee }: Props) {
+export function CommissionPreview({
+  setupFee,
+  monthlyFee,
+  monthlyDiscounts = [],
+  contractTerm = "monthly",
+}: Props) {
+  const { plan } = useCommissionPlan();
+  const rates = commissionRatesFor(plan.rules, "combined");
+  const lastResidualMonth = plan.rules.residualThroughMonth;
   const totalSetupFee = Number(setupFee || 0);
   const totalMonthlyFee = Number(monthlyFee || 0);
+  const projection = calculateProjectedCommission(
+    totalSetupFee,
+    totalMonthlyFee,
+    "combined",
+    monthlyDiscounts,
+    contractTerm,
+    plan.rules,
+  );
+  const isPrepaid = contractTerm === "annual_prepay";
+  const hasExpiringDiscounts = monthlyDiscounts.some(
+    (d) => d.durationMonths && d.durationMonths < lastResidualMonth,
+  );
 
-  // Month 1 Commission: 20% of setup fee + 40% of monthly fee
-  const month1SetupCommission = totalSetupFee * 0.2;
-  const month1MonthlyCommission = totalMonthlyFee * 0.4;
-  const totalMonth1Commission = month1SetupCommission + month1MonthlyCommission;
+  // Month 1 Commission: setup rate on the setup fee + month 1 rate on MRR
+  const month1SetupCommission = totalSetupFee * rates.setupRate;
+  const month1MonthlyCommission = totalMonthlyFee * rates.firstMonthRate;
+  const totalMonth1Commission = projection.firstMonth;
 
-  // Ongoing Commission: 10% of monthly fee for months 2-12
-  const ongoingMonthlyCommission = totalMonthlyFee * 0.1;
-  const totalOngoingCommission = ongoingMonthlyCommission * 11;
+  // Ongoing Commission: residual rate on MRR through the plan's last month
+  const ongoingMonthlyCommission = projection.monthly;
+  const totalOngoingCommission = projection.total - projection.firstMonth;
+  // Residuals the annual prepayment pulls forward into month 1
+  const prepaidResidualCommission =
+    projection.firstMonth - month1SetupCommission - month1MonthlyCommission;
 
   // Total first year commission
-  const totalFirstYearCommission =
-    totalMonth1Commission + totalOngoingCommission;
+  const totalFirstYearCommission = projection.total;
 
   return (
     <KbCard className="p-6 mb-8">
@@ -58,7 +90,7 @@ export function CommissionPreview({ setupFee, monthlyFee }: Props) {
               {totalSetupFee > 0 && (
                 <div className="flex justify-between items-center">
                   <span className="text-sm text-muted-foreground">
-                    Setup Fee (20%):
+                    Setup Fee ({pct(rates.setupRate)}):
                   </span>
                   <span className="font-semibold text-foreground">
                     {`$${month1SetupCommission.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`}
@@ -67,12 +99,22 @@ export function CommissionPreview({ setupFee, monthlyFee }: Props) {
               )}
               <div className="flex justify-between items-center">
                 <span className="text-sm text-muted-foreground">
-                  Monthly Fee (40%):
+                  Monthly Fee ({pct(rates.firstMonthRate)}):
                 </span>
                 <span className="font-semibold text-foreground">
                   {`$${month1MonthlyCommission.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`}
                 </span>
               </div>
+              {isPrepaid && (
+                <div className="flex justify-between items-center">
+                  <span className="text-sm text-muted-foreground">
+                    Prepaid Months 2-12 ({pct(rates.residualRate)}):
+                  </span>
+                  <span className="font-semibold text-foreground">
+                    {`$${prepaidResidualCommission.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`}
+                  </span>
+                </div>
+              )}
               <div className="border-t pt-2">
                 <div className="flex justify-between items-center">
                   <span className="text-sm font-semibold text-muted-foreground">
@@ -99,14 +141,19 @@ export function CommissionPreview({ setupFee, monthlyFee }: Props) {
             <div className="space-y-2">
               <div className="flex justify-between items-center">
                 <span className="text-sm text-muted-foreground">
-                  Monthly Fee (10%):
+                  Monthly Fee ({pct(rates.residualRate)}):
                 </span>
                 <span className="font-semibold text-foreground">
                   {`$${ongoingMonthlyCommission.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`}
                 </span>
               </div>
               <div className="text-xs text-muted-foreground">
-                Months 2-12 (11 payments)
+                {isPrepaid
+                  ? "Paid up front with the annual prepayment"
+                  : `Months 2-${lastResidualMonth} (${lastResidualMonth - 1} payments)`}
+                {!isPrepaid &&
+                  hasExpiringDiscounts &&
+                  "; increases as time-limited discounts end"}
               </div>
               <div className="border-t pt-2">
                 <div className="flex justify-between items-center">
@@ -129,7 +176,7 @@ export function CommissionPreview({ setupFee, monthlyFee }: Props) {
                 Total First Year Commission
               </h3>
               <p className="text-sm text-muted-foreground mt-1">
-                Combined earnings for months 1-12
+                Combined earnings for months 1-{lastResidualMonth}
               </p>
             </div>
             <div className="text-3xl font-bold text-green-500">
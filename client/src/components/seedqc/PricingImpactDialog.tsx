@@ -0,0 +1,275 @@
+import { useEffect } from "react";
+import { useMutation } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { pricingKeys } from "@/lib/queryKeys";
+import type { PricingConfigPatch } from "@shared/pricing-config";
+import { MRR_SERVICES, type PricingImpactReport } from "@shared/pricing-impact";
+
+export interface PricingImpactRequest {
+  title: string;
+  changes: PricingConfigPatch;
+  record?: { table: string; recordId: number };
+}
+
+type Props = {
+  request: PricingImpactRequest | null;
+  onOpenChange: (open: boolean) => void;
+  onConfirm?: () => void;
+  isConfirming?: boolean;
+};
+
+const MAX_QUOTE_ROWS = 25;
+
+const formatDelta = (value: number) => {
+  let sign = "";
+  if (value > 0) sign = "+";
+  if (value < 0) sign = "-";
+  return `${sign}$${Math.abs(value).toLocaleString(undefined, {
+    maximumFractionDigits: 2,
+  })}`;
+};
+
+const deltaClass = (value: number) => {
+  if (value > 0) return "text-green-700";
+  if (value < 0) return "text-red-700";
+  return "text-gray-500";
+};
+
+export function PricingImpactDialog({
+  request,
+  onOpenChange,
+  onConfirm,
+  isConfirming,
+}: Props) {
+  const simulate = useMutation({
+    mutationFn: (body: {
+      changes: PricingConfigPatch;
+      record?: PricingImpactRequest["record"];
+    }) =>
+      apiRequest<PricingImpactReport>("/api/admin/pricing/simulate", {
+        method: "POST",
+        body,
+      }),
+    onSuccess: () => {
+      // Simulation runs are logged to pricing history
+      queryClient.invalidateQueries({ queryKey: pricingKeys.admin.history() });
+    },
+  });
+
+  // Run once per opened request
+  useEffect(() => {
+    if (request) {
+      simulate.mutate({ changes: request.changes, record: request.record });
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [request]);
+
+  const report = simulate.data;
+  const crossings = report?.quotes.filter((q) => q.crossings.length > 0) ?? [];
+
+  return (
+    <Dialog open={request !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Pricing Impact: {request?.title}</DialogTitle>
+          <DialogDescription>
+            Every non-archived quote re-priced under the live configuration and
+            with this change applied
+          </DialogDescription>
+        </DialogHeader>
+
+        {simulate.isPending && (
+          <div className="text-center py-8">Simulating...</div>
+        )}
+        {simulate.isError && (
+          <div className="text-center py-8 text-red-700">
+            {(simulate.error as Error).message}
+          </div>
+        )}
+
+        {report && !simulate.isPending && (
+          <div className="space-y-6">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+              <div>
+                <div className="text-gray-500">Quotes re-priced</div>
+                <div className="text-xl font-semibold">{report.quoteCount}</div>
+              </div>
+              <div>
+                <div className="text-gray-500">Quotes changed</div>
+                <div className="text-xl font-semibold">
+                  {report.changedCount}
+                </div>
+              </div>
+              <div>
+                <div className="text-gray-500">Monthly delta</div>
+                <div
+                  className={`text-xl font-semibold ${deltaClass(report.totals.delta.monthlyFee)}`}
+                >
+                  {formatDelta(report.totals.delta.monthlyFee)}
+                </div>
+              </div>
+              <div>
+                <div className="text-gray-500">Setup delta</div>
+                <div
+                  className={`text-xl font-semibold ${deltaClass(report.totals.delta.setupFee)}`}
+                >
+                  {formatDelta(report.totals.delta.setupFee)}
+                </div>
+              </div>
+            </div>
+
+            <div>
+              <h4 className="font-medium mb-2">MRR by Service</h4>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Service</TableHead>
+                    <TableHead>Current</TableHead>
+                    <TableHead>Proposed</TableHead>
+                    <TableHead>Change</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {MRR_SERVICES.map((svc) => (
+                    <TableRow key={svc}>
+                      <TableCell className="font-medium uppercase">
+                        {svc}
+                      </TableCell>
+                      <TableCell>
+                        ${report.mrrByService[svc].current.toLocaleString()}
+                      </TableCell>
+                      <TableCell>
+                        ${report.mrrByService[svc].proposed.toLocaleString()}
+                      </TableCell>
+                      <TableCell
+                        className={deltaClass(report.mrrByService[svc].delta)}
+                      >
+                        {formatDelta(report.mrrByService[svc].delta)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div>
+              <h4 className="font-medium mb-2">
+                Discount Approval Crossings ({crossings.length})
+              </h4>
+              <div className="text-sm text-gray-500 mb-2">
+                Manual discounts above{" "}
+                {report.approvalThresholdPct.current ===
+                report.approvalThresholdPct.proposed
+                  ? `${report.approvalThresholdPct.current}%`
+                  : `${report.approvalThresholdPct.current}% → ${report.approvalThresholdPct.proposed}%`}{" "}
+                of list price need approval
+              </div>
+              {crossings.length === 0 ? (
+                <div className="text-sm text-gray-500">
+                  No quotes cross the approval threshold
+                </div>
+              ) : (
+                <div className="flex flex-wrap gap-2">
+                  {crossings.map((q) =>
+                    q.crossings.map((c) => (
+                      <Badge
+                        key={`${q.quoteId}-${c.direction}`}
+                        variant={
+                          c.direction === "now_requires_approval"
+                            ? "destructive"
+                            : "secondary"
+                        }
+                      >
+                        {q.label}: {c.proposedDiscountPct}% discount{" "}
+                        {c.direction === "now_requires_approval"
+                          ? "now needs approval"
+                          : "no longer needs approval"}
+                      </Badge>
+                    )),
+                  )}
+                </div>
+              )}
+            </div>
+
+            <div>
+              <h4 className="font-medium mb-2">
+                Largest Changes
+                {report.quotes.length > MAX_QUOTE_ROWS &&
+                  ` (top ${MAX_QUOTE_ROWS} of ${report.quotes.length})`}
+              </h4>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Quote</TableHead>
+                    <TableHead>Monthly</TableHead>
+                    <TableHead>Monthly Δ</TableHead>
+                    <TableHead>Setup</TableHead>
+                    <TableHead>Setup Δ</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.quotes.slice(0, MAX_QUOTE_ROWS).map((q) => (
+                    <TableRow key={q.quoteId}>
+                      <TableCell className="font-medium">{q.label}</TableCell>
+                      <TableCell>
+                        ${q.current.monthlyFee.toLocaleString()} → $
+                        {q.proposed.monthlyFee.toLocaleString()}
+                      </TableCell>
+                      <TableCell className={deltaClass(q.delta.monthlyFee)}>
+                        {formatDelta(q.delta.monthlyFee)}
+                      </TableCell>
+                      <TableCell>
+                        ${q.current.setupFee.toLocaleString()} → $
+                        {q.proposed.setupFee.toLocaleString()}
+                      </TableCell>
+                      <TableCell className={deltaClass(q.delta.setupFee)}>
+                        {formatDelta(q.delta.setupFee)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              {report.failedQuoteIds.length > 0 && (
+                <div className="text-xs text-gray-500 mt-2">
+                  {report.failedQuoteIds.length} quotes could not be re-priced
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          {onConfirm && (
+            <Button
+              onClick={onConfirm}
+              disabled={!report || simulate.isPending || isConfirming}
+            >
+              Save Change
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,378 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { pricingKeys, seedqcKeys } from "@/lib/queryKeys";
+import type { PricingConfigChange } from "@shared/pricing-config";
+import { GitCompare, Plus, RefreshCw, Send, Trash2 } from "lucide-react";
+
+type VersionState = "draft" | "scheduled" | "live" | "superseded";
+
+interface PricingConfigVersionSummary {
+  id: number;
+  version: number;
+  label: string;
+  notes: string | null;
+  status: string;
+  state: VersionState;
+  effectiveFrom: string | null;
+  publishedAt: string | null;
+  createdAt: string;
+}
+
+interface PricingVersionDiff {
+  versionId: number;
+  baseline: string;
+  changes: PricingConfigChange[];
+}
+
+const STATE_VARIANTS: Record<
+  VersionState,
+  "default" | "secondary" | "outline" | "destructive"
+> = {
+  live: "default",
+  scheduled: "secondary",
+  draft: "outline",
+  superseded: "outline",
+};
+
+export function PricingVersionsPanel() {
+  const { toast } = useToast();
+  const [newLabel, setNewLabel] = useState("");
+  const [newNotes, setNewNotes] = useState("");
+  const [diffVersionId, setDiffVersionId] = useState<number | null>(null);
+  const [publishDates, setPublishDates] = useState<Record<number, string>>({});
+
+  const { data: versions, isLoading } = useQuery<
+    PricingConfigVersionSummary[]
+  >({
+    queryKey: pricingKeys.admin.versions(),
+    queryFn: async () =>
+      await apiRequest<PricingConfigVersionSummary[]>(
+        "GET",
+        "/api/admin/pricing/versions",
+      ),
+  });
+
+  const { data: diff, isLoading: diffLoading } = useQuery<PricingVersionDiff>({
+    queryKey: pricingKeys.admin.versionDiff(diffVersionId ?? 0),
+    queryFn: async () =>
+      await apiRequest<PricingVersionDiff>(
+        "GET",
+        `/api/admin/pricing/versions/${diffVersionId}/diff`,
+      ),
+    enabled: diffVersionId !== null,
+  });
+
+  const invalidateVersions = () => {
+    queryClient.invalidateQueries({ queryKey: pricingKeys.admin.versions() });
+    queryClient.invalidateQueries({ queryKey: pricingKeys.admin.history() });
+  };
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const createDraft = useMutation({
+    mutationFn: () =>
+      apiRequest("/api/admin/pricing/versions", {
+        method: "POST",
+        body: { label: newLabel, notes: newNotes || undefined },
+      }),
+    onSuccess: () => {
+      invalidateVersions();
+      toast({ title: "Draft created from current pricing tables" });
+      setNewLabel("");
+      setNewNotes("");
+    },
+    onError: onError("Error creating draft"),
+  });
+
+  const resyncDraft = useMutation({
+    mutationFn: (id: number) =>
+      apiRequest(`/api/admin/pricing/versions/${id}`, {
+        method: "PUT",
+        body: { resyncFromTables: true },
+      }),
+    onSuccess: (_data, id) => {
+      invalidateVersions();
+      queryClient.invalidateQueries({
+        queryKey: pricingKeys.admin.versionDiff(id),
+      });
+      toast({ title: "Draft re-synced from pricing tables" });
+    },
+    onError: onError("Error re-syncing draft"),
+  });
+
+  const deleteDraft = useMutation({
+    mutationFn: (id: number) =>
+      apiRequest(`/api/admin/pricing/versions/${id}`, { method: "DELETE" }),
+    onSuccess: (_data, id) => {
+      invalidateVersions();
+      if (diffVersionId === id) setDiffVersionId(null);
+      toast({ title: "Draft deleted" });
+    },
+    onError: onError("Error deleting draft"),
+  });
+
+  const publishVersion = useMutation({
+    mutationFn: (data: { id: number; effectiveFrom?: string }) =>
+      apiRequest(`/api/admin/pricing/versions/${data.id}/publish`, {
+        method: "POST",
+        body: {
+          effectiveFrom: data.effectiveFrom
+            ? new Date(data.effectiveFrom).toISOString()
+            : undefined,
+        },
+      }),
+    onSuccess: (_data, vars) => {
+      invalidateVersions();
+      // The calculator's live config may have changed
+      queryClient.invalidateQueries({ queryKey: seedqcKeys.pricing.config() });
+      toast({
+        title: vars.effectiveFrom
+          ? "Version scheduled"
+          : "Version published and live",
+      });
+    },
+    onError: onError("Error publishing version"),
+  });
+
+  const formatDateTime = (value: string | null) =>
+    value ? new Date(value).toLocaleString() : "—";
+
+  const formatValue = (value: number | null) =>
+    value === null ? "—" : value.toString();
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>New Draft Version</CardTitle>
+          <CardDescription>
+            Snapshots the current pricing tables. Review the diff against the
+            live version, then publish now or schedule a future effective date.
+            Published versions are immutable and saved quotes keep the version
+            that priced them.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+            <div>
+              <Label htmlFor="version-label">Label</Label>
+              <Input
+                id="version-label"
+                value={newLabel}
+                placeholder="e.g. Q1 price update"
+                onChange={(e) => setNewLabel(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="version-notes">Notes</Label>
+              <Input
+                id="version-notes"
+                value={newNotes}
+                onChange={(e) => setNewNotes(e.target.value)}
+              />
+            </div>
+            <Button
+              onClick={() => createDraft.mutate()}
+              disabled={!newLabel.trim() || createDraft.isPending}
+              className="flex items-center gap-2"
+            >
+              <Plus className="w-4 h-4" />
+              Create Draft
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Pricing Config Versions</CardTitle>
+          <CardDescription>
+            The live version prices all new quotes until the next scheduled
+            version takes effect
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="text-center py-8">Loading...</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Version</TableHead>
+                  <TableHead>Label</TableHead>
+                  <TableHead>State</TableHead>
+                  <TableHead>Effective From</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {versions?.map((version) => (
+                  <TableRow key={version.id}>
+                    <TableCell className="font-medium">
+                      v{version.version}
+                    </TableCell>
+                    <TableCell>
+                      <div>{version.label}</div>
+                      {version.notes && (
+                        <div className="text-xs text-gray-500">
+                          {version.notes}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={STATE_VARIANTS[version.state]}>
+                        {version.state}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>{formatDateTime(version.effectiveFrom)}</TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap items-center gap-2">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => setDiffVersionId(version.id)}
+                        >
+                          <GitCompare className="w-4 h-4 mr-1" />
+                          Diff
+                        </Button>
+                        {version.status === "draft" && (
+                          <>
+                            <Input
+                              type="datetime-local"
+                              className="w-52"
+                              value={publishDates[version.id] ?? ""}
+                              onChange={(e) =>
+                                setPublishDates((prev) => ({
+                                  ...prev,
+                                  [version.id]: e.target.value,
+                                }))
+                              }
+                            />
+                            <Button
+                              size="sm"
+                              onClick={() =>
+                                publishVersion.mutate({
+                                  id: version.id,
+                                  effectiveFrom:
+                                    publishDates[version.id] || undefined,
+                                })
+                              }
+                              disabled={publishVersion.isPending}
+                            >
+                              <Send className="w-4 h-4 mr-1" />
+                              {publishDates[version.id]
+                                ? "Schedule"
+                                : "Publish Now"}
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => resyncDraft.mutate(version.id)}
+                              disabled={resyncDraft.isPending}
+                            >
+                              <RefreshCw className="w-4 h-4 mr-1" />
+                              Re-sync
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="destructive"
+                              onClick={() => deleteDraft.mutate(version.id)}
+                              disabled={deleteDraft.isPending}
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          </>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {versions?.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center text-gray-500">
+                      No versions yet. Quotes are priced from the pricing
+                      tables until a version is published.
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {diffVersionId !== null && (
+        <Card>
+          <CardHeader>
+            <CardTitle>
+              Changes in v
+              {versions?.find((v) => v.id === diffVersionId)?.version}
+            </CardTitle>
+            <CardDescription>
+              Compared against {diff?.baseline ?? "the live configuration"}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {diffLoading && (
+              <div className="text-center py-8">Loading...</div>
+            )}
+            {!diffLoading && !diff?.changes.length && (
+              <div className="text-center py-8 text-gray-500">
+                No differences
+              </div>
+            )}
+            {!diffLoading && Boolean(diff?.changes.length) && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Setting</TableHead>
+                    <TableHead>{diff?.baseline}</TableHead>
+                    <TableHead>This Version</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {diff?.changes.map((change) => (
+                    <TableRow key={change.path}>
+                      <TableCell className="font-mono text-xs">
+                        {change.path}
+                      </TableCell>
+                      <TableCell className="text-gray-500">
+                        {formatValue(change.before)}
+                      </TableCell>
+                      <TableCell className="font-medium">
+                        {formatValue(change.after)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
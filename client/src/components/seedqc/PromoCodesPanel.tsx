@@ -0,0 +1,348 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiErrorMessage, apiRequest, queryClient } from "@/lib/queryClient";
+import { pricingKeys } from "@/lib/queryKeys";
+import {
+  DISCOUNTABLE_FEES,
+  DISCOUNT_SERVICE_LABELS,
+  DISCOUNT_SERVICE_LINES,
+  describeDiscount,
+  promoCodeUnavailableReason,
+  type DiscountKind,
+  type DiscountServiceLine,
+  type DiscountTerms,
+} from "@shared/pricing-discounts";
+import { Plus } from "lucide-react";
+
+interface PromoCodeRow {
+  id: number;
+  code: string;
+  description: string | null;
+  discountsJson: string;
+  discounts: DiscountTerms[];
+  expiresAt: string | null;
+  maxUses: number | null;
+  usesCount: number;
+  isActive: boolean;
+  createdAt: string;
+}
+
+const EMPTY_TERMS: DiscountTerms = {
+  service: "bookkeeping",
+  appliesTo: "monthly",
+  kind: "percent",
+  value: 10,
+  durationMonths: null,
+};
+
+export function PromoCodesPanel() {
+  const { toast } = useToast();
+  const [code, setCode] = useState("");
+  const [description, setDescription] = useState("");
+  const [terms, setTerms] = useState<DiscountTerms>(EMPTY_TERMS);
+  const [expiresAt, setExpiresAt] = useState("");
+  const [maxUses, setMaxUses] = useState("");
+
+  const { data: promos, isLoading } = useQuery<PromoCodeRow[]>({
+    queryKey: pricingKeys.admin.promoCodes(),
+    queryFn: async () =>
+      await apiRequest<PromoCodeRow[]>("GET", "/api/admin/pricing/promo-codes"),
+  });
+
+  const invalidate = () =>
+    queryClient.invalidateQueries({ queryKey: pricingKeys.admin.promoCodes() });
+
+  const createMutation = useMutation({
+    mutationFn: async () =>
+      await apiRequest("POST", "/api/admin/pricing/promo-codes", {
+        code,
+        description: description || null,
+        discounts: [terms],
+        expiresAt: expiresAt || null,
+        maxUses: maxUses ? parseInt(maxUses) : null,
+      }),
+    onSuccess: () => {
+      toast({ title: "Promo code created", description: code.toUpperCase() });
+      setCode("");
+      setDescription("");
+      setTerms(EMPTY_TERMS);
+      setExpiresAt("");
+      setMaxUses("");
+      invalidate();
+    },
+    onError: (error) => {
+      toast({
+        title: "Create failed",
+        description: apiErrorMessage(error, "Failed to create promo code"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async (promo: PromoCodeRow) =>
+      await apiRequest("PUT", `/api/admin/pricing/promo-codes/${promo.id}`, {
+        isActive: !promo.isActive,
+      }),
+    onSuccess: invalidate,
+    onError: (error) => {
+      toast({
+        title: "Update failed",
+        description: apiErrorMessage(error, "Failed to update promo code"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateTerms = (patch: Partial<DiscountTerms>) => {
+    const next = { ...terms, ...patch };
+    if (!DISCOUNTABLE_FEES[next.service].includes(next.appliesTo)) {
+      next.appliesTo = DISCOUNTABLE_FEES[next.service][0] ?? "monthly";
+    }
+    if (next.appliesTo === "setup") next.durationMonths = null;
+    setTerms(next);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Promo Codes</CardTitle>
+        <CardDescription>
+          Reusable discounts sales can apply in the quote calculator. Promo
+          discounts do not need approval.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div>
+            <Label htmlFor="promo-code">Code</Label>
+            <Input
+              id="promo-code"
+              placeholder="SPRING25"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+            />
+          </div>
+          <div className="md:col-span-3">
+            <Label htmlFor="promo-description">Description</Label>
+            <Input
+              id="promo-description"
+              placeholder="Spring campaign"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+          <div>
+            <Label>Service</Label>
+            <Select
+              value={terms.service}
+              onValueChange={(v) =>
+                updateTerms({ service: v as DiscountServiceLine })
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DISCOUNT_SERVICE_LINES.map((s) => (
+                  <SelectItem key={s} value={s}>
+                    {DISCOUNT_SERVICE_LABELS[s]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>Fee</Label>
+            <Select
+              value={terms.appliesTo}
+              onValueChange={(v) =>
+                updateTerms({ appliesTo: v as "monthly" | "setup" })
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DISCOUNTABLE_FEES[terms.service].map((fee) => (
+                  <SelectItem key={fee} value={fee}>
+                    {fee === "monthly" ? "Monthly" : "Setup"}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>Type</Label>
+            <Select
+              value={terms.kind}
+              onValueChange={(v) => updateTerms({ kind: v as DiscountKind })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="percent">% off</SelectItem>
+                <SelectItem value="fixed">$ off</SelectItem>
+                <SelectItem value="override">Set price</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="promo-value">Value</Label>
+            <Input
+              id="promo-value"
+              type="number"
+              min="0"
+              value={terms.value}
+              onChange={(e) =>
+                updateTerms({ value: Math.max(0, Number(e.target.value) || 0) })
+              }
+            />
+          </div>
+          <div>
+            <Label htmlFor="promo-duration">Months (blank = ongoing)</Label>
+            <Input
+              id="promo-duration"
+              type="number"
+              min="1"
+              disabled={terms.appliesTo === "setup"}
+              value={terms.durationMonths ?? ""}
+              onChange={(e) =>
+                updateTerms({
+                  durationMonths: e.target.value
+                    ? Math.max(1, parseInt(e.target.value))
+                    : null,
+                })
+              }
+            />
+          </div>
+          <div>
+            <Label htmlFor="promo-expires">Expires</Label>
+            <Input
+              id="promo-expires"
+              type="date"
+              value={expiresAt}
+              onChange={(e) => setExpiresAt(e.target.value)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="promo-max-uses">Max uses</Label>
+            <Input
+              id="promo-max-uses"
+              type="number"
+              min="1"
+              placeholder="Unlimited"
+              value={maxUses}
+              onChange={(e) => setMaxUses(e.target.value)}
+            />
+          </div>
+          <div className="flex items-end">
+            <Button
+              onClick={() => createMutation.mutate()}
+              disabled={!code.trim() || createMutation.isPending}
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Create Code
+            </Button>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="text-center py-8">Loading...</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Code</TableHead>
+                <TableHead>Discounts</TableHead>
+                <TableHead>Uses</TableHead>
+                <TableHead>Expires</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {promos?.map((promo) => {
+                const unavailable = promoCodeUnavailableReason(promo);
+                return (
+                  <TableRow key={promo.id}>
+                    <TableCell>
+                      <div className="font-medium">{promo.code}</div>
+                      {promo.description && (
+                        <div className="text-xs text-gray-500">
+                          {promo.description}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {promo.discounts
+                        .map(
+                          (d) =>
+                            `${DISCOUNT_SERVICE_LABELS[d.service]} ${d.appliesTo}: ${describeDiscount({ ...d, durationMonths: d.durationMonths ?? null, promoCode: null })}`,
+                        )
+                        .join("; ")}
+                    </TableCell>
+                    <TableCell>
+                      {promo.usesCount}
+                      {promo.maxUses !== null ? ` / ${promo.maxUses}` : ""}
+                    </TableCell>
+                    <TableCell>
+                      {promo.expiresAt
+                        ? new Date(promo.expiresAt).toLocaleDateString()
+                        : "Never"}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={unavailable ? "outline" : "default"}>
+                        {unavailable
+                          ? unavailable.replace(/^Promo code (is |has )?/, "")
+                          : "Active"}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => toggleMutation.mutate(promo)}
+                        disabled={toggleMutation.isPending}
+                      >
+                        {promo.isActive ? "Deactivate" : "Activate"}
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,265 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { KbCard } from "@/components/seedkb/KbCard";
+import { PricingOptionsComparison } from "@/features/quote-calculator/components/displays/PricingOptionsComparison";
+import { useToast } from "@/hooks/use-toast";
+import { apiErrorMessage, apiRequest, queryClient } from "@/lib/queryClient";
+import type { Quote } from "@shared/schema";
+import { CONTRACT_TERMS, CONTRACT_TERM_LABELS } from "@shared/pricing-terms";
+import {
+  MAX_QUOTE_OPTIONS,
+  type QuoteOptionOverrides,
+  type QuoteOptionSelection,
+  type QuotePricingOptionInput,
+  type QuotePricingOptions,
+} from "@shared/quote-options";
+import { CheckCircle2, Layers, Plus, Trash2 } from "lucide-react";
+
+// Under /api/quotes so saving the quote re-prices its options
+export const quotePricingOptionsKey = (quoteId: number) => [
+  "/api/quotes",
+  quoteId,
+  "options",
+];
+
+const SERVICE_TIERS = ["Automated", "Guided", "Concierge"] as const;
+
+// Select value for "same as the quote"
+const KEEP = "keep";
+
+interface QuotePricingOptionsPanelProps {
+  quoteId: number;
+  // The quote after the client's choice was written to it
+  onSelected: (quote: Quote) => void;
+}
+
+// Good / better / best alternatives for the saved quote, compared side by
+// side; choosing one makes it the quote and updates HubSpot
+export function QuotePricingOptionsPanel({
+  quoteId,
+  onSelected,
+}: QuotePricingOptionsPanelProps) {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [tier, setTier] = useState<string>(KEEP);
+  const [taas, setTaas] = useState<string>(KEEP);
+  const [term, setTerm] = useState<string>(KEEP);
+
+  const { data, isLoading } = useQuery({
+    queryKey: quotePricingOptionsKey(quoteId),
+    queryFn: async () =>
+      await apiRequest<QuotePricingOptions>(
+        "GET",
+        `/api/quotes/${quoteId}/options`,
+      ),
+  });
+  const optionCount = data?.options.length ?? 0;
+
+  const onError = (title: string, fallback: string) => (error: unknown) => {
+    toast({
+      title,
+      description: apiErrorMessage(error, fallback),
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (input: QuotePricingOptionInput) =>
+      await apiRequest<QuotePricingOptions>(
+        "POST",
+        `/api/quotes/${quoteId}/options`,
+        input,
+      ),
+    onSuccess: (result) => {
+      queryClient.setQueryData(quotePricingOptionsKey(quoteId), result);
+      setName("");
+      setTier(KEEP);
+      setTaas(KEEP);
+      setTerm(KEEP);
+    },
+    onError: onError("Couldn't add option", "Failed to add pricing option"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (optionId: number) =>
+      await apiRequest<QuotePricingOptions>(
+        "DELETE",
+        `/api/quotes/${quoteId}/options/${optionId}`,
+      ),
+    onSuccess: (result) => {
+      queryClient.setQueryData(quotePricingOptionsKey(quoteId), result);
+    },
+    onError: onError("Couldn't remove option", "Failed to remove option"),
+  });
+
+  const selectMutation = useMutation({
+    mutationFn: async (optionId: number) =>
+      await apiRequest<QuoteOptionSelection>(
+        "POST",
+        `/api/quotes/${quoteId}/options/${optionId}/select`,
+      ),
+    onSuccess: (selection) => {
+      queryClient.setQueryData(
+        quotePricingOptionsKey(quoteId),
+        selection.options,
+      );
+      queryClient.invalidateQueries({ queryKey: ["/api/quotes"] });
+      onSelected(selection.quote);
+      if (selection.hubspot && !selection.hubspot.success) {
+        toast({
+          title: "Option applied, HubSpot not updated",
+          description:
+            selection.hubspot.message ??
+            "Push the quote to HubSpot again to update the deal.",
+          variant: "destructive",
+        });
+        return;
+      }
+      toast({
+        title: "Option applied",
+        description: selection.hubspot
+          ? "The quote and its HubSpot deal now use the chosen option."
+          : "The quote now uses the chosen option.",
+      });
+    },
+    onError: onError("Couldn't apply option", "Failed to apply option"),
+  });
+
+  const addOption = () => {
+    const overrides: QuoteOptionOverrides = {};
+    if (tier !== KEEP) {
+      overrides.serviceTier = tier as QuoteOptionOverrides["serviceTier"];
+    }
+    if (taas !== KEEP) overrides.serviceTaasMonthly = taas === "include";
+    if (term !== KEEP) {
+      overrides.contractTerm = term as QuoteOptionOverrides["contractTerm"];
+    }
+    createMutation.mutate({ name: name.trim(), overrides });
+  };
+
+  const canAdd = optionCount < MAX_QUOTE_OPTIONS && !createMutation.isPending;
+  const busy = selectMutation.isPending || deleteMutation.isPending;
+
+  return (
+    <KbCard className="p-6 mb-8">
+      <div className="flex items-center gap-3 pb-4">
+        <div className="flex items-center justify-center w-10 h-10 bg-indigo-600 rounded-lg">
+          <Layers className="h-5 w-5 text-white" />
+        </div>
+        <div>
+          <CardTitle className="text-2xl font-bold text-foreground">
+            Pricing Options
+          </CardTitle>
+          <p className="text-sm text-muted-foreground mt-1">
+            Alternatives priced from the saved quote, to present side by side
+          </p>
+        </div>
+      </div>
+
+      {isLoading && (
+        <p className="text-sm text-muted-foreground">Loading options...</p>
+      )}
+      {data && optionCount === 0 && (
+        <p className="text-sm text-muted-foreground mb-4">
+          No options yet. Name an option and pick what it changes.
+        </p>
+      )}
+
+      {data && (
+        <PricingOptionsComparison
+          pricingOptions={data}
+          renderOptionActions={(option) => (
+            <>
+              <Button
+                type="button"
+                size="sm"
+                disabled={busy}
+                onClick={() => selectMutation.mutate(option.id)}
+              >
+                <CheckCircle2 className="h-4 w-4 mr-1" />
+                {option.selectedAt ? "Apply again" : "Client chose this"}
+              </Button>
+              <Button
+                type="button"
+                size="sm"
+                variant="ghost"
+                disabled={busy}
+                onClick={() => deleteMutation.mutate(option.id)}
+              >
+                <Trash2 className="h-4 w-4" />
+                <span className="sr-only">Remove {option.name}</span>
+              </Button>
+            </>
+          )}
+        />
+      )}
+
+      {optionCount < MAX_QUOTE_OPTIONS && (
+        <div className="mt-6 flex flex-wrap items-center gap-2">
+          <Input
+            className="w-40"
+            placeholder="Option name"
+            value={name}
+            maxLength={60}
+            onChange={(e) => setName(e.target.value)}
+          />
+          <Select value={tier} onValueChange={setTier}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={KEEP}>Quote's tier</SelectItem>
+              {SERVICE_TIERS.map((serviceTier) => (
+                <SelectItem key={serviceTier} value={serviceTier}>
+                  {serviceTier}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={taas} onValueChange={setTaas}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={KEEP}>Quote's TaaS</SelectItem>
+              <SelectItem value="include">With TaaS</SelectItem>
+              <SelectItem value="exclude">Without TaaS</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={term} onValueChange={setTerm}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={KEEP}>Quote's contract term</SelectItem>
+              {CONTRACT_TERMS.map((contractTerm) => (
+                <SelectItem key={contractTerm} value={contractTerm}>
+                  {CONTRACT_TERM_LABELS[contractTerm]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            type="button"
+            size="sm"
+            disabled={!canAdd || !name.trim()}
+            onClick={addOption}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add option
+          </Button>
+        </div>
+      )}
+    </KbCard>
+  );
+}
@@ -0,0 +1,346 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { KbCard } from "@/components/seedkb/KbCard";
+import { useToast } from "@/hooks/use-toast";
+import {
+  apiDownload,
+  apiErrorMessage,
+  apiRequest,
+  queryClient,
+} from "@/lib/queryClient";
+import {
+  PROPOSAL_DEFAULT_EXPIRY_DAYS,
+  type ProposalLinkListItem,
+  type ProposalLinkStatus,
+} from "@shared/proposals";
+import type { SowContentService } from "@shared/sow-template";
+import { Ban, Copy, FileDown, FileText, Link2 } from "lucide-react";
+
+// Under /api/quotes so saving the quote refreshes the list
+export const quoteProposalsKey = (quoteId: number) => [
+  "/api/quotes",
+  quoteId,
+  "proposals",
+];
+
+const EXPIRY_CHOICES = [7, 14, PROPOSAL_DEFAULT_EXPIRY_DAYS, 60, 90];
+
+const STATUS_BADGES: Record<ProposalLinkStatus, string> = {
+  active: "bg-blue-100 text-blue-800",
+  accepted: "bg-green-100 text-green-800",
+  expired: "bg-gray-100 text-gray-700",
+  revoked: "bg-red-100 text-red-800",
+};
+
+type SowFormat = "docx" | "pdf";
+
+interface QuoteProposalPanelProps {
+  quoteId: number;
+  companyName: string;
+  // Services on the quote that have a statement of work
+  sowServices: { service: SowContentService; label: string }[];
+}
+
+// Client-facing proposal for the saved quote: the PDF, per-service statements
+// of work, and links the client can open and accept without signing in
+export function QuoteProposalPanel({
+  quoteId,
+  companyName,
+  sowServices,
+}: QuoteProposalPanelProps) {
+  const { toast } = useToast();
+  const [expiresInDays, setExpiresInDays] = useState(
+    String(PROPOSAL_DEFAULT_EXPIRY_DAYS),
+  );
+
+  const { data: links, isLoading } = useQuery({
+    queryKey: quoteProposalsKey(quoteId),
+    queryFn: async () =>
+      await apiRequest<ProposalLinkListItem[]>(
+        "GET",
+        `/api/quotes/${quoteId}/proposals`,
+      ),
+  });
+
+  const linkUrl = (link: ProposalLinkListItem) =>
+    `${window.location.origin}${link.path}`;
+
+  const copyLink = async (link: ProposalLinkListItem) => {
+    try {
+      await navigator.clipboard.writeText(linkUrl(link));
+      toast({ title: "Proposal link copied" });
+    } catch {
+      toast({
+        title: "Couldn't copy link",
+        description: linkUrl(link),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () =>
+      await apiRequest<ProposalLinkListItem[]>(
+        "POST",
+        `/api/quotes/${quoteId}/proposals`,
+        { expiresInDays: Number(expiresInDays) },
+      ),
+    onSuccess: (result) => {
+      queryClient.setQueryData(quoteProposalsKey(quoteId), result);
+      // The quote moves from draft to sent
+      queryClient.invalidateQueries({ queryKey: ["/api/quotes"] });
+      const [created] = result;
+      if (created) void copyLink(created);
+    },
+    onError: (error) => {
+      toast({
+        title: "Couldn't create link",
+        description: apiErrorMessage(error, "Failed to create proposal link"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (proposalId: number) =>
+      await apiRequest<ProposalLinkListItem[]>(
+        "POST",
+        `/api/quotes/${quoteId}/proposals/${proposalId}/revoke`,
+      ),
+    onSuccess: (result) => {
+      queryClient.setQueryData(quoteProposalsKey(quoteId), result);
+    },
+    onError: (error) => {
+      toast({
+        title: "Couldn't revoke link",
+        description: apiErrorMessage(error, "Failed to revoke proposal link"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const fileStem = (companyName || `Quote-${quoteId}`).replace(
+    /[^A-Za-z0-9]+/g,
+    "-",
+  );
+
+  const downloadSow = async (service: SowContentService, format: SowFormat) => {
+    try {
+      await apiDownload(
+        `/api/quotes/${quoteId}/sow/${service}?format=${format}`,
+        `${fileStem}_${service}_SOW.${format}`,
+      );
+    } catch (error) {
+      toast({
+        title: "Download failed",
+        description: apiErrorMessage(
+          error,
+          "Failed to generate statement of work",
+        ),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const downloadPdf = async () => {
+    try {
+      await apiDownload(
+        `/api/quotes/${quoteId}/proposal.pdf`,
+        `Proposal-${fileStem}.pdf`,
+      );
+    } catch (error) {
+      toast({
+        title: "Download failed",
+        description: apiErrorMessage(error, "Failed to generate proposal"),
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <KbCard className="p-6 mb-8">
+      <div className="flex items-center justify-between gap-3 pb-4">
+        <div className="flex items-center gap-3">
+          <div className="flex items-center justify-center w-10 h-10 bg-emerald-600 rounded-lg">
+            <FileText className="h-5 w-5 text-white" />
+          </div>
+          <div>
+            <CardTitle className="text-2xl font-bold text-foreground">
+              Client Proposal
+            </CardTitle>
+            <p className="text-sm text-muted-foreground mt-1">
+              Services, pricing, statement of work and terms for the client
+            </p>
+          </div>
+        </div>
+        <Button type="button" variant="outline" size="sm" onClick={downloadPdf}>
+          <FileDown className="h-4 w-4 mr-1" />
+          Download PDF
+        </Button>
+      </div>
+
+      {sowServices.length > 0 && (
+        <div className="space-y-2 mb-4">
+          <p className="text-sm text-muted-foreground">
+            Statements of work from the saved quote
+          </p>
+          {sowServices.map(({ service, label }) => (
+            <div key={service} className="flex items-center gap-2">
+              <span className="text-sm w-40">{label}</span>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => void downloadSow(service, "docx")}
+              >
+                <FileDown className="h-4 w-4 mr-1" />
+                .docx
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => void downloadSow(service, "pdf")}
+              >
+                <FileDown className="h-4 w-4 mr-1" />
+                PDF
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        <span className="text-sm text-muted-foreground">Link expires in</span>
+        <Select value={expiresInDays} onValueChange={setExpiresInDays}>
+          <SelectTrigger className="w-32">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {EXPIRY_CHOICES.map((days) => (
+              <SelectItem key={days} value={String(days)}>
+                {days} days
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          type="button"
+          size="sm"
+          disabled={createMutation.isPending}
+          onClick={() => createMutation.mutate()}
+        >
+          <Link2 className="h-4 w-4 mr-1" />
+          {createMutation.isPending ? "Creating..." : "Create share link"}
+        </Button>
+      </div>
+
+      {isLoading && (
+        <p className="text-sm text-muted-foreground">Loading links...</p>
+      )}
+      {links && links.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          No links yet. Creating one marks the quote as sent.
+        </p>
+      )}
+      {links && links.length > 0 && (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Created</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Expires</TableHead>
+              <TableHead>Views</TableHead>
+              <TableHead>Accepted</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {links.map((link) => (
+              <TableRow key={link.id}>
+                <TableCell>
+                  {new Date(link.createdAt).toLocaleDateString()}
+                </TableCell>
+                <TableCell>
+                  <Badge className={STATUS_BADGES[link.status]}>
+                    {link.status}
+                  </Badge>
+                </TableCell>
+                <TableCell>
+                  {new Date(link.expiresAt).toLocaleDateString()}
+                </TableCell>
+                <TableCell>
+                  {link.viewCount}
+                  {link.lastViewedAt && (
+                    <span className="text-xs text-muted-foreground">
+                      {" "}
+                      (last {new Date(link.lastViewedAt).toLocaleDateString()})
+                    </span>
+                  )}
+                </TableCell>
+                <TableCell>
+                  {link.acceptedAt ? (
+                    <>
+                      {link.acceptedName},{" "}
+                      {new Date(link.acceptedAt).toLocaleDateString()}
+                      {link.acceptedOptionName && (
+                        <div className="text-xs text-muted-foreground">
+                          Chose {link.acceptedOptionName}
+                        </div>
+                      )}
+                    </>
+                  ) : (
+                    "—"
+                  )}
+                </TableCell>
+                <TableCell className="text-right">
+                  {link.status === "active" && (
+                    <div className="flex justify-end gap-1">
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => void copyLink(link)}
+                      >
+                        <Copy className="h-4 w-4" />
+                        <span className="sr-only">Copy link</span>
+                      </Button>
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="ghost"
+                        disabled={revokeMutation.isPending}
+                        onClick={() => revokeMutation.mutate(link.id)}
+                      >
+                        <Ban className="h-4 w-4" />
+                        <span className="sr-only">Revoke link</span>
+                      </Button>
+                    </div>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </KbCard>
+  );
+}
@@ -0,0 +1,319 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { KbCard } from "@/components/seedkb/KbCard";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import type { Quote } from "@shared/schema";
+import type {
+  QuoteComparison,
+  QuoteComparisonSide,
+  QuoteRevisionListItem,
+} from "@shared/quote-revisions";
+import { GitCompare, History } from "lucide-react";
+
+// Under /api/quotes so saving a quote refreshes the history
+export const quoteRevisionsKey = (quoteId: number) => [
+  "/api/quotes",
+  quoteId,
+  "revisions",
+];
+
+// "<quoteId>:<revision>", or "<quoteId>:latest" for another quote's latest
+type SideRef = string;
+
+const sideRef = (quoteId: number, revision?: number | null): SideRef =>
+  `${quoteId}:${revision ?? "latest"}`;
+
+function sideParams(
+  prefix: "left" | "right",
+  ref: SideRef,
+): Record<string, string> {
+  const [quoteId = "", revision] = ref.split(":");
+  const params: Record<string, string> = { [`${prefix}QuoteId`]: quoteId };
+  if (revision && revision !== "latest") {
+    params[`${prefix}Revision`] = revision;
+  }
+  return params;
+}
+
+const money = (value: number | string) =>
+  `$${Number(value).toLocaleString(undefined, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+
+function deltaClass(delta: number) {
+  if (delta > 0) return "text-green-600";
+  if (delta < 0) return "text-red-600";
+  return "text-muted-foreground";
+}
+
+const sideLabel = (side: QuoteComparisonSide) =>
+  side.revision
+    ? `Quote #${side.quoteId} rev ${side.revision}`
+    : `Quote #${side.quoteId}`;
+
+interface QuoteRevisionsPanelProps {
+  quoteId: number;
+  contactEmail: string;
+}
+
+// Revision history for the quote being edited, with a side-by-side
+// comparison against an earlier revision or another quote for the contact
+export function QuoteRevisionsPanel({
+  quoteId,
+  contactEmail,
+}: QuoteRevisionsPanelProps) {
+  const [left, setLeft] = useState<SideRef | null>(null);
+  const [right, setRight] = useState<SideRef | null>(null);
+
+  const { data: revisions = [], isLoading } = useQuery({
+    queryKey: quoteRevisionsKey(quoteId),
+    queryFn: async () =>
+      await apiRequest<QuoteRevisionListItem[]>(
+        "GET",
+        `/api/quotes/${quoteId}/revisions`,
+      ),
+  });
+
+  const { data: contactQuotes = [] } = useQuery({
+    queryKey: ["/api/quotes", { email: contactEmail }],
+    queryFn: async () =>
+      await apiRequest<Quote[]>(
+        "GET",
+        `/api/quotes?email=${encodeURIComponent(contactEmail)}`,
+      ),
+    enabled: !!contactEmail,
+  });
+  const otherQuotes = contactQuotes.filter((q) => q.id !== quoteId);
+
+  // Start on the latest change: previous revision against the latest
+  const latest = revisions[0]?.revision;
+  const prior = revisions[1]?.revision;
+  useEffect(() => {
+    setLeft(prior ? sideRef(quoteId, prior) : null);
+    setRight(latest ? sideRef(quoteId, latest) : null);
+  }, [quoteId, latest, prior]);
+
+  const canCompare = !!left && !!right && left !== right;
+  const { data: comparison, error: comparisonError } = useQuery({
+    queryKey: ["/api/quotes/compare", left, right],
+    queryFn: async () => {
+      const params = new URLSearchParams({
+        ...sideParams("left", left!),
+        ...sideParams("right", right!),
+      });
+      return await apiRequest<QuoteComparison>(
+        "GET",
+        `/api/quotes/compare?${params}`,
+      );
+    },
+    enabled: canCompare,
+  });
+
+  const options = [
+    ...revisions.map((r) => ({
+      value: sideRef(quoteId, r.revision),
+      label: `This quote, rev ${r.revision} (${new Date(r.createdAt).toLocaleDateString()})`,
+    })),
+    ...otherQuotes.map((q) => ({
+      value: sideRef(q.id),
+      label: `Quote #${q.id} (${money(q.monthlyFee)}/mo)`,
+    })),
+  ];
+
+  const sidePicker = (
+    value: SideRef | null,
+    onChange: (v: SideRef) => void,
+  ) => (
+    <Select value={value ?? undefined} onValueChange={onChange}>
+      <SelectTrigger className="w-72">
+        <SelectValue placeholder="Choose a revision or quote" />
+      </SelectTrigger>
+      <SelectContent>
+        {options.map((option) => (
+          <SelectItem key={option.value} value={option.value}>
+            {option.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <KbCard className="p-6 mb-8">
+      <div className="flex items-center gap-3 pb-4">
+        <div className="flex items-center justify-center w-10 h-10 bg-slate-600 rounded-lg">
+          <History className="h-5 w-5 text-white" />
+        </div>
+        <div>
+          <CardTitle className="text-2xl font-bold text-foreground">
+            Revision History
+          </CardTitle>
+          <p className="text-sm text-muted-foreground mt-1">
+            Every save of this quote, and how they compare
+          </p>
+        </div>
+      </div>
+
+      {isLoading && (
+        <p className="text-sm text-muted-foreground">Loading revisions...</p>
+      )}
+      {!isLoading && revisions.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          No revisions yet. The next save records one.
+        </p>
+      )}
+      {revisions.length > 0 && (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Revision</TableHead>
+              <TableHead>Saved</TableHead>
+              <TableHead>By</TableHead>
+              <TableHead>Monthly</TableHead>
+              <TableHead>Setup</TableHead>
+              <TableHead>Changed</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {revisions.map((revision, i) => {
+              const previous = revisions[i + 1];
+              return (
+                <TableRow key={revision.id}>
+                  <TableCell>
+                    rev {revision.revision}
+                    {revision.hubspotQuoteId && (
+                      <Badge variant="outline" className="ml-2">
+                        HubSpot
+                      </Badge>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {new Date(revision.createdAt).toLocaleString()}
+                  </TableCell>
+                  <TableCell>{revision.editorName ?? "System"}</TableCell>
+                  <TableCell>{money(revision.monthlyFee)}</TableCell>
+                  <TableCell>{money(revision.setupFee)}</TableCell>
+                  <TableCell className="text-xs text-muted-foreground max-w-xs">
+                    {previous
+                      ? revision.changedFields.join(", ") || "Pricing only"
+                      : "Created"}
+                  </TableCell>
+                  <TableCell>
+                    {previous && (
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => {
+                          setLeft(sideRef(quoteId, previous.revision));
+                          setRight(sideRef(quoteId, revision.revision));
+                        }}
+                      >
+                        <GitCompare className="h-4 w-4 mr-1" />
+                        Diff
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      )}
+
+      {options.length > 1 && (
+        <div className="mt-6 space-y-4">
+          <div className="flex flex-wrap items-center gap-2">
+            {sidePicker(left, setLeft)}
+            <span className="text-sm text-muted-foreground">compared with</span>
+            {sidePicker(right, setRight)}
+          </div>
+
+          {comparisonError && (
+            <p className="text-sm text-destructive">
+              {apiErrorMessage(
+                comparisonError,
+                "Couldn't compare these quotes",
+              )}
+            </p>
+          )}
+          {canCompare && comparison && (
+            <>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Service</TableHead>
+                    <TableHead>{sideLabel(comparison.left)}</TableHead>
+                    <TableHead>{sideLabel(comparison.right)}</TableHead>
+                    <TableHead>Change</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {comparison.serviceDeltas.map((delta) => (
+                    <TableRow
+                      key={`${delta.service}:${delta.cadence}`}
+                      className={
+                        delta.service === "total" ? "font-semibold" : undefined
+                      }
+                    >
+                      <TableCell>{delta.label}</TableCell>
+                      <TableCell>{money(delta.before)}</TableCell>
+                      <TableCell>{money(delta.after)}</TableCell>
+                      <TableCell className={deltaClass(delta.delta)}>
+                        {delta.delta > 0 ? "+" : ""}
+                        {delta.delta ? money(delta.delta) : "—"}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              <div>
+                <h4 className="text-sm font-medium text-foreground mb-2">
+                  Changed inputs
+                </h4>
+                {comparison.fieldChanges.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    No inputs changed.
+                  </p>
+                ) : (
+                  <ul className="space-y-1 text-sm">
+                    {comparison.fieldChanges.map((change) => (
+                      <li key={change.field}>
+                        <span className="font-medium">{change.label}:</span>{" "}
+                        <span className="text-muted-foreground line-through">
+                          {change.before ?? "not set"}
+                        </span>{" "}
+                        → {change.after ?? "not set"}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </KbCard>
+  );
+}
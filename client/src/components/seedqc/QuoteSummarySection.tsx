@@ -1,5 +1,10 @@
 import React from "react";
 import type { FeeCalculation, QuoteSummaryForm } from "./types";
+import {
+  DISCOUNT_SERVICE_LABELS,
+  describeDiscount,
+} from "@shared/pricing-discounts";
+import { describeContractTerm } from "@shared/pricing-terms";
 
 type Props = {
   form: QuoteSummaryForm;
@@ -16,6 +21,7 @@ export function QuoteSummarySection({
 }: Props) {
   const combinedMonthly = Number(feeCalculation?.combined?.monthlyFee ?? 0);
   const combinedSetup = Number(feeCalculation?.combined?.setupFee ?? 0);
+  const contractTerm = feeCalculation?.contractTerm;
 
   return (
     <div className="space-y-4">
@@ -51,6 +57,14 @@ export function QuoteSummarySection({
               </span>
             </div>
           )}
+          {contractTerm && contractTerm.term !== "monthly" && (
+            <div className="text-sm text-muted-foreground mt-1">
+              {describeContractTerm(contractTerm)}
+              {contractTerm.billingFrequency === "annually"
+                ? ` · $${contractTerm.prepayAmount.toLocaleString()} billed annually`
+                : ""}
+            </div>
+          )}
           <div className="mt-3 text-xs text-muted-foreground">
             {isBreakdownExpanded
               ? "Click to hide detailed breakdown"
@@ -89,6 +103,10 @@ export function QuoteSummarySection({
             const priorYears = (watch?.("priorYearFilings") || []).length || 0;
             const cfoFee = Number((feeCalculation as any)?.cfoAdvisoryFee || 0);
             const cfoType: string = watch?.("cfoAdvisoryType") || "";
+            const discounts = feeCalculation?.lineItemDiscounts || [];
+            const steadyState = Number(
+              feeCalculation?.discountTotals?.steadyStateMonthlyFee || 0,
+            );
 
             return (
               <div className="space-y-6 text-sm">
@@ -254,6 +272,37 @@ export function QuoteSummarySection({
                     )}
                   </div>
                 </div>
+
+                {/* Discounts group; fees above are already net of these */}
+                {discounts.length > 0 && (
+                  <div>
+                    <div className="uppercase tracking-wide text-xs text-muted-foreground mb-2">
+                      Discounts Applied
+                    </div>
+                    <div className="space-y-3">
+                      {discounts.map((d, i) => (
+                        <div key={i} className="py-2">
+                          <div className="flex items-center justify-between">
+                            <span className="font-medium">
+                              {DISCOUNT_SERVICE_LABELS[d.service]} {d.appliesTo === "setup" ? "setup" : "monthly"}
+                            </span>
+                            <span className="font-semibold">
+                              {d.amount >= 0 ? "-" : "+"}{fmt(Math.abs(d.amount))}
+                            </span>
+                          </div>
+                          <div className="text-xs text-muted-foreground mt-1">
+                            {fmt(d.listPrice)} → {fmt(d.discountedPrice)} ({describeDiscount(d)}){d.reason ? ` · ${d.reason}` : ""}
+                          </div>
+                        </div>
+                      ))}
+                      {steadyState > combinedMonthly && (
+                        <div className="text-xs text-muted-foreground">
+                          Monthly fee rises to {fmt(steadyState)} once time-limited discounts end
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                )}
               </div>
             );
           })()}
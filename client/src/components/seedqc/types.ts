@@ -1,4 +1,9 @@
 import type { UseFormReturn } from "react-hook-form";
+import type {
+  AppliedLineItemDiscount,
+  DiscountTotals,
+} from "@shared/pricing-discounts";
+import type { ContractTermResult } from "@shared/pricing-terms";
 export type FeeBreakdown = {
   monthlyFee: number;
   setupFee: number;
@@ -39,6 +44,12 @@ export type FeeCalculation = {
   includesBookkeeping?: boolean;
   includesTaas?: boolean;
 
+  // Line-item discounts and promo codes; service fees above are already net
+  lineItemDiscounts?: AppliedLineItemDiscount[];
+  discountTotals?: DiscountTotals;
+  // Commitment/prepay terms; monthly fees are already net of the term discount
+  contractTerm?: ContractTermResult;
+
   // Allow calculation engines to add more properties
   [key: string]: any;
 };
@@ -5,9 +5,27 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { type Quote } from "@shared/schema";
 import { calculateCombinedFees, calculateQuotePricing } from "@shared/pricing";
 import type { PricingConfig as SimplePricingConfig } from "@shared/pricing";
-import { mapQuoteToFormServices, getAllServices } from "@shared/services";
+import { toCalculatorPricingConfig } from "@shared/pricing-config";
+import {
+  DEFAULT_DISCOUNT_APPROVAL_THRESHOLD_PCT,
+  parseLineItemDiscounts,
+} from "@shared/pricing-discounts";
+import { parseContractTerm } from "@shared/pricing-terms";
+import {
+  SERVICE_REGISTRY,
+  mapQuoteToFormServices,
+  getAllServices,
+} from "@shared/services";
+import {
+  SOW_CONTENT_SERVICES,
+  type SowContentService,
+  type SowServiceToggle,
+} from "@shared/sow-template";
 import { apiRequest } from "@/lib/queryClient";
-import { usePricingConfig } from "@/hooks/usePricingConfig";
+import {
+  usePricingConfig,
+  usePricingConfigVersion,
+} from "@/hooks/usePricingConfig";
 import { useCalculatorContent } from "@/hooks/useCalculatorContent";
 import { checkExistingQuotes } from "@/services/quotes";
 import {
@@ -20,7 +38,7 @@ import { UniversalNavbar } from "@/components/UniversalNavbar";
 import { Form } from "@/components/ui/form";
 import { QuoteSummarySection } from "@/components/seedqc/QuoteSummarySection";
 import { ExistingQuotesModal } from "@/components/seedqc/ExistingQuotesModal";
-import { ApprovalCodeDialog } from "@/components/seedqc/ApprovalCodeDialog";
+import { ApprovalWorkflow } from "./components/ApprovalWorkflow";
 import { StartNewQuoteCard } from "@/components/seedqc/StartNewQuoteCard";
 import { ContactSearchModal } from "@/components/seedqc/ContactSearchModal";
 import { QuoteActionsBar } from "@/components/seedqc/QuoteActionsBar";
@@ -35,7 +53,12 @@ import PayrollSection from "@/components/quote-form/PayrollSection";
 import APSection from "@/components/quote-form/APSection";
 import ARSection from "@/components/quote-form/ARSection";
 import AgentOfServiceSection from "@/components/quote-form/AgentOfServiceSection";
+import DiscountsSection from "@/components/quote-form/DiscountsSection";
+import ContractTermSection from "@/components/quote-form/ContractTermSection";
 import { CommissionPreview } from "@/components/seedqc/CommissionPreview";
+import { QuoteRevisionsPanel } from "@/components/seedqc/QuoteRevisionsPanel";
+import { QuotePricingOptionsPanel } from "@/components/seedqc/QuotePricingOptionsPanel";
+import { QuoteProposalPanel } from "@/components/seedqc/QuoteProposalPanel";
 import { useQuotes } from "@/hooks/use-quotes";
 import { useAuth } from "@/hooks/use-auth";
 import type { FeeCalculation } from "@/components/seedqc/types";
@@ -61,12 +84,9 @@ function QuoteCalculator() {
   const [sortOrder, setSortOrder] = useState<"asc" | "desc">("desc");
   
   // Approval state
-  const [isApprovalDialogOpen, setIsApprovalDialogOpen] = useState(false);
-  const [approvalCode, setApprovalCode] = useState("");
-  const [isRequestingApproval, setIsRequestingApproval] = useState(false);
-  const [hasRequestedApproval, setHasRequestedApproval] = useState(false);
+  // Contact awaiting approval for an additional quote
+  const [approvalContact, setApprovalContact] = useState<any | null>(null);
   const [isApproved, setIsApproved] = useState(false);
-  const [isValidatingCode, setIsValidatingCode] = useState(false);
   
   // Dialog states
   const [resetConfirmDialog, setResetConfirmDialog] = useState(false);
@@ -134,34 +154,22 @@ function QuoteCalculator() {
   const [verificationTimeoutId, setVerificationTimeoutId] =
     useState<NodeJS.Timeout | null>(null);
 
+  // Saved quotes re-price with the pricing version they were pinned to
+  const [pinnedPricingVersionId, setPinnedPricingVersionId] = useState<
+    number | null
+  >(null);
+  useEffect(() => {
+    if (editingQuoteId === null) setPinnedPricingVersionId(null);
+  }, [editingQuoteId]);
+  const { data: pinnedPricingConfig } = usePricingConfigVersion(
+    pinnedPricingVersionId,
+  );
+
   const mappedPricingConfig = useMemo<SimplePricingConfig | undefined>(() => {
-    const cfg: any = pricingConfig as any;
+    const cfg = pinnedPricingVersionId ? pinnedPricingConfig : pricingConfig;
     if (!cfg) return undefined;
-    const baseMonthlyFee = cfg?.baseFees?.bookkeeping ?? 150;
-    const qboMonthly =
-      cfg?.serviceSettings?.bookkeeping?.qbo_subscription_fee ?? 60;
-    return {
-      services: {
-        bookkeeping: { enabled: true },
-        taas: { enabled: true },
-        payroll: { enabled: true },
-        ap: { enabled: true },
-        ar: { enabled: true },
-        agentOfService: { enabled: true },
-        cfoAdvisory: { enabled: true },
-        qbo: { enabled: true },
-      },
-      fees: {
-        baseMonthlyFee,
-        qboMonthly,
-        priorYearFilingPerYear: 1500,
-        cleanupPerMonth: 100,
-        serviceTierFees: { Automated: 0, Guided: 79, Concierge: 249 },
-      },
-      discounts: { bookkeepingWithTaasPct: 0.5 },
-      rounding: { monthlyStep: 25 },
-    } satisfies SimplePricingConfig;
-  }, [pricingConfig]);
+    return toCalculatorPricingConfig(cfg);
+  }, [pricingConfig, pinnedPricingConfig, pinnedPricingVersionId]);
 
   const [currentFormView, setCurrentFormView] = useState<
     "bookkeeping" | "taas" | "placeholder"
@@ -221,7 +229,10 @@ function QuoteCalculator() {
       serviceAgentOfService: false,
       agentOfServiceAdditionalStates: 0,
       agentOfServiceComplexCase: false,
-      approvalCode: "",
+      lineItemDiscounts: [],
+      promoCode: "",
+      discountReason: "",
+      contractTerm: "monthly",
     },
   });
 
@@ -242,6 +253,7 @@ function QuoteCalculator() {
     mappedPricingConfig,
     editingQuoteId,
     setEditingQuoteId,
+    setPinnedPricingVersionId,
     refetchQuotes,
   });
 
@@ -283,6 +295,9 @@ function QuoteCalculator() {
       qboFee: Number(rawCalc?.qboFee) || 0,
       includesBookkeeping: Boolean(rawCalc?.includesBookkeeping),
       includesTaas: Boolean(rawCalc?.includesTaas),
+      lineItemDiscounts: rawCalc?.lineItemDiscounts ?? [],
+      discountTotals: rawCalc?.discountTotals,
+      contractTerm: rawCalc?.contractTerm,
     } as FeeCalculation;
   } catch (err) {
     try {
@@ -317,6 +332,9 @@ function QuoteCalculator() {
         qboFee: Number(rawCalc?.qboFee) || 0,
         includesBookkeeping: Boolean(rawCalc?.includesBookkeeping),
         includesTaas: Boolean(rawCalc?.includesTaas),
+        lineItemDiscounts: rawCalc?.lineItemDiscounts ?? [],
+        discountTotals: rawCalc?.discountTotals,
+        contractTerm: rawCalc?.contractTerm,
       } as FeeCalculation;
     } catch (err2) {
       feeCalculation = {
@@ -410,6 +428,7 @@ function QuoteCalculator() {
   const doLoadQuote = (quote: Quote) => {
     console.log("Loading quote into form:", quote);
     setEditingQuoteId(quote.id);
+    setPinnedPricingVersionId(quote.pricingConfigVersionId ?? null);
     setIsApproved(quote.approvalRequired || false);
     const formData = {
       contactEmail: quote.contactEmail,
@@ -481,6 +500,10 @@ function QuoteCalculator() {
       priorYearFilings: quote.priorYearFilings || [],
       qboSubscription: quote.qboSubscription ?? false,
       cleanupPeriods: quote.cleanupPeriods || [],
+      lineItemDiscounts: parseLineItemDiscounts(quote.lineItemDiscountsJson),
+      promoCode: quote.promoCode || "",
+      discountReason: quote.discountReason || "",
+      contractTerm: parseContractTerm(quote.contractTerm),
     } as any;
     console.log("Loading quote into form:", quote.id);
     form.reset(formData);
@@ -538,66 +561,15 @@ function QuoteCalculator() {
     clearUnsavedChanges();
   };
 
-  const validateApprovalCode = async () => {
-    if (!approvalCode || approvalCode.length !== 4) {
-      toast({
-        title: "Invalid Code",
-        description: "Please enter a 4-digit approval code.",
-        variant: "destructive",
-      });
-      return;
-    }
-    setIsValidatingCode(true);
-    try {
-      const contactEmail =
-        form.getValues().contactEmail || selectedContact?.properties?.email;
-      if (!contactEmail) {
-        toast({
-          title: "Error",
-          description: "Contact email is required for validation.",
-          variant: "destructive",
-        });
-        setIsValidatingCode(false);
-        return;
-      }
-      const result = await apiRequest("/api/approval/validate", {
-        method: "POST",
-        body: JSON.stringify({ code: approvalCode, contactEmail }),
-      });
-      if (result.valid) {
-        if (selectedContact) {
-          setIsApprovalDialogOpen(false);
-          form.setValue("approvalCode", approvalCode);
-          setApprovalCode("");
-          toast({
-            title: "Approval Granted",
-            description: "Proceeding to quote calculator.",
-          });
-          proceedToClientDetails(selectedContact);
-        } else {
-          form.setValue("approvalCode", approvalCode);
-          setApprovalCode("");
-          toast({
-            title: "Approval Granted",
-            description: "Code validated successfully.",
-          });
-        }
-      } else {
-        toast({
-          title: "Invalid Code",
-          description: result.message || "Please check the code and try again.",
-          variant: "destructive",
-        });
-      }
-    } catch (error) {
-      toast({
-        title: "Validation Failed",
-        description: "Failed to validate code. Please try again.",
-        variant: "destructive",
-      });
-    } finally {
-      setIsValidatingCode(false);
-    }
+  const handleNewQuoteApproved = (approvalRequestId: number) => {
+    const contact = approvalContact;
+    setApprovalContact(null);
+    form.setValue("approvalRequestId", approvalRequestId);
+    toast({
+      title: "Approval Granted",
+      description: "Proceeding to quote calculator.",
+    });
+    if (contact) proceedToClientDetails(contact);
   };
 
   const liveSearchContacts = async (searchTerm: string) => {
@@ -752,42 +724,9 @@ function QuoteCalculator() {
     }
   };
 
-  const requestNewQuoteApproval = async (contact: any) => {
-    setIsRequestingApproval(true);
-    try {
-      const result = await apiRequest("/api/approval-request", {
-        method: "POST",
-        body: JSON.stringify({
-          type: "duplicate_quote",
-          email: contact.properties.email,
-          contactName:
-            `${contact.properties.firstname || ""} ${contact.properties.lastname || ""}`.trim() ||
-            contact.properties.email,
-          requestedBy: user?.email,
-          reason: `Creating additional quote for existing contact: ${contact.properties.email}`,
-          contactData: contact,
-        }),
-      });
-      if (result.success) {
-        setHasRequestedApproval(true);
-        setIsApprovalDialogOpen(true);
-        setShowExistingQuotesModal(false);
-        toast({
-          title: "Approval Requested",
-          description: "Request sent to admins. Check Slack for approval code.",
-        });
-      } else {
-        throw new Error(result.message || "Failed to send approval request");
-      }
-    } catch (error) {
-      toast({
-        title: "Request Failed",
-        description: "Failed to request approval. Please try again.",
-        variant: "destructive",
-      });
-    } finally {
-      setIsRequestingApproval(false);
-    }
+  const requestNewQuoteApproval = (contact: any) => {
+    setShowExistingQuotesModal(false);
+    setApprovalContact(contact);
   };
 
   const proceedToClientDetails = (contact: any) => {
@@ -985,6 +924,23 @@ function QuoteCalculator() {
                     <ARSection form={form} />
                     <AgentOfServiceSection form={form} />
                     <CfoAdvisorySection control={form.control} form={form} />
+                    <ContractTermSection
+                      form={form}
+                      terms={feeCalculation.contractTerm}
+                      configuredPct={
+                        mappedPricingConfig?.discounts?.contractTermPct
+                      }
+                    />
+                    <DiscountsSection
+                      form={form}
+                      applied={feeCalculation.lineItemDiscounts ?? []}
+                      totals={feeCalculation.discountTotals}
+                      approvalThresholdPct={
+                        mappedPricingConfig?.discounts?.approvalThresholdPct ??
+                        DEFAULT_DISCOUNT_APPROVAL_THRESHOLD_PCT
+                      }
+                      quoteId={editingQuoteId ?? undefined}
+                    />
                   </div>
 
                   {/* Pricing Summary should appear above Commission Preview per final screenshot */}
@@ -1026,9 +982,45 @@ function QuoteCalculator() {
                       <CommissionPreview
                         setupFee={feeCalculation.combined.setupFee}
                         monthlyFee={feeCalculation.combined.monthlyFee}
+                        monthlyDiscounts={(
+                          feeCalculation.lineItemDiscounts ?? []
+                        ).filter((d) => d.appliesTo === "monthly")}
+                        contractTerm={feeCalculation.contractTerm?.term}
                       />
                     </div>
                   )}
+
+                  {editingQuoteId !== null && (
+                    <QuotePricingOptionsPanel
+                      quoteId={editingQuoteId}
+                      onSelected={loadQuoteIntoForm}
+                    />
+                  )}
+
+                  {editingQuoteId !== null && (
+                    <QuoteProposalPanel
+                      quoteId={editingQuoteId}
+                      companyName={form.watch("companyName") || ""}
+                      sowServices={(
+                        Object.entries(SOW_CONTENT_SERVICES) as [
+                          SowServiceToggle,
+                          SowContentService,
+                        ][]
+                      )
+                        .filter(([toggle]) => !!watchedValues[toggle])
+                        .map(([toggle, service]) => ({
+                          service,
+                          label: SERVICE_REGISTRY[toggle].name,
+                        }))}
+                    />
+                  )}
+
+                  {editingQuoteId !== null && (
+                    <QuoteRevisionsPanel
+                      quoteId={editingQuoteId}
+                      contactEmail={form.watch("contactEmail") || ""}
+                    />
+                  )}
                 </>
               )}
 
@@ -1058,14 +1050,27 @@ function QuoteCalculator() {
                 infoMessage={existingQuotesInfoMessage || undefined}
               />
 
-              <ApprovalCodeDialog
-                open={isApprovalDialogOpen}
-                onOpenChange={setIsApprovalDialogOpen}
-                approvalCode={approvalCode}
-                setApprovalCode={setApprovalCode}
-                isValidating={isValidatingCode}
-                onValidate={validateApprovalCode}
-              />
+              {approvalContact && (
+                <ApprovalWorkflow
+                  type="duplicate_quote"
+                  contactEmail={approvalContact.properties.email}
+                  context={`Additional quote for ${
+                    `${approvalContact.properties.firstname || ""} ${approvalContact.properties.lastname || ""}`.trim() ||
+                    approvalContact.properties.email
+                  } (${existingQuotesForEmail.length} existing)`}
+                  quoteSnapshot={{
+                    contact: approvalContact.properties,
+                    existingQuotes: existingQuotesForEmail.map((q: any) => ({
+                      id: q.id,
+                      monthlyFee: q.monthlyFee,
+                      setupFee: q.setupFee,
+                      hubspotQuoteId: q.hubspotQuoteId,
+                    })),
+                  }}
+                  onApproved={handleNewQuoteApproved}
+                  onCancel={() => setApprovalContact(null)}
+                />
+              )}
             </form>
           </Form>
         </div>
@@ -1,10 +1,12 @@
 /**
  * ✅ APPROVAL WORKFLOW
- * Maximum 100 lines - approval UI only!
- * Handles special cases requiring approval codes
+ * Approval UI only - sends the request to the admin approval queue and polls
+ * for the decision. Used for additional quotes, cleanup overrides and
+ * discounts over the approval threshold.
  */
 
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -15,108 +17,228 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
-import { AlertTriangle, Lock } from "lucide-react";
+import { AlertTriangle, Loader2, XCircle } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import { approvalKeys } from "@/lib/queryKeys";
+import {
+  APPROVAL_REQUEST_TYPE_LABELS,
+  type ApprovalRequestType,
+  type ApprovalStatus,
+  type RequestedOverride,
+} from "@shared/approvals";
 
-import type { QuoteFormData } from "../types/QuoteTypes";
+interface ApprovalStatusResponse {
+  id: number;
+  status: ApprovalStatus;
+  decisionNote: string | null;
+  approverEmail: string | null;
+}
 
 interface ApprovalWorkflowProps {
-  formData: QuoteFormData;
-  onApprovalSuccess: (approvalCode: string) => void;
+  type: ApprovalRequestType;
+  contactEmail: string;
+  quoteId?: number;
+  // Shown to the rep and sent ahead of the selected reason
+  context?: string;
+  requestedOverride?: RequestedOverride;
+  quoteSnapshot?: Record<string, unknown>;
+  onApproved: (approvalRequestId: number) => void;
   onCancel: () => void;
 }
 
+const OVERRIDE_REASONS: Record<string, string> = {
+  complex_cleanup: "Complex cleanup project",
+  custom_pricing: "Custom pricing arrangement",
+  special_client: "Special client circumstances",
+  other: "Other",
+};
+
+const POLL_INTERVAL_MS = 5000;
+
 export const ApprovalWorkflow: React.FC<ApprovalWorkflowProps> = ({
-  formData,
-  onApprovalSuccess,
+  type,
+  contactEmail,
+  quoteId,
+  context,
+  requestedOverride,
+  quoteSnapshot,
+  onApproved,
   onCancel,
 }) => {
-  const [approvalCode, setApprovalCode] = useState("");
+  const { toast } = useToast();
   const [overrideReason, setOverrideReason] = useState("");
   const [customOverrideReason, setCustomOverrideReason] = useState("");
+  const [requestId, setRequestId] = useState<number | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const { data: request } = useQuery<ApprovalStatusResponse>({
+    queryKey: approvalKeys.request(requestId ?? 0),
+    queryFn: async () =>
+      await apiRequest<ApprovalStatusResponse>(
+        "GET",
+        `/api/approval/requests/${requestId}`,
+      ),
+    enabled: requestId !== null,
+    refetchInterval: (query) =>
+      query.state.data && query.state.data.status !== "pending"
+        ? false
+        : POLL_INTERVAL_MS,
+  });
+
+  useEffect(() => {
+    if (request?.status === "approved") onApproved(request.id);
+    // onApproved is a fresh closure each render; only react to the decision
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [request?.id, request?.status]);
+
+  const reasonText = [
+    context,
+    overrideReason === "other"
+      ? customOverrideReason.trim()
+      : OVERRIDE_REASONS[overrideReason],
+  ]
+    .filter(Boolean)
+    .join(" - ");
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    try {
+      const result = await apiRequest<{ request: { id: number } }>(
+        "POST",
+        "/api/approval/request",
+        {
+          type,
+          contactEmail,
+          quoteId,
+          reason: reasonText,
+          requestedOverride,
+          quoteSnapshot,
+        },
+      );
+      setRequestId(result.request.id);
+    } catch (error) {
+      toast({
+        title: "Request Failed",
+        description: apiErrorMessage(error, "Failed to request approval."),
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
 
-  const handleSubmit = () => {
-    // Simple validation - in production would verify against server
-    if (approvalCode.length >= 4) {
-      onApprovalSuccess(approvalCode);
+  const handleCancel = () => {
+    if (requestId !== null && (!request || request.status === "pending")) {
+      apiRequest("POST", `/api/approval/requests/${requestId}/cancel`).catch(
+        () => {},
+      );
     }
+    onCancel();
   };
 
+  const waiting = requestId !== null && request?.status !== "rejected";
+
   return (
-    <Dialog open={true} onOpenChange={onCancel}>
+    <Dialog open={true} onOpenChange={(open) => !open && handleCancel()}>
       <DialogContent className="sm:max-w-md">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <AlertTriangle className="w-5 h-5 text-amber-600" />
-            Approval Required
+            Approval Required: {APPROVAL_REQUEST_TYPE_LABELS[type]}
           </DialogTitle>
           <DialogDescription>
-            This quote requires special approval. Please provide an approval
-            code to proceed.
+            {waiting
+              ? "Your request is in the admin approval queue. This will continue automatically once it is approved."
+              : "An admin needs to approve this before the quote can be saved."}
           </DialogDescription>
         </DialogHeader>
 
-        <div className="space-y-4">
-          {/* Override Reason */}
-          <div>
-            <Label htmlFor="overrideReason">Override Reason</Label>
-            <select
-              id="overrideReason"
-              value={overrideReason}
-              onChange={(e) => setOverrideReason(e.target.value)}
-              className="w-full p-2 border border-gray-300 rounded-md"
-            >
-              <option value="">Select reason...</option>
-              <option value="complex_cleanup">Complex cleanup project</option>
-              <option value="custom_pricing">Custom pricing arrangement</option>
-              <option value="special_client">
-                Special client circumstances
-              </option>
-              <option value="other">Other (please specify)</option>
-            </select>
+        {waiting ? (
+          <div className="space-y-4">
+            <div className="flex items-center gap-3 rounded-md border p-4 text-sm">
+              <Loader2 className="w-4 h-4 animate-spin text-amber-600" />
+              Waiting for a decision on request #{requestId}...
+            </div>
+            <Button onClick={handleCancel} variant="outline" className="w-full">
+              Withdraw Request
+            </Button>
           </div>
+        ) : (
+          <div className="space-y-4">
+            {request?.status === "rejected" && (
+              <div className="flex items-start gap-2 rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-800">
+                <XCircle className="w-4 h-4 mt-0.5 shrink-0" />
+                <div>
+                  Rejected
+                  {request.approverEmail ? ` by ${request.approverEmail}` : ""}
+                  {request.decisionNote ? `: ${request.decisionNote}` : "."}
+                </div>
+              </div>
+            )}
+
+            {context && (
+              <p className="text-sm text-muted-foreground">{context}</p>
+            )}
 
-          {overrideReason === "other" && (
+            {/* Override Reason */}
             <div>
-              <Label htmlFor="customOverrideReason">Please specify</Label>
-              <Input
-                id="customOverrideReason"
-                value={customOverrideReason}
-                onChange={(e) => setCustomOverrideReason(e.target.value)}
-                placeholder="Enter custom reason..."
-              />
+              <Label htmlFor="overrideReason">Override Reason</Label>
+              <select
+                id="overrideReason"
+                value={overrideReason}
+                onChange={(e) => setOverrideReason(e.target.value)}
+                className="w-full p-2 border border-gray-300 rounded-md"
+              >
+                <option value="">Select reason...</option>
+                {Object.entries(OVERRIDE_REASONS).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {value === "other" ? "Other (please specify)" : label}
+                  </option>
+                ))}
+              </select>
             </div>
-          )}
-
-          {/* Approval Code */}
-          <div>
-            <Label htmlFor="approvalCode" className="flex items-center gap-2">
-              <Lock className="w-4 h-4" />
-              Approval Code
-            </Label>
-            <Input
-              id="approvalCode"
-              type="password"
-              value={approvalCode}
-              onChange={(e) => setApprovalCode(e.target.value)}
-              placeholder="Enter approval code..."
-              className="font-mono"
-            />
-          </div>
 
-          {/* Actions */}
-          <div className="flex gap-3 pt-4">
-            <Button onClick={onCancel} variant="outline" className="flex-1">
-              Cancel
-            </Button>
-            <Button
-              onClick={handleSubmit}
-              disabled={!approvalCode || !overrideReason}
-              className="flex-1 bg-amber-600 hover:bg-amber-700"
-            >
-              Submit for Approval
-            </Button>
+            {overrideReason === "other" && (
+              <div>
+                <Label htmlFor="customOverrideReason">Please specify</Label>
+                <Input
+                  id="customOverrideReason"
+                  value={customOverrideReason}
+                  onChange={(e) => setCustomOverrideReason(e.target.value)}
+                  placeholder="Enter custom reason..."
+                />
+              </div>
+            )}
+
+            {/* Actions */}
+            <div className="flex gap-3 pt-4">
+              <Button
+                onClick={handleCancel}
+                variant="outline"
+                className="flex-1"
+              >
+                Cancel
+              </Button>
+              <Button
+                onClick={() => {
+                  setRequestId(null);
+                  handleSubmit();
+                }}
+                disabled={
+                  isSubmitting ||
+                  !overrideReason ||
+                  (overrideReason === "other" && !customOverrideReason.trim())
+                }
+                className="flex-1 bg-amber-600 hover:bg-amber-700"
+              >
+                {request?.status === "rejected"
+                  ? "Request Again"
+                  : "Submit for Approval"}
+              </Button>
+            </div>
           </div>
-        </div>
+        )}
       </DialogContent>
     </Dialog>
   );
@@ -187,8 +187,8 @@ export const QuoteCalculatorContainer: React.FC<
   };
 
   // Handle successful approval
-  const handleApprovalSuccess = (approvalCode: string) => {
-    const dataWithApproval = { ...formData, approvalCode };
+  const handleApprovalSuccess = (approvalRequestId: number) => {
+    const dataWithApproval = { ...formData, approvalRequestId };
     handleSubmit(dataWithApproval);
     setShowApprovalWorkflow(false);
   };
@@ -242,8 +242,10 @@ export const QuoteCalculatorContainer: React.FC<
       {/* Approval Workflow Modal */}
       {showApprovalWorkflow && (
         <ApprovalWorkflow
-          formData={formData}
-          onApprovalSuccess={handleApprovalSuccess}
+          type="duplicate_quote"
+          contactEmail={formData.contactEmail}
+          quoteSnapshot={{ ...formData }}
+          onApproved={handleApprovalSuccess}
           onCancel={() => setShowApprovalWorkflow(false)}
         />
       )}
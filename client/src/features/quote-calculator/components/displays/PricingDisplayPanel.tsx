@@ -14,21 +14,32 @@ import {
   DollarSign,
   Calculator,
   CheckCircle2,
+  Layers,
 } from "lucide-react";
 
 import type {
   PricingCalculationResult,
   QuoteFormData,
 } from "../../types/QuoteTypes";
+import type {
+  QuotePricingOptionView,
+  QuotePricingOptions,
+} from "@shared/quote-options";
+import { PricingOptionsComparison } from "./PricingOptionsComparison";
 
 interface PricingDisplayPanelProps {
   calculation: PricingCalculationResult;
   formData: QuoteFormData;
+  // Saved good / better / best options, shown side by side when present
+  pricingOptions?: QuotePricingOptions;
+  renderOptionActions?: (option: QuotePricingOptionView) => React.ReactNode;
 }
 
 export const PricingDisplayPanel: React.FC<PricingDisplayPanelProps> = ({
   calculation,
   formData,
+  pricingOptions,
+  renderOptionActions,
 }) => {
   // Helper to format currency with safety check
   const formatCurrency = (amount: number | undefined) => {
@@ -275,6 +286,24 @@ export const PricingDisplayPanel: React.FC<PricingDisplayPanelProps> = ({
           )}
         </CardContent>
       </Card>
+
+      {/* Pricing Options */}
+      {pricingOptions && pricingOptions.options.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Layers className="w-5 h-5 text-gray-600" />
+              Pricing Options
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <PricingOptionsComparison
+              pricingOptions={pricingOptions}
+              renderOptionActions={renderOptionActions}
+            />
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 };
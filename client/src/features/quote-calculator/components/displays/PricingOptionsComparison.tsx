@@ -0,0 +1,116 @@
+/**
+ * ⚖️ PRICING OPTIONS COMPARISON
+ * Good / better / best options side by side, one column per option
+ */
+
+import React from "react";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { CheckCircle2 } from "lucide-react";
+
+import type {
+  QuotePricingOptionView,
+  QuotePricingOptions,
+} from "@shared/quote-options";
+
+interface PricingOptionsComparisonProps {
+  pricingOptions: QuotePricingOptions;
+  // Extra controls under each option's totals (edit, select, ...)
+  renderOptionActions?: (option: QuotePricingOptionView) => React.ReactNode;
+}
+
+const formatCurrency = (amount: number) =>
+  `$${amount.toLocaleString(undefined, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+
+export const PricingOptionsComparison: React.FC<
+  PricingOptionsComparisonProps
+> = ({ pricingOptions, renderOptionActions }) => {
+  const { options, rows } = pricingOptions;
+  if (options.length === 0) return null;
+
+  return (
+    <div className="space-y-4">
+      <div
+        className="grid gap-4"
+        style={{
+          gridTemplateColumns: `repeat(${options.length}, minmax(0, 1fr))`,
+        }}
+      >
+        {options.map((option) => (
+          <div
+            key={option.id}
+            className={`p-4 rounded-lg border bg-white ${
+              option.selectedAt ? "border-green-500 ring-1 ring-green-500" : ""
+            }`}
+          >
+            <div className="flex items-center justify-between gap-2">
+              <div className="font-semibold text-gray-900">{option.name}</div>
+              {option.selectedAt && (
+                <Badge className="bg-green-100 text-green-800">
+                  <CheckCircle2 className="w-3 h-3 mr-1" />
+                  Chosen
+                </Badge>
+              )}
+            </div>
+            <div className="mt-2 text-2xl font-bold text-green-700">
+              {formatCurrency(option.monthlyFee)}
+              <span className="text-xs font-normal text-gray-500"> /month</span>
+            </div>
+            <div className="text-sm text-gray-600">
+              {formatCurrency(option.setupFee)} setup
+            </div>
+            <ul className="mt-3 space-y-1 text-xs text-gray-600">
+              {option.changes.length === 0 && <li>Same as the quote</li>}
+              {option.changes.map((change) => (
+                <li key={change.field}>
+                  {change.label}: {change.after}
+                </li>
+              ))}
+            </ul>
+            {renderOptionActions && (
+              <div className="mt-3 flex flex-wrap gap-2">
+                {renderOptionActions(option)}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Service</TableHead>
+            {options.map((option) => (
+              <TableHead key={option.id}>{option.name}</TableHead>
+            ))}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map((row) => (
+            <TableRow
+              key={`${row.service}:${row.cadence}`}
+              className={row.service === "total" ? "font-semibold" : undefined}
+            >
+              <TableCell>{row.label}</TableCell>
+              {row.amounts.map((amount, i) => (
+                <TableCell key={options[i]?.id ?? i}>
+                  {amount ? formatCurrency(amount) : "—"}
+                </TableCell>
+              ))}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+};
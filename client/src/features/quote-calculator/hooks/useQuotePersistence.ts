@@ -2,7 +2,8 @@ import { useEffect, useState } from "react";
 import { useMutation } from "@tanstack/react-query";
 import type { UseFormReturn } from "react-hook-form";
 import { useToast } from "@/hooks/use-toast";
-import { queryClient } from "@/lib/queryClient";
+import { apiErrorMessage, queryClient } from "@/lib/queryClient";
+import { seedqcKeys } from "@/lib/queryKeys";
 import { calculateCombinedFees, calculateQuotePricing } from "@shared/pricing";
 import type { PricingConfig as SimplePricingConfig } from "@shared/pricing";
 import { mapFormToQuotePayload } from "@/features/quote-calculator/logic/mapping";
@@ -14,6 +15,7 @@ interface UseQuotePersistenceParams {
   mappedPricingConfig?: SimplePricingConfig;
   editingQuoteId: number | null;
   setEditingQuoteId: (id: number | null) => void;
+  setPinnedPricingVersionId: (id: number | null) => void;
   refetchQuotes: () => void;
 }
 
@@ -22,6 +24,7 @@ export function useQuotePersistence({
   mappedPricingConfig,
   editingQuoteId,
   setEditingQuoteId,
+  setPinnedPricingVersionId,
   refetchQuotes,
 }: UseQuotePersistenceParams) {
   const { toast } = useToast();
@@ -52,14 +55,25 @@ export function useQuotePersistence({
           : "Your quote has been saved successfully.",
       });
       if (!editingQuoteId && data?.id) setEditingQuoteId(data.id);
+      // The server pins new and legacy quotes to the live version on save
+      setPinnedPricingVersionId(data?.pricingConfigVersionId ?? null);
       setHasUnsavedChanges(false);
       queryClient.invalidateQueries({ queryKey: ["/api/quotes"] });
       refetchQuotes();
     },
-    onError: () => {
+    onError: (error) => {
+      // The server prices every save; a 409 means our pricing config is
+      // stale, so reload it before the rep saves again
+      if (error instanceof Error && error.message.startsWith("409:")) {
+        queryClient.invalidateQueries({ queryKey: seedqcKeys.pricing.root() });
+      }
+      // Discount approval and promo code rejections carry a specific reason
       toast({
         title: "Error",
-        description: "Failed to save quote. Please try again.",
+        description: apiErrorMessage(
+          error,
+          "Failed to save quote. Please try again.",
+        ),
         variant: "destructive",
       });
     },
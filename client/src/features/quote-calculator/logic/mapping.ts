@@ -8,7 +8,7 @@ export function mapFormToQuotePayload(data: any, feeCalculation: any) {
     monthlyFee: String(feeCalculation?.combined?.monthlyFee ?? 0),
     setupFee: String(feeCalculation?.combined?.setupFee ?? 0),
     taasMonthlyFee: String(feeCalculation?.taas?.monthlyFee ?? 0),
-    taasPriorYearsFee: String(feeCalculation?.taas?.setupFee ?? 0),
+    taasPriorYearsFee: String(feeCalculation?.priorYearFilingsFee ?? 0),
 
     // Ensure client details are stored
     companyName: data.companyName || "",
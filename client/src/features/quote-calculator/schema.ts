@@ -1,5 +1,7 @@
 import { z } from "zod";
 import { insertQuoteSchema } from "@shared/schema";
+import { LineItemDiscountSchema } from "@shared/pricing-discounts";
+import { ContractTermSchema } from "@shared/pricing-terms";
 
 // Keep this module self-contained to avoid circular deps and ease testing
 export const currentMonth = new Date().getMonth() + 1; // 1-12
@@ -15,6 +17,17 @@ export const quoteFormSchema = insertQuoteSchema
     hubspotDealId: true,
     hubspotQuoteId: true,
     hubspotContactVerified: true,
+    // Discount columns are written by the server from lineItemDiscounts
+    lineItemDiscountsJson: true,
+    discountMonthlyAmount: true,
+    discountSetupAmount: true,
+    // Contract term amounts are derived from contractTerm on the server
+    termDiscountAmount: true,
+    prepayAmount: true,
+    // Written by the server when it prices the quote
+    pricingBreakdownJson: true,
+    // Moved along by proposal links, not calculator saves
+    status: true,
   })
   .extend({
     contactEmail: z
@@ -91,7 +104,14 @@ export const quoteFormSchema = insertQuoteSchema
     priorYearFilings: z.array(z.number()).optional(),
     qboSubscription: z.boolean().optional(),
     serviceTier: z.string().optional(),
-    approvalCode: z.string().optional(),
+    approvalRequestId: z.number().int().optional(),
+
+    // Line-item discounts, promo code and discount approval
+    lineItemDiscounts: z.array(LineItemDiscountSchema).default([]),
+    promoCode: z.string().optional(),
+    discountReason: z.string().optional(),
+    discountApprovalRequestId: z.number().int().optional(),
+    contractTerm: ContractTermSchema.default("monthly"),
 
     // Bookkeeping metadata (non-pricing) fields — restored as optional
     accountingBasis: z.string().optional(),
@@ -84,7 +84,7 @@ export interface QuoteFormData {
   overrideReason?: string;
   customOverrideReason?: string;
   customSetupFee?: string;
-  approvalCode?: string;
+  approvalRequestId?: number;
 }
 
 // Pricing calculation result interface (strongly typed, no more 'any')
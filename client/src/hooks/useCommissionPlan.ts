@@ -0,0 +1,40 @@
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { seedpayKeys } from "@/lib/queryKeys";
+import {
+  BUILT_IN_COMMISSION_PLAN,
+  type ResolvedCommissionPlan,
+} from "@shared/commission-plans";
+
+/**
+ * Active commission plan for the current user's sales rep (or a specific rep
+ * for admins). Falls back to the built-in plan while loading or on error so
+ * calculators always have rates.
+ */
+export function useCommissionPlan(options?: {
+  salesRepId?: number;
+  enabled?: boolean;
+}) {
+  const enabled = options?.enabled ?? true;
+  const salesRepId = options?.salesRepId;
+
+  const query = useQuery<ResolvedCommissionPlan>({
+    queryKey: seedpayKeys.commissionPlans.active(salesRepId),
+    enabled,
+    queryFn: async () => {
+      try {
+        const qs = salesRepId ? `?salesRepId=${salesRepId}` : "";
+        return await apiRequest<ResolvedCommissionPlan>(
+          "GET",
+          `/api/apps/seedpay/commission-plan${qs}`,
+        );
+      } catch (e) {
+        return BUILT_IN_COMMISSION_PLAN;
+      }
+    },
+    staleTime: 5 * 60 * 1000,
+    refetchOnWindowFocus: false,
+  });
+
+  return { ...query, plan: query.data ?? BUILT_IN_COMMISSION_PLAN };
+}
@@ -27,3 +27,18 @@ export function usePricingConfig() {
     retry: false,
   });
 }
+
+// Config snapshot of the published version a saved quote is pinned to
+export function usePricingConfigVersion(versionId: number | null | undefined) {
+  return useQuery<PricingConfig>({
+    queryKey: seedqcKeys.pricing.versionConfig(versionId ?? 0),
+    queryFn: async () => {
+      const data = await apiRequest(`/api/pricing/versions/${versionId}/config`);
+      return data as PricingConfig;
+    },
+    enabled: Boolean(versionId),
+    // Published versions are immutable
+    staleTime: Infinity,
+    retry: false,
+  });
+}
@@ -57,8 +57,8 @@ export function useQuoteManagement() {
         arFee: feeCalculation.arFee.toString(),
         agentOfServiceFee: feeCalculation.agentOfServiceFee.toString(),
         cfoAdvisoryFee: feeCalculation.cfoAdvisoryFee.toString(),
-        // Include approval code if this is an approved duplicate quote creation
-        approvalCode: data.approvalCode,
+        // Include the approval if this is an approved duplicate quote creation
+        approvalRequestId: data.approvalRequestId,
       };
 
       if (editingQuoteId) {
@@ -74,6 +74,21 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+// Pull the server's `message` out of an error thrown by throwIfResNotOk
+export function apiErrorMessage(error: unknown, fallback: string): string {
+  const raw = error instanceof Error ? error.message : "";
+  const body = raw.replace(/^\d{3}:\s*/, "");
+  try {
+    const parsed = JSON.parse(body);
+    if (typeof parsed?.message === "string" && parsed.message) {
+      return parsed.message;
+    }
+  } catch {
+    // Non-JSON bodies fall through to the fallback
+  }
+  return fallback;
+}
+
 // Overloaded function to support both old and new calling patterns
 export async function apiRequest<T = any>(
   urlOrMethod: string,
@@ -214,6 +229,42 @@ export async function apiRequest<T = any>(
   }
 }
 
+// Fetch a file from the API with the session cookie and hand it to the browser
+export async function apiDownload(path: string, filename: string) {
+  const response = await fetch(getApiUrl(path), {
+    method: "GET",
+    mode: "cors",
+    cache: "no-cache",
+    credentials: "include",
+  });
+  await throwIfResNotOk(response);
+  const url = URL.createObjectURL(await response.blob());
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+// Multipart upload; the browser sets the boundary Content-Type itself
+export async function apiUpload<T = any>(
+  path: string,
+  body: FormData,
+): Promise<T> {
+  const response = await fetch(getApiUrl(path), {
+    method: "POST",
+    mode: "cors",
+    cache: "no-cache",
+    credentials: "include",
+    headers: { Accept: "application/json" },
+    body,
+  });
+  await throwIfResNotOk(response);
+  return (await response.json()) as T;
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
@@ -25,6 +25,35 @@ export const seedpayKeys = {
         salesRepId ?? "all",
       ] as const,
   },
+  commissionPlans: {
+    root: () => [...seedpayKeys.root, "commission-plans"] as const,
+    active: (salesRepId?: string | number) =>
+      [
+        ...seedpayKeys.commissionPlans.root(),
+        "active",
+        salesRepId ?? "me",
+      ] as const,
+    admin: () => [...seedpayKeys.commissionPlans.root(), "admin"] as const,
+    assignments: () =>
+      [...seedpayKeys.commissionPlans.root(), "assignments"] as const,
+  },
+  payoutRuns: {
+    root: () => [...seedpayKeys.root, "payout-runs"] as const,
+    list: () => [...seedpayKeys.payoutRuns.root(), "list"] as const,
+    preview: (periodStart?: string) =>
+      [
+        ...seedpayKeys.payoutRuns.root(),
+        "preview",
+        periodStart ?? "latest",
+      ] as const,
+  },
+  commissionProducts: {
+    root: () => [...seedpayKeys.root, "commission-products"] as const,
+    mappings: () =>
+      [...seedpayKeys.commissionProducts.root(), "mappings"] as const,
+    unclassified: () =>
+      [...seedpayKeys.commissionProducts.root(), "unclassified"] as const,
+  },
   deals: {
     root: () => [...seedpayKeys.root, "deals"] as const,
     list: (params?: { ownerId?: string; limit?: number }) =>
@@ -61,6 +90,8 @@ export const seedqcKeys = {
   pricing: {
     root: () => [...seedqcKeys.root, "pricing"] as const,
     config: () => [...seedqcKeys.pricing.root(), "config"] as const,
+    versionConfig: (versionId: number) =>
+      [...seedqcKeys.pricing.root(), "version-config", versionId] as const,
   },
 };
 
@@ -80,9 +111,24 @@ export const pricingKeys = {
     serviceSettings: () =>
       [...pricingKeys.admin.root(), "service-settings"] as const,
     history: () => [...pricingKeys.admin.root(), "history"] as const,
+    versions: () => [...pricingKeys.admin.root(), "versions"] as const,
+    versionDiff: (versionId: number) =>
+      [...pricingKeys.admin.versions(), versionId, "diff"] as const,
+    unpublished: () =>
+      [...pricingKeys.admin.versions(), "unpublished"] as const,
+    promoCodes: () => [...pricingKeys.admin.root(), "promo-codes"] as const,
   },
 };
 
+// Quote approval request keys
+export const approvalKeys = {
+  root: ["approvals"] as const,
+  request: (id: number) => [...approvalKeys.root, "request", id] as const,
+  queue: (status?: string) =>
+    [...approvalKeys.root, "queue", status || "all"] as const,
+  quote: (quoteId: number) => [...approvalKeys.root, "quote", quoteId] as const,
+};
+
 // Core keys (non-app-specific)
 export const coreKeys = {
   root: ["core"] as const,
@@ -0,0 +1,474 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { UniversalNavbar } from "@/components/UniversalNavbar";
+import { PermissionGuard } from "@/components/PermissionGuard";
+import { useToast } from "@/hooks/use-toast";
+import { apiErrorMessage, apiRequest, queryClient } from "@/lib/queryClient";
+import { approvalKeys } from "@/lib/queryKeys";
+import { PERMISSIONS } from "@shared/permissions";
+import {
+  APPROVAL_REQUEST_TYPE_LABELS,
+  type ApprovalEventAction,
+  type ApprovalRequestType,
+  type ApprovalStatus,
+  type RequestedOverride,
+} from "@shared/approvals";
+import { ClipboardCheck, History } from "lucide-react";
+
+interface ApprovalEventRow {
+  id: number;
+  action: ApprovalEventAction;
+  actorEmail: string | null;
+  note: string | null;
+  createdAt: string;
+}
+
+interface ApprovalRequestRow {
+  id: number;
+  type: ApprovalRequestType;
+  status: ApprovalStatus;
+  contactEmail: string;
+  quoteId: number | null;
+  reason: string;
+  requestedOverride: RequestedOverride;
+  quoteSnapshot: Record<string, unknown> | null;
+  requesterEmail: string | null;
+  approverEmail: string | null;
+  decisionNote: string | null;
+  decidedAt: string | null;
+  expiresAt: string | null;
+  createdAt: string;
+  events?: ApprovalEventRow[];
+}
+
+type Decision = "approve" | "reject";
+
+const STATUS_FILTERS: Array<{ value: string; label: string }> = [
+  { value: "pending", label: "Pending" },
+  { value: "approved", label: "Approved" },
+  { value: "rejected", label: "Rejected" },
+  { value: "used", label: "Used" },
+  { value: "", label: "All" },
+];
+
+const STATUS_VARIANTS: Record<
+  ApprovalStatus,
+  "default" | "secondary" | "destructive" | "outline"
+> = {
+  pending: "default",
+  approved: "secondary",
+  rejected: "destructive",
+  cancelled: "outline",
+  used: "outline",
+};
+
+const formatDate = (value: string | null) =>
+  value ? new Date(value).toLocaleString() : "";
+
+function describeOverride(request: ApprovalRequestRow): string {
+  const label = APPROVAL_REQUEST_TYPE_LABELS[request.type] ?? request.type;
+  return request.requestedOverride.maxDiscountPct !== undefined
+    ? `${label} (${request.requestedOverride.maxDiscountPct}%)`
+    : label;
+}
+
+function EventTimeline({ events }: { events: ApprovalEventRow[] }) {
+  return (
+    <ol className="space-y-1 text-sm">
+      {events.map((event) => (
+        <li key={event.id} className="flex gap-2">
+          <span className="text-muted-foreground whitespace-nowrap">
+            {formatDate(event.createdAt)}
+          </span>
+          <span className="font-medium capitalize">{event.action}</span>
+          <span>{event.actorEmail ?? ""}</span>
+          {event.note && (
+            <span className="text-muted-foreground">- {event.note}</span>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+export default function AdminApprovalsPage() {
+  const { toast } = useToast();
+  const [status, setStatus] = useState("pending");
+  const [reviewId, setReviewId] = useState<number | null>(null);
+  const [suggestedDecision, setSuggestedDecision] = useState<Decision | null>(
+    null,
+  );
+  const [note, setNote] = useState("");
+  const [auditQuoteInput, setAuditQuoteInput] = useState("");
+  const [auditQuoteId, setAuditQuoteId] = useState<number | null>(null);
+
+  // Slack approve/reject links land here with ?request=<id>&decision=<...>
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const requestId = parseInt(params.get("request") || "");
+    if (!isNaN(requestId)) {
+      setReviewId(requestId);
+      const decision = params.get("decision");
+      setSuggestedDecision(
+        decision === "approve" || decision === "reject" ? decision : null,
+      );
+    }
+  }, []);
+
+  const { data: requests, isLoading } = useQuery<ApprovalRequestRow[]>({
+    queryKey: approvalKeys.queue(status),
+    queryFn: async () =>
+      await apiRequest<ApprovalRequestRow[]>(
+        "GET",
+        `/api/admin/approvals${status ? `?status=${status}` : ""}`,
+      ),
+    refetchInterval: 30000,
+  });
+
+  const { data: reviewing } = useQuery<ApprovalRequestRow>({
+    queryKey: approvalKeys.request(reviewId ?? 0),
+    queryFn: async () =>
+      await apiRequest<ApprovalRequestRow>(
+        "GET",
+        `/api/admin/approvals/${reviewId}`,
+      ),
+    enabled: reviewId !== null,
+  });
+
+  const { data: auditTrail, isFetching: isLoadingAudit } = useQuery<
+    ApprovalRequestRow[]
+  >({
+    queryKey: approvalKeys.quote(auditQuoteId ?? 0),
+    queryFn: async () =>
+      await apiRequest<ApprovalRequestRow[]>(
+        "GET",
+        `/api/admin/approvals?quoteId=${auditQuoteId}`,
+      ),
+    enabled: auditQuoteId !== null,
+  });
+
+  const closeReview = () => {
+    setReviewId(null);
+    setSuggestedDecision(null);
+    setNote("");
+  };
+
+  const decideMutation = useMutation({
+    mutationFn: async (decision: Decision) =>
+      await apiRequest<ApprovalRequestRow>(
+        "POST",
+        `/api/admin/approvals/${reviewId}/decision`,
+        { decision, note: note.trim() || undefined },
+      ),
+    onSuccess: (decided) => {
+      toast({
+        title: decided.status === "approved" ? "Approved" : "Rejected",
+        description: `Request #${decided.id} for ${decided.contactEmail}`,
+      });
+      queryClient.invalidateQueries({ queryKey: approvalKeys.root });
+      closeReview();
+    },
+    onError: (error) => {
+      toast({
+        title: "Decision failed",
+        description: apiErrorMessage(error, "Failed to record decision"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <PermissionGuard
+      permissions={PERMISSIONS.VIEW_ADMIN_DASHBOARD}
+      fallback={<div>Access denied</div>}
+    >
+      <div className="min-h-screen bg-gradient-to-br from-[#253e31] to-[#75c29a]">
+        <UniversalNavbar />
+
+        <main className="flex-1 p-6">
+          <div className="max-w-7xl mx-auto space-y-6">
+            <div>
+              <h1 className="text-3xl font-bold text-white flex items-center gap-3">
+                <ClipboardCheck className="w-8 h-8 text-white" />
+                Approval Queue
+              </h1>
+              <p className="mt-2 text-white/80">
+                Additional quotes, cleanup overrides and discounts over the
+                approval threshold
+              </p>
+            </div>
+
+            <Card>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <CardTitle>Requests</CardTitle>
+                  <div className="flex gap-2">
+                    {STATUS_FILTERS.map((filter) => (
+                      <Button
+                        key={filter.label}
+                        size="sm"
+                        variant={
+                          status === filter.value ? "default" : "outline"
+                        }
+                        onClick={() => setStatus(filter.value)}
+                      >
+                        {filter.label}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent>
+                {isLoading && (
+                  <div className="text-center py-8">Loading...</div>
+                )}
+                {!isLoading && !requests?.length && (
+                  <div className="text-center py-8 text-muted-foreground">
+                    No requests
+                  </div>
+                )}
+                {!!requests?.length && (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>#</TableHead>
+                        <TableHead>Override</TableHead>
+                        <TableHead>Contact</TableHead>
+                        <TableHead>Requested by</TableHead>
+                        <TableHead>Reason</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {requests.map((request) => (
+                        <TableRow key={request.id}>
+                          <TableCell>{request.id}</TableCell>
+                          <TableCell>{describeOverride(request)}</TableCell>
+                          <TableCell>
+                            <div>{request.contactEmail}</div>
+                            {request.quoteId && (
+                              <div className="text-xs text-muted-foreground">
+                                Quote #{request.quoteId}
+                              </div>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            <div>{request.requesterEmail}</div>
+                            <div className="text-xs text-muted-foreground">
+                              {formatDate(request.createdAt)}
+                            </div>
+                          </TableCell>
+                          <TableCell className="max-w-xs text-sm">
+                            {request.reason}
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant={STATUS_VARIANTS[request.status]}>
+                              {request.status}
+                            </Badge>
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => setReviewId(request.id)}
+                            >
+                              {request.status === "pending" ? "Review" : "View"}
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <History className="w-5 h-5" />
+                  Quote Audit Trail
+                </CardTitle>
+                <CardDescription>
+                  Every approval request and decision recorded for a quote
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex gap-2 max-w-sm">
+                  <Input
+                    placeholder="Quote ID"
+                    value={auditQuoteInput}
+                    onChange={(e) =>
+                      setAuditQuoteInput(e.target.value.replace(/\D/g, ""))
+                    }
+                  />
+                  <Button
+                    onClick={() =>
+                      setAuditQuoteId(parseInt(auditQuoteInput) || null)
+                    }
+                    disabled={!auditQuoteInput}
+                  >
+                    Look up
+                  </Button>
+                </div>
+                {auditQuoteId !== null && isLoadingAudit && (
+                  <div className="text-sm">Loading...</div>
+                )}
+                {auditQuoteId !== null &&
+                  !isLoadingAudit &&
+                  !auditTrail?.length && (
+                    <div className="text-sm text-muted-foreground">
+                      No approvals recorded for quote #{auditQuoteId}
+                    </div>
+                  )}
+                {!!auditTrail?.length && (
+                  <div className="space-y-4">
+                    {auditTrail.map((request) => (
+                      <div
+                        key={request.id}
+                        className="rounded-md border p-3 space-y-2"
+                      >
+                        <div className="flex items-center justify-between">
+                          <span className="font-medium">
+                            #{request.id} {describeOverride(request)}
+                          </span>
+                          <Badge variant={STATUS_VARIANTS[request.status]}>
+                            {request.status}
+                          </Badge>
+                        </div>
+                        <EventTimeline events={request.events ?? []} />
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </main>
+
+        <Dialog
+          open={reviewId !== null}
+          onOpenChange={(open) => !open && closeReview()}
+        >
+          <DialogContent className="sm:max-w-2xl">
+            <DialogHeader>
+              <DialogTitle>
+                Approval Request #{reviewId}
+                {reviewing ? `: ${describeOverride(reviewing)}` : ""}
+              </DialogTitle>
+              <DialogDescription>
+                {reviewing
+                  ? `${reviewing.contactEmail}, requested by ${reviewing.requesterEmail ?? "unknown"}`
+                  : "Loading..."}
+              </DialogDescription>
+            </DialogHeader>
+
+            {reviewing && (
+              <div className="space-y-4">
+                <div>
+                  <Label>Reason</Label>
+                  <p className="text-sm">{reviewing.reason}</p>
+                </div>
+
+                {reviewing.quoteSnapshot && (
+                  <details className="text-sm">
+                    <summary className="cursor-pointer font-medium">
+                      Quote snapshot
+                    </summary>
+                    <pre className="mt-2 max-h-64 overflow-auto rounded bg-muted p-2 text-xs">
+                      {JSON.stringify(reviewing.quoteSnapshot, null, 2)}
+                    </pre>
+                  </details>
+                )}
+
+                {reviewing.events && reviewing.events.length > 0 && (
+                  <div>
+                    <Label>History</Label>
+                    <EventTimeline events={reviewing.events} />
+                  </div>
+                )}
+
+                {reviewing.status === "pending" ? (
+                  <>
+                    <div>
+                      <Label htmlFor="decision-note">Decision note</Label>
+                      <Textarea
+                        id="decision-note"
+                        placeholder="Shown to the requesting rep"
+                        value={note}
+                        onChange={(e) => setNote(e.target.value)}
+                      />
+                    </div>
+                    <div className="flex gap-3">
+                      <Button
+                        variant={
+                          suggestedDecision === "reject"
+                            ? "destructive"
+                            : "outline"
+                        }
+                        className="flex-1"
+                        onClick={() => decideMutation.mutate("reject")}
+                        disabled={decideMutation.isPending}
+                      >
+                        Reject
+                      </Button>
+                      <Button
+                        variant={
+                          suggestedDecision === "reject" ? "outline" : "default"
+                        }
+                        className="flex-1"
+                        onClick={() => decideMutation.mutate("approve")}
+                        disabled={decideMutation.isPending}
+                      >
+                        Approve
+                      </Button>
+                    </div>
+                  </>
+                ) : (
+                  <div className="text-sm">
+                    <Badge variant={STATUS_VARIANTS[reviewing.status]}>
+                      {reviewing.status}
+                    </Badge>
+                    {reviewing.approverEmail &&
+                      ` by ${reviewing.approverEmail} on ${formatDate(reviewing.decidedAt)}`}
+                    {reviewing.decisionNote && (
+                      <p className="mt-2">{reviewing.decisionNote}</p>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+          </DialogContent>
+        </Dialog>
+      </div>
+    </PermissionGuard>
+  );
+}
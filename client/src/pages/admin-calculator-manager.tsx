@@ -3,6 +3,14 @@ import { useQuery, useMutation } from "@tanstack/react-query";
 import { UniversalNavbar } from "@/components/UniversalNavbar";
 import { PermissionGuard } from "@/components/PermissionGuard";
 import { PERMISSIONS } from "@shared/permissions";
+import {
+  SOW_TOKENS,
+  includedFieldsList,
+  renderSowTemplate,
+  sampleSowTokens,
+  unknownSowTokens,
+  type SowContentService,
+} from "@shared/sow-template";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { seedqcKeys } from "@/lib/queryKeys";
 import { useToast } from "@/hooks/use-toast";
@@ -144,22 +152,7 @@ function stringifyIncluded(obj: any): string {
   }
 }
 
-function tokenReplace(template: string, tokens: Record<string, any>): string {
-  // Very safe, minimal token replacement: {{token}}
-  return (template || "").replace(
-    /\{\{\s*([a-zA-Z0-9_.]+)\s*\}\}/g,
-    (_: string, key: string) => {
-      const value = key
-        .split(".")
-        .reduce<any>(
-          (acc: any, k: string) =>
-            acc && acc[k] !== undefined ? acc[k] : undefined,
-          tokens,
-        );
-      return value !== undefined && value !== null ? String(value) : "";
-    },
-  );
-}
+const TOKEN_GROUPS = Array.from(new Set(SOW_TOKENS.map((t) => t.group)));
 
 export default function AdminCalculatorManager() {
   const { toast } = useToast();
@@ -266,23 +259,25 @@ export default function AdminCalculatorManager() {
   const current = local[activeService] || { service: activeService };
   const currentIncluded = included[activeService] || {};
 
-  const exampleTokens = useMemo(
-    () => ({
-      companyName: "Acme Co",
-      monthlyFee: 500,
-      setupFee: 1200,
-      cleanupMonths: 6,
-      industry: "Software/SaaS",
-      monthlyRevenueRange: "25K-75K",
-      ap: { serviceTier: "advanced", vendorBillsBand: "26-100" },
-      ar: { serviceTier: "lite", customerInvoicesBand: "0-25" },
-    }),
-    [],
-  );
+  // The server renders the same template against the quote being sent
+  const sampleTokens = useMemo(() => sampleSowTokens(), []);
 
   const renderedPreview = useMemo(
-    () => tokenReplace(current.sowTemplate || "", exampleTokens),
-    [current.sowTemplate, exampleTokens],
+    () =>
+      renderSowTemplate(current.sowTemplate || "", {
+        ...sampleTokens,
+        includedFields: includedFieldsList(
+          activeService as SowContentService,
+          included[activeService] || {},
+          sampleTokens,
+        ),
+      }),
+    [current.sowTemplate, sampleTokens, activeService, included],
+  );
+
+  const unknownTokens = useMemo(
+    () => unknownSowTokens(current.sowTemplate || ""),
+    [current.sowTemplate],
   );
 
   const onSave = () => {
@@ -329,31 +324,6 @@ export default function AdminCalculatorManager() {
     [adminData, publicData],
   );
 
-  const TOKENS: string[] = useMemo(
-    () => [
-      "{{companyName}}",
-      "{{monthlyFee}}",
-      "{{setupFee}}",
-      "{{cleanupMonths}}",
-      "{{industry}}",
-      "{{ap.serviceTier}}",
-      "{{ap.vendorBillsBand}}",
-      "{{ap.vendorCount}}",
-      "{{ar.serviceTier}}",
-      "{{ar.customerInvoicesBand}}",
-      "{{ar.customerCount}}",
-      "{{payrollEmployeeCount}}",
-      "{{payrollStateCount}}",
-      "{{numEntities}}",
-      "{{statesFiled}}",
-      "{{internationalFiling}}",
-      "{{numBusinessOwners}}",
-      "{{agentOfService.additionalStates}}",
-      "{{agentOfService.complexCase}}",
-    ],
-    [],
-  );
-
   const insertToken = (token: string) => {
     const currentText = local[activeService]?.sowTemplate || "";
     const textarea = templateRef.current;
@@ -411,7 +381,9 @@ export default function AdminCalculatorManager() {
                 </Button>
                 <Button
                   onClick={onSave}
-                  disabled={updateMutation.isPending}
+                  disabled={
+                    updateMutation.isPending || unknownTokens.length > 0
+                  }
                   className="flex items-center gap-2"
                 >
                   <Save
@@ -506,24 +478,48 @@ export default function AdminCalculatorManager() {
                             }
                             rows={16}
                           />
-                          <div className="flex flex-wrap gap-2">
-                            {TOKENS.map((t) => (
-                              <Badge
-                                key={t}
-                                variant="secondary"
-                                className="cursor-pointer"
-                                onClick={() => insertToken(t)}
+                          {svc.key === activeService &&
+                            unknownTokens.length > 0 && (
+                              <p className="text-sm text-destructive">
+                                Unknown tokens:{" "}
+                                {unknownTokens
+                                  .map((t) => `{{${t}}}`)
+                                  .join(", ")}
+                                . Fix them before saving.
+                              </p>
+                            )}
+                          <div className="space-y-2">
+                            {TOKEN_GROUPS.map((group) => (
+                              <div
+                                key={group}
+                                className="flex flex-wrap items-center gap-2"
                               >
-                                {t}
-                              </Badge>
+                                <span className="text-xs font-medium text-muted-foreground w-28">
+                                  {group}
+                                </span>
+                                {SOW_TOKENS.filter(
+                                  (t) => t.group === group,
+                                ).map((t) => (
+                                  <Badge
+                                    key={t.token}
+                                    variant="secondary"
+                                    className="cursor-pointer"
+                                    title={t.label}
+                                    onClick={() =>
+                                      insertToken(`{{${t.token}}}`)
+                                    }
+                                  >
+                                    {`{{${t.token}}}`}
+                                  </Badge>
+                                ))}
+                              </div>
                             ))}
                           </div>
                           <p className="text-xs text-muted-foreground">
-                            Use tokens like <code>{"{{companyName}}"}</code>,{" "}
-                            <code>{"{{monthlyFee}}"}</code>,{" "}
-                            <code>{"{{setupFee}}"}</code>,{" "}
-                            <code>{"{{cleanupMonths}}"}</code>. Tokens are
-                            safely replaced when rendering.
+                            Click a token to insert it; hover for what it fills
+                            in. <code>{"{{includedFields}}"}</code> lists the
+                            fields ticked under Included Fields. Templates using
+                            any other token can't be saved.
                           </p>
                         </div>
                       </CardContent>
@@ -774,7 +770,7 @@ export default function AdminCalculatorManager() {
                             <Eye className="w-4 h-4" /> Live Preview
                           </CardTitle>
                           <CardDescription>
-                            Simple token preview with example data
+                            Rendered against a sample quote for Acme Co
                           </CardDescription>
                         </CardHeader>
                         <CardContent>
@@ -1,6 +1,6 @@
 import { useState, useEffect, useCallback, useMemo } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
 import { useDealsAll } from "@/hooks/useDeals";
 import { useSalesRepList } from "@/hooks/useSalesRepList";
 import { Button } from "@/components/ui/button";
@@ -12,12 +12,17 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { KbCard } from "@/components/seedkb/KbCard";
+import { CommissionPlansPanel } from "@/components/seedpay/CommissionPlansPanel";
+import { CommissionProductsPanel } from "@/components/seedpay/CommissionProductsPanel";
+import { PayoutRunsPanel } from "@/components/seedpay/PayoutRunsPanel";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
 import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
 import { Link, useLocation } from "wouter";
 import { UniversalNavbar } from "@/components/UniversalNavbar";
 import {
@@ -198,6 +203,7 @@ export function AdminCommissionTracker() {
   const [selectedDeal, setSelectedDeal] = useState<Deal | null>(null);
   const [adjustmentAmount, setAdjustmentAmount] = useState("");
   const [adjustmentReason, setAdjustmentReason] = useState("");
+  const [adjustmentIsReversal, setAdjustmentIsReversal] = useState(false);
   const [reviewNotes, setReviewNotes] = useState("");
 
   // Filter states
@@ -278,6 +284,7 @@ export function AdminCommissionTracker() {
   });
 
   const queryClient = useQueryClient();
+  const { toast } = useToast();
 
   // Fetch commission adjustments from database
   const { data: adjustmentRequests = [], refetch: refetchAdjustments } =
@@ -299,6 +306,13 @@ export function AdminCommissionTracker() {
       });
       queryClient.invalidateQueries({ queryKey: ["/api/commissions"] });
     },
+    onError: (error) => {
+      toast({
+        title: "Adjustment not saved",
+        description: apiErrorMessage(error, "Failed to create adjustment"),
+        variant: "destructive",
+      });
+    },
   });
 
   const updateAdjustmentMutation = useMutation({
@@ -313,6 +327,13 @@ export function AdminCommissionTracker() {
       });
       queryClient.invalidateQueries({ queryKey: ["/api/commissions"] });
     },
+    onError: (error) => {
+      toast({
+        title: "Review not saved",
+        description: apiErrorMessage(error, "Failed to update adjustment"),
+        variant: "destructive",
+      });
+    },
   });
 
   // Update component state when data loads
@@ -611,6 +632,7 @@ export function AdminCommissionTracker() {
     setSelectedCommission(commission);
     setAdjustmentAmount("");
     setAdjustmentReason("");
+    setAdjustmentIsReversal(false);
     setAdjustmentDialogOpen(true);
   };
 
@@ -623,6 +645,7 @@ export function AdminCommissionTracker() {
           ? parseFloat(adjustmentAmount)
           : selectedCommission.amount,
         reason: adjustmentReason,
+        ...(adjustmentIsReversal ? { type: "reversal" } : {}),
       };
 
       createAdjustmentMutation.mutate(adjustmentData);
@@ -1114,6 +1137,27 @@ export function AdminCommissionTracker() {
             >
               Pipeline Projections
             </TabsTrigger>
+            <TabsTrigger
+              value="plans"
+              className="data-[state=active]:bg-accent data-[state=active]:text-accent-foreground"
+              data-testid="tab-plans"
+            >
+              Commission Plans
+            </TabsTrigger>
+            <TabsTrigger
+              value="payouts"
+              className="data-[state=active]:bg-accent data-[state=active]:text-accent-foreground"
+              data-testid="tab-payouts"
+            >
+              Payout Runs
+            </TabsTrigger>
+            <TabsTrigger
+              value="products"
+              className="data-[state=active]:bg-accent data-[state=active]:text-accent-foreground"
+              data-testid="tab-products"
+            >
+              Product Mapping
+            </TabsTrigger>
           </TabsList>
 
           {/* Commission Tracking Tab */}
@@ -2019,6 +2063,21 @@ export function AdminCommissionTracker() {
               </Card>
             </div>
           </TabsContent>
+
+          {/* Commission Plans Tab */}
+          <TabsContent value="plans" data-testid="content-plans">
+            <CommissionPlansPanel />
+          </TabsContent>
+
+          {/* Payout Runs Tab */}
+          <TabsContent value="payouts" data-testid="content-payouts">
+            <PayoutRunsPanel />
+          </TabsContent>
+
+          {/* Product Mapping Tab */}
+          <TabsContent value="products" data-testid="content-products">
+            <CommissionProductsPanel />
+          </TabsContent>
         </Tabs>
 
         {/* Adjustment Request Dialog */}
@@ -2097,6 +2156,22 @@ export function AdminCommissionTracker() {
                   data-testid="textarea-adjustment-reason"
                 />
               </div>
+
+              <div className="flex items-start gap-3">
+                <Switch
+                  id="adjustment-reversal"
+                  checked={adjustmentIsReversal}
+                  onCheckedChange={setAdjustmentIsReversal}
+                  data-testid="switch-adjustment-reversal"
+                />
+                <Label htmlFor="adjustment-reversal" className="leading-snug">
+                  Reversal entry for a locked payout period
+                  <span className="block text-xs font-normal text-muted-foreground">
+                    The locked amount stays on record; the difference is paid or
+                    recovered in the next payout run.
+                  </span>
+                </Label>
+              </div>
             </div>
             <DialogFooter>
               <Button
@@ -2111,7 +2186,7 @@ export function AdminCommissionTracker() {
                 disabled={!adjustmentReason.trim()}
                 data-testid="button-submit-adjustment"
               >
-                Create Adjustment
+                {adjustmentIsReversal ? "Record Reversal" : "Create Adjustment"}
               </Button>
             </DialogFooter>
           </DialogContent>
@@ -225,6 +225,7 @@ const navigationItems = [
       { name: "System Health", icon: Monitor, path: "/admin/system" },
       { name: "User Management", icon: UserCheck, path: "/user-management" },
       { name: "Pricing Management", icon: Calculator, path: "/admin/pricing" },
+      { name: "Approval Queue", icon: CheckCircle, path: "/admin/approvals" },
       {
         name: "Calculator Manager",
         icon: FileText,
@@ -28,6 +28,10 @@ import {
   Save,
   RefreshCw,
   AlertCircle,
+  GitBranch,
+  BarChart3,
+  Layers,
+  Tag,
 } from "lucide-react";
 import {
   Table,
@@ -38,6 +42,19 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
+import { PricingVersionsPanel } from "@/components/seedqc/PricingVersionsPanel";
+import { PromoCodesPanel } from "@/components/seedqc/PromoCodesPanel";
+import {
+  PricingImpactDialog,
+  type PricingImpactRequest,
+} from "@/components/seedqc/PricingImpactDialog";
+import type { PricingConfigChange } from "@shared/pricing-config";
+
+// Table edits not yet in the live version
+interface UnpublishedPricingChanges {
+  liveVersion: { id: number; version: number; label: string } | null;
+  changes: PricingConfigChange[];
+}
 
 interface PricingBase {
   id: number;
@@ -115,6 +132,11 @@ export default function AdminPricingPage() {
   const { toast } = useToast();
   const [activeTab, setActiveTab] = useState("base-fees");
   const [editingItem, setEditingItem] = useState<any>(null);
+  // Impact preview for the row being edited; confirming saves the edit
+  const [impactPreview, setImpactPreview] = useState<{
+    request: PricingImpactRequest;
+    save: () => void;
+  } | null>(null);
 
   // Queries for all pricing data
   const { data: baseFees, isLoading: baseFeeLoading } = useQuery<PricingBase[]>(
@@ -184,6 +206,28 @@ export default function AdminPricingPage() {
       await apiRequest<PricingHistory[]>("GET", "/api/admin/pricing/history"),
   });
 
+  const { data: unpublished } = useQuery<UnpublishedPricingChanges>({
+    queryKey: pricingKeys.admin.unpublished(),
+    queryFn: async () =>
+      await apiRequest<UnpublishedPricingChanges>(
+        "GET",
+        "/api/admin/pricing/versions/unpublished",
+      ),
+  });
+
+  // With a live version, a table edit only changes the working copy
+  const tableEdited = (title: string) => {
+    queryClient.invalidateQueries({
+      queryKey: pricingKeys.admin.unpublished(),
+    });
+    toast({
+      title,
+      description: unpublished?.liveVersion
+        ? `Unpublished: quotes stay on v${unpublished.liveVersion.version} until a new version is published`
+        : undefined,
+    });
+  };
+
   // Mutations for updates
   const updateBaseFee = useMutation({
     mutationFn: (data: { id: number; baseFee: string }) =>
@@ -193,7 +237,7 @@ export default function AdminPricingPage() {
       }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: pricingKeys.admin.base() });
-      toast({ title: "Base fee updated successfully" });
+      tableEdited("Base fee updated successfully");
       setEditingItem(null);
     },
     onError: (error: any) => {
@@ -222,7 +266,7 @@ export default function AdminPricingPage() {
       queryClient.invalidateQueries({
         queryKey: pricingKeys.admin.industryMultipliers(),
       });
-      toast({ title: "Industry multiplier updated successfully" });
+      tableEdited("Industry multiplier updated successfully");
       setEditingItem(null);
     },
     onError: (error: any) => {
@@ -244,7 +288,7 @@ export default function AdminPricingPage() {
       queryClient.invalidateQueries({
         queryKey: pricingKeys.admin.revenueMultipliers(),
       });
-      toast({ title: "Revenue multiplier updated successfully" });
+      tableEdited("Revenue multiplier updated successfully");
       setEditingItem(null);
     },
     onError: (error: any) => {
@@ -266,7 +310,7 @@ export default function AdminPricingPage() {
       queryClient.invalidateQueries({
         queryKey: pricingKeys.admin.transactionSurcharges(),
       });
-      toast({ title: "Transaction surcharge updated successfully" });
+      tableEdited("Transaction surcharge updated successfully");
       setEditingItem(null);
     },
     onError: (error: any) => {
@@ -288,7 +332,7 @@ export default function AdminPricingPage() {
       queryClient.invalidateQueries({
         queryKey: pricingKeys.admin.serviceSettings(),
       });
-      toast({ title: "Service setting updated successfully" });
+      tableEdited("Service setting updated successfully");
       setEditingItem(null);
     },
     onError: (error: any) => {
@@ -315,7 +359,7 @@ export default function AdminPricingPage() {
       }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: pricingKeys.admin.tiers() });
-      toast({ title: "Pricing tier updated successfully" });
+      tableEdited("Pricing tier updated successfully");
       setEditingItem(null);
     },
     onError: (error: any) => {
@@ -409,6 +453,40 @@ export default function AdminPricingPage() {
               </div>
             </div>
 
+            {unpublished?.liveVersion && unpublished.changes.length > 0 && (
+              <Card className="mb-6 border-amber-300 bg-amber-50">
+                <CardContent className="pt-6">
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="flex items-start gap-3">
+                      <GitBranch className="w-5 h-5 text-amber-700 flex-shrink-0 mt-0.5" />
+                      <div>
+                        <h3 className="text-sm font-medium text-amber-900">
+                          {unpublished.changes.length} unpublished pricing{" "}
+                          {unpublished.changes.length === 1
+                            ? "change"
+                            : "changes"}
+                        </h3>
+                        <p className="text-sm text-amber-800 mt-1">
+                          The tables below differ from live version v
+                          {unpublished.liveVersion.version} (
+                          {unpublished.liveVersion.label}). Quotes are still
+                          priced from v{unpublished.liveVersion.version} until
+                          these edits are captured in a draft and published.
+                        </p>
+                      </div>
+                    </div>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => setActiveTab("versions")}
+                    >
+                      Review in Versions
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
             {/* Warning Alert */}
             <Card className="mb-6 border-orange-200 bg-orange-50">
               <CardContent className="pt-6">
@@ -419,9 +497,10 @@ export default function AdminPricingPage() {
                       Important Notice
                     </h3>
                     <p className="text-sm text-orange-700 mt-1">
-                      Changes to pricing configurations will immediately affect
-                      all new quotes. Clear the cache after making changes to
-                      ensure they take effect.
+                      Once a config version is published, new quotes are
+                      priced from the live version. Edits to these tables only
+                      take effect after they are captured in a new draft
+                      version and published from the Versions tab.
                     </p>
                   </div>
                 </div>
@@ -434,7 +513,7 @@ export default function AdminPricingPage() {
               onValueChange={setActiveTab}
               className="space-y-6"
             >
-              <TabsList className="grid w-full grid-cols-6">
+              <TabsList className="grid w-full grid-cols-9">
                 <TabsTrigger
                   value="base-fees"
                   className="flex items-center gap-2"
@@ -463,6 +542,13 @@ export default function AdminPricingPage() {
                   <Target className="w-4 h-4" />
                   Transactions
                 </TabsTrigger>
+                <TabsTrigger
+                  value="tiers"
+                  className="flex items-center gap-2"
+                >
+                  <Layers className="w-4 h-4" />
+                  AP/AR Tiers
+                </TabsTrigger>
                 <TabsTrigger
                   value="settings"
                   className="flex items-center gap-2"
@@ -477,6 +563,20 @@ export default function AdminPricingPage() {
                   <History className="w-4 h-4" />
                   History
                 </TabsTrigger>
+                <TabsTrigger
+                  value="versions"
+                  className="flex items-center gap-2"
+                >
+                  <GitBranch className="w-4 h-4" />
+                  Versions
+                </TabsTrigger>
+                <TabsTrigger
+                  value="promo-codes"
+                  className="flex items-center gap-2"
+                >
+                  <Tag className="w-4 h-4" />
+                  Promo Codes
+                </TabsTrigger>
               </TabsList>
 
               {/* Base Fees Tab */}
@@ -650,6 +750,46 @@ export default function AdminPricingPage() {
                               <TableCell>
                                 {editingItem?.id === multiplier.id ? (
                                   <div className="flex gap-2">
+                                    <Button
+                                      size="sm"
+                                      variant="outline"
+                                      onClick={() => {
+                                        const edit = {
+                                          id: multiplier.id,
+                                          monthlyMultiplier:
+                                            editingItem.monthlyMultiplier,
+                                          cleanupMultiplier:
+                                            editingItem.cleanupMultiplier,
+                                        };
+                                        setImpactPreview({
+                                          request: {
+                                            title: `${multiplier.industry} multiplier`,
+                                            changes: {
+                                              industryMultipliers: {
+                                                [multiplier.industry]: {
+                                                  monthly: Number(
+                                                    edit.monthlyMultiplier,
+                                                  ),
+                                                  cleanup: Number(
+                                                    edit.cleanupMultiplier,
+                                                  ),
+                                                },
+                                              },
+                                            },
+                                            record: {
+                                              table:
+                                                "pricing_industry_multipliers",
+                                              recordId: multiplier.id,
+                                            },
+                                          },
+                                          save: () =>
+                                            updateIndustryMultiplier.mutate(edit),
+                                        });
+                                      }}
+                                      data-testid={`button-simulate-industry-multiplier-${multiplier.industry.toLowerCase().replace(/[^a-z0-9]/g, "-")}`}
+                                    >
+                                      <BarChart3 className="w-3 h-3" />
+                                    </Button>
                                     <Button
                                       size="sm"
                                       onClick={() =>
@@ -749,6 +889,37 @@ export default function AdminPricingPage() {
                                       className="w-24"
                                       data-testid={`input-revenue-multiplier-${multiplier.revenueRange.toLowerCase().replace(/[^a-z0-9]/g, "-")}`}
                                     />
+                                    <Button
+                                      size="sm"
+                                      variant="outline"
+                                      onClick={() => {
+                                        const edit = {
+                                          id: multiplier.id,
+                                          multiplier: editingItem.multiplier,
+                                        };
+                                        setImpactPreview({
+                                          request: {
+                                            title: `${multiplier.revenueRange} revenue multiplier`,
+                                            changes: {
+                                              revenueMultipliers: {
+                                                [multiplier.revenueRange]:
+                                                  Number(edit.multiplier),
+                                              },
+                                            },
+                                            record: {
+                                              table:
+                                                "pricing_revenue_multipliers",
+                                              recordId: multiplier.id,
+                                            },
+                                          },
+                                          save: () =>
+                                            updateRevenueMultiplier.mutate(edit),
+                                        });
+                                      }}
+                                      data-testid={`button-simulate-revenue-multiplier-${multiplier.revenueRange.toLowerCase().replace(/[^a-z0-9]/g, "-")}`}
+                                    >
+                                      <BarChart3 className="w-3 h-3" />
+                                    </Button>
                                     <Button
                                       size="sm"
                                       onClick={() =>
@@ -849,6 +1020,39 @@ export default function AdminPricingPage() {
                                       className="w-24"
                                       data-testid={`input-transaction-surcharge-${surcharge.transactionRange.toLowerCase().replace(/[^a-z0-9]/g, "-")}`}
                                     />
+                                    <Button
+                                      size="sm"
+                                      variant="outline"
+                                      onClick={() => {
+                                        const edit = {
+                                          id: surcharge.id,
+                                          surcharge: editingItem.surcharge,
+                                        };
+                                        setImpactPreview({
+                                          request: {
+                                            title: `${surcharge.transactionRange} transaction surcharge`,
+                                            changes: {
+                                              transactionSurcharges: {
+                                                [surcharge.transactionRange]:
+                                                  Number(edit.surcharge),
+                                              },
+                                            },
+                                            record: {
+                                              table:
+                                                "pricing_transaction_surcharges",
+                                              recordId: surcharge.id,
+                                            },
+                                          },
+                                          save: () =>
+                                            updateTransactionSurcharge.mutate(
+                                              edit,
+                                            ),
+                                        });
+                                      }}
+                                      data-testid={`button-simulate-transaction-surcharge-${surcharge.transactionRange.toLowerCase().replace(/[^a-z0-9]/g, "-")}`}
+                                    >
+                                      <BarChart3 className="w-3 h-3" />
+                                    </Button>
                                     <Button
                                       size="sm"
                                       onClick={() =>
@@ -1013,6 +1217,167 @@ export default function AdminPricingPage() {
                 </Card>
               </TabsContent>
 
+              {/* AP/AR Tiers Tab */}
+              <TabsContent value="tiers">
+                <Card>
+                  <CardHeader>
+                    <CardTitle>AP/AR Volume Tiers</CardTitle>
+                    <CardDescription>
+                      Base fee and tier multiplier per service tier and volume
+                      band
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    {tiersLoading ? (
+                      <div className="text-center py-8">Loading...</div>
+                    ) : (
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Service</TableHead>
+                            <TableHead>Tier</TableHead>
+                            <TableHead>Volume Band</TableHead>
+                            <TableHead>Base Fee</TableHead>
+                            <TableHead>Multiplier</TableHead>
+                            <TableHead>Actions</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {pricingTiers?.map((tier) => (
+                            <TableRow key={tier.id}>
+                              <TableCell className="font-medium uppercase">
+                                {tier.service}
+                              </TableCell>
+                              <TableCell className="capitalize">
+                                {tier.tier}
+                              </TableCell>
+                              <TableCell>{tier.volumeBand}</TableCell>
+                              <TableCell>
+                                {editingItem?.id === tier.id ? (
+                                  <Input
+                                    type="number"
+                                    value={editingItem.baseFee}
+                                    onChange={(e) =>
+                                      setEditingItem({
+                                        ...editingItem,
+                                        baseFee: e.target.value,
+                                      })
+                                    }
+                                    className="w-24"
+                                  />
+                                ) : (
+                                  formatCurrency(tier.baseFee)
+                                )}
+                              </TableCell>
+                              <TableCell>
+                                {editingItem?.id === tier.id ? (
+                                  <Input
+                                    type="number"
+                                    step="0.1"
+                                    value={editingItem.tierMultiplier}
+                                    onChange={(e) =>
+                                      setEditingItem({
+                                        ...editingItem,
+                                        tierMultiplier: e.target.value,
+                                      })
+                                    }
+                                    className="w-24"
+                                  />
+                                ) : (
+                                  formatMultiplier(tier.tierMultiplier)
+                                )}
+                              </TableCell>
+                              <TableCell>
+                                {editingItem?.id === tier.id ? (
+                                  <div className="flex gap-2">
+                                    <Button
+                                      size="sm"
+                                      variant="outline"
+                                      onClick={() => {
+                                        const edit = {
+                                          id: tier.id,
+                                          baseFee: editingItem.baseFee,
+                                          tierMultiplier:
+                                            editingItem.tierMultiplier,
+                                        };
+                                        setImpactPreview({
+                                          request: {
+                                            title: `${tier.service.toUpperCase()} ${tier.tier} ${tier.volumeBand}`,
+                                            changes: {
+                                              pricingTiers: {
+                                                [tier.service]: {
+                                                  [tier.tier]: {
+                                                    [tier.volumeBand]: {
+                                                      baseFee: Number(
+                                                        edit.baseFee,
+                                                      ),
+                                                      multiplier: Number(
+                                                        edit.tierMultiplier,
+                                                      ),
+                                                    },
+                                                  },
+                                                },
+                                              },
+                                            },
+                                            record: {
+                                              table: "pricing_tiers",
+                                              recordId: tier.id,
+                                            },
+                                          },
+                                          save: () =>
+                                            updatePricingTier.mutate(edit),
+                                        });
+                                      }}
+                                    >
+                                      <BarChart3 className="w-3 h-3" />
+                                    </Button>
+                                    <Button
+                                      size="sm"
+                                      onClick={() =>
+                                        updatePricingTier.mutate({
+                                          id: tier.id,
+                                          baseFee: editingItem.baseFee,
+                                          tierMultiplier:
+                                            editingItem.tierMultiplier,
+                                        })
+                                      }
+                                      disabled={updatePricingTier.isPending}
+                                    >
+                                      <Save className="w-3 h-3" />
+                                    </Button>
+                                    <Button
+                                      size="sm"
+                                      variant="outline"
+                                      onClick={() => setEditingItem(null)}
+                                    >
+                                      Cancel
+                                    </Button>
+                                  </div>
+                                ) : (
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    onClick={() =>
+                                      setEditingItem({
+                                        id: tier.id,
+                                        baseFee: tier.baseFee,
+                                        tierMultiplier: tier.tierMultiplier,
+                                      })
+                                    }
+                                  >
+                                    Edit
+                                  </Button>
+                                )}
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    )}
+                  </CardContent>
+                </Card>
+              </TabsContent>
+
               {/* History Tab */}
               <TabsContent value="history">
                 <Card>
@@ -1066,7 +1431,28 @@ export default function AdminPricingPage() {
                   </CardContent>
                 </Card>
               </TabsContent>
+
+              {/* Versions Tab */}
+              <TabsContent value="versions">
+                <PricingVersionsPanel />
+              </TabsContent>
+
+              {/* Promo Codes Tab */}
+              <TabsContent value="promo-codes">
+                <PromoCodesPanel />
+              </TabsContent>
             </Tabs>
+
+            <PricingImpactDialog
+              request={impactPreview?.request ?? null}
+              onOpenChange={(open) => {
+                if (!open) setImpactPreview(null);
+              }}
+              onConfirm={() => {
+                impactPreview?.save();
+                setImpactPreview(null);
+              }}
+            />
           </div>
         </main>
       </div>
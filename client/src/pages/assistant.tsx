@@ -1,10 +1,17 @@
-import React, { useMemo } from "react";
+import React, { useMemo, useState } from "react";
+import { useSearch } from "wouter";
 import { AgentPanel } from "@/components/assistant/AgentPanel";
 import { useAuth } from "@/hooks/use-auth";
 import { UniversalNavbar } from "@/components/UniversalNavbar";
+import { AssistantIndexCard } from "@/components/assistant/AssistantIndexCard";
+import { AssistantConversationList } from "@/components/assistant/AssistantConversationList";
+import { LowRatedAnswersCard } from "@/components/assistant/LowRatedAnswersCard";
+import { SharedConversationView } from "@/components/assistant/SharedConversationView";
 
 export default function AssistantPage() {
   const { user } = useAuth();
+  const sharedToken = new URLSearchParams(useSearch()).get("shared");
+  const [conversationId, setConversationId] = useState<number | null>(null);
 
   const persona = useMemo(() => {
     const pref = (user?.defaultDashboard || "").toLowerCase();
@@ -36,7 +43,28 @@ export default function AssistantPage() {
             A focused area for longer sessions. The floating widget links here.
           </p>
         </div>
-        <AgentPanel initialMode={initialMode} allowBox={allowBox} />
+        {sharedToken ? (
+          <SharedConversationView token={sharedToken} />
+        ) : (
+          <div className="grid gap-6 md:grid-cols-[240px_1fr]">
+            <AssistantConversationList
+              selectedId={conversationId}
+              onSelect={setConversationId}
+            />
+            <AgentPanel
+              initialMode={initialMode}
+              allowBox={allowBox}
+              conversationId={conversationId}
+              onConversationChange={setConversationId}
+            />
+          </div>
+        )}
+        {user?.role === "admin" && (
+          <div className="mt-6 space-y-6">
+            <AssistantIndexCard />
+            <LowRatedAnswersCard />
+          </div>
+        )}
       </main>
     </div>
   );
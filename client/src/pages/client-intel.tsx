@@ -53,6 +53,17 @@ import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
 import { UniversalNavbar } from "@/components/UniversalNavbar";
+import {
+  hasFailedAnalysis,
+  type ClientIntelAnalysisStatus,
+  type ProspectScore,
+} from "@shared/client-intel";
+import {
+  ProspectScoreCard,
+  prospectScoreKey,
+} from "@/components/client-intel/ProspectScoreCard";
+import { ClientDocumentsPanel } from "@/components/client-intel/ClientDocumentsPanel";
+import { ClientActivityTimeline } from "@/components/client-intel/ClientActivityTimeline";
 
 interface ClientSnapshot {
   id: string;
@@ -68,9 +79,13 @@ interface ClientSnapshot {
   painPoints: string[];
   services: string[];
   lastActivity: string;
-  riskScore: number;
+  // Null when the risk analysis failed
+  riskScore: number | null;
   upsellOpportunities: string[];
   documents: any[];
+  // Per-analysis outcome of the last insights run
+  analysis?: ClientIntelAnalysisStatus;
+  aiScore?: ProspectScore | null;
   airtableData?: {
     lead_score?: number;
     contact_verified?: string;
@@ -81,6 +96,45 @@ interface ClientSnapshot {
   };
 }
 
+// A failed analysis is shown as such, so an empty list always means the
+// analysis actually found nothing
+function InsightList({
+  items,
+  analysis,
+  emptyText,
+  dotClassName,
+}: {
+  items?: string[];
+  analysis?: ClientIntelAnalysisStatus[keyof ClientIntelAnalysisStatus];
+  emptyText: string;
+  dotClassName: string;
+}) {
+  if (analysis?.status === "failed") {
+    return (
+      <div className="flex items-start gap-2 text-sm text-destructive">
+        <AlertCircle className="h-4 w-4 mt-0.5 shrink-0" />
+        <p>
+          Analysis failed{analysis.error ? `: ${analysis.error}` : ""}. Generate
+          insights again to retry.
+        </p>
+      </div>
+    );
+  }
+  if (!items?.length) {
+    return <p className="text-muted-foreground text-sm">{emptyText}</p>;
+  }
+  return (
+    <div className="space-y-2">
+      {items.map((item, index) => (
+        <div key={index} className="flex items-start gap-2">
+          <div className={`w-1.5 h-1.5 ${dotClassName} rounded-full mt-2`} />
+          <p className="text-sm text-muted-foreground">{item}</p>
+        </div>
+      ))}
+    </div>
+  );
+}
+
 export default function ClientIntel() {
   const { user } = useAuth();
   const [location, setLocation] = useLocation();
@@ -112,7 +166,7 @@ export default function ClientIntel() {
       );
       return data;
     },
-    onSuccess: (data) => {
+    onSuccess: (data, contactId) => {
       console.log("Enhancement successful:", data);
       toast({
         title: "Data Enhanced",
@@ -122,6 +176,7 @@ export default function ClientIntel() {
       });
       // Invalidate search results to show updated data
       queryClient.invalidateQueries({ queryKey: ["/api/client-intel/search"] });
+      queryClient.invalidateQueries({ queryKey: prospectScoreKey(contactId) });
     },
     onError: (error: any) => {
       console.error("Enhancement error:", error);
@@ -299,11 +354,23 @@ export default function ClientIntel() {
           if (selectedClient && statusData.result) {
             setSelectedClient({ ...selectedClient, ...statusData.result });
           }
-
-          toast({
-            title: "Insights Complete",
-            description: "AI analysis finished with new recommendations.",
+          queryClient.invalidateQueries({
+            queryKey: ["/api/client-intel/activity"],
           });
+
+          if (statusData.result && hasFailedAnalysis(statusData.result)) {
+            toast({
+              title: "Insights Partly Failed",
+              description:
+                "Some analyses couldn't be completed. Generate insights again to retry.",
+              variant: "destructive",
+            });
+          } else {
+            toast({
+              title: "Insights Complete",
+              description: "AI analysis finished with new recommendations.",
+            });
+          }
         } else if (statusData.status === "failed") {
           clearInterval(pollInterval);
           setIsGeneratingInsights(false);
@@ -645,9 +712,19 @@ export default function ClientIntel() {
                       </div>
                       <div className="bg-muted border rounded-lg p-3 text-center">
                         <AlertCircle className="h-6 w-6 text-orange-600 mx-auto mb-1" />
-                        <p className="text-sm font-medium text-foreground">
-                          {selectedClient.riskScore || 0}%
-                        </p>
+                        {selectedClient.analysis?.riskScore?.status ===
+                        "failed" ? (
+                          <p
+                            className="text-sm font-medium text-destructive"
+                            title={selectedClient.analysis.riskScore.error}
+                          >
+                            Analysis failed
+                          </p>
+                        ) : (
+                          <p className="text-sm font-medium text-foreground">
+                            {selectedClient.riskScore ?? 0}%
+                          </p>
+                        )}
                         <p className="text-xs text-muted-foreground">
                           Risk Score
                         </p>
@@ -678,6 +755,15 @@ export default function ClientIntel() {
                       </div>
                     </div>
 
+                    {/* Rules-based and AI lead scores */}
+                    <div className="mb-4">
+                      <ProspectScoreCard
+                        contactId={selectedClient.id}
+                        aiScore={selectedClient.aiScore}
+                        aiAnalysis={selectedClient.analysis?.prospectScore}
+                      />
+                    </div>
+
                     {/* Prospect Intelligence from Airtable */}
                     {selectedClient.lifecycleStage?.toLowerCase() !==
                       "customer" &&
@@ -786,25 +872,12 @@ export default function ClientIntel() {
                             <AlertCircle className="h-4 w-4 text-orange-600" />
                             Pain Points
                           </h4>
-                          <div className="space-y-2">
-                            {selectedClient.painPoints?.map(
-                              (point: string, index: number) => (
-                                <div
-                                  key={index}
-                                  className="flex items-start gap-2"
-                                >
-                                  <div className="w-1.5 h-1.5 bg-orange-600 rounded-full mt-2" />
-                                  <p className="text-sm text-muted-foreground">
-                                    {point}
-                                  </p>
-                                </div>
-                              ),
-                            ) || (
-                              <p className="text-muted-foreground text-sm">
-                                No pain points identified
-                              </p>
-                            )}
-                          </div>
+                          <InsightList
+                            items={selectedClient.painPoints}
+                            analysis={selectedClient.analysis?.painPoints}
+                            emptyText="No pain points identified"
+                            dotClassName="bg-orange-600"
+                          />
                         </div>
 
                         {/* Upsell Opportunities */}
@@ -813,37 +886,20 @@ export default function ClientIntel() {
                             <TrendingUp className="h-4 w-4 text-green-600" />
                             Upsell Opportunities
                           </h4>
-                          <div className="space-y-2">
-                            {selectedClient.upsellOpportunities?.map(
-                              (opp: string, index: number) => (
-                                <div
-                                  key={index}
-                                  className="flex items-start gap-2"
-                                >
-                                  <div className="w-1.5 h-1.5 bg-green-600 rounded-full mt-2" />
-                                  <p className="text-sm text-muted-foreground">
-                                    {opp}
-                                  </p>
-                                </div>
-                              ),
-                            ) || (
-                              <p className="text-muted-foreground text-sm">
-                                No opportunities identified
-                              </p>
-                            )}
-                          </div>
+                          <InsightList
+                            items={selectedClient.upsellOpportunities}
+                            analysis={selectedClient.analysis?.serviceGaps}
+                            emptyText="No opportunities identified"
+                            dotClassName="bg-green-600"
+                          />
                         </div>
                       </TabsContent>
 
                       <TabsContent value="activity" className="mt-6">
-                        <div className="bg-muted border rounded-lg p-4">
-                          <h4 className="font-medium text-foreground mb-3">
-                            Recent Activity
-                          </h4>
-                          <p className="text-muted-foreground text-sm">
-                            Activity timeline coming soon...
-                          </p>
-                        </div>
+                        <ClientActivityTimeline
+                          contactId={selectedClient.id}
+                          email={selectedClient.email}
+                        />
                       </TabsContent>
 
                       <TabsContent value="quotes" className="mt-6">
@@ -858,14 +914,11 @@ export default function ClientIntel() {
                       </TabsContent>
 
                       <TabsContent value="documents" className="mt-6">
-                        <div className="bg-muted border rounded-lg p-4">
-                          <h4 className="font-medium text-foreground mb-3">
-                            Documents & Files
-                          </h4>
-                          <p className="text-muted-foreground text-sm">
-                            Document management coming soon...
-                          </p>
-                        </div>
+                        <ClientDocumentsPanel
+                          contactId={selectedClient.id}
+                          email={selectedClient.email}
+                          companyName={selectedClient.companyName}
+                        />
                       </TabsContent>
                     </Tabs>
                   </CardContent>
@@ -94,12 +94,17 @@ import {
 } from "@shared/commission-calculator";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useDealsByOwner } from "@/hooks/useDeals";
+import { useCommissionPlan } from "@/hooks/useCommissionPlan";
+import {
+  commissionRatesFor,
+  formatCommissionRate,
+} from "@shared/commission-plans";
 
 interface Commission {
   id: string;
   dealName: string;
   serviceType: "bookkeeping" | "taas" | "combined";
-  type: "month_1" | "residual";
+  type: "month_1" | "residual" | "clawback";
   amount: number;
   monthNumber: number;
   status: "pending" | "processing" | "paid";
@@ -109,6 +114,7 @@ interface Commission {
   salesRep: string;
   dealId: string;
   hubspotDealId?: string;
+  clawbackReason?: string | null; // Set on clawback rows
 }
 
 interface Deal {
@@ -193,6 +199,15 @@ interface CommissionPeriod {
   payrollDate: string; // 15th of month after period ends
 }
 
+function commissionTypeLabel(commission: Commission) {
+  if (commission.type === "clawback") {
+    return <Badge variant="destructive">Clawback</Badge>;
+  }
+  if (commission.type === "month_1") return "First Month";
+  if (commission.monthNumber) return `Month ${commission.monthNumber}`;
+  return "Residual";
+}
+
 export default function CommissionTracker() {
   const { user } = useAuth();
   const [location, setLocation] = useLocation();
@@ -234,6 +249,13 @@ export default function CommissionTracker() {
   // Fetch user's sales rep profile first
   const { data: currentSalesRep, isLoading: salesRepLoading } = useSalesRepMe();
 
+  // Rates and bonus ladders from the rep's active commission plan
+  const { plan: commissionPlan } = useCommissionPlan();
+  const selectedDealRates = commissionRatesFor(
+    commissionPlan.rules,
+    selectedDeal?.serviceType,
+  );
+
   // Fetch commission data for current user only
   const { data: commissionData = [], isLoading: commissionsLoading } = useQuery(
     {
@@ -476,11 +498,14 @@ export default function CommissionTracker() {
           d.setupFee || 0,
           d.monthlyFee || 0,
           d.serviceType || "bookkeeping",
+          [],
+          "monthly",
+          commissionPlan.rules,
         );
         // For dashboard purposes, project the first-month commission weighted by probability
         return sum + proj.firstMonth * ((d.probability || 0) / 100);
       }, 0);
-  }, [deals]);
+  }, [deals, commissionPlan]);
 
   // Sales rep stats and bonuses/milestones wiring (mechanical, no UI change)
   const { totalClientsClosedMonthly, totalClientsClosedAllTime } =
@@ -509,12 +534,38 @@ export default function CommissionTracker() {
     }, [commissions]);
 
   const monthlyBonusEligibility = useMemo(() => {
-    return calculateMonthlyBonus(totalClientsClosedMonthly);
-  }, [totalClientsClosedMonthly]);
+    return calculateMonthlyBonus(
+      totalClientsClosedMonthly,
+      commissionPlan.rules,
+    );
+  }, [totalClientsClosedMonthly, commissionPlan]);
 
   const nextMilestone = useMemo(() => {
-    return getNextMilestone(totalClientsClosedAllTime);
-  }, [totalClientsClosedAllTime]);
+    return getNextMilestone(totalClientsClosedAllTime, commissionPlan.rules);
+  }, [totalClientsClosedAllTime, commissionPlan]);
+
+  const monthlyBonusTiers = useMemo(
+    () =>
+      [...commissionPlan.rules.monthlyBonusTiers].sort(
+        (a, b) => a.minClients - b.minClients,
+      ),
+    [commissionPlan],
+  );
+  const topMonthlyTier = monthlyBonusTiers[monthlyBonusTiers.length - 1];
+  const milestoneTiers = useMemo(
+    () =>
+      [...commissionPlan.rules.milestoneBonuses].sort(
+        (a, b) => a.threshold - b.threshold,
+      ),
+    [commissionPlan],
+  );
+  // Awarded milestones keep the amount they were earned with
+  const lastMilestoneBonus = useMemo(
+    () =>
+      [...milestoneBonuses].sort((a, b) => b.milestone - a.milestone)[0] ??
+      null,
+    [milestoneBonuses],
+  );
 
   const salesRepStats = useMemo(() => {
     return {
@@ -1094,6 +1145,11 @@ export default function CommissionTracker() {
                               <p className="text-sm text-muted-foreground">
                                 {commission.companyName}
                               </p>
+                              {commission.clawbackReason && (
+                                <p className="text-xs text-red-600">
+                                  {commission.clawbackReason}
+                                </p>
+                              )}
                             </div>
                           </TableCell>
                           <TableCell>
@@ -1111,17 +1167,16 @@ export default function CommissionTracker() {
                             </div>
                           </TableCell>
                           <TableCell className="capitalize">
-                            {commission.type === "month_1"
-                              ? "First Month"
-                              : commission.monthNumber
-                                ? `Month ${commission.monthNumber}`
-                                : "Residual"}
+                            {commissionTypeLabel(commission)}
                           </TableCell>
-                          <TableCell className="font-semibold">
-                            $
-                            {commission.amount.toLocaleString(undefined, {
-                              minimumFractionDigits: 2,
-                            })}
+                          <TableCell
+                            className={`font-semibold ${commission.amount < 0 ? "text-red-600" : ""}`}
+                          >
+                            {commission.amount < 0 ? "-" : ""}$
+                            {Math.abs(commission.amount).toLocaleString(
+                              undefined,
+                              { minimumFractionDigits: 2 },
+                            )}
                           </TableCell>
                           <TableCell>
                             {getStatusBadge(commission.status)}
@@ -1406,9 +1461,15 @@ export default function CommissionTracker() {
                         {deals
                           .filter((deal) => deal.status === "open")
                           .map((deal) => {
+                            const rates = commissionRatesFor(
+                              commissionPlan.rules,
+                              deal.serviceType,
+                            );
                             const firstMonthCommission =
-                              deal.setupFee * 0.2 + deal.monthlyFee * 0.4;
-                            const monthlyCommission = deal.monthlyFee * 0.1;
+                              deal.setupFee * rates.setupRate +
+                              deal.monthlyFee * rates.firstMonthRate;
+                            const monthlyCommission =
+                              deal.monthlyFee * rates.residualRate;
                             const projectedCommission =
                               firstMonthCommission *
                               ((deal.probability || 0) / 100);
@@ -1460,11 +1521,15 @@ export default function CommissionTracker() {
                                 <TableCell>
                                   <div className="text-sm">
                                     <p className="font-medium">
-                                      ${(deal.setupFee * 0.2).toLocaleString()}
+                                      $
+                                      {(
+                                        deal.setupFee * rates.setupRate
+                                      ).toLocaleString()}
                                     </p>
                                     <p className="text-muted-foreground">
-                                      20% of ${deal.setupFee.toLocaleString()}{" "}
-                                      setup fee
+                                      {formatCommissionRate(rates.setupRate)} of
+                                      ${deal.setupFee.toLocaleString()} setup
+                                      fee
                                     </p>
                                   </div>
                                 </TableCell>
@@ -1474,7 +1539,8 @@ export default function CommissionTracker() {
                                       ${monthlyCommission.toLocaleString()}
                                     </p>
                                     <p className="text-muted-foreground">
-                                      10% of ${deal.monthlyFee.toLocaleString()}{" "}
+                                      {formatCommissionRate(rates.residualRate)}{" "}
+                                      of ${deal.monthlyFee.toLocaleString()}{" "}
                                       monthly fee
                                     </p>
                                   </div>
@@ -1791,10 +1857,14 @@ export default function CommissionTracker() {
                     <div className="grid grid-cols-2 gap-4 mt-2">
                       <div className="p-3 bg-green-50 rounded-lg">
                         <p className="text-sm text-gray-600">
-                          Setup Fee Commission (20%)
+                          Setup Fee Commission (
+                          {formatCommissionRate(selectedDealRates.setupRate)})
                         </p>
                         <p className="text-lg font-bold text-green-600">
-                          ${(selectedDeal.setupFee * 0.2).toLocaleString()}
+                          $
+                          {(
+                            selectedDeal.setupFee * selectedDealRates.setupRate
+                          ).toLocaleString()}
                         </p>
                         <p className="text-xs text-gray-500">
                           from ${selectedDeal.setupFee.toLocaleString()} setup
@@ -1803,10 +1873,18 @@ export default function CommissionTracker() {
                       </div>
                       <div className="p-3 bg-blue-50 rounded-lg">
                         <p className="text-sm text-gray-600">
-                          First Month Commission (40%)
+                          First Month Commission (
+                          {formatCommissionRate(
+                            selectedDealRates.firstMonthRate,
+                          )}
+                          )
                         </p>
                         <p className="text-lg font-bold text-blue-600">
-                          ${(selectedDeal.monthlyFee * 0.4).toLocaleString()}
+                          $
+                          {(
+                            selectedDeal.monthlyFee *
+                            selectedDealRates.firstMonthRate
+                          ).toLocaleString()}
                         </p>
                         <p className="text-xs text-gray-500">
                           from ${selectedDeal.monthlyFee.toLocaleString()}{" "}
@@ -1820,8 +1898,10 @@ export default function CommissionTracker() {
                         <p className="text-xl font-bold text-purple-600">
                           $
                           {(
-                            selectedDeal.setupFee * 0.2 +
-                            selectedDeal.monthlyFee * 0.4
+                            selectedDeal.setupFee *
+                              selectedDealRates.setupRate +
+                            selectedDeal.monthlyFee *
+                              selectedDealRates.firstMonthRate
                           ).toLocaleString()}
                         </p>
                       </div>
@@ -1903,7 +1983,16 @@ export default function CommissionTracker() {
                   </span>
                 </div>
                 <Progress
-                  value={(salesRepStats.totalClientsClosedMonthly / 15) * 100}
+                  value={
+                    topMonthlyTier
+                      ? Math.min(
+                          (salesRepStats.totalClientsClosedMonthly /
+                            topMonthlyTier.minClients) *
+                            100,
+                          100,
+                        )
+                      : 0
+                  }
                   className="h-2"
                 />
               </div>
@@ -1926,18 +2015,15 @@ export default function CommissionTracker() {
               )}
 
               <div className="space-y-2 text-sm text-gray-600">
-                <div className="flex justify-between">
-                  <span>5 Clients</span>
-                  <span>$500 or AirPods</span>
-                </div>
-                <div className="flex justify-between">
-                  <span>10 Clients</span>
-                  <span>$1,000 or Apple Watch</span>
-                </div>
-                <div className="flex justify-between">
-                  <span>15+ Clients</span>
-                  <span>$1,500 or MacBook Air</span>
-                </div>
+                {monthlyBonusTiers.map((tier) => (
+                  <div key={tier.minClients} className="flex justify-between">
+                    <span>
+                      {tier.minClients}
+                      {tier === topMonthlyTier ? "+" : ""} Clients
+                    </span>
+                    <span>${tier.amount.toLocaleString()}</span>
+                  </div>
+                ))}
               </div>
             </CardContent>
           </Card>
@@ -1968,7 +2054,7 @@ export default function CommissionTracker() {
                 </p>
               </div>
 
-              {milestoneBonuses.length > 0 && (
+              {lastMilestoneBonus && (
                 <div className="p-4 bg-yellow-50 rounded-lg border border-yellow-200">
                   <div className="flex items-center gap-2 mb-2">
                     <Award className="w-5 h-5 text-yellow-600" />
@@ -1976,30 +2062,29 @@ export default function CommissionTracker() {
                       Last Achievement
                     </span>
                   </div>
-                  <p className="text-sm text-yellow-700">40 Client Milestone</p>
+                  <p className="text-sm text-yellow-700">
+                    {lastMilestoneBonus.milestone} Client Milestone
+                  </p>
                   <p className="text-lg font-bold text-yellow-800">
-                    $5,000 Bonus
+                    ${Number(lastMilestoneBonus.bonusAmount).toLocaleString()}{" "}
+                    Bonus
                   </p>
                 </div>
               )}
 
               <div className="space-y-2 text-sm text-gray-600">
-                <div className="flex justify-between">
-                  <span>25 Clients</span>
-                  <span>$1,000</span>
-                </div>
-                <div className="flex justify-between">
-                  <span>40 Clients</span>
-                  <span>$5,000</span>
-                </div>
-                <div className="flex justify-between">
-                  <span>60 Clients</span>
-                  <span>$7,500</span>
-                </div>
-                <div className="flex justify-between">
-                  <span>100 Clients</span>
-                  <span>$10,000 + Equity</span>
-                </div>
+                {milestoneTiers.map((milestone) => (
+                  <div
+                    key={milestone.threshold}
+                    className="flex justify-between"
+                  >
+                    <span>{milestone.threshold} Clients</span>
+                    <span>
+                      ${milestone.amount.toLocaleString()}
+                      {milestone.includesEquity ? " + Equity" : ""}
+                    </span>
+                  </div>
+                ))}
               </div>
             </CardContent>
           </Card>
@@ -128,7 +128,7 @@ import { ErrorBoundary } from "@/components/ErrorBoundary";
 import { QuoteSummarySection } from "@/components/seedqc/QuoteSummarySection";
 import { CommissionPreview } from "@/components/seedqc/CommissionPreview";
 import { ExistingQuotesModal } from "@/components/seedqc/ExistingQuotesModal";
-import { ApprovalCodeDialog } from "@/components/seedqc/ApprovalCodeDialog";
+import { ApprovalWorkflow } from "@/features/quote-calculator/components/ApprovalWorkflow";
 import { StartNewQuoteCard } from "@/components/seedqc/StartNewQuoteCard";
 import { ContactSearchModal } from "@/components/seedqc/ContactSearchModal";
 import { QuoteActionsBar } from "@/components/seedqc/QuoteActionsBar";
@@ -236,11 +236,7 @@ function QuoteCalculator() {
   const [sortOrder, setSortOrder] = useState<"asc" | "desc">("desc");
 
   // Duplicate quote approval system state
-  const [isApprovalDialogOpen, setIsApprovalDialogOpen] = useState(false);
-  const [approvalCode, setApprovalCode] = useState("");
-  const [isRequestingApproval, setIsRequestingApproval] = useState(false);
-  const [isValidatingCode, setIsValidatingCode] = useState(false);
-  const [hasRequestedApproval, setHasRequestedApproval] = useState(false);
+  const [approvalContact, setApprovalContact] = useState<any | null>(null);
   const [isApproved, setIsApproved] = useState(false);
 
   // Archive dialog state
@@ -406,7 +402,6 @@ function QuoteCalculator() {
       serviceAgentOfService: false,
       agentOfServiceAdditionalStates: 0,
       agentOfServiceComplexCase: false,
-      approvalCode: "",
     },
   });
 
@@ -734,44 +729,20 @@ function QuoteCalculator() {
   };
 
   // Request approval for creating new quote when existing quotes exist
-  const requestNewQuoteApproval = async (contact: any) => {
-    setIsRequestingApproval(true);
-    try {
-      const result = await apiRequest("/api/approval-request", {
-        method: "POST",
-        body: JSON.stringify({
-          type: "duplicate_quote",
-          email: contact.properties.email,
-          contactName:
-            `${contact.properties.firstname || ""} ${contact.properties.lastname || ""}`.trim() ||
-            contact.properties.email,
-          requestedBy: user?.email,
-          reason: `Creating additional quote for existing contact: ${contact.properties.email}`,
-          contactData: contact,
-        }),
-      });
+  const requestNewQuoteApproval = (contact: any) => {
+    setShowExistingQuotesModal(false);
+    setApprovalContact(contact);
+  };
 
-      if (result.success) {
-        setHasRequestedApproval(true);
-        setIsApprovalDialogOpen(true);
-        setShowExistingQuotesModal(false);
-        toast({
-          title: "Approval Requested",
-          description: "Request sent to admins. Check Slack for approval code.",
-        });
-      } else {
-        throw new Error(result.message || "Failed to send approval request");
-      }
-    } catch (error) {
-      console.error("Approval request failed:", error);
-      toast({
-        title: "Request Failed",
-        description: "Failed to request approval. Please try again.",
-        variant: "destructive",
-      });
-    } finally {
-      setIsRequestingApproval(false);
-    }
+  const handleNewQuoteApproved = (approvalRequestId: number) => {
+    const contact = approvalContact;
+    setApprovalContact(null);
+    form.setValue("approvalRequestId", approvalRequestId);
+    toast({
+      title: "Approval Granted",
+      description: "Proceeding to quote calculator.",
+    });
+    if (contact) proceedToClientDetails(contact);
   };
 
   // Function to populate form and proceed to client details
@@ -1410,7 +1381,6 @@ function QuoteCalculator() {
     setHubspotContact(null);
     setLastVerifiedEmail("");
     setIsApproved(false);
-    setHasRequestedApproval(false);
     form.setValue("customSetupFee", "");
 
     // Reset existing quotes state
@@ -1444,168 +1414,6 @@ function QuoteCalculator() {
     }
   };
 
-  // Request approval code from server and send Slack notification
-  const requestApproval = async () => {
-    setIsRequestingApproval(true);
-    try {
-      const formData = form.getValues();
-
-      // Check if this is for duplicate quotes or cleanup override
-      if (existingQuotesForEmail.length > 0) {
-        // This is a duplicate quote approval request
-        const result = await apiRequest("/api/approval-request", {
-          method: "POST",
-          body: JSON.stringify({
-            type: "duplicate_quote",
-            email: formData.contactEmail,
-            contactName: `${formData.contactFirstName} ${formData.contactLastName}`,
-            requestedBy: user?.email || "Unknown",
-            reason: "Additional quote requested for existing contact",
-            contactData: formData,
-          }),
-        });
-
-        if (result.success) {
-          setHasRequestedApproval(true);
-          setIsApprovalDialogOpen(true);
-          setShowExistingQuotesModal(false);
-          toast({
-            title: "Approval Requested",
-            description:
-              "Request sent to admins. Check Slack for approval code.",
-          });
-        } else {
-          throw new Error(result.message || "Failed to send approval request");
-        }
-      } else {
-        // This is a cleanup override approval request (existing logic)
-        const fees = calculateCombinedFees(formData as any);
-
-        // Include custom setup fee if "Other" reason is selected
-        const setupFee =
-          formData.overrideReason === "Other" && formData.customSetupFee
-            ? parseFloat(formData.customSetupFee)
-            : fees.bookkeeping.setupFee;
-
-        const result = await apiRequest("/api/approval/request", {
-          method: "POST",
-          body: JSON.stringify({
-            contactEmail: formData.contactEmail,
-            quoteData: {
-              contactEmail: formData.contactEmail,
-              monthlyRevenueRange: formData.monthlyRevenueRange,
-              monthlyTransactions: formData.monthlyTransactions,
-              industry: formData.industry,
-              cleanupMonths: formData.cleanupMonths,
-              requestedCleanupMonths: formData.cleanupMonths, // Add requested months
-              overrideReason: formData.overrideReason || "",
-              customOverrideReason: formData.customOverrideReason || "",
-              customSetupFee: formData.customSetupFee || "",
-              monthlyFee: (fees as any)?.combined?.monthlyFee ?? 0,
-              setupFee,
-              originalCleanupMonths: currentMonth, // Include original minimum
-            },
-          }),
-        });
-
-        if (result) {
-          setHasRequestedApproval(true);
-          toast({
-            title: "Approval Requested",
-            description: "Check Slack for the approval code.",
-          });
-          setIsApprovalDialogOpen(true);
-        } else {
-          throw new Error("Failed to request approval");
-        }
-      }
-    } catch (error) {
-      console.error("Error requesting approval:", error);
-      toast({
-        title: "Request Failed",
-        description: "Failed to request approval. Please try again.",
-        variant: "destructive",
-      });
-    } finally {
-      setIsRequestingApproval(false);
-    }
-  };
-
-  // Validate approval code entered by user
-  const validateApprovalCode = async () => {
-    if (!approvalCode || approvalCode.length !== 4) {
-      toast({
-        title: "Invalid Code",
-        description: "Please enter a 4-digit approval code.",
-        variant: "destructive",
-      });
-      return;
-    }
-
-    setIsValidatingCode(true);
-    try {
-      // Get the email from form or selectedContact
-      const contactEmail =
-        form.getValues().contactEmail || selectedContact?.properties?.email;
-
-      if (!contactEmail) {
-        toast({
-          title: "Error",
-          description: "Contact email is required for validation.",
-          variant: "destructive",
-        });
-        setIsValidatingCode(false);
-        return;
-      }
-
-      const result = await apiRequest("/api/approval/validate", {
-        method: "POST",
-        body: JSON.stringify({
-          code: approvalCode,
-          contactEmail,
-        }),
-      });
-
-      if (result.valid) {
-        // For duplicate quote approval, proceed to client details
-        if (selectedContact) {
-          setIsApprovalDialogOpen(false);
-          // Store the validated approval code in form before clearing it
-          form.setValue("approvalCode", approvalCode);
-          setApprovalCode("");
-          toast({
-            title: "Approval Granted",
-            description: "Proceeding to quote calculator.",
-          });
-          proceedToClientDetails(selectedContact);
-        } else {
-          // For any other approval validation, also update the form
-          form.setValue("approvalCode", approvalCode);
-          setApprovalCode("");
-          toast({
-            title: "Approval Granted",
-            description: "Code validated successfully.",
-          });
-        }
-      } else {
-        toast({
-          title: "Invalid Code",
-          description: result.message || "Please check the code and try again.",
-          variant: "destructive",
-        });
-      }
-    } catch (error) {
-      console.error("Error validating approval code:", error);
-      toast({
-        title: "Validation Failed",
-        description: "Failed to validate code. Please try again.",
-        variant: "destructive",
-      });
-    } finally {
-      setIsValidatingCode(false);
-    }
-  };
-
   // Handle unlocking fields with confirmation
   const handleUnlockFields = () => {
     setUnlockConfirmDialog(true);
@@ -1614,12 +1422,11 @@ function QuoteCalculator() {
   const confirmUnlockFields = () => {
     setFieldsLocked(false);
     setIsApproved(false);
-    setHasRequestedApproval(false);
     setUnlockConfirmDialog(false);
     toast({
       title: "Fields Unlocked",
       description:
-        "You can now make changes, but will need a new approval code before saving.",
+        "You can now make changes, but will need a new approval before saving.",
       variant: "destructive",
     });
   };
@@ -2051,15 +1858,16 @@ function QuoteCalculator() {
                 infoMessage={existingQuotesInfoMessage || undefined}
               />
 
-              {/* Approval Code Dialog */}
-              <ApprovalCodeDialog
-                open={isApprovalDialogOpen}
-                onOpenChange={setIsApprovalDialogOpen}
-                approvalCode={approvalCode}
-                setApprovalCode={setApprovalCode}
-                isValidating={isValidatingCode}
-                onValidate={validateApprovalCode}
-              />
+              {/* Approval request for an additional quote */}
+              {approvalContact && (
+                <ApprovalWorkflow
+                  type="duplicate_quote"
+                  contactEmail={approvalContact.properties.email}
+                  context={`Additional quote for ${approvalContact.properties.email}`}
+                  onApproved={handleNewQuoteApproved}
+                  onCancel={() => setApprovalContact(null)}
+                />
+              )}
             </form>
           </Form>
         </div>
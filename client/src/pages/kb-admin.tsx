@@ -66,12 +66,20 @@ import {
   Archive,
   Eye,
   EyeOff,
+  Send,
+  CheckCircle2,
+  Undo2,
+  History,
 } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import { AIArticleGenerator } from "@/components/AIArticleGenerator";
 import { RichTextEditor } from "@/components/RichTextEditor";
 import { logoLight as logoLightData, logoDark as logoDarkData } from "@/assets/logos";
 import { useTheme } from "@/theme";
+import { usePermissions } from "@/hooks/use-permissions";
+import { PERMISSIONS } from "@shared/permissions";
+import { KbContentGapsCard } from "@/components/seedkb/KbContentGapsCard";
+import { KbArticleHistoryDialog } from "@/components/seedkb/KbArticleHistoryDialog";
 
 // Types
 interface KbCategory {
@@ -99,6 +107,8 @@ interface KbArticle {
   featured: boolean;
   tags: string[] | null;
   viewCount: number;
+  lastReviewedAt: string | null;
+  stale?: boolean;
   createdAt: string;
   updatedAt: string;
 }
@@ -109,9 +119,10 @@ const articleSchema = z.object({
   excerpt: z.string().optional(),
   content: z.string().min(1, "Content is required"),
   categoryId: z.number().min(1, "Category is required"),
-  status: z.enum(["draft", "published", "archived"]),
+  status: z.enum(["draft", "in_review", "published", "archived"]),
   featured: z.boolean().default(false),
   tags: z.string().optional(),
+  changeNote: z.string().optional(),
 });
 
 type ArticleFormData = z.infer<typeof articleSchema>;
@@ -121,6 +132,7 @@ export default function KbAdmin() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const { user, isLoading: authLoading } = useAuth();
+  const { hasPermission } = usePermissions();
   const [selectedCategory, setSelectedCategory] = useState<number | null>(null);
   const [isArticleDialogOpen, setIsArticleDialogOpen] = useState(false);
   const [editingArticle, setEditingArticle] = useState<KbArticle | null>(null);
@@ -132,6 +144,7 @@ export default function KbAdmin() {
   );
   const [deleteConfirmationText, setDeleteConfirmationText] = useState("");
   const [showAdvancedDelete, setShowAdvancedDelete] = useState(false);
+  const [historyArticleId, setHistoryArticleId] = useState<number | null>(null);
 
   const { resolvedTheme } = useTheme();
   const logoSrc = resolvedTheme === "dark" ? logoDarkData : logoLightData;
@@ -323,6 +336,64 @@ export default function KbAdmin() {
     },
   });
 
+  // Review workflow mutations
+  const submitReviewMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return await apiRequest<KbArticle>(
+        "POST",
+        `/api/kb/articles/${id}/submit-review`,
+        {},
+      );
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/kb/articles"] });
+      toast({
+        title: "Success",
+        description: "Article submitted for review",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to submit article for review",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const reviewArticleMutation = useMutation({
+    mutationFn: async ({
+      id,
+      decision,
+    }: {
+      id: number;
+      decision: "approve" | "request_changes";
+    }) => {
+      return await apiRequest<KbArticle>(
+        "POST",
+        `/api/kb/articles/${id}/review`,
+        { decision },
+      );
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/kb/articles"] });
+      toast({
+        title: "Success",
+        description:
+          variables.decision === "approve"
+            ? "Article reviewed and published"
+            : "Article sent back to draft",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to review article",
+        variant: "destructive",
+      });
+    },
+  });
+
   // Generate metadata mutation
   const generateMetadataMutation = useMutation({
     mutationFn: async (data: { content: string; title: string }) => {
@@ -392,9 +463,10 @@ export default function KbAdmin() {
       excerpt: article.excerpt || "",
       content: article.content,
       categoryId: article.categoryId,
-      status: article.status as "draft" | "published" | "archived",
+      status: article.status as ArticleFormData["status"],
       featured: article.featured,
       tags: article.tags?.join(", ") || "",
+      changeNote: "",
     });
     setIsArticleDialogOpen(true);
   };
@@ -555,6 +627,10 @@ export default function KbAdmin() {
                 ))}
               </CardContent>
             </Card>
+
+            {hasPermission(PERMISSIONS.MANAGE_KB_CONTENT) && (
+              <KbContentGapsCard />
+            )}
           </div>
 
           {/* Main Content */}
@@ -729,6 +805,9 @@ export default function KbAdmin() {
                                     <Select
                                       value={field.value}
                                       onValueChange={field.onChange}
+                                      disabled={
+                                        editingArticle?.status === "in_review"
+                                      }
                                     >
                                       <FormControl>
                                         <SelectTrigger>
@@ -739,6 +818,9 @@ export default function KbAdmin() {
                                         <SelectItem value="draft">
                                           Draft
                                         </SelectItem>
+                                        <SelectItem value="in_review">
+                                          In Review
+                                        </SelectItem>
                                         <SelectItem value="published">
                                           Published
                                         </SelectItem>
@@ -813,6 +895,25 @@ export default function KbAdmin() {
                               </div>
                             </div>
 
+                            {editingArticle && (
+                              <FormField
+                                control={form.control}
+                                name="changeNote"
+                                render={({ field }) => (
+                                  <FormItem>
+                                    <FormLabel>Change Note</FormLabel>
+                                    <FormControl>
+                                      <Input
+                                        placeholder="What changed in this edit?"
+                                        {...field}
+                                      />
+                                    </FormControl>
+                                    <FormMessage />
+                                  </FormItem>
+                                )}
+                              />
+                            )}
+
                             <div className="flex justify-end gap-4">
                               <Button
                                 type="button"
@@ -881,7 +982,7 @@ export default function KbAdmin() {
                                       : ""
                                   }
                                 >
-                                  {article.status}
+                                  {article.status.replace("_", " ")}
                                 </Badge>
                                 {article.featured && (
                                   <Badge
@@ -891,6 +992,19 @@ export default function KbAdmin() {
                                     Featured
                                   </Badge>
                                 )}
+                                {article.stale && (
+                                  <Badge
+                                    variant="outline"
+                                    className="border-red-500 text-red-600"
+                                    title={
+                                      article.lastReviewedAt
+                                        ? `Last reviewed ${new Date(article.lastReviewedAt).toLocaleDateString()}`
+                                        : "Never reviewed"
+                                    }
+                                  >
+                                    Needs Review
+                                  </Badge>
+                                )}
                                 <span>{article.viewCount} views</span>
                                 <span>
                                   {new Date(
@@ -968,6 +1082,57 @@ export default function KbAdmin() {
                                       </>
                                     )}
                                   </DropdownMenuItem>
+                                  {article.status === "draft" && (
+                                    <DropdownMenuItem
+                                      onClick={() =>
+                                        submitReviewMutation.mutate(article.id)
+                                      }
+                                      disabled={submitReviewMutation.isPending}
+                                    >
+                                      <Send className="h-4 w-4 mr-2" />
+                                      Submit for Review
+                                    </DropdownMenuItem>
+                                  )}
+                                  {(article.status === "in_review" ||
+                                    article.status === "published") && (
+                                    <DropdownMenuItem
+                                      onClick={() =>
+                                        reviewArticleMutation.mutate({
+                                          id: article.id,
+                                          decision: "approve",
+                                        })
+                                      }
+                                      disabled={reviewArticleMutation.isPending}
+                                      className="text-green-600 focus:text-green-700"
+                                    >
+                                      <CheckCircle2 className="h-4 w-4 mr-2" />
+                                      {article.status === "in_review"
+                                        ? "Approve & Publish"
+                                        : "Mark Reviewed"}
+                                    </DropdownMenuItem>
+                                  )}
+                                  {article.status === "in_review" && (
+                                    <DropdownMenuItem
+                                      onClick={() =>
+                                        reviewArticleMutation.mutate({
+                                          id: article.id,
+                                          decision: "request_changes",
+                                        })
+                                      }
+                                      disabled={reviewArticleMutation.isPending}
+                                    >
+                                      <Undo2 className="h-4 w-4 mr-2" />
+                                      Request Changes
+                                    </DropdownMenuItem>
+                                  )}
+                                  <DropdownMenuItem
+                                    onClick={() =>
+                                      setHistoryArticleId(article.id)
+                                    }
+                                  >
+                                    <History className="h-4 w-4 mr-2" />
+                                    Version History
+                                  </DropdownMenuItem>
                                   <DropdownMenuItem
                                     onClick={() => {
                                       setEditingArticle(article);
@@ -1020,6 +1185,11 @@ export default function KbAdmin() {
           existingArticle={editingArticle}
         />
 
+        <KbArticleHistoryDialog
+          articleId={historyArticleId}
+          onOpenChange={(open) => !open && setHistoryArticleId(null)}
+        />
+
         {/* Delete Confirmation Dialog */}
         <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
           <AlertDialogContent className="max-w-lg">
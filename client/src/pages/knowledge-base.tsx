@@ -1,6 +1,6 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { useLocation } from "wouter";
+import { useLocation, useSearch } from "wouter";
 import { useAuth } from "@/hooks/use-auth";
 import { Card } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -43,6 +43,11 @@ import { UniversalNavbar } from "@/components/UniversalNavbar";
 import { apiRequest } from "@/lib/queryClient";
 import { logoLight as logoLightData, logoDark as logoDarkData } from "@/assets/logos";
 import { useTheme } from "@/theme";
+import {
+  splitKbSnippet,
+  type KbSearchResponse,
+  type KbSearchResult,
+} from "@shared/kb";
 
 // Types
 interface KbCategory {
@@ -98,9 +103,23 @@ export default function KnowledgeBase() {
     null,
   );
   const [isSearchDialogOpen, setIsSearchDialogOpen] = useState(false);
+  // Search runs once typing pauses; facet filters narrow the same query
+  const [debouncedQuery, setDebouncedQuery] = useState("");
+  const [searchCategoryId, setSearchCategoryId] = useState<number | null>(null);
+  const [searchTag, setSearchTag] = useState<string | null>(null);
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setDebouncedQuery(searchQuery.trim());
+      setSearchCategoryId(null);
+      setSearchTag(null);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
 
   const { user, logoutMutation } = useAuth();
   const [, setLocation] = useLocation();
+  const locationSearch = useSearch();
   const { resolvedTheme } = useTheme();
   const logoSrc = resolvedTheme === "dark" ? logoDarkData : logoLightData;
 
@@ -129,14 +148,20 @@ export default function KnowledgeBase() {
   });
 
   // Search articles
-  const { data: searchResults = [], isLoading: searchLoading } = useQuery({
-    queryKey: ["/api/kb/search", searchQuery],
+  const { data: search, isFetching: searchLoading } = useQuery({
+    queryKey: ["/api/kb/search", debouncedQuery, searchCategoryId, searchTag],
     queryFn: async () => {
-      if (!searchQuery || searchQuery.length < 2) return [];
-      return apiRequest(`/api/kb/search?q=${encodeURIComponent(searchQuery)}`);
+      const params = new URLSearchParams({ q: debouncedQuery });
+      if (searchCategoryId) params.set("categoryId", String(searchCategoryId));
+      if (searchTag) params.set("tag", searchTag);
+      return await apiRequest<KbSearchResponse>(
+        "GET",
+        `/api/kb/search?${params}`,
+      );
     },
-    enabled: searchQuery.length >= 2,
+    enabled: debouncedQuery.length >= 2,
   });
+  const searchResults = search?.results ?? [];
 
   const handleCategoryClick = (category: KbCategory) => {
     setSelectedCategory(category);
@@ -147,14 +172,42 @@ export default function KnowledgeBase() {
     setSelectedArticle(null);
   };
 
+  const openArticle = async (idOrSlug: number | string) => {
+    const article = await apiRequest<KbArticle>(
+      "GET",
+      `/api/kb/articles/${encodeURIComponent(idOrSlug)}`,
+    );
+    setSelectedCategory(
+      categories.find((c) => c.id === article.categoryId) ?? null,
+    );
+    handleArticleClick(article);
+  };
+
+  const handleSearchResultClick = async (result: KbSearchResult) => {
+    setIsSearchDialogOpen(false);
+    await openArticle(result.id);
+  };
+
   const handleArticleClick = (article: KbArticle) => {
     setSelectedArticle(article);
+    // View counts are best-effort; a failure shouldn't block reading
+    apiRequest("POST", `/api/kb/articles/${article.id}/view`, {}).catch(
+      () => {},
+    );
   };
 
   const handleBackToArticles = () => {
     setSelectedArticle(null);
   };
 
+  // Deep links (?article=slug), e.g. from Seed Assistant citations
+  useEffect(() => {
+    const slug = new URLSearchParams(locationSearch).get("article");
+    if (!slug || categoriesLoading) return;
+    openArticle(slug).catch(() => {});
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [locationSearch, categoriesLoading]);
+
   const getIconComponent = (iconName: string) => {
     const IconComponent = iconMap[iconName] || Folder;
     return IconComponent;
@@ -393,7 +446,54 @@ export default function KnowledgeBase() {
                   <DialogTitle>Search Results</DialogTitle>
                 </DialogHeader>
 
-                {searchLoading ? (
+                {search && search.facets.categories.length > 1 && (
+                  <div className="flex flex-wrap gap-2">
+                    {search.facets.categories.map((facet) => (
+                      <Badge
+                        key={facet.id}
+                        variant={
+                          searchCategoryId === facet.id ? "default" : "outline"
+                        }
+                        className="cursor-pointer"
+                        onClick={() =>
+                          setSearchCategoryId(
+                            searchCategoryId === facet.id ? null : facet.id,
+                          )
+                        }
+                      >
+                        {facet.name} ({facet.count})
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+                {search && search.facets.tags.length > 0 && (
+                  <div className="flex flex-wrap gap-2">
+                    {search.facets.tags.map((facet) => (
+                      <Badge
+                        key={facet.tag}
+                        variant={
+                          searchTag === facet.tag ? "default" : "secondary"
+                        }
+                        className="cursor-pointer"
+                        onClick={() =>
+                          setSearchTag(
+                            searchTag === facet.tag ? null : facet.tag,
+                          )
+                        }
+                      >
+                        #{facet.tag} ({facet.count})
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+                {search?.fuzzy && searchResults.length > 0 && (
+                  <p className="text-sm text-gray-500">
+                    No exact matches for "{search.query}". Showing close matches
+                    instead.
+                  </p>
+                )}
+
+                {searchLoading && !search ? (
                   <div className="text-center py-8">Searching...</div>
                 ) : searchResults.length === 0 ? (
                   <div className="text-center py-8 text-gray-500">
@@ -401,10 +501,11 @@ export default function KnowledgeBase() {
                   </div>
                 ) : (
                   <div className="space-y-4">
-                    {searchResults.map((article: KbArticle) => (
+                    {searchResults.map((result) => (
                       <Card
-                        key={article.id}
+                        key={result.id}
                         className="p-4 hover:shadow-md transition-shadow cursor-pointer"
+                        onClick={() => handleSearchResultClick(result)}
                       >
                         <div className="flex items-start justify-between">
                           <div className="flex-1">
@@ -412,22 +513,30 @@ export default function KnowledgeBase() {
                               className="font-semibold text-lg mb-2"
                               style={{ fontFamily: "Open Sans, sans-serif" }}
                             >
-                              {article.title}
+                              {result.title}
                             </h3>
-                            {article.excerpt && (
-                              <p className="text-gray-600 text-sm mb-3">
-                                {article.excerpt}
-                              </p>
-                            )}
+                            <p className="text-gray-600 text-sm mb-3">
+                              {splitKbSnippet(
+                                result.snippet || result.excerpt || "",
+                              ).map((part, i) =>
+                                part.highlight ? (
+                                  <mark key={i} className="bg-orange-100">
+                                    {part.text}
+                                  </mark>
+                                ) : (
+                                  <span key={i}>{part.text}</span>
+                                ),
+                              )}
+                            </p>
                             <div className="flex items-center gap-4 text-sm text-gray-500">
                               <span className="flex items-center gap-1">
                                 <Eye className="h-3 w-3" />
-                                {article.viewCount} views
+                                {result.viewCount} views
                               </span>
                               <span className="flex items-center gap-1">
                                 <Clock className="h-3 w-3" />
                                 {new Date(
-                                  article.updatedAt,
+                                  result.updatedAt,
                                 ).toLocaleDateString()}
                               </span>
                             </div>
@@ -0,0 +1,373 @@
+import { useState } from "react";
+import { useRoute } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import {
+  apiDownload,
+  apiErrorMessage,
+  apiRequest,
+  queryClient,
+} from "@/lib/queryClient";
+import type { PublicProposal } from "@shared/proposals";
+import { CheckCircle, FileDown, FileText, Loader2 } from "lucide-react";
+
+const money = (amount: number) =>
+  `$${amount.toLocaleString(undefined, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+
+const proposalKey = (token: string) => ["/api/public/proposals", token];
+
+// Public proposal page behind a share link; no sign-in, the token in the URL
+// is the credential
+export default function ProposalPage() {
+  const [, params] = useRoute("/proposals/:token");
+  const token = params?.token ?? "";
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [optionId, setOptionId] = useState<string>("");
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: proposalKey(token),
+    queryFn: async () =>
+      await apiRequest<PublicProposal>("GET", `/api/public/proposals/${token}`),
+    enabled: !!token,
+    retry: false,
+    refetchOnWindowFocus: false,
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: async () =>
+      await apiRequest<
+        Pick<
+          PublicProposal,
+          "status" | "acceptedAt" | "acceptedName" | "acceptedOptionId"
+        >
+      >("POST", `/api/public/proposals/${token}/accept`, {
+        name: name.trim(),
+        optionId: optionId ? Number(optionId) : undefined,
+      }),
+    onSuccess: (accepted) => {
+      queryClient.setQueryData<PublicProposal>(proposalKey(token), (prev) =>
+        prev ? { ...prev, ...accepted } : prev,
+      );
+    },
+    onError: (err) => {
+      toast({
+        title: "Couldn't accept proposal",
+        description: apiErrorMessage(err, "Failed to accept proposal"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const downloadPdf = async () => {
+    try {
+      await apiDownload(
+        `/api/public/proposals/${token}/pdf`,
+        `Proposal-${(data?.document.companyName ?? "Seed-Financial").replace(/[^A-Za-z0-9]+/g, "-")}.pdf`,
+      );
+    } catch (err) {
+      toast({
+        title: "Download failed",
+        description: apiErrorMessage(err, "Failed to generate proposal"),
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-border" />
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-[#253e31] to-[#75c29a] flex items-center justify-center p-4">
+        <Card className="w-full max-w-md shadow-2xl">
+          <CardHeader className="text-center">
+            <CardTitle className="text-xl">Proposal unavailable</CardTitle>
+            <CardDescription>
+              {apiErrorMessage(error, "This proposal link is not valid.")} Ask
+              your Seed Financial contact for a new link.
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      </div>
+    );
+  }
+
+  const { document: proposal } = data;
+  const chosenOption = proposal.options?.options.find(
+    (o) => o.id === data.acceptedOptionId,
+  );
+  const needsOption = !!proposal.options && !optionId;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-[#253e31] to-[#75c29a] py-10 px-4">
+      <div className="mx-auto max-w-4xl space-y-6">
+        <Card className="shadow-2xl">
+          <CardHeader>
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <p className="text-sm font-semibold text-[#253e31]">
+                  Seed Financial
+                </p>
+                <CardTitle className="text-3xl font-bold text-gray-900 mt-1">
+                  Proposal for {proposal.companyName}
+                </CardTitle>
+                <CardDescription className="mt-2">
+                  Prepared for {proposal.contactName}
+                  {proposal.preparedBy && ` by ${proposal.preparedBy}`} ·{" "}
+                  {new Date(proposal.preparedAt).toLocaleDateString()}
+                  {data.status !== "accepted" &&
+                    ` · Valid until ${new Date(data.expiresAt).toLocaleDateString()}`}
+                </CardDescription>
+              </div>
+              <Button type="button" variant="outline" onClick={downloadPdf}>
+                <FileDown className="h-4 w-4 mr-1" />
+                PDF
+              </Button>
+            </div>
+          </CardHeader>
+
+          <CardContent className="space-y-8">
+            <section>
+              <h2 className="text-lg font-semibold text-[#253e31] mb-3">
+                Services
+              </h2>
+              <div className="space-y-3">
+                {proposal.services.map((service) => (
+                  <div key={service.key}>
+                    <div className="font-medium text-gray-900">
+                      {service.name}
+                    </div>
+                    <p className="text-sm text-gray-600">
+                      {service.description}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            </section>
+
+            <section>
+              <h2 className="text-lg font-semibold text-[#253e31] mb-3">
+                Pricing
+              </h2>
+              <Table>
+                <TableBody>
+                  {proposal.pricing.lines.map((line) => (
+                    <TableRow key={`${line.label}:${line.cadence}`}>
+                      <TableCell>{line.label}</TableCell>
+                      <TableCell className="text-gray-500">
+                        {line.cadence === "setup" ? "One-time" : "Monthly"}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {money(line.amount)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  <TableRow className="font-semibold">
+                    <TableCell colSpan={2}>Monthly total</TableCell>
+                    <TableCell className="text-right">
+                      {money(proposal.pricing.monthlyFee)}
+                    </TableCell>
+                  </TableRow>
+                  <TableRow className="font-semibold">
+                    <TableCell colSpan={2}>Setup total</TableCell>
+                    <TableCell className="text-right">
+                      {money(proposal.pricing.setupFee)}
+                    </TableCell>
+                  </TableRow>
+                </TableBody>
+              </Table>
+              <p className="text-sm text-gray-600 mt-2">
+                {proposal.pricing.contractTerm}
+              </p>
+            </section>
+
+            {proposal.options && (
+              <section>
+                <h2 className="text-lg font-semibold text-[#253e31] mb-3">
+                  Options
+                </h2>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Service</TableHead>
+                      {proposal.options.options.map((option) => (
+                        <TableHead key={option.id} className="text-right">
+                          {option.name}
+                        </TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {proposal.options.rows.map((row) => (
+                      <TableRow
+                        key={`${row.service}:${row.cadence}`}
+                        className={
+                          row.service === "total" ? "font-semibold" : undefined
+                        }
+                      >
+                        <TableCell>{row.label}</TableCell>
+                        {row.amounts.map((amount, i) => (
+                          <TableCell
+                            key={proposal.options?.options[i]?.id ?? i}
+                            className="text-right"
+                          >
+                            {amount ? money(amount) : "—"}
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </section>
+            )}
+
+            {proposal.sow.length > 0 && (
+              <section>
+                <h2 className="text-lg font-semibold text-[#253e31] mb-3">
+                  Statement of Work
+                </h2>
+                <div className="space-y-4">
+                  {proposal.sow.map((section) => (
+                    <div key={section.service}>
+                      <div className="font-medium text-gray-900">
+                        {section.title}
+                      </div>
+                      <pre className="whitespace-pre-wrap font-sans text-sm text-gray-700 mt-1">
+                        {section.body}
+                      </pre>
+                      {section.agreementLink && (
+                        <a
+                          href={section.agreementLink}
+                          target="_blank"
+                          rel="noreferrer"
+                          className="text-sm text-[#253e31] underline"
+                        >
+                          Service schedule
+                        </a>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </section>
+            )}
+
+            <section>
+              <h2 className="text-lg font-semibold text-[#253e31] mb-3">
+                Terms
+              </h2>
+              <ul className="list-disc list-inside space-y-1 text-sm text-gray-700">
+                {proposal.terms.map((term) => (
+                  <li key={term}>{term}</li>
+                ))}
+              </ul>
+            </section>
+          </CardContent>
+        </Card>
+
+        <Card className="shadow-2xl">
+          <CardContent className="pt-6">
+            {data.status === "accepted" ? (
+              <div className="flex items-center gap-3 text-green-700 bg-green-50 p-4 rounded-lg">
+                <CheckCircle className="w-5 h-5 flex-shrink-0" />
+                <div className="text-sm">
+                  <p className="font-medium">
+                    Accepted by {data.acceptedName}
+                    {data.acceptedAt &&
+                      ` on ${new Date(data.acceptedAt).toLocaleDateString()}`}
+                  </p>
+                  <p className="text-green-600 mt-1">
+                    {chosenOption ? `You chose ${chosenOption.name}. ` : ""}
+                    Your Seed Financial contact will be in touch with next
+                    steps.
+                  </p>
+                </div>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                <div className="flex items-center gap-2">
+                  <FileText className="h-5 w-5 text-[#253e31]" />
+                  <h2 className="text-lg font-semibold">Accept proposal</h2>
+                </div>
+                {proposal.options && (
+                  <RadioGroup value={optionId} onValueChange={setOptionId}>
+                    {proposal.options.options.map((option) => (
+                      <div key={option.id} className="flex items-center gap-2">
+                        <RadioGroupItem
+                          value={String(option.id)}
+                          id={`option-${option.id}`}
+                        />
+                        <Label htmlFor={`option-${option.id}`}>
+                          {option.name}: {money(option.monthlyFee)}/month,{" "}
+                          {money(option.setupFee)} setup
+                        </Label>
+                        {option.changes.length > 0 && (
+                          <Badge variant="outline" className="text-xs">
+                            {option.changes.join(", ")}
+                          </Badge>
+                        )}
+                      </div>
+                    ))}
+                  </RadioGroup>
+                )}
+                <div className="space-y-2">
+                  <Label htmlFor="accept-name">
+                    Type your full name to accept
+                  </Label>
+                  <Input
+                    id="accept-name"
+                    value={name}
+                    maxLength={120}
+                    onChange={(e) => setName(e.target.value)}
+                  />
+                </div>
+                <Button
+                  type="button"
+                  className="w-full"
+                  disabled={
+                    name.trim().length < 2 ||
+                    needsOption ||
+                    acceptMutation.isPending
+                  }
+                  onClick={() => acceptMutation.mutate()}
+                >
+                  {acceptMutation.isPending
+                    ? "Accepting..."
+                    : "Accept proposal"}
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
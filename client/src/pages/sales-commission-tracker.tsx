@@ -79,6 +79,7 @@ import {
 } from "@shared/commission-calculator";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useDealsByOwner } from "@/hooks/useDeals";
+import { useCommissionPlan } from "@/hooks/useCommissionPlan";
 import { useToast } from "@/hooks/use-toast";
 
 interface Commission {
@@ -87,15 +88,21 @@ interface Commission {
   dealName: string;
   companyName: string;
   serviceType: string;
-  type: "month_1" | "residual";
+  type: "month_1" | "residual" | "clawback";
   monthNumber: number;
   amount: number;
   status: "pending" | "approved" | "paid" | "disputed";
   dateEarned: string;
   datePaid?: string;
   salesRep?: string;
+  clawbackReason?: string | null;
 }
 
+const commissionTypeFrom = (type: unknown): Commission["type"] => {
+  if (type === "clawback") return "clawback";
+  return type === "First Month" ? "month_1" : "residual";
+};
+
 // Removed unused interfaces
 
 interface SalesRepStats {
@@ -223,6 +230,9 @@ export function SalesCommissionTracker() {
     staleTime: 30000,
   });
 
+  // Rates and bonus ladders from the rep's active commission plan
+  const { plan: commissionPlan } = useCommissionPlan({ enabled: !!user });
+
   // Dialog states
   const [adjustmentDialogOpen, setAdjustmentDialogOpen] = useState(false);
   const [commissionHistoryModalOpen, setCommissionHistoryModalOpen] =
@@ -308,10 +318,7 @@ export function SalesCommissionTracker() {
           dealName: invoice.companyName || "Unknown",
           companyName: invoice.companyName || "Unknown Company",
           serviceType: invoice.serviceType || "bookkeeping",
-          type:
-            invoice.type === "First Month"
-              ? ("month_1" as const)
-              : ("residual" as const),
+          type: commissionTypeFrom(invoice.type),
           monthNumber: invoice.monthNumber || 1,
           amount: parseFloat(invoice.amount?.toString() || "0"),
           status: (invoice.status || "pending").toLowerCase() as
@@ -325,6 +332,7 @@ export function SalesCommissionTracker() {
             new Date().toISOString().slice(0, 10),
           datePaid: invoice.datePaid || undefined,
           salesRep: invoice.salesRep || userName,
+          clawbackReason: invoice.clawbackReason ?? null,
         }),
       );
   }, [liveCommissions, user?.firstName, user?.lastName, userName]);
@@ -446,15 +454,25 @@ export function SalesCommissionTracker() {
     );
   }, []);
 
-  // Calculate bonus eligibility using display stats
+  // Calculate bonus eligibility using display stats and the rep's plan
   const monthlyBonusEligibility = calculateMonthlyBonus(
     displayStats.totalClientsClosedMonthly,
+    commissionPlan.rules,
   );
   const milestoneBonusEligibility = calculateMilestoneBonus(
     displayStats.totalClientsClosedAllTime,
+    commissionPlan.rules,
   );
   const nextMilestone = getNextMilestone(
     displayStats.totalClientsClosedAllTime,
+    commissionPlan.rules,
+  );
+  const monthlyBonusTiers = [...commissionPlan.rules.monthlyBonusTiers].sort(
+    (a, b) => a.minClients - b.minClients,
+  );
+  const topMonthlyTier = monthlyBonusTiers[monthlyBonusTiers.length - 1];
+  const milestoneTiers = [...commissionPlan.rules.milestoneBonuses].sort(
+    (a, b) => a.threshold - b.threshold,
   );
   const totalEarnings = calculateTotalEarnings(
     displayStats.totalCommissionsEarned,
@@ -788,6 +806,11 @@ export function SalesCommissionTracker() {
                               <p className="text-sm text-muted-foreground">
                                 {commission.companyName}
                               </p>
+                              {commission.clawbackReason && (
+                                <p className="text-xs text-red-600">
+                                  {commission.clawbackReason}
+                                </p>
+                              )}
                             </div>
                           </TableCell>
                           <TableCell>
@@ -799,17 +822,21 @@ export function SalesCommissionTracker() {
                             </div>
                           </TableCell>
                           <TableCell>
-                            <Badge
-                              variant={
-                                commission.type === "month_1"
-                                  ? "default"
-                                  : "secondary"
-                              }
-                            >
-                              {commission.type === "month_1"
-                                ? "First Month"
-                                : `Month ${commission.monthNumber}`}
-                            </Badge>
+                            {commission.type === "clawback" ? (
+                              <Badge variant="destructive">Clawback</Badge>
+                            ) : (
+                              <Badge
+                                variant={
+                                  commission.type === "month_1"
+                                    ? "default"
+                                    : "secondary"
+                                }
+                              >
+                                {commission.type === "month_1"
+                                  ? "First Month"
+                                  : `Month ${commission.monthNumber}`}
+                              </Badge>
+                            )}
                           </TableCell>
                           <TableCell className="text-center">
                             {commission.monthNumber}
@@ -902,7 +929,14 @@ export function SalesCommissionTracker() {
                     </div>
                     <Progress
                       value={
-                        (displayStats.totalClientsClosedMonthly / 15) * 100
+                        topMonthlyTier
+                          ? Math.min(
+                              (displayStats.totalClientsClosedMonthly /
+                                topMonthlyTier.minClients) *
+                                100,
+                              100,
+                            )
+                          : 0
                       }
                       className="h-2"
                     />
@@ -926,18 +960,18 @@ export function SalesCommissionTracker() {
                   )}
 
                   <div className="space-y-2 text-sm text-muted-foreground">
-                    <div className="flex justify-between">
-                      <span>5 Clients</span>
-                      <span>$500 or AirPods</span>
-                    </div>
-                    <div className="flex justify-between">
-                      <span>10 Clients</span>
-                      <span>$1,000 or Apple Watch</span>
-                    </div>
-                    <div className="flex justify-between">
-                      <span>15+ Clients</span>
-                      <span>$1,500 or MacBook Air</span>
-                    </div>
+                    {monthlyBonusTiers.map((tier) => (
+                      <div
+                        key={tier.minClients}
+                        className="flex justify-between"
+                      >
+                        <span>
+                          {tier.minClients}
+                          {tier === topMonthlyTier ? "+" : ""} Clients
+                        </span>
+                        <span>${tier.amount.toLocaleString()}</span>
+                      </div>
+                    ))}
                   </div>
                 </>
               )}
@@ -981,7 +1015,7 @@ export function SalesCommissionTracker() {
                   </div>
 
                   {/* Show last achievement if user has reached a milestone */}
-                  {salesRepStats.totalClientsClosedAllTime >= 25 && (
+                  {milestoneBonusEligibility && (
                     <div className="p-4 bg-yellow-50 rounded-lg border border-yellow-200">
                       <div className="flex items-center gap-2 mb-2">
                         <Award className="w-5 h-5 text-yellow-600" />
@@ -990,31 +1024,28 @@ export function SalesCommissionTracker() {
                         </span>
                       </div>
                       <p className="text-sm text-yellow-700">
-                        25 Client Milestone
+                        {milestoneBonusEligibility.description}
                       </p>
                       <p className="text-lg font-bold text-yellow-800">
-                        $1,000 Bonus
+                        ${milestoneBonusEligibility.amount.toLocaleString()}{" "}
+                        Bonus
                       </p>
                     </div>
                   )}
 
                   <div className="space-y-2 text-sm text-muted-foreground">
-                    <div className="flex justify-between">
-                      <span>25 Clients</span>
-                      <span>$1,000</span>
-                    </div>
-                    <div className="flex justify-between">
-                      <span>40 Clients</span>
-                      <span>$5,000</span>
-                    </div>
-                    <div className="flex justify-between">
-                      <span>60 Clients</span>
-                      <span>$7,500</span>
-                    </div>
-                    <div className="flex justify-between">
-                      <span>100 Clients</span>
-                      <span>$10,000 + Equity</span>
-                    </div>
+                    {milestoneTiers.map((milestone) => (
+                      <div
+                        key={milestone.threshold}
+                        className="flex justify-between"
+                      >
+                        <span>{milestone.threshold} Clients</span>
+                        <span>
+                          ${milestone.amount.toLocaleString()}
+                          {milestone.includesEquity ? " + Equity" : ""}
+                        </span>
+                      </div>
+                    ))}
                   </div>
                 </>
               )}
@@ -1224,8 +1255,8 @@ export function SalesCommissionTracker() {
                         </p>
                         <p className="text-xs text-muted-foreground">
                           {selectedCommission.type === "month_1"
-                            ? "First month commission (40% of monthly fee)"
-                            : "Residual commission (2% of monthly fee)"}
+                            ? "First month commission"
+                            : "Residual commission"}
                         </p>
                       </div>
                     </div>
@@ -0,0 +1,29 @@
+-- Migration: Versioned, effective-dated pricing configurations and quote pinning
+-- Safe to run multiple times with IF NOT EXISTS
+
+CREATE TABLE IF NOT EXISTS public.pricing_config_versions (
+  id SERIAL PRIMARY KEY,
+  version INTEGER NOT NULL UNIQUE,
+  label TEXT NOT NULL,
+  notes TEXT,
+  status TEXT NOT NULL DEFAULT 'draft',
+  config_json TEXT NOT NULL,
+  effective_from TIMESTAMP,
+  created_by INTEGER NOT NULL REFERENCES public.users(id),
+  published_by INTEGER REFERENCES public.users(id),
+  published_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+-- Live-version resolution scans published rows by effective date
+CREATE INDEX IF NOT EXISTS pricing_config_versions_status_effective_idx
+  ON public.pricing_config_versions (status, effective_from);
+
+-- Pin each quote to the version that priced it
+ALTER TABLE public.quotes
+  ADD COLUMN IF NOT EXISTS pricing_config_version_id INTEGER
+  REFERENCES public.pricing_config_versions(id);
+
+CREATE INDEX IF NOT EXISTS quotes_pricing_config_version_id_idx
+  ON public.quotes (pricing_config_version_id);
@@ -0,0 +1,33 @@
+-- Migration: Line-item discounts, promo codes and manual price overrides on quotes
+-- Safe to run multiple times with IF NOT EXISTS
+
+ALTER TABLE public.quotes
+  ADD COLUMN IF NOT EXISTS line_item_discounts_json TEXT,
+  ADD COLUMN IF NOT EXISTS promo_code TEXT,
+  ADD COLUMN IF NOT EXISTS discount_reason TEXT,
+  ADD COLUMN IF NOT EXISTS discount_monthly_amount DECIMAL(10, 2) DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS discount_setup_amount DECIMAL(10, 2) DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS public.promo_codes (
+  id SERIAL PRIMARY KEY,
+  code TEXT NOT NULL UNIQUE,
+  description TEXT,
+  discounts_json TEXT NOT NULL,
+  expires_at TIMESTAMP,
+  max_uses INTEGER,
+  uses_count INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_by INTEGER REFERENCES public.users(id),
+  created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+-- Manual discounts above this percent of list price need an approval code
+INSERT INTO public.pricing_service_settings
+  (service, setting_key, setting_value, setting_type, description)
+SELECT 'discounts', 'approval_threshold_pct', 15, 'threshold',
+  'Manual line-item discounts above this percent of list price require approval'
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.pricing_service_settings
+  WHERE service = 'discounts' AND setting_key = 'approval_threshold_pct'
+);
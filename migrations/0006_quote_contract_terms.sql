@@ -0,0 +1,21 @@
+-- Migration: Contract terms (monthly, 12/24-month commitment, annual prepay) on quotes
+-- Safe to run multiple times with IF NOT EXISTS
+
+ALTER TABLE public.quotes
+  ADD COLUMN IF NOT EXISTS contract_term TEXT NOT NULL DEFAULT 'monthly',
+  ADD COLUMN IF NOT EXISTS term_discount_amount DECIMAL(10, 2) DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS prepay_amount DECIMAL(10, 2) DEFAULT 0;
+
+-- Percent off every monthly line for each committed term
+INSERT INTO public.pricing_service_settings
+  (service, setting_key, setting_value, setting_type, description)
+SELECT v.service, v.setting_key, v.setting_value, 'threshold', v.description
+FROM (VALUES
+  ('contract_terms', '12_month_pct', 5, 'Monthly fee discount for a 12-month commitment'),
+  ('contract_terms', '24_month_pct', 10, 'Monthly fee discount for a 24-month commitment'),
+  ('contract_terms', 'annual_prepay_pct', 10, 'Monthly fee discount for paying a year up front')
+) AS v(service, setting_key, setting_value, description)
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.pricing_service_settings s
+  WHERE s.service = v.service AND s.setting_key = v.setting_key
+);
@@ -0,0 +1,39 @@
+-- Migration: Approval requests decided from the admin queue, with an audit trail
+-- Replaces approval codes that were returned to the requesting rep
+-- Safe to run multiple times with IF NOT EXISTS
+
+CREATE TABLE IF NOT EXISTS public.approval_requests (
+  id SERIAL PRIMARY KEY,
+  type TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending',
+  contact_email TEXT NOT NULL,
+  quote_id INTEGER REFERENCES public.quotes(id),
+  requested_by INTEGER NOT NULL REFERENCES public.users(id),
+  reason TEXT NOT NULL,
+  requested_override_json TEXT,
+  quote_snapshot_json TEXT,
+  approver_id INTEGER REFERENCES public.users(id),
+  decision_note TEXT,
+  decided_at TIMESTAMP,
+  expires_at TIMESTAMP,
+  used_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS approval_requests_status_idx
+  ON public.approval_requests (status);
+CREATE INDEX IF NOT EXISTS approval_requests_quote_id_idx
+  ON public.approval_requests (quote_id);
+
+CREATE TABLE IF NOT EXISTS public.approval_request_events (
+  id SERIAL PRIMARY KEY,
+  approval_request_id INTEGER NOT NULL REFERENCES public.approval_requests(id),
+  action TEXT NOT NULL,
+  actor_id INTEGER REFERENCES public.users(id),
+  note TEXT,
+  created_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS approval_request_events_request_idx
+  ON public.approval_request_events (approval_request_id);
@@ -0,0 +1,33 @@
+-- Migration: Commission plans assignable per sales rep
+-- Commissions record the plan they were earned under so later plan changes
+-- never alter earned amounts
+-- Safe to run multiple times with IF NOT EXISTS
+
+CREATE TABLE IF NOT EXISTS public.commission_plans (
+  id SERIAL PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE,
+  description TEXT,
+  rules_json TEXT NOT NULL,
+  is_default BOOLEAN DEFAULT FALSE NOT NULL,
+  effective_from TIMESTAMP NOT NULL,
+  effective_to TIMESTAMP,
+  created_by INTEGER REFERENCES public.users(id),
+  created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS public.sales_rep_commission_plans (
+  id SERIAL PRIMARY KEY,
+  sales_rep_id INTEGER NOT NULL REFERENCES public.sales_reps(id),
+  plan_id INTEGER NOT NULL REFERENCES public.commission_plans(id),
+  effective_from TIMESTAMP NOT NULL,
+  effective_to TIMESTAMP,
+  assigned_by INTEGER REFERENCES public.users(id),
+  created_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS sales_rep_commission_plans_rep_idx
+  ON public.sales_rep_commission_plans (sales_rep_id);
+
+ALTER TABLE public.commissions
+  ADD COLUMN IF NOT EXISTS commission_plan_id INTEGER REFERENCES public.commission_plans(id);
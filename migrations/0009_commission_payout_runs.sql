@@ -0,0 +1,36 @@
+-- Migration: Commission payout runs with per-rep statements
+-- Locking a 14th–13th period creates a run, snapshots each rep's statement
+-- and stamps the included commissions; locked periods only accept reversals
+-- Safe to run multiple times with IF NOT EXISTS
+
+CREATE TABLE IF NOT EXISTS public.commission_payout_runs (
+  id SERIAL PRIMARY KEY,
+  period_start TEXT NOT NULL UNIQUE,
+  period_end TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'locked',
+  total_amount DECIMAL(10, 2) NOT NULL,
+  locked_by INTEGER REFERENCES public.users(id),
+  locked_at TIMESTAMP DEFAULT NOW() NOT NULL,
+  paid_by INTEGER REFERENCES public.users(id),
+  paid_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS public.commission_payout_statements (
+  id SERIAL PRIMARY KEY,
+  payout_run_id INTEGER NOT NULL REFERENCES public.commission_payout_runs(id),
+  sales_rep_id INTEGER NOT NULL REFERENCES public.sales_reps(id),
+  total_amount DECIMAL(10, 2) NOT NULL,
+  statement_json TEXT NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS commission_payout_statements_run_idx
+  ON public.commission_payout_statements (payout_run_id);
+
+ALTER TABLE public.commissions
+  ADD COLUMN IF NOT EXISTS payout_run_id INTEGER REFERENCES public.commission_payout_runs(id);
+
+ALTER TABLE public.commission_adjustments
+  ADD COLUMN IF NOT EXISTS payout_run_id INTEGER REFERENCES public.commission_payout_runs(id);
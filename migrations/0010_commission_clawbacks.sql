@@ -0,0 +1,11 @@
+-- Migration: Commission clawbacks
+-- Clawbacks are negative commission rows pointing at the commission they
+-- take back; the unique index keeps each commission clawed back at most once
+-- Safe to run multiple times with IF NOT EXISTS
+
+ALTER TABLE public.commissions
+  ADD COLUMN IF NOT EXISTS clawback_of_commission_id INTEGER REFERENCES public.commissions(id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS commissions_clawback_of_commission_idx
+  ON public.commissions (clawback_of_commission_id)
+  WHERE clawback_of_commission_id IS NOT NULL;
@@ -0,0 +1,21 @@
+-- Migration: Commission classification by HubSpot product
+-- Invoice lines keep their HubSpot product and billing frequency so
+-- commissions are classified by product instead of line wording; products
+-- outside the service registry are classified through the mapping table
+-- Safe to run multiple times with IF NOT EXISTS
+
+ALTER TABLE public.hubspot_invoice_line_items
+  ADD COLUMN IF NOT EXISTS hubspot_product_id TEXT,
+  ADD COLUMN IF NOT EXISTS recurring_billing_frequency TEXT;
+
+CREATE TABLE IF NOT EXISTS public.commission_product_mappings (
+  id SERIAL PRIMARY KEY,
+  hubspot_product_id TEXT NOT NULL UNIQUE,
+  product_name TEXT,
+  commission_type TEXT NOT NULL,
+  service_type TEXT,
+  notes TEXT,
+  created_by INTEGER REFERENCES public.users(id),
+  created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
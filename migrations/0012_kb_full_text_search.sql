@@ -0,0 +1,54 @@
+-- Migration: Knowledge base full-text search
+-- kb_articles.search_vector becomes a weighted tsvector (title A, tags B,
+-- excerpt C, content D) kept current by a trigger, with a GIN index for
+-- ranked search and a trigram index for the typo-tolerant fallback
+-- Safe to run multiple times
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public'
+      AND table_name = 'kb_articles'
+      AND column_name = 'search_vector'
+      AND data_type <> 'tsvector'
+  ) THEN
+    ALTER TABLE public.kb_articles
+      ALTER COLUMN search_vector TYPE tsvector USING NULL;
+  END IF;
+END $$;
+
+-- Article content is HTML; tags are stripped before indexing
+CREATE OR REPLACE FUNCTION public.kb_articles_search_vector_update()
+RETURNS trigger AS $$
+BEGIN
+  NEW.search_vector :=
+    setweight(to_tsvector('english', coalesce(NEW.title, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(array_to_string(NEW.tags, ' '), '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(NEW.excerpt, '')), 'C') ||
+    setweight(to_tsvector('english', regexp_replace(coalesce(NEW.content, ''), '<[^>]+>', ' ', 'g')), 'D');
+  RETURN NEW;
+END
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS kb_articles_search_vector_trigger ON public.kb_articles;
+CREATE TRIGGER kb_articles_search_vector_trigger
+  BEFORE INSERT OR UPDATE OF title, tags, excerpt, content
+  ON public.kb_articles
+  FOR EACH ROW EXECUTE FUNCTION public.kb_articles_search_vector_update();
+
+-- Backfill existing articles through the trigger
+UPDATE public.kb_articles SET title = title WHERE search_vector IS NULL;
+
+CREATE INDEX IF NOT EXISTS kb_articles_search_vector_idx
+  ON public.kb_articles USING GIN (search_vector);
+
+CREATE INDEX IF NOT EXISTS kb_articles_title_trgm_idx
+  ON public.kb_articles USING GIN (title gin_trgm_ops);
+
+-- Content gaps report groups zero-result searches
+CREATE INDEX IF NOT EXISTS kb_search_history_zero_results_idx
+  ON public.kb_search_history (created_at)
+  WHERE results_count = 0;
@@ -0,0 +1,13 @@
+-- Migration: Knowledge base article versions and review
+-- Every article save writes a numbered version; the unique index stops two
+-- concurrent saves from both claiming the same number. Review fields already
+-- exist on kb_articles (last_reviewed_at / last_reviewed_by); status gains
+-- 'in_review', which needs no schema change (text column)
+-- Safe to run multiple times with IF NOT EXISTS
+
+CREATE UNIQUE INDEX IF NOT EXISTS kb_article_versions_article_version_idx
+  ON public.kb_article_versions (article_id, version);
+
+-- Stale review report scans published articles by review date
+CREATE INDEX IF NOT EXISTS kb_articles_review_idx
+  ON public.kb_articles (status, last_reviewed_at);
@@ -0,0 +1,36 @@
+-- Migration: Seed Assistant retrieval index
+-- Embedded chunks of published KB articles and approved Box client folder
+-- files. Embeddings are stored as REAL[] and compared in the app, which is
+-- plenty at knowledge-base scale and needs no database extension
+-- Safe to run multiple times with IF NOT EXISTS
+
+CREATE TABLE IF NOT EXISTS public.assistant_index_chunks (
+  id SERIAL PRIMARY KEY,
+  source_type TEXT NOT NULL,
+  source_id TEXT NOT NULL,
+  title TEXT NOT NULL,
+  url TEXT NOT NULL,
+  box_folder_id TEXT,
+  chunk_index INTEGER NOT NULL,
+  content TEXT NOT NULL,
+  embedding REAL[] NOT NULL,
+  embedding_model TEXT NOT NULL,
+  content_hash TEXT NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS assistant_index_chunks_source_idx
+  ON public.assistant_index_chunks (source_type, source_id);
+
+CREATE INDEX IF NOT EXISTS assistant_index_chunks_model_idx
+  ON public.assistant_index_chunks (embedding_model);
+
+CREATE TABLE IF NOT EXISTS public.assistant_box_folders (
+  id SERIAL PRIMARY KEY,
+  folder_id TEXT NOT NULL UNIQUE,
+  name TEXT NOT NULL,
+  approved_by INTEGER REFERENCES public.users(id),
+  last_indexed_at TIMESTAMP,
+  last_index_error TEXT,
+  created_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
@@ -0,0 +1,47 @@
+-- Migration: Seed Assistant conversation threads and answer feedback
+-- Threads are per user and mode; share_token opens a read-only copy for any
+-- signed-in user. Feedback is one rating per user per answer (upserted)
+-- Safe to run multiple times with IF NOT EXISTS
+
+CREATE TABLE IF NOT EXISTS public.assistant_conversations (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES public.users(id),
+  mode TEXT NOT NULL,
+  title TEXT NOT NULL,
+  share_token TEXT UNIQUE,
+  created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS assistant_conversations_user_idx
+  ON public.assistant_conversations (user_id, mode, updated_at DESC);
+
+CREATE TABLE IF NOT EXISTS public.assistant_messages (
+  id SERIAL PRIMARY KEY,
+  conversation_id INTEGER NOT NULL REFERENCES public.assistant_conversations(id),
+  role TEXT NOT NULL,
+  content TEXT NOT NULL,
+  citations JSONB DEFAULT '[]'::jsonb NOT NULL,
+  model TEXT,
+  created_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS assistant_messages_conversation_idx
+  ON public.assistant_messages (conversation_id, id);
+
+CREATE TABLE IF NOT EXISTS public.assistant_message_feedback (
+  id SERIAL PRIMARY KEY,
+  message_id INTEGER NOT NULL REFERENCES public.assistant_messages(id),
+  user_id INTEGER NOT NULL REFERENCES public.users(id),
+  rating TEXT NOT NULL,
+  comment TEXT,
+  created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS assistant_message_feedback_message_user_idx
+  ON public.assistant_message_feedback (message_id, user_id);
+
+-- Low-rated answers report
+CREATE INDEX IF NOT EXISTS assistant_message_feedback_rating_idx
+  ON public.assistant_message_feedback (rating, updated_at DESC);
@@ -0,0 +1,26 @@
+-- Migration: token and cost accounting for the LLM provider layer
+-- One row per model call (after retries), attributed to the user when the
+-- call was made on their behalf
+-- Safe to run multiple times with IF NOT EXISTS
+
+CREATE TABLE IF NOT EXISTS public.llm_usage (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER REFERENCES public.users(id),
+  feature TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  input_tokens INTEGER DEFAULT 0 NOT NULL,
+  output_tokens INTEGER DEFAULT 0 NOT NULL,
+  cost_usd DECIMAL(12, 6),
+  latency_ms INTEGER NOT NULL,
+  attempts INTEGER DEFAULT 1 NOT NULL,
+  success BOOLEAN NOT NULL,
+  error TEXT,
+  created_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS llm_usage_created_idx
+  ON public.llm_usage (created_at DESC);
+
+CREATE INDEX IF NOT EXISTS llm_usage_user_feature_idx
+  ON public.llm_usage (user_id, feature, created_at DESC);
@@ -0,0 +1,8 @@
+-- Migration: structured client intelligence analyses
+-- Keeps the latest raw and parsed model output per analysis kind, with the
+-- model and prompt version, so failed analyses can be told apart from low
+-- scores and debugged
+-- Safe to run multiple times with IF NOT EXISTS
+
+ALTER TABLE public.client_intel_profiles
+  ADD COLUMN IF NOT EXISTS ai_analyses JSONB DEFAULT '{}'::jsonb NOT NULL;
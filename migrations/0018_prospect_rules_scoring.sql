@@ -0,0 +1,27 @@
+-- Migration: rules-based prospect scoring
+-- Stores the latest rules score and its per-factor breakdown on client
+-- profiles, and seeds the admin-editable weights and tier cut-offs
+-- Safe to run multiple times with IF NOT EXISTS
+
+ALTER TABLE public.client_intel_profiles
+  ADD COLUMN IF NOT EXISTS rules_score INTEGER,
+  ADD COLUMN IF NOT EXISTS rules_score_breakdown JSONB,
+  ADD COLUMN IF NOT EXISTS rules_scored_at TIMESTAMP;
+
+-- Relative weight of each factor (normalised to 100) and minimum score per tier
+INSERT INTO public.pricing_service_settings
+  (service, setting_key, setting_value, setting_type, description)
+SELECT v.service, v.setting_key, v.setting_value, 'threshold', v.description
+FROM (VALUES
+  ('prospect_scoring', 'revenue_weight', 30, 'Prospect score weight for the monthly revenue band'),
+  ('prospect_scoring', 'industry_weight', 20, 'Prospect score weight for the industry pricing multiplier'),
+  ('prospect_scoring', 'employees_weight', 15, 'Prospect score weight for employee count'),
+  ('prospect_scoring', 'engagement_weight', 20, 'Prospect score weight for recent HubSpot activity'),
+  ('prospect_scoring', 'services_weight', 15, 'Prospect score weight for services already with Seed'),
+  ('prospect_scoring', 'tier_a_min', 70, 'Minimum rules score for an A-tier prospect'),
+  ('prospect_scoring', 'tier_b_min', 45, 'Minimum rules score for a B-tier prospect')
+) AS v(service, setting_key, setting_value, description)
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.pricing_service_settings s
+  WHERE s.service = v.service AND s.setting_key = v.setting_key
+);
@@ -0,0 +1,15 @@
+-- Migration: client document vault
+-- Records where each client document is stored (local disk or Box) and the
+-- state of its AI summary job
+-- Safe to run multiple times with IF NOT EXISTS
+
+ALTER TABLE public.client_documents
+  ADD COLUMN IF NOT EXISTS storage_provider TEXT,
+  ADD COLUMN IF NOT EXISTS storage_key TEXT,
+  ADD COLUMN IF NOT EXISTS content_type TEXT,
+  ADD COLUMN IF NOT EXISTS summary_status TEXT DEFAULT 'pending' NOT NULL,
+  ADD COLUMN IF NOT EXISTS summary_error TEXT,
+  ADD COLUMN IF NOT EXISTS summarized_at TIMESTAMP;
+
+CREATE INDEX IF NOT EXISTS client_documents_profile_idx
+  ON public.client_documents (client_profile_id, created_at DESC);
@@ -0,0 +1,6 @@
+-- Migration: server-priced quote breakdown
+-- Stores the full calculator result the server priced each quote with
+-- Safe to run multiple times with IF NOT EXISTS
+
+ALTER TABLE public.quotes
+  ADD COLUMN IF NOT EXISTS pricing_breakdown_json TEXT;
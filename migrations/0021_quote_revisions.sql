@@ -0,0 +1,20 @@
+-- Migration: quote revisions
+-- Immutable copy of a quote (inputs, pricing breakdown, editor, HubSpot quote)
+-- written on every save
+-- Safe to run multiple times with IF NOT EXISTS
+
+CREATE TABLE IF NOT EXISTS public.quote_revisions (
+  id SERIAL PRIMARY KEY,
+  quote_id INTEGER NOT NULL REFERENCES public.quotes(id),
+  revision INTEGER NOT NULL,
+  snapshot_json TEXT NOT NULL,
+  pricing_breakdown_json TEXT,
+  monthly_fee DECIMAL(10, 2) NOT NULL,
+  setup_fee DECIMAL(10, 2) NOT NULL,
+  hubspot_quote_id TEXT,
+  edited_by INTEGER REFERENCES public.users(id),
+  created_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS quote_revisions_quote_revision_idx
+  ON public.quote_revisions (quote_id, revision);
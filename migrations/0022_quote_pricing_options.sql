@@ -0,0 +1,20 @@
+-- Migration: quote pricing options
+-- Named alternatives ("good / better / best") presented with a quote; each
+-- keeps only the inputs that differ from the quote
+-- Safe to run multiple times with IF NOT EXISTS
+
+CREATE TABLE IF NOT EXISTS public.quote_pricing_options (
+  id SERIAL PRIMARY KEY,
+  quote_id INTEGER NOT NULL REFERENCES public.quotes(id),
+  name TEXT NOT NULL,
+  position INTEGER DEFAULT 0 NOT NULL,
+  overrides_json TEXT NOT NULL,
+  selected_at TIMESTAMP,
+  selected_by INTEGER REFERENCES public.users(id),
+  created_by INTEGER REFERENCES public.users(id),
+  created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS quote_pricing_options_quote_idx
+  ON public.quote_pricing_options (quote_id, position);
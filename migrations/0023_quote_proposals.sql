@@ -0,0 +1,34 @@
+-- Migration: client-facing quote proposals
+-- Quote status, expiring public proposal links, and a log of proposal views
+-- Safe to run multiple times with IF NOT EXISTS
+
+ALTER TABLE public.quotes
+  ADD COLUMN IF NOT EXISTS status TEXT DEFAULT 'draft' NOT NULL;
+
+CREATE TABLE IF NOT EXISTS public.quote_proposals (
+  id SERIAL PRIMARY KEY,
+  quote_id INTEGER NOT NULL REFERENCES public.quotes(id),
+  token TEXT NOT NULL UNIQUE,
+  expires_at TIMESTAMP NOT NULL,
+  revoked_at TIMESTAMP,
+  accepted_at TIMESTAMP,
+  accepted_name TEXT,
+  accepted_option_id INTEGER REFERENCES public.quote_pricing_options(id),
+  accepted_ip TEXT,
+  created_by INTEGER REFERENCES public.users(id),
+  created_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS quote_proposals_quote_idx
+  ON public.quote_proposals (quote_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS public.quote_proposal_views (
+  id SERIAL PRIMARY KEY,
+  proposal_id INTEGER NOT NULL REFERENCES public.quote_proposals(id),
+  ip_address TEXT,
+  user_agent TEXT,
+  viewed_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS quote_proposal_views_proposal_idx
+  ON public.quote_proposal_views (proposal_id, viewed_at DESC);
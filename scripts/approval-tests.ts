@@ -0,0 +1,320 @@
+/*
+  Discount approval tests (no test runner)
+  Run with: npm run test:approvals
+*/
+
+import { approvalUnusableReason } from "../shared/approvals.ts";
+import {
+  createTestUser,
+  startTestDatabase,
+  startTestServer,
+} from "./test-db.ts";
+
+function assert(cond: boolean, msg: string) {
+  if (!cond) throw new Error(msg);
+}
+
+async function run(name: string, fn: () => Promise<void> | void) {
+  try {
+    await fn();
+    console.log(`✅ ${name}`);
+  } catch (e) {
+    console.error(`❌ ${name} -> ${e instanceof Error ? e.message : e}`);
+    throw e;
+  }
+}
+
+async function main() {
+  await run(
+    "Approval requests only cover the save they were granted for",
+    () => {
+      const approved = {
+        type: "discount",
+        status: "approved",
+        requestedBy: 7,
+        contactEmail: "Owner@Client.com",
+        quoteId: 12,
+        expiresAt: "2026-03-16T00:00:00Z",
+        requestedOverrideJson: JSON.stringify({ maxDiscountPct: 25 }),
+      };
+      const asOf = new Date("2026-03-15T00:00:00Z");
+      const use = {
+        type: "discount" as const,
+        contactEmail: "owner@client.com",
+        quoteId: 12,
+        discountPct: 25,
+        actorId: 7,
+      };
+      assert(
+        approvalUnusableReason(approved, use, asOf) === null,
+        "approved request should cover a discount up to its percent",
+      );
+      assert(
+        approvalUnusableReason(approved, { ...use, discountPct: 30 }, asOf) !==
+          null,
+        "discount above the approved percent should need a new approval",
+      );
+      assert(
+        approvalUnusableReason(
+          approved,
+          { ...use, type: "duplicate_quote" },
+          asOf,
+        ) !== null,
+        "approval should not carry over to another override type",
+      );
+      assert(
+        approvalUnusableReason(
+          approved,
+          { ...use, contactEmail: "other@client.com" },
+          asOf,
+        ) !== null,
+        "approval should not carry over to another contact",
+      );
+      assert(
+        approvalUnusableReason(approved, { ...use, actorId: 8 }, asOf) !== null,
+        "approval should not carry over to another rep",
+      );
+      assert(
+        approvalUnusableReason(
+          { ...approved, status: "pending" },
+          use,
+          asOf,
+        ) !== null,
+        "pending request should not be usable",
+      );
+      assert(
+        approvalUnusableReason(approved, use, new Date("2026-03-17")) !== null,
+        "expired approval should be rejected",
+      );
+    },
+  );
+
+  // Request, decision and use routes against an in-memory Postgres
+  const stopDatabase = await startTestDatabase();
+  const { registerRoutes } = await import("../server/routes.ts");
+  const api = await startTestServer(async (app) => {
+    await registerRoutes(app);
+  });
+  const admin = await createTestUser("admin@seedfinancial.io", "admin");
+  const rep = await createTestUser("rep@seedfinancial.io");
+  const otherRep = await createTestUser("other@seedfinancial.io");
+  const discountRequest = {
+    type: "discount",
+    contactEmail: "owner@client.com",
+    reason: "Multi-entity client",
+    requestedOverride: { maxDiscountPct: 20 },
+  };
+
+  try {
+    await run("Only admins decide, and only once", async () => {
+      const created = await api.request(
+        rep,
+        "POST",
+        "/api/approval/request",
+        discountRequest,
+      );
+      assert(created.status === 200, `request got ${created.status}`);
+      const id = created.body.request.id;
+
+      const anonymous = await api.request(
+        null,
+        "GET",
+        `/api/approval/requests/${id}`,
+      );
+      assert(anonymous.status === 401, `anonymous got ${anonymous.status}`);
+      const someoneElse = await api.request(
+        otherRep,
+        "GET",
+        `/api/approval/requests/${id}`,
+      );
+      assert(
+        someoneElse.status === 404,
+        `another rep's request should be hidden, got ${someoneElse.status}`,
+      );
+
+      const byRep = await api.request(
+        rep,
+        "POST",
+        `/api/admin/approvals/${id}/decision`,
+        { decision: "approve" },
+      );
+      assert(byRep.status === 403, `rep decision got ${byRep.status}`);
+      const unknown = await api.request(
+        admin,
+        "POST",
+        "/api/admin/approvals/999999/decision",
+        { decision: "approve" },
+      );
+      assert(unknown.status === 404, `unknown request got ${unknown.status}`);
+
+      const ownRequest = await api.request(
+        admin,
+        "POST",
+        "/api/approval/request",
+        discountRequest,
+      );
+      const selfApproval = await api.request(
+        admin,
+        "POST",
+        `/api/admin/approvals/${ownRequest.body.request.id}/decision`,
+        { decision: "approve" },
+      );
+      assert(
+        selfApproval.status === 403,
+        `deciding your own request got ${selfApproval.status}`,
+      );
+
+      const approved = await api.request(
+        admin,
+        "POST",
+        `/api/admin/approvals/${id}/decision`,
+        { decision: "approve" },
+      );
+      assert(approved.status === 200, `approve got ${approved.status}`);
+      const again = await api.request(
+        admin,
+        "POST",
+        `/api/admin/approvals/${id}/decision`,
+        { decision: "reject" },
+      );
+      assert(again.status === 409, `second decision got ${again.status}`);
+      const cancel = await api.request(
+        rep,
+        "POST",
+        `/api/approval/requests/${id}/cancel`,
+      );
+      assert(
+        cancel.status === 409,
+        `cancel after approval got ${cancel.status}`,
+      );
+    });
+
+    await run(
+      "A quote save uses its approval only once every check has passed",
+      async () => {
+        const created = await api.request(
+          rep,
+          "POST",
+          "/api/approval/request",
+          discountRequest,
+        );
+        const id = created.body.request.id;
+        await api.request(
+          admin,
+          "POST",
+          `/api/admin/approvals/${id}/decision`,
+          {
+            decision: "approve",
+          },
+        );
+        const quoteInput = {
+          contactEmail: "owner@client.com",
+          companyName: "Client Co",
+          monthlyRevenueRange: "25K-75K",
+          monthlyTransactions: "100-300",
+          industry: "Professional Services",
+          cleanupMonths: 0,
+          serviceMonthlyBookkeeping: true,
+          includesBookkeeping: true,
+          lineItemDiscounts: [
+            {
+              service: "bookkeeping",
+              appliesTo: "monthly",
+              kind: "percent",
+              value: 20,
+              source: "manual",
+            },
+          ],
+          discountApprovalRequestId: id,
+        };
+        const status = async () =>
+          (await api.request(rep, "GET", `/api/approval/requests/${id}`)).body
+            .status;
+
+        // Refused for stale fees after the approval check passed
+        const stale = await api.request(rep, "POST", "/api/quotes", {
+          ...quoteInput,
+          monthlyFee: "1.00",
+        });
+        assert(stale.status === 409, `stale fees got ${stale.status}`);
+        assert(
+          (await status()) === "approved",
+          "a refused save should leave the approval usable",
+        );
+
+        const saved = await api.request(rep, "POST", "/api/quotes", quoteInput);
+        assert(saved.status === 200, `save got ${saved.status}`);
+        assert((await status()) === "used", "the save should use the approval");
+        const view = (
+          await api.request(rep, "GET", `/api/approval/requests/${id}`)
+        ).body;
+        assert(
+          view.quoteId === saved.body.id,
+          "the used approval should point at the saved quote",
+        );
+
+        const again = await api.request(rep, "POST", "/api/quotes", quoteInput);
+        assert(
+          again.status === 400 && again.body.requiresDiscountApproval,
+          `a second save with the same approval got ${again.status}`,
+        );
+      },
+    );
+
+    await run("Only the requesting rep can use an approval", async () => {
+      const created = await api.request(
+        rep,
+        "POST",
+        "/api/approval/request",
+        discountRequest,
+      );
+      const id = created.body.request.id;
+      await api.request(admin, "POST", `/api/admin/approvals/${id}/decision`, {
+        decision: "approve",
+      });
+
+      const byOtherRep = await api.request(otherRep, "POST", "/api/quotes", {
+        contactEmail: "owner@client.com",
+        companyName: "Client Co",
+        monthlyRevenueRange: "25K-75K",
+        monthlyTransactions: "100-300",
+        industry: "Professional Services",
+        cleanupMonths: 0,
+        serviceMonthlyBookkeeping: true,
+        includesBookkeeping: true,
+        lineItemDiscounts: [
+          {
+            service: "bookkeeping",
+            appliesTo: "monthly",
+            kind: "percent",
+            value: 20,
+            source: "manual",
+          },
+        ],
+        discountApprovalRequestId: id,
+      });
+      assert(
+        byOtherRep.status === 400 && byOtherRep.body.requiresDiscountApproval,
+        `another rep's save got ${byOtherRep.status}`,
+      );
+      const view = await api.request(
+        rep,
+        "GET",
+        `/api/approval/requests/${id}`,
+      );
+      assert(
+        view.body.status === "approved",
+        "the approval should stay usable by its requester",
+      );
+    });
+  } finally {
+    await api.close();
+    await stopDatabase();
+  }
+
+  console.log("\nAll Approval tests passed ✅");
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch(() => process.exit(1));
@@ -0,0 +1,236 @@
+/*
+  Seed Assistant retrieval and conversation tests (no test runner, no network)
+  Run with: npm run test:assistant
+*/
+
+import {
+  buildAssistantContext,
+  chunkAssistantText,
+  cosineSimilarity,
+  kbArticleAssistantUrl,
+  rankAssistantPassages,
+  type AssistantPassage,
+  type AssistantSource,
+} from "../shared/assistant-retrieval.ts";
+import {
+  assistantConversationTitle,
+  assistantHistoryPrompt,
+  assistantRetrievalQuery,
+  type AssistantHistoryMessage,
+} from "../shared/assistant-conversations.ts";
+import { LocalEmbeddingProvider } from "../server/embeddings.ts";
+
+function assert(cond: boolean, msg: string) {
+  if (!cond) throw new Error(msg);
+}
+
+async function run(name: string, fn: () => Promise<void> | void) {
+  try {
+    await fn();
+    console.log(`✅ ${name}`);
+  } catch (e: any) {
+    console.error(`❌ ${name} -> ${e?.message || e}`);
+    throw e;
+  }
+}
+
+const provider = new LocalEmbeddingProvider();
+
+const SOURCES: AssistantSource[] = [
+  {
+    sourceType: "kb_article",
+    sourceId: "1",
+    title: "Sales tax nexus",
+    url: kbArticleAssistantUrl("sales-tax-nexus"),
+    text: "Economic nexus for sales tax is triggered when a client's sales into a state pass the threshold.\nWe review nexus quarterly and register the client in each new state.",
+  },
+  {
+    sourceType: "kb_article",
+    sourceId: "2",
+    title: "Month-end close checklist",
+    url: kbArticleAssistantUrl("month-end-close-checklist"),
+    text: "Reconcile every bank and credit card account before closing the month.\nAccrue unpaid bills and review the payroll journal entries.",
+  },
+  {
+    sourceType: "box_file",
+    sourceId: "9001",
+    title: "Acme onboarding notes.docx",
+    url: "https://app.box.com/file/9001",
+    text: "Acme uses QuickBooks Online and Gusto payroll. Their fiscal year ends in June.",
+  },
+];
+
+async function indexSources(
+  sources: AssistantSource[],
+): Promise<AssistantPassage[]> {
+  const passages: AssistantPassage[] = [];
+  for (const source of sources) {
+    const chunks = chunkAssistantText(source.text);
+    const embeddings = await provider.embed(
+      chunks.map((chunk) => `${source.title}\n${chunk}`),
+    );
+    chunks.forEach((content, i) =>
+      passages.push({
+        ...source,
+        chunkIndex: i,
+        content,
+        embedding: embeddings[i]!,
+      }),
+    );
+  }
+  return passages;
+}
+
+async function main() {
+  await run("Chunks stay within the size limit and overlap", () => {
+    const paragraph = Array.from(
+      { length: 40 },
+      (_, i) => `Sentence number ${i} about reconciliations.`,
+    ).join(" ");
+    const chunks = chunkAssistantText(`${paragraph}\n\n${paragraph}`, 300, 60);
+    assert(chunks.length > 4, `expected several chunks, got ${chunks.length}`);
+    assert(
+      chunks.every((c) => c.length <= 300),
+      "a chunk exceeds the size limit",
+    );
+    const lastWords = chunks[0]!.split(" ").slice(-2).join(" ");
+    assert(
+      chunks[1]!.includes(lastWords),
+      "second chunk doesn't repeat the tail of the first",
+    );
+    assert(chunkAssistantText("   \n\n  ").length === 0, "blank text chunks");
+  });
+
+  await run("Local embeddings are deterministic and normalized", async () => {
+    const [a, b] = await provider.embed(["Sales tax nexus", "Sales tax nexus"]);
+    assert(
+      JSON.stringify(a) === JSON.stringify(b),
+      "same text, different vector",
+    );
+    const norm = Math.sqrt(a!.reduce((sum, v) => sum + v * v, 0));
+    assert(Math.abs(norm - 1) < 1e-9, `expected unit vector, norm ${norm}`);
+    const [unrelated] = await provider.embed(["payroll journal entries"]);
+    assert(
+      cosineSimilarity(a!, unrelated!) < cosineSimilarity(a!, b!),
+      "unrelated text scores as high as identical text",
+    );
+  });
+
+  await run("Retrieval ranks the relevant source first", async () => {
+    const passages = await indexSources(SOURCES);
+    const [query] = await provider.embed([
+      "When does a client have sales tax nexus in a new state?",
+    ]);
+    const ranked = rankAssistantPassages(query!, passages, { minScore: 0.05 });
+    assert(ranked.length > 0, "nothing retrieved");
+    assert(
+      ranked[0]!.sourceId === "1",
+      `expected the nexus article first, got ${ranked[0]!.title}`,
+    );
+    const { context, citations } = buildAssistantContext(ranked);
+    assert(citations[0]!.index === 1, "first citation should be [1]");
+    assert(
+      citations[0]!.url === "/knowledge-base?article=sales-tax-nexus",
+      `unexpected citation url ${citations[0]!.url}`,
+    );
+    assert(context.startsWith("[1] Sales tax nexus"), "context not numbered");
+  });
+
+  await run("Unrelated passages are filtered by minimum score", async () => {
+    const passages = await indexSources(SOURCES);
+    const [query] = await provider.embed(["zebra migration patterns"]);
+    const ranked = rankAssistantPassages(query!, passages, { minScore: 0.2 });
+    assert(ranked.length === 0, `expected no matches, got ${ranked.length}`);
+  });
+
+  await run("Passages per source are capped and share a citation", () => {
+    const passage = (sourceId: string, chunkIndex: number) => ({
+      sourceType: "box_file" as const,
+      sourceId,
+      title: `File ${sourceId}`,
+      url: `https://app.box.com/file/${sourceId}`,
+      chunkIndex,
+      content: `chunk ${chunkIndex}`,
+      embedding: [1, 0],
+    });
+    const passages = [
+      ...[0, 1, 2, 3, 4].map((i) => passage("A", i)),
+      passage("B", 0),
+    ];
+    const ranked = rankAssistantPassages([1, 0], passages, {
+      maxPerSource: 2,
+    });
+    assert(ranked.length === 3, `expected 3 passages, got ${ranked.length}`);
+    const { context, citations } = buildAssistantContext(ranked);
+    assert(citations.length === 2, "expected one citation per source");
+    assert(
+      (context.match(/\[1\] File A/g) ?? []).length === 2,
+      "passages from one source should share its number",
+    );
+  });
+
+  await run("Conversation history keeps the latest turns", () => {
+    const history: AssistantHistoryMessage[] = [
+      { role: "user", content: "What does cleanup cost?" },
+      { role: "assistant", content: "Cleanup is priced per month behind." },
+      { role: "user", content: "And catch-up?" },
+      { role: "assistant", content: "Catch-up uses the monthly rate." },
+    ];
+    const full = assistantHistoryPrompt(history);
+    assert(
+      full.startsWith("User: What does cleanup cost?") &&
+        full.endsWith("Assistant: Catch-up uses the monthly rate."),
+      "transcript out of order",
+    );
+    const recent = assistantHistoryPrompt(history, 2);
+    assert(
+      recent.startsWith("User: And catch-up?"),
+      "oldest turns should be dropped first",
+    );
+    const capped = assistantHistoryPrompt(history, 12, 50);
+    assert(
+      capped === "Assistant: Catch-up uses the monthly rate.",
+      `character cap kept the wrong turns: ${capped}`,
+    );
+    const long = assistantHistoryPrompt(
+      [{ role: "assistant", content: "x".repeat(500) }],
+      12,
+      100,
+    );
+    assert(long.length === 100, "an over-long latest turn should be truncated");
+  });
+
+  await run("Follow-ups retrieve with the previous question", () => {
+    const history: AssistantHistoryMessage[] = [
+      { role: "user", content: "Sales tax nexus rules" },
+      { role: "assistant", content: "Nexus is triggered by thresholds." },
+    ];
+    assert(
+      assistantRetrievalQuery(history, "What about Texas?") ===
+        "Sales tax nexus rules\nWhat about Texas?",
+      "previous question not included",
+    );
+    assert(
+      assistantRetrievalQuery([], "What about Texas?") === "What about Texas?",
+      "first question should be searched alone",
+    );
+  });
+
+  await run("Conversation titles come from the first question", () => {
+    assert(
+      assistantConversationTitle("  Pricing for S corps\nmore detail") ===
+        "Pricing for S corps",
+      "title should be the first line",
+    );
+    const long = assistantConversationTitle("word ".repeat(40));
+    assert(long.length <= 80 && long.endsWith("..."), "long title not cut");
+    assert(
+      assistantConversationTitle("   ") === "New conversation",
+      "blank question needs a fallback title",
+    );
+  });
+
+  console.log("\nAll assistant tests passed ✅");
+}
+
+main().catch(() => process.exit(1));
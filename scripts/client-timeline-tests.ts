@@ -0,0 +1,83 @@
+/*
+  Client timeline tests (no test runner)
+  Run with: npm run test:client-timeline
+*/
+
+import {
+  paginateClientTimeline,
+  parseClientActivitySources,
+  type ClientTimelineEvent,
+} from "../shared/client-activity.ts";
+
+function assert(cond: boolean, msg: string) {
+  if (!cond) throw new Error(msg);
+}
+
+async function run(name: string, fn: () => Promise<void> | void) {
+  try {
+    await fn();
+    console.log(`✅ ${name}`);
+  } catch (e) {
+    console.error(`❌ ${name} -> ${e instanceof Error ? e.message : e}`);
+    throw e;
+  }
+}
+
+async function main() {
+  await run("Client timeline filters, counts and pages", () => {
+    const event = (
+      id: string,
+      source: ClientTimelineEvent["source"],
+      occurredAt: string,
+    ): ClientTimelineEvent => ({
+      id,
+      source,
+      kind: "test",
+      title: id,
+      detail: null,
+      occurredAt,
+      actor: null,
+    });
+    const events = [
+      event("q1", "quote", "2026-03-01T10:00:00Z"),
+      event("h1", "hubspot", "2026-03-05T23:30:00Z"),
+      event("d1", "document", "2026-03-03T09:00:00Z"),
+      event("q2", "quote", "2026-02-20T12:00:00Z"),
+      event("a1", "approval", "2026-03-05T08:00:00Z"),
+    ];
+
+    const all = paginateClientTimeline(events);
+    assert(
+      all.events.map((e) => e.id).join() === "h1,a1,d1,q1,q2",
+      `order ${all.events.map((e) => e.id).join()}`,
+    );
+
+    // A bare "to" date covers the whole day; counts ignore the source filter
+    const march = paginateClientTimeline(events, {
+      from: "2026-03-01",
+      to: "2026-03-05",
+      sources: ["quote", "hubspot"],
+    });
+    assert(march.total === 2, `march total ${march.total}`);
+    assert(march.counts.quote === 1, `quote count ${march.counts.quote}`);
+    assert(march.counts.approval === 1, "approval still counted");
+    assert(march.counts.commission === 0, "empty sources report zero");
+
+    // Pages past the end clamp to the last page
+    const paged = paginateClientTimeline(events, { page: 9, pageSize: 2 });
+    assert(paged.page === 3 && paged.events.length === 1, `page ${paged.page}`);
+    assert(paged.events[0]?.id === "q2", "last page holds the oldest event");
+
+    assert(
+      parseClientActivitySources("quote, bogus,approval").join() ===
+        "quote,approval",
+      "unknown sources are dropped",
+    );
+  });
+
+  console.log("\nAll Client timeline tests passed ✅");
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch(() => process.exit(1));
@@ -0,0 +1,544 @@
+/*
+  Commission plan, payout and clawback tests (no test runner)
+  Run with: npm run test:commission
+*/
+
+import {
+  calculateCommissionFromInvoice,
+  calculateProjectedCommission,
+} from "../shared/commission-calculator.ts";
+import {
+  DEFAULT_COMMISSION_PLAN_RULES,
+  parseCommissionPlanRules,
+  resolveCommissionPlan,
+  type CommissionPlanRules,
+} from "../shared/commission-plans.ts";
+import {
+  buildPayoutStatement,
+  commissionPeriodFor,
+  isInCommissionPeriod,
+  payoutStatementCsv,
+  previousCommissionPeriod,
+} from "../shared/commission-payouts.ts";
+import { computeClawbacks } from "../shared/commission-clawbacks.ts";
+import {
+  classifyLineItem,
+  unclassifiedLineItemReport,
+} from "../shared/commission-classification.ts";
+import { commissions, salesReps } from "../shared/schema.ts";
+import {
+  createTestUser,
+  startTestDatabase,
+  startTestServer,
+} from "./test-db.ts";
+
+function assert(cond: boolean, msg: string) {
+  if (!cond) throw new Error(msg);
+}
+
+async function run(name: string, fn: () => Promise<void> | void) {
+  try {
+    await fn();
+    console.log(`✅ ${name}`);
+  } catch (e) {
+    console.error(`❌ ${name} -> ${e instanceof Error ? e.message : e}`);
+    throw e;
+  }
+}
+
+async function main() {
+  await run("Commission projection picks up MRR when discounts end", () => {
+    const flat = calculateProjectedCommission(0, 1000, "bookkeeping");
+    const discounted = calculateProjectedCommission(0, 900, "bookkeeping", [
+      { amount: 100, durationMonths: 6 },
+    ]);
+    // Months 2-6 at $900, months 7-12 at $1000
+    const expected = 900 * 0.4 + (5 * 900 + 6 * 1000) * 0.1;
+    assert(
+      Math.abs(discounted.total - expected) < 0.01,
+      `total expected ${expected}, got ${discounted.total}`,
+    );
+    assert(discounted.total < flat.total, "discount should cost commission");
+  });
+
+  await run("Commission plans apply from their effective date", () => {
+    const rules: CommissionPlanRules = {
+      ...DEFAULT_COMMISSION_PLAN_RULES,
+      rates: { setupRate: 0.1, firstMonthRate: 0.5, residualRate: 0.05 },
+      serviceRates: { payroll: { residualRate: 0.2 } },
+      residualThroughMonth: 6,
+    };
+    const plans = [
+      {
+        id: 1,
+        name: "Company 2026",
+        rulesJson: JSON.stringify(DEFAULT_COMMISSION_PLAN_RULES),
+        isDefault: true,
+        effectiveFrom: "2026-01-01",
+        effectiveTo: null,
+      },
+      {
+        id: 2,
+        name: "Accelerator",
+        rulesJson: JSON.stringify(rules),
+        isDefault: false,
+        effectiveFrom: "2026-01-01",
+        effectiveTo: null,
+      },
+    ];
+    const assignments = [
+      {
+        salesRepId: 7,
+        planId: 2,
+        effectiveFrom: "2026-06-01",
+        effectiveTo: null,
+      },
+    ];
+
+    const before = resolveCommissionPlan(
+      plans,
+      assignments,
+      7,
+      new Date("2026-05-15"),
+    );
+    assert(before.planId === 1, "pre-assignment earnings use the default");
+    const after = resolveCommissionPlan(
+      plans,
+      assignments,
+      7,
+      new Date("2026-06-15"),
+    );
+    assert(after.planId === 2, "assignment applies from its start date");
+    assert(
+      resolveCommissionPlan(plans, assignments, 7, new Date("2025-12-01"))
+        .planId === null,
+      "before any plan the built-in rules apply",
+    );
+
+    const custom = calculateProjectedCommission(
+      1000,
+      500,
+      "bookkeeping",
+      [],
+      "monthly",
+      after.rules,
+    );
+    assert(custom.firstMonth === 350, `firstMonth ${custom.firstMonth}`);
+    assert(custom.monthly === 25, `monthly ${custom.monthly}`);
+    // Residuals only run through month 6
+    assert(custom.total === 475, `total ${custom.total}`);
+    const payroll = calculateProjectedCommission(
+      0,
+      500,
+      "payroll",
+      [],
+      "monthly",
+      after.rules,
+    );
+    assert(payroll.monthly === 100, "service override residual rate");
+  });
+
+  await run("Payout statements cover the 14th–13th period", () => {
+    const period = commissionPeriodFor(new Date(2026, 0, 5));
+    assert(
+      period.periodStart === "2025-12-14" && period.periodEnd === "2026-01-13",
+      `period ${JSON.stringify(period)}`,
+    );
+    assert(
+      previousCommissionPeriod(period).periodStart === "2025-11-14",
+      "previous period",
+    );
+    assert(
+      isInCommissionPeriod(new Date(2026, 0, 13, 23), period) &&
+        !isInCommissionPeriod(new Date(2026, 0, 14), period),
+      "13th closes the period",
+    );
+
+    const statement = buildPayoutStatement(
+      { id: 3, name: "Rep Three" },
+      period,
+      [
+        {
+          id: 10,
+          type: "setup",
+          amount: 180,
+          serviceType: "bookkeeping",
+          dateEarned: "2026-01-02",
+          notes: null,
+          invoice: {
+            invoiceNumber: "INV-1",
+            companyName: "Acme",
+            totalAmount: 1000,
+            lineItems: [{ name: "Setup", totalPrice: 1000 }],
+          },
+          planRules: DEFAULT_COMMISSION_PLAN_RULES,
+        },
+        {
+          id: 11,
+          type: "monthly_bonus",
+          amount: 500,
+          serviceType: "bonus",
+          dateEarned: "2026-01-10",
+          notes: "Monthly bonus",
+          planRules: DEFAULT_COMMISSION_PLAN_RULES,
+        },
+      ],
+      [
+        {
+          id: 1,
+          commissionId: 10,
+          type: "direct",
+          status: "approved",
+          originalAmount: 200,
+          finalAmount: 180,
+          reason: "Partial refund",
+          reviewedDate: "2026-01-03",
+        },
+      ],
+      [
+        {
+          id: 2,
+          commissionId: 7,
+          type: "reversal",
+          status: "approved",
+          originalAmount: 100,
+          finalAmount: 60,
+          reason: "Client churned, refunded",
+          reviewedDate: "2026-01-04",
+        },
+      ],
+    );
+    assert(statement.commissions[0].rate === 0.2, "pre-adjustment rate");
+    assert(statement.commissions[0].adjustments.length === 1, "adjustment");
+    assert(statement.bonusTotal === 500, `bonus ${statement.bonusTotal}`);
+    assert(statement.reversalTotal === -40, "reversal is signed");
+    assert(statement.total === 640, `total ${statement.total}`);
+    const csv = payoutStatementCsv(statement);
+    assert(csv.includes('"Client churned, refunded"'), "CSV quotes commas");
+    assert(csv.includes("Total,,,,,,,,,640"), "CSV total row");
+  });
+
+  await run("Clawbacks follow the plan's cancellation window", () => {
+    const planRules = DEFAULT_COMMISSION_PLAN_RULES;
+    const commission = (id: number, type: string, dateEarned: string) => ({
+      id,
+      salesRepId: 3,
+      type,
+      amount: 200,
+      dateEarned,
+      hubspotInvoiceId: 11,
+      hubspotSubscriptionId: null,
+      planRules,
+    });
+    const commissions = [
+      commission(1, "setup", "2026-01-05"),
+      commission(2, "month_1", "2026-01-05"),
+      commission(3, "residual", "2026-02-05"),
+      commission(4, "residual", "2026-03-20"),
+    ];
+    const cancelled = (occurredAt: string) => ({
+      trigger: "subscription_cancelled" as const,
+      hubspotInvoiceId: null,
+      hubspotSubscriptionId: 5,
+      label: "Acme",
+      startedAt: "2026-01-05",
+      occurredAt,
+    });
+
+    const early = computeClawbacks(
+      cancelled("2026-03-01"),
+      commissions,
+      new Set(),
+    );
+    assert(
+      early.map((e) => e.clawbackOfCommissionId).join() === "1,2,4",
+      `early churn ${early.map((e) => e.clawbackOfCommissionId).join()}`,
+    );
+    assert(
+      early.every((e) => e.amount === -200),
+      "full clawback is negative",
+    );
+    assert(early[0]?.hubspotSubscriptionId === 5, "links the subscription");
+    assert(early[0]?.hubspotInvoiceId === 11, "keeps the source invoice");
+    assert(!!early[0]?.reason.includes("within 90 days"), "reason");
+
+    const late = computeClawbacks(
+      cancelled("2026-06-01"),
+      commissions,
+      new Set(),
+    );
+    assert(late.length === 0, "no clawback after the window");
+
+    const refund = computeClawbacks(
+      {
+        trigger: "invoice_cancelled",
+        hubspotInvoiceId: 11,
+        hubspotSubscriptionId: null,
+        label: "INV-11",
+        startedAt: "2026-01-05",
+        occurredAt: "2026-09-01",
+      },
+      commissions,
+      new Set([1]),
+    );
+    assert(refund.length === 3, "refund claws back the rest once");
+
+    const legacy = parseCommissionPlanRules(
+      JSON.stringify({ ...planRules, clawbackRules: undefined }),
+    );
+    assert(
+      legacy.clawbackRules.length === planRules.clawbackRules.length,
+      "older plans get the default clawback rules",
+    );
+  });
+
+  await run("Invoice commissions are classified by HubSpot product", () => {
+    const mappings = [
+      {
+        hubspotProductId: "900",
+        commissionType: "setup",
+        serviceType: "cleanup",
+      },
+      { hubspotProductId: "901", commissionType: "none", serviceType: null },
+    ];
+
+    const bookkeeping = classifyLineItem({ productId: "25687054003" });
+    assert(
+      bookkeeping.source === "registry" &&
+        bookkeeping.commissionType === "monthly" &&
+        bookkeeping.serviceType === "bookkeeping",
+      `registry ${JSON.stringify(bookkeeping)}`,
+    );
+    assert(
+      classifyLineItem({ productId: "900" }, mappings).commissionType ===
+        "setup",
+      "admin mapping",
+    );
+    assert(
+      classifyLineItem(
+        { productId: "901", recurringBillingFrequency: "monthly" },
+        mappings,
+      ).commissionType === "none",
+      "a mapping wins over the billing frequency",
+    );
+    assert(
+      classifyLineItem({
+        productId: "999",
+        recurringBillingFrequency: "monthly",
+      }).source === "billing_frequency",
+      "recurring lines fall back to monthly",
+    );
+
+    // Wording no longer matters: an unknown one-off line earns nothing
+    const reworded = calculateCommissionFromInvoice(
+      { productId: "999", quantity: 1, price: 5000 },
+      5000,
+    );
+    assert(reworded.amount === 0, `unclassified ${reworded.amount}`);
+    assert(reworded.classification.source === null, "reported unclassified");
+
+    const plan = DEFAULT_COMMISSION_PLAN_RULES;
+    const setup = calculateCommissionFromInvoice(
+      { productId: "900", quantity: 1, price: 1000 },
+      1000,
+      plan,
+      { productMappings: mappings },
+    );
+    assert(
+      setup.type === "setup" && setup.amount === 1000 * plan.rates.setupRate,
+      `setup ${setup.amount}`,
+    );
+    const monthly = { productId: "25687054003", quantity: 1, price: 1000 };
+    const residual = calculateCommissionFromInvoice(monthly, 1000);
+    const firstMonth = calculateCommissionFromInvoice(monthly, 1000, plan, {
+      firstPayment: true,
+    });
+    assert(
+      residual.amount === 1000 * plan.rates.residualRate &&
+        firstMonth.amount === 1000 * plan.rates.firstMonthRate,
+      `monthly ${residual.amount}/${firstMonth.amount}`,
+    );
+
+    const report = unclassifiedLineItemReport(
+      [
+        { productId: "999", name: "Legacy", amount: 100, invoice: "INV-1" },
+        { productId: "999", name: "Legacy", amount: 50, invoice: "INV-2" },
+        { productId: null, name: "Misc fee", amount: 500, invoice: "INV-1" },
+        { productId: "900", name: "Mapped", amount: 900, invoice: "INV-3" },
+      ],
+      mappings,
+    );
+    assert(report.length === 2, `report groups ${report.length}`);
+    assert(report[0]?.name === "Misc fee", "largest amount first");
+    assert(
+      report[1]?.lineCount === 2 && report[1]?.totalAmount === 150,
+      "lines grouped by product",
+    );
+  });
+
+  // Admin routes against an in-memory Postgres
+  const stopDatabase = await startTestDatabase();
+  const { db } = await import("../server/db.ts");
+  const { registerAdminRoutes } = await import("../server/admin-routes.ts");
+  const api = await startTestServer(registerAdminRoutes);
+  const admin = await createTestUser("admin@seedfinancial.io", "admin");
+  const rep = await createTestUser("rep@seedfinancial.io");
+  const [salesRep] = await db
+    .insert(salesReps)
+    .values({ userId: rep.id })
+    .returning();
+
+  try {
+    await run("Commission plan routes reject bad edits", async () => {
+      const forbidden = await api.request(
+        rep,
+        "GET",
+        "/api/admin/commission-plans",
+      );
+      assert(forbidden.status === 403, `non-admin got ${forbidden.status}`);
+
+      const invalid = await api.request(
+        admin,
+        "POST",
+        "/api/admin/commission-plans",
+        { name: "", rules: DEFAULT_COMMISSION_PLAN_RULES },
+      );
+      assert(invalid.status === 400, `blank name got ${invalid.status}`);
+
+      const created = await api.request(
+        admin,
+        "POST",
+        "/api/admin/commission-plans",
+        { name: "Standard 2026", rules: DEFAULT_COMMISSION_PLAN_RULES },
+      );
+      assert(created.status === 201, `create got ${created.status}`);
+      const duplicate = await api.request(
+        admin,
+        "POST",
+        "/api/admin/commission-plans",
+        { name: "standard 2026", rules: DEFAULT_COMMISSION_PLAN_RULES },
+      );
+      assert(duplicate.status === 409, `duplicate got ${duplicate.status}`);
+
+      const missing = await api.request(
+        admin,
+        "PUT",
+        "/api/admin/commission-plans/999999",
+        { description: "Nope" },
+      );
+      assert(missing.status === 404, `unknown plan got ${missing.status}`);
+
+      // Once a commission is earned the rules are frozen, the name isn't
+      await db.insert(commissions).values({
+        salesRepId: salesRep!.id,
+        type: "setup",
+        amount: "100.00",
+        monthNumber: 1,
+        commissionPlanId: created.body.id,
+        dateEarned: new Date(),
+      });
+      const rewrite = await api.request(
+        admin,
+        "PUT",
+        `/api/admin/commission-plans/${created.body.id}`,
+        {
+          rules: {
+            ...DEFAULT_COMMISSION_PLAN_RULES,
+            rates: { setupRate: 0.5, firstMonthRate: 0.4, residualRate: 0.1 },
+          },
+        },
+      );
+      assert(rewrite.status === 409, `rules edit got ${rewrite.status}`);
+      const renamed = await api.request(
+        admin,
+        "PUT",
+        `/api/admin/commission-plans/${created.body.id}`,
+        { description: "Renamed" },
+      );
+      assert(renamed.status === 200, `description edit got ${renamed.status}`);
+    });
+
+    await run("Payout runs lock a period once and pay once", async () => {
+      const forbidden = await api.request(
+        rep,
+        "POST",
+        "/api/admin/payout-runs",
+        { periodStart: "2025-01-14" },
+      );
+      assert(forbidden.status === 403, `non-admin got ${forbidden.status}`);
+      const badPeriod = await api.request(
+        admin,
+        "POST",
+        "/api/admin/payout-runs",
+        { periodStart: "2025-01-01" },
+      );
+      assert(
+        badPeriod.status === 400,
+        `off-cycle period got ${badPeriod.status}`,
+      );
+
+      await db.insert(commissions).values({
+        salesRepId: salesRep!.id,
+        type: "setup",
+        amount: "250.00",
+        monthNumber: 1,
+        dateEarned: new Date("2025-01-20T12:00:00Z"),
+      });
+      const locked = await api.request(
+        admin,
+        "POST",
+        "/api/admin/payout-runs",
+        { periodStart: "2025-01-14" },
+      );
+      assert(locked.status === 201, `lock got ${locked.status}`);
+      assert(
+        Number(locked.body.totalAmount) === 250,
+        `run total ${locked.body.totalAmount}`,
+      );
+      const relock = await api.request(
+        admin,
+        "POST",
+        "/api/admin/payout-runs",
+        { periodStart: "2025-01-14" },
+      );
+      assert(relock.status === 409, `second lock got ${relock.status}`);
+      // A locked commission doesn't carry over into the next run
+      const next = await api.request(admin, "POST", "/api/admin/payout-runs", {
+        periodStart: "2025-02-14",
+      });
+      assert(next.status === 201, `next period got ${next.status}`);
+      assert(
+        Number(next.body.totalAmount) === 0,
+        `next run paid ${next.body.totalAmount} again`,
+      );
+
+      const paid = await api.request(
+        admin,
+        "POST",
+        `/api/admin/payout-runs/${locked.body.id}/paid`,
+      );
+      assert(paid.status === 200, `mark paid got ${paid.status}`);
+      const repaid = await api.request(
+        admin,
+        "POST",
+        `/api/admin/payout-runs/${locked.body.id}/paid`,
+      );
+      assert(repaid.status === 409, `second mark paid got ${repaid.status}`);
+      const missing = await api.request(
+        admin,
+        "POST",
+        "/api/admin/payout-runs/999999/paid",
+      );
+      assert(missing.status === 404, `unknown run got ${missing.status}`);
+    });
+  } finally {
+    await api.close();
+    await stopDatabase();
+  }
+
+  console.log("\nAll Commission tests passed ✅");
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch(() => process.exit(1));
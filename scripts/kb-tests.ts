@@ -0,0 +1,528 @@
+/*
+  Knowledge base route tests (no test runner, no network)
+  Run with: npm run test:kb
+*/
+
+process.env.LLM_PROVIDER = "mock";
+process.env.ASSISTANT_EMBEDDINGS = "local";
+
+import {
+  MockLlmProvider,
+  setLlmProvider,
+} from "../server/services/llm/index.ts";
+import {
+  PERMISSIONS,
+  ROLE_PERMISSIONS,
+  USER_ROLES,
+} from "../shared/permissions.ts";
+import {
+  createTestUser,
+  startTestDatabase,
+  startTestServer,
+} from "./test-db.ts";
+
+function assert(cond: boolean, msg: string) {
+  if (!cond) throw new Error(msg);
+}
+
+async function run(name: string, fn: () => Promise<void> | void) {
+  try {
+    await fn();
+    console.log(`✅ ${name}`);
+  } catch (e) {
+    console.error(`❌ ${name} -> ${e instanceof Error ? e.message : e}`);
+    throw e;
+  }
+}
+
+// Every shipped role can edit the KB; stand in a read-only one by taking
+// editing away from employees for the duration of a check
+async function asReaders(fn: () => Promise<void>) {
+  const employee = ROLE_PERMISSIONS[USER_ROLES.EMPLOYEE];
+  const index = employee.indexOf(PERMISSIONS.EDIT_KNOWLEDGE_BASE);
+  employee.splice(index, 1);
+  try {
+    await fn();
+  } finally {
+    employee.splice(index, 0, PERMISSIONS.EDIT_KNOWLEDGE_BASE);
+  }
+}
+
+const mock = new MockLlmProvider();
+setLlmProvider(mock);
+
+async function main() {
+  const stopDatabase = await startTestDatabase();
+  const { registerKbRoutes } = await import("../server/kb-routes.ts");
+  const api = await startTestServer((app) => registerKbRoutes(app));
+  const admin = await createTestUser("admin@seedfinancial.io", "admin");
+  const employee = await createTestUser("employee@seedfinancial.io");
+
+  try {
+    const category = await api.request(admin, "POST", "/api/kb/categories", {
+      name: "Bookkeeping",
+    });
+    assert(category.status === 201, `category got ${category.status}`);
+    const categoryId: number = category.body.id;
+
+    await run("Drafts are only visible to editors", async () => {
+      const draft = await api.request(admin, "POST", "/api/kb/articles", {
+        title: "Month-end close checklist",
+        content: "<p>Reconcile every bank account.</p>",
+        categoryId,
+      });
+      assert(draft.status === 201, `draft got ${draft.status}`);
+      assert(draft.body.status === "draft", "new articles start as drafts");
+      const published = await api.request(admin, "POST", "/api/kb/articles", {
+        title: "Chart of accounts basics",
+        content: "<p>Keep the chart small.</p>",
+        categoryId,
+        status: "published",
+      });
+      assert(published.status === 201, `publish got ${published.status}`);
+
+      const asEditor = await api.request(
+        employee,
+        "GET",
+        `/api/kb/articles/${draft.body.slug}`,
+      );
+      assert(asEditor.status === 200, `editor got ${asEditor.status}`);
+      const editorList = await api.request(
+        employee,
+        "GET",
+        "/api/kb/articles?status=draft",
+      );
+      assert(
+        editorList.body.length === 1 && editorList.body[0].id === draft.body.id,
+        "editors should be able to list drafts",
+      );
+
+      await asReaders(async () => {
+        const byId = await api.request(
+          employee,
+          "GET",
+          `/api/kb/articles/${draft.body.id}`,
+        );
+        assert(byId.status === 404, `reader got draft ${byId.status}`);
+        const list = await api.request(
+          employee,
+          "GET",
+          "/api/kb/articles?status=draft",
+        );
+        assert(
+          list.body.length === 1 && list.body[0].id === published.body.id,
+          "readers should only see published articles",
+        );
+        const edit = await api.request(
+          employee,
+          "PATCH",
+          `/api/kb/articles/${draft.body.id}`,
+          { title: "Renamed" },
+        );
+        assert(edit.status === 403, `reader edit got ${edit.status}`);
+      });
+    });
+
+    await run("AI drafting endpoints validate and run offline", async () => {
+      const anonymous = await api.request(null, "GET", "/api/kb/ai/templates");
+      assert(anonymous.status === 401, `anonymous got ${anonymous.status}`);
+      const templates = await api.request(
+        employee,
+        "GET",
+        "/api/kb/ai/templates",
+      );
+      assert(
+        templates.status === 200 &&
+          templates.body.some((t: { id: string }) => t.id === "sop"),
+        "templates should include the SOP template",
+      );
+
+      const form = {
+        templateType: "sop",
+        title: "Month-end close",
+        categoryId,
+        audience: "internal",
+        tone: "professional",
+        length: "standard",
+        includeCompliance: true,
+        variables: { process_name: "Month-end close" },
+        templateVar_process_name: "Month-end close",
+      };
+      const unknownTemplate = await api.request(
+        employee,
+        "POST",
+        "/api/kb/ai/generate-outline",
+        { ...form, templateType: "memo" },
+      );
+      assert(
+        unknownTemplate.status === 400,
+        `unknown template got ${unknownTemplate.status}`,
+      );
+
+      mock.addFixture({
+        match: "Create a detailed outline",
+        text: "## Overview\n\n- Collect bank statements",
+      });
+      const outline = await api.request(
+        employee,
+        "POST",
+        "/api/kb/ai/generate-outline",
+        form,
+      );
+      assert(outline.status === 200, `outline got ${outline.status}`);
+      assert(
+        outline.body.step === "outline" &&
+          outline.body.content.includes("<h2>Overview</h2>"),
+        `unexpected outline ${JSON.stringify(outline.body)}`,
+      );
+      assert(
+        mock.calls[mock.calls.length - 1]!.prompt.includes(
+          "process_name: Month-end close",
+        ),
+        "template variables should reach the prompt",
+      );
+
+      const noDraft = await api.request(employee, "POST", "/api/kb/ai/polish", {
+        ...form,
+        draft: "",
+      });
+      assert(noDraft.status === 400, `empty draft got ${noDraft.status}`);
+
+      // Existing articles are re-versioned without a template
+      const versions = await api.request(
+        employee,
+        "POST",
+        "/api/kb/ai/generate-versions",
+        {
+          title: "Chart of accounts basics",
+          categoryId,
+          audience: "internal",
+          baseContent: "<p>Keep the chart small.</p>",
+        },
+      );
+      assert(versions.status === 200, `versions got ${versions.status}`);
+      assert(
+        versions.body.internal === "<p>Keep the chart small.</p>" &&
+          typeof versions.body.client === "string" &&
+          typeof versions.body.sales === "string",
+        "expected one version per audience",
+      );
+
+      mock.addFixture({
+        match: "generate metadata",
+        text: '```json\n{"excerpt": "Close the books.", "tags": ["close"]}\n```',
+      });
+      const metadata = await api.request(
+        employee,
+        "POST",
+        "/api/kb/ai/generate-metadata",
+        { title: "Month-end close", content: "<p>Close the books.</p>" },
+      );
+      assert(
+        metadata.status === 200 &&
+          metadata.body.excerpt === "Close the books." &&
+          metadata.body.tags[0] === "close",
+        `unexpected metadata ${JSON.stringify(metadata.body)}`,
+      );
+
+      const noImprovements = await api.request(
+        employee,
+        "POST",
+        "/api/kb/ai/redraft-with-improvements",
+        { ...form, currentContent: "<p>Draft</p>", selectedImprovements: [] },
+      );
+      assert(
+        noImprovements.status === 400,
+        `redraft without improvements got ${noImprovements.status}`,
+      );
+
+      await asReaders(async () => {
+        const analyze = await api.request(
+          employee,
+          "POST",
+          "/api/kb/ai/analyze",
+          { content: "<p>Draft</p>" },
+        );
+        assert(analyze.status === 403, `reader analyze got ${analyze.status}`);
+      });
+    });
+
+    await run(
+      "Search ranks title matches first, then falls back to trigrams",
+      async () => {
+        const create = async (body: Record<string, unknown>) => {
+          const created = await api.request(admin, "POST", "/api/kb/articles", {
+            categoryId,
+            status: "published",
+            ...body,
+          });
+          assert(created.status === 201, `create got ${created.status}`);
+          return created.body.id as number;
+        };
+        const inTitle = await create({
+          title: "Bank reconciliation guide",
+          content: "<p>Match statements line by line.</p>",
+        });
+        const inContent = await create({
+          title: "Closing the books",
+          content: "<p>Finish every bank reconciliation before close.</p>",
+        });
+        await create({
+          title: "Reconciliation exceptions",
+          content: "<p>Unmatched deposits.</p>",
+          status: "draft",
+        });
+        const quickBooks = await create({
+          title: "QuickBooks Online setup",
+          content: "<p>Connect the bank feeds.</p>",
+        });
+        // Popularity only breaks ties; it must not lift a weaker match
+        for (let i = 0; i < 3; i++) {
+          await api.request(
+            employee,
+            "POST",
+            `/api/kb/articles/${inContent}/view`,
+          );
+        }
+
+        const ranked = await api.request(
+          employee,
+          "GET",
+          "/api/kb/search?q=reconciliation",
+        );
+        assert(ranked.status === 200, `search got ${ranked.status}`);
+        assert(!ranked.body.fuzzy, "exact words should use full-text search");
+        assert(
+          JSON.stringify(
+            ranked.body.results.map((r: { id: number }) => r.id),
+          ) === JSON.stringify([inTitle, inContent]),
+          `expected title match first and no drafts, got ${JSON.stringify(ranked.body.results.map((r: { title: string }) => r.title))}`,
+        );
+        assert(
+          ranked.body.results[1].snippet.includes("\u0002reconciliation\u0003"),
+          `content match should be highlighted: ${ranked.body.results[1].snippet}`,
+        );
+
+        const typo = await api.request(
+          employee,
+          "GET",
+          "/api/kb/search?q=quikbooks",
+        );
+        assert(typo.body.fuzzy, "a misspelling should fall back to trigrams");
+        assert(
+          typo.body.results[0]?.id === quickBooks,
+          `expected the QuickBooks article, got ${JSON.stringify(typo.body.results)}`,
+        );
+
+        const miss = await api.request(
+          employee,
+          "GET",
+          "/api/kb/search?q=xylophone tuning",
+        );
+        assert(
+          miss.body.total === 0,
+          `expected no results, got ${miss.body.total}`,
+        );
+        const gapsForEditor = await api.request(
+          employee,
+          "GET",
+          "/api/kb/content-gaps",
+        );
+        assert(
+          gapsForEditor.status === 403,
+          `content gaps for an editor got ${gapsForEditor.status}`,
+        );
+        const gaps = await api.request(admin, "GET", "/api/kb/content-gaps");
+        assert(
+          gaps.body.length === 1 && gaps.body[0].query === "xylophone tuning",
+          `only the empty search is a gap, got ${JSON.stringify(gaps.body)}`,
+        );
+      },
+    );
+
+    await run(
+      "Every save records a version, and restores can be undone",
+      async () => {
+        const created = await api.request(admin, "POST", "/api/kb/articles", {
+          title: "Payroll setup",
+          content: "<p>Collect W-4s.</p>",
+          categoryId,
+        });
+        const id: number = created.body.id;
+        const edited = await api.request(
+          employee,
+          "PATCH",
+          `/api/kb/articles/${id}`,
+          { content: "<p>Collect W-4s and I-9s.</p>", changeNote: "Add I-9s" },
+        );
+        assert(edited.status === 200, `edit got ${edited.status}`);
+        // Metadata-only saves keep their note too
+        const retagged = await api.request(
+          employee,
+          "PATCH",
+          `/api/kb/articles/${id}`,
+          { tags: ["payroll"], changeNote: "Tag for payroll" },
+        );
+        assert(retagged.status === 200, `retag got ${retagged.status}`);
+
+        const history = await api.request(
+          employee,
+          "GET",
+          `/api/kb/articles/${id}/versions`,
+        );
+        assert(
+          JSON.stringify(
+            history.body.map((v: { version: number; changeNote: string }) => [
+              v.version,
+              v.changeNote,
+            ]),
+          ) ===
+            JSON.stringify([
+              [3, "Tag for payroll"],
+              [2, "Add I-9s"],
+              [1, "Created"],
+            ]),
+          `unexpected history ${JSON.stringify(history.body)}`,
+        );
+        const original = history.body[2];
+
+        const missing = await api.request(
+          employee,
+          "POST",
+          `/api/kb/articles/${id}/versions/999999/restore`,
+        );
+        assert(missing.status === 404, `unknown version got ${missing.status}`);
+        const restored = await api.request(
+          employee,
+          "POST",
+          `/api/kb/articles/${id}/versions/${original.id}/restore`,
+        );
+        assert(restored.status === 200, `restore got ${restored.status}`);
+        assert(
+          restored.body.content === "<p>Collect W-4s.</p>" &&
+            restored.body.tags[0] === "payroll",
+          "restore brings back the old content and keeps current metadata",
+        );
+        const afterRestore = await api.request(
+          employee,
+          "GET",
+          `/api/kb/articles/${id}/versions`,
+        );
+        assert(
+          afterRestore.body[0].version === 4 &&
+            afterRestore.body[0].changeNote === "Restored version 1",
+          "a restore is itself a version",
+        );
+        const undo = await api.request(
+          employee,
+          "POST",
+          `/api/kb/articles/${id}/versions/${afterRestore.body[2].id}/restore`,
+        );
+        assert(
+          undo.body.content === "<p>Collect W-4s and I-9s.</p>",
+          "restoring the edit should undo the restore",
+        );
+
+        // Review transitions don't add versions, so the last editor still
+        // can't approve their own change
+        await api.request(
+          employee,
+          "POST",
+          `/api/kb/articles/${id}/submit-review`,
+        );
+        const selfReview = await api.request(
+          employee,
+          "POST",
+          `/api/kb/articles/${id}/review`,
+          { decision: "approve" },
+        );
+        assert(
+          selfReview.status === 403,
+          `self review got ${selfReview.status}`,
+        );
+        const approved = await api.request(
+          admin,
+          "POST",
+          `/api/kb/articles/${id}/review`,
+          { decision: "approve" },
+        );
+        assert(
+          approved.status === 200 && approved.body.status === "published",
+          `approve got ${approved.status}`,
+        );
+        const final = await api.request(
+          employee,
+          "GET",
+          `/api/kb/articles/${id}/versions`,
+        );
+        assert(
+          final.body.length === 5,
+          `expected 5 versions, got ${final.body.length}`,
+        );
+
+        await asReaders(async () => {
+          const hidden = await api.request(
+            employee,
+            "GET",
+            `/api/kb/articles/${id}/versions`,
+          );
+          assert(hidden.status === 403, `reader history got ${hidden.status}`);
+        });
+      },
+    );
+
+    await run("Articles in review are only published by a review", async () => {
+      const created = await api.request(employee, "POST", "/api/kb/articles", {
+        title: "Month-end close",
+        content: "<p>Reconcile every account.</p>",
+        categoryId,
+      });
+      const id: number = created.body.id;
+      await api.request(
+        employee,
+        "POST",
+        `/api/kb/articles/${id}/submit-review`,
+      );
+
+      const selfPublish = await api.request(
+        employee,
+        "PATCH",
+        `/api/kb/articles/${id}`,
+        { status: "published" },
+      );
+      assert(
+        selfPublish.status === 409,
+        `publishing past review got ${selfPublish.status}`,
+      );
+      const edited = await api.request(
+        employee,
+        "PATCH",
+        `/api/kb/articles/${id}`,
+        { content: "<p>Reconcile every account monthly.</p>" },
+      );
+      assert(
+        edited.status === 200 && edited.body.status === "in_review",
+        `edit in review got ${edited.status}`,
+      );
+      const approved = await api.request(
+        admin,
+        "POST",
+        `/api/kb/articles/${id}/review`,
+        { decision: "approve" },
+      );
+      assert(
+        approved.body.status === "published",
+        "review should publish the article",
+      );
+    });
+  } finally {
+    await api.close();
+    await stopDatabase();
+  }
+
+  console.log("\nAll KB tests passed ✅");
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch(() => process.exit(1));
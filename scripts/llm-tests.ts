@@ -0,0 +1,310 @@
+/*
+  LLM provider layer tests (no test runner, no network)
+  Run with: npm run test:llm
+*/
+
+process.env.LLM_PROVIDER = "mock";
+
+import {
+  completeLlm,
+  LLM_RETRY_POLICY,
+  llmCostUsd,
+  MockLlmProvider,
+  parseLlmRoutes,
+  resolveLlmRoute,
+  setLlmProvider,
+  setLlmUsageRecorder,
+  streamLlm,
+  type LlmUsageRecord,
+} from "../server/services/llm/index.ts";
+import { clientIntelEngine } from "../server/client-intel.ts";
+import {
+  CLIENT_INTEL_PROMPT_VERSIONS,
+  hasFailedAnalysis,
+} from "../shared/client-intel.ts";
+import { anthropicService } from "../server/services/anthropic.ts";
+import { summarizeDocumentText } from "../server/client-documents.ts";
+
+function assert(cond: boolean, msg: string) {
+  if (!cond) throw new Error(msg);
+}
+
+async function run(name: string, fn: () => Promise<void> | void) {
+  try {
+    await fn();
+    console.log(`✅ ${name}`);
+  } catch (e: any) {
+    console.error(`❌ ${name} -> ${e?.message || e}`);
+    throw e;
+  }
+}
+
+function apiError(status: number, message: string): Error {
+  return Object.assign(new Error(message), { status });
+}
+
+const mock = new MockLlmProvider();
+setLlmProvider(mock);
+LLM_RETRY_POLICY.baseDelayMs = 1;
+
+let records: LlmUsageRecord[] = [];
+setLlmUsageRecorder(async (record) => {
+  records.push(record);
+});
+
+// Usage is recorded without awaiting; let it land before asserting
+const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+async function main() {
+  await run("Features route to their default provider and model", () => {
+    delete process.env.LLM_PROVIDER;
+    try {
+      const drafting = resolveLlmRoute("article_drafting");
+      assert(drafting.provider === "anthropic", "drafting should use Claude");
+      const sell = resolveLlmRoute("assistant_sell");
+      assert(
+        sell.provider === "openai" && sell.model === "gpt-4o-mini",
+        `unexpected sell route ${JSON.stringify(sell)}`,
+      );
+      process.env.LLM_ROUTES =
+        "client_intel=anthropic:claude-sonnet-4-20250514";
+      const intel = resolveLlmRoute("client_intel");
+      assert(
+        intel.provider === "anthropic" &&
+          intel.model === "claude-sonnet-4-20250514",
+        "LLM_ROUTES override not applied",
+      );
+    } finally {
+      delete process.env.LLM_ROUTES;
+      process.env.LLM_PROVIDER = "mock";
+    }
+    assert(
+      resolveLlmRoute("client_intel").provider === "mock",
+      "LLM_PROVIDER=mock should route everything to the mock",
+    );
+  });
+
+  await run("Invalid LLM_ROUTES entries are ignored", () => {
+    const routes = parseLlmRoutes(
+      "nope=openai:gpt-4o, general=bogus:x, assistant_support=openai:gpt-4o-mini, general=openai:",
+    );
+    assert(
+      JSON.stringify(routes) ===
+        JSON.stringify({
+          assistant_support: { provider: "openai", model: "gpt-4o-mini" },
+        }),
+      `unexpected routes ${JSON.stringify(routes)}`,
+    );
+  });
+
+  await run("Cost uses per-million-token pricing", () => {
+    const cost = llmCostUsd("openai", "gpt-4o", {
+      inputTokens: 1_000_000,
+      outputTokens: 100_000,
+    });
+    assert(cost === 3.5, `expected $3.50, got ${cost}`);
+    assert(
+      llmCostUsd("openai", "unpriced-model", {
+        inputTokens: 10,
+        outputTokens: 10,
+      }) === null,
+      "unpriced models should have no cost",
+    );
+    assert(
+      llmCostUsd("mock", "gpt-4o", { inputTokens: 10, outputTokens: 10 }) === 0,
+      "mock calls are free",
+    );
+  });
+
+  await run("Transient errors are retried and recorded once", async () => {
+    records = [];
+    mock.queueError(apiError(429, "rate limited"));
+    mock.queueError(apiError(503, "overloaded"));
+    const completion = await completeLlm({
+      feature: "general",
+      prompt: "Say hello",
+      userId: 7,
+    });
+    await settle();
+    assert(completion.text.includes("Say hello"), "mock should echo prompt");
+    assert(records.length === 1, `expected 1 record, got ${records.length}`);
+    const [record] = records;
+    assert(
+      record!.success && record!.attempts === 3 && record!.userId === 7,
+      `unexpected record ${JSON.stringify(record)}`,
+    );
+    assert(record!.feature === "general", "feature not recorded");
+  });
+
+  await run("Client errors fail without retrying", async () => {
+    records = [];
+    const before = mock.calls.length;
+    mock.queueError(apiError(400, "bad request"));
+    let failed = false;
+    try {
+      await completeLlm({ feature: "client_intel", prompt: "x" });
+    } catch (e: any) {
+      failed = e.message.includes("bad request");
+    }
+    await settle();
+    assert(failed, "expected the 400 to surface");
+    assert(mock.calls.length - before === 1, "a 400 should not be retried");
+    assert(
+      records.length === 1 && !records[0]!.success,
+      "failure should be recorded",
+    );
+  });
+
+  await run("Streams deliver deltas and the full text", async () => {
+    records = [];
+    mock.addFixture({ match: "stream me", text: "one two three" });
+    const deltas: string[] = [];
+    const completion = await streamLlm(
+      { feature: "assistant_support", prompt: "please stream me" },
+      (delta) => deltas.push(delta),
+    );
+    await settle();
+    assert(deltas.length === 3, `expected 3 deltas, got ${deltas.length}`);
+    assert(deltas.join("") === "one two three", "deltas don't add up");
+    assert(completion.text === "one two three", "completion text mismatch");
+    assert(records[0]!.outputTokens > 0, "stream usage not recorded");
+  });
+
+  await run("Client intel runs offline against fixtures", async () => {
+    mock.addFixture({
+      match: "lead score",
+      text: '{"score": 8, "tier": "A", "reasoning": "Growing SaaS"}',
+    });
+    const result = await clientIntelEngine.scoreProspect({
+      email: "owner@acme.test",
+      companyName: "Acme",
+      industry: "COMPUTER_SOFTWARE",
+      hubspotProperties: {},
+      dealHistory: [],
+      recentActivities: [],
+    });
+    assert(
+      result.status === "ok" &&
+        result.data.score === 8 &&
+        result.data.tier === "A",
+      `unexpected score ${JSON.stringify(result)}`,
+    );
+    assert(
+      result.promptVersion === CLIENT_INTEL_PROMPT_VERSIONS.prospectScore &&
+        result.model === "gpt-4o" &&
+        result.raw!.includes('"tier": "A"'),
+      "result should carry prompt version, model and raw output",
+    );
+  });
+
+  await run("Schema violations get one repair attempt", async () => {
+    mock.addFixture({
+      match: /client risk score[\s\S]*did not match the required format/,
+      text: '{"riskScore": 35, "riskFactors": ["Low engagement"]}',
+    });
+    mock.addFixture({ match: "client risk score", text: '{"riskScore": 150}' });
+    const before = mock.calls.length;
+    const result = await clientIntelEngine.calculateRiskScore({
+      companyName: "Acme",
+      services: [],
+    });
+    assert(mock.calls.length - before === 2, "expected one repair call");
+    assert(
+      mock.calls[mock.calls.length - 1]!.prompt.includes("riskScore"),
+      "repair prompt should name the failing field",
+    );
+    assert(
+      result.status === "ok" && result.data.riskScore === 35,
+      `unexpected risk ${JSON.stringify(result)}`,
+    );
+  });
+
+  await run(
+    "Unrepairable output is a failure, not an empty result",
+    async () => {
+      const result = await clientIntelEngine.extractPainPoints({
+        companyName: "Acme",
+      });
+      assert(result.status === "failed", "empty object should fail the schema");
+      assert(
+        result.status === "failed" && result.error.includes("painPoints"),
+        "error should describe the schema violation",
+      );
+      assert(result.raw === "{}", "raw output should be kept");
+    },
+  );
+
+  await run("Insights report failed analyses separately", async () => {
+    const insights = await clientIntelEngine.generateInsights({
+      companyName: "Acme",
+      services: [],
+    });
+    assert(
+      insights.analysis.painPoints?.status === "failed" &&
+        insights.painPoints.length === 0,
+      "pain points should be marked failed",
+    );
+    assert(
+      insights.analysis.riskScore?.status === "ok" && insights.riskScore === 35,
+      "risk score should still come through",
+    );
+    assert(
+      insights.aiScore?.score === 8 &&
+        insights.analysis.prospectScore?.status === "ok",
+      "AI lead score should be part of insights",
+    );
+    assert(hasFailedAnalysis(insights), "insights should report the failure");
+    assert(
+      !hasFailedAnalysis({ analysis: { riskScore: { status: "ok" } } }),
+      "all-ok insights have no failure",
+    );
+  });
+
+  await run("KB article drafting runs offline", async () => {
+    mock.addFixture({
+      match: "Create a detailed outline",
+      text: "## Overview\n\n- Collect bank statements",
+    });
+    const outline = await anthropicService.generateArticleOutline({
+      templateType: "sop",
+      title: "Month-end close",
+      categoryId: 1,
+      audience: "internal",
+    });
+    assert(
+      outline.content.includes("<h2>Overview</h2>"),
+      `outline not formatted: ${outline.content}`,
+    );
+    const drafting = mock.calls[mock.calls.length - 1]!;
+    assert(
+      drafting.maxTokens === 4000 && !!drafting.system,
+      "drafting request lost its system prompt or token limit",
+    );
+  });
+
+  await run("Document summaries run offline", async () => {
+    mock.addFixture({
+      match: "Summarise this client document",
+      text: "\n- 2024 trial balance\n- Revenue $1.2M\n",
+    });
+    const longText = "Revenue,1200000\n".repeat(3000);
+    const summary = await summarizeDocumentText("trial-balance.csv", longText);
+    assert(
+      summary === "- 2024 trial balance\n- Revenue $1.2M",
+      `unexpected summary ${JSON.stringify(summary)}`,
+    );
+    const request = mock.calls[mock.calls.length - 1]!;
+    assert(
+      request.prompt.includes("Document: trial-balance.csv") &&
+        request.prompt.includes("Only the start of the document") &&
+        request.prompt.length < longText.length,
+      "long documents should be truncated and flagged",
+    );
+  });
+
+  console.log("\nAll LLM provider tests passed ✅");
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch(() => process.exit(1));
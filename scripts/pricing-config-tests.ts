@@ -9,6 +9,14 @@ import {
   type QuotePricingInput,
   type PricingConfig,
 } from "../shared/pricing.ts";
+import {
+  applyPricingConfigPatch,
+  diffPricingConfigs,
+  simulationPricingConfig,
+  toCalculatorPricingConfig,
+  type PricingConfig as DbPricingConfig,
+} from "../shared/pricing-config.ts";
+import { simulatePricingImpact } from "../shared/pricing-impact.ts";
 
 function assert(cond: boolean, msg: string) {
   if (!cond) throw new Error(msg);
@@ -120,6 +128,231 @@ function run(name: string, fn: () => void) {
       assert(result.bookkeeping.setupFee > 0, "setup fee should be > 0");
     });
 
+    run("Config multiplier tables override constants", () => {
+      const input: QuotePricingInput = {
+        ...base,
+        serviceTaasMonthly: false,
+        includesTaas: false,
+      };
+      const config: PricingConfig = {
+        multipliers: {
+          revenue: { "25K-75K": 2.0 },
+          transactionSurcharges: { "100-300": 150 },
+          industry: { "Professional Services": { monthly: 1.5, cleanup: 1.1 } },
+        },
+      };
+      const result = calculateQuotePricing(input, config);
+      // expected: (150 + 150) * 2.0 * 1.5 => 900
+      assert(
+        result.bookkeeping.monthlyFee === 900,
+        `BK monthly expected 900, got ${result.bookkeeping.monthlyFee}`,
+      );
+    });
+
+    run("Versioned DB config maps onto calculator config", () => {
+      const dbConfig: DbPricingConfig = {
+        baseFees: { bookkeeping: 200 },
+        revenueMultipliers: { "25K-75K": 2.2 },
+        transactionSurcharges: { "100-300": 100 },
+        industryMultipliers: {
+          "Professional Services": { monthly: 1.0, cleanup: 1.1 },
+        },
+        serviceSettings: { bookkeeping: { qbo_subscription_fee: 80 } },
+        pricingTiers: {},
+      };
+      const config = toCalculatorPricingConfig(dbConfig, "3");
+      assert(
+        config.version === "3",
+        `version expected 3, got ${config.version}`,
+      );
+      const result = calculateQuotePricing(
+        {
+          ...base,
+          serviceTaasMonthly: false,
+          includesTaas: false,
+          qboSubscription: true,
+        },
+        config,
+      );
+      assert(
+        result.bookkeeping.monthlyFee === 660,
+        `BK monthly expected 660, got ${result.bookkeeping.monthlyFee}`,
+      );
+      assert(result.qboFee === 80, `qboFee expected 80, got ${result.qboFee}`);
+    });
+
+    run("diffPricingConfigs reports changed, added and removed values", () => {
+      const before: DbPricingConfig = {
+        baseFees: { bookkeeping: 150, taas: 150 },
+        revenueMultipliers: {},
+        transactionSurcharges: { "<100": 0 },
+        industryMultipliers: {},
+        serviceSettings: {},
+        pricingTiers: {},
+      };
+      const after: DbPricingConfig = {
+        ...before,
+        baseFees: { bookkeeping: 175 },
+        transactionSurcharges: { "<100": 0, "100-300": 100 },
+      };
+      const changes = diffPricingConfigs(before, after);
+      const byPath = Object.fromEntries(changes.map((c) => [c.path, c]));
+      assert(changes.length === 3, `expected 3 changes, got ${changes.length}`);
+      assert(
+        byPath["baseFees.bookkeeping"]?.after === 175,
+        "bookkeeping base fee change missing",
+      );
+      assert(
+        byPath["baseFees.taas"]?.after === null,
+        "removed taas base fee missing",
+      );
+      assert(
+        byPath["transactionSurcharges.100-300"]?.before === null,
+        "added surcharge missing",
+      );
+    });
+
+    run("AP tier table overrides band base fee and multiplier", () => {
+      const input = {
+        ...base,
+        serviceMonthlyBookkeeping: false,
+        serviceTaasMonthly: false,
+        includesBookkeeping: false,
+        includesTaas: false,
+        serviceApArService: true,
+        apServiceTier: "advanced",
+        apVendorBillsBand: "26-100",
+      } as QuotePricingInput;
+      const defaults = calculateQuotePricing(input);
+      assert(
+        defaults.apFee === 750,
+        `AP default expected 750, got ${defaults.apFee}`,
+      );
+      const result = calculateQuotePricing(input, {
+        tiers: {
+          ap: { advanced: { "26-100": { baseFee: 400, multiplier: 2 } } },
+        },
+      });
+      assert(result.apFee === 800, `AP tier expected 800, got ${result.apFee}`);
+
+      // Live pricing ignores the tier tables; the simulator applies only the
+      // entries an edit touches
+      const dbConfig: DbPricingConfig = {
+        baseFees: {},
+        revenueMultipliers: {},
+        transactionSurcharges: {},
+        industryMultipliers: {},
+        serviceSettings: {},
+        pricingTiers: {
+          ap: {
+            advanced: { "26-100": { baseFee: 100, multiplier: 1 } },
+            lite: { "0-25": { baseFee: 10, multiplier: 1 } },
+          },
+        },
+      };
+      assert(
+        calculateQuotePricing(input, toCalculatorPricingConfig(dbConfig))
+          .apFee === 750,
+        "live config must not apply AP tier tables",
+      );
+      const patch = {
+        pricingTiers: { ap: { advanced: { "26-100": { baseFee: 400 } } } },
+      };
+      const simulated = simulationPricingConfig(
+        applyPricingConfigPatch(dbConfig, patch),
+        patch,
+      );
+      assert(
+        JSON.stringify(simulated.tiers?.ap) ===
+          JSON.stringify({
+            advanced: { "26-100": { baseFee: 400, multiplier: 1 } },
+          }),
+        `simulated tiers ${JSON.stringify(simulated.tiers)}`,
+      );
+      assert(
+        calculateQuotePricing(input, simulated).apFee === 400,
+        "simulation applies the edited tier",
+      );
+    });
+
+    run("applyPricingConfigPatch merges sparse changes", () => {
+      const dbConfig: DbPricingConfig = {
+        baseFees: { bookkeeping: 150, taas: 150 },
+        revenueMultipliers: { "25K-75K": 2.2 },
+        transactionSurcharges: {},
+        industryMultipliers: {
+          "Professional Services": { monthly: 1.0, cleanup: 1.1 },
+        },
+        serviceSettings: {},
+        pricingTiers: {},
+      };
+      const patched = applyPricingConfigPatch(dbConfig, {
+        industryMultipliers: { "Professional Services": { monthly: 1.2 } },
+      });
+      const ps = patched.industryMultipliers["Professional Services"];
+      assert(ps.monthly === 1.2, `monthly expected 1.2, got ${ps.monthly}`);
+      assert(ps.cleanup === 1.1, `cleanup expected 1.1, got ${ps.cleanup}`);
+      assert(
+        dbConfig.industryMultipliers["Professional Services"].monthly === 1.0,
+        "base config was mutated",
+      );
+    });
+
+    run("simulatePricingImpact reports deltas and threshold crossings", () => {
+      const quotes = [
+        {
+          ...base,
+          id: 1,
+          companyName: "Acme",
+          serviceTaasMonthly: false,
+          includesTaas: false,
+          lineItemDiscountsJson: JSON.stringify([
+            {
+              service: "bookkeeping",
+              appliesTo: "monthly",
+              kind: "percent",
+              value: 20,
+              source: "manual",
+            },
+          ]),
+        },
+      ];
+      const current: PricingConfig = {
+        discounts: { approvalThresholdPct: 25 },
+      };
+      const proposed: PricingConfig = {
+        multipliers: { revenue: { "25K-75K": 4.0 } },
+        discounts: { approvalThresholdPct: 15 },
+      };
+      const report = simulatePricingImpact(quotes, current, proposed);
+      const impact = report.quotes[0];
+      assert(
+        report.changedCount === 1,
+        `changed expected 1, got ${report.changedCount}`,
+      );
+      assert(impact.delta.monthlyFee > 0, "monthly delta should be positive");
+      assert(
+        report.mrrByService.bookkeeping.delta === impact.delta.monthlyFee,
+        "bookkeeping MRR delta should account for the whole change",
+      );
+      assert(
+        report.approvalThresholdPct.current === 25 &&
+          report.approvalThresholdPct.proposed === 15,
+        "report should carry each config's approval threshold",
+      );
+      assert(
+        impact.crossings.length === 1 &&
+          impact.crossings[0].direction === "now_requires_approval" &&
+          impact.crossings[0].proposedDiscountPct === 20,
+        "a 20% discount should need approval under a 15% threshold",
+      );
+      const unchanged = simulatePricingImpact(quotes, proposed, proposed);
+      assert(
+        unchanged.quotes[0].crossings.length === 0,
+        "no crossing when the threshold and prices stay put",
+      );
+    });
+
     console.log("\nAll PricingConfig tests passed ✅");
     process.exit(0);
   } catch (e) {
@@ -0,0 +1,264 @@
+/*
+  Quote discount and contract term tests (no test runner)
+  Run with: npm run test:pricing:discounts
+*/
+
+import {
+  calculateQuotePricing,
+  type QuotePricingInput,
+} from "../shared/pricing.ts";
+import {
+  promoCodeDiscounts,
+  promoCodeUnavailableReason,
+} from "../shared/pricing-discounts.ts";
+import { calculateProjectedCommission } from "../shared/commission-calculator.ts";
+
+function assert(cond: boolean, msg: string) {
+  if (!cond) throw new Error(msg);
+}
+
+async function run(name: string, fn: () => Promise<void> | void) {
+  try {
+    await fn();
+    console.log(`✅ ${name}`);
+  } catch (e) {
+    console.error(`❌ ${name} -> ${e instanceof Error ? e.message : e}`);
+    throw e;
+  }
+}
+
+// Base input used across tests
+const base: QuotePricingInput = {
+  monthlyRevenueRange: "25K-75K",
+  monthlyTransactions: "100-300",
+  industry: "Professional Services",
+  // Bookkeeping
+  serviceMonthlyBookkeeping: true,
+  // TaaS
+  serviceTaasMonthly: true,
+  includesTaas: true,
+  numEntities: 1,
+  statesFiled: 1,
+  internationalFiling: false,
+  numBusinessOwners: 1,
+  include1040s: false,
+};
+
+async function main() {
+  await run(
+    "Line-item discounts reduce each line and the combined totals",
+    () => {
+      const list = calculateQuotePricing(base);
+      const result = calculateQuotePricing({
+        ...base,
+        lineItemDiscounts: [
+          {
+            service: "bookkeeping",
+            appliesTo: "monthly",
+            kind: "percent",
+            value: 10,
+            durationMonths: 6,
+            source: "manual",
+          },
+          {
+            service: "bookkeeping",
+            appliesTo: "setup",
+            kind: "override",
+            value: 0,
+            source: "manual",
+          },
+          {
+            service: "payroll",
+            appliesTo: "monthly",
+            kind: "fixed",
+            value: 50,
+            source: "manual",
+          },
+        ],
+      });
+      const bkOff = Math.round(list.bookkeeping.monthlyFee * 0.1 * 100) / 100;
+      assert(
+        result.bookkeeping.monthlyFee === list.bookkeeping.monthlyFee - bkOff,
+        `bookkeeping monthly expected ${list.bookkeeping.monthlyFee - bkOff}, got ${result.bookkeeping.monthlyFee}`,
+      );
+      assert(
+        result.bookkeeping.setupFee === 0,
+        "bookkeeping setup should be waived",
+      );
+      // Payroll is not on the quote, so its discount is skipped
+      assert(
+        result.lineItemDiscounts.length === 2,
+        `expected 2 applied discounts, got ${result.lineItemDiscounts.length}`,
+      );
+      assert(
+        result.combined.monthlyFee === list.combined.monthlyFee - bkOff,
+        "combined monthly should drop by the bookkeeping discount",
+      );
+      assert(
+        result.discountTotals.steadyStateMonthlyFee ===
+          list.combined.monthlyFee,
+        "steady state should return to list once the 6-month discount ends",
+      );
+      assert(
+        result.discountTotals.requiresApproval,
+        "a waived setup fee is above the approval threshold",
+      );
+    },
+  );
+
+  run("Approval threshold counts stacked manual discounts, not promos", () => {
+    const discounts = (source: "manual" | "promo") =>
+      [8, 8].map((value) => ({
+        service: "bookkeeping" as const,
+        appliesTo: "monthly" as const,
+        kind: "percent" as const,
+        value,
+        source,
+      }));
+    const manual = calculateQuotePricing({
+      ...base,
+      lineItemDiscounts: discounts("manual"),
+    });
+    assert(
+      manual.discountTotals.requiresApproval,
+      `stacked 8% + 8% should need approval (max ${manual.discountTotals.maxManualDiscountPct}%)`,
+    );
+    const promo = calculateQuotePricing({
+      ...base,
+      lineItemDiscounts: discounts("promo"),
+    });
+    assert(
+      !promo.discountTotals.requiresApproval,
+      "promo discounts should not need approval",
+    );
+    const raised = calculateQuotePricing(
+      { ...base, lineItemDiscounts: discounts("manual") },
+      { discounts: { approvalThresholdPct: 20 } },
+    );
+    assert(
+      !raised.discountTotals.requiresApproval,
+      "a 20% threshold should allow ~15.4% off",
+    );
+  });
+
+  await run("Promo codes expire, run out, and rebuild their own terms", () => {
+    const promo = {
+      code: "spring",
+      discountsJson: JSON.stringify([
+        { service: "qbo", appliesTo: "monthly", kind: "percent", value: 50 },
+        { service: "qbo", appliesTo: "setup", kind: "percent", value: 50 },
+      ]),
+      expiresAt: "2026-04-01T00:00:00Z",
+      maxUses: 2,
+      usesCount: 1,
+      isActive: true,
+    };
+    const asOf = new Date("2026-03-15T00:00:00Z");
+    assert(
+      promoCodeUnavailableReason(promo, asOf) === null,
+      "promo should be redeemable",
+    );
+    assert(
+      promoCodeUnavailableReason(promo, new Date("2026-04-02")) !== null,
+      "expired promo should be rejected",
+    );
+    assert(
+      promoCodeUnavailableReason({ ...promo, usesCount: 2 }, asOf) !== null,
+      "exhausted promo should be rejected",
+    );
+    const terms = promoCodeDiscounts(promo);
+    assert(
+      terms.length === 1 &&
+        terms[0].source === "promo" &&
+        terms[0].promoCode === "SPRING",
+      "invalid terms should be dropped and valid ones tagged with the code",
+    );
+  });
+
+  await run(
+    "Contract term discounts every monthly line, not setup fees",
+    () => {
+      const list = calculateQuotePricing(base);
+      const committed = calculateQuotePricing(
+        { ...base, contractTerm: "24_month" },
+        { discounts: { contractTermPct: { "24_month": 20 } } },
+      );
+      assert(
+        committed.bookkeeping.monthlyFee === list.bookkeeping.monthlyFee * 0.8,
+        `bookkeeping monthly expected ${list.bookkeeping.monthlyFee * 0.8}, got ${committed.bookkeeping.monthlyFee}`,
+      );
+      assert(
+        committed.combined.setupFee === list.combined.setupFee,
+        "setup fees should not get the term discount",
+      );
+      assert(
+        committed.contractTerm.discountMonthly ===
+          list.combined.monthlyFee - committed.combined.monthlyFee,
+        "term discount should account for the whole monthly change",
+      );
+      assert(
+        committed.contractTerm.commitmentMonths === 24 &&
+          committed.contractTerm.billingFrequency === "monthly" &&
+          committed.contractTerm.prepayAmount === 0,
+        "24-month term bills monthly with no prepayment",
+      );
+      const unknown = calculateQuotePricing({
+        ...base,
+        contractTerm: "weekly",
+      });
+      assert(
+        unknown.contractTerm.term === "monthly" &&
+          unknown.combined.monthlyFee === list.combined.monthlyFee,
+        "unknown terms should price as month-to-month",
+      );
+    },
+  );
+
+  await run("Annual prepay bills the first year up front", () => {
+    const result = calculateQuotePricing({
+      ...base,
+      contractTerm: "annual_prepay",
+      lineItemDiscounts: [
+        {
+          service: "bookkeeping",
+          appliesTo: "monthly",
+          kind: "fixed",
+          value: 100,
+          durationMonths: 3,
+          source: "manual",
+        },
+      ],
+    });
+    const { contractTerm } = result;
+    assert(
+      contractTerm.billingFrequency === "annually",
+      "prepay should bill annually",
+    );
+    // Default 10% off; the $100 discount ends after month 3
+    const expected = result.combined.monthlyFee * 12 + 100 * 0.9 * 9;
+    assert(
+      Math.abs(contractTerm.prepayAmount - expected) < 0.01,
+      `prepay expected ${expected}, got ${contractTerm.prepayAmount}`,
+    );
+    const monthly = calculateProjectedCommission(0, 1000, "bookkeeping");
+    const prepaid = calculateProjectedCommission(
+      0,
+      1000,
+      "bookkeeping",
+      [],
+      "annual_prepay",
+    );
+    assert(
+      prepaid.total === monthly.total &&
+        prepaid.firstMonth === monthly.total &&
+        prepaid.monthly === 0,
+      "prepay commission should be paid in full up front",
+    );
+  });
+
+  console.log("\nAll Discount tests passed ✅");
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch(() => process.exit(1));
@@ -0,0 +1,544 @@
+/*
+  Proposal and statement of work tests (no test runner)
+  Run with: npm run test:proposals
+*/
+
+import {
+  calculateQuotePricing,
+  type QuotePricingInput,
+} from "../shared/pricing.ts";
+import {
+  buildProposalDocument,
+  proposalLinkStatus,
+} from "../shared/proposals.ts";
+import {
+  SOW_SAMPLE_QUOTE,
+  SOW_TOKENS,
+  includedFieldsList,
+  renderQuoteSows,
+  renderSowTemplate,
+  sampleSowTokens,
+  unknownSowTokens,
+} from "../shared/sow-template.ts";
+import {
+  createTestUser,
+  startTestDatabase,
+  startTestServer,
+} from "./test-db.ts";
+
+function assert(cond: boolean, msg: string) {
+  if (!cond) throw new Error(msg);
+}
+
+async function run(name: string, fn: () => Promise<void> | void) {
+  try {
+    await fn();
+    console.log(`✅ ${name}`);
+  } catch (e) {
+    console.error(`❌ ${name} -> ${e instanceof Error ? e.message : e}`);
+    throw e;
+  }
+}
+
+// Base input used across tests
+const base: QuotePricingInput = {
+  monthlyRevenueRange: "25K-75K",
+  monthlyTransactions: "100-300",
+  industry: "Professional Services",
+  // Bookkeeping
+  serviceMonthlyBookkeeping: true,
+  // TaaS
+  serviceTaasMonthly: true,
+  includesTaas: true,
+  numEntities: 1,
+  statesFiled: 1,
+  internationalFiling: false,
+  numBusinessOwners: 1,
+  include1040s: false,
+};
+
+async function main() {
+  await run("Proposals fill SOW tokens and track link status", () => {
+    assert(
+      renderSowTemplate("{{companyName}} / {{ ap.serviceTier }} / {{nope}}", {
+        companyName: "Acme",
+        ap: { serviceTier: "advanced" },
+      }) === "Acme / advanced / ",
+      "tokens filled, unknown tokens blank",
+    );
+
+    const pricing = calculateQuotePricing(base);
+    const document = buildProposalDocument({
+      quote: {
+        ...base,
+        id: 7,
+        companyName: "Acme Co",
+        contactEmail: "cfo@acme.test",
+        contactFirstName: "Ada",
+        cleanupMonths: 3,
+      },
+      pricing,
+      options: [],
+      sowContent: [
+        {
+          service: "bookkeeping",
+          sowTitle: "Bookkeeping SOW",
+          sowTemplate: "Client: {{companyName}}\nMonthly Fee: ${{monthlyFee}}",
+          agreementLink: null,
+        },
+        {
+          service: "payroll",
+          sowTitle: "Payroll SOW",
+          sowTemplate: "Employees: {{payrollEmployeeCount}}",
+          agreementLink: null,
+        },
+      ],
+      preparedBy: "Rep",
+      msaLink: "https://example.test/msa",
+      validUntil: new Date("2026-01-31T00:00:00Z"),
+    });
+    assert(
+      document.services.map((s) => s.key).join() ===
+        "serviceMonthlyBookkeeping,serviceTaasMonthly",
+      `services ${document.services.map((s) => s.key).join()}`,
+    );
+    assert(
+      document.sow.length === 1 &&
+        document.sow[0]!.body.startsWith("Client: Acme Co\nMonthly Fee: $"),
+      "SOW only for quoted services, tokens filled",
+    );
+    assert(
+      document.pricing.monthlyFee === pricing.combined.monthlyFee &&
+        document.pricing.lines.some((l) => l.label === "TaaS monthly"),
+      "pricing from the fee result",
+    );
+    assert(
+      document.contactName === "Ada" && document.options === null,
+      "contact and no options",
+    );
+    assert(
+      document.terms.some((t) => t.includes("2026-01-31")),
+      "validity in terms",
+    );
+
+    const now = new Date("2026-01-15T00:00:00Z");
+    const link = {
+      expiresAt: "2026-01-31T00:00:00Z",
+      revokedAt: null,
+      acceptedAt: null,
+    };
+    assert(proposalLinkStatus(link, now) === "active", "active");
+    assert(
+      proposalLinkStatus(
+        { ...link, expiresAt: "2026-01-01T00:00:00Z" },
+        now,
+      ) === "expired",
+      "expired",
+    );
+    assert(
+      proposalLinkStatus(
+        { ...link, revokedAt: "2026-01-10T00:00:00Z" },
+        now,
+      ) === "revoked",
+      "revoked",
+    );
+    assert(
+      proposalLinkStatus(
+        {
+          ...link,
+          expiresAt: "2026-01-01T00:00:00Z",
+          acceptedAt: "2025-12-20T00:00:00Z",
+        },
+        now,
+      ) === "accepted",
+      "accepted links stay readable after expiry",
+    );
+  });
+
+  await run("SOW templates only use documented tokens", () => {
+    assert(
+      unknownSowTokens(
+        "{{companyName}} {{ fees.payroll }} {{nope}} {{ap.bogus}} {{nope}}",
+      ).join() === "nope,ap.bogus",
+      "unknown tokens listed once, in order",
+    );
+
+    const tokens = sampleSowTokens();
+    const blank = SOW_TOKENS.filter(
+      (t) =>
+        t.token !== "includedFields" &&
+        renderSowTemplate(`{{${t.token}}}`, tokens) === "",
+    ).map((t) => t.token);
+    assert(blank.length === 0, `sample quote leaves ${blank.join()} blank`);
+    assert(
+      tokens.clientAddress === "100 Market St, San Francisco, CA 94105, US",
+      `address ${String(tokens.clientAddress)}`,
+    );
+
+    assert(
+      includedFieldsList(
+        "bookkeeping",
+        {
+          bookkeeping: { includeIndustry: true, includeCleanupMonths: false },
+        },
+        tokens,
+      ) === "- Industry: Software/SaaS",
+      "only ticked fields listed",
+    );
+
+    const pricing = calculateQuotePricing(SOW_SAMPLE_QUOTE);
+    const sows = renderQuoteSows(SOW_SAMPLE_QUOTE, pricing, [
+      {
+        service: "payroll",
+        sowTitle: "Payroll SOW",
+        sowTemplate:
+          "# Payroll SOW\nFee: ${{fees.payroll}}\n{{includedFields}}",
+        agreementLink: null,
+        includedFields: {
+          payroll: { includeEmployeeCount: true, includeStateCount: false },
+        },
+      },
+      {
+        service: "taas",
+        sowTitle: "TaaS SOW",
+        sowTemplate: "   ",
+        agreementLink: null,
+      },
+    ]);
+    assert(
+      sows.length === 1 && sows[0]!.service === "payroll",
+      "SOWs only for services with a template",
+    );
+    assert(
+      sows[0]!.body ===
+        `# Payroll SOW\nFee: $${renderSowTemplate("{{fees.payroll}}", tokens)}\n- Employees: 12`,
+      `payroll SOW ${sows[0]!.body}`,
+    );
+  });
+
+  // Proposal link routes against an in-memory Postgres
+  const stopDatabase = await startTestDatabase();
+  const { registerRoutes } = await import("../server/routes.ts");
+  const { db } = await import("../server/db.ts");
+  const { storage } = await import("../server/storage.ts");
+  const { quoteProposals } = await import("../shared/schema.ts");
+  const { eq } = await import("drizzle-orm");
+  const { StorageConflictError } = await import("../server/db-utils.ts");
+  const api = await startTestServer(async (app) => {
+    await registerRoutes(app);
+  });
+  const admin = await createTestUser("admin@seedfinancial.io", "admin");
+  const rep = await createTestUser("rep@seedfinancial.io");
+
+  try {
+    await run(
+      "Proposal links can't be opened once expired or revoked",
+      async () => {
+        const quote = await api.request(rep, "POST", "/api/quotes", {
+          contactEmail: "owner@client.com",
+          companyName: "Client Co",
+          monthlyRevenueRange: "25K-75K",
+          monthlyTransactions: "100-300",
+          industry: "Professional Services",
+          cleanupMonths: 0,
+          serviceMonthlyBookkeeping: true,
+          includesBookkeeping: true,
+        });
+        assert(quote.status === 200, `quote got ${quote.status}`);
+        const quoteId: number = quote.body.id;
+        const newLink = async () => {
+          const created = await api.request(
+            rep,
+            "POST",
+            `/api/quotes/${quoteId}/proposals`,
+            { expiresInDays: 7 },
+          );
+          assert(created.status === 201, `link got ${created.status}`);
+          const link = created.body[0] as { id: number; path: string };
+          return { id: link.id, url: `/api/public${link.path}` };
+        };
+
+        const anonymous = await api.request(
+          null,
+          "POST",
+          `/api/quotes/${quoteId}/proposals`,
+          {},
+        );
+        assert(anonymous.status === 401, `anonymous got ${anonymous.status}`);
+        const unknownQuote = await api.request(
+          rep,
+          "POST",
+          "/api/quotes/999999/proposals",
+          {},
+        );
+        assert(
+          unknownQuote.status === 404,
+          `unknown quote got ${unknownQuote.status}`,
+        );
+        const unknownToken = await api.request(
+          null,
+          "GET",
+          "/api/public/proposals/not-a-token",
+        );
+        assert(
+          unknownToken.status === 404,
+          `unknown token got ${unknownToken.status}`,
+        );
+
+        const accepted = await newLink();
+        const opened = await api.request(null, "GET", accepted.url);
+        assert(opened.status === 200, `open got ${opened.status}`);
+        assert(opened.body.status === "active", "new links start active");
+        const noName = await api.request(
+          null,
+          "POST",
+          `${accepted.url}/accept`,
+          {
+            name: " ",
+          },
+        );
+        assert(noName.status === 400, `blank name got ${noName.status}`);
+        const accept = await api.request(
+          null,
+          "POST",
+          `${accepted.url}/accept`,
+          {
+            name: "Pat Owner",
+          },
+        );
+        assert(
+          accept.status === 200 && accept.body.status === "accepted",
+          `accept got ${accept.status}`,
+        );
+        const again = await api.request(
+          null,
+          "POST",
+          `${accepted.url}/accept`,
+          {
+            name: "Pat Owner",
+          },
+        );
+        assert(again.status === 409, `second accept got ${again.status}`);
+        const edit = await api.request(rep, "PUT", `/api/quotes/${quoteId}`, {
+          contactEmail: "owner@client.com",
+          companyName: "Client Co",
+          monthlyRevenueRange: "25K-75K",
+          monthlyTransactions: "100-300",
+          industry: "Professional Services",
+          cleanupMonths: 3,
+          serviceMonthlyBookkeeping: true,
+          includesBookkeeping: true,
+        });
+        assert(
+          edit.status === 409,
+          `editing an accepted quote got ${edit.status}`,
+        );
+        const revokeAccepted = await api.request(
+          rep,
+          "POST",
+          `/api/quotes/${quoteId}/proposals/${accepted.id}/revoke`,
+        );
+        assert(
+          revokeAccepted.status === 400,
+          `revoking an accepted link got ${revokeAccepted.status}`,
+        );
+
+        const revoked = await newLink();
+        const revoke = await api.request(
+          rep,
+          "POST",
+          `/api/quotes/${quoteId}/proposals/${revoked.id}/revoke`,
+        );
+        assert(revoke.status === 200, `revoke got ${revoke.status}`);
+        for (const path of ["", "/pdf"]) {
+          const gone = await api.request(null, "GET", `${revoked.url}${path}`);
+          assert(
+            gone.status === 410 && gone.body.status === "revoked",
+            `revoked link${path} got ${gone.status}`,
+          );
+        }
+        const acceptRevoked = await api.request(
+          null,
+          "POST",
+          `${revoked.url}/accept`,
+          { name: "Pat Owner" },
+        );
+        assert(
+          acceptRevoked.status === 410,
+          `accepting a revoked link got ${acceptRevoked.status}`,
+        );
+        const otherQuote = await api.request(
+          rep,
+          "POST",
+          `/api/quotes/999999/proposals/${revoked.id}/revoke`,
+        );
+        assert(
+          otherQuote.status === 404,
+          `revoking through another quote got ${otherQuote.status}`,
+        );
+
+        const expired = await newLink();
+        await db
+          .update(quoteProposals)
+          .set({ expiresAt: new Date(Date.now() - 60_000) })
+          .where(eq(quoteProposals.id, expired.id));
+        const late = await api.request(null, "GET", expired.url);
+        assert(
+          late.status === 410 && late.body.status === "expired",
+          `expired link got ${late.status}`,
+        );
+        const acceptLate = await api.request(
+          null,
+          "POST",
+          `${expired.url}/accept`,
+          { name: "Pat Owner" },
+        );
+        assert(
+          acceptLate.status === 410,
+          `accepting an expired link got ${acceptLate.status}`,
+        );
+        // Accepted links stay readable after they expire
+        await db
+          .update(quoteProposals)
+          .set({ expiresAt: new Date(Date.now() - 60_000) })
+          .where(eq(quoteProposals.id, accepted.id));
+        const acceptedLate = await api.request(null, "GET", accepted.url);
+        assert(
+          acceptedLate.status === 200,
+          `expired accepted link got ${acceptedLate.status}`,
+        );
+
+        // Archiving the quote takes every link down without saying why
+        await storage.archiveQuote(quoteId);
+        const archived = await api.request(null, "GET", accepted.url);
+        assert(
+          archived.status === 404,
+          `archived quote got ${archived.status}`,
+        );
+      },
+    );
+
+    await run("Racing accepts: one wins, the other gets a 409", async () => {
+      const quote = await api.request(rep, "POST", "/api/quotes", {
+        contactEmail: "owner@race.com",
+        companyName: "Race Co",
+        monthlyRevenueRange: "25K-75K",
+        monthlyTransactions: "100-300",
+        industry: "Professional Services",
+        cleanupMonths: 0,
+        serviceMonthlyBookkeeping: true,
+        includesBookkeeping: true,
+      });
+      assert(quote.status === 200, `quote got ${quote.status}`);
+      const created = await api.request(
+        rep,
+        "POST",
+        `/api/quotes/${quote.body.id}/proposals`,
+        { expiresInDays: 7 },
+      );
+      assert(created.status === 201, `link got ${created.status}`);
+      const url = `/api/public${created.body[0].path}/accept`;
+
+      const statuses = (
+        await Promise.all([
+          api.request(null, "POST", url, { name: "Pat Owner" }),
+          api.request(null, "POST", url, { name: "Sam Partner" }),
+        ])
+      )
+        .map((r) => r.status)
+        .sort();
+      assert(
+        statuses[0] === 200 && statuses[1] === 409,
+        `racing accepts got ${statuses.join(", ")}`,
+      );
+
+      // The losing accept is refused by storage even when it passed the
+      // route's check first
+      let conflict: unknown;
+      try {
+        await storage.acceptQuoteProposal(created.body[0].id, {
+          name: "Late Owner",
+          optionId: null,
+          ipAddress: null,
+        });
+      } catch (error) {
+        conflict = error;
+      }
+      assert(
+        conflict instanceof StorageConflictError,
+        "a second accept should be a storage conflict",
+      );
+    });
+
+    await run(
+      "Admins can't save SOW templates with unknown tokens",
+      async () => {
+        const url = "/api/admin/calculator/content/bookkeeping";
+        const template =
+          "# {{companyName}} bookkeeping\nFee: ${{fees.bookkeeping}}";
+        const byRep = await api.request(rep, "PUT", url, {
+          sowTemplate: template,
+        });
+        assert(byRep.status === 403, `rep edit got ${byRep.status}`);
+        const saved = await api.request(admin, "PUT", url, {
+          sowTemplate: template,
+        });
+        assert(saved.status === 200, `valid template got ${saved.status}`);
+
+        const rejected = await api.request(admin, "PUT", url, {
+          sowTemplate: `${template}\n{{client.nickname}} {{fees.bookeeping}} {{companyName}}`,
+        });
+        assert(
+          rejected.status === 400,
+          `unknown tokens got ${rejected.status}`,
+        );
+        assert(
+          JSON.stringify(rejected.body.unknownTokens) ===
+            JSON.stringify(["client.nickname", "fees.bookeeping"]),
+          `unknown tokens ${JSON.stringify(rejected.body.unknownTokens)}`,
+        );
+        const stored = await storage.getCalculatorServiceContent("bookkeeping");
+        assert(
+          stored?.sowTemplate === template,
+          "a rejected template must not replace the saved one",
+        );
+
+        const quote = await api.request(rep, "POST", "/api/quotes", {
+          contactEmail: "sow@client.com",
+          companyName: "Sow Co",
+          monthlyRevenueRange: "25K-75K",
+          monthlyTransactions: "100-300",
+          industry: "Professional Services",
+          cleanupMonths: 0,
+          serviceMonthlyBookkeeping: true,
+          includesBookkeeping: true,
+        });
+        assert(quote.status === 200, `quote got ${quote.status}`);
+        const sow = await api.request(
+          rep,
+          "GET",
+          `/api/quotes/${quote.body.id}/sow/bookkeeping?format=pdf`,
+        );
+        assert(sow.status === 200, `SOW download got ${sow.status}`);
+        const notOnQuote = await api.request(
+          rep,
+          "GET",
+          `/api/quotes/${quote.body.id}/sow/payroll`,
+        );
+        assert(
+          notOnQuote.status === 404,
+          `SOW for a service not on the quote got ${notOnQuote.status}`,
+        );
+      },
+    );
+  } finally {
+    await api.close();
+    await stopDatabase();
+  }
+
+  console.log("\nAll Proposal tests passed ✅");
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch(() => process.exit(1));
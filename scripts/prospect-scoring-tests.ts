@@ -0,0 +1,109 @@
+/*
+  Prospect scoring tests (no test runner)
+  Run with: npm run test:prospects
+*/
+
+import {
+  monthlyRevenueBand,
+  prospectScoringConfig,
+  prospectScoringInputFromHubSpot,
+  scoreProspectRules,
+} from "../shared/prospect-scoring.ts";
+
+function assert(cond: boolean, msg: string) {
+  if (!cond) throw new Error(msg);
+}
+
+async function run(name: string, fn: () => Promise<void> | void) {
+  try {
+    await fn();
+    console.log(`✅ ${name}`);
+  } catch (e) {
+    console.error(`❌ ${name} -> ${e instanceof Error ? e.message : e}`);
+    throw e;
+  }
+}
+
+async function main() {
+  await run("Rules-based prospect score explains every point", () => {
+    const now = new Date("2026-03-31T12:00:00Z");
+    assert(monthlyRevenueBand(1_200_000) === "75K-250K", "annual to band");
+    assert(monthlyRevenueBand(60_000) === "<$10K", "small revenue band");
+
+    const strong = scoreProspectRules(
+      prospectScoringInputFromHubSpot(
+        {
+          annualrevenue: "24000000",
+          numemployees: "120",
+          industry: "RESTAURANTS",
+          notes_last_activity_date: "2026-03-25T00:00:00Z",
+        },
+        ["Bookkeeping", "TaaS", "Payroll"],
+      ),
+      undefined,
+      now,
+    );
+    assert(strong.score === 100 && strong.tier === "A", `${strong.score}`);
+
+    const empty = scoreProspectRules(
+      prospectScoringInputFromHubSpot({}, []),
+      undefined,
+      now,
+    );
+    assert(empty.score === 0 && empty.tier === "C", `${empty.score}`);
+    assert(
+      empty.factors.every((f) => f.points === 0 && f.detail.length > 0),
+      "unknown inputs score zero with a reason",
+    );
+
+    const mid = scoreProspectRules(
+      {
+        annualRevenue: 1_200_000, // 75K-250K monthly: 3.5x of 1.0-7.0
+        employees: 10,
+        industry: "COMPUTER_SOFTWARE", // 1.0x, the cheapest industry
+        lastActivityAt: "2026-02-15T00:00:00Z", // 44 days ago
+        services: ["Bookkeeping"],
+      },
+      undefined,
+      now,
+    );
+    const points = Object.fromEntries(
+      mid.factors.map((f) => [f.factor, f.points]),
+    );
+    assert(points.revenue === 12.5, `revenue ${points.revenue}`);
+    assert(points.industry === 0, `industry ${points.industry}`);
+    assert(points.employees === 7.5, `employees ${points.employees}`);
+    assert(points.engagement === 8, `engagement ${points.engagement}`);
+    assert(points.services === 5, `services ${points.services}`);
+    assert(mid.score === 33 && mid.tier === "C", `mid ${mid.score}`);
+
+    // Admin weights are normalised to 100; tier cut-offs move with config
+    const revenueOnly = prospectScoringConfig({
+      serviceSettings: {
+        prospect_scoring: {
+          revenue_weight: 1,
+          industry_weight: 0,
+          employees_weight: 0,
+          engagement_weight: 0,
+          services_weight: 0,
+          tier_b_min: 40,
+        },
+      },
+    });
+    const weighted = scoreProspectRules(mid.inputs, revenueOnly, now);
+    assert(
+      weighted.score === 42 && weighted.tier === "B",
+      `weighted ${weighted.score} ${weighted.tier}`,
+    );
+    assert(
+      weighted.factors.find((f) => f.factor === "revenue")?.maxPoints === 100,
+      "single factor carries the whole score",
+    );
+  });
+
+  console.log("\nAll Prospect scoring tests passed ✅");
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch(() => process.exit(1));
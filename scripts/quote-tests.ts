@@ -0,0 +1,396 @@
+/*
+  Quote pricing verification, revision and option tests (no test runner)
+  Run with: npm run test:quotes
+*/
+
+import {
+  calculateQuotePricing,
+  type QuotePricingInput,
+} from "../shared/pricing.ts";
+import {
+  findPricingMismatches,
+  quoteFeeColumns,
+} from "../shared/pricing-verification.ts";
+import {
+  diffQuoteSnapshots,
+  quoteServiceDeltas,
+  quoteSnapshot,
+} from "../shared/quote-revisions.ts";
+import {
+  describeQuoteOption,
+  parseQuoteOptionOverrides,
+  quoteOptionInput,
+  quoteOptionServiceRows,
+  QuoteOptionOverridesSchema,
+} from "../shared/quote-options.ts";
+import {
+  createTestUser,
+  startTestDatabase,
+  startTestServer,
+} from "./test-db.ts";
+
+function assert(cond: boolean, msg: string) {
+  if (!cond) throw new Error(msg);
+}
+
+async function run(name: string, fn: () => Promise<void> | void) {
+  try {
+    await fn();
+    console.log(`✅ ${name}`);
+  } catch (e) {
+    console.error(`❌ ${name} -> ${e instanceof Error ? e.message : e}`);
+    throw e;
+  }
+}
+
+// Base input used across tests
+const base: QuotePricingInput = {
+  monthlyRevenueRange: "25K-75K",
+  monthlyTransactions: "100-300",
+  industry: "Professional Services",
+  // Bookkeeping
+  serviceMonthlyBookkeeping: true,
+  // TaaS
+  serviceTaasMonthly: true,
+  includesTaas: true,
+  numEntities: 1,
+  statesFiled: 1,
+  internationalFiling: false,
+  numBusinessOwners: 1,
+  include1040s: false,
+};
+
+async function main() {
+  await run("Quote saves reject fees that differ from server pricing", () => {
+    const calc = calculateQuotePricing({
+      ...base,
+      servicePriorYearFilings: true,
+      priorYearFilings: ["2023", "2024"],
+    });
+    const fees = quoteFeeColumns(calc);
+    assert(Number(fees.taasPriorYearsFee) > 0, "prior years are priced");
+
+    // What the browser sends: unrounded numbers as strings
+    const browser = {
+      monthlyFee: String(calc.combined.monthlyFee + 0.004),
+      setupFee: String(calc.combined.setupFee),
+      taasMonthlyFee: String(calc.taas.monthlyFee),
+      taasPriorYearsFee: String(calc.priorYearFilingsFee),
+    };
+    assert(
+      findPricingMismatches(browser, fees).length === 0,
+      "matching fees pass",
+    );
+    assert(
+      findPricingMismatches({}, fees).length === 0,
+      "omitted fees are not compared",
+    );
+
+    const tampered = findPricingMismatches(
+      { ...browser, monthlyFee: "1", setupFee: "abc" },
+      fees,
+    );
+    assert(
+      tampered.map((m) => m.field).join() === "monthlyFee,setupFee",
+      `tampered ${tampered.map((m) => m.field).join()}`,
+    );
+    assert(
+      tampered[0]?.expected === fees.monthlyFee,
+      "mismatch carries the server fee",
+    );
+  });
+
+  await run("Quote revisions diff inputs and compare fees per service", () => {
+    const before = quoteSnapshot({
+      id: 7,
+      updatedAt: new Date(),
+      industry: "Retail",
+      contractTerm: "monthly",
+      promoCode: null,
+      monthlyFee: "900.00",
+    });
+    assert(!("id" in before) && !("updatedAt" in before), "row fields dropped");
+    const changes = diffQuoteSnapshots(before, {
+      ...before,
+      industry: "Professional Services",
+      contractTerm: "24_month",
+      promoCode: "",
+      monthlyFee: "720.00",
+    });
+    assert(
+      changes.map((c) => c.label).join() === "Contract term,Industry",
+      `changes ${changes.map((c) => c.label).join()}`,
+    );
+    assert(
+      changes[1]?.before === "Retail" &&
+        changes[1]?.after === "Professional Services",
+      "change carries both values",
+    );
+
+    const list = calculateQuotePricing(base);
+    const committed = calculateQuotePricing(
+      { ...base, contractTerm: "24_month" },
+      { discounts: { contractTermPct: { "24_month": 20 } } },
+    );
+    const deltas = quoteServiceDeltas(list, committed);
+    const row = (label: string) => deltas.find((d) => d.label === label);
+    assert(!row("Payroll"), "unpriced services are left out");
+    const bookkeeping = row("Bookkeeping monthly");
+    assert(
+      !!bookkeeping &&
+        bookkeeping.delta ===
+          Math.round((bookkeeping.after - bookkeeping.before) * 100) / 100 &&
+        bookkeeping.delta < 0,
+      `bookkeeping delta ${bookkeeping?.delta}`,
+    );
+    assert(row("Total setup")?.delta === 0, "setup fees unchanged");
+    assert(
+      row("Total monthly")?.after ===
+        Math.round(committed.combined.monthlyFee * 100) / 100,
+      "totals come from the combined fees",
+    );
+  });
+
+  await run("Pricing options price alternatives from the quote", () => {
+    const withoutTaas = quoteOptionInput(base, { serviceTaasMonthly: false });
+    assert(
+      withoutTaas.includesTaas === false &&
+        withoutTaas.monthlyRevenueRange === base.monthlyRevenueRange,
+      "legacy TaaS flag follows the toggle, other inputs kept",
+    );
+    const full = calculateQuotePricing(base);
+    const lite = calculateQuotePricing(withoutTaas);
+    assert(
+      full.taas.monthlyFee > 0 && lite.taas.monthlyFee === 0,
+      `taas ${full.taas.monthlyFee} -> ${lite.taas.monthlyFee}`,
+    );
+    const committed = calculateQuotePricing(
+      quoteOptionInput(base, { contractTerm: "24_month" }),
+    );
+    assert(
+      committed.combined.monthlyFee < full.combined.monthlyFee,
+      `monthly ${full.combined.monthlyFee} -> ${committed.combined.monthlyFee}`,
+    );
+
+    const rows = quoteOptionServiceRows([lite, full, committed]);
+    const row = (label: string) => rows.find((r) => r.label === label);
+    assert(row("Total monthly")?.amounts.length === 3, "one amount per option");
+    assert(
+      row("TaaS monthly")?.amounts[0] === 0 &&
+        (row("TaaS monthly")?.amounts[1] ?? 0) > 0,
+      "services missing from one option show as zero",
+    );
+    assert(!row("Payroll"), "services no option includes are left out");
+
+    const changes = describeQuoteOption(
+      { ...base, serviceTier: "Automated" },
+      { serviceTier: "Concierge", serviceMonthlyBookkeeping: true },
+    );
+    assert(
+      changes.map((c) => c.label).join() === "Service tier",
+      `changes ${changes.map((c) => c.label).join()}`,
+    );
+    assert(
+      !QuoteOptionOverridesSchema.safeParse({ monthlyFee: "1" }).success,
+      "fees can't be overridden",
+    );
+    assert(
+      Object.keys(parseQuoteOptionOverrides("{bad json")).length === 0,
+      "unreadable overrides fall back to the quote",
+    );
+  });
+
+  // Quote routes against an in-memory Postgres
+  const stopDatabase = await startTestDatabase();
+  const { registerRoutes } = await import("../server/routes.ts");
+  const { db } = await import("../server/db.ts");
+  const { quotes } = await import("../shared/schema.ts");
+  const { eq } = await import("drizzle-orm");
+  const api = await startTestServer(async (app) => {
+    await registerRoutes(app);
+  });
+  const admin = await createTestUser("admin@seedfinancial.io", "admin");
+  const rep = await createTestUser("rep@seedfinancial.io");
+
+  try {
+    await run(
+      "Legacy quotes are re-priced with the live config and pinned on save",
+      async () => {
+        const quoteInput = {
+          contactEmail: "owner@legacy.com",
+          companyName: "Legacy Co",
+          monthlyRevenueRange: "25K-75K",
+          monthlyTransactions: "100-300",
+          industry: "Professional Services",
+          cleanupMonths: 0,
+          serviceMonthlyBookkeeping: true,
+          includesBookkeeping: true,
+        };
+        // Saved before any version was published, so nothing pins it
+        const created = await api.request(
+          rep,
+          "POST",
+          "/api/quotes",
+          quoteInput,
+        );
+        assert(created.status === 200, `create got ${created.status}`);
+        assert(
+          created.body.pricingConfigVersionId == null,
+          "quotes saved without a live version stay unpinned",
+        );
+        const legacyMonthly = created.body.monthlyFee;
+
+        const publish = async (bookkeeping: number) => {
+          const draft = await api.request(
+            admin,
+            "POST",
+            "/api/admin/pricing/versions",
+            {
+              label: `Bookkeeping ${bookkeeping}`,
+            },
+          );
+          assert(draft.status === 201, `draft got ${draft.status}`);
+          const config = draft.body.config;
+          const edited = await api.request(
+            admin,
+            "PUT",
+            `/api/admin/pricing/versions/${draft.body.id}`,
+            {
+              config: {
+                ...config,
+                baseFees: { ...config.baseFees, bookkeeping },
+              },
+            },
+          );
+          assert(edited.status === 200, `draft edit got ${edited.status}`);
+          const published = await api.request(
+            admin,
+            "POST",
+            `/api/admin/pricing/versions/${draft.body.id}/publish`,
+            {},
+          );
+          assert(published.status === 200, `publish got ${published.status}`);
+          return draft.body.id as number;
+        };
+        const liveId = await publish(400);
+
+        // The calculator shows live prices; the old default-priced fees are stale
+        const stale = await api.request(
+          rep,
+          "PUT",
+          `/api/quotes/${created.body.id}`,
+          {
+            ...quoteInput,
+            monthlyFee: legacyMonthly,
+          },
+        );
+        assert(stale.status === 409, `stale fees got ${stale.status}`);
+        const livePricing = stale.body.serverPricing;
+        assert(
+          Number(livePricing.monthlyFee) > Number(legacyMonthly),
+          `live monthly ${livePricing.monthlyFee} should exceed ${legacyMonthly}`,
+        );
+
+        const saved = await api.request(
+          rep,
+          "PUT",
+          `/api/quotes/${created.body.id}`,
+          {
+            ...quoteInput,
+            ...livePricing,
+          },
+        );
+        assert(saved.status === 200, `save got ${saved.status}`);
+        assert(
+          saved.body.pricingConfigVersionId === liveId,
+          `expected pin ${liveId}, got ${saved.body.pricingConfigVersionId}`,
+        );
+
+        // Once pinned, later config changes don't move the quote
+        await publish(600);
+        const resaved = await api.request(
+          rep,
+          "PUT",
+          `/api/quotes/${created.body.id}`,
+          {
+            ...quoteInput,
+            ...livePricing,
+          },
+        );
+        assert(resaved.status === 200, `re-save got ${resaved.status}`);
+        assert(
+          resaved.body.pricingConfigVersionId === liveId,
+          "the pin should not follow newer versions",
+        );
+      },
+    );
+
+    await run(
+      "Options on unpinned quotes price with the live config and pin it on select",
+      async () => {
+        const quoteInput = {
+          contactEmail: "owner@options.com",
+          companyName: "Options Co",
+          monthlyRevenueRange: "25K-75K",
+          monthlyTransactions: "100-300",
+          industry: "Professional Services",
+          cleanupMonths: 0,
+          serviceMonthlyBookkeeping: true,
+          includesBookkeeping: true,
+        };
+        const created = await api.request(
+          rep,
+          "POST",
+          "/api/quotes",
+          quoteInput,
+        );
+        assert(created.status === 200, `create got ${created.status}`);
+        const liveId = created.body.pricingConfigVersionId;
+        const liveMonthly = Number(created.body.monthlyFee);
+        // A quote saved before versions existed
+        await db
+          .update(quotes)
+          .set({ pricingConfigVersionId: null })
+          .where(eq(quotes.id, created.body.id));
+
+        const added = await api.request(
+          rep,
+          "POST",
+          `/api/quotes/${created.body.id}/options`,
+          { name: "As quoted", overrides: {} },
+        );
+        assert(added.status === 201, `option got ${added.status}`);
+        const [option] = added.body.options;
+        assert(
+          option.monthlyFee === liveMonthly,
+          `option monthly ${option.monthlyFee} should be the live ${liveMonthly}`,
+        );
+
+        const selected = await api.request(
+          rep,
+          "POST",
+          `/api/quotes/${created.body.id}/options/${option.id}/select`,
+          { syncToHubSpot: false },
+        );
+        assert(selected.status === 200, `select got ${selected.status}`);
+        assert(
+          selected.body.quote.pricingConfigVersionId === liveId,
+          `expected pin ${liveId}, got ${selected.body.quote.pricingConfigVersionId}`,
+        );
+        assert(
+          Number(selected.body.quote.monthlyFee) === liveMonthly,
+          "the selected option's live pricing becomes the quote's",
+        );
+      },
+    );
+  } finally {
+    await api.close();
+    await stopDatabase();
+  }
+
+  console.log("\nAll Quote tests passed ✅");
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch(() => process.exit(1));
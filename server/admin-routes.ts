@@ -5,10 +5,12 @@ import { requireAuth } from "./auth";
 import { scheduleWorkspaceSync } from "./jobs";
 import { hubSpotService } from "./hubspot";
 import { getRedisAsync } from "./redis";
+import { getErrorMessage } from "./utils/errors";
 import {
   CalculatorContentResponseSchema,
   CalculatorContentItemResponseSchema,
 } from "@shared/contracts";
+import type { PricingGoldenFixture } from "@shared/pricing-golden";
 
 export async function registerAdminRoutes(app: Express): Promise<void> {
   let googleAdminService: GoogleAdminService | null = null;
@@ -1202,6 +1204,1589 @@ export async function registerAdminRoutes(app: Express): Promise<void> {
     },
   );
 
+  // ===== PRICING CONFIG VERSIONS =====
+  // Drafts snapshot the pricing tables; published versions are immutable and
+  // go live at their effective date. Quotes pin the version that priced them.
+  {
+    const { z } = await import("zod");
+    const { PricingConfigSchema, diffPricingConfigs } = await import(
+      "@shared/pricing-config"
+    );
+    const { parseVersionConfig } = await import("./pricing-config");
+
+    const createVersionSchema = z.object({
+      label: z.string().trim().min(1),
+      notes: z.string().optional(),
+    });
+    const updateVersionSchema = z.object({
+      label: z.string().trim().min(1).optional(),
+      notes: z.string().nullable().optional(),
+      config: PricingConfigSchema.optional(),
+      resyncFromTables: z.boolean().optional(),
+    });
+    const publishVersionSchema = z.object({
+      effectiveFrom: z.coerce.date().optional(),
+    });
+
+    // draft | scheduled | live | superseded, relative to now
+    const describeVersions = async () => {
+      const [rows, live] = await Promise.all([
+        storage.getPricingConfigVersions(),
+        pricingConfigService.getLiveVersion(),
+      ]);
+      const now = new Date();
+      const stateOf = (row: (typeof rows)[number]): string => {
+        if (row.status === "draft") return "draft";
+        if (row.id === live?.id) return "live";
+        if (row.effectiveFrom && row.effectiveFrom > now) return "scheduled";
+        return "superseded";
+      };
+      return rows.map((row) => {
+        const { configJson: _configJson, ...summary } = row;
+        return { ...summary, state: stateOf(row) };
+      });
+    };
+
+    app.get(
+      "/api/admin/pricing/versions",
+      requireAuth,
+      requireAdmin,
+      async (req, res) => {
+        try {
+          res.json(await describeVersions());
+        } catch (error: any) {
+          console.error("Error fetching pricing config versions:", error);
+          res.status(500).json({
+            message: `Failed to fetch pricing config versions: ${error.message}`,
+          });
+        }
+      },
+    );
+
+    // Table edits made since the live version was published. Once a version
+    // is live the tables are only a working copy, so these don't affect
+    // pricing until they are captured in a draft and published.
+    app.get(
+      "/api/admin/pricing/versions/unpublished",
+      requireAuth,
+      requireAdmin,
+      async (req, res) => {
+        try {
+          const live = await pricingConfigService.getLiveVersion();
+          if (!live) {
+            return res.json({ liveVersion: null, changes: [] });
+          }
+          const tables = await pricingConfigService.loadTablePricingConfig();
+          res.json({
+            liveVersion: {
+              id: live.id,
+              version: live.version,
+              label: live.label,
+            },
+            changes: diffPricingConfigs(live.config, tables),
+          });
+        } catch (error: any) {
+          console.error("Error diffing pricing tables against live:", error);
+          res.status(500).json({
+            message: `Failed to check unpublished pricing changes: ${error.message}`,
+          });
+        }
+      },
+    );
+
+    app.get(
+      "/api/admin/pricing/versions/:id",
+      requireAuth,
+      requireAdmin,
+      async (req, res) => {
+        try {
+          const row = await storage.getPricingConfigVersion(
+            parseInt(req.params.id),
+          );
+          if (!row) {
+            return res
+              .status(404)
+              .json({ message: "Pricing config version not found" });
+          }
+          const { configJson: _configJson, ...version } = row;
+          res.json({ ...version, config: parseVersionConfig(row) });
+        } catch (error: any) {
+          console.error("Error fetching pricing config version:", error);
+          res.status(500).json({
+            message: `Failed to fetch pricing config version: ${error.message}`,
+          });
+        }
+      },
+    );
+
+    // Create a draft from the current pricing tables
+    app.post(
+      "/api/admin/pricing/versions",
+      requireAuth,
+      requireAdmin,
+      async (req, res) => {
+        try {
+          const parsed = createVersionSchema.safeParse(req.body);
+          if (!parsed.success) {
+            return res.status(400).json({
+              message: "Invalid version payload",
+              errors: parsed.error.issues,
+            });
+          }
+          const userId = req.user?.id;
+          if (!userId) {
+            return res.status(401).json({ message: "User ID required" });
+          }
+
+          const snapshot = await pricingConfigService.loadTablePricingConfig();
+          const created = await storage.createPricingConfigVersion({
+            label: parsed.data.label,
+            notes: parsed.data.notes ?? null,
+            configJson: JSON.stringify(PricingConfigSchema.parse(snapshot)),
+            createdBy: userId,
+          });
+          const { configJson: _configJson, ...version } = created;
+          res.status(201).json({ ...version, config: snapshot });
+        } catch (error: any) {
+          console.error("Error creating pricing config draft:", error);
+          res.status(500).json({
+            message: `Failed to create pricing config draft: ${error.message}`,
+          });
+        }
+      },
+    );
+
+    // Edit a draft's label/notes/config, or re-snapshot it from the tables
+    app.put(
+      "/api/admin/pricing/versions/:id",
+      requireAuth,
+      requireAdmin,
+      async (req, res) => {
+        try {
+          const id = parseInt(req.params.id);
+          const parsed = updateVersionSchema.safeParse(req.body);
+          if (!parsed.success) {
+            return res.status(400).json({
+              message: "Invalid version payload",
+              errors: parsed.error.issues,
+            });
+          }
+          const existing = await storage.getPricingConfigVersion(id);
+          if (!existing) {
+            return res
+              .status(404)
+              .json({ message: "Pricing config version not found" });
+          }
+          if (existing.status !== "draft") {
+            return res
+              .status(409)
+              .json({ message: "Published versions cannot be modified" });
+          }
+
+          const { label, notes, config, resyncFromTables } = parsed.data;
+          const nextConfig = resyncFromTables
+            ? PricingConfigSchema.parse(
+                await pricingConfigService.loadTablePricingConfig(),
+              )
+            : config;
+          const updated = await storage.updatePricingConfigVersionDraft(id, {
+            label,
+            notes,
+            configJson: nextConfig ? JSON.stringify(nextConfig) : undefined,
+          });
+          const { configJson: _configJson, ...version } = updated;
+          res.json({ ...version, config: parseVersionConfig(updated) });
+        } catch (error: any) {
+          console.error("Error updating pricing config draft:", error);
+          res.status(500).json({
+            message: `Failed to update pricing config draft: ${error.message}`,
+          });
+        }
+      },
+    );
+
+    app.delete(
+      "/api/admin/pricing/versions/:id",
+      requireAuth,
+      requireAdmin,
+      async (req, res) => {
+        try {
+          const id = parseInt(req.params.id);
+          const existing = await storage.getPricingConfigVersion(id);
+          if (!existing) {
+            return res
+              .status(404)
+              .json({ message: "Pricing config version not found" });
+          }
+          if (existing.status !== "draft") {
+            return res
+              .status(409)
+              .json({ message: "Published versions cannot be deleted" });
+          }
+          await storage.deletePricingConfigVersionDraft(id);
+          res.json({ message: "Draft deleted" });
+        } catch (error: any) {
+          console.error("Error deleting pricing config draft:", error);
+          res.status(500).json({
+            message: `Failed to delete pricing config draft: ${error.message}`,
+          });
+        }
+      },
+    );
+
+    // Diff a version against another (?against=<id>) or, by default, the live config
+    app.get(
+      "/api/admin/pricing/versions/:id/diff",
+      requireAuth,
+      requireAdmin,
+      async (req, res) => {
+        try {
+          const row = await storage.getPricingConfigVersion(
+            parseInt(req.params.id),
+          );
+          if (!row) {
+            return res
+              .status(404)
+              .json({ message: "Pricing config version not found" });
+          }
+
+          let baseline;
+          let baselineLabel: string;
+          if (req.query.against) {
+            const againstRow = await storage.getPricingConfigVersion(
+              parseInt(req.query.against as string),
+            );
+            if (!againstRow) {
+              return res
+                .status(404)
+                .json({ message: "Comparison version not found" });
+            }
+            baseline = parseVersionConfig(againstRow);
+            baselineLabel = `v${againstRow.version}`;
+          } else {
+            const live = await pricingConfigService.getLiveVersion();
+            baseline = await pricingConfigService.loadPricingConfig();
+            baselineLabel = live ? `v${live.version} (live)` : "pricing tables";
+          }
+
+          res.json({
+            versionId: row.id,
+            baseline: baselineLabel,
+            changes: diffPricingConfigs(baseline, parseVersionConfig(row)),
+          });
+        } catch (error: any) {
+          console.error("Error diffing pricing config version:", error);
+          res.status(500).json({
+            message: `Failed to diff pricing config version: ${error.message}`,
+          });
+        }
+      },
+    );
+
+    // Publish a draft, now or on a future date. Published versions are immutable.
+    app.post(
+      "/api/admin/pricing/versions/:id/publish",
+      requireAuth,
+      requireAdmin,
+      async (req, res) => {
+        try {
+          const id = parseInt(req.params.id);
+          const parsed = publishVersionSchema.safeParse(req.body ?? {});
+          if (!parsed.success) {
+            return res.status(400).json({
+              message: "Invalid effective date",
+              errors: parsed.error.issues,
+            });
+          }
+          const userId = req.user?.id;
+          if (!userId) {
+            return res.status(401).json({ message: "User ID required" });
+          }
+
+          const existing = await storage.getPricingConfigVersion(id);
+          if (!existing) {
+            return res
+              .status(404)
+              .json({ message: "Pricing config version not found" });
+          }
+          if (existing.status !== "draft") {
+            return res
+              .status(409)
+              .json({ message: "Version is already published" });
+          }
+
+          const now = new Date();
+          const effectiveFrom = parsed.data.effectiveFrom ?? now;
+          // Small grace window for clock skew between browser and server
+          if (effectiveFrom.getTime() < now.getTime() - 60_000) {
+            return res
+              .status(400)
+              .json({ message: "Effective date cannot be in the past" });
+          }
+
+          const published = await storage.publishPricingConfigVersion(
+            id,
+            effectiveFrom,
+            userId,
+          );
+          await pricingConfigService.clearCache();
+
+          const { configJson: _configJson, ...version } = published;
+          res.json(version);
+        } catch (error: any) {
+          console.error("Error publishing pricing config version:", error);
+          res.status(500).json({
+            message: `Failed to publish pricing config version: ${error.message}`,
+          });
+        }
+      },
+    );
+  }
+
+  // ===== PRICING IMPACT SIMULATOR =====
+  // Re-prices every non-archived quote under the live config and a proposed
+  // edit so admins can review the effect before saving it.
+  {
+    const { z } = await import("zod");
+    const {
+      PricingConfigPatchSchema,
+      applyPricingConfigPatch,
+      simulationPricingConfig,
+      toCalculatorPricingConfig,
+    } = await import("@shared/pricing-config");
+    const { simulatePricingImpact } = await import("@shared/pricing-impact");
+
+    const simulateSchema = z.object({
+      changes: PricingConfigPatchSchema,
+      // The pricing row being edited; the run is logged to its history
+      record: z
+        .object({ table: z.string().min(1), recordId: z.number().int() })
+        .optional(),
+    });
+
+    app.post(
+      "/api/admin/pricing/simulate",
+      requireAuth,
+      requireAdmin,
+      async (req, res) => {
+        try {
+          const parsed = simulateSchema.safeParse(req.body);
+          if (!parsed.success) {
+            return res.status(400).json({
+              message: "Invalid simulation payload",
+              errors: parsed.error.issues,
+            });
+          }
+          const { changes, record } = parsed.data;
+
+          const live = await pricingConfigService.loadPricingConfig();
+          let proposed;
+          try {
+            proposed = applyPricingConfigPatch(live, changes);
+          } catch (patchError: any) {
+            return res.status(400).json({
+              message: `Proposed changes do not form a valid pricing config: ${patchError.message}`,
+            });
+          }
+
+          const quotes = await storage.getActiveQuotes();
+          const report = simulatePricingImpact(
+            quotes,
+            toCalculatorPricingConfig(live),
+            simulationPricingConfig(proposed, changes),
+          );
+
+          const userId = req.user?.id;
+          if (record && userId) {
+            const crossings = report.quotes.filter(
+              (q) => q.crossings.length > 0,
+            ).length;
+            await storage.recordPricingHistory({
+              tableAffected: record.table,
+              recordId: record.recordId,
+              fieldChanged: "impact_simulation",
+              oldValue: null,
+              newValue: JSON.stringify(changes),
+              changedBy: userId,
+              changeReason: `Simulated across ${report.quoteCount} quotes: ${report.changedCount} changed, MRR delta ${report.totals.delta.monthlyFee.toFixed(2)}, setup delta ${report.totals.delta.setupFee.toFixed(2)}, ${crossings} approval threshold crossings`,
+            });
+          }
+
+          res.json(report);
+        } catch (error: any) {
+          console.error("Error simulating pricing impact:", error);
+          res.status(500).json({
+            message: `Failed to simulate pricing impact: ${error.message}`,
+          });
+        }
+      },
+    );
+  }
+
+  // ===== PRICING GOLDEN FIXTURES =====
+  // Freezes a real quote's pricing input and engine result as a JSON fixture
+  // replayed by `npm run test:pricing:golden`.
+  {
+    const { z } = await import("zod");
+    const fs = await import("fs/promises");
+    const path = await import("path");
+    const { buildGoldenFixture, goldenFixtureFileName, quoteToPricingInput } =
+      await import("@shared/pricing-golden");
+
+    const fixturesDir =
+      process.env.PRICING_GOLDEN_FIXTURES_DIR ||
+      path.join(
+        process.cwd(),
+        "shared",
+        "__tests__",
+        "fixtures",
+        "pricing-golden",
+      );
+
+    const freezeSchema = z.object({
+      quoteId: z.number().int().positive(),
+      name: z.string().trim().min(1).max(120),
+      description: z.string().optional(),
+      overwrite: z.boolean().optional(),
+    });
+
+    app.get(
+      "/api/admin/pricing/golden-fixtures",
+      requireAuth,
+      requireAdmin,
+      async (req, res) => {
+        try {
+          const files = await fs.readdir(fixturesDir).catch(() => []);
+          const fixtures = [];
+          for (const file of files.filter((f) => f.endsWith(".json")).sort()) {
+            const fixture: PricingGoldenFixture = JSON.parse(
+              await fs.readFile(path.join(fixturesDir, file), "utf8"),
+            );
+            fixtures.push({
+              file,
+              name: fixture.name,
+              description: fixture.description ?? null,
+              capturedAt: fixture.capturedAt,
+              source: fixture.source,
+            });
+          }
+          res.json(fixtures);
+        } catch (error) {
+          console.error("Error listing golden fixtures:", error);
+          res.status(500).json({
+            message: `Failed to list golden fixtures: ${getErrorMessage(error)}`,
+          });
+        }
+      },
+    );
+
+    app.post(
+      "/api/admin/pricing/golden-fixtures",
+      requireAuth,
+      requireAdmin,
+      async (req, res) => {
+        try {
+          const parsed = freezeSchema.safeParse(req.body);
+          if (!parsed.success) {
+            return res.status(400).json({
+              message: "Invalid golden fixture payload",
+              errors: parsed.error.issues,
+            });
+          }
+          const { quoteId, name, description, overwrite } = parsed.data;
+
+          const quote = await storage.getQuote(quoteId);
+          if (!quote) {
+            return res.status(404).json({ message: "Quote not found" });
+          }
+
+          const file = goldenFixtureFileName(name);
+          const fullPath = path.join(fixturesDir, file);
+          const exists = await fs
+            .access(fullPath)
+            .then(() => true)
+            .catch(() => false);
+          if (exists && !overwrite) {
+            return res.status(409).json({
+              message: `Golden fixture ${file} already exists`,
+            });
+          }
+
+          // Same config the quote is priced with everywhere else: its pinned
+          // version, or the live one for unpinned legacy quotes
+          const { versionId, config } =
+            await pricingConfigService.resolveQuotePricingConfig(
+              quote.pricingConfigVersionId,
+            );
+
+          const fixture = buildGoldenFixture({
+            name,
+            description,
+            input: quoteToPricingInput(quote),
+            config,
+            source: { quoteId: quote.id, pricingConfigVersionId: versionId },
+            // Setup fees depend on the month the quote was last priced
+            asOf: quote.updatedAt ?? undefined,
+          });
+
+          await fs.mkdir(fixturesDir, { recursive: true });
+          await fs.writeFile(fullPath, `${JSON.stringify(fixture, null, 2)}\n`);
+
+          res.status(201).json({ file, fixture });
+        } catch (error) {
+          console.error("Error freezing golden fixture:", error);
+          res.status(500).json({
+            message: `Failed to freeze golden fixture: ${getErrorMessage(error)}`,
+          });
+        }
+      },
+    );
+  }
+
+  // ===== PROMO CODES =====
+  // Reusable discount codes applied in the quote calculator
+  {
+    const { z } = await import("zod");
+    const { DiscountTermsSchema } = await import("@shared/pricing-discounts");
+
+    const promoCodeSchema = z.object({
+      code: z
+        .string()
+        .trim()
+        .min(3)
+        .max(40)
+        .regex(/^[A-Za-z0-9_-]+$/, "Letters, numbers, - and _ only"),
+      description: z.string().nullable().optional(),
+      discounts: z.array(DiscountTermsSchema).min(1),
+      expiresAt: z.coerce.date().nullable().optional(),
+      maxUses: z.number().int().positive().nullable().optional(),
+      isActive: z.boolean().optional(),
+    });
+
+    const toPromoCodeResponse = (promo: any) => ({
+      ...promo,
+      discounts: JSON.parse(promo.discountsJson),
+    });
+
+    app.get(
+      "/api/admin/pricing/promo-codes",
+      requireAuth,
+      requireAdmin,
+      async (req, res) => {
+        try {
+          const promos = await storage.getPromoCodes();
+          res.json(promos.map(toPromoCodeResponse));
+        } catch (error: any) {
+          console.error("Error fetching promo codes:", error);
+          res.status(500).json({
+            message: `Failed to fetch promo codes: ${error.message}`,
+          });
+        }
+      },
+    );
+
+    app.post(
+      "/api/admin/pricing/promo-codes",
+      requireAuth,
+      requireAdmin,
+      async (req, res) => {
+        try {
+          const parsed = promoCodeSchema.safeParse(req.body);
+          if (!parsed.success) {
+            return res.status(400).json({
+              message: "Invalid promo code",
+              errors: parsed.error.issues,
+            });
+          }
+          const { discounts, ...rest } = parsed.data;
+          const existing = await storage.getPromoCodeByCode(rest.code);
+          if (existing) {
+            return res
+              .status(409)
+              .json({ message: `Promo code ${existing.code} already exists` });
+          }
+          const created = await storage.createPromoCode({
+            ...rest,
+            discountsJson: JSON.stringify(discounts),
+            createdBy: req.user?.id ?? null,
+          });
+          res.status(201).json(toPromoCodeResponse(created));
+        } catch (error: any) {
+          console.error("Error creating promo code:", error);
+          res.status(500).json({
+            message: `Failed to create promo code: ${error.message}`,
+          });
+        }
+      },
+    );
+
+    app.put(
+      "/api/admin/pricing/promo-codes/:id",
+      requireAuth,
+      requireAdmin,
+      async (req, res) => {
+        try {
+          const id = parseInt(req.params.id);
+          if (isNaN(id)) {
+            return res.status(400).json({ message: "Invalid promo code ID" });
+          }
+          const parsed = promoCodeSchema.partial().safeParse(req.body);
+          if (!parsed.success) {
+            return res.status(400).json({
+              message: "Invalid promo code",
+              errors: parsed.error.issues,
+            });
+          }
+          const { discounts, ...rest } = parsed.data;
+          const updated = await storage.updatePromoCode(id, {
+            ...rest,
+            ...(discounts ? { discountsJson: JSON.stringify(discounts) } : {}),
+          });
+          res.json(toPromoCodeResponse(updated));
+        } catch (error: any) {
+          console.error("Error updating promo code:", error);
+          res.status(500).json({
+            message: `Failed to update promo code: ${error.message}`,
+          });
+        }
+      },
+    );
+  }
+
+  // ===== APPROVAL QUEUE =====
+  // Quote override requests from reps, decided here and audited per quote
+  {
+    const { ApprovalDecisionSchema, APPROVAL_STATUSES, APPROVAL_VALID_HOURS } =
+      await import("@shared/approvals");
+    const { toApprovalRequestViews } = await import("./approval-requests");
+
+    app.get(
+      "/api/admin/approvals",
+      requireAuth,
+      requireAdmin,
+      async (req, res) => {
+        try {
+          const status = String(req.query.status || "");
+          const quoteId = parseInt(String(req.query.quoteId || ""));
+          const requests = await storage.getApprovalRequests({
+            status: (APPROVAL_STATUSES as readonly string[]).includes(status)
+              ? status
+              : undefined,
+            quoteId: isNaN(quoteId) ? undefined : quoteId,
+          });
+          res.json(
+            await toApprovalRequestViews(requests, {
+              includeEvents: !isNaN(quoteId),
+            }),
+          );
+        } catch (error: any) {
+          console.error("Error fetching approval requests:", error);
+          res.status(500).json({
+            message: `Failed to fetch approval requests: ${error.message}`,
+          });
+        }
+      },
+    );
+
+    app.get(
+      "/api/admin/approvals/:id",
+      requireAuth,
+      requireAdmin,
+      async (req, res) => {
+        try {
+          const id = parseInt(req.params.id);
+          const request = isNaN(id)
+            ? undefined
+            : await storage.getApprovalRequest(id);
+          if (!request) {
+            return res
+              .status(404)
+              .json({ message: "Approval request not found" });
+          }
+          const [view] = await toApprovalRequestViews([request], {
+            includeEvents: true,
+          });
+          res.json(view);
+        } catch (error: any) {
+          console.error("Error fetching approval request:", error);
+          res.status(500).json({
+            message: `Failed to fetch approval request: ${error.message}`,
+          });
+        }
+      },
+    );
+
+    app.post(
+      "/api/admin/approvals/:id/decision",
+      requireAuth,
+      requireAdmin,
+      async (req, res) => {
+        try {
+          const id = parseInt(req.params.id);
+          if (isNaN(id)) {
+            return res
+              .status(400)
+              .json({ message: "Invalid approval request ID" });
+          }
+          const parsed = ApprovalDecisionSchema.safeParse(req.body);
+          if (!parsed.success) {
+            return res.status(400).json({
+              message: "Invalid decision",
+              errors: parsed.error.issues,
+            });
+          }
+          const request = await storage.getApprovalRequest(id);
+          if (!request) {
+            return res
+              .status(404)
+              .json({ message: "Approval request not found" });
+          }
+          if (request.requestedBy === req.user?.id) {
+            return res
+              .status(403)
+              .json({ message: "You cannot decide your own approval request" });
+          }
+          const decided = await storage.decideApprovalRequest(id, {
+            approved: parsed.data.decision === "approve",
+            approverId: req.user!.id,
+            note: parsed.data.note,
+            expiresAt: new Date(
+              Date.now() + APPROVAL_VALID_HOURS * 60 * 60 * 1000,
+            ),
+          });
+          if (!decided) {
+            return res.status(409).json({
+              message: `Approval request is already ${request.status}`,
+            });
+          }
+          const [view] = await toApprovalRequestViews([decided], {
+            includeEvents: true,
+          });
+          res.json(view);
+        } catch (error: any) {
+          console.error("Error deciding approval request:", error);
+          res.status(500).json({
+            message: `Failed to decide approval request: ${error.message}`,
+          });
+        }
+      },
+    );
+  }
+
+  // ===== COMMISSION PLANS =====
+  // Plans and per-rep assignments; rules freeze once commissions are earned
+  {
+    const { z } = await import("zod");
+    const { CommissionPlanRulesSchema } = await import(
+      "@shared/commission-plans"
+    );
+    const { toCommissionPlanView } = await import("./commission-plans");
+
+    const commissionPlanSchema = z.object({
+      name: z.string().trim().min(1).max(80),
+      description: z.string().nullable().optional(),
+      rules: CommissionPlanRulesSchema,
+      isDefault: z.boolean().optional(),
+      effectiveFrom: z.coerce.date().optional(),
+      effectiveTo: z.coerce.date().nullable().optional(),
+    });
+
+    const assignmentSchema = z.object({
+      planId: z.number().int().positive(),
+      effectiveFrom: z.coerce.date().optional(),
+    });
+
+    app.get(
+      "/api/admin/commission-plans",
+      requireAuth,
+      requireAdmin,
+      async (req, res) => {
+        try {
+          const plans = await storage.getCommissionPlans();
+          res.json(
+            await Promise.all(
+              plans.map(async (plan) => ({
+                ...toCommissionPlanView(plan),
+                commissionCount: await storage.countCommissionsForPlan(plan.id),
+              })),
+            ),
+          );
+        } catch (error: any) {
+          console.error("Error fetching commission plans:", error);
+          res.status(500).json({
+            message: `Failed to fetch commission plans: ${error.message}`,
+          });
+        }
+      },
+    );
+
+    app.post(
+      "/api/admin/commission-plans",
+      requireAuth,
+      requireAdmin,
+      async (req, res) => {
+        try {
+          const parsed = commissionPlanSchema.safeParse(req.body);
+          if (!parsed.success) {
+            return res.status(400).json({
+              message: "Invalid commission plan",
+              errors: parsed.error.issues,
+            });
+          }
+          const { rules, ...rest } = parsed.data;
+          const existing = await storage.getCommissionPlans();
+          if (
+            existing.some(
+              (p) => p.name.toLowerCase() === rest.name.toLowerCase(),
+            )
+          ) {
+            return res
+              .status(409)
+              .json({ message: `Commission plan ${rest.name} already exists` });
+          }
+          const created = await storage.createCommissionPlan({
+            ...rest,
+            effectiveFrom: rest.effectiveFrom ?? new Date(),
+            rulesJson: JSON.stringify(rules),
+            createdBy: req.user?.id ?? null,
+          });
+          res.status(201).json(toCommissionPlanView(created));
+        } catch (error: any) {
+          console.error("Error creating commission plan:", error);
+          res.status(500).json({
+            message: `Failed to create commission plan: ${error.message}`,
+          });
+        }
+      },
+    );
+
+    app.put(
+      "/api/admin/commission-plans/:id",
+      requireAuth,
+      requireAdmin,
+      async (req, res) => {
+        try {
+          const id = parseInt(req.params.id);
+          if (isNaN(id)) {
+            return res
+              .status(400)
+              .json({ message: "Invalid commission plan ID" });
+          }
+          const parsed = commissionPlanSchema.partial().safeParse(req.body);
+          if (!parsed.success) {
+            return res.status(400).json({
+              message: "Invalid commission plan",
+              errors: parsed.error.issues,
+            });
+          }
+          const plan = await storage.getCommissionPlan(id);
+          if (!plan) {
+            return res
+              .status(404)
+              .json({ message: "Commission plan not found" });
+          }
+          const { rules, ...rest } = parsed.data;
+          // Earned commissions keep the rules and dates they were paid under
+          const earned = await storage.countCommissionsForPlan(id);
+          const rewritesHistory =
+            rules !== undefined ||
+            rest.effectiveFrom !== undefined ||
+            (rest.effectiveTo != null && rest.effectiveTo < new Date());
+          if (earned > 0 && rewritesHistory) {
+            return res.status(409).json({
+              message:
+                "Commissions have been earned under this plan; create a new plan or end this one from today onward",
+            });
+          }
+          const updated = await storage.updateCommissionPlan(id, {
+            ...rest,
+            ...(rules ? { rulesJson: JSON.stringify(rules) } : {}),
+          });
+          res.json(toCommissionPlanView(updated));
+        } catch (error: any) {
+          console.error("Error updating commission plan:", error);
+          res.status(500).json({
+            message: `Failed to update commission plan: ${error.message}`,
+          });
+        }
+      },
+    );
+
+    app.get(
+      "/api/admin/commission-plans/assignments",
+      requireAuth,
+      requireAdmin,
+      async (req, res) => {
+        try {
+          const salesRepId = parseInt(String(req.query.salesRepId || ""));
+          res.json(
+            await storage.getSalesRepCommissionPlans(
+              isNaN(salesRepId) ? undefined : salesRepId,
+            ),
+          );
+        } catch (error: any) {
+          console.error("Error fetching commission plan assignments:", error);
+          res.status(500).json({
+            message: `Failed to fetch commission plan assignments: ${error.message}`,
+          });
+        }
+      },
+    );
+
+    app.post(
+      "/api/admin/sales-reps/:id/commission-plan",
+      requireAuth,
+      requireAdmin,
+      async (req, res) => {
+        try {
+          const salesRepId = parseInt(req.params.id);
+          if (isNaN(salesRepId)) {
+            return res.status(400).json({ message: "Invalid sales rep ID" });
+          }
+          const parsed = assignmentSchema.safeParse(req.body);
+          if (!parsed.success) {
+            return res.status(400).json({
+              message: "Invalid commission plan assignment",
+              errors: parsed.error.issues,
+            });
+          }
+          const [reps, plan] = await Promise.all([
+            storage.getAllSalesReps(),
+            storage.getCommissionPlan(parsed.data.planId),
+          ]);
+          if (!reps.some((r) => r.id === salesRepId)) {
+            return res.status(404).json({ message: "Sales rep not found" });
+          }
+          if (!plan) {
+            return res
+              .status(404)
+              .json({ message: "Commission plan not found" });
+          }
+
+          // Plan changes apply from now on; earlier periods keep their plan
+          const now = new Date();
+          const effectiveFrom = parsed.data.effectiveFrom ?? now;
+          if (effectiveFrom.getTime() < now.getTime() - 60 * 1000) {
+            return res.status(400).json({
+              message: "Plan assignments cannot start in the past",
+            });
+          }
+          const assignments =
+            await storage.getSalesRepCommissionPlans(salesRepId);
+          const later = assignments.find(
+            (a) => a.effectiveFrom.getTime() >= effectiveFrom.getTime(),
+          );
+          if (later) {
+            return res.status(409).json({
+              message: `Sales rep already has a plan assigned from ${later.effectiveFrom.toISOString().slice(0, 10)}`,
+            });
+          }
+
+          const assignment = await storage.assignCommissionPlan({
+            salesRepId,
+            planId: plan.id,
+            effectiveFrom,
+            assignedBy: req.user?.id ?? null,
+          });
+          res.status(201).json(assignment);
+        } catch (error: any) {
+          console.error("Error assigning commission plan:", error);
+          res.status(500).json({
+            message: `Failed to assign commission plan: ${error.message}`,
+          });
+        }
+      },
+    );
+  }
+
+  // ===== COMMISSION PAYOUT RUNS =====
+  // Preview a 14th–13th period, lock it into a run, mark it paid, download
+  // per-rep statements
+  {
+    const { z } = await import("zod");
+    const {
+      commissionPeriodFor,
+      commissionPeriodStarting,
+      commissionPeriodBounds,
+      previousCommissionPeriod,
+      payoutStatementCsv,
+    } = await import("@shared/commission-payouts");
+    const { buildPayoutPreview, renderPayoutStatementPdf } = await import(
+      "./commission-payouts"
+    );
+
+    // Default to the most recent period that has already ended
+    const periodFromQuery = (value: unknown) =>
+      typeof value === "string" && value
+        ? commissionPeriodStarting(value)
+        : previousCommissionPeriod(commissionPeriodFor(new Date()));
+
+    app.get(
+      "/api/admin/payout-runs",
+      requireAuth,
+      requireAdmin,
+      async (req, res) => {
+        try {
+          const runs = await storage.getPayoutRuns();
+          res.json(
+            await Promise.all(
+              runs.map(async (run) => ({
+                ...run,
+                statements: (await storage.getPayoutStatements(run.id)).map(
+                  (st) => ({
+                    salesRepId: st.salesRepId,
+                    salesRepName: JSON.parse(st.statementJson).salesRepName,
+                    totalAmount: st.totalAmount,
+                  }),
+                ),
+              })),
+            ),
+          );
+        } catch (error: any) {
+          console.error("Error fetching payout runs:", error);
+          res.status(500).json({
+            message: `Failed to fetch payout runs: ${error.message}`,
+          });
+        }
+      },
+    );
+
+    app.get(
+      "/api/admin/payout-runs/preview",
+      requireAuth,
+      requireAdmin,
+      async (req, res) => {
+        try {
+          const period = periodFromQuery(req.query.periodStart);
+          if (!period) {
+            return res.status(400).json({
+              message: "periodStart must be a YYYY-MM-14 date",
+            });
+          }
+          const [preview, runs] = await Promise.all([
+            buildPayoutPreview(period),
+            storage.getPayoutRuns(),
+          ]);
+          const lockedRun = runs.find(
+            (r) => r.periodStart === period.periodStart,
+          );
+          res.json({
+            period: preview.period,
+            statements: preview.statements,
+            pendingAdjustmentIds: preview.pendingAdjustmentIds,
+            total: preview.total,
+            lockedRunId: lockedRun?.id ?? null,
+            periodEnded: commissionPeriodBounds(period).end < new Date(),
+          });
+        } catch (error: any) {
+          console.error("Error previewing payout run:", error);
+          res.status(500).json({
+            message: `Failed to preview payout run: ${error.message}`,
+          });
+        }
+      },
+    );
+
+    app.post(
+      "/api/admin/payout-runs",
+      requireAuth,
+      requireAdmin,
+      async (req, res) => {
+        try {
+          const parsed = z
+            .object({ periodStart: z.string() })
+            .safeParse(req.body);
+          const period = parsed.success
+            ? commissionPeriodStarting(parsed.data.periodStart)
+            : null;
+          if (!period) {
+            return res.status(400).json({
+              message: "periodStart must be a YYYY-MM-14 date",
+            });
+          }
+          if (commissionPeriodBounds(period).end >= new Date()) {
+            return res.status(400).json({
+              message: `Period ending ${period.periodEnd} has not ended yet`,
+            });
+          }
+          const runs = await storage.getPayoutRuns();
+          if (runs.some((r) => r.periodStart === period.periodStart)) {
+            return res.status(409).json({
+              message: `Period ${period.periodStart} to ${period.periodEnd} is already locked`,
+            });
+          }
+
+          const preview = await buildPayoutPreview(period);
+          if (preview.pendingAdjustmentIds.length > 0) {
+            return res.status(409).json({
+              message:
+                "Resolve pending adjustment requests before locking this period",
+              pendingAdjustmentIds: preview.pendingAdjustmentIds,
+            });
+          }
+
+          const run = await storage.lockPayoutRun(
+            {
+              periodStart: period.periodStart,
+              periodEnd: period.periodEnd,
+              status: "locked",
+              totalAmount: preview.total.toFixed(2),
+              lockedBy: req.user?.id ?? null,
+            },
+            preview.statements.map((st) => ({
+              salesRepId: st.salesRepId,
+              totalAmount: st.total.toFixed(2),
+              statementJson: JSON.stringify(st),
+            })),
+            preview.commissionIds,
+            preview.reversalIds,
+          );
+          res.status(201).json(run);
+        } catch (error: any) {
+          console.error("Error locking payout run:", error);
+          res.status(500).json({
+            message: `Failed to lock payout run: ${error.message}`,
+          });
+        }
+      },
+    );
+
+    app.post(
+      "/api/admin/payout-runs/:id/paid",
+      requireAuth,
+      requireAdmin,
+      async (req, res) => {
+        try {
+          const id = parseInt(req.params.id);
+          if (isNaN(id)) {
+            return res.status(400).json({ message: "Invalid payout run ID" });
+          }
+          const run = await storage.getPayoutRun(id);
+          if (!run) {
+            return res.status(404).json({ message: "Payout run not found" });
+          }
+          if (run.status === "paid") {
+            return res
+              .status(409)
+              .json({ message: "Payout run is already marked paid" });
+          }
+          res.json(await storage.markPayoutRunPaid(id, req.user!.id));
+        } catch (error: any) {
+          console.error("Error marking payout run paid:", error);
+          res.status(500).json({
+            message: `Failed to mark payout run paid: ${error.message}`,
+          });
+        }
+      },
+    );
+
+    app.get(
+      "/api/admin/payout-runs/:id/statements/:salesRepId",
+      requireAuth,
+      requireAdmin,
+      async (req, res) => {
+        try {
+          const id = parseInt(req.params.id);
+          const salesRepId = parseInt(req.params.salesRepId);
+          if (isNaN(id) || isNaN(salesRepId)) {
+            return res.status(400).json({ message: "Invalid statement ID" });
+          }
+          const format = req.query.format === "csv" ? "csv" : "pdf";
+          const [run, statements] = await Promise.all([
+            storage.getPayoutRun(id),
+            storage.getPayoutStatements(id),
+          ]);
+          const row = statements.find((st) => st.salesRepId === salesRepId);
+          if (!run || !row) {
+            return res.status(404).json({ message: "Statement not found" });
+          }
+
+          const statement = JSON.parse(row.statementJson);
+          const filename = `commission-statement-${run.periodStart}-rep-${salesRepId}.${format}`;
+          res.setHeader(
+            "Content-Disposition",
+            `attachment; filename="${filename}"`,
+          );
+          if (format === "csv") {
+            res.type("text/csv").send(payoutStatementCsv(statement));
+          } else {
+            const pdf = await renderPayoutStatementPdf(statement, run);
+            res.type("application/pdf").send(Buffer.from(pdf));
+          }
+        } catch (error: any) {
+          console.error("Error generating payout statement:", error);
+          res.status(500).json({
+            message: `Failed to generate payout statement: ${error.message}`,
+          });
+        }
+      },
+    );
+  }
+
+  // ===== COMMISSION CLAWBACKS =====
+  // On-demand clawback run; the HubSpot full sync also runs them
+  {
+    const { applyCommissionClawbacks } = await import(
+      "./commission-clawbacks"
+    );
+
+    app.post(
+      "/api/admin/commission-clawbacks/run",
+      requireAuth,
+      requireAdmin,
+      async (req, res) => {
+        try {
+          res.json(await applyCommissionClawbacks());
+        } catch (error: any) {
+          console.error("Error applying commission clawbacks:", error);
+          res.status(500).json({
+            message: `Failed to apply commission clawbacks: ${error.message}`,
+          });
+        }
+      },
+    );
+  }
+
+  // ===== COMMISSION PRODUCT MAPPINGS =====
+  // Classification for HubSpot products outside the service registry, and
+  // the invoice lines nothing classifies yet
+  {
+    const { z } = await import("zod");
+    const {
+      PRODUCT_COMMISSION_TYPES,
+      isRegistryProduct,
+      unclassifiedLineItemReport,
+    } = await import("@shared/commission-classification");
+
+    const productMappingSchema = z.object({
+      hubspotProductId: z.string().trim().min(1).max(40),
+      productName: z.string().trim().nullable().optional(),
+      commissionType: z.enum(PRODUCT_COMMISSION_TYPES),
+      serviceType: z.string().trim().min(1).nullable().optional(),
+      notes: z.string().nullable().optional(),
+    });
+
+    app.get(
+      "/api/admin/commission-products/mappings",
+      requireAuth,
+      requireAdmin,
+      async (req, res) => {
+        try {
+          res.json(await storage.getCommissionProductMappings());
+        } catch (error: any) {
+          console.error("Error fetching product mappings:", error);
+          res.status(500).json({
+            message: `Failed to fetch product mappings: ${error.message}`,
+          });
+        }
+      },
+    );
+
+    app.put(
+      "/api/admin/commission-products/mappings",
+      requireAuth,
+      requireAdmin,
+      async (req, res) => {
+        try {
+          const parsed = productMappingSchema.safeParse(req.body);
+          if (!parsed.success) {
+            return res.status(400).json({
+              message: "Invalid product mapping",
+              errors: parsed.error.issues,
+            });
+          }
+          if (isRegistryProduct(parsed.data.hubspotProductId)) {
+            return res.status(400).json({
+              message: `Product ${parsed.data.hubspotProductId} is classified by the service registry`,
+            });
+          }
+          const saved = await storage.upsertCommissionProductMapping({
+            ...parsed.data,
+            createdBy: req.user?.id ?? null,
+          });
+          res.json(saved);
+        } catch (error: any) {
+          console.error("Error saving product mapping:", error);
+          res.status(500).json({
+            message: `Failed to save product mapping: ${error.message}`,
+          });
+        }
+      },
+    );
+
+    app.delete(
+      "/api/admin/commission-products/mappings/:id",
+      requireAuth,
+      requireAdmin,
+      async (req, res) => {
+        try {
+          const id = parseInt(req.params.id);
+          if (isNaN(id)) {
+            return res.status(400).json({ message: "Invalid mapping ID" });
+          }
+          if (!(await storage.deleteCommissionProductMapping(id))) {
+            return res.status(404).json({ message: "Mapping not found" });
+          }
+          res.json({ message: "Mapping deleted" });
+        } catch (error: any) {
+          console.error("Error deleting product mapping:", error);
+          res.status(500).json({
+            message: `Failed to delete product mapping: ${error.message}`,
+          });
+        }
+      },
+    );
+
+    app.get(
+      "/api/admin/commission-products/unclassified",
+      requireAuth,
+      requireAdmin,
+      async (req, res) => {
+        try {
+          const [lines, mappings] = await Promise.all([
+            storage.getInvoiceLineItemsWithInvoice(),
+            storage.getCommissionProductMappings(),
+          ]);
+          res.json(
+            unclassifiedLineItemReport(
+              lines.map((line) => ({
+                productId: line.hubspotProductId,
+                recurringBillingFrequency: line.recurringBillingFrequency,
+                name: line.name,
+                amount: parseFloat(line.totalPrice),
+                invoice: line.invoiceNumber ?? line.companyName,
+              })),
+              mappings,
+            ),
+          );
+        } catch (error: any) {
+          console.error("Error building unclassified line report:", error);
+          res.status(500).json({
+            message: `Failed to build unclassified line report: ${error.message}`,
+          });
+        }
+      },
+    );
+  }
+
+  // ===== SEED ASSISTANT INDEX =====
+  // Retrieval index status, full rebuilds, and the Box client folders
+  // approved for indexing
+  {
+    const { z } = await import("zod");
+    const {
+      indexBoxFolder,
+      isAssistantIndexRebuilding,
+      startAssistantIndexRebuild,
+    } = await import("./assistant-index");
+    const { getEmbeddingProvider } = await import("./embeddings");
+    const { boxService } = await import("./box-integration");
+
+    const boxFolderSchema = z.object({
+      folderId: z.string().trim().regex(/^\d+$/, "Box folder IDs are numeric"),
+    });
+
+    // Indexing errors are recorded on the folder row, so nothing to report here
+    const indexFolderInBackground = (
+      folder: Parameters<typeof indexBoxFolder>[0],
+    ) => {
+      indexBoxFolder(folder).catch(() => {});
+    };
+
+    app.get(
+      "/api/admin/assistant-index",
+      requireAuth,
+      requireAdmin,
+      async (req, res) => {
+        try {
+          const [stats, folders] = await Promise.all([
+            storage.getAssistantIndexStats(),
+            storage.getAssistantBoxFolders(),
+          ]);
+          res.json({
+            embeddingModel: getEmbeddingProvider().model,
+            rebuilding: isAssistantIndexRebuilding(),
+            stats,
+            folders,
+          });
+        } catch (error: any) {
+          console.error("Error fetching assistant index status:", error);
+          res.status(500).json({
+            message: `Failed to fetch assistant index status: ${error.message}`,
+          });
+        }
+      },
+    );
+
+    app.post(
+      "/api/admin/assistant-index/rebuild",
+      requireAuth,
+      requireAdmin,
+      async (req, res) => {
+        if (!startAssistantIndexRebuild()) {
+          return res
+            .status(409)
+            .json({ message: "A rebuild is already running" });
+        }
+        res.status(202).json({ message: "Rebuild started" });
+      },
+    );
+
+    app.post(
+      "/api/admin/assistant-index/box-folders",
+      requireAuth,
+      requireAdmin,
+      async (req, res) => {
+        try {
+          const parsed = boxFolderSchema.safeParse(req.body);
+          if (!parsed.success) {
+            return res.status(400).json({
+              message: "Invalid Box folder",
+              errors: parsed.error.issues,
+            });
+          }
+          const { folderId } = parsed.data;
+          if (!(await boxService.isUnderClientsRoot(folderId, "folder"))) {
+            return res.status(400).json({
+              message: "Only folders under the Box client root can be indexed",
+            });
+          }
+          const info = await boxService.getFolderInfo(folderId);
+          const folder = await storage.createAssistantBoxFolder({
+            folderId,
+            name: info?.name ?? folderId,
+            approvedBy: req.user?.id ?? null,
+          });
+          indexFolderInBackground(folder);
+          res.status(201).json(folder);
+        } catch (error: any) {
+          if (error.code === "23505") {
+            return res
+              .status(409)
+              .json({ message: "This folder is already approved" });
+          }
+          console.error("Error approving Box folder:", error);
+          res.status(500).json({
+            message: `Failed to approve Box folder: ${error.message}`,
+          });
+        }
+      },
+    );
+
+    app.post(
+      "/api/admin/assistant-index/box-folders/:id/reindex",
+      requireAuth,
+      requireAdmin,
+      async (req, res) => {
+        try {
+          const id = parseInt(req.params.id);
+          const folder = isNaN(id)
+            ? undefined
+            : await storage.getAssistantBoxFolder(id);
+          if (!folder) {
+            return res.status(404).json({ message: "Folder not found" });
+          }
+          indexFolderInBackground(folder);
+          res.status(202).json({ message: "Re-index started" });
+        } catch (error: any) {
+          console.error("Error re-indexing Box folder:", error);
+          res.status(500).json({
+            message: `Failed to re-index Box folder: ${error.message}`,
+          });
+        }
+      },
+    );
+
+    app.delete(
+      "/api/admin/assistant-index/box-folders/:id",
+      requireAuth,
+      requireAdmin,
+      async (req, res) => {
+        try {
+          const id = parseInt(req.params.id);
+          if (isNaN(id) || !(await storage.getAssistantBoxFolder(id))) {
+            return res.status(404).json({ message: "Folder not found" });
+          }
+          await storage.deleteAssistantBoxFolder(id);
+          res.json({ message: "Folder approval revoked" });
+        } catch (error: any) {
+          console.error("Error revoking Box folder:", error);
+          res.status(500).json({
+            message: `Failed to revoke Box folder: ${error.message}`,
+          });
+        }
+      },
+    );
+  }
+
+  // ===== SEED ASSISTANT FEEDBACK =====
+  // Thumbs-down answers with the question and comment, for tuning prompts
+  // and filling KB gaps
+  app.get(
+    "/api/admin/assistant/low-rated-answers",
+    requireAuth,
+    requireAdmin,
+    async (req, res) => {
+      try {
+        const days = Math.min(parseInt(String(req.query.days)) || 90, 365);
+        res.json(await storage.getLowRatedAssistantAnswers(days));
+      } catch (error) {
+        console.error("Error fetching low-rated assistant answers:", error);
+        res.status(500).json({
+          message: `Failed to fetch low-rated answers: ${getErrorMessage(error)}`,
+        });
+      }
+    },
+  );
+
+  // ===== LLM USAGE =====
+  // Where each feature's model calls go, and tokens and spend per user and
+  // feature
+  {
+    const { LLM_FEATURES, resolveLlmRoute } = await import("./services/llm");
+
+    app.get(
+      "/api/admin/llm-usage",
+      requireAuth,
+      requireAdmin,
+      async (req, res) => {
+        try {
+          const days = Math.min(parseInt(String(req.query.days)) || 30, 365);
+          const usage = await storage.getLlmUsageSummary(days);
+          res.json({
+            days,
+            routes: LLM_FEATURES.map((feature) => ({
+              feature,
+              ...resolveLlmRoute(feature),
+            })),
+            usage,
+            totals: usage.reduce(
+              (sum, row) => ({
+                calls: sum.calls + row.calls,
+                failures: sum.failures + row.failures,
+                inputTokens: sum.inputTokens + row.inputTokens,
+                outputTokens: sum.outputTokens + row.outputTokens,
+                costUsd: sum.costUsd + row.costUsd,
+              }),
+              {
+                calls: 0,
+                failures: 0,
+                inputTokens: 0,
+                outputTokens: 0,
+                costUsd: 0,
+              },
+            ),
+          });
+        } catch (error: any) {
+          console.error("Error fetching LLM usage:", error);
+          res.status(500).json({
+            message: `Failed to fetch LLM usage: ${error.message}`,
+          });
+        }
+      },
+    );
+  }
+
   // ===== CALCULATOR MANAGER: SERVICE CONTENT =====
   {
     const { insertCalculatorServiceContentSchema } = await import(
@@ -1215,6 +2800,7 @@ export async function registerAdminRoutes(app: Express): Promise<void> {
       getDefaultSowTitle,
       getDefaultSowTemplate,
     } = await import("./calculator-defaults");
+    const { unknownSowTokens } = await import("@shared/sow-template");
 
     const safeParse = (s?: string | null): any => {
       if (!s) return {};
@@ -1374,6 +2960,15 @@ export async function registerAdminRoutes(app: Express): Promise<void> {
           const payload = insertCalculatorServiceContentSchema
             .partial()
             .parse(req.body);
+          const unknownTokens = payload.sowTemplate
+            ? unknownSowTokens(payload.sowTemplate)
+            : [];
+          if (unknownTokens.length > 0) {
+            return res.status(400).json({
+              message: `Unknown SOW template tokens: ${unknownTokens.join(", ")}`,
+              unknownTokens,
+            });
+          }
           const userId = req.user?.id;
           if (!userId) {
             return res.status(401).json({ message: "User ID required" });
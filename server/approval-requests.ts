@@ -0,0 +1,143 @@
+/**
+ * Quote approval requests
+ * Reps never see anything they could use to approve themselves: the request
+ * goes to the admin queue (and Slack), the rep polls for the decision, and
+ * the quote save consumes the approved request exactly once.
+ */
+
+import { storage } from "./storage";
+import { sendApprovalRequestAlert } from "./slack";
+import type {
+  ApprovalRequest,
+  ApprovalRequestEvent,
+  User,
+} from "@shared/schema";
+import {
+  APPROVAL_REQUEST_TYPE_LABELS,
+  MAX_QUOTE_SNAPSHOT_CHARS,
+  approvalUnusableReason,
+  parseRequestedOverride,
+  type ApprovalRequestType,
+  type CreateApprovalRequest,
+  type RequestedOverride,
+} from "@shared/approvals";
+
+export interface ApprovalRequestView extends ApprovalRequest {
+  requestedOverride: RequestedOverride;
+  quoteSnapshot: Record<string, unknown> | null;
+  requesterEmail: string | null;
+  approverEmail: string | null;
+  events?: Array<ApprovalRequestEvent & { actorEmail: string | null }>;
+}
+
+export function parseApprovalRequestId(value: unknown): number | null {
+  const id = typeof value === "string" ? parseInt(value, 10) : value;
+  return typeof id === "number" && Number.isInteger(id) && id > 0 ? id : null;
+}
+
+function parseSnapshot(json: string | null): Record<string, unknown> | null {
+  if (!json) return null;
+  try {
+    return JSON.parse(json);
+  } catch {
+    return null;
+  }
+}
+
+// Attach requester/approver/actor emails so the queue can show who did what
+export async function toApprovalRequestViews(
+  requests: ApprovalRequest[],
+  options: { includeEvents?: boolean } = {},
+): Promise<ApprovalRequestView[]> {
+  const events = options.includeEvents
+    ? await storage.getApprovalRequestEvents(requests.map((r) => r.id))
+    : [];
+  const userIds = new Set<number>();
+  for (const r of requests) {
+    userIds.add(r.requestedBy);
+    if (r.approverId) userIds.add(r.approverId);
+  }
+  for (const e of events) if (e.actorId) userIds.add(e.actorId);
+
+  const users = new Map<number, User | undefined>();
+  await Promise.all(
+    [...userIds].map(async (id) => users.set(id, await storage.getUser(id))),
+  );
+  const emailOf = (id: number | null) => (id && users.get(id)?.email) || null;
+
+  return requests.map((r) => ({
+    ...r,
+    requestedOverride: parseRequestedOverride(r.requestedOverrideJson),
+    quoteSnapshot: parseSnapshot(r.quoteSnapshotJson),
+    requesterEmail: emailOf(r.requestedBy),
+    approverEmail: emailOf(r.approverId),
+    ...(options.includeEvents
+      ? {
+          events: events
+            .filter((e) => e.approvalRequestId === r.id)
+            .map((e) => ({ ...e, actorEmail: emailOf(e.actorId) })),
+        }
+      : {}),
+  }));
+}
+
+export async function createApprovalRequest(
+  input: CreateApprovalRequest,
+  requester: { id: number; email: string },
+): Promise<ApprovalRequest> {
+  let quoteSnapshotJson: string | null = input.quoteSnapshot
+    ? JSON.stringify(input.quoteSnapshot)
+    : null;
+  if (
+    quoteSnapshotJson &&
+    quoteSnapshotJson.length > MAX_QUOTE_SNAPSHOT_CHARS
+  ) {
+    quoteSnapshotJson = null;
+  }
+
+  const request = await storage.createApprovalRequest({
+    type: input.type,
+    contactEmail: input.contactEmail,
+    quoteId: input.quoteId ?? null,
+    requestedBy: requester.id,
+    reason: input.reason,
+    requestedOverrideJson: input.requestedOverride
+      ? JSON.stringify(input.requestedOverride)
+      : null,
+    quoteSnapshotJson,
+  });
+
+  await sendApprovalRequestAlert({
+    id: request.id,
+    typeLabel: APPROVAL_REQUEST_TYPE_LABELS[input.type],
+    contactEmail: request.contactEmail,
+    requesterEmail: requester.email,
+    reason: request.reason,
+    maxDiscountPct: input.requestedOverride?.maxDiscountPct,
+    quoteId: request.quoteId,
+  });
+  return request;
+}
+
+// The approved request that covers a quote save, or why none does. Nothing
+// is used here: the save passes the request to storage, which uses it in the
+// same transaction once every other check has passed.
+export async function checkApproval(
+  approvalRequestId: unknown,
+  use: {
+    type: ApprovalRequestType;
+    contactEmail: string;
+    quoteId?: number;
+    discountPct?: number;
+    actorId: number;
+  },
+): Promise<{ message: string } | { request: ApprovalRequest }> {
+  const id = parseApprovalRequestId(approvalRequestId);
+  const request = id ? await storage.getApprovalRequest(id) : undefined;
+  if (!request) {
+    return { message: "Approval required" };
+  }
+  const unusable = approvalUnusableReason(request, use);
+  if (unusable) return { message: unusable };
+  return { request };
+}
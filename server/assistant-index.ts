@@ -0,0 +1,346 @@
+/**
+ * Seed Assistant retrieval index
+ *
+ * Published KB articles and files in admin-approved Box client folders are
+ * chunked, embedded and stored in assistant_index_chunks. Questions are
+ * embedded with the same provider and only the top-ranked passages go into
+ * the prompt, each numbered so the answer can cite it.
+ */
+
+import { createHash } from "crypto";
+import type {
+  AssistantBoxFolder,
+  InsertAssistantIndexChunk,
+  KbArticle,
+} from "@shared/schema";
+import {
+  boxFileAssistantUrl,
+  buildAssistantContext,
+  chunkAssistantText,
+  kbArticleAssistantUrl,
+  rankAssistantPassages,
+  type AssistantCitation,
+  type AssistantPassage,
+  type AssistantSource,
+  type AssistantSourceType,
+} from "@shared/assistant-retrieval";
+import { kbContentLines } from "@shared/kb";
+import { boxService } from "./box-integration";
+import { extractTextFromBoxFile, MAX_INDEXED_DOC_CHARS } from "./doc-extract";
+import { getEmbeddingProvider, type EmbeddingProvider } from "./embeddings";
+import { logger } from "./logger";
+import { storage } from "./storage";
+
+const MAX_FOLDER_FILES = 500;
+const MAX_FOLDER_DEPTH = 5;
+const PASSAGES_PER_QUESTION = 8;
+
+export type IndexSourceResult = "indexed" | "unchanged" | "removed";
+
+export interface BoxFolderIndexResult {
+  indexed: number;
+  unchanged: number;
+  removed: number;
+}
+
+function sourceHash(source: AssistantSource, model: string): string {
+  return createHash("sha256")
+    .update(`${model}\n${source.title}\n${source.text}`)
+    .digest("hex");
+}
+
+// Embedded chunks for one source; the title is prepended to every chunk so
+// passages deep in a document still carry what it is about
+async function embedSource(
+  source: AssistantSource,
+  provider: EmbeddingProvider,
+): Promise<Array<{ content: string; embedding: number[] }>> {
+  const chunks = chunkAssistantText(source.text);
+  if (chunks.length === 0) return [];
+  const embeddings = await provider.embed(
+    chunks.map((chunk) => `${source.title}\n${chunk}`),
+  );
+  return chunks.map((content, i) => ({
+    content,
+    embedding: embeddings[i] ?? [],
+  }));
+}
+
+async function indexSource(
+  source: AssistantSource,
+  boxFolderId: string | null = null,
+): Promise<IndexSourceResult> {
+  const provider = getEmbeddingProvider();
+  const contentHash = sourceHash(source, provider.model);
+  const existing = await storage.getAssistantSourceHash(
+    source.sourceType,
+    source.sourceId,
+    provider.model,
+  );
+  if (existing === contentHash) return "unchanged";
+
+  const embedded = await embedSource(source, provider);
+  const rows: InsertAssistantIndexChunk[] = embedded.map((chunk, i) => ({
+    sourceType: source.sourceType,
+    sourceId: source.sourceId,
+    title: source.title,
+    url: source.url,
+    boxFolderId,
+    chunkIndex: i,
+    content: chunk.content,
+    embedding: chunk.embedding,
+    embeddingModel: provider.model,
+    contentHash,
+  }));
+  await storage.replaceAssistantSourceChunks(
+    source.sourceType,
+    source.sourceId,
+    rows,
+  );
+  return rows.length > 0 ? "indexed" : "removed";
+}
+
+export function kbArticleSource(article: KbArticle): AssistantSource {
+  return {
+    sourceType: "kb_article",
+    sourceId: String(article.id),
+    title: article.title,
+    url: kbArticleAssistantUrl(article.slug),
+    text: [article.excerpt ?? "", ...kbContentLines(article.content)]
+      .filter(Boolean)
+      .join("\n"),
+  };
+}
+
+// Index a published article; anything else (draft, archived, deleted) is
+// dropped from the index
+export async function indexKbArticle(
+  articleId: number,
+): Promise<IndexSourceResult> {
+  const article = await storage.getKbArticle(articleId);
+  if (!article || article.status !== "published") {
+    await storage.deleteAssistantSourceChunks("kb_article", String(articleId));
+    return "removed";
+  }
+  return await indexSource(kbArticleSource(article));
+}
+
+async function listFolderFiles(
+  folderId: string,
+  depth = 0,
+  files: Array<{ id: string; name: string }> = [],
+): Promise<Array<{ id: string; name: string }>> {
+  const items = await boxService.listFolderItems(folderId);
+  for (const item of items) {
+    if (files.length >= MAX_FOLDER_FILES) break;
+    if (item.type === "file") {
+      files.push({ id: item.id, name: item.name });
+    } else if (depth + 1 < MAX_FOLDER_DEPTH) {
+      await listFolderFiles(item.id, depth + 1, files);
+    }
+  }
+  return files;
+}
+
+// Index every file under an approved folder (subfolders included) and drop
+// files that have since been removed from it
+export async function indexBoxFolder(
+  folder: AssistantBoxFolder,
+): Promise<BoxFolderIndexResult> {
+  const result: BoxFolderIndexResult = { indexed: 0, unchanged: 0, removed: 0 };
+  try {
+    const files = await listFolderFiles(folder.folderId);
+    const current = new Set<string>();
+    for (const file of files) {
+      const extracted = await extractTextFromBoxFile(
+        file.id,
+        MAX_INDEXED_DOC_CHARS,
+      );
+      if (!extracted?.text.trim()) continue;
+      current.add(file.id);
+      const outcome = await indexSource(
+        {
+          sourceType: "box_file",
+          sourceId: file.id,
+          title: extracted.name,
+          url: boxFileAssistantUrl(file.id),
+          text: extracted.text,
+        },
+        folder.folderId,
+      );
+      result[outcome]++;
+    }
+
+    for (const fileId of await storage.getAssistantIndexedBoxFileIds(
+      folder.folderId,
+    )) {
+      if (current.has(fileId)) continue;
+      await storage.deleteAssistantSourceChunks("box_file", fileId);
+      result.removed++;
+    }
+
+    await storage.updateAssistantBoxFolder(folder.id, {
+      lastIndexedAt: new Date(),
+      lastIndexError: null,
+    });
+    return result;
+  } catch (error: any) {
+    logger.error("[AssistantIndex] Box folder indexing failed", {
+      folderId: folder.folderId,
+      error: error.message,
+    });
+    await storage.updateAssistantBoxFolder(folder.id, {
+      lastIndexedAt: folder.lastIndexedAt,
+      lastIndexError: error.message,
+    });
+    throw error;
+  }
+}
+
+// Re-index every KB article and approved Box folder. Unchanged sources are
+// skipped, so this is cheap unless the embedding provider changed.
+export async function rebuildAssistantIndex(): Promise<{
+  articles: Record<IndexSourceResult, number>;
+  folders: BoxFolderIndexResult & { failed: number };
+}> {
+  const articles: Record<IndexSourceResult, number> = {
+    indexed: 0,
+    unchanged: 0,
+    removed: 0,
+  };
+  for (const article of await storage.getKbArticles()) {
+    articles[await indexKbArticle(article.id)]++;
+  }
+
+  const folders = { indexed: 0, unchanged: 0, removed: 0, failed: 0 };
+  for (const folder of await storage.getAssistantBoxFolders()) {
+    try {
+      const result = await indexBoxFolder(folder);
+      folders.indexed += result.indexed;
+      folders.unchanged += result.unchanged;
+      folders.removed += result.removed;
+    } catch {
+      folders.failed++;
+    }
+  }
+  return { articles, folders };
+}
+
+// Full rebuilds run in the background (Box folders can take minutes); only
+// one at a time
+let rebuilding = false;
+
+export function isAssistantIndexRebuilding(): boolean {
+  return rebuilding;
+}
+
+export function startAssistantIndexRebuild(): boolean {
+  if (rebuilding) return false;
+  rebuilding = true;
+  rebuildAssistantIndex()
+    .then((result) => logger.info("[AssistantIndex] Rebuild complete", result))
+    .catch((error: any) =>
+      logger.error("[AssistantIndex] Rebuild failed", { error: error.message }),
+    )
+    .finally(() => {
+      rebuilding = false;
+    });
+  return true;
+}
+
+// Background re-index after article changes, one article at a time so a
+// burst of edits doesn't fan out into parallel embedding calls
+const pendingArticles = new Set<number>();
+let draining = false;
+
+async function drainArticleQueue(): Promise<void> {
+  draining = true;
+  try {
+    for (const articleId of pendingArticles) {
+      pendingArticles.delete(articleId);
+      try {
+        await indexKbArticle(articleId);
+      } catch (error: any) {
+        logger.error("[AssistantIndex] Article re-index failed", {
+          articleId,
+          error: error.message,
+        });
+      }
+    }
+  } finally {
+    draining = false;
+  }
+}
+
+export function queueKbArticleReindex(articleId: number): void {
+  pendingArticles.add(articleId);
+  if (!draining) setImmediate(() => void drainArticleQueue());
+}
+
+export interface AssistantRetrieval {
+  context: string;
+  citations: AssistantCitation[];
+}
+
+/**
+ * Top passages for a question from the index, plus any files attached to
+ * the request (searched in place, not stored). Box content is only searched
+ * when the caller's persona may see it. Retrieval failures degrade to no
+ * context rather than failing the question.
+ */
+export async function retrieveAssistantContext(
+  question: string,
+  options: {
+    includeBox: boolean;
+    attachments?: Array<{ id: string; name: string; text: string }>;
+  },
+): Promise<AssistantRetrieval> {
+  try {
+    const provider = getEmbeddingProvider();
+    const [queryEmbedding = []] = await provider.embed([question]);
+    const sourceTypes: AssistantSourceType[] = options.includeBox
+      ? ["kb_article", "box_file"]
+      : ["kb_article"];
+
+    const passages: AssistantPassage[] = (
+      await storage.getAssistantIndexChunks(provider.model, sourceTypes)
+    ).map((chunk) => ({
+      sourceType: chunk.sourceType as AssistantSourceType,
+      sourceId: chunk.sourceId,
+      title: chunk.title,
+      url: chunk.url,
+      chunkIndex: chunk.chunkIndex,
+      content: chunk.content,
+      embedding: chunk.embedding,
+    }));
+
+    if (options.includeBox) {
+      const indexed = new Set(passages.map((p) => p.sourceId));
+      for (const doc of options.attachments ?? []) {
+        if (indexed.has(doc.id)) continue;
+        const source: AssistantSource = {
+          sourceType: "box_file",
+          sourceId: doc.id,
+          title: doc.name,
+          url: boxFileAssistantUrl(doc.id),
+          text: doc.text,
+        };
+        const embedded = await embedSource(source, provider);
+        embedded.forEach((chunk, i) =>
+          passages.push({ ...source, chunkIndex: i, ...chunk }),
+        );
+      }
+    }
+
+    return buildAssistantContext(
+      rankAssistantPassages(queryEmbedding, passages, {
+        limit: PASSAGES_PER_QUESTION,
+      }),
+    );
+  } catch (error: any) {
+    logger.error("[AssistantIndex] Retrieval failed", {
+      error: error.message,
+    });
+    return { context: "", citations: [] };
+  }
+}
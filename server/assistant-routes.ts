@@ -0,0 +1,546 @@
+/**
+ * Seed Assistant routes: questions (plain and streamed), conversation
+ * threads, share links and answer feedback.
+ *
+ * Every question belongs to a thread. Without a conversationId a new thread
+ * is started in the requested mode; with one, earlier turns are sent back to
+ * the model so follow-ups have context. Threads are private to their owner
+ * (and admins) unless shared, which gives any signed-in user a read-only
+ * link.
+ */
+
+import { randomBytes } from "crypto";
+import type { Express, Request } from "express";
+import { z } from "zod";
+import { requireAuth } from "./auth";
+import { logger } from "./logger";
+import { getErrorMessage } from "./utils/errors";
+import { storage } from "./storage";
+import { boxService } from "./box-integration";
+import { extractBoxAttachmentDocuments } from "./doc-extract";
+import { retrieveAssistantContext } from "./assistant-index";
+import { AIService } from "./services/ai-service";
+import { resolveLlmRoute, type LlmFeature } from "./services/llm";
+import {
+  ASSISTANT_FEEDBACK_RATINGS,
+  assistantConversationTitle,
+  assistantHistoryPrompt,
+  assistantRetrievalQuery,
+  type AssistantConversationDetail,
+  type AssistantMode,
+} from "@shared/assistant-conversations";
+import type { AssistantCitation } from "@shared/assistant-retrieval";
+import type { AssistantConversation, User } from "@shared/schema";
+
+export type AssistantPersona = "sales" | "service" | "admin";
+
+export function assistantPersona(
+  user: Pick<User, "defaultDashboard" | "role"> | undefined,
+): AssistantPersona {
+  const pref = String(user?.defaultDashboard || "").toLowerCase();
+  if (pref.includes("admin")) return "admin";
+  if (pref.includes("service")) return "service";
+  if (pref.includes("sales")) return "sales";
+  // fallback by role
+  return user?.role === "admin" ? "admin" : "sales";
+}
+
+const SYSTEM_PROMPTS: Record<AssistantMode, string> = {
+  sell: `You are Seed Assistant (Sell Mode). Be concise, persuasive, and client-safe. Use bullets and a one-sentence summary. Never fabricate data and avoid quoting documents verbatim.`,
+  support: `You are Seed Assistant (Support Mode). Provide detailed, structured, and technically accurate guidance with assumptions, edge cases, and a final client-ready paragraph. Cite the numbered sources when they are provided. Never quote documents verbatim.`,
+};
+
+const FEATURES: Record<AssistantMode, LlmFeature> = {
+  sell: "assistant_sell",
+  support: "assistant_support",
+};
+
+const aiService = new AIService();
+
+const titleSchema = z.object({ title: z.string().trim().min(1).max(120) });
+
+const feedbackSchema = z.object({
+  rating: z.enum(ASSISTANT_FEEDBACK_RATINGS),
+  comment: z.string().trim().max(2000).nullable().optional(),
+});
+
+type TurnResult =
+  | { error: { status: number; message: string } }
+  | {
+      conversation: AssistantConversation;
+      prompt: string;
+      feature: LlmFeature;
+      model: string;
+      citations: AssistantCitation[];
+    };
+
+// Box attachments the caller named, limited to the CLIENTS subtree
+async function validBoxAttachments(
+  raw: unknown,
+): Promise<Array<{ type: "box_file" | "box_folder"; id: string }>> {
+  const valid: Array<{ type: "box_file" | "box_folder"; id: string }> = [];
+  for (const a of Array.isArray(raw) ? raw : []) {
+    const type = a?.type === "box_folder" ? "folder" : "file";
+    const id = String(a?.id || "");
+    if (!id) continue;
+    if (!(await boxService.isUnderClientsRoot(id, type))) continue;
+    valid.push({ type: type === "file" ? "box_file" : "box_folder", id });
+  }
+  return valid;
+}
+
+/**
+ * Everything up to calling the model: resolve or start the thread, retrieve
+ * sources, build the prompt with earlier turns, and save the question.
+ */
+async function prepareTurn(req: Request): Promise<TurnResult> {
+  const user = req.user!;
+  const persona = assistantPersona(user);
+  const question = (req.body?.question || "").toString().trim();
+  const attachments = Array.isArray(req.body?.attachments)
+    ? req.body.attachments
+    : [];
+  if (!question) {
+    return { error: { status: 400, message: "question is required" } };
+  }
+  if (attachments.length > 0 && persona === "sales") {
+    return {
+      error: {
+        status: 403,
+        message: "Box attachments are not permitted for sales persona",
+      },
+    };
+  }
+
+  let conversation: AssistantConversation | undefined;
+  const conversationId = parseInt(req.body?.conversationId);
+  if (!isNaN(conversationId)) {
+    conversation = await storage.getAssistantConversation(conversationId);
+    if (!conversation || conversation.userId !== user.id) {
+      return { error: { status: 404, message: "Conversation not found" } };
+    }
+  } else {
+    conversation = await storage.createAssistantConversation({
+      userId: user.id,
+      mode: req.body?.mode === "support" ? "support" : "sell",
+      title: assistantConversationTitle(question),
+    });
+  }
+  const mode = conversation.mode as AssistantMode;
+
+  const history = (await storage.getAssistantMessages(conversation.id)).map(
+    (m) => ({ role: m.role as "user" | "assistant", content: m.content }),
+  );
+
+  const canUseBox = persona === "service" || persona === "admin";
+  const valid = canUseBox ? await validBoxAttachments(attachments) : [];
+  const documents = valid.length
+    ? await extractBoxAttachmentDocuments(valid)
+    : [];
+
+  // Top passages from the KB / approved Box index and the attachments
+  const { context, citations } = await retrieveAssistantContext(
+    assistantRetrievalQuery(history, question),
+    { includeBox: canUseBox, attachments: documents },
+  );
+
+  await storage.addAssistantMessage({
+    conversationId: conversation.id,
+    role: "user",
+    content: question,
+  });
+
+  const earlier = history.length
+    ? `\n\nConversation so far:\n${assistantHistoryPrompt(history)}`
+    : "";
+  const sourceNote = citations.length
+    ? `\n\nAnswer from the numbered sources below when they are relevant, and cite them inline as [n].`
+    : "";
+  const kb = context ? `\n\nSources:\n${context}` : "";
+  return {
+    conversation,
+    prompt: `${SYSTEM_PROMPTS[mode]}${earlier}\n\nUser question:\n${question}${sourceNote}${kb}`,
+    feature: FEATURES[mode],
+    model: resolveLlmRoute(FEATURES[mode]).model,
+    citations,
+  };
+}
+
+function displayName(user: User | undefined): string | null {
+  if (!user) return null;
+  return (
+    [user.firstName, user.lastName].filter(Boolean).join(" ") || user.email
+  );
+}
+
+// Thread with messages; feedback is the viewer's own ratings
+async function conversationDetail(
+  conversation: AssistantConversation,
+  viewerId: number,
+): Promise<AssistantConversationDetail> {
+  const [messages, feedback, owner] = await Promise.all([
+    storage.getAssistantMessages(conversation.id),
+    storage.getAssistantMessageFeedback(conversation.id, viewerId),
+    storage.getUser(conversation.userId),
+  ]);
+  const feedbackByMessage = new Map(feedback.map((f) => [f.messageId, f]));
+  return {
+    ...conversation,
+    mode: conversation.mode as AssistantMode,
+    createdAt: conversation.createdAt.toISOString(),
+    updatedAt: conversation.updatedAt.toISOString(),
+    ownerName: displayName(owner),
+    messages: messages.map((m) => {
+      const rated = feedbackByMessage.get(m.id);
+      return {
+        id: m.id,
+        role: m.role as "user" | "assistant",
+        content: m.content,
+        citations: m.citations,
+        createdAt: m.createdAt.toISOString(),
+        feedback: rated
+          ? {
+              rating: rated.rating as "up" | "down",
+              comment: rated.comment,
+            }
+          : null,
+      };
+    }),
+  };
+}
+
+function canOpen(req: Request, conversation: AssistantConversation): boolean {
+  return conversation.userId === req.user!.id || req.user!.role === "admin";
+}
+
+async function ownedConversation(req: Request, rawId: string) {
+  const id = parseInt(rawId);
+  const conversation = isNaN(id)
+    ? undefined
+    : await storage.getAssistantConversation(id);
+  return conversation && conversation.userId === req.user!.id
+    ? conversation
+    : undefined;
+}
+
+export function registerAssistantRoutes(app: Express) {
+  // ===== QUESTIONS =====
+  app.post("/api/ai/query", requireAuth, async (req, res) => {
+    try {
+      const turn = await prepareTurn(req);
+      if ("error" in turn) {
+        return res
+          .status(turn.error.status)
+          .json({ message: turn.error.message });
+      }
+      const answer = await aiService.generateContent(turn.prompt, {
+        feature: turn.feature,
+        userId: req.user!.id,
+        maxTokens: 1200,
+        temperature: 0.4,
+      });
+      const message = await storage.addAssistantMessage({
+        conversationId: turn.conversation.id,
+        role: "assistant",
+        content: answer,
+        citations: turn.citations,
+        model: turn.model,
+      });
+      return res.json({
+        answer,
+        citations: turn.citations,
+        conversationId: turn.conversation.id,
+        messageId: message.id,
+      });
+    } catch (error) {
+      logger.error("[Assistant] query failed", {
+        error: getErrorMessage(error),
+      });
+      return res.status(500).json({
+        message: "AI query failed",
+        error: getErrorMessage(error),
+      });
+    }
+  });
+
+  // SSE: a meta event with citations and the thread ID, the answer as
+  // deltas, then a meta event with the saved answer's message ID
+  app.post("/api/ai/query/stream", requireAuth, async (req, res) => {
+    try {
+      const turn = await prepareTurn(req);
+      if ("error" in turn) {
+        res.status(turn.error.status);
+        return res.end();
+      }
+
+      res.setHeader("Content-Type", "text/event-stream");
+      res.setHeader("Cache-Control", "no-cache, no-transform");
+      res.setHeader("Connection", "keep-alive");
+      res.flushHeaders();
+
+      const write = (obj: unknown) => {
+        try {
+          res.write(`data: ${JSON.stringify(obj)}\n\n`);
+        } catch {}
+      };
+
+      write({
+        meta: {
+          citations: turn.citations,
+          conversationId: turn.conversation.id,
+        },
+      });
+
+      let answer = "";
+      await aiService.streamChat(turn.prompt, {
+        feature: turn.feature,
+        userId: req.user!.id,
+        maxTokens: 1200,
+        temperature: 0.4,
+        onDelta: (delta: string) => {
+          answer += delta;
+          write({ delta });
+        },
+      });
+
+      const message = await storage.addAssistantMessage({
+        conversationId: turn.conversation.id,
+        role: "assistant",
+        content: answer,
+        citations: turn.citations,
+        model: turn.model,
+      });
+      write({ meta: { messageId: message.id } });
+
+      res.write("data: [DONE]\n\n");
+      res.end();
+    } catch (error) {
+      logger.error("[Assistant] streamed query failed", {
+        error: getErrorMessage(error),
+      });
+      try {
+        res.end();
+      } catch {}
+    }
+  });
+
+  // ===== CONVERSATIONS =====
+  app.get("/api/assistant/conversations", requireAuth, async (req, res) => {
+    try {
+      const mode =
+        req.query.mode === "sell" || req.query.mode === "support"
+          ? req.query.mode
+          : undefined;
+      res.json(await storage.getUserAssistantConversations(req.user!.id, mode));
+    } catch (error) {
+      logger.error("[Assistant] Failed to fetch conversations", {
+        error: getErrorMessage(error),
+      });
+      res
+        .status(500)
+        .json({
+          message: `Failed to fetch conversations: ${getErrorMessage(error)}`,
+        });
+    }
+  });
+
+  app.get("/api/assistant/conversations/:id", requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const conversation = isNaN(id)
+        ? undefined
+        : await storage.getAssistantConversation(id);
+      if (!conversation || !canOpen(req, conversation)) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+      res.json(await conversationDetail(conversation, req.user!.id));
+    } catch (error) {
+      logger.error("[Assistant] Failed to fetch conversation", {
+        error: getErrorMessage(error),
+      });
+      res
+        .status(500)
+        .json({
+          message: `Failed to fetch conversation: ${getErrorMessage(error)}`,
+        });
+    }
+  });
+
+  app.patch(
+    "/api/assistant/conversations/:id",
+    requireAuth,
+    async (req, res) => {
+      try {
+        const parsed = titleSchema.safeParse(req.body);
+        if (!parsed.success) {
+          return res.status(400).json({
+            message: "Invalid conversation",
+            errors: parsed.error.issues,
+          });
+        }
+        const conversation = await ownedConversation(req, req.params.id);
+        if (!conversation) {
+          return res.status(404).json({ message: "Conversation not found" });
+        }
+        res.json(
+          await storage.updateAssistantConversation(conversation.id, {
+            title: parsed.data.title,
+          }),
+        );
+      } catch (error) {
+        logger.error("[Assistant] Failed to rename conversation", {
+          error: getErrorMessage(error),
+        });
+        res.status(500).json({
+          message: `Failed to rename conversation: ${getErrorMessage(error)}`,
+        });
+      }
+    },
+  );
+
+  app.delete(
+    "/api/assistant/conversations/:id",
+    requireAuth,
+    async (req, res) => {
+      try {
+        const conversation = await ownedConversation(req, req.params.id);
+        if (!conversation) {
+          return res.status(404).json({ message: "Conversation not found" });
+        }
+        await storage.deleteAssistantConversation(conversation.id);
+        res.json({ message: "Conversation deleted" });
+      } catch (error) {
+        logger.error("[Assistant] Failed to delete conversation", {
+          error: getErrorMessage(error),
+        });
+        res.status(500).json({
+          message: `Failed to delete conversation: ${getErrorMessage(error)}`,
+        });
+      }
+    },
+  );
+
+  // ===== SHARING =====
+  // Sharing again keeps the existing link
+  app.post(
+    "/api/assistant/conversations/:id/share",
+    requireAuth,
+    async (req, res) => {
+      try {
+        const conversation = await ownedConversation(req, req.params.id);
+        if (!conversation) {
+          return res.status(404).json({ message: "Conversation not found" });
+        }
+        const shared = conversation.shareToken
+          ? conversation
+          : await storage.updateAssistantConversation(conversation.id, {
+              shareToken: randomBytes(18).toString("base64url"),
+            });
+        res.json({ shareToken: shared.shareToken });
+      } catch (error) {
+        logger.error("[Assistant] Failed to share conversation", {
+          error: getErrorMessage(error),
+        });
+        res.status(500).json({
+          message: `Failed to share conversation: ${getErrorMessage(error)}`,
+        });
+      }
+    },
+  );
+
+  app.delete(
+    "/api/assistant/conversations/:id/share",
+    requireAuth,
+    async (req, res) => {
+      try {
+        const conversation = await ownedConversation(req, req.params.id);
+        if (!conversation) {
+          return res.status(404).json({ message: "Conversation not found" });
+        }
+        await storage.updateAssistantConversation(conversation.id, {
+          shareToken: null,
+        });
+        res.json({ message: "Share link revoked" });
+      } catch (error) {
+        logger.error("[Assistant] Failed to revoke share link", {
+          error: getErrorMessage(error),
+        });
+        res.status(500).json({
+          message: `Failed to revoke share link: ${getErrorMessage(error)}`,
+        });
+      }
+    },
+  );
+
+  app.get("/api/assistant/shared/:token", requireAuth, async (req, res) => {
+    try {
+      const conversation = await storage.getAssistantConversationByShareToken(
+        req.params.token,
+      );
+      if (!conversation) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+      const detail = await conversationDetail(conversation, req.user!.id);
+      // The link is read-only; don't hand out the token to re-share
+      res.json({ ...detail, shareToken: null });
+    } catch (error) {
+      logger.error("[Assistant] Failed to fetch shared conversation", {
+        error: getErrorMessage(error),
+      });
+      res
+        .status(500)
+        .json({
+          message: `Failed to fetch conversation: ${getErrorMessage(error)}`,
+        });
+    }
+  });
+
+  // ===== FEEDBACK =====
+  app.put(
+    "/api/assistant/messages/:id/feedback",
+    requireAuth,
+    async (req, res) => {
+      try {
+        const parsed = feedbackSchema.safeParse(req.body);
+        if (!parsed.success) {
+          return res.status(400).json({
+            message: "Invalid feedback",
+            errors: parsed.error.issues,
+          });
+        }
+        const id = parseInt(req.params.id);
+        const message = isNaN(id)
+          ? undefined
+          : await storage.getAssistantMessage(id);
+        const conversation = message
+          ? await storage.getAssistantConversation(message.conversationId)
+          : undefined;
+        if (
+          !message ||
+          message.role !== "assistant" ||
+          !conversation ||
+          !canOpen(req, conversation)
+        ) {
+          return res.status(404).json({ message: "Answer not found" });
+        }
+        res.json(
+          await storage.upsertAssistantMessageFeedback({
+            messageId: message.id,
+            userId: req.user!.id,
+            rating: parsed.data.rating,
+            comment: parsed.data.comment || null,
+          }),
+        );
+      } catch (error) {
+        logger.error("[Assistant] Failed to save feedback", {
+          error: getErrorMessage(error),
+        });
+        res
+          .status(500)
+          .json({
+            message: `Failed to save feedback: ${getErrorMessage(error)}`,
+          });
+      }
+    },
+  );
+}
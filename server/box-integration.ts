@@ -157,29 +157,28 @@ export class BoxService {
   }
 
   /**
-   * Upload SOW documents for selected services
+   * Upload statements of work rendered from the calculator SOW templates
+   * @param folderId - Client folder ID
+   * @param documents - One generated .docx per service on the quote
    */
   async uploadSOWDocuments(
     folderId: string,
-    services: string[],
+    documents: Array<{ service: string; fileName: string; buffer: Buffer }>,
   ): Promise<any[]> {
     try {
       const results = [];
 
-      for (const service of services) {
-        const sowTemplate = await this.getSOWTemplate(service);
-        if (sowTemplate) {
-          const result = await this.client.files.uploadFile(
-            folderId,
-            `${service}_SOW.docx`,
-            sowTemplate,
-          );
-          results.push({
-            service,
-            fileId: result.entries[0].id,
-            fileName: result.entries[0].name,
-          });
-        }
+      for (const document of documents) {
+        const result = await this.client.files.uploadFile(
+          folderId,
+          document.fileName,
+          document.buffer,
+        );
+        results.push({
+          service: document.service,
+          fileId: result.entries[0].id,
+          fileName: result.entries[0].name,
+        });
       }
 
       logger.info("[Box] SOW documents uploaded", {
@@ -193,50 +192,6 @@ export class BoxService {
     }
   }
 
-  /**
-   * Get SOW template for specific service type
-   */
-  private async getSOWTemplate(service: string): Promise<Buffer | null> {
-    // Template mapping for different service types
-    const templates = {
-      bookkeeping: process.env["BOX_BOOKKEEPING_SOW_TEMPLATE_ID"],
-      taas: process.env["BOX_TAAS_SOW_TEMPLATE_ID"],
-      payroll: process.env["BOX_PAYROLL_SOW_TEMPLATE_ID"],
-      ap_ar_lite: process.env["BOX_APAR_SOW_TEMPLATE_ID"],
-      fpa_lite: process.env["BOX_FPA_SOW_TEMPLATE_ID"],
-    } as const;
-
-    const templateId = templates[service as keyof typeof templates];
-    if (!templateId) {
-      logger.warn("[Box] No SOW template found for service", { service });
-      return null;
-    }
-
-    try {
-      const fileStream = await this.client.files.getReadStream(templateId);
-      return this.streamToBuffer(fileStream);
-    } catch (error) {
-      logger.error("[Box] Error reading SOW template", {
-        service,
-        templateId,
-        error,
-      });
-      return null;
-    }
-  }
-
-  /**
-   * Convert stream to buffer
-   */
-  private streamToBuffer(stream: any): Promise<Buffer> {
-    return new Promise((resolve, reject) => {
-      const chunks: Buffer[] = [];
-      stream.on("data", (chunk: Buffer) => chunks.push(chunk));
-      stream.on("end", () => resolve(Buffer.concat(chunks)));
-      stream.on("error", reject);
-    });
-  }
-
   /**
    * Sanitize folder name for Box compatibility
    */
@@ -4,6 +4,7 @@ import { cache, CachePrefix, CacheTTL } from "./cache";
 import { getRedis } from "./redis";
 import { logger } from "./logger";
 import { clientIntelEngine } from "./client-intel";
+import { hasFailedAnalysis } from "@shared/client-intel";
 
 const preWarmLogger = logger.child({ module: "cache-prewarming" });
 
@@ -120,6 +121,7 @@ export async function preWarmHighPriorityContacts(): Promise<void> {
 
         // Pre-warm contact data
         const clientData = {
+          email: contact.properties.email,
           companyName: contact.properties.company || "Unknown Company",
           industry: contact.properties.industry || null,
           revenue: contact.properties.annualrevenue,
@@ -132,21 +134,19 @@ export async function preWarmHighPriorityContacts(): Promise<void> {
         };
 
         // Generate and cache AI insights
-        const [painPoints, serviceGaps, riskScore] = await Promise.all([
-          clientIntelEngine.extractPainPoints(clientData),
-          clientIntelEngine.detectServiceGaps(clientData),
-          clientIntelEngine.calculateRiskScore(clientData),
-        ]);
-
-        const insights = {
-          painPoints,
-          upsellOpportunities: serviceGaps,
-          riskScore,
-          lastAnalyzed: new Date().toISOString(),
-          signals: serviceGaps,
-        };
+        const insights = await clientIntelEngine.generateInsights(
+          clientData,
+          contactId,
+        );
 
         // Cache the insights
+        if (hasFailedAnalysis(insights)) {
+          preWarmLogger.warn(
+            { contactId, analysis: insights.analysis },
+            "Skipped caching insights with a failed analysis",
+          );
+          continue;
+        }
         await cache.set(cacheKey, insights, CacheTTL.OPENAI_ANALYSIS);
         preWarmedCount++;
 
@@ -0,0 +1,233 @@
+/**
+ * Client activity timeline. Events the portal creates without another record
+ * of them (document uploads, AI insight runs) are written to
+ * client_activities; everything else is read from where it already lives
+ * (quotes, approval audit events, commissions, HubSpot engagements) and
+ * merged when the timeline is requested.
+ */
+
+import { logger } from "./logger";
+import type { IStorage } from "./storage";
+import { crmService } from "./services";
+import {
+  APPROVAL_REQUEST_TYPE_LABELS,
+  type ApprovalRequestType,
+} from "@shared/approvals";
+import {
+  CLIENT_ACTIVITY_SOURCES,
+  paginateClientTimeline,
+  type ClientActivitySource,
+  type ClientActivityType,
+  type ClientTimelineEvent,
+  type ClientTimelineFilters,
+  type ClientTimelinePage,
+} from "@shared/client-activity";
+
+// Where each client_activities type shows up on the timeline
+const ACTIVITY_TYPE_SOURCES: Record<ClientActivityType, ClientActivitySource> =
+  {
+    email: "hubspot",
+    call: "hubspot",
+    meeting: "hubspot",
+    quote: "quote",
+    document_upload: "document",
+    ai_insights: "ai_insights",
+  };
+
+const APPROVAL_ACTION_VERBS: Record<string, string> = {
+  requested: "requested",
+  approved: "approved",
+  rejected: "rejected",
+  cancelled: "cancelled",
+  used: "applied to a quote",
+};
+
+// A quote saved this long after creation counts as an update
+const QUOTE_UPDATE_GAP_MS = 60_000;
+
+const money = (value: string | number) =>
+  `$${Number(value).toLocaleString("en-US", { maximumFractionDigits: 2 })}`;
+
+// Records a portal event on the client's profile. Never throws: a missing
+// timeline entry shouldn't fail the action it describes
+export async function recordClientActivity(activity: {
+  clientProfileId: number;
+  activityType: ClientActivityType;
+  description: string;
+  userId?: number | null;
+  activityDate?: Date;
+}): Promise<void> {
+  try {
+    const { storage } = await import("./storage");
+    await storage.createClientActivity({
+      ...activity,
+      userId: activity.userId ?? null,
+      activityDate: activity.activityDate ?? new Date(),
+    });
+  } catch (error: any) {
+    logger.warn("[ClientActivity] Failed to record activity", {
+      clientProfileId: activity.clientProfileId,
+      activityType: activity.activityType,
+      error: error?.message,
+    });
+  }
+}
+
+type TimelineLoaders = Record<
+  ClientActivitySource,
+  () => Promise<ClientTimelineEvent[]>
+>;
+
+function timelineLoaders(
+  contact: { contactId: string; email: string },
+  storage: IStorage,
+): TimelineLoaders {
+  // client_activities rows feed several sources; load them once
+  let recorded: Promise<ClientTimelineEvent[]> | null = null;
+  const recordedEvents = () =>
+    (recorded ??= (async () => {
+      const profile = await storage.getClientIntelProfileByEmail(contact.email);
+      if (!profile) return [];
+      const rows = await storage.getClientActivities(profile.id);
+      return rows.map((row) => ({
+        id: `activity:${row.id}`,
+        source: ACTIVITY_TYPE_SOURCES[row.activityType] ?? "hubspot",
+        kind: row.activityType,
+        title: row.description,
+        detail: null,
+        occurredAt: row.activityDate.toISOString(),
+        actor: row.userName,
+      }));
+    })());
+  const recordedFor = async (source: ClientActivitySource) =>
+    (await recordedEvents()).filter((event) => event.source === source);
+
+  return {
+    quote: async () => {
+      const quotes = await storage.getQuotesByEmail(contact.email);
+      const events: ClientTimelineEvent[] = [];
+      for (const quote of quotes) {
+        const detail = `${money(quote.monthlyFee)}/mo, ${money(quote.setupFee)} setup`;
+        events.push({
+          id: `quote:${quote.id}:created`,
+          source: "quote",
+          kind: "created",
+          title: `Quote #${quote.id} created`,
+          detail,
+          occurredAt: quote.createdAt.toISOString(),
+          actor: null,
+        });
+        if (
+          quote.updatedAt.getTime() - quote.createdAt.getTime() >
+          QUOTE_UPDATE_GAP_MS
+        ) {
+          events.push({
+            id: `quote:${quote.id}:updated`,
+            source: "quote",
+            kind: "updated",
+            title: `Quote #${quote.id} updated`,
+            detail,
+            occurredAt: quote.updatedAt.toISOString(),
+            actor: null,
+          });
+        }
+      }
+      return [...events, ...(await recordedFor("quote"))];
+    },
+    hubspot: async () => {
+      const engagements = await crmService.getContactEngagements(
+        contact.contactId,
+      );
+      return [
+        ...engagements.map((engagement) => ({
+          id: `hubspot:${engagement.type}:${engagement.id}`,
+          source: "hubspot" as const,
+          kind: engagement.type,
+          title: engagement.direction
+            ? `${engagement.title} (${engagement.direction.toLowerCase()})`
+            : engagement.title,
+          detail: engagement.body ?? null,
+          occurredAt: engagement.timestamp,
+          actor: null,
+        })),
+        ...(await recordedFor("hubspot")),
+      ];
+    },
+    document: async () => await recordedFor("document"),
+    ai_insights: async () => await recordedFor("ai_insights"),
+    approval: async () => {
+      const events = await storage.getApprovalEventsForContact(contact.email);
+      return events.map((event) => {
+        const label =
+          APPROVAL_REQUEST_TYPE_LABELS[
+            event.requestType as ApprovalRequestType
+          ] ?? event.requestType;
+        const verb = APPROVAL_ACTION_VERBS[event.action] ?? event.action;
+        return {
+          id: `approval:${event.id}`,
+          source: "approval" as const,
+          kind: event.action,
+          title: `${label} approval ${verb}`,
+          detail:
+            [event.quoteId ? `Quote #${event.quoteId}` : null, event.note]
+              .filter(Boolean)
+              .join(" · ") || null,
+          occurredAt: event.createdAt.toISOString(),
+          actor: event.actorName,
+        };
+      });
+    },
+    commission: async () => {
+      const commissions = await storage.getCommissionEventsForContact(
+        contact.email,
+      );
+      return commissions.map((commission) => {
+        const type = commission.type.replace(/_/g, " ");
+        return {
+          id: `commission:${commission.id}`,
+          source: "commission" as const,
+          kind: commission.type,
+          title:
+            commission.type === "clawback"
+              ? `Commission clawed back on ${commission.dealName}`
+              : `${type[0]?.toUpperCase()}${type.slice(1)} commission on ${commission.dealName}`,
+          detail:
+            [commission.serviceType, commission.status]
+              .filter(Boolean)
+              .join(" · ") || null,
+          occurredAt: commission.dateEarned.toISOString(),
+          actor: commission.salesRepName,
+        };
+      });
+    },
+  };
+}
+
+// Every source is loaded so the filter counts stay right; a source that
+// fails is reported as unavailable instead of failing the timeline
+export async function getClientTimeline(
+  contact: { contactId: string; email: string },
+  filters: ClientTimelineFilters,
+): Promise<ClientTimelinePage> {
+  const { storage } = await import("./storage");
+  const loaders = timelineLoaders(contact, storage);
+  const results = await Promise.allSettled(
+    CLIENT_ACTIVITY_SOURCES.map((source) => loaders[source]()),
+  );
+
+  const events: ClientTimelineEvent[] = [];
+  const unavailable: ClientActivitySource[] = [];
+  results.forEach((result, i) => {
+    const source = CLIENT_ACTIVITY_SOURCES[i]!;
+    if (result.status === "fulfilled") {
+      events.push(...result.value);
+    } else {
+      unavailable.push(source);
+      logger.warn("[ClientActivity] Timeline source failed", {
+        source,
+        error: result.reason?.message,
+      });
+    }
+  });
+  return paginateClientTimeline(events, filters, unavailable);
+}
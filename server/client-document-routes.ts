@@ -0,0 +1,239 @@
+/**
+ * Client document vault routes: per-profile upload, listing, download and
+ * deletion, plus retrying a failed summary. The client-intel page works
+ * from HubSpot contacts, so it first resolves (or creates) the contact's
+ * profile by email.
+ *
+ * Reading needs VIEW_CLIENT_INTEL; uploading, deleting and re-summarising
+ * need EDIT_CLIENT_INTEL.
+ */
+
+import type { Express, Request, Response } from "express";
+import multer from "multer";
+import { z } from "zod";
+import { requireAuth } from "./auth";
+import { logger } from "./logger";
+import { getErrorMessage } from "./utils/errors";
+import { storage } from "./storage";
+import { requirePermission } from "./middleware/permissions";
+import {
+  deleteClientDocument,
+  queueClientDocumentSummary,
+  readClientDocument,
+  uploadClientDocument,
+} from "./client-documents";
+import { PERMISSIONS } from "@shared/permissions";
+import {
+  CLIENT_DOCUMENT_MAX_BYTES,
+  CLIENT_DOCUMENT_TYPES,
+  clientDocumentType,
+} from "@shared/client-documents";
+
+const canView = requirePermission(PERMISSIONS.VIEW_CLIENT_INTEL);
+const canEdit = requirePermission(PERMISSIONS.EDIT_CLIENT_INTEL);
+
+// Held in memory for extraction, then handed to StorageService
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: CLIENT_DOCUMENT_MAX_BYTES, files: 1 },
+});
+
+const profileSchema = z.object({
+  email: z.string().trim().email(),
+  companyName: z.string().trim().min(1),
+  hubspotContactId: z.string().optional(),
+});
+
+function parseId(value: string | undefined): number | null {
+  return value && /^\d+$/.test(value) ? parseInt(value) : null;
+}
+
+async function findDocument(req: Request, res: Response) {
+  const id = parseId(req.params.documentId);
+  const document = id ? await storage.getClientDocument(id) : undefined;
+  if (!document) {
+    res.status(404).json({ message: "Document not found" });
+    return undefined;
+  }
+  return document;
+}
+
+export function registerClientDocumentRoutes(app: Express) {
+  // Profile for a HubSpot contact, created on first use
+  app.post(
+    "/api/client-intel/profiles",
+    requireAuth,
+    canView,
+    async (req, res) => {
+      const parsed = profileSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: "Invalid client profile",
+          errors: parsed.error.errors,
+        });
+      }
+      try {
+        const { email, companyName, hubspotContactId } = parsed.data;
+        const profile =
+          (await storage.getClientIntelProfileByEmail(email)) ??
+          (await storage.saveClientIntelProfile({
+            contactEmail: email,
+            companyName,
+            hubspotContactId,
+          }));
+        res.json(profile);
+      } catch (error) {
+        logger.error("[ClientDocuments] Failed to resolve profile", {
+          error: getErrorMessage(error),
+        });
+        res.status(500).json({ message: "Failed to load client profile" });
+      }
+    },
+  );
+
+  app.get(
+    "/api/client-intel/profiles/:profileId/documents",
+    requireAuth,
+    canView,
+    async (req, res) => {
+      try {
+        const profileId = parseId(req.params.profileId);
+        if (!profileId) {
+          return res.status(404).json({ message: "Client profile not found" });
+        }
+        res.json(await storage.getClientDocuments(profileId));
+      } catch (error) {
+        logger.error("[ClientDocuments] Failed to list documents", {
+          error: getErrorMessage(error),
+        });
+        res.status(500).json({ message: "Failed to fetch documents" });
+      }
+    },
+  );
+
+  app.post(
+    "/api/client-intel/profiles/:profileId/documents",
+    requireAuth,
+    canEdit,
+    (req, res, next) => {
+      upload.single("file")(req, res, (error: unknown) => {
+        if (!error) return next();
+        const tooLarge =
+          error instanceof multer.MulterError &&
+          error.code === "LIMIT_FILE_SIZE";
+        res.status(400).json({
+          message: tooLarge
+            ? `File is larger than ${CLIENT_DOCUMENT_MAX_BYTES / 1024 / 1024}MB`
+            : getErrorMessage(error) || "Upload failed",
+        });
+      });
+    },
+    async (req, res) => {
+      try {
+        const file = req.file;
+        if (!file) {
+          return res.status(400).json({ message: "No file uploaded" });
+        }
+        if (!clientDocumentType(file.originalname)) {
+          return res.status(400).json({
+            message: `Unsupported file type. Allowed: ${CLIENT_DOCUMENT_TYPES.join(", ")}`,
+          });
+        }
+        const profileId = parseId(req.params.profileId);
+        const profile = profileId
+          ? await storage.getClientIntelProfile(profileId)
+          : undefined;
+        if (!profile) {
+          return res.status(404).json({ message: "Client profile not found" });
+        }
+
+        const document = await uploadClientDocument(
+          profile,
+          file,
+          req.user!.id,
+        );
+        const { extractedText, ...rest } = document;
+        res.status(201).json({ ...rest, hasText: !!extractedText });
+      } catch (error) {
+        logger.error("[ClientDocuments] Upload failed", {
+          error: getErrorMessage(error),
+        });
+        res.status(500).json({ message: "Failed to upload document" });
+      }
+    },
+  );
+
+  app.get(
+    "/api/client-intel/documents/:documentId/download",
+    requireAuth,
+    canView,
+    async (req, res) => {
+      try {
+        const document = await findDocument(req, res);
+        if (!document) return;
+        const content = await readClientDocument(document);
+        res.setHeader(
+          "Content-Type",
+          document.contentType || "application/octet-stream",
+        );
+        res.setHeader(
+          "Content-Disposition",
+          `attachment; filename*=UTF-8''${encodeURIComponent(document.fileName)}`,
+        );
+        res.send(content);
+      } catch (error) {
+        logger.error("[ClientDocuments] Download failed", {
+          error: getErrorMessage(error),
+        });
+        res.status(500).json({ message: "Failed to download document" });
+      }
+    },
+  );
+
+  app.post(
+    "/api/client-intel/documents/:documentId/summarize",
+    requireAuth,
+    canEdit,
+    async (req, res) => {
+      try {
+        const document = await findDocument(req, res);
+        if (!document) return;
+        if (!document.extractedText) {
+          return res
+            .status(400)
+            .json({ message: "No text could be extracted from this document" });
+        }
+        await storage.updateClientDocument(document.id, {
+          summaryStatus: "pending",
+          summaryError: null,
+        });
+        await queueClientDocumentSummary(document.id);
+        res.status(202).json({ summaryStatus: "pending" });
+      } catch (error) {
+        logger.error("[ClientDocuments] Failed to queue summary", {
+          error: getErrorMessage(error),
+        });
+        res.status(500).json({ message: "Failed to summarize document" });
+      }
+    },
+  );
+
+  app.delete(
+    "/api/client-intel/documents/:documentId",
+    requireAuth,
+    canEdit,
+    async (req, res) => {
+      try {
+        const document = await findDocument(req, res);
+        if (!document) return;
+        await deleteClientDocument(document);
+        res.json({ success: true });
+      } catch (error) {
+        logger.error("[ClientDocuments] Delete failed", {
+          error: getErrorMessage(error),
+        });
+        res.status(500).json({ message: "Failed to delete document" });
+      }
+    },
+  );
+}
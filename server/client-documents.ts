@@ -0,0 +1,185 @@
+/**
+ * Client document vault: files uploaded against a client intel profile.
+ *
+ * Files go through StorageService (local disk in development, Box in
+ * production). Text is extracted on upload with the assistant's extractors,
+ * and the AI summary runs as a "summarize-document" job on the ai-insights
+ * queue, or in-process when Redis isn't configured.
+ */
+
+import { recordClientActivity } from "./client-activity";
+import { extractTextFromBuffer, MAX_INDEXED_DOC_CHARS } from "./doc-extract";
+import { logger } from "./logger";
+import { getErrorMessage } from "./utils/errors";
+import { getAIInsightsQueue, type ClientDocumentSummaryJobData } from "./queue";
+import { storageService } from "./services";
+import type { StorageProvider } from "./services/storage-service";
+import { completeLlm } from "./services/llm";
+import type { ClientDocument, ClientIntelProfile } from "@shared/schema";
+import { clientDocumentType } from "@shared/client-documents";
+
+// The model sees the start of long documents only
+const SUMMARY_INPUT_CHARS = 24_000;
+
+export async function summarizeDocumentText(
+  fileName: string,
+  text: string,
+): Promise<string> {
+  const excerpt = text.slice(0, SUMMARY_INPUT_CHARS);
+  const { text: summary } = await completeLlm({
+    feature: "client_intel",
+    system:
+      "You summarise client documents for an accounting firm's sales and service team. Be factual and brief.",
+    prompt: `Summarise this client document in 3-5 bullet points: what it is, the period it covers, and any figures, deadlines or issues worth raising with the client.${
+      excerpt.length < text.length
+        ? " Only the start of the document is included."
+        : ""
+    }
+
+Document: ${fileName}
+
+${excerpt}`,
+    temperature: 0.2,
+    maxTokens: 400,
+  });
+  const trimmed = summary.trim();
+  if (!trimmed) throw new Error("Model returned an empty summary");
+  return trimmed;
+}
+
+export async function uploadClientDocument(
+  profile: ClientIntelProfile,
+  file: { originalname: string; mimetype: string; buffer: Buffer },
+  userId: number,
+): Promise<ClientDocument> {
+  const { storage } = await import("./storage");
+  const fileType = clientDocumentType(file.originalname);
+  if (!fileType) {
+    throw new Error(`Unsupported document type: ${file.originalname}`);
+  }
+
+  // An unreadable file is still stored, just never summarised
+  let extractedText = "";
+  try {
+    extractedText = (
+      await extractTextFromBuffer(file.originalname, file.buffer)
+    )
+      .trim()
+      .slice(0, MAX_INDEXED_DOC_CHARS);
+  } catch (error) {
+    logger.warn("[ClientDocuments] text extraction failed", {
+      fileName: file.originalname,
+      error: getErrorMessage(error),
+    });
+  }
+
+  const stored = await storageService.putObject(
+    `client-${profile.id}`,
+    file.originalname,
+    file.buffer,
+  );
+  const document = await storage.createClientDocument({
+    clientProfileId: profile.id,
+    fileName: file.originalname,
+    fileType,
+    fileSize: stored.size,
+    uploadedBy: userId,
+    storageProvider: stored.provider,
+    storageKey: stored.key,
+    contentType: file.mimetype || null,
+    extractedText: extractedText || null,
+    summaryStatus: extractedText ? "pending" : "skipped",
+  });
+
+  await recordClientActivity({
+    clientProfileId: profile.id,
+    activityType: "document_upload",
+    description: `Uploaded ${file.originalname}`,
+    userId,
+  });
+  if (extractedText) await queueClientDocumentSummary(document.id);
+  return document;
+}
+
+export async function queueClientDocumentSummary(
+  documentId: number,
+): Promise<void> {
+  const queue = getAIInsightsQueue();
+  if (queue) {
+    const data: ClientDocumentSummaryJobData = {
+      documentId,
+      timestamp: Date.now(),
+    };
+    await queue.add("summarize-document", data);
+    return;
+  }
+  setImmediate(() => {
+    summarizeClientDocument(documentId).catch(() => {
+      // Recorded on the document by summarizeClientDocument
+    });
+  });
+}
+
+// Saves the summary, or the failure, on the document. Rethrows so queued
+// jobs are retried with the queue's backoff.
+export async function summarizeClientDocument(
+  documentId: number,
+): Promise<ClientDocument | undefined> {
+  const { storage } = await import("./storage");
+  const document = await storage.getClientDocument(documentId);
+  if (!document) return undefined;
+  if (!document.extractedText) {
+    return await storage.updateClientDocument(documentId, {
+      summaryStatus: "skipped",
+    });
+  }
+
+  try {
+    const summary = await summarizeDocumentText(
+      document.fileName,
+      document.extractedText,
+    );
+    return await storage.updateClientDocument(documentId, {
+      summary,
+      summaryStatus: "ready",
+      summaryError: null,
+      summarizedAt: new Date(),
+    });
+  } catch (error) {
+    logger.error("[ClientDocuments] summary failed", {
+      documentId,
+      error: getErrorMessage(error),
+    });
+    await storage.updateClientDocument(documentId, {
+      summaryStatus: "failed",
+      summaryError: getErrorMessage(error) || "Summary failed",
+    });
+    throw error;
+  }
+}
+
+export async function readClientDocument(
+  document: ClientDocument,
+): Promise<Buffer> {
+  if (!document.storageProvider || !document.storageKey) {
+    throw new Error(`Document ${document.id} has no stored file`);
+  }
+  return await storageService.getObject({
+    provider: document.storageProvider as StorageProvider,
+    key: document.storageKey,
+  });
+}
+
+// Removes the stored file first, so a failed delete leaves the record to retry
+export async function deleteClientDocument(
+  document: ClientDocument,
+): Promise<void> {
+  const { storage } = await import("./storage");
+  if (document.storageProvider && document.storageKey) {
+    await storageService.deleteObject({
+      provider: document.storageProvider as StorageProvider,
+      key: document.storageKey,
+    });
+  }
+  await storage.deleteClientDocument(document.id);
+}
@@ -1,23 +1,56 @@
-import OpenAI from "openai";
 import { hubSpotService } from "./hubspot";
 import { airtableService } from "./airtable";
-
-// the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-const aiDisabled =
-  process.env.DISABLE_AI === "1" ||
-  (process.env.DISABLE_AI || "").toLowerCase() === "true";
-const openai: OpenAI | any =
-  !aiDisabled && process.env.OPENAI_API_KEY
-    ? new OpenAI({ apiKey: process.env.OPENAI_API_KEY })
-    : {
-        chat: {
-          completions: {
-            create: async () => {
-              throw new Error("AI disabled or OPENAI_API_KEY missing");
-            },
-          },
-        },
-      };
+import type { z } from "zod";
+import {
+  CLIENT_INTEL_PROMPT_VERSIONS,
+  painPointsSchema,
+  prospectScoreSchema,
+  riskScoreSchema,
+  serviceGapsSchema,
+  type ClientInsights,
+  type ClientIntelAnalysis,
+  type ClientIntelAnalysisKind,
+  type ClientIntelAnalysisStatus,
+  type ClientSignal,
+  type ProspectScore,
+  type RiskScore,
+  type StoredClientIntelAnalysis,
+} from "@shared/client-intel";
+import {
+  prospectScoringConfig,
+  prospectScoringInputFromHubSpot,
+  scoreProspectRules,
+  type ProspectRulesScore,
+} from "@shared/prospect-scoring";
+import {
+  completeLlm,
+  completeLlmJson,
+  completeLlmStructured,
+} from "./services/llm";
+import { recordClientActivity } from "./client-activity";
+
+// Model calls go through the LLM provider layer under the "client_intel"
+// feature; with LLM_PROVIDER=mock they run offline
+
+// One-line summary of an insights run for the client's activity timeline
+function insightsActivityDescription(insights: ClientInsights): string {
+  const parts: string[] = [];
+  if (insights.aiScore) {
+    parts.push(
+      `lead score ${insights.aiScore.score}/10 (tier ${insights.aiScore.tier})`,
+    );
+  }
+  if (insights.riskScore !== null) parts.push(`risk ${insights.riskScore}/100`);
+  const failed = Object.values(insights.analysis).filter(
+    (result) => result?.status === "failed",
+  ).length;
+  if (failed) {
+    parts.push(`${failed} ${failed === 1 ? "analysis" : "analyses"} failed`);
+  }
+  return parts.length
+    ? `AI insights generated: ${parts.join(", ")}`
+    : "AI insights generated";
+}
 
 interface ProspectProfile {
   email: string;
@@ -31,33 +64,60 @@ interface ProspectProfile {
   recentActivities: any[];
 }
 
-interface ClientSignal {
-  type: "upsell" | "risk" | "opportunity";
-  severity: "Low" | "Medium" | "High";
-  confidence: number;
-  title: string;
-  description: string;
-  recommendedAction: string;
-  estimatedValue?: string;
-}
-
 export class ClientIntelligenceEngine {
-  private openai: OpenAI;
   private enhancementLocks: Set<string> = new Set(); // Track ongoing enhancements
 
-  constructor() {
-    this.openai =
-      !aiDisabled && process.env.OPENAI_API_KEY
-        ? new OpenAI({ apiKey: process.env.OPENAI_API_KEY })
-        : (null as any);
+  // Structured analysis: schema-checked output (with one repair attempt), or
+  // a "failed" result carrying the error and whatever the model last said
+  private async analyze<S extends z.ZodTypeAny>(
+    kind: ClientIntelAnalysisKind,
+    schema: S,
+    prompt: string,
+    temperature: number,
+  ): Promise<ClientIntelAnalysis<z.infer<S>>> {
+    const meta = {
+      promptVersion: CLIENT_INTEL_PROMPT_VERSIONS[kind],
+      analyzedAt: new Date().toISOString(),
+    };
+    try {
+      const result = await completeLlmStructured(
+        { feature: "client_intel", prompt, temperature },
+        schema,
+      );
+      if (result.ok) {
+        return {
+          ...meta,
+          status: "ok",
+          data: result.data,
+          model: result.model,
+          raw: result.raw,
+        };
+      }
+      console.error(`[ClientIntel] ${kind} output invalid:`, result.error);
+      return {
+        ...meta,
+        status: "failed",
+        error: `Invalid model output: ${result.error}`,
+        model: result.model,
+        raw: result.raw,
+      };
+    } catch (error: any) {
+      console.error(`[ClientIntel] ${kind} analysis failed:`, error);
+      return {
+        ...meta,
+        status: "failed",
+        error: error?.message || "Analysis failed",
+        model: null,
+        raw: null,
+      };
+    }
   }
 
   // Generate prospect scoring based on HubSpot data
   async scoreProspect(
     prospectProfile: ProspectProfile,
-  ): Promise<{ score: number; tier: string; reasoning: string }> {
-    try {
-      const prompt = `
+  ): Promise<ClientIntelAnalysis<ProspectScore>> {
+    const prompt = `
 Analyze this prospect data and provide a lead score (0-10) and tier classification:
 
 Company: ${prospectProfile.companyName}
@@ -80,24 +140,12 @@ Respond in JSON format:
 }
 `;
 
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o",
-        messages: [{ role: "user", content: prompt }],
-        response_format: { type: "json_object" },
-        temperature: 0.3,
-      });
-
-      const content = response?.choices?.[0]?.message?.content ?? "{}";
-      const result = JSON.parse(content);
-      return {
-        score: result.score || 0,
-        tier: result.tier || "C",
-        reasoning: result.reasoning || "Unable to analyze prospect data",
-      };
-    } catch (error) {
-      console.error("Prospect scoring failed:", error);
-      return { score: 0, tier: "C", reasoning: "Analysis failed" };
-    }
+    return await this.analyze(
+      "prospectScore",
+      prospectScoreSchema,
+      prompt,
+      0.3,
+    );
   }
 
   // Generate pre-call snapshot for SDRs
@@ -124,22 +172,15 @@ Include:
 Keep it punchy and actionable for the SDR.
 `;
 
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o",
-        messages: [
-          {
-            role: "system",
-            content:
-              "You are Seed's SDR whisperer. Stay witty, concise, and data-driven. Focus on actionable insights.",
-          },
-          { role: "user", content: prompt },
-        ],
+      const { text } = await completeLlm({
+        feature: "client_intel",
+        system:
+          "You are Seed's SDR whisperer. Stay witty, concise, and data-driven. Focus on actionable insights.",
+        prompt,
         temperature: 0.7,
-        max_tokens: 300,
+        maxTokens: 300,
       });
-
-      const content = response?.choices?.[0]?.message?.content;
-      return content || "Unable to generate snapshot";
+      return text || "Unable to generate snapshot";
     } catch (error) {
       console.error("Pre-call snapshot generation failed:", error);
       return "Unable to generate pre-call snapshot. Please review prospect data manually.";
@@ -147,9 +188,10 @@ Keep it punchy and actionable for the SDR.
   }
 
   // Detect service gaps and upsell opportunities
-  async detectServiceGaps(clientData: any): Promise<ClientSignal[]> {
-    try {
-      const prompt = `
+  async detectServiceGaps(
+    clientData: any,
+  ): Promise<ClientIntelAnalysis<{ signals: ClientSignal[] }>> {
+    const prompt = `
 Analyze this business for service gaps and opportunities:
 
 Company: ${clientData.companyName || "Unknown Company"}
@@ -181,27 +223,14 @@ Return JSON object with "signals" array:
 Focus on realistic, actionable opportunities for Seed Financial services.
 `;
 
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o",
-        messages: [{ role: "user", content: prompt }],
-        response_format: { type: "json_object" },
-        temperature: 0.4,
-      });
-
-      const content = response?.choices?.[0]?.message?.content ?? '{"signals":[]}';
-      const result = JSON.parse(content);
-      console.log("[ClientIntel] Service gaps AI response:", result);
-      return result.signals || [];
-    } catch (error) {
-      console.error("Service gap detection failed:", error);
-      return [];
-    }
+    return await this.analyze("serviceGaps", serviceGapsSchema, prompt, 0.4);
   }
 
   // Extract pain points from client interactions
-  async extractPainPoints(clientData: any): Promise<string[]> {
-    try {
-      const prompt = `
+  async extractPainPoints(
+    clientData: any,
+  ): Promise<ClientIntelAnalysis<{ painPoints: string[] }>> {
+    const prompt = `
 Analyze this business and identify likely pain points:
 
 Company: ${clientData.companyName || "Unknown Company"}
@@ -225,27 +254,14 @@ Return as JSON object with "painPoints" array:
 Example pain points: "Manual bookkeeping consuming too much time", "Tax compliance uncertainties", "Payroll processing inefficiencies", "Cash flow management challenges"
 `;
 
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o",
-        messages: [{ role: "user", content: prompt }],
-        response_format: { type: "json_object" },
-        temperature: 0.5,
-      });
-
-      const content = response?.choices?.[0]?.message?.content ?? '{"painPoints":[]}';
-      const result = JSON.parse(content);
-      console.log("[ClientIntel] Pain points AI response:", result);
-      return result.painPoints || [];
-    } catch (error) {
-      console.error("Pain point extraction failed:", error);
-      return ["Unable to analyze pain points"];
-    }
+    return await this.analyze("painPoints", painPointsSchema, prompt, 0.5);
   }
 
   // Calculate risk score based on client behavior and data
-  async calculateRiskScore(clientData: any): Promise<number> {
-    try {
-      const prompt = `
+  async calculateRiskScore(
+    clientData: any,
+  ): Promise<ClientIntelAnalysis<RiskScore>> {
+    const prompt = `
 Calculate a client risk score (0-100) based on this data:
 
 Company: ${clientData.companyName}
@@ -261,7 +277,7 @@ Risk factors to consider:
 - Industry volatility
 - Seasonal business patterns
 
-Return JSON: {"riskScore": 0-100, "riskFactors": ["factor1", "factor2"]}
+Return JSON: {"riskScore": integer 0-100, "riskFactors": ["factor1", "factor2"]}
 
 0-20: Low risk (engaged, stable)
 21-40: Low-medium risk  
@@ -270,20 +286,142 @@ Return JSON: {"riskScore": 0-100, "riskFactors": ["factor1", "factor2"]}
 81-100: High risk (churn likely)
 `;
 
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o",
-        messages: [{ role: "user", content: prompt }],
-        response_format: { type: "json_object" },
-        temperature: 0.3,
-      });
+    return await this.analyze("riskScore", riskScoreSchema, prompt, 0.3);
+  }
 
-      const content = response?.choices?.[0]?.message?.content ?? "{}";
-      const result = JSON.parse(content);
-      return Math.min(100, Math.max(0, result.riskScore || 50));
-    } catch (error) {
-      console.error("Risk score calculation failed:", error);
-      return 50; // Default medium risk
+  // Pain points, service gaps and risk for one client. When the client's
+  // email is known every analysis, failed ones included, is kept on their
+  // profile for review
+  async generateInsights(
+    clientData: any,
+    contactId?: string,
+    userId?: number,
+  ): Promise<ClientInsights> {
+    const [prospectScore, painPoints, serviceGaps, riskScore] =
+      await Promise.all([
+        this.scoreProspect({
+          ...clientData,
+          hubspotProperties: clientData.hubspotProperties ?? {},
+          dealHistory: clientData.dealHistory ?? [],
+          recentActivities: clientData.recentActivities ?? [],
+        }),
+        this.extractPainPoints(clientData),
+        this.detectServiceGaps(clientData),
+        this.calculateRiskScore(clientData),
+      ]);
+    const analyses = { prospectScore, painPoints, serviceGaps, riskScore };
+
+    const analysis: ClientIntelAnalysisStatus = {};
+    const stored: Partial<
+      Record<ClientIntelAnalysisKind, StoredClientIntelAnalysis>
+    > = {};
+    for (const [kind, result] of Object.entries(analyses) as Array<
+      [ClientIntelAnalysisKind, ClientIntelAnalysis<unknown>]
+    >) {
+      if (result.status === "ok") {
+        const { data, ...meta } = result;
+        analysis[kind] = { status: "ok" };
+        stored[kind] = { ...meta, parsed: data };
+      } else {
+        analysis[kind] = { status: "failed", error: result.error };
+        stored[kind] = result;
+      }
+    }
+
+    const signals = serviceGaps.status === "ok" ? serviceGaps.data.signals : [];
+    const insights: ClientInsights = {
+      aiScore: prospectScore.status === "ok" ? prospectScore.data : null,
+      painPoints: painPoints.status === "ok" ? painPoints.data.painPoints : [],
+      upsellOpportunities: signals.map(
+        (signal) =>
+          `${signal.title} - ${signal.estimatedValue || "Pricing TBD"}`,
+      ),
+      riskScore: riskScore.status === "ok" ? riskScore.data.riskScore : null,
+      lastAnalyzed: new Date().toISOString(),
+      signals,
+      analysis,
+    };
+
+    if (clientData.email) {
+      try {
+        // Imported lazily so the engine loads without a database
+        const { storage } = await import("./storage");
+        const profile = await storage.saveClientIntelProfile({
+          contactEmail: clientData.email,
+          companyName: clientData.companyName || "Unknown Company",
+          industry: clientData.industry || undefined,
+          revenue: clientData.revenue || undefined,
+          employees: clientData.employees || undefined,
+          hubspotContactId: contactId,
+          services: clientData.services || undefined,
+          // Failed analyses leave the last good values in place
+          painPoints:
+            painPoints.status === "ok" ? insights.painPoints : undefined,
+          upsellOpportunities:
+            serviceGaps.status === "ok"
+              ? insights.upsellOpportunities
+              : undefined,
+          riskScore: insights.riskScore ?? undefined,
+          aiAnalyses: stored,
+          lastAnalyzed: new Date(insights.lastAnalyzed),
+        });
+        await recordClientActivity({
+          clientProfileId: profile.id,
+          activityType: "ai_insights",
+          description: insightsActivityDescription(insights),
+          userId: userId || null,
+        });
+      } catch (error) {
+        console.error("[ClientIntel] Failed to save analyses:", error);
+      }
+    }
+
+    return insights;
+  }
+
+  // Rules-based lead score from the contact's current HubSpot data, with
+  // weights from the live pricing config. Saved to the client's profile
+  // whenever the result changes, so the stored score follows HubSpot
+  async calculateRulesScore(
+    contact: any,
+    services?: string[],
+  ): Promise<ProspectRulesScore> {
+    const properties = contact.properties ?? {};
+    const input = prospectScoringInputFromHubSpot(
+      properties,
+      services ?? (await this.getContactServices(contact.id)),
+    );
+    const { pricingConfigService } = await import("./pricing-config");
+    const result = scoreProspectRules(
+      input,
+      prospectScoringConfig(await pricingConfigService.loadPricingConfig()),
+    );
+
+    if (properties.email) {
+      try {
+        const { storage } = await import("./storage");
+        const profile = await storage.getClientIntelProfileByEmail(
+          properties.email,
+        );
+        if (
+          JSON.stringify(profile?.rulesScoreBreakdown ?? null) !==
+          JSON.stringify(result)
+        ) {
+          await storage.saveClientIntelProfile({
+            contactEmail: properties.email,
+            companyName: properties.company || "Unknown Company",
+            hubspotContactId: contact.id,
+            rulesScore: result.score,
+            rulesScoreBreakdown: result,
+            rulesScoredAt: new Date(),
+          });
+        }
+      } catch (error) {
+        console.error("[ClientIntel] Failed to save rules score:", error);
+      }
     }
+
+    return result;
   }
 
   // Get services for a contact from HubSpot deals
@@ -554,16 +692,12 @@ Return JSON: {"riskScore": 0-100, "riskFactors": ["factor1", "factor2"]}
         "linkedin_company_page": "likely LinkedIn URL"
       }`;
 
-      const response = await this.openai.chat.completions.create({
-        model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-        messages: [{ role: "user", content: prompt }],
-        response_format: { type: "json_object" },
-        max_tokens: 300,
+      const aiData = await completeLlmJson({
+        feature: "client_intel",
+        prompt,
+        maxTokens: 300,
       });
 
-      const content = response?.choices?.[0]?.message?.content ?? "{}";
-      const aiData = JSON.parse(content);
-
       // Validate industry value
       const validIndustries = [
         "COMPUTER_SOFTWARE",
@@ -770,16 +904,12 @@ Return JSON: {"riskScore": 0-100, "riskFactors": ["factor1", "factor2"]}
         ${missingFields.map((field) => `"${field}": "value or null"`).join(",\n        ")}
       }`;
 
-      const response = await this.openai.chat.completions.create({
-        model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-        messages: [{ role: "user", content: prompt }],
-        response_format: { type: "json_object" },
-        max_tokens: 200,
+      const enhancedData = await completeLlmJson({
+        feature: "client_intel",
+        prompt,
+        maxTokens: 200,
       });
 
-      const content = response?.choices?.[0]?.message?.content ?? "{}";
-      const enhancedData = JSON.parse(content);
-
       // Only update fields that have actual values (not null) and validate industry
       for (const field of missingFields) {
         if (
@@ -0,0 +1,150 @@
+/**
+ * Commission clawbacks
+ * Turns cancelled subscriptions and refunded/voided invoices into negative
+ * commission entries under each commission's plan rules. Entries are linked
+ * to the source invoice/subscription and to the commission they take back,
+ * and stay pending so the next payout run nets them off.
+ */
+
+import { storage } from "./storage";
+import { logger } from "./logger";
+import { loadCommissionPlanResolver } from "./commission-plans";
+import type {
+  Commission,
+  HubspotInvoice,
+  HubspotSubscription,
+} from "@shared/schema";
+import {
+  CLAWBACK_INVOICE_STATUSES,
+  computeClawbacks,
+  type ClawbackEvent,
+} from "@shared/commission-clawbacks";
+import { parseCommissionPlanRules } from "@shared/commission-plans";
+
+export interface ClawbackRunResult {
+  events: number;
+  clawbacks: Commission[];
+}
+
+const subscriptionEvent = (sub: HubspotSubscription): ClawbackEvent => ({
+  trigger: "subscription_cancelled",
+  hubspotInvoiceId: null,
+  hubspotSubscriptionId: sub.id,
+  label: sub.companyName || `Subscription ${sub.hubspotSubscriptionId}`,
+  startedAt: sub.startDate,
+  occurredAt: sub.endDate ?? sub.updatedAt,
+});
+
+const invoiceEvent = (invoice: HubspotInvoice): ClawbackEvent => ({
+  trigger: "invoice_cancelled",
+  hubspotInvoiceId: invoice.id,
+  hubspotSubscriptionId: null,
+  label: invoice.invoiceNumber || `Invoice ${invoice.hubspotInvoiceId}`,
+  startedAt: invoice.paidDate ?? invoice.invoiceDate,
+  occurredAt: invoice.updatedAt,
+});
+
+/**
+ * Claw back commissions for every cancelled subscription and refunded
+ * invoice. Safe to run repeatedly: commissions already clawed back are
+ * skipped.
+ */
+export async function applyCommissionClawbacks(): Promise<ClawbackRunResult> {
+  const [subscriptions, invoices, existing, plans, planFor] = await Promise.all(
+    [
+      storage.getCancelledHubspotSubscriptions(),
+      storage.getCancelledHubspotInvoices(CLAWBACK_INVOICE_STATUSES),
+      storage.getClawbackCommissions(),
+      storage.getCommissionPlans(),
+      loadCommissionPlanResolver(),
+    ],
+  );
+
+  const clawedBack = new Set(
+    existing
+      .map((c) => c.clawbackOfCommissionId)
+      .filter((id): id is number => id !== null),
+  );
+  const plansById = new Map(plans.map((p) => [p.id, p]));
+  // Rules of the plan the commission was earned under
+  const rulesFor = (c: Commission) => {
+    const plan =
+      c.commissionPlanId !== null ? plansById.get(c.commissionPlanId) : null;
+    return plan
+      ? parseCommissionPlanRules(plan.rulesJson)
+      : planFor(c.salesRepId, new Date(c.dateEarned)).rules;
+  };
+
+  const sources: Array<{
+    event: ClawbackEvent;
+    source: Parameters<typeof storage.getCommissionsForClawbackSource>[0];
+  }> = [
+    ...subscriptions.map((sub) => ({
+      event: subscriptionEvent(sub),
+      source: {
+        hubspotSubscriptionId: sub.id,
+        hubspotDealId: sub.hubspotDealId,
+      },
+    })),
+    ...invoices.map((invoice) => ({
+      event: invoiceEvent(invoice),
+      source: { hubspotInvoiceId: invoice.id },
+    })),
+  ];
+
+  const now = new Date();
+  const clawbacks: Commission[] = [];
+  for (const { event, source } of sources) {
+    const commissions = await storage.getCommissionsForClawbackSource(source);
+    const byId = new Map(commissions.map((c) => [c.id, c]));
+    const entries = computeClawbacks(
+      event,
+      commissions.map((c) => ({
+        id: c.id,
+        salesRepId: c.salesRepId,
+        type: c.type,
+        amount: parseFloat(c.amount),
+        dateEarned: c.dateEarned,
+        hubspotInvoiceId: c.hubspotInvoiceId,
+        hubspotSubscriptionId: c.hubspotSubscriptionId,
+        planRules: rulesFor(c),
+      })),
+      clawedBack,
+    );
+    if (entries.length === 0) continue;
+
+    const created = await storage.createClawbackCommissions(
+      entries.map((entry) => {
+        const original = byId.get(entry.clawbackOfCommissionId);
+        return {
+          hubspotInvoiceId: entry.hubspotInvoiceId,
+          hubspotSubscriptionId: entry.hubspotSubscriptionId,
+          salesRepId: entry.salesRepId,
+          type: "clawback",
+          amount: entry.amount.toFixed(2),
+          status: "pending",
+          monthNumber: original?.monthNumber ?? 1,
+          serviceType: original?.serviceType ?? null,
+          commissionPlanId: original?.commissionPlanId ?? null,
+          clawbackOfCommissionId: entry.clawbackOfCommissionId,
+          dateEarned: now,
+          notes: entry.reason,
+        };
+      }),
+    );
+    for (const c of created) {
+      if (c.clawbackOfCommissionId !== null) {
+        clawedBack.add(c.clawbackOfCommissionId);
+      }
+    }
+    clawbacks.push(...created);
+  }
+
+  if (clawbacks.length > 0) {
+    logger.info(
+      { clawbacks: clawbacks.length, events: sources.length },
+      "Created commission clawbacks",
+    );
+  }
+  return { events: sources.length, clawbacks };
+}
@@ -0,0 +1,330 @@
+/**
+ * Commission payout runs
+ * Previews what a 14th–13th period would pay each rep, locks it into a run
+ * with a statement snapshot per rep, and renders those statements as PDF.
+ * Once a period is locked its commissions can only be corrected through a
+ * reversal entry, which is paid out with the next run.
+ */
+
+import { PDFDocument, StandardFonts, rgb, type PDFFont } from "pdf-lib";
+import { storage } from "./storage";
+import { loadCommissionPlanResolver } from "./commission-plans";
+import type {
+  Commission,
+  CommissionAdjustment,
+  CommissionPayoutRun,
+} from "@shared/schema";
+import {
+  buildPayoutStatement,
+  commissionPeriodBounds,
+  commissionPeriodFor,
+  type CommissionPeriod,
+  type PayoutAdjustmentInput,
+  type PayoutStatement,
+} from "@shared/commission-payouts";
+import { formatCommissionRate } from "@shared/commission-plans";
+
+export interface PayoutPreview {
+  period: CommissionPeriod;
+  statements: PayoutStatement[];
+  commissionIds: number[];
+  reversalIds: number[];
+  pendingAdjustmentIds: number[];
+  total: number;
+}
+
+const toAdjustmentInput = (a: CommissionAdjustment): PayoutAdjustmentInput => ({
+  id: a.id,
+  commissionId: a.commissionId,
+  type: a.type,
+  status: a.status,
+  originalAmount: parseFloat(a.originalAmount),
+  finalAmount: a.finalAmount === null ? null : parseFloat(a.finalAmount),
+  reason: a.reason,
+  reviewedDate: a.reviewedDate,
+});
+
+/**
+ * Everything a run for this period would pay: unpaid commissions and bonuses
+ * earned up to the period end (earlier unlocked periods carry over) plus
+ * reversals recorded against already-locked periods.
+ */
+export async function buildPayoutPreview(
+  period: CommissionPeriod,
+): Promise<PayoutPreview> {
+  const { end } = commissionPeriodBounds(period);
+  const [commissions, reversals, adjustments, reps, users, planFor] =
+    await Promise.all([
+      storage.getUnpaidCommissionsEarnedBefore(end),
+      storage.getUnsettledReversals(),
+      storage.getAllCommissionAdjustments(),
+      storage.getAllSalesReps(),
+      storage.getAllUsers(),
+      loadCommissionPlanResolver(),
+    ]);
+
+  const reversalCommissions = new Map<number, Commission>();
+  for (const r of reversals) {
+    const commission = await storage.getCommission(r.commissionId);
+    if (commission) reversalCommissions.set(r.commissionId, commission);
+  }
+
+  const invoiceIds = [
+    ...new Set(
+      commissions
+        .map((c) => c.hubspotInvoiceId)
+        .filter((id): id is number => id !== null),
+    ),
+  ];
+  const invoices = new Map(
+    (await storage.getHubspotInvoicesWithLineItems(invoiceIds)).map((inv) => [
+      inv.id,
+      inv,
+    ]),
+  );
+
+  const commissionIds = new Set(commissions.map((c) => c.id));
+  const userById = new Map(users.map((u) => [u.id, u]));
+  const repName = (salesRepId: number) => {
+    const rep = reps.find((r) => r.id === salesRepId);
+    const user = rep ? userById.get(rep.userId) : undefined;
+    if (!user) return `Sales Rep #${salesRepId}`;
+    return (
+      `${user.firstName ?? ""} ${user.lastName ?? ""}`.trim() || user.email
+    );
+  };
+
+  const repIds = new Set([
+    ...commissions.map((c) => c.salesRepId),
+    ...[...reversalCommissions.values()].map((c) => c.salesRepId),
+  ]);
+
+  const statements = [...repIds].map((salesRepId) =>
+    buildPayoutStatement(
+      { id: salesRepId, name: repName(salesRepId) },
+      period,
+      commissions
+        .filter((c) => c.salesRepId === salesRepId)
+        .map((c) => {
+          const invoice =
+            c.hubspotInvoiceId !== null
+              ? invoices.get(c.hubspotInvoiceId)
+              : undefined;
+          return {
+            id: c.id,
+            type: c.type,
+            amount: parseFloat(c.amount),
+            serviceType: c.serviceType,
+            dateEarned: c.dateEarned,
+            notes: c.notes,
+            invoice: invoice
+              ? {
+                  invoiceNumber: invoice.invoiceNumber,
+                  companyName: invoice.companyName,
+                  totalAmount: parseFloat(invoice.totalAmount),
+                  lineItems: invoice.lineItems.map((li) => ({
+                    name: li.name,
+                    totalPrice: parseFloat(li.totalPrice),
+                  })),
+                }
+              : null,
+            planRules: planFor(salesRepId, c.dateEarned).rules,
+          };
+        }),
+      adjustments
+        .filter((a) => commissionIds.has(a.commissionId))
+        .map(toAdjustmentInput),
+      reversals
+        .filter(
+          (r) =>
+            reversalCommissions.get(r.commissionId)?.salesRepId === salesRepId,
+        )
+        .map(toAdjustmentInput),
+    ),
+  );
+  statements.sort((a, b) => a.salesRepName.localeCompare(b.salesRepName));
+
+  return {
+    period,
+    statements,
+    commissionIds: [...commissionIds],
+    reversalIds: reversals
+      .filter((r) => reversalCommissions.has(r.commissionId))
+      .map((r) => r.id),
+    pendingAdjustmentIds: adjustments
+      .filter(
+        (a) => a.status === "pending" && commissionIds.has(a.commissionId),
+      )
+      .map((a) => a.id),
+    total:
+      Math.round(statements.reduce((s, st) => s + st.total, 0) * 100) / 100,
+  };
+}
+
+// Run that locked this commission, either directly or by locking its period
+export async function lockedPayoutRunFor(
+  commission: Commission,
+): Promise<CommissionPayoutRun | undefined> {
+  const runs = await storage.getPayoutRuns();
+  if (commission.payoutRunId !== null) {
+    return runs.find((r) => r.id === commission.payoutRunId);
+  }
+  const { periodStart } = commissionPeriodFor(commission.dateEarned);
+  return runs.find((r) => r.periodStart === periodStart);
+}
+
+// Standard PDF fonts only cover WinAnsi; swap anything else out
+const pdfText = (s: string) =>
+  s
+    .replace(/→/g, "->")
+    .replace(
+      /[^\x20-\x7E\u00A0-\u00FF\u2013\u2014\u2018\u2019\u201C\u201D\u2022\u2026]/g,
+      "?",
+    );
+
+const money = (n: number) =>
+  `${n < 0 ? "-" : ""}$${Math.abs(n).toLocaleString("en-US", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+
+export async function renderPayoutStatementPdf(
+  statement: PayoutStatement,
+  run: Pick<CommissionPayoutRun, "id" | "status" | "lockedAt">,
+): Promise<Uint8Array> {
+  const doc = await PDFDocument.create();
+  const font = await doc.embedFont(StandardFonts.Helvetica);
+  const bold = await doc.embedFont(StandardFonts.HelveticaBold);
+  const margin = 48;
+  const [width, height] = [612, 792];
+  let page = doc.addPage([width, height]);
+  let y = height - margin;
+
+  const text = (
+    value: string,
+    x: number,
+    opts: { size?: number; f?: PDFFont; right?: boolean; grey?: boolean } = {},
+  ) => {
+    const size = opts.size ?? 9;
+    const f = opts.f ?? font;
+    const safe = pdfText(value);
+    const drawX = opts.right ? x - f.widthOfTextAtSize(safe, size) : x;
+    page.drawText(safe, {
+      x: drawX,
+      y,
+      size,
+      font: f,
+      color: opts.grey ? rgb(0.4, 0.4, 0.4) : rgb(0, 0, 0),
+    });
+  };
+  const nextLine = (step = 13) => {
+    y -= step;
+    if (y < margin) {
+      page = doc.addPage([width, height]);
+      y = height - margin;
+    }
+  };
+  const clip = (s: string, max: number) =>
+    s.length > max ? `${s.slice(0, max - 1)}…` : s;
+
+  text("Commission Statement", margin, { size: 16, f: bold });
+  nextLine(20);
+  text(statement.salesRepName, margin, { size: 11, f: bold });
+  nextLine();
+  text(
+    `Period ${statement.period.periodStart} to ${statement.period.periodEnd} · Payout run #${run.id} (${run.status}, locked ${new Date(run.lockedAt).toISOString().substring(0, 10)})`,
+    margin,
+    { grey: true },
+  );
+  nextLine(24);
+
+  const cols = {
+    date: margin,
+    invoice: margin + 62,
+    type: 300,
+    base: 410,
+    rate: 460,
+    amount: width - margin,
+  };
+  const header = () => {
+    text("Date", cols.date, { f: bold });
+    text("Invoice / Description", cols.invoice, { f: bold });
+    text("Type", cols.type, { f: bold });
+    text("Base", cols.base, { f: bold, right: true });
+    text("Rate", cols.rate, { f: bold, right: true });
+    text("Amount", cols.amount, { f: bold, right: true });
+    nextLine();
+  };
+
+  const section = (title: string, lines: PayoutStatement["commissions"]) => {
+    if (lines.length === 0) return;
+    text(title, margin, { size: 11, f: bold });
+    nextLine(16);
+    header();
+    for (const line of lines) {
+      text(line.dateEarned, cols.date);
+      text(
+        clip(line.invoice ?? `Commission #${line.commissionId}`, 48),
+        cols.invoice,
+      );
+      text(
+        line.serviceType ? `${line.type} (${line.serviceType})` : line.type,
+        cols.type,
+      );
+      if (line.baseAmount !== null) {
+        text(money(line.baseAmount), cols.base, { right: true });
+      }
+      if (line.rate !== null) {
+        text(formatCommissionRate(line.rate), cols.rate, { right: true });
+      }
+      text(money(line.amount), cols.amount, { right: true });
+      nextLine();
+      for (const li of line.lineItems) {
+        text(clip(li.name, 52), cols.invoice + 10, { grey: true });
+        text(money(li.amount), cols.base, { right: true, grey: true });
+        nextLine();
+      }
+      for (const adj of line.adjustments) {
+        text(
+          clip(
+            `Adjusted ${money(adj.from)} -> ${money(adj.to)}: ${adj.reason}`,
+            80,
+          ),
+          cols.invoice + 10,
+          { grey: true },
+        );
+        nextLine();
+      }
+    }
+    nextLine(6);
+  };
+
+  section("Commissions", statement.commissions);
+  section("Bonuses", statement.bonuses);
+
+  if (statement.reversals.length > 0) {
+    text("Reversals of Locked Periods", margin, { size: 11, f: bold });
+    nextLine(16);
+    for (const rev of statement.reversals) {
+      text(`Commission #${rev.commissionId}`, cols.date);
+      text(clip(rev.reason, 70), cols.invoice + 40);
+      text(money(rev.amount), cols.amount, { right: true });
+      nextLine();
+    }
+    nextLine(6);
+  }
+
+  for (const [label, value] of [
+    ["Commissions", statement.commissionTotal],
+    ["Bonuses", statement.bonusTotal],
+    ["Reversals", statement.reversalTotal],
+  ] as const) {
+    text(label, cols.rate - 80);
+    text(money(value), cols.amount, { right: true });
+    nextLine();
+  }
+  text("Total", cols.rate - 80, { f: bold, size: 11 });
+  text(money(statement.total), cols.amount, { f: bold, size: 11, right: true });
+
+  return await doc.save();
+}
@@ -0,0 +1,47 @@
+/**
+ * Commission plan resolution
+ * Each commission is calculated with the plan the rep was on when it was
+ * earned and records that plan's id, so reassigning reps or publishing new
+ * plans only affects commissions earned afterwards.
+ */
+
+import { storage } from "./storage";
+import type { CommissionPlan } from "@shared/schema";
+import {
+  parseCommissionPlanRules,
+  resolveCommissionPlan,
+  type CommissionPlanRules,
+  type ResolvedCommissionPlan,
+} from "@shared/commission-plans";
+
+export interface CommissionPlanView extends CommissionPlan {
+  rules: CommissionPlanRules;
+}
+
+export function toCommissionPlanView(plan: CommissionPlan): CommissionPlanView {
+  return { ...plan, rules: parseCommissionPlanRules(plan.rulesJson) };
+}
+
+// Load plans and assignments once for batch processing (e.g. a payout run)
+export async function loadCommissionPlanResolver(): Promise<
+  (salesRepId: number, at?: Date) => ResolvedCommissionPlan
+> {
+  const [plans, assignments] = await Promise.all([
+    storage.getCommissionPlans(),
+    storage.getSalesRepCommissionPlans(),
+  ]);
+  return (salesRepId, at = new Date()) =>
+    resolveCommissionPlan(plans, assignments, salesRepId, at);
+}
+
+// Plan in effect for a rep; reps without a profile get the company default
+export async function getActiveCommissionPlan(
+  salesRepId: number | null,
+  at: Date = new Date(),
+): Promise<ResolvedCommissionPlan> {
+  const [plans, assignments] = await Promise.all([
+    storage.getCommissionPlans(),
+    salesRepId ? storage.getSalesRepCommissionPlans(salesRepId) : [],
+  ]);
+  return resolveCommissionPlan(plans, assignments, salesRepId ?? 0, at);
+}
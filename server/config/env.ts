@@ -23,6 +23,29 @@ export const EnvSchema = z.object({
   SENTRY_DSN: z.string().url().optional(),
   SLACK_CHANNEL_ID: z.string().optional(),
 
+  // Knowledge base: days before a published article is flagged for review
+  KB_REVIEW_MAX_AGE_DAYS: z
+    .string()
+    .regex(/^\d+$/, "KB_REVIEW_MAX_AGE_DAYS must be a whole number of days")
+    .optional(),
+
+  // Seed Assistant: embedding provider for the retrieval index. "local" is
+  // an offline hashing stand-in; defaults to OpenAI when a key is present
+  ASSISTANT_EMBEDDINGS: z.enum(["openai", "local"]).optional(),
+
+  // LLM provider layer: "mock" answers every feature offline; LLM_ROUTES
+  // overrides per feature as feature=provider:model, comma-separated
+  LLM_PROVIDER: z.enum(["mock"]).optional(),
+  LLM_ROUTES: z.string().optional(),
+  LLM_TIMEOUT_MS: z
+    .string()
+    .regex(/^\d+$/, "LLM_TIMEOUT_MS must be a whole number of milliseconds")
+    .optional(),
+  LLM_MAX_ATTEMPTS: z
+    .string()
+    .regex(/^\d+$/, "LLM_MAX_ATTEMPTS must be a whole number")
+    .optional(),
+
   // Misc
   APP_VERSION: z.string().optional(),
 });
@@ -4,6 +4,18 @@
 
 import { pool } from "./db";
 
+/**
+ * A write refused because the row is no longer in the state it needs (an
+ * approval already used, a proposal already accepted). safeDbQuery rethrows
+ * it as-is, without retrying, so routes can answer with a 4xx.
+ */
+export class StorageConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "StorageConflictError";
+  }
+}
+
 /**
  * Wrapper function for safe database queries with retry logic and error handling
  */
@@ -28,6 +40,7 @@ export async function safeDbQuery<T>(
       });
       return result;
     } catch (error: any) {
+      if (error instanceof StorageConflictError) throw error;
       lastError = error;
 
       // Log the error with context
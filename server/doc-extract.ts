@@ -2,8 +2,8 @@ import { boxService } from "./box-integration";
 import { logger } from "./logger";
 import type { Readable } from "stream";
 
-const MAX_TOTAL_SOURCE_CHARS = 50_000; // total text cap across all docs
-const MAX_PER_DOC_CHARS = 10_000; // per doc cap
+const MAX_PER_DOC_CHARS = 10_000; // per doc cap for ad-hoc attachments
+export const MAX_INDEXED_DOC_CHARS = 200_000; // per doc cap when indexing
 const MAX_FILE_BYTES = 5 * 1024 * 1024; // 5MB read cap per file
 const MAX_FILES = 5; // max files per request
 
@@ -55,7 +55,7 @@ function extOf(name?: string): string {
   return i >= 0 ? n.slice(i + 1) : "";
 }
 
-async function extractTextFromBuffer(
+export async function extractTextFromBuffer(
   fileName: string,
   buf: Buffer,
 ): Promise<string> {
@@ -119,12 +119,14 @@ async function extractTextFromBuffer(
 
 export async function extractTextFromBoxFile(
   fileId: string,
+  maxChars = MAX_PER_DOC_CHARS,
 ): Promise<{ name: string; text: string } | null> {
   try {
     const info = await boxService.getFileInfo(fileId);
     if (!info) return null;
-    // Check cache by file version
-    const key = makeFileCacheKey(info);
+    // Check cache by file version and length cap
+    const versionKey = makeFileCacheKey(info);
+    const key = versionKey ? `${versionKey}:${maxChars}` : null;
     if (key) {
       const hit = EXTRACT_CACHE.get(key);
       if (hit && Date.now() - hit.ts < CACHE_TTL_MS) {
@@ -135,7 +137,7 @@ export async function extractTextFromBoxFile(
     if (!stream) return null;
     const buf = await readStreamToBuffer(stream as Readable);
     const raw = await extractTextFromBuffer(info.name, buf);
-    const text = String(raw || "").slice(0, MAX_PER_DOC_CHARS);
+    const text = String(raw || "").slice(0, maxChars);
     const out = { name: info.name, text };
     if (key) EXTRACT_CACHE.set(key, { ...out, ts: Date.now() });
     return out;
@@ -148,9 +150,11 @@ export async function extractTextFromBoxFile(
   }
 }
 
-export async function extractTextFromBoxAttachments(
+// Text of each attached file (folders expand to their files), for
+// retrieval over the attachments alongside the assistant index
+export async function extractBoxAttachmentDocuments(
   attachments: Array<{ type: "box_file" | "box_folder"; id: string }>,
-): Promise<{ combinedText: string; citations: string[] }> {
+): Promise<Array<{ id: string; name: string; text: string }>> {
   const files: { id: string; name?: string }[] = [];
 
   // Expand to files within subtree with enforcement already performed at call site if needed
@@ -178,23 +182,10 @@ export async function extractTextFromBoxAttachments(
     })
     .slice(0, MAX_FILES);
 
-  const parts: string[] = [];
-  const citations: string[] = [];
-  let total = 0;
-
+  const documents: Array<{ id: string; name: string; text: string }> = [];
   for (const f of unique) {
     const one = await extractTextFromBoxFile(f.id);
-    if (!one) continue;
-    const header = `### Source: ${one.name}`;
-    const text = one.text;
-    const chunk = `${header}\n${text}`;
-    const remaining = MAX_TOTAL_SOURCE_CHARS - total;
-    if (remaining <= 0) break;
-    const clipped = chunk.slice(0, remaining);
-    parts.push(clipped);
-    citations.push(one.name);
-    total += clipped.length;
+    if (one?.text) documents.push({ id: f.id, ...one });
   }
-
-  return { combinedText: parts.join("\n\n"), citations };
+  return documents;
 }
@@ -0,0 +1,107 @@
+/**
+ * Embedding providers for the Seed Assistant retrieval index.
+ *
+ * Vectors from different models are not comparable, so every stored chunk
+ * records the provider's model name and retrieval only compares like with
+ * like. Switching providers means rebuilding the index.
+ */
+
+import OpenAI from "openai";
+import { logger } from "./logger";
+
+export interface EmbeddingProvider {
+  readonly model: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+const OPENAI_EMBEDDING_MODEL = "text-embedding-3-small";
+const OPENAI_BATCH_SIZE = 96;
+
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly model = OPENAI_EMBEDDING_MODEL;
+  private client: OpenAI;
+
+  constructor(apiKey: string) {
+    this.client = new OpenAI({ apiKey });
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const vectors: number[][] = [];
+    for (let i = 0; i < texts.length; i += OPENAI_BATCH_SIZE) {
+      const batch = texts.slice(i, i + OPENAI_BATCH_SIZE);
+      try {
+        const response = await this.client.embeddings.create({
+          model: this.model,
+          input: batch,
+        });
+        for (const item of response.data) vectors.push(item.embedding);
+      } catch (error: any) {
+        logger.error("[Embeddings] OpenAI embedding failed", {
+          error: error.message,
+          batchSize: batch.length,
+        });
+        throw new Error(`Embedding failed: ${error.message}`);
+      }
+    }
+    return vectors;
+  }
+}
+
+const LOCAL_DIMENSIONS = 512;
+
+// FNV-1a, so the same token always lands in the same bucket
+function hashToken(token: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < token.length; i++) {
+    hash ^= token.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Offline stand-in: hashed bag of words and word bigrams, L2-normalized.
+ * Deterministic and dependency-free, so tests and local development get
+ * keyword-level retrieval without an API key. Not semantic.
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly model = `local-hash-${LOCAL_DIMENSIONS}`;
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array<number>(LOCAL_DIMENSIONS).fill(0);
+    const words = text.toLowerCase().match(/[a-z0-9]{2,}/g) ?? [];
+    const tokens = [
+      ...words,
+      ...words.slice(1).map((word, i) => `${words[i]} ${word}`),
+    ];
+    for (const token of tokens) {
+      const hash = hashToken(token);
+      // Sign bit spreads collisions instead of always adding them up
+      vector[hash % LOCAL_DIMENSIONS]! += hash & 0x80000000 ? -1 : 1;
+    }
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return norm ? vector.map((v) => v / norm) : vector;
+  }
+}
+
+let provider: EmbeddingProvider | null = null;
+
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (provider) return provider;
+  const apiKey = process.env.OPENAI_API_KEY;
+  if (process.env.ASSISTANT_EMBEDDINGS !== "local" && apiKey) {
+    provider = new OpenAIEmbeddingProvider(apiKey);
+  } else {
+    if (process.env.ASSISTANT_EMBEDDINGS === "openai") {
+      logger.warn(
+        "[Embeddings] OPENAI_API_KEY missing; using local embeddings instead",
+      );
+    }
+    provider = new LocalEmbeddingProvider();
+  }
+  return provider;
+}
@@ -2,13 +2,13 @@ import type { Express } from "express";
 import { requireAuth } from "./auth";
 import { cache, CachePrefix, CacheTTL } from "./cache";
 import { hubSpotService } from "./hubspot";
-import { syncQuoteToHubSpot } from "./services/hubspot/sync";
+import {
+  buildQuoteServiceConfig,
+  syncQuoteToHubSpot,
+} from "./services/hubspot/sync";
 import { storage } from "./storage";
 import { sendOk, sendError } from "./utils/responses";
-import {
-  buildServiceConfig,
-  toPricingDataFromQuote,
-} from "./services/hubspot/compose";
+import { toPricingDataFromQuote } from "./services/hubspot/compose";
 
 function getErrorMessage(err: unknown): string {
   if (err instanceof Error) return err.message;
@@ -316,7 +316,7 @@ export function registerHubspotRoutes(app: Express) {
         : null;
 
       const pricingInput = toPricingDataFromQuote(quote);
-      const svcConfig = buildServiceConfig(quote);
+      const svcConfig = await buildQuoteServiceConfig(quote);
       const fees = svcConfig.fees;
       const includes = svcConfig.includes;
 
@@ -514,7 +514,7 @@ export function registerHubspotRoutes(app: Express) {
         : null;
 
       const pricingInput = toPricingDataFromQuote(quote);
-      const svcConfig2 = buildServiceConfig(quote);
+      const svcConfig2 = await buildQuoteServiceConfig(quote);
       const fees2 = svcConfig2.fees;
       const includes2 = svcConfig2.includes;
 
@@ -721,7 +721,7 @@ export function registerHubspotRoutes(app: Express) {
         ? await hubSpotService.getOwnerByEmail(ownerEmail)
         : null;
       const pricingInput = toPricingDataFromQuote(quote);
-      const svcConfig3 = buildServiceConfig(quote);
+      const svcConfig3 = await buildQuoteServiceConfig(quote);
       const fees3 = svcConfig3.fees;
       const includes3 = svcConfig3.includes;
 
@@ -915,7 +915,7 @@ export function registerHubspotRoutes(app: Express) {
         ? await hubSpotService.getOwnerByEmail(ownerEmail)
         : null;
       const pricingInput = toPricingDataFromQuote(quote);
-      const svcConfig4 = buildServiceConfig(quote);
+      const svcConfig4 = await buildQuoteServiceConfig(quote);
       const fees4 = svcConfig4.fees;
       const includes4 = svcConfig4.includes;
       const includesBookkeeping = includes4.bookkeeping;
@@ -2,6 +2,14 @@ import type { HubSpotService } from "./hubspot";
 import { hubSpotService } from "./hubspot";
 import { db } from "./db";
 import { sql } from "drizzle-orm";
+import { applyCommissionClawbacks } from "./commission-clawbacks";
+import { storage } from "./storage";
+import { SERVICE_REGISTRY } from "@shared/services";
+import {
+  classifyLineItem,
+  hubspotLineItemClassifiable,
+  type CommissionProductMappingLike,
+} from "@shared/commission-classification";
 
 interface HubSpotUser {
   id: string;
@@ -38,6 +46,8 @@ interface HubSpotDeal {
 
 export class HubSpotCommissionSync {
   private hubspotService: HubSpotService;
+  // Admin product mappings, reloaded at the start of each invoice sync
+  private productMappings: CommissionProductMappingLike[] = [];
 
   constructor() {
     if (!hubSpotService) {
@@ -156,6 +166,8 @@ export class HubSpotCommissionSync {
     try {
       console.log("🔄 Syncing invoices from HubSpot...");
 
+      this.productMappings = await storage.getCommissionProductMappings();
+
       // List invoices via billing service helper
       const invoices = await this.hubspotService.listInvoices(100);
 
@@ -196,6 +208,8 @@ export class HubSpotCommissionSync {
             {
               id: `sample-${invoice.id}`,
               name: "Monthly Bookkeeping Service",
+              productId:
+                SERVICE_REGISTRY.serviceMonthlyBookkeeping.hubspotProductId,
               amount: invoiceAmount * 0.8, // 80% recurring
               price: invoiceAmount * 0.8,
               quantity: 1,
@@ -203,6 +217,8 @@ export class HubSpotCommissionSync {
             {
               id: `setup-${invoice.id}`,
               name: "Setup and Clean-up Service",
+              productId:
+                SERVICE_REGISTRY.serviceCleanupProjects.hubspotProductId,
               amount: invoiceAmount * 0.2, // 20% setup
               price: invoiceAmount * 0.2,
               quantity: 1,
@@ -547,14 +563,23 @@ export class HubSpotCommissionSync {
             ? amountRaw
             : parseFloat(String(amountRaw || "0"));
         const id = li?.id ?? p?.hs_object_id ?? undefined;
-        return { id, name, description, quantity, price: unitPrice, amount };
+        const product = hubspotLineItemClassifiable(p);
+        return {
+          id,
+          name,
+          description,
+          quantity,
+          price: unitPrice,
+          amount,
+          productId: product.productId ?? li?.productId ?? null,
+          recurringBillingFrequency: product.recurringBillingFrequency,
+        };
       });
 
       for (const item of normalizedItems) {
         const isRecurring =
-          item.name.toLowerCase().includes("monthly") ||
-          item.name.toLowerCase().includes("tax as a service") ||
-          item.name.toLowerCase().includes("recurring");
+          classifyLineItem(item, this.productMappings).commissionType ===
+          "monthly";
         await db.execute(sql`
           INSERT INTO hubspot_invoice_line_items (
             invoice_id,
@@ -566,6 +591,8 @@ export class HubSpotCommissionSync {
             total_price,
             service_type,
             is_recurring,
+            hubspot_product_id,
+            recurring_billing_frequency,
             created_at
           ) VALUES (
             ${hubspotInvoiceId},
@@ -577,6 +604,8 @@ export class HubSpotCommissionSync {
             ${item.amount},
             ${this.determineServiceTypeFromName(item.name)},
             ${isRecurring},
+            ${item.productId},
+            ${item.recurringBillingFrequency},
             NOW()
           )
         `);
@@ -609,6 +638,14 @@ export class HubSpotCommissionSync {
         );
       }
     } else {
+      // Keep the status current so refunds and voids can trigger clawbacks
+      const status = invoice.properties.hs_invoice_status;
+      if (status) {
+        await db.execute(sql`
+          UPDATE hubspot_invoices SET status = ${status}, updated_at = NOW()
+          WHERE hubspot_invoice_id = ${invoice.id} AND status <> ${status}
+        `);
+      }
       console.log(`🔄 Invoice ${invoice.id} already exists, skipping`);
     }
   }
@@ -669,41 +706,25 @@ export class HubSpotCommissionSync {
    * Helper methods for invoice processing
    */
   private calculateMonthlyValue(lineItems: any[]): number {
-    // Look for recurring services like "Monthly Bookkeeping", "Tax as a Service"
-    return lineItems
-      .filter((item) => {
-        const name = String(
-          (item?.name ?? item?.properties?.name) || "",
-        ).toLowerCase();
-        return (
-          name.includes("monthly") ||
-          name.includes("bookkeeping") ||
-          name.includes("recurring") ||
-          name.includes("tax as a service")
-        );
-      })
-      .reduce((sum, item) => {
-        const raw = item?.amount ?? item?.properties?.amount ?? 0;
-        const amount =
-          typeof raw === "number" ? raw : parseFloat(String(raw || "0"));
-        return sum + (Number.isFinite(amount) ? amount : 0);
-      }, 0);
+    return this.sumClassifiedAmount(lineItems, "monthly");
   }
 
   private calculateSetupFee(lineItems: any[]): number {
-    // Look for one-time services like "Clean-Up"
+    return this.sumClassifiedAmount(lineItems, "setup");
+  }
+
+  // Line items are classified by HubSpot product (then billing frequency);
+  // unclassified lines count towards neither total
+  private sumClassifiedAmount(
+    lineItems: any[],
+    commissionType: "setup" | "monthly",
+  ): number {
     return lineItems
-      .filter((item) => {
-        const name = String(
-          (item?.name ?? item?.properties?.name) || "",
-        ).toLowerCase();
-        return (
-          name.includes("clean") ||
-          name.includes("setup") ||
-          name.includes("catch") ||
-          name.includes("prior")
-        );
-      })
+      .filter(
+        (item) =>
+          classifyLineItem(item, this.productMappings).commissionType ===
+          commissionType,
+      )
       .reduce((sum, item) => {
         const raw = item?.amount ?? item?.properties?.amount ?? 0;
         const amount =
@@ -878,6 +899,9 @@ export class HubSpotCommissionSync {
       // Then sync invoices and generate commissions
       const invoicesProcessed = await this.syncInvoices();
 
+      // Claw back commissions on refunded invoices and churned clients
+      const { clawbacks } = await applyCommissionClawbacks();
+
       // Count results
       const salesRepsCount = await db.execute(
         sql`SELECT COUNT(*) as count FROM sales_reps WHERE is_active = true`,
@@ -894,6 +918,7 @@ export class HubSpotCommissionSync {
         invoices: (invoicesCount.rows[0] as any).count,
         commissions: (commissionsCount.rows[0] as any).count,
         invoicesProcessed,
+        clawbacks: clawbacks.length,
       };
 
       console.log("🎉 Full sync completed:", results);
@@ -917,6 +942,7 @@ export const hubspotSync: any = process.env.HUBSPOT_ACCESS_TOKEN
           invoices: 0,
           commissions: 0,
           invoicesProcessed: 0,
+          clawbacks: 0,
         };
       },
     };
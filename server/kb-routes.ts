@@ -0,0 +1,1022 @@
+/**
+ * SEEDKB knowledge base routes: categories, articles and their
+ * draft/in_review/published/archived lifecycle, version history and review,
+ * bookmarks, full-text search with a content gaps report, view counts, and
+ * AI drafting for the article generator.
+ *
+ * Article changes queue a Seed Assistant re-index; only published articles
+ * stay in the assistant's retrieval index.
+ *
+ * Reading needs VIEW_KNOWLEDGE_BASE, writing articles EDIT_KNOWLEDGE_BASE,
+ * and categories or permanent deletion MANAGE_KB_CONTENT.
+ */
+
+import type { Express, Request } from "express";
+import { z } from "zod";
+import { requireAuth } from "./auth";
+import { logger } from "./logger";
+import { getErrorMessage } from "./utils/errors";
+import { storage } from "./storage";
+import { queueKbArticleReindex } from "./assistant-index";
+import { anthropicService, ARTICLE_TEMPLATE_TYPES } from "./services/anthropic";
+import { requirePermission, userHasPermission } from "./middleware/permissions";
+import { PERMISSIONS } from "@shared/permissions";
+import {
+  buildKbCategoryTree,
+  DEFAULT_KB_REVIEW_MAX_AGE_DAYS,
+  isKbArticleStale,
+  kbSlug,
+  KB_ARTICLE_STATUSES,
+  type KbSearchResponse,
+} from "@shared/kb";
+import type { InsertKbArticle, KbArticle } from "@shared/schema";
+
+const canView = requirePermission(PERMISSIONS.VIEW_KNOWLEDGE_BASE);
+const canEdit = requirePermission(PERMISSIONS.EDIT_KNOWLEDGE_BASE);
+const canManage = requirePermission(PERMISSIONS.MANAGE_KB_CONTENT);
+
+const categorySchema = z.object({
+  name: z.string().trim().min(1).max(120),
+  description: z.string().nullable().optional(),
+  icon: z.string().optional(),
+  color: z.string().optional(),
+  parentId: z.number().int().positive().nullable().optional(),
+  sortOrder: z.number().int().optional(),
+});
+
+const articleSchema = z.object({
+  title: z.string().trim().min(1).max(200),
+  excerpt: z.string().nullable().optional(),
+  content: z.string().min(1),
+  categoryId: z.number().int().positive(),
+  status: z.enum(KB_ARTICLE_STATUSES).default("draft"),
+  featured: z.boolean().default(false),
+  tags: z.array(z.string().trim().min(1)).default([]),
+  changeNote: z.string().trim().max(500).nullable().optional(),
+});
+
+const articleUpdateSchema = articleSchema
+  .partial()
+  .extend({ tags: z.array(z.string().trim().min(1)).optional() });
+
+const reviewSchema = z.object({
+  decision: z.enum(["approve", "request_changes"]),
+});
+
+const bookmarkSchema = z.object({
+  articleId: z.number().int().positive(),
+});
+
+// The article generator's form; template variables arrive already collected
+// into `variables`, so the raw templateVar_* fields are dropped
+const generationSchema = z.object({
+  templateType: z.enum(ARTICLE_TEMPLATE_TYPES),
+  title: z.string().trim().min(1).max(200),
+  categoryId: z.number().int().positive(),
+  audience: z.enum(["internal", "client", "sales"]),
+  tone: z.enum(["professional", "friendly", "technical"]).optional(),
+  length: z.enum(["brief", "standard", "comprehensive"]).optional(),
+  includeCompliance: z.boolean().optional(),
+  customRequirements: z.string().optional(),
+  variables: z.record(z.string()).optional(),
+});
+
+const draftSchema = generationSchema.extend({
+  outline: z.string().optional(),
+});
+
+const polishSchema = generationSchema.extend({
+  draft: z.string().min(1),
+});
+
+const redraftSchema = generationSchema.extend({
+  currentContent: z.string().min(1),
+  selectedImprovements: z.array(z.string().min(1)).min(1),
+});
+
+// Existing articles are re-versioned without a template
+const versionsSchema = generationSchema
+  .partial({ templateType: true })
+  .extend({ baseContent: z.string().min(1) });
+
+const metadataSchema = z.object({
+  title: z.string().trim().min(1),
+  content: z.string().min(1),
+});
+
+const analyzeSchema = z.object({
+  content: z.string().min(1),
+});
+
+const isUniqueViolation = (error: unknown) =>
+  (error as { code?: string } | null)?.code === "23505";
+
+// Drafts and archived articles are only visible to editors
+function visibleTo(req: Request, article: KbArticle | undefined) {
+  if (!article) return false;
+  return (
+    article.status === "published" ||
+    userHasPermission(req, PERMISSIONS.EDIT_KNOWLEDGE_BASE)
+  );
+}
+
+async function uniqueArticleSlug(title: string): Promise<string> {
+  const base = kbSlug(title);
+  let slug = base;
+  for (let n = 2; await storage.getKbArticleBySlug(slug); n++) {
+    slug = `${base}-${n}`;
+  }
+  return slug;
+}
+
+async function activeCategoryExists(id: number): Promise<boolean> {
+  const categories = await storage.getKbCategories();
+  return categories.some((c) => c.id === id);
+}
+
+// Stamp publishedAt the first time an article goes live
+function withPublishedAt<T extends Partial<InsertKbArticle>>(
+  update: T,
+  existing?: KbArticle,
+): T {
+  if (update.status === "published" && !existing?.publishedAt) {
+    return { ...update, publishedAt: new Date() };
+  }
+  return update;
+}
+
+function reviewMaxAgeDays(): number {
+  return (
+    parseInt(process.env.KB_REVIEW_MAX_AGE_DAYS ?? "") ||
+    DEFAULT_KB_REVIEW_MAX_AGE_DAYS
+  );
+}
+
+async function findArticle(idOrSlug: string) {
+  return /^\d+$/.test(idOrSlug)
+    ? await storage.getKbArticle(parseInt(idOrSlug))
+    : await storage.getKbArticleBySlug(idOrSlug);
+}
+
+export function registerKbRoutes(app: Express) {
+  // ===== CATEGORIES =====
+  app.get("/api/kb/categories", requireAuth, canView, async (req, res) => {
+    try {
+      res.json(await storage.getKbCategories());
+    } catch (error) {
+      logger.error("[KB] Failed to fetch categories", {
+        error: getErrorMessage(error),
+      });
+      res.status(500).json({
+        message: `Failed to fetch categories: ${getErrorMessage(error)}`,
+      });
+    }
+  });
+
+  app.get("/api/kb/categories/tree", requireAuth, canView, async (req, res) => {
+    try {
+      res.json(buildKbCategoryTree(await storage.getKbCategories()));
+    } catch (error) {
+      logger.error("[KB] Failed to fetch category tree", {
+        error: getErrorMessage(error),
+      });
+      res.status(500).json({
+        message: `Failed to fetch categories: ${getErrorMessage(error)}`,
+      });
+    }
+  });
+
+  app.post("/api/kb/categories", requireAuth, canManage, async (req, res) => {
+    try {
+      const parsed = categorySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: "Invalid category",
+          errors: parsed.error.issues,
+        });
+      }
+      const { parentId } = parsed.data;
+      if (parentId && !(await activeCategoryExists(parentId))) {
+        return res.status(400).json({ message: "Parent category not found" });
+      }
+      const category = await storage.createKbCategory({
+        ...parsed.data,
+        slug: kbSlug(parsed.data.name),
+      });
+      res.status(201).json(category);
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        return res
+          .status(409)
+          .json({ message: "A category with this name already exists" });
+      }
+      logger.error("[KB] Failed to create category", {
+        error: getErrorMessage(error),
+      });
+      res.status(500).json({
+        message: `Failed to create category: ${getErrorMessage(error)}`,
+      });
+    }
+  });
+
+  app.patch(
+    "/api/kb/categories/:id",
+    requireAuth,
+    canManage,
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+          return res.status(400).json({ message: "Invalid category ID" });
+        }
+        const parsed = categorySchema.partial().safeParse(req.body);
+        if (!parsed.success) {
+          return res.status(400).json({
+            message: "Invalid category",
+            errors: parsed.error.issues,
+          });
+        }
+        const { parentId } = parsed.data;
+        if (parentId === id) {
+          return res
+            .status(400)
+            .json({ message: "A category cannot be its own parent" });
+        }
+        if (parentId && !(await activeCategoryExists(parentId))) {
+          return res.status(400).json({ message: "Parent category not found" });
+        }
+        if (!(await activeCategoryExists(id))) {
+          return res.status(404).json({ message: "Category not found" });
+        }
+        res.json(await storage.updateKbCategory(id, parsed.data));
+      } catch (error) {
+        logger.error("[KB] Failed to update category", {
+          error: getErrorMessage(error),
+        });
+        res.status(500).json({
+          message: `Failed to update category: ${getErrorMessage(error)}`,
+        });
+      }
+    },
+  );
+
+  // Soft delete: the category disappears, its articles are kept
+  app.delete(
+    "/api/kb/categories/:id",
+    requireAuth,
+    canManage,
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+          return res.status(400).json({ message: "Invalid category ID" });
+        }
+        if (!(await activeCategoryExists(id))) {
+          return res.status(404).json({ message: "Category not found" });
+        }
+        await storage.deleteKbCategory(id);
+        res.json({ success: true });
+      } catch (error) {
+        logger.error("[KB] Failed to delete category", {
+          error: getErrorMessage(error),
+        });
+        res.status(500).json({
+          message: `Failed to delete category: ${getErrorMessage(error)}`,
+        });
+      }
+    },
+  );
+
+  // ===== ARTICLES =====
+  app.get("/api/kb/articles", requireAuth, canView, async (req, res) => {
+    try {
+      const { categoryId, status, featured, title, stale } =
+        req.query as Record<string, string | undefined>;
+      const canSeeDrafts = userHasPermission(
+        req,
+        PERMISSIONS.EDIT_KNOWLEDGE_BASE,
+      );
+      const articles = await storage.getKbArticles(
+        categoryId ? parseInt(categoryId) || undefined : undefined,
+        canSeeDrafts ? status : "published",
+        featured === undefined ? undefined : featured === "true",
+        title,
+      );
+      const maxAgeDays = reviewMaxAgeDays();
+      const flagged = articles.map((article) => ({
+        ...article,
+        stale: isKbArticleStale(article, maxAgeDays),
+      }));
+      res.json(stale === "true" ? flagged.filter((a) => a.stale) : flagged);
+    } catch (error) {
+      logger.error("[KB] Failed to fetch articles", {
+        error: getErrorMessage(error),
+      });
+      res.status(500).json({
+        message: `Failed to fetch articles: ${getErrorMessage(error)}`,
+      });
+    }
+  });
+
+  app.get(
+    "/api/kb/articles/:idOrSlug",
+    requireAuth,
+    canView,
+    async (req, res) => {
+      try {
+        const article = await findArticle(req.params.idOrSlug);
+        if (!visibleTo(req, article)) {
+          return res.status(404).json({ message: "Article not found" });
+        }
+        res.json(article);
+      } catch (error) {
+        logger.error("[KB] Failed to fetch article", {
+          error: getErrorMessage(error),
+        });
+        res.status(500).json({
+          message: `Failed to fetch article: ${getErrorMessage(error)}`,
+        });
+      }
+    },
+  );
+
+  // Counted separately from GET so editors previewing don't inflate views
+  app.post(
+    "/api/kb/articles/:id/view",
+    requireAuth,
+    canView,
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id);
+        const article = isNaN(id) ? undefined : await storage.getKbArticle(id);
+        if (!article || article.status !== "published") {
+          return res.status(404).json({ message: "Article not found" });
+        }
+        await storage.incrementArticleViews(id);
+        res.json({ viewCount: (article.viewCount ?? 0) + 1 });
+      } catch (error) {
+        logger.error("[KB] Failed to record article view", {
+          error: getErrorMessage(error),
+        });
+        res.status(500).json({
+          message: `Failed to record view: ${getErrorMessage(error)}`,
+        });
+      }
+    },
+  );
+
+  app.post("/api/kb/articles", requireAuth, canEdit, async (req, res) => {
+    try {
+      const parsed = articleSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: "Invalid article",
+          errors: parsed.error.issues,
+        });
+      }
+      if (!(await activeCategoryExists(parsed.data.categoryId))) {
+        return res.status(400).json({ message: "Category not found" });
+      }
+      const { changeNote, ...fields } = parsed.data;
+      const article = await storage.createKbArticle(
+        {
+          ...withPublishedAt(fields),
+          slug: await uniqueArticleSlug(fields.title),
+          authorId: req.user!.id,
+        },
+        changeNote,
+      );
+      queueKbArticleReindex(article.id);
+      res.status(201).json(article);
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        return res
+          .status(409)
+          .json({ message: "An article with this title already exists" });
+      }
+      logger.error("[KB] Failed to create article", {
+        error: getErrorMessage(error),
+      });
+      res.status(500).json({
+        message: `Failed to create article: ${getErrorMessage(error)}`,
+      });
+    }
+  });
+
+  // Slugs stay stable across title edits so shared links keep working
+  app.patch("/api/kb/articles/:id", requireAuth, canEdit, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid article ID" });
+      }
+      const parsed = articleUpdateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: "Invalid article",
+          errors: parsed.error.issues,
+        });
+      }
+      const existing = await storage.getKbArticle(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Article not found" });
+      }
+      const { changeNote, ...fields } = parsed.data;
+      // An article in review leaves it only through a second editor's review
+      if (
+        existing.status === "in_review" &&
+        fields.status &&
+        fields.status !== "in_review"
+      ) {
+        return res.status(409).json({
+          message: "Articles in review change status through the review",
+        });
+      }
+      if (
+        fields.categoryId &&
+        !(await activeCategoryExists(fields.categoryId))
+      ) {
+        return res.status(400).json({ message: "Category not found" });
+      }
+      const article = await storage.updateKbArticle(
+        id,
+        withPublishedAt(fields, existing),
+        { authorId: req.user!.id, changeNote },
+      );
+      queueKbArticleReindex(id);
+      res.json(article);
+    } catch (error) {
+      logger.error("[KB] Failed to update article", {
+        error: getErrorMessage(error),
+      });
+      res.status(500).json({
+        message: `Failed to update article: ${getErrorMessage(error)}`,
+      });
+    }
+  });
+
+  // ===== VERSIONS =====
+  app.get(
+    "/api/kb/articles/:id/versions",
+    requireAuth,
+    canEdit,
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id);
+        if (isNaN(id) || !(await storage.getKbArticle(id))) {
+          return res.status(404).json({ message: "Article not found" });
+        }
+        res.json(await storage.getKbArticleVersions(id));
+      } catch (error) {
+        logger.error("[KB] Failed to fetch article versions", {
+          error: getErrorMessage(error),
+        });
+        res.status(500).json({
+          message: `Failed to fetch versions: ${getErrorMessage(error)}`,
+        });
+      }
+    },
+  );
+
+  // Restoring saves the old title and content as a new version, so the
+  // restore itself can be undone
+  app.post(
+    "/api/kb/articles/:id/versions/:versionId/restore",
+    requireAuth,
+    canEdit,
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id);
+        const versionId = parseInt(req.params.versionId);
+        const version =
+          isNaN(id) || isNaN(versionId)
+            ? undefined
+            : await storage.getKbArticleVersion(id, versionId);
+        if (!version) {
+          return res.status(404).json({ message: "Version not found" });
+        }
+        const article = await storage.updateKbArticle(
+          id,
+          { title: version.title, content: version.content },
+          {
+            authorId: req.user!.id,
+            changeNote: `Restored version ${version.version}`,
+          },
+        );
+        queueKbArticleReindex(id);
+        res.json(article);
+      } catch (error) {
+        logger.error("[KB] Failed to restore article version", {
+          error: getErrorMessage(error),
+        });
+        res.status(500).json({
+          message: `Failed to restore version: ${getErrorMessage(error)}`,
+        });
+      }
+    },
+  );
+
+  // ===== REVIEW =====
+  app.post(
+    "/api/kb/articles/:id/submit-review",
+    requireAuth,
+    canEdit,
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id);
+        const article = isNaN(id) ? undefined : await storage.getKbArticle(id);
+        if (!article) {
+          return res.status(404).json({ message: "Article not found" });
+        }
+        if (article.status !== "draft") {
+          return res
+            .status(409)
+            .json({ message: "Only drafts can be submitted for review" });
+        }
+        res.json(await storage.updateKbArticle(id, { status: "in_review" }));
+      } catch (error) {
+        logger.error("[KB] Failed to submit article for review", {
+          error: getErrorMessage(error),
+        });
+        res.status(500).json({
+          message: `Failed to submit for review: ${getErrorMessage(error)}`,
+        });
+      }
+    },
+  );
+
+  // A second editor approves (publishing it, or re-confirming a published
+  // article so it is no longer stale) or sends it back to draft. Whoever
+  // wrote the latest version can't review it.
+  app.post(
+    "/api/kb/articles/:id/review",
+    requireAuth,
+    canEdit,
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id);
+        const parsed = reviewSchema.safeParse(req.body);
+        if (!parsed.success) {
+          return res.status(400).json({
+            message: "Invalid review",
+            errors: parsed.error.issues,
+          });
+        }
+        const article = isNaN(id) ? undefined : await storage.getKbArticle(id);
+        if (!article) {
+          return res.status(404).json({ message: "Article not found" });
+        }
+        if (article.status !== "in_review" && article.status !== "published") {
+          return res.status(409).json({
+            message: "Only articles in review or published can be reviewed",
+          });
+        }
+        const [latest] = await storage.getKbArticleVersions(id);
+        if ((latest?.authorId ?? article.authorId) === req.user!.id) {
+          return res.status(403).json({
+            message: "Articles must be reviewed by a different editor",
+          });
+        }
+
+        if (parsed.data.decision === "request_changes") {
+          if (article.status !== "in_review") {
+            return res.status(409).json({
+              message: "Changes can only be requested on articles in review",
+            });
+          }
+          return res.json(
+            await storage.updateKbArticle(id, { status: "draft" }),
+          );
+        }
+        const reviewed = await storage.updateKbArticle(
+          id,
+          withPublishedAt(
+            {
+              status: "published",
+              lastReviewedBy: req.user!.id,
+              lastReviewedAt: new Date(),
+            },
+            article,
+          ),
+        );
+        queueKbArticleReindex(id);
+        res.json(reviewed);
+      } catch (error) {
+        logger.error("[KB] Failed to review article", {
+          error: getErrorMessage(error),
+        });
+        res.status(500).json({
+          message: `Failed to review article: ${getErrorMessage(error)}`,
+        });
+      }
+    },
+  );
+
+  app.patch(
+    "/api/kb/articles/:id/archive",
+    requireAuth,
+    canEdit,
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id);
+        if (isNaN(id) || !(await storage.getKbArticle(id))) {
+          return res.status(404).json({ message: "Article not found" });
+        }
+        await storage.archiveKbArticle(id);
+        queueKbArticleReindex(id);
+        res.json({ success: true });
+      } catch (error) {
+        logger.error("[KB] Failed to archive article", {
+          error: getErrorMessage(error),
+        });
+        res.status(500).json({
+          message: `Failed to archive article: ${getErrorMessage(error)}`,
+        });
+      }
+    },
+  );
+
+  // Archived articles come back as drafts
+  app.patch(
+    "/api/kb/articles/:id/restore",
+    requireAuth,
+    canEdit,
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id);
+        const article = isNaN(id) ? undefined : await storage.getKbArticle(id);
+        if (!article) {
+          return res.status(404).json({ message: "Article not found" });
+        }
+        if (article.status !== "archived") {
+          return res
+            .status(409)
+            .json({ message: "Only archived articles can be restored" });
+        }
+        await storage.undeleteKbArticle(id);
+        res.json({ success: true });
+      } catch (error) {
+        logger.error("[KB] Failed to restore article", {
+          error: getErrorMessage(error),
+        });
+        res.status(500).json({
+          message: `Failed to restore article: ${getErrorMessage(error)}`,
+        });
+      }
+    },
+  );
+
+  app.delete(
+    "/api/kb/articles/:id",
+    requireAuth,
+    canManage,
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id);
+        if (isNaN(id) || !(await storage.getKbArticle(id))) {
+          return res.status(404).json({ message: "Article not found" });
+        }
+        await storage.deleteKbArticle(id);
+        queueKbArticleReindex(id);
+        res.json({ success: true });
+      } catch (error) {
+        logger.error("[KB] Failed to delete article", {
+          error: getErrorMessage(error),
+        });
+        res.status(500).json({
+          message: `Failed to delete article: ${getErrorMessage(error)}`,
+        });
+      }
+    },
+  );
+
+  // ===== SEARCH =====
+  // Ranked full-text search with snippets and category/tag facets. Only the
+  // unfiltered search is recorded, so narrowing by a facet isn't counted as
+  // a second search.
+  app.get("/api/kb/search", requireAuth, canView, async (req, res) => {
+    try {
+      const q = String(req.query.q ?? "").trim();
+      const categoryId = parseInt(String(req.query.categoryId)) || undefined;
+      const tag = req.query.tag ? String(req.query.tag) : undefined;
+      const limit = Math.min(parseInt(String(req.query.limit)) || 20, 50);
+      if (q.length < 2) {
+        return res.json({
+          query: q,
+          results: [],
+          total: 0,
+          facets: { categories: [], tags: [] },
+          fuzzy: false,
+        } satisfies KbSearchResponse);
+      }
+      const response = await storage.searchKbArticles(q, {
+        categoryId,
+        tag,
+        limit,
+      });
+      if (!categoryId && !tag) {
+        await storage.recordKbSearch({
+          userId: req.user!.id,
+          query: q,
+          resultsCount: response.total,
+        });
+      }
+      res.json(response);
+    } catch (error) {
+      logger.error("[KB] Search failed", { error: getErrorMessage(error) });
+      res
+        .status(500)
+        .json({ message: `Search failed: ${getErrorMessage(error)}` });
+    }
+  });
+
+  // Content gaps: what staff searched for and found nothing
+  app.get("/api/kb/content-gaps", requireAuth, canManage, async (req, res) => {
+    try {
+      const days = Math.min(parseInt(String(req.query.days)) || 90, 365);
+      res.json(await storage.getKbContentGaps(days));
+    } catch (error) {
+      logger.error("[KB] Failed to build content gaps report", {
+        error: getErrorMessage(error),
+      });
+      res.status(500).json({
+        message: `Failed to build content gaps report: ${getErrorMessage(error)}`,
+      });
+    }
+  });
+
+  app.get("/api/kb/search/history", requireAuth, canView, async (req, res) => {
+    try {
+      const limit = Math.min(parseInt(String(req.query.limit)) || 20, 100);
+      res.json(await storage.getUserKbSearchHistory(req.user!.id, limit));
+    } catch (error) {
+      logger.error("[KB] Failed to fetch search history", {
+        error: getErrorMessage(error),
+      });
+      res.status(500).json({
+        message: `Failed to fetch search history: ${getErrorMessage(error)}`,
+      });
+    }
+  });
+
+  // ===== BOOKMARKS =====
+  // Bookmarked articles the user can still see, newest bookmark first
+  app.get("/api/kb/bookmarks", requireAuth, canView, async (req, res) => {
+    try {
+      const bookmarks = await storage.getUserKbBookmarks(req.user!.id);
+      const withArticles = await Promise.all(
+        bookmarks.map(async (bookmark) => ({
+          ...bookmark,
+          article: await storage.getKbArticle(bookmark.articleId),
+        })),
+      );
+      res.json(withArticles.filter((b) => visibleTo(req, b.article)));
+    } catch (error) {
+      logger.error("[KB] Failed to fetch bookmarks", {
+        error: getErrorMessage(error),
+      });
+      res.status(500).json({
+        message: `Failed to fetch bookmarks: ${getErrorMessage(error)}`,
+      });
+    }
+  });
+
+  app.post("/api/kb/bookmarks", requireAuth, canView, async (req, res) => {
+    try {
+      const parsed = bookmarkSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: "Invalid bookmark",
+          errors: parsed.error.issues,
+        });
+      }
+      const { articleId } = parsed.data;
+      if (!visibleTo(req, await storage.getKbArticle(articleId))) {
+        return res.status(404).json({ message: "Article not found" });
+      }
+      const existing = (await storage.getUserKbBookmarks(req.user!.id)).find(
+        (b) => b.articleId === articleId,
+      );
+      if (existing) return res.json(existing);
+      const bookmark = await storage.createKbBookmark({
+        userId: req.user!.id,
+        articleId,
+      });
+      res.status(201).json(bookmark);
+    } catch (error) {
+      logger.error("[KB] Failed to create bookmark", {
+        error: getErrorMessage(error),
+      });
+      res.status(500).json({
+        message: `Failed to create bookmark: ${getErrorMessage(error)}`,
+      });
+    }
+  });
+
+  app.delete(
+    "/api/kb/bookmarks/:articleId",
+    requireAuth,
+    canView,
+    async (req, res) => {
+      try {
+        const articleId = parseInt(req.params.articleId);
+        if (isNaN(articleId)) {
+          return res.status(400).json({ message: "Invalid article ID" });
+        }
+        await storage.deleteKbBookmark(req.user!.id, articleId);
+        res.json({ success: true });
+      } catch (error) {
+        logger.error("[KB] Failed to delete bookmark", {
+          error: getErrorMessage(error),
+        });
+        res.status(500).json({
+          message: `Failed to delete bookmark: ${getErrorMessage(error)}`,
+        });
+      }
+    },
+  );
+
+  // ===== AI DRAFTING =====
+  app.get("/api/kb/ai/templates", requireAuth, canEdit, (_req, res) => {
+    res.json(anthropicService.getAvailableTemplates());
+  });
+
+  app.post(
+    "/api/kb/ai/generate-outline",
+    requireAuth,
+    canEdit,
+    async (req, res) => {
+      try {
+        const parsed = generationSchema.safeParse(req.body);
+        if (!parsed.success) {
+          return res.status(400).json({
+            message: "Invalid generation request",
+            errors: parsed.error.issues,
+          });
+        }
+        res.json(await anthropicService.generateArticleOutline(parsed.data));
+      } catch (error) {
+        logger.error("[KB] Failed to generate outline", {
+          error: getErrorMessage(error),
+        });
+        res.status(500).json({
+          message: `Failed to generate outline: ${getErrorMessage(error)}`,
+        });
+      }
+    },
+  );
+
+  app.post(
+    "/api/kb/ai/generate-draft",
+    requireAuth,
+    canEdit,
+    async (req, res) => {
+      try {
+        const parsed = draftSchema.safeParse(req.body);
+        if (!parsed.success) {
+          return res.status(400).json({
+            message: "Invalid generation request",
+            errors: parsed.error.issues,
+          });
+        }
+        const { outline, ...request } = parsed.data;
+        res.json(await anthropicService.generateArticleDraft(request, outline));
+      } catch (error) {
+        logger.error("[KB] Failed to generate draft", {
+          error: getErrorMessage(error),
+        });
+        res.status(500).json({
+          message: `Failed to generate draft: ${getErrorMessage(error)}`,
+        });
+      }
+    },
+  );
+
+  app.post("/api/kb/ai/polish", requireAuth, canEdit, async (req, res) => {
+    try {
+      const parsed = polishSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: "Invalid generation request",
+          errors: parsed.error.issues,
+        });
+      }
+      const { draft, ...request } = parsed.data;
+      res.json(await anthropicService.polishArticle(draft, request));
+    } catch (error) {
+      logger.error("[KB] Failed to polish article", {
+        error: getErrorMessage(error),
+      });
+      res.status(500).json({
+        message: `Failed to polish article: ${getErrorMessage(error)}`,
+      });
+    }
+  });
+
+  app.post(
+    "/api/kb/ai/redraft-with-improvements",
+    requireAuth,
+    canEdit,
+    async (req, res) => {
+      try {
+        const parsed = redraftSchema.safeParse(req.body);
+        if (!parsed.success) {
+          return res.status(400).json({
+            message: "Invalid generation request",
+            errors: parsed.error.issues,
+          });
+        }
+        const { currentContent, selectedImprovements, ...request } =
+          parsed.data;
+        res.json(
+          await anthropicService.redraftWithImprovements(
+            currentContent,
+            selectedImprovements,
+            request,
+          ),
+        );
+      } catch (error) {
+        logger.error("[KB] Failed to re-draft article", {
+          error: getErrorMessage(error),
+        });
+        res.status(500).json({
+          message: `Failed to re-draft article: ${getErrorMessage(error)}`,
+        });
+      }
+    },
+  );
+
+  app.post(
+    "/api/kb/ai/generate-versions",
+    requireAuth,
+    canEdit,
+    async (req, res) => {
+      try {
+        const parsed = versionsSchema.safeParse(req.body);
+        if (!parsed.success) {
+          return res.status(400).json({
+            message: "Invalid generation request",
+            errors: parsed.error.issues,
+          });
+        }
+        const { baseContent, ...request } = parsed.data;
+        res.json(
+          await anthropicService.generateMultipleVersions(request, baseContent),
+        );
+      } catch (error) {
+        logger.error("[KB] Failed to generate audience versions", {
+          error: getErrorMessage(error),
+        });
+        res.status(500).json({
+          message: `Failed to generate audience versions: ${getErrorMessage(error)}`,
+        });
+      }
+    },
+  );
+
+  app.post(
+    "/api/kb/ai/generate-metadata",
+    requireAuth,
+    canEdit,
+    async (req, res) => {
+      try {
+        const parsed = metadataSchema.safeParse(req.body);
+        if (!parsed.success) {
+          return res.status(400).json({
+            message: "Invalid metadata request",
+            errors: parsed.error.issues,
+          });
+        }
+        const { content, title } = parsed.data;
+        res.json(await anthropicService.generateMetadata(content, title));
+      } catch (error) {
+        logger.error("[KB] Failed to generate metadata", {
+          error: getErrorMessage(error),
+        });
+        res.status(500).json({
+          message: `Failed to generate metadata: ${getErrorMessage(error)}`,
+        });
+      }
+    },
+  );
+
+  app.post("/api/kb/ai/analyze", requireAuth, canEdit, async (req, res) => {
+    try {
+      const parsed = analyzeSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: "Invalid analysis request",
+          errors: parsed.error.issues,
+        });
+      }
+      res.json(await anthropicService.analyzeContent(parsed.data.content));
+    } catch (error) {
+      logger.error("[KB] Failed to analyze content", {
+        error: getErrorMessage(error),
+      });
+      res.status(500).json({
+        message: `Failed to analyze content: ${getErrorMessage(error)}`,
+      });
+    }
+  });
+}
@@ -0,0 +1,34 @@
+import type { NextFunction, Request, Response } from "express";
+import {
+  hasPermission,
+  USER_ROLES,
+  type Permission,
+  type UserRole,
+} from "@shared/permissions";
+
+// Role of the signed-in user, falling back to employee for unknown values
+export function userRole(req: Pick<Request, "user">): UserRole {
+  return req.user?.role === USER_ROLES.ADMIN
+    ? USER_ROLES.ADMIN
+    : USER_ROLES.EMPLOYEE;
+}
+
+export function userHasPermission(
+  req: Pick<Request, "user">,
+  permission: Permission,
+): boolean {
+  return !!req.user && hasPermission(userRole(req), permission);
+}
+
+// Use after requireAuth: 403 unless the user's role grants the permission.
+// Generic over the params so route param typing still comes from the path.
+export function requirePermission(permission: Permission) {
+  return <P>(req: Request<P>, res: Response, next: NextFunction) => {
+    if (!userHasPermission(req, permission)) {
+      return res
+        .status(403)
+        .json({ message: "You do not have permission to do this" });
+    }
+    next();
+  };
+}
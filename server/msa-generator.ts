@@ -6,6 +6,7 @@ import { Document, Packer, Paragraph, TextRun, AlignmentType } from "docx";
 import fs from "fs/promises";
 import path from "path";
 import { logger } from "./logger";
+import { CONTRACT_TERM_MONTHS, type ContractTerm } from "@shared/pricing-terms";
 
 export interface MSAData {
   clientLegalName: string;
@@ -19,6 +20,10 @@ export interface MSAData {
   industry: string;
   monthlyFee?: number;
   setupFee?: number;
+  // Commercial terms; omitted means month-to-month
+  contractTerm?: ContractTerm;
+  termDiscountAmount?: number;
+  prepayAmount?: number;
 }
 
 export class MSAGenerator {
@@ -45,7 +50,7 @@ export class MSAGenerator {
               this.createServiceFramework(data),
               this.createClientObligations(),
               this.createFeesSection(data),
-              this.createTermAndTermination(),
+              this.createTermAndTermination(data),
               // Add remaining sections...
             ],
           },
@@ -226,17 +231,39 @@ export class MSAGenerator {
           size: 24,
         }),
         new TextRun({
-          text: `Services are provided on a monthly subscription basis at the rates specified in the applicable Order Form. Monthly fees: $${data.monthlyFee || 0}. Setup fees: $${data.setupFee || 0}.\n\n`,
+          text: this.getSubscriptionFeesText(data),
           size: 24,
         }),
       ],
     });
   }
 
+  /**
+   * Describe subscription fees and billing for the quote's contract term
+   */
+  private getSubscriptionFeesText(data: MSAData): string {
+    const monthlyFee = data.monthlyFee || 0;
+    const setupFee = data.setupFee || 0;
+    const term = data.contractTerm ?? "monthly";
+    const termDiscount = data.termDiscountAmount
+      ? ` These rates reflect a term discount of $${data.termDiscountAmount} per month, conditioned on Client completing the committed term.`
+      : "";
+
+    if (term === "annual_prepay") {
+      return `Services are provided on an annual subscription basis, billed annually in advance at the rates specified in the applicable Order Form. Annual prepayment: $${data.prepayAmount || monthlyFee * 12} (equivalent to $${monthlyFee} per month). Setup fees: $${setupFee}.${termDiscount} Prepaid fees are non-refundable except as expressly provided in this Agreement.\n\n`;
+    }
+    if (term === "12_month" || term === "24_month") {
+      return `Services are provided on a ${CONTRACT_TERM_MONTHS[term]}-month committed subscription basis, billed monthly at the rates specified in the applicable Order Form. Monthly fees: $${monthlyFee}. Setup fees: $${setupFee}.${termDiscount}\n\n`;
+    }
+    return `Services are provided on a monthly subscription basis at the rates specified in the applicable Order Form. Monthly fees: $${monthlyFee}. Setup fees: $${setupFee}.\n\n`;
+  }
+
   /**
    * Create term and termination section
    */
-  private createTermAndTermination(): Paragraph {
+  private createTermAndTermination(data: MSAData): Paragraph {
+    const months = CONTRACT_TERM_MONTHS[data.contractTerm ?? "monthly"] ?? 12;
+    const monthsText = months === 24 ? "twenty-four (24)" : "twelve (12)";
     return new Paragraph({
       children: [
         new TextRun({
@@ -250,7 +277,7 @@ export class MSAGenerator {
           size: 24,
         }),
         new TextRun({
-          text: 'The initial term of this Agreement shall be twelve (12) months from the Effective Date ("Initial Term"). The Agreement shall automatically renew for successive twelve-month periods unless either Party provides written notice of non-renewal at least sixty (60) days prior to the end of the then-current term.\n\n',
+          text: `The initial term of this Agreement shall be ${monthsText} months from the Effective Date ("Initial Term"). The Agreement shall automatically renew for successive twelve-month periods unless either Party provides written notice of non-renewal at least sixty (60) days prior to the end of the then-current term.\n\n`,
           size: 24,
         }),
       ],
@@ -0,0 +1,119 @@
+/**
+ * Flowing text layout over pdf-lib for client documents (proposals and
+ * statements of work): a cursor that moves down the page, word-wrapped
+ * paragraphs and section headings, with new pages added as needed.
+ */
+
+import { PDFDocument, StandardFonts, rgb, type PDFFont } from "pdf-lib";
+
+const BRAND = rgb(0.16, 0.45, 0.29);
+
+// Standard PDF fonts only cover WinAnsi; swap anything else out
+const pdfText = (s: string) =>
+  s
+    .replace(/→/g, "->")
+    .replace(
+      /[^\x20-\x7E\u00A0-\u00FF\u2013\u2014\u2018\u2019\u201C\u201D\u2022\u2026]/g,
+      "?",
+    );
+
+export interface PdfTextOptions {
+  size?: number;
+  f?: PDFFont;
+  right?: boolean;
+  grey?: boolean;
+  brand?: boolean;
+}
+
+export interface PdfLayout {
+  font: PDFFont;
+  bold: PDFFont;
+  margin: number;
+  width: number;
+  contentWidth: number;
+  text: (value: string, x: number, opts?: PdfTextOptions) => void;
+  nextLine: (step?: number) => void;
+  paragraph: (
+    value: string,
+    opts?: { indent?: number; grey?: boolean; f?: PDFFont },
+  ) => void;
+  heading: (title: string) => void;
+  save: () => Promise<Uint8Array>;
+}
+
+export async function createPdfLayout(): Promise<PdfLayout> {
+  const doc = await PDFDocument.create();
+  const font = await doc.embedFont(StandardFonts.Helvetica);
+  const bold = await doc.embedFont(StandardFonts.HelveticaBold);
+  const margin = 48;
+  const [width, height] = [612, 792];
+  const contentWidth = width - margin * 2;
+  let page = doc.addPage([width, height]);
+  let y = height - margin;
+
+  const text = (value: string, x: number, opts: PdfTextOptions = {}) => {
+    const size = opts.size ?? 10;
+    const f = opts.f ?? font;
+    const safe = pdfText(value);
+    const drawX = opts.right ? x - f.widthOfTextAtSize(safe, size) : x;
+    let color = rgb(0, 0, 0);
+    if (opts.brand) color = BRAND;
+    else if (opts.grey) color = rgb(0.4, 0.4, 0.4);
+    page.drawText(safe, { x: drawX, y, size, font: f, color });
+  };
+  const nextLine = (step = 14) => {
+    y -= step;
+    if (y < margin) {
+      page = doc.addPage([width, height]);
+      y = height - margin;
+    }
+  };
+  const wrap = (value: string, f: PDFFont, size: number, maxWidth: number) => {
+    const lines: string[] = [];
+    let line = "";
+    for (const word of pdfText(value).split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && f.widthOfTextAtSize(candidate, size) > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+    if (line) lines.push(line);
+    return lines;
+  };
+  const paragraph: PdfLayout["paragraph"] = (value, opts = {}) => {
+    const indent = opts.indent ?? 0;
+    const f = opts.f ?? font;
+    for (const line of wrap(value, f, 10, contentWidth - indent)) {
+      text(line, margin + indent, { grey: opts.grey, f });
+      nextLine();
+    }
+  };
+  const heading = (title: string) => {
+    nextLine(10);
+    text(title, margin, { size: 13, f: bold, brand: true });
+    nextLine(6);
+    page.drawLine({
+      start: { x: margin, y },
+      end: { x: width - margin, y },
+      thickness: 0.5,
+      color: BRAND,
+    });
+    nextLine(16);
+  };
+
+  return {
+    font,
+    bold,
+    margin,
+    width,
+    contentWidth,
+    text,
+    nextLine,
+    paragraph,
+    heading,
+    save: async () => await doc.save(),
+  };
+}
@@ -3,6 +3,12 @@
 
 import { storage } from "./storage";
 import { getRedisAsync } from "./redis";
+import type { PricingConfigVersion } from "@shared/schema";
+import type { PricingConfig as CalculatorPricingConfig } from "@shared/pricing";
+import {
+  PricingConfigSchema,
+  toCalculatorPricingConfig,
+} from "@shared/pricing-config";
 
 // Cache keys
 const CACHE_KEYS = {
@@ -12,6 +18,7 @@ const CACHE_KEYS = {
   TRANSACTION_SURCHARGES: "pricing:transaction_surcharges",
   SERVICE_SETTINGS: "pricing:service_settings",
   PRICING_TIERS: "pricing:tiers",
+  PUBLISHED_VERSIONS: "pricing:published_versions",
 };
 
 // Cache TTL (1 hour)
@@ -30,11 +37,44 @@ export interface PricingConfig {
   >;
 }
 
+// A published config version with its snapshot parsed
+export interface PublishedPricingVersion {
+  id: number;
+  version: number;
+  label: string;
+  effectiveFrom: string; // ISO timestamp
+  config: PricingConfig;
+}
+
+// Calculator config resolved for a quote, with the version it came from
+export interface ResolvedQuotePricingConfig {
+  versionId: number | null;
+  config: CalculatorPricingConfig;
+}
+
+export function parseVersionConfig(row: PricingConfigVersion): PricingConfig {
+  return PricingConfigSchema.parse(JSON.parse(row.configJson));
+}
+
 class PricingConfigService {
   private cache: Map<string, any> = new Map();
 
-  // Load all pricing configurations
+  // Live pricing: the published version in effect now, else the pricing tables
   async loadPricingConfig(): Promise<PricingConfig> {
+    try {
+      const live = await this.getLiveVersion();
+      if (live) return live.config;
+    } catch (error) {
+      console.error(
+        "[PricingConfig] Failed to resolve live config version:",
+        error,
+      );
+    }
+    return this.loadTablePricingConfig();
+  }
+
+  // Load the editable pricing tables (the working copy new drafts snapshot)
+  async loadTablePricingConfig(): Promise<PricingConfig> {
     try {
       const [
         baseFees,
@@ -295,6 +335,92 @@ class PricingConfigService {
     return result;
   }
 
+  // Published versions, newest effective date first
+  async getPublishedVersions(): Promise<PublishedPricingVersion[]> {
+    const cacheKey = CACHE_KEYS.PUBLISHED_VERSIONS;
+
+    let cached = this.cache.get(cacheKey);
+    if (cached) return cached;
+
+    const redisConnections = await getRedisAsync();
+    const cacheRedis = redisConnections?.cacheRedis;
+    if (cacheRedis) {
+      const redisData = await cacheRedis.get(cacheKey);
+      if (redisData) {
+        cached = JSON.parse(redisData);
+        this.cache.set(cacheKey, cached);
+        return cached;
+      }
+    }
+
+    const rows = await storage.getPublishedPricingConfigVersions();
+    const result: PublishedPricingVersion[] = rows
+      .filter((row) => row.effectiveFrom)
+      .map((row) => ({
+        id: row.id,
+        version: row.version,
+        label: row.label,
+        effectiveFrom: row.effectiveFrom!.toISOString(),
+        config: parseVersionConfig(row),
+      }))
+      .sort((a, b) => b.effectiveFrom.localeCompare(a.effectiveFrom));
+
+    this.cache.set(cacheKey, result);
+    if (cacheRedis) {
+      await cacheRedis.setex(cacheKey, CACHE_TTL, JSON.stringify(result));
+    }
+
+    return result;
+  }
+
+  // The version in effect at the given time. Scheduled versions are resolved
+  // at call time, so they go live without a cache flush.
+  async getLiveVersion(
+    at: Date = new Date(),
+  ): Promise<PublishedPricingVersion | undefined> {
+    const versions = await this.getPublishedVersions();
+    return versions.find((v) => new Date(v.effectiveFrom) <= at);
+  }
+
+  async getPublishedVersion(
+    id: number,
+  ): Promise<PublishedPricingVersion | undefined> {
+    const versions = await this.getPublishedVersions();
+    return versions.find((v) => v.id === id);
+  }
+
+  // Calculator config for a quote: its pinned version when set, otherwise
+  // the live version (or the pricing tables when nothing is published yet)
+  async resolveQuotePricingConfig(
+    pinnedVersionId?: number | null,
+  ): Promise<ResolvedQuotePricingConfig> {
+    if (pinnedVersionId) {
+      const pinned = await this.getPublishedVersion(pinnedVersionId);
+      if (!pinned) {
+        throw new Error(
+          `Pricing config version ${pinnedVersionId} is not published`,
+        );
+      }
+      return {
+        versionId: pinned.id,
+        config: toCalculatorPricingConfig(pinned.config, String(pinned.version)),
+      };
+    }
+
+    const live = await this.getLiveVersion();
+    if (live) {
+      return {
+        versionId: live.id,
+        config: toCalculatorPricingConfig(live.config, String(live.version)),
+      };
+    }
+
+    return {
+      versionId: null,
+      config: toCalculatorPricingConfig(await this.loadTablePricingConfig()),
+    };
+  }
+
   // Clear all caches (call when pricing is updated)
   async clearCache(): Promise<void> {
     this.cache.clear();
@@ -389,6 +515,23 @@ class PricingConfigService {
           additional_state_fee: 150,
           complex_case_fee: 300,
         },
+        discounts: {
+          approval_threshold_pct: 15,
+        },
+        contract_terms: {
+          "12_month_pct": 5,
+          "24_month_pct": 10,
+          annual_prepay_pct: 10,
+        },
+        prospect_scoring: {
+          revenue_weight: 30,
+          industry_weight: 20,
+          employees_weight: 15,
+          engagement_weight: 20,
+          services_weight: 15,
+          tier_a_min: 70,
+          tier_b_min: 45,
+        },
       },
       pricingTiers: {
         ap: {
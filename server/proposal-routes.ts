@@ -0,0 +1,344 @@
+/**
+ * Client proposal routes: the proposal PDF and per-service statements of work
+ * (.docx or PDF) for a quote, and proposal links — expiring, unguessable URLs the client opens without signing in. Opening a
+ * link records a view; accepting it marks the quote accepted.
+ *
+ * The token is the only credential on the public routes; an unknown, expired
+ * or revoked link never reveals which quote it was for.
+ */
+
+import type { Express, Request, Response } from "express";
+import { randomBytes } from "crypto";
+import { requireAuth } from "./auth";
+import { logger } from "./logger";
+import { storage, type QuoteProposalRecord } from "./storage";
+import { StorageConflictError } from "./db-utils";
+import { loadProposalDocument, renderProposalPdf } from "./proposals";
+import {
+  loadQuoteSows,
+  renderSowDocx,
+  renderSowPdf,
+  sowFileName,
+} from "./sow-documents";
+import type { Quote, QuoteProposal } from "@shared/schema";
+import {
+  AcceptProposalSchema,
+  CreateProposalLinkSchema,
+  proposalLinkStatus,
+  proposalPath,
+  type ProposalLinkListItem,
+  type PublicProposal,
+} from "@shared/proposals";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DOCX_CONTENT_TYPE =
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+
+async function loadQuote(param: string): Promise<Quote | undefined> {
+  const quoteId = Number(param);
+  return Number.isInteger(quoteId)
+    ? await storage.getQuote(quoteId)
+    : undefined;
+}
+
+function toListItem(proposal: QuoteProposalRecord): ProposalLinkListItem {
+  return {
+    id: proposal.id,
+    quoteId: proposal.quoteId,
+    path: proposalPath(proposal.token),
+    status: proposalLinkStatus(proposal),
+    expiresAt: proposal.expiresAt.toISOString(),
+    createdAt: proposal.createdAt.toISOString(),
+    viewCount: proposal.viewCount,
+    lastViewedAt: proposal.lastViewedAt
+      ? proposal.lastViewedAt.toISOString()
+      : null,
+    acceptedAt: proposal.acceptedAt ? proposal.acceptedAt.toISOString() : null,
+    acceptedName: proposal.acceptedName,
+    acceptedOptionName: proposal.acceptedOptionName,
+  };
+}
+
+const pdfFileName = (quote: Quote) =>
+  `Proposal-${(quote.companyName || `Quote-${quote.id}`).replace(/[^A-Za-z0-9]+/g, "-")}.pdf`;
+
+function sendPdf(res: Response, quote: Quote, pdf: Uint8Array) {
+  res.setHeader("Content-Type", "application/pdf");
+  res.setHeader(
+    "Content-Disposition",
+    `attachment; filename="${pdfFileName(quote)}"`,
+  );
+  res.send(Buffer.from(pdf));
+}
+
+// The link and its quote when the link can still be opened; otherwise the
+// response has been sent. Accepted links stay readable after they expire.
+async function openProposal(
+  req: Request,
+  res: Response,
+): Promise<{ proposal: QuoteProposal; quote: Quote } | undefined> {
+  const proposal = await storage.getQuoteProposalByToken(
+    req.params.token ?? "",
+  );
+  const quote = proposal ? await storage.getQuote(proposal.quoteId) : undefined;
+  if (!proposal || !quote || quote.archived) {
+    res.status(404).json({ message: "Proposal not found" });
+    return undefined;
+  }
+  const status = proposalLinkStatus(proposal);
+  if (status === "expired" || status === "revoked") {
+    res.status(410).json({
+      message:
+        status === "expired"
+          ? "This proposal link has expired"
+          : "This proposal link is no longer available",
+      status,
+    });
+    return undefined;
+  }
+  return { proposal, quote };
+}
+
+export function registerProposalRoutes(app: Express) {
+  app.get(
+    "/api/quotes/:quoteId/proposal.pdf",
+    requireAuth,
+    async (req, res) => {
+      try {
+        const quote = await loadQuote(req.params.quoteId);
+        if (!quote) {
+          return res.status(404).json({ message: "Quote not found" });
+        }
+        const document = await loadProposalDocument(quote);
+        sendPdf(res, quote, await renderProposalPdf(document));
+      } catch (error: any) {
+        logger.error("[Proposals] Failed to render proposal PDF", {
+          error: error.message,
+        });
+        res.status(500).json({ message: "Failed to generate proposal" });
+      }
+    },
+  );
+
+  // ?format=docx (default) or pdf
+  app.get(
+    "/api/quotes/:quoteId/sow/:service",
+    requireAuth,
+    async (req, res) => {
+      const format = req.query.format === "pdf" ? "pdf" : "docx";
+      try {
+        const quote = await loadQuote(req.params.quoteId);
+        if (!quote) {
+          return res.status(404).json({ message: "Quote not found" });
+        }
+        const sow = (await loadQuoteSows(quote)).find(
+          (s) => s.service === req.params.service,
+        );
+        if (!sow) {
+          return res
+            .status(404)
+            .json({ message: "Service is not on this quote" });
+        }
+        const companyName = quote.companyName || quote.contactEmail;
+        const file =
+          format === "pdf"
+            ? Buffer.from(await renderSowPdf(sow, companyName))
+            : await renderSowDocx(sow, companyName);
+        res.setHeader(
+          "Content-Type",
+          format === "pdf" ? "application/pdf" : DOCX_CONTENT_TYPE,
+        );
+        res.setHeader(
+          "Content-Disposition",
+          `attachment; filename="${sowFileName(quote, sow, format)}"`,
+        );
+        res.send(file);
+      } catch (error: any) {
+        logger.error("[Proposals] Failed to render statement of work", {
+          error: error.message,
+        });
+        res
+          .status(500)
+          .json({ message: "Failed to generate statement of work" });
+      }
+    },
+  );
+
+  app.get("/api/quotes/:quoteId/proposals", requireAuth, async (req, res) => {
+    try {
+      const quote = await loadQuote(req.params.quoteId);
+      if (!quote) {
+        return res.status(404).json({ message: "Quote not found" });
+      }
+      const proposals = await storage.getQuoteProposals(quote.id);
+      res.json(proposals.map(toListItem));
+    } catch (error: any) {
+      logger.error("[Proposals] Failed to list proposal links", {
+        error: error.message,
+      });
+      res.status(500).json({ message: "Failed to fetch proposal links" });
+    }
+  });
+
+  app.post("/api/quotes/:quoteId/proposals", requireAuth, async (req, res) => {
+    const parsed = CreateProposalLinkSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: "Invalid proposal link",
+        errors: parsed.error.errors,
+      });
+    }
+    try {
+      const quote = await loadQuote(req.params.quoteId);
+      if (!quote) {
+        return res.status(404).json({ message: "Quote not found" });
+      }
+      await storage.createQuoteProposal({
+        quoteId: quote.id,
+        token: randomBytes(24).toString("base64url"),
+        expiresAt: new Date(Date.now() + parsed.data.expiresInDays * DAY_MS),
+        createdBy: req.user!.id,
+      });
+      const proposals = await storage.getQuoteProposals(quote.id);
+      res.status(201).json(proposals.map(toListItem));
+    } catch (error: any) {
+      logger.error("[Proposals] Failed to create proposal link", {
+        error: error.message,
+      });
+      res.status(500).json({ message: "Failed to create proposal link" });
+    }
+  });
+
+  app.post(
+    "/api/quotes/:quoteId/proposals/:proposalId/revoke",
+    requireAuth,
+    async (req, res) => {
+      try {
+        const quote = await loadQuote(req.params.quoteId);
+        const proposal = quote
+          ? await storage.getQuoteProposal(Number(req.params.proposalId))
+          : undefined;
+        if (!quote || proposal?.quoteId !== quote.id) {
+          return res.status(404).json({ message: "Proposal link not found" });
+        }
+        if (proposal.acceptedAt) {
+          return res
+            .status(400)
+            .json({ message: "An accepted proposal can't be revoked" });
+        }
+        await storage.revokeQuoteProposal(proposal.id);
+        const proposals = await storage.getQuoteProposals(quote.id);
+        res.json(proposals.map(toListItem));
+      } catch (error: any) {
+        logger.error("[Proposals] Failed to revoke proposal link", {
+          error: error.message,
+        });
+        res.status(500).json({ message: "Failed to revoke proposal link" });
+      }
+    },
+  );
+
+  // Public: no session, the token is the credential
+  app.get("/api/public/proposals/:token", async (req, res) => {
+    try {
+      const opened = await openProposal(req, res);
+      if (!opened) return;
+      const { proposal, quote } = opened;
+      await storage.recordQuoteProposalView(proposal.id, {
+        ipAddress: req.ip ?? null,
+        userAgent: req.get("user-agent")?.slice(0, 500) ?? null,
+      });
+      const body: PublicProposal = {
+        document: await loadProposalDocument(quote, proposal.expiresAt),
+        status: proposalLinkStatus(proposal),
+        expiresAt: proposal.expiresAt.toISOString(),
+        acceptedAt: proposal.acceptedAt
+          ? proposal.acceptedAt.toISOString()
+          : null,
+        acceptedName: proposal.acceptedName,
+        acceptedOptionId: proposal.acceptedOptionId,
+      };
+      res.json(body);
+    } catch (error: any) {
+      logger.error("[Proposals] Failed to open proposal link", {
+        error: error.message,
+      });
+      res.status(500).json({ message: "Failed to load proposal" });
+    }
+  });
+
+  app.get("/api/public/proposals/:token/pdf", async (req, res) => {
+    try {
+      const opened = await openProposal(req, res);
+      if (!opened) return;
+      const { proposal, quote } = opened;
+      const document = await loadProposalDocument(quote, proposal.expiresAt);
+      sendPdf(res, quote, await renderProposalPdf(document));
+    } catch (error: any) {
+      logger.error("[Proposals] Failed to render public proposal PDF", {
+        error: error.message,
+      });
+      res.status(500).json({ message: "Failed to generate proposal" });
+    }
+  });
+
+  app.post("/api/public/proposals/:token/accept", async (req, res) => {
+    const parsed = AcceptProposalSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: "Please enter your full name to accept",
+        errors: parsed.error.errors,
+      });
+    }
+    try {
+      const opened = await openProposal(req, res);
+      if (!opened) return;
+      const { proposal, quote } = opened;
+      if (proposal.acceptedAt) {
+        return res
+          .status(409)
+          .json({ message: "This proposal has already been accepted" });
+      }
+
+      // With pricing options the client accepts one of them
+      const options = await storage.getQuotePricingOptions(quote.id);
+      const { optionId } = parsed.data;
+      if (options.length > 0 && !options.some((o) => o.id === optionId)) {
+        return res
+          .status(400)
+          .json({ message: "Choose one of the options to accept" });
+      }
+
+      const accepted = await storage.acceptQuoteProposal(proposal.id, {
+        name: parsed.data.name,
+        optionId: options.length > 0 ? (optionId ?? null) : null,
+        ipAddress: req.ip ?? null,
+      });
+      logger.info("[Proposals] Proposal accepted", {
+        quoteId: quote.id,
+        proposalId: accepted.id,
+        optionId: accepted.acceptedOptionId,
+      });
+      res.json({
+        status: proposalLinkStatus(accepted),
+        acceptedAt: accepted.acceptedAt
+          ? accepted.acceptedAt.toISOString()
+          : null,
+        acceptedName: accepted.acceptedName,
+        acceptedOptionId: accepted.acceptedOptionId,
+      });
+    } catch (error: any) {
+      // Another accept won the race since the link was opened
+      if (error instanceof StorageConflictError) {
+        return res
+          .status(409)
+          .json({ message: "This proposal has already been accepted" });
+      }
+      logger.error("[Proposals] Failed to accept proposal", {
+        error: error.message,
+      });
+      res.status(500).json({ message: "Failed to accept proposal" });
+    }
+  });
+}
@@ -0,0 +1,150 @@
+/**
+ * Client proposals
+ * Assembles the proposal document for a quote (services, server pricing,
+ * pricing options, statements of work, terms) and renders it as a branded
+ * PDF. The same document backs the public proposal page.
+ */
+
+import { storage } from "./storage";
+import { priceQuoteOptions, savedQuotePricing } from "./quote-options";
+import { createPdfLayout } from "./pdf-layout";
+import { drawSowSection, loadSowContent } from "./sow-documents";
+import { DEFAULT_MSA_LINK } from "./calculator-defaults";
+import type { Quote } from "@shared/schema";
+import {
+  buildProposalDocument,
+  type ProposalDocument,
+} from "@shared/proposals";
+
+export async function loadProposalDocument(
+  quote: Quote,
+  validUntil: Date | null = null,
+): Promise<ProposalDocument> {
+  const [pricing, options, content, owner] = await Promise.all([
+    savedQuotePricing(quote),
+    priceQuoteOptions(quote),
+    loadSowContent(),
+    storage.getUser(quote.ownerId),
+  ]);
+  return buildProposalDocument({
+    quote,
+    pricing,
+    options: options.options,
+    sowContent: content,
+    preparedBy: owner
+      ? [owner.firstName, owner.lastName].filter(Boolean).join(" ") ||
+        owner.email
+      : null,
+    msaLink: DEFAULT_MSA_LINK,
+    validUntil,
+  });
+}
+
+const money = (n: number) =>
+  `$${n.toLocaleString("en-US", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+
+export async function renderProposalPdf(
+  proposal: ProposalDocument,
+): Promise<Uint8Array> {
+  const layout = await createPdfLayout();
+  const { font, bold, margin, width, contentWidth } = layout;
+  const { text, nextLine, paragraph, heading } = layout;
+  const date = (iso: string) => iso.slice(0, 10);
+
+  text("Seed Financial", margin, { size: 11, f: bold, brand: true });
+  nextLine(28);
+  text(`Proposal for ${proposal.companyName}`, margin, { size: 20, f: bold });
+  nextLine(20);
+  text(
+    `Prepared for ${proposal.contactName} (${proposal.contactEmail})`,
+    margin,
+    { grey: true },
+  );
+  nextLine();
+  text(
+    [
+      proposal.preparedBy ? `Prepared by ${proposal.preparedBy}` : null,
+      date(proposal.preparedAt),
+      proposal.validUntil ? `Valid until ${date(proposal.validUntil)}` : null,
+    ]
+      .filter(Boolean)
+      .join(" · "),
+    margin,
+    { grey: true },
+  );
+  nextLine(10);
+
+  heading("Services");
+  for (const service of proposal.services) {
+    text(service.name, margin, { f: bold });
+    nextLine();
+    paragraph(service.description, { indent: 10, grey: true });
+    nextLine(4);
+  }
+
+  heading("Pricing");
+  for (const line of proposal.pricing.lines) {
+    text(line.label, margin);
+    text(line.cadence === "setup" ? "One-time" : "Monthly", 380, {
+      grey: true,
+    });
+    text(money(line.amount), width - margin, { right: true });
+    nextLine();
+  }
+  nextLine(4);
+  text("Monthly total", 380, { f: bold });
+  text(money(proposal.pricing.monthlyFee), width - margin, {
+    f: bold,
+    right: true,
+  });
+  nextLine();
+  text("Setup total", 380, { f: bold });
+  text(money(proposal.pricing.setupFee), width - margin, {
+    f: bold,
+    right: true,
+  });
+  nextLine(18);
+  paragraph(proposal.pricing.contractTerm, { grey: true });
+
+  if (proposal.options) {
+    const { options, rows } = proposal.options;
+    heading("Options");
+    const labelWidth = 180;
+    const colWidth = (contentWidth - labelWidth) / options.length;
+    const colRight = (i: number) => margin + labelWidth + colWidth * (i + 1);
+    options.forEach((option, i) => {
+      text(option.name, colRight(i), { f: bold, right: true });
+    });
+    nextLine();
+    for (const row of rows) {
+      const f = row.service === "total" ? bold : font;
+      text(row.label, margin, { f });
+      row.amounts.forEach((amount, i) => {
+        text(amount ? money(amount) : "-", colRight(i), { f, right: true });
+      });
+      nextLine();
+    }
+    nextLine(4);
+    for (const option of options) {
+      if (option.changes.length === 0) continue;
+      paragraph(`${option.name}: ${option.changes.join(", ")}`, {
+        grey: true,
+      });
+    }
+  }
+
+  if (proposal.sow.length > 0) {
+    heading("Statement of Work");
+    for (const section of proposal.sow) drawSowSection(layout, section);
+  }
+
+  heading("Terms");
+  for (const term of proposal.terms) {
+    paragraph(`• ${term}`);
+  }
+
+  return await layout.save();
+}
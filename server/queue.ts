@@ -1,6 +1,7 @@
 // BullMQ Queue and Worker setup
 import { Queue, Worker, QueueEvents } from "bullmq";
 import Redis from "ioredis";
+import type { ClientInsights } from "@shared/client-intel";
 import { sendJobFailureAlert } from "./slack";
 
 // Redis connection for queues
@@ -86,12 +87,12 @@ export interface AIInsightsJobData {
   timestamp: number;
 }
 
-export interface JobResult {
-  painPoints: any[];
-  upsellOpportunities: string[];
-  riskScore: number;
-  lastAnalyzed: string;
-  signals: any[];
+export type JobResult = ClientInsights;
+
+// "summarize-document" jobs share the ai-insights queue and worker
+export interface ClientDocumentSummaryJobData {
+  documentId: number;
+  timestamp: number;
 }
 
 // Queue metrics
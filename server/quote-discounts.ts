@@ -0,0 +1,133 @@
+/**
+ * Quote discount resolution
+ * Manual discounts come from the request; promo discounts are always rebuilt
+ * from the promo_codes table so a client cannot widen a promo's terms.
+ */
+
+import { storage } from "./storage";
+import type { Quote, PromoCode } from "@shared/schema";
+import {
+  normalizePromoCode,
+  parseLineItemDiscounts,
+  promoCodeDiscounts,
+  promoCodeUnavailableReason,
+  type DiscountTotals,
+  type LineItemDiscount,
+} from "@shared/pricing-discounts";
+import { parseRequestedOverride } from "@shared/approvals";
+import { checkApproval, parseApprovalRequestId } from "./approval-requests";
+
+export interface ResolvedQuoteDiscounts {
+  discounts: LineItemDiscount[];
+  promo: PromoCode | null;
+  // Promo is new to this quote and counts as a use once the quote is saved
+  redeemPromo: boolean;
+}
+
+export async function resolveQuoteDiscounts(
+  body: {
+    lineItemDiscounts?: unknown;
+    lineItemDiscountsJson?: unknown;
+    promoCode?: unknown;
+  },
+  currentPromoCode?: string | null,
+): Promise<{ resolved: ResolvedQuoteDiscounts } | { error: string }> {
+  const manual = parseLineItemDiscounts(
+    body.lineItemDiscounts ?? body.lineItemDiscountsJson,
+  ).filter((d) => d.source === "manual");
+
+  const code =
+    typeof body.promoCode === "string"
+      ? normalizePromoCode(body.promoCode)
+      : "";
+  if (!code) {
+    return { resolved: { discounts: manual, promo: null, redeemPromo: false } };
+  }
+
+  const promo = await storage.getPromoCodeByCode(code);
+  if (!promo) return { error: `Promo code ${code} not found` };
+
+  // A code already redeemed on this quote keeps applying after it expires
+  const alreadyRedeemed =
+    !!currentPromoCode && normalizePromoCode(currentPromoCode) === code;
+  if (!alreadyRedeemed) {
+    const unavailable = promoCodeUnavailableReason(promo);
+    if (unavailable) return { error: unavailable };
+  }
+
+  return {
+    resolved: {
+      discounts: [...manual, ...promoCodeDiscounts(promo)],
+      promo,
+      redeemPromo: !alreadyRedeemed,
+    },
+  };
+}
+
+// Quote columns written alongside the server-calculated totals
+export function quoteDiscountFields(
+  resolved: ResolvedQuoteDiscounts,
+  totals: DiscountTotals,
+  discountReason?: unknown,
+): Pick<
+  Quote,
+  | "lineItemDiscountsJson"
+  | "promoCode"
+  | "discountReason"
+  | "discountMonthlyAmount"
+  | "discountSetupAmount"
+> {
+  return {
+    lineItemDiscountsJson: resolved.discounts.length
+      ? JSON.stringify(resolved.discounts)
+      : null,
+    promoCode: resolved.promo?.code ?? null,
+    discountReason:
+      typeof discountReason === "string" && discountReason.trim()
+        ? discountReason.trim()
+        : null,
+    discountMonthlyAmount: totals.monthly.toFixed(2),
+    discountSetupAmount: totals.setup.toFixed(2),
+  };
+}
+
+// Manual discounts over the configured threshold need an approved discount
+// request for the quote's contact. Edits of a quote whose discount was already
+// approved up to this percent do not need a new approval. The returned request
+// is only checked; the save uses it.
+export async function checkDiscountApproval(
+  totals: DiscountTotals,
+  discountApprovalRequestId: unknown,
+  use: { contactEmail: string; quoteId?: number; actorId: number },
+): Promise<{ message: string } | { approvalRequestId: number | null }> {
+  if (!totals.requiresApproval) return { approvalRequestId: null };
+
+  if (use.quoteId) {
+    const previous = await storage.getApprovalRequests({
+      status: "used",
+      quoteId: use.quoteId,
+    });
+    const covered = previous.some(
+      (r) =>
+        r.type === "discount" &&
+        (parseRequestedOverride(r.requestedOverrideJson).maxDiscountPct ?? 0) >=
+          totals.maxManualDiscountPct,
+    );
+    if (covered) return { approvalRequestId: null };
+  }
+
+  if (!parseApprovalRequestId(discountApprovalRequestId)) {
+    return {
+      message: `Discounts of ${totals.maxManualDiscountPct}% require approval`,
+    };
+  }
+  const approval = await checkApproval(discountApprovalRequestId, {
+    type: "discount",
+    contactEmail: use.contactEmail,
+    quoteId: use.quoteId,
+    discountPct: totals.maxManualDiscountPct,
+    actorId: use.actorId,
+  });
+  if ("message" in approval) return approval;
+  return { approvalRequestId: approval.request.id };
+}
@@ -0,0 +1,265 @@
+/**
+ * Quote pricing option routes: named alternatives ("good / better / best")
+ * for a quote, each priced by the server from the quote plus the inputs the
+ * option changes, and the selection of the option the client chose.
+ *
+ * Selecting an option writes its inputs and pricing into the quote (which
+ * records a quote revision) and then pushes the quote to HubSpot through the
+ * regular quote sync, so the deal and HubSpot quote carry the chosen option.
+ */
+
+import type { Express } from "express";
+import { requireAuth } from "./auth";
+import { logger } from "./logger";
+import { storage } from "./storage";
+import { StorageConflictError } from "./db-utils";
+import { priceQuoteOptions, quotePricingConfig } from "./quote-options";
+import { hubSpotService } from "./hubspot";
+import { checkDiscountApproval } from "./quote-discounts";
+import { buildServiceConfig } from "./services/hubspot/compose";
+import { syncQuoteToHubSpot } from "./services/hubspot/sync";
+import { quoteFeeColumns } from "@shared/pricing-verification";
+import { contractTermQuoteFields } from "@shared/pricing-terms";
+import {
+  MAX_QUOTE_OPTIONS,
+  parseQuoteOptionOverrides,
+  quoteOptionColumns,
+  quoteOptionInput,
+  QuotePricingOptionInputSchema,
+  type QuoteOptionSelection,
+} from "@shared/quote-options";
+import type { Quote, QuotePricingOption } from "@shared/schema";
+
+async function loadQuote(param: string): Promise<Quote | undefined> {
+  const quoteId = Number(param);
+  return Number.isInteger(quoteId)
+    ? await storage.getQuote(quoteId)
+    : undefined;
+}
+
+// The option, only when it belongs to the quote in the URL
+async function loadOption(
+  quote: Quote,
+  param: string,
+): Promise<QuotePricingOption | undefined> {
+  const optionId = Number(param);
+  if (!Number.isInteger(optionId)) return undefined;
+  const option = await storage.getQuotePricingOption(optionId);
+  return option?.quoteId === quote.id ? option : undefined;
+}
+
+export function registerQuoteOptionRoutes(app: Express) {
+  app.get("/api/quotes/:quoteId/options", requireAuth, async (req, res) => {
+    try {
+      const quote = await loadQuote(req.params.quoteId);
+      if (!quote) {
+        return res.status(404).json({ message: "Quote not found" });
+      }
+      res.json(await priceQuoteOptions(quote));
+    } catch (error: any) {
+      logger.error("[QuoteOptions] Failed to list options", {
+        error: error.message,
+      });
+      res.status(500).json({ message: "Failed to fetch pricing options" });
+    }
+  });
+
+  app.post("/api/quotes/:quoteId/options", requireAuth, async (req, res) => {
+    const parsed = QuotePricingOptionInputSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: "Invalid pricing option",
+        errors: parsed.error.errors,
+      });
+    }
+    try {
+      const quote = await loadQuote(req.params.quoteId);
+      if (!quote) {
+        return res.status(404).json({ message: "Quote not found" });
+      }
+      const existing = await storage.getQuotePricingOptions(quote.id);
+      if (existing.length >= MAX_QUOTE_OPTIONS) {
+        return res.status(400).json({
+          message: `A quote can have at most ${MAX_QUOTE_OPTIONS} pricing options`,
+        });
+      }
+      await storage.createQuotePricingOption({
+        quoteId: quote.id,
+        name: parsed.data.name,
+        position: Math.max(-1, ...existing.map((o) => o.position)) + 1,
+        overridesJson: JSON.stringify(parsed.data.overrides),
+        createdBy: req.user!.id,
+      });
+      res.status(201).json(await priceQuoteOptions(quote));
+    } catch (error: any) {
+      logger.error("[QuoteOptions] Failed to create option", {
+        error: error.message,
+      });
+      res.status(500).json({ message: "Failed to create pricing option" });
+    }
+  });
+
+  app.put(
+    "/api/quotes/:quoteId/options/:optionId",
+    requireAuth,
+    async (req, res) => {
+      const parsed = QuotePricingOptionInputSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: "Invalid pricing option",
+          errors: parsed.error.errors,
+        });
+      }
+      try {
+        const quote = await loadQuote(req.params.quoteId);
+        const option = quote
+          ? await loadOption(quote, req.params.optionId)
+          : undefined;
+        if (!quote || !option) {
+          return res.status(404).json({ message: "Pricing option not found" });
+        }
+        await storage.updateQuotePricingOption(option.id, {
+          name: parsed.data.name,
+          overridesJson: JSON.stringify(parsed.data.overrides),
+        });
+        res.json(await priceQuoteOptions(quote));
+      } catch (error: any) {
+        logger.error("[QuoteOptions] Failed to update option", {
+          error: error.message,
+        });
+        res.status(500).json({ message: "Failed to update pricing option" });
+      }
+    },
+  );
+
+  app.delete(
+    "/api/quotes/:quoteId/options/:optionId",
+    requireAuth,
+    async (req, res) => {
+      try {
+        const quote = await loadQuote(req.params.quoteId);
+        const option = quote
+          ? await loadOption(quote, req.params.optionId)
+          : undefined;
+        if (!quote || !option) {
+          return res.status(404).json({ message: "Pricing option not found" });
+        }
+        await storage.deleteQuotePricingOption(option.id);
+        res.json(await priceQuoteOptions(quote));
+      } catch (error: any) {
+        logger.error("[QuoteOptions] Failed to delete option", {
+          error: error.message,
+        });
+        res.status(500).json({ message: "Failed to delete pricing option" });
+      }
+    },
+  );
+
+  // The client chose this option: make it the quote, then update HubSpot
+  app.post(
+    "/api/quotes/:quoteId/options/:optionId/select",
+    requireAuth,
+    async (req, res) => {
+      try {
+        const quote = await loadQuote(req.params.quoteId);
+        const option = quote
+          ? await loadOption(quote, req.params.optionId)
+          : undefined;
+        if (!quote || !option) {
+          return res.status(404).json({ message: "Pricing option not found" });
+        }
+        if (quote.status === "accepted") {
+          return res
+            .status(409)
+            .json({ message: "An accepted quote can't be edited" });
+        }
+
+        const overrides = parseQuoteOptionOverrides(option.overridesJson);
+        const resolved = await quotePricingConfig(quote);
+        const cfg = buildServiceConfig(
+          quoteOptionInput(quote, overrides),
+          resolved.config,
+        );
+        const discountApproval = await checkDiscountApproval(
+          cfg.discountTotals,
+          req.body?.discountApprovalRequestId,
+          {
+            contactEmail: quote.contactEmail,
+            quoteId: quote.id,
+            actorId: req.user!.id,
+          },
+        );
+        if ("message" in discountApproval) {
+          return res.status(400).json({
+            message: discountApproval.message,
+            requiresDiscountApproval: true,
+            maxDiscountPct: cfg.discountTotals.maxManualDiscountPct,
+          });
+        }
+
+        const updated = await storage.selectQuotePricingOption(
+          option.id,
+          {
+            id: quote.id,
+            ...quoteOptionColumns(overrides),
+            ...quoteFeeColumns(cfg.pricing),
+            pricingBreakdownJson: JSON.stringify(cfg.pricing),
+            discountMonthlyAmount: cfg.discountTotals.monthly.toFixed(2),
+            discountSetupAmount: cfg.discountTotals.setup.toFixed(2),
+            ...contractTermQuoteFields(cfg.contractTerm),
+            // Unpinned quotes are now priced with the live version; pin it
+            ...(quote.pricingConfigVersionId
+              ? {}
+              : { pricingConfigVersionId: resolved.versionId }),
+          } as any,
+          req.user!.id,
+          discountApproval.approvalRequestId
+            ? [discountApproval.approvalRequestId]
+            : [],
+        );
+
+        // The selection stands even if HubSpot is down; the rep can push again
+        let hubspot: QuoteOptionSelection["hubspot"] = null;
+        if (hubSpotService && req.body?.syncToHubSpot !== false) {
+          try {
+            const result = await syncQuoteToHubSpot(
+              updated.id,
+              "auto",
+              req.user!.email,
+            );
+            hubspot = {
+              success: result.success,
+              hubspotDealId: result.hubspotDealId ?? null,
+              hubspotQuoteId: result.hubspotQuoteId ?? null,
+            };
+          } catch (error: any) {
+            logger.warn("[QuoteOptions] HubSpot sync after selection failed", {
+              quoteId: updated.id,
+              error: error.message,
+            });
+            hubspot = { success: false, message: error.message };
+          }
+        }
+
+        const selection: QuoteOptionSelection = {
+          quote: (await storage.getQuote(updated.id)) ?? updated,
+          options: await priceQuoteOptions(updated),
+          hubspot,
+        };
+        res.json(selection);
+      } catch (error: any) {
+        // Another save used the discount approval after it was checked
+        if (error instanceof StorageConflictError) {
+          return res.status(400).json({
+            message: error.message,
+            requiresDiscountApproval: true,
+          });
+        }
+        logger.error("[QuoteOptions] Failed to select option", {
+          error: error.message,
+        });
+        res.status(500).json({ message: "Failed to select pricing option" });
+      }
+    },
+  );
+}
@@ -0,0 +1,77 @@
+/**
+ * Quote pricing options
+ * Prices a quote's options from the quote plus each option's overrides, with
+ * the pricing config version the quote is pinned to (the live one when
+ * unpinned), and resolves the quote's own saved pricing. Used by the option
+ * routes and client documents.
+ */
+
+import { storage } from "./storage";
+import {
+  pricingConfigService,
+  type ResolvedQuotePricingConfig,
+} from "./pricing-config";
+import { buildServiceConfig } from "./services/hubspot/compose";
+import type { CombinedFeeResult } from "@shared/pricing";
+import { parsePricingBreakdown } from "@shared/pricing-verification";
+import {
+  describeQuoteOption,
+  parseQuoteOptionOverrides,
+  quoteOptionInput,
+  quoteOptionServiceRows,
+  type QuotePricingOptionView,
+  type QuotePricingOptions,
+} from "@shared/quote-options";
+import type { Quote } from "@shared/schema";
+
+// Options re-price with the version the quote was pinned to, or the live
+// version for unpinned quotes, as a quote update does
+export async function quotePricingConfig(
+  quote: Quote,
+): Promise<ResolvedQuotePricingConfig> {
+  return pricingConfigService.resolveQuotePricingConfig(
+    quote.pricingConfigVersionId,
+  );
+}
+
+// The stored breakdown is what the quote was saved with; older quotes are
+// re-priced with their pinned (or the live) config
+export async function savedQuotePricing(
+  quote: Quote,
+): Promise<CombinedFeeResult> {
+  const stored = parsePricingBreakdown(quote.pricingBreakdownJson);
+  if (stored) return stored;
+  const { config } = await quotePricingConfig(quote);
+  return buildServiceConfig(quote, config).pricing;
+}
+
+export async function priceQuoteOptions(
+  quote: Quote,
+): Promise<QuotePricingOptions> {
+  const rows = await storage.getQuotePricingOptions(quote.id);
+  const { config } = await quotePricingConfig(quote);
+  const options: QuotePricingOptionView[] = rows.map((row) => {
+    const overrides = parseQuoteOptionOverrides(row.overridesJson);
+    const { pricing } = buildServiceConfig(
+      quoteOptionInput(quote, overrides),
+      config,
+    );
+    return {
+      id: row.id,
+      quoteId: row.quoteId,
+      name: row.name,
+      position: row.position,
+      overrides,
+      changes: describeQuoteOption(quote, overrides),
+      pricing,
+      monthlyFee: pricing.combined.monthlyFee,
+      setupFee: pricing.combined.setupFee,
+      selectedAt: row.selectedAt ? row.selectedAt.toISOString() : null,
+    };
+  });
+  return {
+    quoteId: quote.id,
+    options,
+    rows: quoteOptionServiceRows(options.map((option) => option.pricing)),
+  };
+}
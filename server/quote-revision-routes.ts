@@ -0,0 +1,189 @@
+/**
+ * Quote revision routes: a quote's revision history, and side-by-side
+ * comparison of two revisions of one quote or of two quotes for the same
+ * contact, with the changed inputs and per-service fee deltas.
+ *
+ * Revisions are written by storage on every quote save; these routes only
+ * read them.
+ */
+
+import type { Express } from "express";
+import { requireAuth } from "./auth";
+import { logger } from "./logger";
+import { storage, type QuoteRevisionRecord } from "./storage";
+import { pricingConfigService } from "./pricing-config";
+import { buildServiceConfig } from "./services/hubspot/compose";
+import { parsePricingBreakdown } from "@shared/pricing-verification";
+import {
+  diffQuoteSnapshots,
+  quoteServiceDeltas,
+  quoteSnapshot,
+  QuoteComparisonQuerySchema,
+  type QuoteComparison,
+  type QuoteComparisonSide,
+  type QuoteRevisionListItem,
+  type QuoteSnapshot,
+} from "@shared/quote-revisions";
+import type { CombinedFeeResult } from "@shared/pricing";
+
+interface LoadedSide {
+  side: QuoteComparisonSide;
+  snapshot: QuoteSnapshot;
+  pricing: CombinedFeeResult;
+  contactEmail: string;
+}
+
+class ComparisonError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+  ) {
+    super(message);
+  }
+}
+
+function parseSnapshot(revision: QuoteRevisionRecord): QuoteSnapshot {
+  try {
+    return JSON.parse(revision.snapshotJson) as QuoteSnapshot;
+  } catch {
+    return {};
+  }
+}
+
+// Revisions written before the server stored breakdowns are re-priced with
+// the version the quote was pinned to (the live one when unpinned), as a
+// quote update would be
+async function pricingFor(
+  snapshot: QuoteSnapshot,
+  breakdownJson: string | null,
+): Promise<CombinedFeeResult> {
+  const stored = parsePricingBreakdown(breakdownJson);
+  if (stored) return stored;
+  const { config } = await pricingConfigService.resolveQuotePricingConfig(
+    Number(snapshot.pricingConfigVersionId) || null,
+  );
+  return buildServiceConfig(snapshot, config).pricing;
+}
+
+// A quote at one revision; without a revision, its latest
+async function loadSide(
+  quoteId: number,
+  revisionNumber?: number,
+): Promise<LoadedSide> {
+  const quote = await storage.getQuote(quoteId);
+  if (!quote) throw new ComparisonError(`Quote #${quoteId} not found`, 404);
+
+  const revisions = await storage.getQuoteRevisions(quoteId);
+  const revision =
+    revisionNumber === undefined
+      ? revisions[0]
+      : revisions.find((r) => r.revision === revisionNumber);
+  if (revisionNumber !== undefined && !revision) {
+    throw new ComparisonError(
+      `Quote #${quoteId} has no revision ${revisionNumber}`,
+      404,
+    );
+  }
+
+  const snapshot = revision ? parseSnapshot(revision) : quoteSnapshot(quote);
+  const pricing = await pricingFor(
+    snapshot,
+    revision ? revision.pricingBreakdownJson : quote.pricingBreakdownJson,
+  );
+  return {
+    side: {
+      quoteId,
+      revision: revision?.revision ?? null,
+      editorName: revision?.editorName ?? null,
+      hubspotQuoteId: revision ? revision.hubspotQuoteId : quote.hubspotQuoteId,
+      savedAt: (revision?.createdAt ?? quote.updatedAt).toISOString(),
+      monthlyFee: pricing.combined.monthlyFee,
+      setupFee: pricing.combined.setupFee,
+    },
+    snapshot,
+    pricing,
+    contactEmail: quote.contactEmail,
+  };
+}
+
+export function registerQuoteRevisionRoutes(app: Express) {
+  app.get("/api/quotes/compare", requireAuth, async (req, res) => {
+    const parsed = QuoteComparisonQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: "Invalid comparison",
+        errors: parsed.error.errors,
+      });
+    }
+    try {
+      const query = parsed.data;
+      const left = await loadSide(query.leftQuoteId, query.leftRevision);
+      const right = await loadSide(query.rightQuoteId, query.rightRevision);
+      if (
+        left.contactEmail.trim().toLowerCase() !==
+        right.contactEmail.trim().toLowerCase()
+      ) {
+        return res.status(400).json({
+          message: "Only quotes for the same contact can be compared",
+        });
+      }
+
+      const comparison: QuoteComparison = {
+        left: left.side,
+        right: right.side,
+        fieldChanges: diffQuoteSnapshots(left.snapshot, right.snapshot),
+        serviceDeltas: quoteServiceDeltas(left.pricing, right.pricing),
+      };
+      res.json(comparison);
+    } catch (error: any) {
+      if (error instanceof ComparisonError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      logger.error("[QuoteRevisions] Comparison failed", {
+        error: error.message,
+      });
+      res.status(500).json({ message: "Failed to compare quotes" });
+    }
+  });
+
+  app.get("/api/quotes/:quoteId/revisions", requireAuth, async (req, res) => {
+    try {
+      const quoteId = Number(req.params.quoteId);
+      const quote = Number.isInteger(quoteId)
+        ? await storage.getQuote(quoteId)
+        : undefined;
+      if (!quote) {
+        return res.status(404).json({ message: "Quote not found" });
+      }
+
+      // Oldest first to diff each revision against the one before it
+      const revisions = (await storage.getQuoteRevisions(quoteId)).reverse();
+      const items: QuoteRevisionListItem[] = revisions.map((revision, i) => {
+        const previous = revisions[i - 1];
+        return {
+          id: revision.id,
+          quoteId: revision.quoteId,
+          revision: revision.revision,
+          editedBy: revision.editedBy,
+          editorName: revision.editorName,
+          hubspotQuoteId: revision.hubspotQuoteId,
+          monthlyFee: revision.monthlyFee,
+          setupFee: revision.setupFee,
+          changedFields: previous
+            ? diffQuoteSnapshots(
+                parseSnapshot(previous),
+                parseSnapshot(revision),
+              ).map((change) => change.label)
+            : [],
+          createdAt: revision.createdAt.toISOString(),
+        };
+      });
+      res.json(items.reverse());
+    } catch (error: any) {
+      logger.error("[QuoteRevisions] Failed to list revisions", {
+        error: error.message,
+      });
+      res.status(500).json({ message: "Failed to fetch quote revisions" });
+    }
+  });
+}
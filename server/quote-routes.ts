@@ -7,6 +7,8 @@ import { storage } from "./storage";
 import { logger } from "./logger";
 import { boxService } from "./box-integration";
 import { msaGenerator } from "./msa-generator";
+import { loadQuoteSows, renderSowDocx, sowFileName } from "./sow-documents";
+import { parseContractTerm } from "@shared/pricing-terms";
 import { requireAuth } from "./auth";
 import { sendOk, sendError } from "./utils/responses";
 import { doesHubSpotQuoteExist } from "./hubspot";
@@ -60,7 +62,7 @@ router.post("/quotes/:id/generate-documents", requireAuth, async (req, res) => {
       client: quote.companyName,
     });
 
-    // Extract selected services from quote
+    // Services named in the MSA
     const selectedServices = [];
     if (quote.serviceBookkeeping) selectedServices.push("bookkeeping");
     if (quote.serviceTaas) selectedServices.push("taas");
@@ -94,6 +96,9 @@ router.post("/quotes/:id/generate-documents", requireAuth, async (req, res) => {
       industry: quote.industry || "",
       monthlyFee: Number(quote.monthlyFee) || 0,
       setupFee: Number(quote.setupFee) || 0,
+      contractTerm: parseContractTerm(quote.contractTerm),
+      termDiscountAmount: Number(quote.termDiscountAmount) || 0,
+      prepayAmount: Number(quote.prepayAmount) || 0,
     };
 
     const msaBuffer = await msaGenerator.generateMSA(msaData);
@@ -106,10 +111,18 @@ router.post("/quotes/:id/generate-documents", requireAuth, async (req, res) => {
       msaFileName,
     );
 
-    // Upload SOW documents for selected services
+    // Render and upload a SOW for each service on the quote
+    const companyName = quote.companyName || quote.contactEmail;
+    const sowDocuments = await Promise.all(
+      (await loadQuoteSows(quote)).map(async (sow) => ({
+        service: sow.service,
+        fileName: sowFileName(quote, sow, "docx"),
+        buffer: await renderSowDocx(sow, companyName),
+      })),
+    );
     const sowResults = await boxService.uploadSOWDocuments(
       boxResult.folderId,
-      selectedServices,
+      sowDocuments,
     );
 
     // Update quote with Box information
@@ -127,21 +140,21 @@ router.post("/quotes/:id/generate-documents", requireAuth, async (req, res) => {
         boxFolder: boxResult,
         msaDocument: msaUploadResult,
         sowDocuments: sowResults,
-        documentsGenerated: selectedServices.length + 1,
+        documentsGenerated: sowResults.length + 1,
       },
       undefined,
       {
         boxFolder: boxResult,
         msaDocument: msaUploadResult,
         sowDocuments: sowResults,
-        documentsGenerated: selectedServices.length + 1,
+        documentsGenerated: sowResults.length + 1,
       },
     );
 
     logger.info("[Quote] Documents generated successfully", {
       quoteId,
       folderId: boxResult.folderId,
-      documentsCount: selectedServices.length + 1,
+      documentsCount: sowResults.length + 1,
     });
   } catch (error) {
     logger.error("[Quote] Error generating documents", {
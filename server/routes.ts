@@ -14,7 +14,6 @@ import {
   insertCommissionAdjustmentSchema,
 } from "@shared/schema";
 import { z } from "zod";
-import { sendSystemAlert } from "./slack";
 import { hubSpotService } from "./hubspot";
 import { doesHubSpotQuoteExist } from "./hubspot";
 import { setupAuth, requireAuth } from "./auth";
@@ -26,12 +25,52 @@ import { checkDatabaseHealth } from "./db";
 import { initRedis, getRedis } from "./redis";
 // HubSpotService class is no longer instantiated directly in routes; use singleton hubSpotService
 import { registerHubspotRoutes } from "./hubspot-routes";
+import { registerKbRoutes } from "./kb-routes";
+import { assistantPersona, registerAssistantRoutes } from "./assistant-routes";
+import { registerClientDocumentRoutes } from "./client-document-routes";
+import { registerQuoteRevisionRoutes } from "./quote-revision-routes";
+import { registerQuoteOptionRoutes } from "./quote-option-routes";
+import { registerProposalRoutes } from "./proposal-routes";
 import quoteRoutes from "./quote-routes";
-import { calculateCombinedFees, calculateQuotePricing } from "@shared/pricing";
+import { calculateQuotePricing, type PricingConfig } from "@shared/pricing";
+import {
+  checkDiscountApproval,
+  quoteDiscountFields,
+  resolveQuoteDiscounts,
+} from "./quote-discounts";
+import {
+  checkApproval,
+  createApprovalRequest,
+  parseApprovalRequestId,
+  toApprovalRequestViews,
+} from "./approval-requests";
+import { CreateApprovalRequestSchema } from "@shared/approvals";
 import { buildServiceConfig } from "./services/hubspot/compose";
+import { StorageConflictError } from "./db-utils";
 import { pricingConfigService } from "./pricing-config";
 import type { PricingData } from "@shared/pricing";
+import {
+  normalizePromoCode,
+  parseLineItemDiscounts,
+  promoCodeDiscounts,
+  promoCodeUnavailableReason,
+} from "@shared/pricing-discounts";
+import { contractTermQuoteFields } from "@shared/pricing-terms";
+import {
+  PRICING_MISMATCH_MESSAGE,
+  findPricingMismatches,
+  quoteFeeColumns,
+} from "@shared/pricing-verification";
 import { clientIntelEngine } from "./client-intel";
+import { getClientTimeline } from "./client-activity";
+import {
+  ClientTimelineQuerySchema,
+  parseClientActivitySources,
+} from "@shared/client-activity";
+import {
+  hasFailedAnalysis,
+  type ProspectScoreComparison,
+} from "@shared/client-intel";
 import {
   apiRateLimit,
   searchRateLimit,
@@ -52,6 +91,13 @@ import { syncQuoteToHubSpot } from "./services/hubspot/sync";
 import { Client } from "@hubspot/api-client";
 import { dealsService } from "./services/deals-service";
 import { calculateProjectedCommission } from "@shared/commission-calculator";
+import { hubspotLineItemClassifiable } from "@shared/commission-classification";
+import { commissionPeriodFor } from "@shared/commission-payouts";
+import { lockedPayoutRunFor } from "./commission-payouts";
+import {
+  getActiveCommissionPlan,
+  loadCommissionPlanResolver,
+} from "./commission-plans";
 import { DealsResultSchema } from "@shared/deals";
 import {
   CommissionSummarySchema,
@@ -59,13 +105,6 @@ import {
   CalculatorContentResponseSchema,
 } from "@shared/contracts";
 import { boxService } from "./box-integration";
-import { AIService } from "./services/ai-service";
-import { extractTextFromBoxAttachments } from "./doc-extract";
-
-// Helper function to generate 4-digit approval codes
-function generateApprovalCode(): string {
-  return Math.floor(1000 + Math.random() * 9000).toString();
-}
 
 // Centralized error message extractor for unknown errors
 function getErrorMessage(err: unknown): string {
@@ -109,6 +148,10 @@ function toPricingData(input: any): PricingData {
     qboSubscription: input?.qboSubscription ?? null,
     entityType: input?.entityType || undefined,
     bookkeepingQuality: input?.bookkeepingQuality || undefined,
+    lineItemDiscounts: parseLineItemDiscounts(
+      input?.lineItemDiscounts ?? input?.lineItemDiscountsJson,
+    ),
+    contractTerm: input?.contractTerm || undefined,
   };
 }
 
@@ -205,6 +248,24 @@ export async function registerRoutes(
   // Mount HubSpot domain routes (paths unchanged)
   registerHubspotRoutes(app);
 
+  // Knowledge base (SEEDKB)
+  registerKbRoutes(app);
+
+  // Seed Assistant questions, conversations and feedback
+  registerAssistantRoutes(app);
+
+  // Client document vault (client intel)
+  registerClientDocumentRoutes(app);
+
+  // Quote revision history and comparison
+  registerQuoteRevisionRoutes(app);
+
+  // Good / better / best pricing options and the client's choice
+  registerQuoteOptionRoutes(app);
+
+  // Client proposal PDF and public proposal links
+  registerProposalRoutes(app);
+
   // Serve uploaded files
   app.use("/uploads", express.static(path.join(process.cwd(), "uploads")));
 
@@ -214,129 +275,103 @@ export async function registerRoutes(
   });
 
   // =============================
-  // Approval Request + Validation
+  // Approval Requests
   // =============================
 
   /**
    * POST /api/approval/request
-   * Create an approval code for this contact email (used for cleanup override or duplicate quotes)
-   * Body: { contactEmail: string, quoteData?: any }
+   * Ask admins to approve a quote override (additional quote for a contact,
+   * cleanup override, discount over the threshold). The decision is made in the
+   * admin approval queue; the rep polls GET /api/approval/requests/:id.
+   * Body: { type, contactEmail, quoteId?, reason, requestedOverride?, quoteSnapshot? }
    */
   app.post("/api/approval/request", requireAuth, async (req, res) => {
     try {
-      const contactEmail = (req.body?.contactEmail || req.body?.email || "")
-        .toString()
-        .trim();
-      if (!contactEmail) {
-        return res
-          .status(400)
-          .json({ success: false, message: "contactEmail is required" });
-      }
-
-      // Generate and persist a 4‑digit approval code (expires in 30 minutes)
-      const code = generateApprovalCode();
-      const expiresAt = new Date(Date.now() + 30 * 60 * 1000);
-      await storage.createApprovalCode({
-        code,
-        contactEmail,
-        expiresAt,
-      } as any);
-
-      // Optional: notify admins in Slack
-      try {
-        await sendSystemAlert(
-          "Approval code requested",
-          `Contact: ${contactEmail}\nRequested by: ${req.user?.email}\nCode: ${code} (expires in 30m)`,
-          "medium",
-        );
-      } catch (e) {
-        console.warn(
-          "[Approval] Slack notification failed:",
-          (e as any)?.message,
-        );
+      const parsed = CreateApprovalRequestSchema.safeParse({
+        ...req.body,
+        contactEmail: req.body?.contactEmail || req.body?.email,
+      });
+      if (!parsed.success) {
+        return res.status(400).json({
+          success: false,
+          message:
+            parsed.error.issues[0]?.message || "Invalid approval request",
+          errors: parsed.error.issues,
+        });
       }
 
-      return res.json({ success: true, code });
+      const request = await createApprovalRequest(parsed.data, {
+        id: req.user!.id,
+        email: req.user!.email,
+      });
+      const [view] = await toApprovalRequestViews([request]);
+      return res.json({ success: true, request: view });
     } catch (error) {
       console.error("[Approval] request error:", error);
       return res
         .status(500)
-        .json({ success: false, message: "Failed to create approval code" });
+        .json({ success: false, message: "Failed to create approval request" });
     }
   });
 
   /**
-   * Legacy alias used by client for duplicate quote flow
-   * POST /api/approval-request
+   * GET /api/approval/requests/:id
+   * Status of an approval request, for the requesting rep (or an admin)
    */
-  app.post("/api/approval-request", requireAuth, async (req, res) => {
-    // Delegate to the canonical endpoint
-    (req as any).body = {
-      ...req.body,
-      contactEmail: req.body?.email || req.body?.contactEmail,
-    };
-    // Call next handler directly by reusing the logic
+  app.get("/api/approval/requests/:id", requireAuth, async (req, res) => {
     try {
-      const contactEmail = (req.body?.contactEmail || "").toString().trim();
-      if (!contactEmail) {
-        return res
-          .status(400)
-          .json({ success: false, message: "contactEmail is required" });
+      const id = parseApprovalRequestId(req.params.id);
+      const request = id ? await storage.getApprovalRequest(id) : undefined;
+      if (
+        !request ||
+        (request.requestedBy !== req.user?.id && req.user?.role !== "admin")
+      ) {
+        return res.status(404).json({ message: "Approval request not found" });
       }
-      const code = generateApprovalCode();
-      const expiresAt = new Date(Date.now() + 30 * 60 * 1000);
-      await storage.createApprovalCode({
-        code,
-        contactEmail,
-        expiresAt,
-      } as any);
-      try {
-        await sendSystemAlert(
-          "Approval code requested (legacy)",
-          `Contact: ${contactEmail}\nRequested by: ${req.user?.email}\nCode: ${code} (expires in 30m)`,
-          "medium",
-        );
-      } catch {}
-      return res.json({ success: true, code });
+      const [view] = await toApprovalRequestViews([request]);
+      return res.json(view);
     } catch (error) {
-      console.error("[Approval] legacy request error:", error);
+      console.error("[Approval] status error:", error);
       return res
         .status(500)
-        .json({ success: false, message: "Failed to create approval code" });
+        .json({ message: "Failed to fetch approval request" });
     }
   });
 
   /**
-   * POST /api/approval/validate
-   * Validate a code without consuming it. Body: { code: string, contactEmail: string }
+   * POST /api/approval/requests/:id/cancel
+   * Withdraw a pending request
    */
-  app.post("/api/approval/validate", requireAuth, async (req, res) => {
-    try {
-      const code = (req.body?.code || "").toString().trim();
-      const contactEmail = (req.body?.contactEmail || req.body?.email || "")
-        .toString()
-        .trim();
-      if (!code || !contactEmail) {
-        return res
-          .status(400)
-          .json({
-            valid: false,
-            message: "code and contactEmail are required",
+  app.post(
+    "/api/approval/requests/:id/cancel",
+    requireAuth,
+    async (req, res) => {
+      try {
+        const id = parseApprovalRequestId(req.params.id);
+        const request = id ? await storage.getApprovalRequest(id) : undefined;
+        if (!request || request.requestedBy !== req.user?.id) {
+          return res
+            .status(404)
+            .json({ message: "Approval request not found" });
+        }
+        const cancelled = await storage.cancelApprovalRequest(
+          request.id,
+          req.user.id,
+        );
+        if (!cancelled) {
+          return res.status(409).json({
+            message: `Approval request is already ${request.status}`,
           });
+        }
+        return res.json({ success: true });
+      } catch (error) {
+        console.error("[Approval] cancel error:", error);
+        return res
+          .status(500)
+          .json({ message: "Failed to cancel approval request" });
       }
-
-      const valid = await storage.validateApprovalCode(code, contactEmail);
-      return res.json({
-        valid,
-        message: valid ? "OK" : "Invalid or expired approval code",
-      });
-    } catch (error) {
-      console.error("[Approval] validate error:", error);
-      return res
-        .status(500)
-        .json({ valid: false, message: "Validation failed" });
-    }
-  });
+    },
+  );
 
   // Public (authenticated) Calculator content endpoint for SOW templates and agreement links
   app.get("/api/calculator/content", requireAuth, async (req, res) => {
@@ -506,6 +541,55 @@ export async function registerRoutes(
     }
   });
 
+  // Config snapshot of a published version, used when re-opening pinned quotes
+  app.get("/api/pricing/versions/:id/config", requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid version ID" });
+      }
+      const version = await pricingConfigService.getPublishedVersion(id);
+      if (!version) {
+        return res
+          .status(404)
+          .json({ message: "Pricing config version not found" });
+      }
+      res.json(version.config);
+    } catch (error) {
+      console.error("[PricingConfig] version load failed", error);
+      res
+        .status(500)
+        .json({ message: "Failed to load pricing configuration version" });
+    }
+  });
+
+  // Look up a promo code for the calculator; redemption happens on quote save
+  app.post("/api/pricing/promo-codes/validate", requireAuth, async (req, res) => {
+    try {
+      const code = normalizePromoCode(String(req.body?.code || ""));
+      if (!code) {
+        return res.status(400).json({ message: "Promo code is required" });
+      }
+      const promo = await storage.getPromoCodeByCode(code);
+      if (!promo) {
+        return res.status(404).json({ message: `Promo code ${code} not found` });
+      }
+      const unavailable = promoCodeUnavailableReason(promo);
+      if (unavailable) {
+        return res.status(400).json({ message: unavailable });
+      }
+      res.json({
+        code: promo.code,
+        description: promo.description,
+        expiresAt: promo.expiresAt,
+        discounts: promoCodeDiscounts(promo),
+      });
+    } catch (error) {
+      console.error("[PromoCodes] validate failed", error);
+      res.status(500).json({ message: "Failed to validate promo code" });
+    }
+  });
+
   // App namespace aliases for SeedQC (Calculator)
   app.get("/api/apps/seedqc/content", requireAuth, (req, res) => {
     const q = req.originalUrl.includes("?")
@@ -667,6 +751,13 @@ export async function registerRoutes(
     },
   );
 
+  app.get("/api/apps/seedpay/commission-plan", requireAuth, (req, res) => {
+    const q = req.originalUrl.includes("?")
+      ? req.originalUrl.slice(req.originalUrl.indexOf("?"))
+      : "";
+    res.redirect(307, `/api/commission-plan${q}`);
+  });
+
   app.get("/api/apps/seedpay/monthly-bonuses", requireAuth, (req, res) => {
     const q = req.originalUrl.includes("?")
       ? req.originalUrl.slice(req.originalUrl.indexOf("?"))
@@ -683,16 +774,8 @@ export async function registerRoutes(
 
   // =============================
   // AI Assistant Endpoints (Option B)
+  // Questions and conversations live in assistant-routes.ts
   // =============================
-  const aiService = new AIService();
-  const getPersona = (user: any): "sales" | "service" | "admin" => {
-    const pref = String(user?.defaultDashboard || "").toLowerCase();
-    if (pref.includes("admin")) return "admin";
-    if (pref.includes("service")) return "service";
-    if (pref.includes("sales")) return "sales";
-    // fallback by role
-    return user?.role === "admin" ? "admin" : "sales";
-  };
 
   // List Box items under CLIENTS subtree
   app.get("/api/ai/box/list", requireAuth, async (req, res) => {
@@ -722,7 +805,7 @@ export async function registerRoutes(
   // Resolve attachments (validate and expand folders to files)
   app.post("/api/ai/box/resolve", requireAuth, async (req, res) => {
     try {
-      const persona = getPersona(req.user);
+      const persona = assistantPersona(req.user);
       if (persona === "sales")
         return res
           .status(403)
@@ -768,171 +851,6 @@ export async function registerRoutes(
     }
   });
 
-  // Main AI query endpoint (non-streaming with document extraction)
-  app.post("/api/ai/query", requireAuth, async (req, res) => {
-    try {
-      const persona = getPersona(req.user);
-      const mode: "sell" | "support" =
-        req.body?.mode === "support" ? "support" : "sell";
-      const question = (req.body?.question || "").toString().trim();
-      const attachments = Array.isArray(req.body?.attachments)
-        ? req.body.attachments
-        : [];
-      if (!question)
-        return res.status(400).json({ message: "question is required" });
-
-      if (attachments.length > 0 && persona === "sales") {
-        return res
-          .status(403)
-          .json({
-            message: "Box attachments are not permitted for sales persona",
-          });
-      }
-
-      // Validate and enforce subtree, then extract text from Box attachments
-      let fileNames: string[] = [];
-      let combinedText = "";
-      if (
-        attachments.length > 0 &&
-        (persona === "service" || persona === "admin")
-      ) {
-        const valid: Array<{ type: "box_file" | "box_folder"; id: string }> =
-          [];
-        for (const a of attachments) {
-          const type = a?.type === "box_folder" ? "folder" : "file";
-          const id = String(a?.id || "");
-          if (!id) continue;
-          const ok = await boxService.isUnderClientsRoot(id, type as any);
-          if (!ok) continue;
-          valid.push({ type: type === "file" ? "box_file" : "box_folder", id });
-        }
-        if (valid.length) {
-          const extracted = await extractTextFromBoxAttachments(valid);
-          combinedText = extracted.combinedText || "";
-          fileNames = extracted.citations || [];
-        }
-      }
-
-      // Build prompt per mode
-      const systemSell = `You are Seed Assistant (Sell Mode). Be concise, persuasive, and client-safe. Use bullets and a one-sentence summary. Never fabricate data and avoid quoting documents verbatim.`;
-      const systemSupport = `You are Seed Assistant (Support Mode). Provide detailed, structured, and technically accurate guidance with assumptions, edge cases, and a final client-ready paragraph. Use citations when document sources are provided by name. Never quote documents verbatim.`;
-
-      const sys = mode === "support" ? systemSupport : systemSell;
-      const sourceNote = fileNames.length
-        ? `\n\nCite sources by name when used:\n- ${fileNames.slice(0, 20).join("\n- ")}`
-        : "";
-      const kb = combinedText ? `\n\nKnowledge Base:\n${combinedText}` : "";
-      const fullPrompt = `${sys}\n\nUser question:\n${question}${sourceNote}${kb}`;
-
-      const model = mode === "support" ? "gpt-4o" : "gpt-4o-mini";
-      const answer = await aiService.generateContent(fullPrompt, {
-        model,
-        maxTokens: 1200,
-        temperature: 0.4,
-      });
-      return res.json({
-        answer,
-        citations: fileNames.map((n) => ({ name: n })),
-      });
-    } catch (error: any) {
-      console.error("[AI] query failed", error);
-      return res
-        .status(500)
-        .json({
-          message: "AI query failed",
-          error: error?.message || "unknown",
-        });
-    }
-  });
-
-  // Streaming AI query endpoint (SSE) with document extraction
-  app.post("/api/ai/query/stream", requireAuth, async (req, res) => {
-    try {
-      const persona = getPersona(req.user);
-      const mode: "sell" | "support" =
-        req.body?.mode === "support" ? "support" : "sell";
-      const question = (req.body?.question || "").toString().trim();
-      const attachments = Array.isArray(req.body?.attachments)
-        ? req.body.attachments
-        : [];
-      if (!question) {
-        res.status(400);
-        return res.end();
-      }
-
-      if (attachments.length > 0 && persona === "sales") {
-        res.status(403);
-        return res.end();
-      }
-
-      // Prepare extraction
-      let fileNames: string[] = [];
-      let combinedText = "";
-      if (
-        attachments.length > 0 &&
-        (persona === "service" || persona === "admin")
-      ) {
-        const valid: Array<{ type: "box_file" | "box_folder"; id: string }> =
-          [];
-        for (const a of attachments) {
-          const type = a?.type === "box_folder" ? "folder" : "file";
-          const id = String(a?.id || "");
-          if (!id) continue;
-          const ok = await boxService.isUnderClientsRoot(id, type as any);
-          if (!ok) continue;
-          valid.push({ type: type === "file" ? "box_file" : "box_folder", id });
-        }
-        if (valid.length) {
-          const extracted = await extractTextFromBoxAttachments(valid);
-          combinedText = extracted.combinedText || "";
-          fileNames = extracted.citations || [];
-        }
-      }
-
-      // Build prompt
-      const systemSell = `You are Seed Assistant (Sell Mode). Be concise, persuasive, and client-safe. Use bullets and a one-sentence summary. Never fabricate data and avoid quoting documents verbatim.`;
-      const systemSupport = `You are Seed Assistant (Support Mode). Provide detailed, structured, and technically accurate guidance with assumptions, edge cases, and a final client-ready paragraph. Use citations when document sources are provided by name. Never quote documents verbatim.`;
-      const sys = mode === "support" ? systemSupport : systemSell;
-      const sourceNote = fileNames.length
-        ? `\n\nCite sources by name when used:\n- ${fileNames.slice(0, 20).join("\n- ")}`
-        : "";
-      const kb = combinedText ? `\n\nKnowledge Base:\n${combinedText}` : "";
-      const fullPrompt = `${sys}\n\nUser question:\n${question}${sourceNote}${kb}`;
-      const model = mode === "support" ? "gpt-4o" : "gpt-4o-mini";
-
-      // SSE headers
-      res.setHeader("Content-Type", "text/event-stream");
-      res.setHeader("Cache-Control", "no-cache, no-transform");
-      res.setHeader("Connection", "keep-alive");
-      (res as any).flushHeaders?.();
-
-      const write = (obj: any) => {
-        try {
-          res.write(`data: ${JSON.stringify(obj)}\n\n`);
-        } catch {}
-      };
-
-      // Send metadata first (citations)
-      const citationsPayload = fileNames.map((n) => ({ name: n }));
-      write({ meta: { citations: citationsPayload } });
-
-      await aiService.streamChat(fullPrompt, {
-        model,
-        maxTokens: 1200,
-        temperature: 0.4,
-        onDelta: (delta: string) => write({ delta }),
-      });
-
-      // Done
-      res.write("data: [DONE]\n\n");
-      res.end();
-    } catch (error) {
-      try {
-        res.end();
-      } catch {}
-    }
-  });
-
   // Admin cache clear for SeedPay (app namespace) -> clears deals cache
   app.post(
     "/api/admin/apps/seedpay/cache/clear",
@@ -2024,11 +1942,11 @@ export async function registerRoutes(
         // Prepare data for validation (without ownerId since schema omits it)
         const validationData = {
           ...sanitizedBody,
-          // Use the frontend-calculated values directly (with fallbacks for required fields)
-          monthlyFee: sanitizedBody.monthlyFee || "0",
-          setupFee: sanitizedBody.setupFee || "0",
-          taasMonthlyFee: sanitizedBody.taasMonthlyFee || "0",
-          taasPriorYearsFee: sanitizedBody.taasPriorYearsFee || "0",
+          // Placeholders for validation; the server prices the quote below
+          monthlyFee: "0",
+          setupFee: "0",
+          taasMonthlyFee: "0",
+          taasPriorYearsFee: "0",
           // For TaaS-only quotes, provide defaults for bookkeeping-required fields
           monthlyTransactions: sanitizedBody.monthlyTransactions || "N/A",
           cleanupComplexity: sanitizedBody.cleanupComplexity || "0",
@@ -2040,14 +1958,15 @@ export async function registerRoutes(
         };
 
         // Check for existing quotes - use approval system if needed
-        const { contactEmail, approvalCode } = req.body;
+        const { contactEmail, approvalRequestId } = req.body;
         console.log("🔍 APPROVAL CHECK - Contact Email:", contactEmail);
         console.log(
-          "🔍 APPROVAL CHECK - Approval Code provided:",
-          !!approvalCode,
-          "Value:",
-          approvalCode,
+          "🔍 APPROVAL CHECK - Approval request provided:",
+          approvalRequestId ?? "none",
         );
+        // Approvals this save uses; checked here, used with the insert once
+        // every other check has passed
+        const approvalIds: number[] = [];
 
         if (contactEmail) {
           const existingQuotes = await storage.getQuotesByEmail(contactEmail);
@@ -2082,47 +2001,31 @@ export async function registerRoutes(
           }
 
           if (liveInHubSpotCount > 0) {
-            // There are active HubSpot quotes; require approval code
-            if (!approvalCode) {
+            // There are active HubSpot quotes; require an approved request
+            const approval = await checkApproval(approvalRequestId, {
+              type: "duplicate_quote",
+              contactEmail,
+              actorId: req.user.id,
+            });
+            if ("message" in approval) {
               console.log(
-                "🚨 APPROVAL CHECK - Live HubSpot quotes present and no approval code provided, rejecting",
+                "🚨 APPROVAL CHECK - Live HubSpot quotes present without a usable approval, rejecting:",
+                approval.message,
               );
               res.status(400).json({
                 message:
-                  "Approval code required for creating additional quotes",
+                  approval.message === "Approval required"
+                    ? "Approval required for creating additional quotes"
+                    : approval.message,
                 requiresApproval: true,
                 existingQuotesCount: liveInHubSpotCount,
               });
               return;
             }
 
+            approvalIds.push(approval.request.id);
             console.log(
-              "🔍 APPROVAL CHECK - Validating approval code:",
-              approvalCode,
-            );
-            const isValidCode = await storage.validateApprovalCode(
-              approvalCode,
-              contactEmail,
-            );
-            console.log(
-              "🔍 APPROVAL CHECK - Code validation result:",
-              isValidCode,
-            );
-
-            if (!isValidCode) {
-              console.log(
-                "🚨 APPROVAL CHECK - Invalid approval code, rejecting",
-              );
-              res.status(400).json({
-                message: "Invalid or expired approval code",
-                requiresApproval: true,
-              });
-              return;
-            }
-
-            await storage.markApprovalCodeUsed(approvalCode, contactEmail);
-            console.log(
-              `✅ APPROVAL CHECK - Code validated and marked as used for: ${contactEmail}`,
+              `✅ APPROVAL CHECK - Approval #${approval.request.id} covers: ${contactEmail}`,
             );
           } else {
             console.log(
@@ -2178,7 +2081,57 @@ export async function registerRoutes(
         // Do NOT trust client-provided totals; derive from validated inputs
         let quote;
         try {
-          const calc = calculateCombinedFees(validatedQuoteData as any);
+          // New quotes are priced with, and pinned to, the live config version
+          const { versionId, config } =
+            await pricingConfigService.resolveQuotePricingConfig();
+          const discountResult = await resolveQuoteDiscounts(req.body);
+          if ("error" in discountResult) {
+            return res.status(400).json({
+              message: discountResult.error,
+              invalidPromoCode: true,
+            });
+          }
+          const { resolved: discounts } = discountResult;
+          const calc = calculateQuotePricing(
+            { ...validatedQuoteData, lineItemDiscounts: discounts.discounts } as any,
+            config,
+          );
+          const fees = quoteFeeColumns(calc);
+          const pricingMismatches = findPricingMismatches(req.body, fees);
+          if (pricingMismatches.length) {
+            console.warn(
+              "🚨 Submitted quote fees differ from server pricing:",
+              {
+                userId: req.user.id,
+                contactEmail: validatedQuoteData.contactEmail,
+                pricingMismatches,
+              },
+            );
+            return res.status(409).json({
+              message: PRICING_MISMATCH_MESSAGE,
+              pricingMismatch: true,
+              mismatches: pricingMismatches,
+              serverPricing: fees,
+            });
+          }
+          const discountApproval = await checkDiscountApproval(
+            calc.discountTotals,
+            req.body.discountApprovalRequestId,
+            {
+              contactEmail: validatedQuoteData.contactEmail,
+              actorId: req.user.id,
+            },
+          );
+          if ("message" in discountApproval) {
+            return res.status(400).json({
+              message: discountApproval.message,
+              requiresDiscountApproval: true,
+              maxDiscountPct: calc.discountTotals.maxManualDiscountPct,
+            });
+          }
+          if (discountApproval.approvalRequestId) {
+            approvalIds.push(discountApproval.approvalRequestId);
+          }
           console.log("🧮 Server pricing totals:", {
             combinedMonthly: calc.combined.monthlyFee,
             combinedSetup: calc.combined.setupFee,
@@ -2191,15 +2144,40 @@ export async function registerRoutes(
           const quoteData = {
             ...validatedQuoteData,
             ownerId: req.user.id,
-            monthlyFee: calc.combined.monthlyFee.toFixed(2),
-            setupFee: calc.combined.setupFee.toFixed(2),
-            taasMonthlyFee: calc.taas.monthlyFee.toFixed(2),
-            taasPriorYearsFee: calc.priorYearFilingsFee.toFixed(2),
+            status: "draft",
+            ...fees,
+            pricingBreakdownJson: JSON.stringify(calc),
+            pricingConfigVersionId: versionId,
+            ...quoteDiscountFields(
+              discounts,
+              calc.discountTotals,
+              req.body.discountReason,
+            ),
+            ...contractTermQuoteFields(calc.contractTerm),
           } as any;
 
           console.log("🔵 CALLING storage.createQuote with data (server totals)...");
-          quote = await storage.createQuote(quoteData);
+          quote = await storage.createQuote(
+            quoteData,
+            req.user.id,
+            approvalIds,
+          );
+          if (discounts.redeemPromo && discounts.promo) {
+            const redeemed = await storage.redeemPromoCode(discounts.promo.id);
+            if (!redeemed) {
+              console.warn(
+                `[Discounts] Promo ${discounts.promo.code} hit its limit while saving quote ${quote?.id}`,
+              );
+            }
+          }
         } catch (calcError) {
+          // Another save used the approval after it was checked
+          if (calcError instanceof StorageConflictError) {
+            return res.status(400).json({
+              message: calcError.message,
+              requiresApproval: true,
+            });
+          }
           console.error("🚨 Server pricing calculation failed:", calcError);
           return res.status(400).json({
             message: "Pricing calculation failed",
@@ -2416,22 +2394,118 @@ export async function registerRoutes(
       // Parse incoming update, read existing, merge, then recompute totals on the server
       const parsedUpdate = updateQuoteSchema.parse({ ...sanitizedBody, id });
       let quote;
+      let pricingConfig: PricingConfig | undefined;
       try {
         const existing = await storage.getQuote(id);
         if (!existing) {
           return res.status(404).json({ message: "Quote not found" });
         }
-        const calcInput = { ...existing, ...parsedUpdate };
-        const cfg = buildServiceConfig(calcInput);
+        // The client signed off on these terms; changes need a new quote
+        if (existing.status === "accepted") {
+          return res
+            .status(409)
+            .json({ message: "An accepted quote can't be edited" });
+        }
+        // The server sets the pricing version pin; ignore client values
+        delete (parsedUpdate as any).pricingConfigVersionId;
+        // Status follows the quote's proposal links
+        delete (parsedUpdate as any).status;
+        // Keep the saved discounts unless the update replaces them
+        const discountResult = await resolveQuoteDiscounts(
+          {
+            lineItemDiscounts:
+              req.body.lineItemDiscounts ??
+              req.body.lineItemDiscountsJson ??
+              existing.lineItemDiscountsJson,
+            promoCode:
+              "promoCode" in req.body ? req.body.promoCode : existing.promoCode,
+          },
+          existing.promoCode,
+        );
+        if ("error" in discountResult) {
+          return res.status(400).json({
+            message: discountResult.error,
+            invalidPromoCode: true,
+          });
+        }
+        const { resolved: discounts } = discountResult;
+        const calcInput = {
+          ...existing,
+          ...parsedUpdate,
+          lineItemDiscounts: discounts.discounts,
+        };
+        // Pinned quotes re-price with their original version; legacy quotes
+        // are priced with the live config, as the calculator shows them, and
+        // pinned to it from this save on
+        const resolved = await pricingConfigService.resolveQuotePricingConfig(
+          existing.pricingConfigVersionId,
+        );
+        pricingConfig = resolved.config;
+        const cfg = buildServiceConfig(calcInput, pricingConfig);
+        const fees = quoteFeeColumns(cfg.pricing);
+        const pricingMismatches = findPricingMismatches(req.body, fees);
+        if (pricingMismatches.length) {
+          console.warn("🚨 Submitted quote fees differ from server pricing:", {
+            userId: req.user!.id,
+            quoteId: existing.id,
+            pricingMismatches,
+          });
+          return res.status(409).json({
+            message: PRICING_MISMATCH_MESSAGE,
+            pricingMismatch: true,
+            mismatches: pricingMismatches,
+            serverPricing: fees,
+          });
+        }
+        const discountApproval = await checkDiscountApproval(
+          cfg.discountTotals,
+          req.body.discountApprovalRequestId,
+          {
+            contactEmail: calcInput.contactEmail,
+            quoteId: existing.id,
+            actorId: req.user!.id,
+          },
+        );
+        if ("message" in discountApproval) {
+          return res.status(400).json({
+            message: discountApproval.message,
+            requiresDiscountApproval: true,
+            maxDiscountPct: cfg.discountTotals.maxManualDiscountPct,
+          });
+        }
         const quoteData = {
           ...parsedUpdate,
-          monthlyFee: cfg.fees.combinedMonthly.toFixed(2),
-          setupFee: cfg.fees.combinedSetup.toFixed(2),
-          taasMonthlyFee: cfg.fees.taasMonthly.toFixed(2),
-          taasPriorYearsFee: cfg.fees.priorYearFilings.toFixed(2),
+          ...fees,
+          pricingBreakdownJson: JSON.stringify(cfg.pricing),
+          ...quoteDiscountFields(
+            discounts,
+            cfg.discountTotals,
+            "discountReason" in req.body
+              ? req.body.discountReason
+              : existing.discountReason,
+          ),
+          ...contractTermQuoteFields(cfg.contractTerm),
+          ...(existing.pricingConfigVersionId
+            ? {}
+            : { pricingConfigVersionId: resolved.versionId }),
         } as any;
-        quote = await storage.updateQuote(quoteData);
+        quote = await storage.updateQuote(
+          quoteData,
+          req.user!.id,
+          discountApproval.approvalRequestId
+            ? [discountApproval.approvalRequestId]
+            : [],
+        );
+        if (discounts.redeemPromo && discounts.promo) {
+          await storage.redeemPromoCode(discounts.promo.id);
+        }
       } catch (calcErr) {
+        if (calcErr instanceof StorageConflictError) {
+          return res.status(400).json({
+            message: calcErr.message,
+            requiresDiscountApproval: true,
+          });
+        }
         console.error("🚨 Server pricing calculation failed on update:", calcErr);
         return res.status(400).json({
           message: "Pricing calculation failed on update",
@@ -2448,7 +2522,10 @@ export async function registerRoutes(
           console.log(
             `📤 Calling HubSpot updateQuote for quote ID ${quote.hubspotQuoteId}`,
           );
-          const feeCalculation = calculateCombinedFees(toPricingData(quote));
+          const feeCalculation = calculateQuotePricing(
+            toPricingData(quote) as any,
+            pricingConfig,
+          );
           await hubSpotService.updateQuote(
             quote.hubspotQuoteId,
             quote.hubspotDealId || undefined,
@@ -2467,7 +2544,11 @@ export async function registerRoutes(
             Number(feeCalculation.priorYearFilingsFee || 0),
             Number(feeCalculation.bookkeeping.monthlyFee || 0),
             Number(feeCalculation.bookkeeping.setupFee || 0),
-            quote as any,
+            {
+              ...quote,
+              appliedLineItemDiscounts: feeCalculation.lineItemDiscounts,
+              appliedContractTerm: feeCalculation.contractTerm,
+            } as any,
             quote.serviceTier || undefined,
             Boolean(
               quote.servicePayroll || (quote as any).servicePayrollService,
@@ -2715,6 +2796,67 @@ export async function registerRoutes(
     },
   );
 
+  // Rules-based lead score from current HubSpot data, with the last AI score
+  app.get(
+    "/api/client-intel/prospect-score/:contactId",
+    requireAuth,
+    async (req, res) => {
+      try {
+        if (!hubSpotService) {
+          return res
+            .status(503)
+            .json({ message: "HubSpot service not available" });
+        }
+        const contact = await hubSpotService.getContactById(
+          req.params.contactId,
+        );
+        if (!contact) {
+          return res.status(404).json({ message: "Contact not found" });
+        }
+
+        const rules = await clientIntelEngine.calculateRulesScore(contact);
+        const email = contact.properties?.email;
+        const profile = email
+          ? await storage.getClientIntelProfileByEmail(email)
+          : undefined;
+        const comparison: ProspectScoreComparison = {
+          rules,
+          ai: profile?.aiAnalyses?.prospectScore ?? null,
+        };
+        res.json(comparison);
+      } catch (error) {
+        console.error("Prospect scoring error:", error);
+        res.status(500).json({ message: "Failed to score prospect" });
+      }
+    },
+  );
+
+  // Everything that has happened with an account, newest first
+  app.get(
+    "/api/client-intel/activity/:contactId",
+    requireAuth,
+    async (req, res) => {
+      const parsed = ClientTimelineQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: "Invalid timeline query",
+          errors: parsed.error.errors,
+        });
+      }
+      try {
+        const { email, sources, ...filters } = parsed.data;
+        const timeline = await getClientTimeline(
+          { contactId: req.params.contactId, email },
+          { ...filters, sources: parseClientActivitySources(sources) },
+        );
+        res.json(timeline);
+      } catch (error) {
+        console.error("Client timeline error:", error);
+        res.status(500).json({ message: "Failed to load client activity" });
+      }
+    },
+  );
+
   // Generate AI insights for a client using async queue processing
   app.post(
     "/api/client-intel/generate-insights",
@@ -2773,6 +2915,7 @@ export async function registerRoutes(
             const contact = await hubSpotService.getContactById(clientId);
             if (contact) {
               clientData = {
+                email: contact.properties.email,
                 companyName: contact.properties.company || "Unknown Company",
                 industry: contact.properties.industry || null,
                 revenue: contact.properties.annualrevenue,
@@ -2855,13 +2998,15 @@ export async function registerRoutes(
 
       if (state === "completed") {
         const result = job.returnvalue;
-        // Cache the result for future requests
+        // Cache the result for future requests, unless an analysis failed
         const { contactId } = job.data;
-        const cacheKey = cache.generateKey(
-          CachePrefix.OPENAI_ANALYSIS,
-          contactId,
-        );
-        await cache.set(cacheKey, result, CacheTTL.OPENAI_ANALYSIS);
+        if (result && !hasFailedAnalysis(result)) {
+          const cacheKey = cache.generateKey(
+            CachePrefix.OPENAI_ANALYSIS,
+            contactId,
+          );
+          await cache.set(cacheKey, result, CacheTTL.OPENAI_ANALYSIS);
+        }
 
         res.json({
           status: "completed",
@@ -3411,6 +3556,37 @@ export async function registerRoutes(
     }
   });
 
+  // Active commission plan for the current user's sales rep (admins may pass salesRepId)
+  app.get("/api/commission-plan", requireAuth, async (req, res) => {
+    try {
+      const requestedSalesRepId =
+        typeof req.query.salesRepId === "string"
+          ? parseInt(req.query.salesRepId, 10)
+          : undefined;
+      if (requestedSalesRepId !== undefined) {
+        if (Number.isNaN(requestedSalesRepId)) {
+          return res.status(400).json({ message: "Invalid salesRepId" });
+        }
+        if (req.user?.role !== "admin") {
+          const myRep = await storage.getSalesRepByUserId(req.user!.id);
+          if (!myRep || myRep.id !== requestedSalesRepId) {
+            return res.status(403).json({
+              message: "Forbidden: cannot access other reps commission plans",
+            });
+          }
+        }
+      }
+
+      const salesRepId =
+        requestedSalesRepId ??
+        (await storage.getSalesRepByUserId(req.user!.id))?.id;
+      res.json(await getActiveCommissionPlan(salesRepId ?? null));
+    } catch (error) {
+      console.error("Error fetching commission plan:", getErrorMessage(error));
+      res.status(500).json({ message: "Failed to fetch commission plan" });
+    }
+  });
+
   // Get commissions
   app.get("/api/commissions", requireAuth, async (req, res) => {
     try {
@@ -3566,6 +3742,32 @@ export async function registerRoutes(
           return;
         }
 
+        // Clawbacks stay separate rows so the rep sees each one with its reason
+        if (comm.commission_type === "clawback") {
+          invoiceGroups.set(`clawback_${comm.id}`, {
+            id: comm.id,
+            dealId: comm.hubspot_invoice_id,
+            dealName: comm.service_names || comm.company_name,
+            companyName: comm.company_name || "Unknown Company",
+            salesRep: comm.sales_rep_name || "Unknown",
+            serviceType: comm.service_type || "clawback",
+            type: "clawback",
+            monthNumber: comm.month_number || 1,
+            amount: parseFloat(comm.amount || 0),
+            status: comm.status || "pending",
+            dateEarned: comm.date_earned
+              ? new Date(comm.date_earned).toISOString().substring(0, 10)
+              : null,
+            datePaid: null,
+            hubspotDealId: comm.hubspot_invoice_id,
+            clawbackReason: comm.notes,
+            setupAmount: 0,
+            month1Amount: 0,
+            residualAmount: 0,
+          });
+          return;
+        }
+
         const invoiceId = comm.hubspot_invoice_id;
 
         if (!invoiceGroups.has(invoiceId)) {
@@ -3688,10 +3890,36 @@ export async function registerRoutes(
         { ttl: CacheTTL.HUBSPOT_METRICS },
       );
 
+      // Project with each deal owner's active commission plan
+      const [allUsers, allSalesReps, planFor] = await Promise.all([
+        storage.getAllUsers(),
+        storage.getAllSalesReps(),
+        loadCommissionPlanResolver(),
+      ]);
+      const userIdByHsId = new Map(
+        (allUsers || [])
+          .filter((u) => u.hubspotUserId)
+          .map((u) => [u.hubspotUserId as string, u.id]),
+      );
+      const repIdByUserId = new Map(
+        (allSalesReps || []).map((rep) => [rep.userId, rep.id]),
+      );
+
       const mapped = data.deals.map((d: any) => {
         const amount = d.amount ? Number(d.amount) : 0;
+        const repId = repIdByUserId.get(
+          userIdByHsId.get(String(d.ownerId ?? "")) ?? -1,
+        );
+        const plan = repId ? planFor(repId).rules : undefined;
         // Align to commission structure: treat pipeline amount as monthly fee; setup fee unknown (0)
-        const proj = calculateProjectedCommission(0, amount, "bookkeeping");
+        const proj = calculateProjectedCommission(
+          0,
+          amount,
+          "bookkeeping",
+          [],
+          "monthly",
+          plan,
+        );
         return {
           id: d.id,
           dealId: d.id,
@@ -3741,6 +3969,7 @@ export async function registerRoutes(
         SET status = 'approved', 
             updated_at = NOW()
         WHERE hubspot_invoice_id = ${commissionId}
+          AND payout_run_id IS NULL
       `);
 
       console.log(
@@ -3748,7 +3977,9 @@ export async function registerRoutes(
       );
 
       if ((result as any).rowCount === 0) {
-        return res.status(404).json({ message: "Commission not found" });
+        return res
+          .status(404)
+          .json({ message: "Commission not found or already in a payout run" });
       }
 
       console.log(
@@ -3783,6 +4014,7 @@ export async function registerRoutes(
             amount = 0,
             updated_at = NOW()
         WHERE hubspot_invoice_id = ${commissionId}
+          AND payout_run_id IS NULL
       `);
 
       console.log(
@@ -3790,7 +4022,9 @@ export async function registerRoutes(
       );
 
       if ((result as any).rowCount === 0) {
-        return res.status(404).json({ message: "Commission not found" });
+        return res
+          .status(404)
+          .json({ message: "Commission not found or already in a payout run" });
       }
 
       console.log(
@@ -3850,6 +4084,7 @@ export async function registerRoutes(
             amount = ${restoredAmount},
             updated_at = NOW()
         WHERE hubspot_invoice_id = ${commissionId}
+          AND payout_run_id IS NULL
       `);
 
       console.log(
@@ -3857,7 +4092,9 @@ export async function registerRoutes(
       );
 
       if ((updateResult as any).rowCount === 0) {
-        return res.status(404).json({ message: "Commission not found" });
+        return res
+          .status(404)
+          .json({ message: "Commission not found or already in a payout run" });
       }
 
       console.log(
@@ -4076,53 +4313,16 @@ export async function registerRoutes(
           return res.status(403).json({ message: "Admin access required" });
         }
 
-        // Calculate current period (14th to 13th cycle)
-        const getCurrentPeriod = (): { periodStart: string; periodEnd: string } => {
-          const today = new Date();
-          const currentMonth = today.getMonth();
-          const currentYear = today.getFullYear();
-          const currentDay = today.getDate();
-
-          let periodStartMonth, periodStartYear, periodEndMonth, periodEndYear;
-
-          if (currentDay >= 14) {
-            periodStartMonth = currentMonth;
-            periodStartYear = currentYear;
-            periodEndMonth = currentMonth + 1;
-            periodEndYear = currentYear;
-
-            if (periodEndMonth > 11) {
-              periodEndMonth = 0;
-              periodEndYear = currentYear + 1;
-            }
-          } else {
-            periodStartMonth = currentMonth - 1;
-            periodStartYear = currentYear;
-            periodEndMonth = currentMonth;
-            periodEndYear = currentYear;
-
-            if (periodStartMonth < 0) {
-              periodStartMonth = 11;
-              periodStartYear = currentYear - 1;
-            }
-          }
-
-          const periodStart = new Date(periodStartYear, periodStartMonth, 14);
-          const periodEnd = new Date(periodEndYear, periodEndMonth, 13);
-
-          return {
-            periodStart: periodStart.toISOString().substring(0, 10),
-            periodEnd: periodEnd.toISOString().substring(0, 10),
-          };
-        };
-
-        const currentPeriod = getCurrentPeriod();
+        // Current 14th–13th commission period
+        const currentPeriod = commissionPeriodFor(new Date());
 
         // Import commission calculator and HubSpot facade (P0 vertical slice)
         const { calculateCommissionFromInvoice } = await import(
           "../shared/commission-calculator.js"
         );
         const hubspotFacade = await import("./services/hubspot/index.js");
+        const planFor = await loadCommissionPlanResolver();
+        const productMappings = await storage.getCommissionProductMappings();
 
         // Get all paid invoices from HubSpot for the current period (all reps)
         const paidInvoices = await hubspotFacade.getPaidInvoicesInPeriod(
@@ -4151,6 +4351,7 @@ export async function registerRoutes(
         // Process each invoice and store commission records
         let processedInvoices = 0;
         let totalCommissions = 0;
+        const unclassifiedLineItems: Array<Record<string, unknown>> = [];
 
         for (const invoice of paidInvoices) {
           try {
@@ -4170,47 +4371,66 @@ export async function registerRoutes(
               continue;
             }
 
-            // Calculate commission using shared function (synthetic line item)
-            const lineItem = {
-              description:
-                invoice.description || invoice.name || "Invoice payment",
-              quantity: 1,
-              price: Number(
-                invoice.amount ||
-                  invoice.total_amount ||
-                  invoice.properties?.hs_invoice_total_amount ||
-                  0,
-              ),
-            };
+            // Rates come from the plan the rep was on when the invoice was paid
+            const dateEarned = new Date(
+              invoice.date_paid ||
+                invoice.properties?.hs_invoice_paid_date ||
+                Date.now(),
+            );
+            const plan = planFor(salesRep.id, dateEarned);
             const totalAmount = Number(
               invoice.total_amount ||
                 invoice.amount ||
                 invoice.properties?.hs_invoice_total_amount ||
                 0,
             );
-            const commissionResult = calculateCommissionFromInvoice(
-              lineItem,
-              totalAmount,
-            );
 
-            // Store commission using InsertCommission shape
-            await storage.createCommission({
-              salesRepId: salesRep.id,
-              type: commissionResult.type,
-              amount: commissionResult.amount.toFixed(2),
-              monthNumber: commissionResult.type === "monthly" ? 1 : 0,
-              dateEarned: new Date(
-                invoice.date_paid ||
-                  invoice.properties?.hs_invoice_paid_date ||
-                  Date.now(),
-              ),
-              serviceType: null,
-              notes: `Processed from HubSpot invoice: ${invoice.id}`,
-            });
+            // Classify each line by its HubSpot product
+            const lineItems = await hubspotFacade.getInvoiceLineItems(
+              String(invoice.id),
+            );
+            for (const li of lineItems) {
+              const commissionResult = calculateCommissionFromInvoice(
+                {
+                  ...hubspotLineItemClassifiable(li.properties),
+                  quantity: li.properties?.quantity
+                    ? Number(li.properties.quantity)
+                    : 1,
+                  price: li.properties?.price
+                    ? Number(li.properties.price)
+                    : Number(li.properties?.amount || 0),
+                },
+                totalAmount,
+                plan.rules,
+                { productMappings },
+              );
+              if (commissionResult.classification.source === null) {
+                unclassifiedLineItems.push({
+                  invoice_id: invoice.id,
+                  line_item_id: li.id,
+                  name: li.properties?.name || "Line Item",
+                  product_id: li.properties?.hs_product_id || null,
+                });
+                continue;
+              }
+              if (commissionResult.amount <= 0) continue;
+
+              // Store commission using InsertCommission shape
+              await storage.createCommission({
+                salesRepId: salesRep.id,
+                type: commissionResult.type,
+                amount: commissionResult.amount.toFixed(2),
+                monthNumber: commissionResult.type === "monthly" ? 1 : 0,
+                dateEarned,
+                serviceType: commissionResult.serviceType,
+                commissionPlanId: plan.planId,
+                notes: `Processed from HubSpot invoice: ${invoice.id}`,
+              });
+              totalCommissions += commissionResult.amount;
+            }
             processedInvoices++;
-            totalCommissions += commissionResult.amount;
             console.log(
-              `✅ Processed invoice ${invoice.id}: $${commissionResult.amount} commission for SalesRep ${salesRep.id}`,
+              `✅ Processed invoice ${invoice.id} for SalesRep ${salesRep.id}`,
             );
           } catch (error) {
             console.error(
@@ -4225,6 +4445,7 @@ export async function registerRoutes(
           processed_invoices: processedInvoices,
           total_invoices: paidInvoices.length,
           total_commissions: totalCommissions,
+          unclassified_line_items: unclassifiedLineItems,
           period: currentPeriod,
         });
       } catch (error) {
@@ -4251,51 +4472,8 @@ export async function registerRoutes(
           return;
         }
 
-        // Calculate current period (14th to 13th cycle)
-        const getCurrentPeriod = (): { periodStart: string; periodEnd: string } => {
-          const today = new Date();
-          const currentMonth = today.getMonth();
-          const currentYear = today.getFullYear();
-          const currentDay = today.getDate();
-
-          let periodStartMonth, periodStartYear, periodEndMonth, periodEndYear;
-
-          if (currentDay >= 14) {
-            // We're in the current period (14th of this month to 13th of next month)
-            periodStartMonth = currentMonth;
-            periodStartYear = currentYear;
-            periodEndMonth = currentMonth + 1;
-            periodEndYear = currentYear;
-
-            // Handle year rollover
-            if (periodEndMonth > 11) {
-              periodEndMonth = 0;
-              periodEndYear = currentYear + 1;
-            }
-          } else {
-            // We're in the previous period (14th of last month to 13th of this month)
-            periodStartMonth = currentMonth - 1;
-            periodStartYear = currentYear;
-            periodEndMonth = currentMonth;
-            periodEndYear = currentYear;
-
-            // Handle year rollover
-            if (periodStartMonth < 0) {
-              periodStartMonth = 11;
-              periodStartYear = currentYear - 1;
-            }
-          }
-
-          const periodStart = new Date(periodStartYear, periodStartMonth, 14);
-          const periodEnd = new Date(periodEndYear, periodEndMonth, 13);
-
-          return {
-            periodStart: periodStart.toISOString().substring(0, 10),
-            periodEnd: periodEnd.toISOString().substring(0, 10),
-          };
-        };
-
-        const currentPeriod = getCurrentPeriod();
+        // Current 14th–13th commission period
+        const currentPeriod = commissionPeriodFor(new Date());
 
         // Import HubSpot service and commission calculator
         // Use singleton HubSpot service and commission calculator
@@ -4307,6 +4485,8 @@ export async function registerRoutes(
             .status(500)
             .json({ message: "HubSpot integration not configured" });
         const hubspotService = hubSpotService;
+        const planFor = await loadCommissionPlanResolver();
+        const productMappings = await storage.getCommissionProductMappings();
 
         // Get all paid invoices from HubSpot for the current period (all reps)
         const paidInvoices = await hubspotService.getPaidInvoicesInPeriod(
@@ -4334,6 +4514,7 @@ export async function registerRoutes(
 
         // Process each invoice and store commission records
         const processedCommissions = [];
+        const unclassifiedLineItems: Array<Record<string, unknown>> = [];
         let totalProcessed = 0;
 
         for (const invoice of paidInvoices) {
@@ -4357,12 +4538,13 @@ export async function registerRoutes(
           const lineItems = await hubspotService.getInvoiceLineItems(
             String(invoice.id),
           );
+          const dateEarned = new Date(
+            invoice.properties?.hs_invoice_paid_date || Date.now(),
+          );
+          const plan = planFor(salesRep.id, dateEarned);
           for (const li of lineItems) {
             const lineItem = {
-              description:
-                li.properties?.description ||
-                li.properties?.name ||
-                "Line Item",
+              ...hubspotLineItemClassifiable(li.properties),
               quantity: li.properties?.quantity
                 ? Number(li.properties.quantity)
                 : 1,
@@ -4378,7 +4560,17 @@ export async function registerRoutes(
             const commission = calculateCommissionFromInvoice(
               lineItem,
               totalAmount,
+              plan.rules,
+              { productMappings },
             );
+            if (commission.classification.source === null) {
+              unclassifiedLineItems.push({
+                invoice_id: invoice.id,
+                line_item_id: li.id,
+                name: li.properties?.name || "Line Item",
+                product_id: li.properties?.hs_product_id || null,
+              });
+            }
 
             if (commission.amount > 0) {
               // Store commission in database using InsertCommission shape
@@ -4387,10 +4579,9 @@ export async function registerRoutes(
                 type: commission.type,
                 amount: commission.amount.toFixed(2),
                 monthNumber: commission.type === "monthly" ? 1 : 0,
-                dateEarned: new Date(
-                  invoice.properties?.hs_invoice_paid_date || Date.now(),
-                ),
-                serviceType: null,
+                dateEarned,
+                serviceType: commission.serviceType,
+                commissionPlanId: plan.planId,
                 notes: `Invoice ${invoice.properties?.hs_invoice_number || invoice.id}`,
               });
               processedCommissions.push(storedCommission);
@@ -4413,6 +4604,7 @@ export async function registerRoutes(
             0,
           ),
           processed_commissions: processedCommissions,
+          unclassified_line_items: unclassifiedLineItems,
         });
       } catch (error) {
         console.error("🚨 Error processing HubSpot commissions:", error);
@@ -4442,47 +4634,8 @@ export async function registerRoutes(
           return;
         }
 
-        // Calculate current period (14th to 13th cycle)
-        const getCurrentPeriod = (): { periodStart: string; periodEnd: string } => {
-          const today = new Date();
-          const currentMonth = today.getMonth();
-          const currentYear = today.getFullYear();
-          const currentDay = today.getDate();
-
-          let periodStartMonth, periodStartYear, periodEndMonth, periodEndYear;
-
-          if (currentDay >= 14) {
-            periodStartMonth = currentMonth;
-            periodStartYear = currentYear;
-            periodEndMonth = currentMonth + 1;
-            periodEndYear = currentYear;
-
-            if (periodEndMonth > 11) {
-              periodEndMonth = 0;
-              periodEndYear = currentYear + 1;
-            }
-          } else {
-            periodStartMonth = currentMonth - 1;
-            periodStartYear = currentYear;
-            periodEndMonth = currentMonth;
-            periodEndYear = currentYear;
-
-            if (periodStartMonth < 0) {
-              periodStartMonth = 11;
-              periodStartYear = currentYear - 1;
-            }
-          }
-
-          const periodStart = new Date(periodStartYear, periodStartMonth, 14);
-          const periodEnd = new Date(periodEndYear, periodEndMonth, 13);
-
-          return {
-            periodStart: periodStart.toISOString().substring(0, 10),
-            periodEnd: periodEnd.toISOString().substring(0, 10),
-          };
-        };
-
-        const currentPeriod = getCurrentPeriod();
+        // Current 14th–13th commission period
+        const currentPeriod = commissionPeriodFor(new Date());
 
         // Get stored commissions for this rep in the current period
         const storedCommissions = await storage.getCommissionsBySalesRep(
@@ -4568,51 +4721,8 @@ export async function registerRoutes(
           return;
         }
 
-        // Calculate current period (14th to 13th cycle)
-        const getCurrentPeriod = (): { periodStart: string; periodEnd: string } => {
-          const today = new Date();
-          const currentMonth = today.getMonth();
-          const currentYear = today.getFullYear();
-          const currentDay = today.getDate();
-
-          let periodStartMonth, periodStartYear, periodEndMonth, periodEndYear;
-
-          if (currentDay >= 14) {
-            // We're in the current period (14th of this month to 13th of next month)
-            periodStartMonth = currentMonth;
-            periodStartYear = currentYear;
-            periodEndMonth = currentMonth + 1;
-            periodEndYear = currentYear;
-
-            // Handle year rollover
-            if (periodEndMonth > 11) {
-              periodEndMonth = 0;
-              periodEndYear = currentYear + 1;
-            }
-          } else {
-            // We're in the previous period (14th of last month to 13th of this month)
-            periodStartMonth = currentMonth - 1;
-            periodStartYear = currentYear;
-            periodEndMonth = currentMonth;
-            periodEndYear = currentYear;
-
-            // Handle year rollover
-            if (periodStartMonth < 0) {
-              periodStartMonth = 11;
-              periodStartYear = currentYear - 1;
-            }
-          }
-
-          const periodStart = new Date(periodStartYear, periodStartMonth, 14);
-          const periodEnd = new Date(periodEndYear, periodEndMonth, 13);
-
-          return {
-            periodStart: periodStart.toISOString().substring(0, 10),
-            periodEnd: periodEnd.toISOString().substring(0, 10),
-          };
-        };
-
-        const currentPeriod = getCurrentPeriod();
+        // Current 14th–13th commission period
+        const currentPeriod = commissionPeriodFor(new Date());
 
         // Use singleton HubSpot service
         if (!hubSpotService)
@@ -4785,6 +4895,19 @@ export async function registerRoutes(
         return;
       }
 
+      const commission = await storage.getCommission(id);
+      if (!commission) {
+        res.status(404).json({ message: "Commission not found" });
+        return;
+      }
+      const lockedRun = await lockedPayoutRunFor(commission);
+      if (lockedRun) {
+        res.status(409).json({
+          message: `Commission is in locked payout period ${lockedRun.periodStart} to ${lockedRun.periodEnd}; record a reversal entry instead`,
+        });
+        return;
+      }
+
       const updatedCommission = await storage.updateCommission(id, updateData);
       res.json(updatedCommission);
     } catch (error) {
@@ -4818,7 +4941,7 @@ export async function registerRoutes(
         return;
       }
 
-      const { commissionId, originalAmount, requestedAmount, reason } =
+      const { commissionId, originalAmount, requestedAmount, reason, type } =
         req.body;
 
       if (!commissionId || !originalAmount || !requestedAmount || !reason) {
@@ -4826,6 +4949,50 @@ export async function registerRoutes(
         return;
       }
 
+      const commission = await storage.getCommission(parseInt(commissionId));
+      if (!commission) {
+        res.status(404).json({ message: "Commission not found" });
+        return;
+      }
+
+      // Locked periods keep their paid amounts; corrections are recorded as
+      // reversal entries and settled with the next payout run
+      const lockedRun = await lockedPayoutRunFor(commission);
+      if (type === "reversal") {
+        if (req.user.role !== "admin") {
+          res.status(403).json({ message: "Admin access required" });
+          return;
+        }
+        if (!lockedRun) {
+          res.status(400).json({
+            message:
+              "Reversal entries only apply to commissions in locked payout periods",
+          });
+          return;
+        }
+        const reversal = await storage.createCommissionAdjustment({
+          commissionId: commission.id,
+          requestedBy: req.user.id,
+          approvedBy: req.user.id,
+          originalAmount: commission.amount,
+          requestedAmount: String(parseFloat(requestedAmount).toFixed(2)),
+          finalAmount: String(parseFloat(requestedAmount).toFixed(2)),
+          reason,
+          type: "reversal",
+          status: "approved",
+          notes: `Reverses payout run #${lockedRun.id} (${lockedRun.periodStart} to ${lockedRun.periodEnd})`,
+          reviewedDate: new Date(),
+        });
+        res.json(reversal);
+        return;
+      }
+      if (lockedRun) {
+        res.status(409).json({
+          message: `Commission is in locked payout period ${lockedRun.periodStart} to ${lockedRun.periodEnd}; only reversal entries are accepted`,
+        });
+        return;
+      }
+
       // Determine adjustment type based on user role
       const adjustmentType = req.user.role === "admin" ? "direct" : "request";
       const status = req.user.role === "admin" ? "approved" : "pending";
@@ -4885,6 +5052,30 @@ export async function registerRoutes(
           return;
         }
 
+        const existing = (await storage.getAllCommissionAdjustments()).find(
+          (a) => a.id === id,
+        );
+        if (!existing) {
+          res.status(404).json({ message: "Adjustment not found" });
+          return;
+        }
+        const commission = await storage.getCommission(existing.commissionId);
+        const lockedRun = commission
+          ? await lockedPayoutRunFor(commission)
+          : undefined;
+        if (lockedRun && existing.type !== "reversal") {
+          res.status(409).json({
+            message: `Commission is in locked payout period ${lockedRun.periodStart} to ${lockedRun.periodEnd}; record a reversal entry instead`,
+          });
+          return;
+        }
+        if (existing.type === "reversal") {
+          res.status(409).json({
+            message: "Reversal entries are final once recorded",
+          });
+          return;
+        }
+
         const adjustment = await storage.updateCommissionAdjustmentStatus(
           id,
           status,
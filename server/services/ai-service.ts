@@ -1,14 +1,22 @@
 /**
- * AI Service (OpenAI Implementation)
+ * AI Service
  *
- * This is the "doorway" file for our AI integration.
- * If we ever switch from OpenAI to another provider, we only need to rewrite this file.
+ * This is the "doorway" file for our AI integration. Calls go through the
+ * LLM provider layer (./llm), which picks the provider and model for each
+ * feature, retries transient failures and records usage.
  */
 
-import OpenAI from "openai";
 import { cache } from "../cache";
 import { logger } from "../logger";
 import type { ServiceHealthResult } from "./index";
+import {
+  completeLlm,
+  getLlmProvider,
+  resolveLlmRoute,
+  streamLlm,
+  type LlmCompletion,
+  type LlmFeature,
+} from "./llm";
 
 export interface AIAnalysisResult {
   insights: string[];
@@ -20,74 +28,43 @@ export interface AIAnalysisResult {
 export interface AIGenerationOptions {
   maxTokens?: number;
   temperature?: number;
+  // Overrides the feature's routed model
   model?: string;
+  feature?: LlmFeature;
+  userId?: number | null;
 }
 
 export class AIService {
-  private client: OpenAI | null = null;
   private readonly CACHE_TTL = {
     ANALYSIS: 60 * 60, // 1 hour
     GENERATION: 30 * 60, // 30 minutes
   };
 
-  constructor() {
-    const aiDisabled =
-      process.env.DISABLE_AI === "1" ||
-      (process.env.DISABLE_AI || "").toLowerCase() === "true";
-    if (aiDisabled) {
-      logger.info("AI service disabled via DISABLE_AI flag");
-      this.client = null;
-      return;
-    }
-
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey) {
-      logger.warn("OPENAI_API_KEY not found; AI service will be unavailable");
-      this.client = null;
-      return;
-    }
-
-    this.client = new OpenAI({ apiKey });
-  }
-
   /**
    * Stream a chat completion and invoke onDelta with content chunks as they arrive.
    */
   async streamChat(
     prompt: string,
     options: AIGenerationOptions & { onDelta: (delta: string) => void },
-  ): Promise<void> {
-    if (!this.client) {
-      throw new Error(
-        process.env.DISABLE_AI
-          ? "AI disabled via DISABLE_AI"
-          : "AI service unavailable",
-      );
-    }
+  ): Promise<LlmCompletion> {
     const {
       onDelta,
-      model = "gpt-4o",
+      feature = "general",
       maxTokens = 1200,
       temperature = 0.4,
     } = options;
-    const client = this.client as OpenAI;
     try {
-      const stream = await client.chat.completions.create({
-        model,
-        messages: [{ role: "user", content: prompt }],
-        max_tokens: maxTokens,
-        temperature,
-        stream: true as any,
-      } as any);
-
-      // The OpenAI SDK returns an async iterable
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      for await (const chunk of stream as any) {
-        const delta = chunk?.choices?.[0]?.delta?.content;
-        if (typeof delta === "string" && delta.length) {
-          onDelta(delta);
-        }
-      }
+      return await streamLlm(
+        {
+          feature,
+          prompt,
+          model: options.model,
+          maxTokens,
+          temperature,
+          userId: options.userId,
+        },
+        onDelta,
+      );
     } catch (error: any) {
       logger.error("AI streamChat failed", { error: error?.message });
       throw error;
@@ -96,19 +73,18 @@ export class AIService {
 
   async healthCheck(): Promise<ServiceHealthResult> {
     const startTime = Date.now();
-    if (!this.client) {
+    const provider = getLlmProvider(resolveLlmRoute("general").provider);
+    const unavailable = provider.unavailableReason();
+    if (unavailable) {
       return {
         status: "degraded",
-        message: process.env.DISABLE_AI
-          ? "AI disabled via DISABLE_AI"
-          : "OPENAI_API_KEY missing",
+        message: unavailable,
         responseTime: Date.now() - startTime,
       };
     }
 
-    // Simple health check using models list (cheap call)
     try {
-      await this.client.models.list();
+      await provider.ping();
       return { status: "healthy", responseTime: Date.now() - startTime };
     } catch (error: any) {
       logger.error("AI health check failed", { error: error.message });
@@ -131,14 +107,6 @@ export class AIService {
     description?: string;
   }): Promise<AIAnalysisResult> {
     const cacheKey = `ai:analysis:${this.hashData(clientData)}`;
-    if (!this.client) {
-      throw new Error(
-        process.env.DISABLE_AI
-          ? "AI disabled via DISABLE_AI"
-          : "AI service unavailable",
-      );
-    }
-    const client = this.client as OpenAI;
 
     try {
       // Check cache first
@@ -169,14 +137,13 @@ Provide:
 
 Format as JSON with fields: insights (array), riskScore (number), recommendations (array), confidence (number)`;
 
-      const response = await client.chat.completions.create({
-        model: "gpt-4o",
-        messages: [{ role: "user", content: prompt }],
-        max_tokens: 1000,
+      const { text: content } = await completeLlm({
+        feature: "client_intel",
+        prompt,
+        maxTokens: 1000,
         temperature: 0.3,
       });
 
-      const content = response.choices[0]?.message?.content;
       if (!content) {
         throw new Error("No response from AI service");
       }
@@ -203,12 +170,6 @@ Format as JSON with fields: insights (array), riskScore (number), recommendation
         error: error.message,
       });
 
-      if (error.status === 429) {
-        logger.warn("AI rate limit hit during analysis", {
-          companyName: clientData.companyName,
-        });
-      }
-
       throw new Error(`AI analysis failed: ${error.message}`);
     }
   }
@@ -217,14 +178,10 @@ Format as JSON with fields: insights (array), riskScore (number), recommendation
     prompt: string,
     options: AIGenerationOptions = {},
   ): Promise<string> {
-    const cacheKey = `ai:generation:${this.hashString(prompt)}`;
-    if (!this.client) {
-      throw new Error(
-        process.env.DISABLE_AI
-          ? "AI disabled via DISABLE_AI"
-          : "AI service unavailable",
-      );
-    }
+    const feature = options.feature ?? "general";
+    const cacheKey = `ai:generation:${this.hashString(
+      `${feature}:${options.model ?? ""}:${prompt}`,
+    )}`;
 
     try {
       // Check cache first
@@ -236,14 +193,15 @@ Format as JSON with fields: insights (array), riskScore (number), recommendation
 
       logger.debug("AI content generation", { promptLength: prompt.length });
 
-      const response = await this.client.chat.completions.create({
-        model: options.model || "gpt-4o",
-        messages: [{ role: "user", content: prompt }],
-        max_tokens: options.maxTokens || 2000,
+      const { text: content } = await completeLlm({
+        feature,
+        prompt,
+        model: options.model,
+        maxTokens: options.maxTokens || 2000,
         temperature: options.temperature || 0.7,
+        userId: options.userId,
       });
 
-      const content = response.choices[0]?.message?.content;
       if (!content) {
         throw new Error("No response from AI service");
       }
@@ -254,10 +212,6 @@ Format as JSON with fields: insights (array), riskScore (number), recommendation
     } catch (error: any) {
       logger.error("AI content generation failed", { error: error.message });
 
-      if (error.status === 429) {
-        logger.warn("AI rate limit hit during generation");
-      }
-
       throw new Error(`AI generation failed: ${error.message}`);
     }
   }
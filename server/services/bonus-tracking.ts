@@ -7,6 +7,12 @@ import {
 } from "../../shared/schema.js";
 import { eq, and, desc } from "drizzle-orm";
 import { logger } from "../logger.js";
+import { loadCommissionPlanResolver } from "../commission-plans.js";
+import type {
+  MilestoneBonusTier,
+  MonthlyBonusTier,
+  ResolvedCommissionPlan,
+} from "../../shared/commission-plans.js";
 
 interface BonusEligibility {
   salesRepId: number;
@@ -24,9 +30,14 @@ export class BonusTrackingService {
     salesRepMetrics: BonusEligibility[],
   ): Promise<void> {
     const currentMonth = new Date().toISOString().slice(0, 7); // YYYY-MM format
+    const planFor = await loadCommissionPlanResolver();
 
     for (const rep of salesRepMetrics) {
-      await this.processMonthlyBonus(rep, currentMonth);
+      await this.processMonthlyBonus(
+        rep,
+        currentMonth,
+        planFor(rep.salesRepId),
+      );
     }
   }
 
@@ -36,6 +47,7 @@ export class BonusTrackingService {
   private async processMonthlyBonus(
     rep: BonusEligibility,
     month: string,
+    plan: ResolvedCommissionPlan,
   ): Promise<void> {
     try {
       // Check if bonus already awarded for this month
@@ -58,7 +70,10 @@ export class BonusTrackingService {
       }
 
       // Determine bonus eligibility
-      const bonusInfo = this.calculateMonthlyBonus(rep.clientsClosedThisMonth);
+      const bonusInfo = this.calculateMonthlyBonus(
+        rep.clientsClosedThisMonth,
+        plan.rules.monthlyBonusTiers,
+      );
 
       if (!bonusInfo) {
         return; // No bonus earned
@@ -72,7 +87,7 @@ export class BonusTrackingService {
           month,
           clientsClosedCount: rep.clientsClosedThisMonth,
           bonusAmount: bonusInfo.amount.toString(),
-          bonusType: bonusInfo.type,
+          bonusType: bonusInfo.bonusType,
           status: "pending",
           dateEarned: new Date(),
           notes: `${bonusInfo.description} - ${rep.clientsClosedThisMonth} clients closed in ${month}`,
@@ -88,6 +103,7 @@ export class BonusTrackingService {
         status: "pending",
         monthNumber: 1, // Bonuses are one-time payments
         serviceType: "bonus",
+        commissionPlanId: plan.planId,
         dateEarned: new Date(),
         notes: `Monthly bonus: ${bonusInfo.description}`,
       });
@@ -109,38 +125,24 @@ export class BonusTrackingService {
   async checkAndAwardMilestoneBonuses(
     salesRepMetrics: BonusEligibility[],
   ): Promise<void> {
+    const planFor = await loadCommissionPlanResolver();
+
     for (const rep of salesRepMetrics) {
-      await this.processMilestoneBonuses(rep);
+      await this.processMilestoneBonuses(rep, planFor(rep.salesRepId));
     }
   }
 
   /**
    * Process milestone bonuses for a specific sales rep
    */
-  private async processMilestoneBonuses(rep: BonusEligibility): Promise<void> {
+  private async processMilestoneBonuses(
+    rep: BonusEligibility,
+    plan: ResolvedCommissionPlan,
+  ): Promise<void> {
     try {
-      const milestones = [
-        { threshold: 25, amount: 1000, description: "Pro Level - 25 Clients" },
-        {
-          threshold: 40,
-          amount: 5000,
-          description: "Expert Level - 40 Clients",
-        },
-        {
-          threshold: 60,
-          amount: 7500,
-          description: "Master Level - 60 Clients",
-        },
-        {
-          threshold: 100,
-          amount: 10000,
-          description: "Elite Level - 100 Clients + Equity",
-        },
-      ];
-
-      for (const milestone of milestones) {
+      for (const milestone of plan.rules.milestoneBonuses) {
         if (rep.totalClientsAllTime >= milestone.threshold) {
-          await this.awardMilestoneBonus(rep, milestone);
+          await this.awardMilestoneBonus(rep, milestone, plan.planId);
         }
       }
     } catch (error) {
@@ -156,7 +158,8 @@ export class BonusTrackingService {
    */
   private async awardMilestoneBonus(
     rep: BonusEligibility,
-    milestone: any,
+    milestone: MilestoneBonusTier,
+    planId: number | null,
   ): Promise<void> {
     try {
       // Check if milestone already awarded
@@ -182,7 +185,7 @@ export class BonusTrackingService {
           salesRepId: rep.salesRepId,
           milestone: milestone.threshold,
           bonusAmount: milestone.amount.toString(),
-          includesEquity: milestone.threshold >= 100,
+          includesEquity: milestone.includesEquity,
           status: "pending",
           dateEarned: new Date(),
           notes: `${milestone.description} - ${rep.totalClientsAllTime} total clients`,
@@ -198,6 +201,7 @@ export class BonusTrackingService {
         status: "pending",
         monthNumber: 1, // Bonuses are one-time payments
         serviceType: "bonus",
+        commissionPlanId: planId,
         dateEarned: new Date(),
         notes: `Milestone bonus: ${milestone.description}`,
       });
@@ -214,29 +218,17 @@ export class BonusTrackingService {
   }
 
   /**
-   * Calculate monthly bonus based on clients closed
+   * Highest monthly bonus tier reached by clients closed
    */
   private calculateMonthlyBonus(
     clientsClosedThisMonth: number,
-  ): { amount: number; type: string; description: string } | null {
-    if (clientsClosedThisMonth >= 15) {
-      return {
-        amount: 1500,
-        type: "macbook_air",
-        description: "MacBook Air Bonus",
-      };
-    }
-    if (clientsClosedThisMonth >= 10) {
-      return {
-        amount: 1000,
-        type: "apple_watch",
-        description: "Apple Watch Bonus",
-      };
-    }
-    if (clientsClosedThisMonth >= 5) {
-      return { amount: 500, type: "airpods", description: "AirPods Bonus" };
-    }
-    return null;
+    tiers: MonthlyBonusTier[],
+  ): MonthlyBonusTier | null {
+    return (
+      [...tiers]
+        .sort((a, b) => b.minClients - a.minClients)
+        .find((t) => clientsClosedThisMonth >= t.minClients) ?? null
+    );
   }
 
   /**
@@ -39,17 +39,104 @@ export interface CRMDeal {
   hubspotId?: string; // Internal vendor ID
 }
 
+export type CRMEngagementType = "call" | "email" | "meeting" | "note";
+
+export interface CRMEngagement {
+  id: string;
+  type: CRMEngagementType;
+  title: string;
+  body?: string;
+  direction?: string;
+  timestamp: string;
+  ownerId?: string;
+}
+
 export interface CRMContactSearchResult {
   contacts: CRMContact[];
   total: number;
 }
 
+// HTML bodies (emails, notes) as short plain text
+function plainText(html?: string | null, max = 280): string | undefined {
+  const text = (html || "")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/&nbsp;/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+  if (!text) return undefined;
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
+
+function isoTimestamp(value?: string | null): string {
+  if (!value) return "";
+  const date = new Date(/^\d+$/.test(value) ? Number(value) : value);
+  return Number.isNaN(date.getTime()) ? "" : date.toISOString();
+}
+
+const ENGAGEMENT_OBJECTS: Array<{
+  objectType: string;
+  properties: string[];
+  toEngagement: (id: string, p: Record<string, any>) => CRMEngagement;
+}> = [
+  {
+    objectType: "calls",
+    properties: ["hs_call_title", "hs_call_body", "hs_call_direction"],
+    toEngagement: (id, p) => ({
+      id,
+      type: "call",
+      title: p.hs_call_title || "Call",
+      body: plainText(p.hs_call_body),
+      direction: p.hs_call_direction || undefined,
+      timestamp: isoTimestamp(p.hs_timestamp),
+      ownerId: p.hubspot_owner_id || undefined,
+    }),
+  },
+  {
+    objectType: "emails",
+    properties: ["hs_email_subject", "hs_email_text", "hs_email_direction"],
+    toEngagement: (id, p) => ({
+      id,
+      type: "email",
+      title: p.hs_email_subject || "Email",
+      body: plainText(p.hs_email_text),
+      direction: p.hs_email_direction || undefined,
+      timestamp: isoTimestamp(p.hs_timestamp),
+      ownerId: p.hubspot_owner_id || undefined,
+    }),
+  },
+  {
+    objectType: "meetings",
+    properties: ["hs_meeting_title", "hs_meeting_body"],
+    toEngagement: (id, p) => ({
+      id,
+      type: "meeting",
+      title: p.hs_meeting_title || "Meeting",
+      body: plainText(p.hs_meeting_body),
+      timestamp: isoTimestamp(p.hs_timestamp),
+      ownerId: p.hubspot_owner_id || undefined,
+    }),
+  },
+  {
+    objectType: "notes",
+    properties: ["hs_note_body"],
+    toEngagement: (id, p) => ({
+      id,
+      type: "note",
+      title: "Note",
+      body: plainText(p.hs_note_body),
+      timestamp: isoTimestamp(p.hs_timestamp),
+      ownerId: p.hubspot_owner_id || undefined,
+    }),
+  },
+];
+
 export class CRMService {
   private client: Client;
   private readonly CACHE_TTL = {
     CONTACT: 15 * 60, // 15 minutes
     SEARCH: 5 * 60, // 5 minutes
     DEALS: 5 * 60, // 5 minutes
+    ENGAGEMENTS: 5 * 60, // 5 minutes
   };
 
   constructor() {
@@ -354,6 +441,80 @@ export class CRMService {
     }
   }
 
+  // Calls, emails, meetings and notes associated with a contact, newest first
+  async getContactEngagements(
+    contactId: string,
+    limit = 50,
+  ): Promise<CRMEngagement[]> {
+    if (!this.client) {
+      throw new Error("CRM service not configured");
+    }
+
+    const hubspotId = contactId.startsWith("crm_")
+      ? contactId.slice(4)
+      : contactId;
+    const cacheKey = `crm:engagements:${hubspotId}:${limit}`;
+
+    try {
+      const cached = await cache.get<CRMEngagement[]>(cacheKey);
+      if (cached) {
+        logger.debug("CRM engagements cache hit", { contactId });
+        return cached;
+      }
+
+      const results = await Promise.all(
+        ENGAGEMENT_OBJECTS.map(async (object) => {
+          const response = await this.client.crm.objects.searchApi.doSearch(
+            object.objectType,
+            {
+              filterGroups: [
+                {
+                  filters: [
+                    {
+                      propertyName: "associations.contact",
+                      operator: "EQ" as any,
+                      value: hubspotId,
+                    },
+                  ],
+                },
+              ],
+              sorts: [
+                { propertyName: "hs_timestamp", direction: "DESCENDING" },
+              ],
+              properties: [
+                "hs_timestamp",
+                "hubspot_owner_id",
+                ...object.properties,
+              ],
+              limit,
+            } as any,
+          );
+          return (response.results || []).map((result: any) =>
+            object.toEngagement(result.id, result.properties || {}),
+          );
+        }),
+      );
+
+      const engagements = results
+        .flat()
+        .filter((e) => e.timestamp)
+        .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+        .slice(0, limit);
+      await cache.set(
+        cacheKey,
+        JSON.stringify(engagements),
+        this.CACHE_TTL.ENGAGEMENTS,
+      );
+      return engagements;
+    } catch (error: any) {
+      logger.error("CRM engagements lookup failed", {
+        contactId,
+        error: error.message,
+      });
+      throw new Error(`CRM engagements lookup failed: ${error.message}`);
+    }
+  }
+
   private hashEmail(email: string): string {
     // Simple hash for cache keys (not cryptographic)
     let hash = 0;
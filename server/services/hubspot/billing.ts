@@ -112,7 +112,7 @@ export function createBillingService(request: HubSpotRequestFn) {
           lineItemIds.map(async (lineItemId: string) => {
             try {
               return await request(
-                `/crm/v3/objects/line_items/${lineItemId}?properties=name,description,price,quantity,amount,hs_recurring_billing_period,hs_product_id`,
+                `/crm/v3/objects/line_items/${lineItemId}?properties=name,description,price,quantity,amount,recurringbillingfrequency,hs_recurring_billing_period,hs_product_id`,
               );
             } catch {
               return null;
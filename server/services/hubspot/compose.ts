@@ -1,8 +1,16 @@
 import {
-  calculateCombinedFees,
+  calculateQuotePricing,
+  type PricingConfig,
   type PricingData,
+  type QuotePricingInput,
   type CombinedFeeResult,
 } from "@shared/pricing";
+import {
+  parseLineItemDiscounts,
+  type AppliedLineItemDiscount,
+  type DiscountTotals,
+} from "@shared/pricing-discounts";
+import type { ContractTermResult } from "@shared/pricing-terms";
 
 export type ServiceTier =
   | "Automated"
@@ -41,8 +49,14 @@ export interface ServiceFees {
 
 export interface ServiceConfig {
   includes: ServiceFlags;
+  // Net of line-item discounts; list prices are on each discount entry
   fees: ServiceFees;
   tier: ServiceTier;
+  discounts: AppliedLineItemDiscount[];
+  discountTotals: DiscountTotals;
+  contractTerm: ContractTermResult;
+  // Full calculator result the fees above come from
+  pricing: CombinedFeeResult;
 }
 
 // Normalize a quote (DB row) into PricingData consumed by @shared/pricing
@@ -82,14 +96,22 @@ export function toPricingDataFromQuote(input: any): PricingData {
     // misc
     entityType: input?.entityType || undefined,
     bookkeepingQuality: input?.bookkeepingQuality || undefined,
+    lineItemDiscounts: parseLineItemDiscounts(
+      input?.lineItemDiscounts ?? input?.lineItemDiscountsJson,
+    ),
+    contractTerm: input?.contractTerm || undefined,
     // Monthly service toggles used by pricing engine (use legacy and new names)
     // Note: pricing engine checks these as any, but keeping here for clarity
     // serviceMonthlyBookkeeping, serviceTaasMonthly, serviceApArService, serviceArService, servicePayrollService, serviceAgentOfService, serviceCfoAdvisory
-    // These pass through via the "any" widening in calculateCombinedFees
+    // These pass through via the "any" widening in calculateQuotePricing
   } as PricingData & Record<string, any>;
 }
 
-export function buildServiceConfig(quote: any): ServiceConfig {
+// pricingConfig: the quote's pinned version config; defaults apply when omitted
+export function buildServiceConfig(
+  quote: any,
+  pricingConfig?: PricingConfig,
+): ServiceConfig {
   const pricingInput = toPricingDataFromQuote(quote);
   // Also pass through service toggles for backward-compat with the pricing engine
   (pricingInput as any).serviceMonthlyBookkeeping = Boolean(
@@ -116,7 +138,10 @@ export function buildServiceConfig(quote: any): ServiceConfig {
   );
   (pricingInput as any).serviceCfoAdvisory = Boolean(quote?.serviceCfoAdvisory);
 
-  const calc: CombinedFeeResult = calculateCombinedFees(pricingInput);
+  const calc: CombinedFeeResult = calculateQuotePricing(
+    pricingInput as QuotePricingInput,
+    pricingConfig,
+  );
 
   // Derive includes
   const includes: ServiceFlags = {
@@ -167,5 +192,9 @@ export function buildServiceConfig(quote: any): ServiceConfig {
     includes,
     fees,
     tier: (pricingInput as any).serviceTier,
+    discounts: calc.lineItemDiscounts,
+    discountTotals: calc.discountTotals,
+    contractTerm: calc.contractTerm,
+    pricing: calc,
   };
 }
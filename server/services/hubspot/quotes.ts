@@ -1,4 +1,15 @@
 import type { HubSpotRequestFn } from "./http.js";
+import {
+  describeDiscount,
+  type AppliedLineItemDiscount,
+  type DiscountLineKey,
+} from "@shared/pricing-discounts";
+import {
+  CONTRACT_TERM_LABELS,
+  describeContractTerm,
+  type BillingFrequency,
+  type ContractTermResult,
+} from "@shared/pricing-terms";
 
 type ProductIds = {
   MONTHLY_BOOKKEEPING: string;
@@ -18,6 +29,33 @@ type ProductIds = {
   AGENT_OF_SERVICE: string;
 };
 
+// A quote line item; discounted lines carry the list price plus a HubSpot
+// unit discount so the quote shows both
+type ServiceLine = {
+  price: number;
+  productId: string;
+  discount?: number;
+  note?: string;
+  // Recurring lines on a committed or prepaid contract term
+  billing?: LineBilling;
+};
+
+type LineBilling = {
+  frequency: BillingFrequency;
+  termMonths: number | null;
+};
+
+// HubSpot line item properties for a line's billing frequency and term
+function billingProperties(billing?: LineBilling): Record<string, string> {
+  if (!billing) return {};
+  return {
+    recurringbillingfrequency: billing.frequency,
+    ...(billing.termMonths
+      ? { hs_recurring_billing_period: `P${billing.termMonths}M` }
+      : {}),
+  };
+}
+
 export function createQuotesService(
   request: HubSpotRequestFn,
   deps: {
@@ -59,12 +97,77 @@ export function createQuotesService(
     }
   }
 
+  function lineItemDescription(name: string, discountNote?: string): string {
+    return discountNote
+      ? `Seed Financial - ${name} (${discountNote})`
+      : `Seed Financial - ${name}`;
+  }
+
+  // Build a line from the fee the quote calculated. quoteData.appliedLineItemDiscounts
+  // and quoteData.appliedContractTerm (set by the caller from the pricing result)
+  // restore the list price so discounts show on the line; lines with no price
+  // and no discount are skipped. Annual prepay bills recurring lines yearly.
+  function serviceLine(
+    quoteData: any,
+    key: DiscountLineKey,
+    productId: string,
+    price: number,
+  ): ServiceLine | null {
+    const applied: AppliedLineItemDiscount[] = (
+      quoteData?.appliedLineItemDiscounts || []
+    ).filter(
+      (d: AppliedLineItemDiscount) => `${d.service}:${d.appliesTo}` === key,
+    );
+    const first = applied[0];
+    if (!first && price <= 0) return null;
+
+    const terms: ContractTermResult | undefined =
+      quoteData?.appliedContractTerm;
+    const recurring = key.endsWith(":monthly");
+    const termPct = recurring ? (terms?.discountPct ?? 0) : 0;
+    const round = (n: number) => Math.round(n * 100) / 100;
+    // Lines without a line-item discount only know their post-term price
+    const listPrice = first
+      ? first.listPrice
+      : termPct > 0 && termPct < 100
+        ? round(price / (1 - termPct / 100))
+        : price;
+    const notes = applied.map(describeDiscount);
+    if (terms && termPct > 0) {
+      notes.push(`${termPct}% ${CONTRACT_TERM_LABELS[terms.term]} discount`);
+    }
+    const note = notes.length ? notes.join(", ") : undefined;
+    const billing: LineBilling | undefined =
+      recurring && terms && terms.term !== "monthly"
+        ? {
+            frequency: terms.billingFrequency,
+            termMonths: terms.commitmentMonths,
+          }
+        : undefined;
+    // Prepaid lines are priced per year
+    const periods = billing?.frequency === "annually" ? 12 : 1;
+
+    const amount = round(listPrice - price);
+    // Overrides that raise the price have nothing to show as a discount
+    if (amount <= 0) {
+      return { price: round(price * periods), productId, note, billing };
+    }
+    return {
+      price: round(listPrice * periods),
+      productId,
+      discount: round(amount * periods),
+      note,
+      billing,
+    };
+  }
+
   async function associateProductWithQuote(
     quoteId: string,
     productId: string,
     price: number,
     quantity: number,
     customName?: string,
+    extras?: Pick<ServiceLine, "discount" | "note" | "billing">,
   ): Promise<void> {
     const product = await request(`/crm/v3/objects/products/${productId}`);
     const nativeName = product?.properties?.name || "Service";
@@ -76,8 +179,10 @@ export function createQuotesService(
         quantity: quantity.toString(),
         hs_product_id: productId,
         hs_sku: product?.properties?.hs_sku || productId,
-        description: `Seed Financial - ${nativeName}`,
+        description: lineItemDescription(nativeName, extras?.note),
         ...(customName ? { name_override: customName } : {}),
+        ...(extras?.discount ? { discount: extras.discount.toString() } : {}),
+        ...billingProperties(extras?.billing),
       },
     } as any;
 
@@ -123,51 +228,48 @@ export function createQuotesService(
       // ignore cache issues
     }
 
-    const services: Array<{ price: number; productId: string }> = [];
+    const services: ServiceLine[] = [];
+    const quoteData = serviceConfig.quoteData;
+    const addLine = (key: DiscountLineKey, productId: string, price = 0) => {
+      const line = serviceLine(quoteData, key, productId, price);
+      if (line) services.push(line);
+    };
 
     if (serviceConfig.includesBookkeeping) {
-      const bookkeepingPrice = serviceConfig.bookkeepingMonthlyFee;
-      if (bookkeepingPrice > 0) {
-        services.push({
-          price: bookkeepingPrice,
-          productId: PRODUCT.MONTHLY_BOOKKEEPING,
-        });
-      }
-      const bookkeepingSetupFee = serviceConfig.bookkeepingSetupFee || 0;
-      if (bookkeepingSetupFee > 0) {
-        services.push({
-          price: bookkeepingSetupFee,
-          productId: PRODUCT.MONTHLY_BOOKKEEPING_SETUP,
-        });
-      }
+      addLine(
+        "bookkeeping:monthly",
+        PRODUCT.MONTHLY_BOOKKEEPING,
+        serviceConfig.bookkeepingMonthlyFee,
+      );
+      addLine(
+        "bookkeeping:setup",
+        PRODUCT.MONTHLY_BOOKKEEPING_SETUP,
+        serviceConfig.bookkeepingSetupFee || 0,
+      );
     }
 
     if (serviceConfig.includesTaas) {
-      const taasPrice = serviceConfig.taasMonthlyFee;
-      if (taasPrice > 0) {
-        services.push({ price: taasPrice, productId: PRODUCT.TAAS });
-      }
+      addLine("taas:monthly", PRODUCT.TAAS, serviceConfig.taasMonthlyFee);
     }
 
-    if (serviceConfig.cleanupProjectFee > 0) {
-      services.push({
-        price: serviceConfig.cleanupProjectFee,
-        productId: PRODUCT.CLEANUP_PROJECT,
-      });
-    }
+    addLine(
+      "cleanup:setup",
+      PRODUCT.CLEANUP_PROJECT,
+      serviceConfig.cleanupProjectFee,
+    );
 
-    if (serviceConfig.priorYearFilingsFee > 0) {
-      services.push({
-        price: serviceConfig.priorYearFilingsFee,
-        productId: PRODUCT.PRIOR_YEAR_FILINGS,
-      });
-    }
+    addLine(
+      "priorYearFilings:setup",
+      PRODUCT.PRIOR_YEAR_FILINGS,
+      serviceConfig.priorYearFilingsFee,
+    );
 
-    if (serviceConfig.includesPayroll && serviceConfig.payrollFee > 0) {
-      services.push({
-        price: serviceConfig.payrollFee,
-        productId: PRODUCT.PAYROLL_SERVICE,
-      });
+    if (serviceConfig.includesPayroll) {
+      addLine(
+        "payroll:monthly",
+        PRODUCT.PAYROLL_SERVICE,
+        serviceConfig.payrollFee,
+      );
     }
 
     if (serviceConfig.includesAP) {
@@ -175,8 +277,7 @@ export function createQuotesService(
         serviceConfig.apServiceTier === "advanced"
           ? PRODUCT.AP_ADVANCED_SERVICE
           : PRODUCT.AP_LITE_SERVICE;
-      if (serviceConfig.apFee > 0)
-        services.push({ price: serviceConfig.apFee, productId: apProductId });
+      addLine("ap:monthly", apProductId, serviceConfig.apFee);
     }
 
     if (serviceConfig.includesAR) {
@@ -184,26 +285,23 @@ export function createQuotesService(
         serviceConfig.arServiceTier === "advanced"
           ? PRODUCT.AR_ADVANCED_SERVICE
           : PRODUCT.AR_LITE_SERVICE;
-      if (serviceConfig.arFee > 0)
-        services.push({ price: serviceConfig.arFee, productId: arProductId });
+      addLine("ar:monthly", arProductId, serviceConfig.arFee);
     }
 
-    if (
-      serviceConfig.includesAgentOfService &&
-      serviceConfig.agentOfServiceFee > 0
-    ) {
-      services.push({
-        price: serviceConfig.agentOfServiceFee,
-        productId: PRODUCT.AGENT_OF_SERVICE,
-      });
+    if (serviceConfig.includesAgentOfService) {
+      addLine(
+        "agentOfService:setup",
+        PRODUCT.AGENT_OF_SERVICE,
+        serviceConfig.agentOfServiceFee,
+      );
     }
 
     if (serviceConfig.qboSubscription) {
-      const qboPrice = serviceConfig.qboFee || 60;
-      services.push({
-        price: qboPrice,
-        productId: PRODUCT.MANAGED_QBO_SUBSCRIPTION,
-      });
+      addLine(
+        "qbo:monthly",
+        PRODUCT.MANAGED_QBO_SUBSCRIPTION,
+        serviceConfig.qboFee || 60,
+      );
     }
 
     for (const s of services) {
@@ -213,6 +311,7 @@ export function createQuotesService(
         s.price,
         1,
         null as any,
+        s,
       );
     }
   }
@@ -224,8 +323,11 @@ export function createQuotesService(
       id: string;
       productId: string;
       price: number;
+      discount: number;
       quantity: number;
       name: string;
+      billingPeriod: string;
+      billingFrequency: string;
     }>
   > {
     const associations = await request(
@@ -237,14 +339,19 @@ export function createQuotesService(
       associations.results.map(async (association: any) => {
         try {
           const lineItem = await request(
-            `/crm/v3/objects/line_items/${association.toObjectId}?properties=name,price,quantity,hs_product_id,hs_sku`,
+            `/crm/v3/objects/line_items/${association.toObjectId}?properties=name,price,discount,quantity,hs_product_id,hs_sku,recurringbillingfrequency,hs_recurring_billing_period`,
           );
           return {
             id: lineItem.id,
             productId: lineItem.properties?.hs_product_id || "",
             price: parseFloat(lineItem.properties?.price || "0"),
+            discount: parseFloat(lineItem.properties?.discount || "0"),
             quantity: parseFloat(lineItem.properties?.quantity || "1"),
             name: lineItem.properties?.name || "Unknown Service",
+            billingFrequency:
+              lineItem.properties?.recurringbillingfrequency || "",
+            billingPeriod:
+              lineItem.properties?.hs_recurring_billing_period || "",
           };
         } catch {
           return null;
@@ -254,24 +361,45 @@ export function createQuotesService(
     return lineItems.filter((x) => x !== null) as any[];
   }
 
+  // Existing lines only carry billing terms when a committed term set them
+  function billingChanged(
+    existing: { billingFrequency: string; billingPeriod: string },
+    billing?: LineBilling,
+  ): boolean {
+    if (!billing) return Boolean(existing.billingPeriod);
+    const period = billing.termMonths ? `P${billing.termMonths}M` : "";
+    return (
+      existing.billingFrequency !== billing.frequency ||
+      existing.billingPeriod !== period
+    );
+  }
+
   function analyzeLineItemChanges(
     existingItems: Array<{
       id: string;
       productId: string;
       price: number;
+      discount: number;
       quantity: number;
       name: string;
+      billingPeriod: string;
+      billingFrequency: string;
     }>,
-    requiredServices: Array<{ price: number; productId: string }>,
+    requiredServices: ServiceLine[],
   ) {
     const toUpdate: Array<{
       id: string;
       productId: string;
+      name: string;
       oldPrice: number;
       newPrice: number;
+      discount: number;
+      note?: string;
+      billing?: LineBilling;
+      resetBilling?: boolean;
     }> = [];
     const toDelete: Array<{ id: string; productId: string; name: string }> = [];
-    const toAdd: Array<{ price: number; productId: string }> = [];
+    const toAdd: ServiceLine[] = [];
 
     const existingByProductId = new Map(
       existingItems.map((i) => [i.productId, i]),
@@ -288,12 +416,23 @@ export function createQuotesService(
           productId: existingItem.productId,
           name: existingItem.name,
         });
-      } else if (Math.abs(existingItem.price - requiredService.price) > 0.01) {
+      } else if (
+        Math.abs(existingItem.price - requiredService.price) > 0.01 ||
+        Math.abs(existingItem.discount - (requiredService.discount || 0)) >
+          0.01 ||
+        billingChanged(existingItem, requiredService.billing)
+      ) {
         toUpdate.push({
           id: existingItem.id,
           productId: existingItem.productId,
+          name: existingItem.name,
           oldPrice: existingItem.price,
           newPrice: requiredService.price,
+          discount: requiredService.discount || 0,
+          note: requiredService.note,
+          billing: requiredService.billing,
+          resetBilling:
+            !requiredService.billing && Boolean(existingItem.billingPeriod),
         });
       }
     }
@@ -312,11 +451,16 @@ export function createQuotesService(
       toUpdate: Array<{
         id: string;
         productId: string;
+        name: string;
         oldPrice: number;
         newPrice: number;
+        discount: number;
+        note?: string;
+        billing?: LineBilling;
+        resetBilling?: boolean;
       }>;
       toDelete: Array<{ id: string; productId: string; name: string }>;
-      toAdd: Array<{ price: number; productId: string }>;
+      toAdd: ServiceLine[];
     },
   ): Promise<boolean> {
     for (const update of changes.toUpdate) {
@@ -324,7 +468,19 @@ export function createQuotesService(
         await request(`/crm/v3/objects/line_items/${update.id}`, {
           method: "PATCH",
           body: JSON.stringify({
-            properties: { price: update.newPrice.toString() },
+            properties: {
+              price: update.newPrice.toString(),
+              discount: update.discount.toString(),
+              description: lineItemDescription(update.name, update.note),
+              ...billingProperties(update.billing),
+              // Lines moving back to month-to-month drop the committed term
+              ...(update.resetBilling
+                ? {
+                    recurringbillingfrequency: "monthly",
+                    hs_recurring_billing_period: "",
+                  }
+                : {}),
+            },
           }),
         });
       } catch {
@@ -350,6 +506,7 @@ export function createQuotesService(
           addition.price,
           1,
           null as any,
+          addition,
         );
       } catch {
         // continue other adds
@@ -359,6 +516,14 @@ export function createQuotesService(
     return true;
   }
 
+  function contractTermText(contractTerm?: ContractTermResult): string {
+    if (!contractTerm || contractTerm.term === "monthly") return "";
+    const commitment = `Contract term: ${describeContractTerm(contractTerm)}, ${contractTerm.commitmentMonths} months from the service start date.`;
+    return contractTerm.billingFrequency === "annually"
+      ? `${commitment} Recurring fees are billed annually in advance ($${contractTerm.prepayAmount.toLocaleString()} for the first year).`
+      : `${commitment} Recurring fees are billed monthly.`;
+  }
+
   function generatePaymentTerms(
     includesBookkeeping: boolean,
     includesTaas: boolean,
@@ -370,6 +535,7 @@ export function createQuotesService(
     includesCleanup?: boolean,
     includesPriorYears?: boolean,
     includesFpaBuild?: boolean,
+    contractTerm?: ContractTermResult,
   ): string {
     const baseTerms = `This Quote is the Order Form under Seed's MSA and the selected Service Schedule(s), which are incorporated by reference. By signing and paying, Client agrees to those documents. Pricing is based on the Assumptions listed above; material changes may adjust Bookkeeping fees prospectively per our right-sizing rule. Order of precedence: Quote → Schedule(s) → MSA. Governing law: California.
 
@@ -431,9 +597,9 @@ export function createQuotesService(
       added.add("A");
     }
 
-    return schedules.length > 0
-      ? `${baseTerms}\n${schedules.join("\n")}`
-      : baseTerms;
+    const termText = contractTermText(contractTerm);
+    const terms = termText ? `${termText}\n\n${baseTerms}` : baseTerms;
+    return schedules.length > 0 ? `${terms}\n${schedules.join("\n")}` : terms;
   }
 
   function generateScopeAssumptions(quoteData: any): string {
@@ -676,6 +842,7 @@ export function createQuotesService(
       (cleanupProjectFee || 0) > 0,
       (priorYearFilingsFee || 0) > 0,
       !!includesFpaBuild,
+      quoteData?.appliedContractTerm,
     );
 
     const quoteBody = {
@@ -739,6 +906,7 @@ export function createQuotesService(
         monthlyFee,
         setupFee,
         bookkeepingSetupFee,
+        quoteData,
       });
     } catch {
       // quote created without line items is acceptable
@@ -788,81 +956,74 @@ export function createQuotesService(
     if (!check || check.properties?.hs_status === "EXPIRED") return false;
 
     const existingItems = await fetchExistingLineItems(quoteId);
-    const requiredServices: Array<{ price: number; productId: string }> = [];
+    const requiredServices: ServiceLine[] = [];
+    const addLine = (key: DiscountLineKey, productId: string, price = 0) => {
+      const line = serviceLine(quoteData, key, productId, price);
+      if (line) requiredServices.push(line);
+    };
 
-    if (
-      includesBookkeeping &&
-      bookkeepingMonthlyFee &&
-      bookkeepingMonthlyFee > 0
-    ) {
-      requiredServices.push({
-        price: bookkeepingMonthlyFee,
-        productId: PRODUCT.MONTHLY_BOOKKEEPING,
-      });
-    }
-    if (includesBookkeeping && bookkeepingSetupFee && bookkeepingSetupFee > 0) {
-      requiredServices.push({
-        price: bookkeepingSetupFee,
-        productId: PRODUCT.MONTHLY_BOOKKEEPING_SETUP,
-      });
-    }
-    if (includesTaas && taasMonthlyFee && taasMonthlyFee > 0) {
-      requiredServices.push({ price: taasMonthlyFee, productId: PRODUCT.TAAS });
-    }
-    if (taasPriorYearsFee && taasPriorYearsFee > 0) {
-      requiredServices.push({
-        price: taasPriorYearsFee,
-        productId: PRODUCT.PRIOR_YEAR_FILINGS,
-      });
+    if (includesBookkeeping) {
+      addLine(
+        "bookkeeping:monthly",
+        PRODUCT.MONTHLY_BOOKKEEPING,
+        bookkeepingMonthlyFee,
+      );
+      addLine(
+        "bookkeeping:setup",
+        PRODUCT.MONTHLY_BOOKKEEPING_SETUP,
+        bookkeepingSetupFee,
+      );
     }
-    if (cleanupProjectFee && cleanupProjectFee > 0) {
-      requiredServices.push({
-        price: cleanupProjectFee,
-        productId: PRODUCT.CLEANUP_PROJECT,
-      });
+    if (includesTaas) {
+      addLine("taas:monthly", PRODUCT.TAAS, taasMonthlyFee);
     }
-    if (includesPayroll && payrollFee && payrollFee > 0) {
-      requiredServices.push({
-        price: payrollFee,
-        productId: PRODUCT.PAYROLL_SERVICE,
-      });
+    addLine(
+      "priorYearFilings:setup",
+      PRODUCT.PRIOR_YEAR_FILINGS,
+      taasPriorYearsFee,
+    );
+    addLine("cleanup:setup", PRODUCT.CLEANUP_PROJECT, cleanupProjectFee);
+    if (includesPayroll) {
+      addLine("payroll:monthly", PRODUCT.PAYROLL_SERVICE, payrollFee);
     }
-    if (includesAP && apFee && apFee > 0) {
+    if (includesAP) {
       const apProductId =
         quoteData?.apServiceTier === "advanced"
           ? PRODUCT.AP_ADVANCED_SERVICE
           : PRODUCT.AP_LITE_SERVICE;
-      requiredServices.push({ price: apFee, productId: apProductId });
+      addLine("ap:monthly", apProductId, apFee);
     }
-    if (includesAR && arFee && arFee > 0) {
+    if (includesAR) {
       const arProductId =
         quoteData?.arServiceTier === "advanced"
           ? PRODUCT.AR_ADVANCED_SERVICE
           : PRODUCT.AR_LITE_SERVICE;
-      requiredServices.push({ price: arFee, productId: arProductId });
+      addLine("ar:monthly", arProductId, arFee);
     }
-    if (includesAgentOfService && agentOfServiceFee && agentOfServiceFee > 0) {
-      requiredServices.push({
-        price: agentOfServiceFee,
-        productId: PRODUCT.AGENT_OF_SERVICE,
-      });
+    if (includesAgentOfService) {
+      addLine(
+        "agentOfService:setup",
+        PRODUCT.AGENT_OF_SERVICE,
+        agentOfServiceFee,
+      );
     }
-    if (includesCfoAdvisory && cfoAdvisoryFee && cfoAdvisoryFee > 0) {
-      requiredServices.push({
-        price: cfoAdvisoryFee,
-        productId: PRODUCT.CFO_ADVISORY_DEPOSIT,
-      });
+    if (includesCfoAdvisory) {
+      addLine(
+        "cfoAdvisory:setup",
+        PRODUCT.CFO_ADVISORY_DEPOSIT,
+        cfoAdvisoryFee,
+      );
     }
     // Note: No FPA Build product in HUBSPOT_PRODUCT_IDS; omit line item and keep terms/assumptions only
 
     // Service tier products disabled
 
     if (quoteData?.qboSubscription) {
-      const qboPrice = quoteData?.qboFee || 60;
-      requiredServices.push({
-        price: qboPrice,
-        productId: PRODUCT.MANAGED_QBO_SUBSCRIPTION,
-      });
+      addLine(
+        "qbo:monthly",
+        PRODUCT.MANAGED_QBO_SUBSCRIPTION,
+        quoteData?.qboFee || 60,
+      );
     }
 
     const changes = analyzeLineItemChanges(existingItems, requiredServices);
@@ -890,6 +1051,7 @@ export function createQuotesService(
       (quoteData?.cleanupProjectFee || 0) > 0,
       (quoteData?.priorYearFilingsFee || 0) > 0,
       !!quoteData?.includesFpaBuild,
+      quoteData?.appliedContractTerm,
     );
 
     const updateBody = {
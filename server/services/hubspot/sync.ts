@@ -1,11 +1,23 @@
 import { HubSpotService, hubSpotService as hsSingleton } from "../../hubspot";
-import { buildServiceConfig } from "./compose";
+import { buildServiceConfig, type ServiceConfig } from "./compose";
+import { pricingConfigService } from "../../pricing-config";
 import { hubspotLogger } from "../../logger";
 import { recordHubspotSync } from "../../metrics";
 import { appendModuleLog } from "../../logs-feed";
 
 export type SyncAction = "auto" | "create" | "update";
 
+// Service config priced with the quote's pinned pricing version, or the
+// live one for unpinned quotes
+export async function buildQuoteServiceConfig(
+  quote: any,
+): Promise<ServiceConfig> {
+  const { config } = await pricingConfigService.resolveQuotePricingConfig(
+    quote?.pricingConfigVersionId,
+  );
+  return buildServiceConfig(quote, config);
+}
+
 export interface SyncResult {
   success: boolean;
   mode: "create" | "update";
@@ -88,9 +100,15 @@ export async function syncQuoteToHubSpot(
     const ownerId = ownerEmail ? await svc.getOwnerByEmail(ownerEmail) : null;
 
     // Build consistent service config from our pricing engine
-    const config = buildServiceConfig(quote);
+    const config = await buildQuoteServiceConfig(quote);
     const includes = config.includes;
     const fees = config.fees;
+    // Line items show list price and discount separately
+    const quoteData = {
+      ...quote,
+      appliedLineItemDiscounts: config.discounts,
+      appliedContractTerm: config.contractTerm,
+    };
     log.debug(
       {
         quoteId,
@@ -212,7 +230,7 @@ export async function syncQuoteToHubSpot(
         /* prior years */ fees.priorYearFilings,
         /* bk monthly */ fees.bookkeepingMonthly,
         /* bk setup */ fees.bookkeepingSetup,
-        quote,
+        quoteData,
         (quote as any).serviceTier || "Standard",
         /* payroll */ includes.payroll,
         fees.payroll,
@@ -290,7 +308,7 @@ export async function syncQuoteToHubSpot(
       /* prior years */ fees.priorYearFilings,
       /* bk monthly */ fees.bookkeepingMonthly,
       /* bk setup */ fees.bookkeepingSetup,
-      quote,
+      quoteData,
       (quote as any).serviceTier || "Standard",
       /* payroll */ includes.payroll,
       fees.payroll,
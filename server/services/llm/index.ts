@@ -0,0 +1,293 @@
+/**
+ * LLM provider layer
+ *
+ * Every model call in the app goes through completeLlm/streamLlm with a
+ * feature name. The feature picks the provider and model (./routing.ts),
+ * calls are retried on rate limits, timeouts and 5xx responses, and each
+ * call's tokens and cost are recorded against the user and feature.
+ */
+
+import type { z } from "zod";
+import { logger } from "../../logger";
+import { createLlmProvider } from "./providers";
+import { llmCostUsd, resolveLlmRoute } from "./routing";
+import type {
+  LlmCompletion,
+  LlmProvider,
+  LlmProviderName,
+  LlmProviderRequest,
+  LlmRequest,
+  LlmRoute,
+  LlmUsage,
+  LlmUsageRecord,
+} from "./types";
+
+export * from "./types";
+export {
+  AnthropicProvider,
+  MockLlmProvider,
+  OpenAIProvider,
+  type MockLlmFixture,
+} from "./providers";
+export {
+  DEFAULT_LLM_ROUTES,
+  LLM_MODEL_PRICING,
+  llmCostUsd,
+  parseLlmRoutes,
+  resolveLlmRoute,
+} from "./routing";
+
+function envInt(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || "");
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+export const LLM_RETRY_POLICY = {
+  maxAttempts: envInt("LLM_MAX_ATTEMPTS", 3),
+  timeoutMs: envInt("LLM_TIMEOUT_MS", 60_000),
+  // Doubled after each failed attempt, plus up to 50% jitter
+  baseDelayMs: 500,
+};
+
+const providers = new Map<LlmProviderName, LlmProvider>();
+
+export function getLlmProvider(name: LlmProviderName): LlmProvider {
+  let provider = providers.get(name);
+  if (!provider) {
+    provider = createLlmProvider(name);
+    providers.set(name, provider);
+  }
+  return provider;
+}
+
+// Swap in a configured provider (e.g. a MockLlmProvider with fixtures)
+export function setLlmProvider(provider: LlmProvider): void {
+  providers.set(provider.name, provider);
+}
+
+export type LlmUsageRecorder = (record: LlmUsageRecord) => Promise<void>;
+
+// Storage is imported lazily so the layer (and its tests) load without a DB
+let usageRecorder: LlmUsageRecorder = async (record) => {
+  const { storage } = await import("../../storage");
+  await storage.recordLlmUsage({
+    ...record,
+    costUsd: record.costUsd === null ? null : record.costUsd.toFixed(6),
+  });
+};
+
+export function setLlmUsageRecorder(recorder: LlmUsageRecorder): void {
+  usageRecorder = recorder;
+}
+
+// Accounting must never fail the call it describes
+function recordUsage(record: LlmUsageRecord): void {
+  usageRecorder(record).catch((error: any) =>
+    logger.warn("[LLM] Failed to record usage", { error: error?.message }),
+  );
+}
+
+// Rate limits, timeouts, connection drops and server errors; not bad
+// requests or auth failures, which fail the same way every time
+export function isRetryableLlmError(error: any): boolean {
+  const status = typeof error?.status === "number" ? error.status : undefined;
+  if (status === undefined) return true;
+  return status === 408 || status === 409 || status === 429 || status >= 500;
+}
+
+function backoffMs(attempt: number): number {
+  const base = LLM_RETRY_POLICY.baseDelayMs * 2 ** (attempt - 1);
+  return base + Math.random() * base * 0.5;
+}
+
+function providerRequest(
+  request: LlmRequest,
+  route: LlmRoute,
+): LlmProviderRequest {
+  return {
+    model: request.model ?? route.model,
+    prompt: request.prompt,
+    system: request.system,
+    maxTokens: request.maxTokens ?? 2000,
+    temperature: request.temperature ?? 0.7,
+    json: request.json ?? false,
+  };
+}
+
+async function callWithRetry<T extends { usage: LlmUsage }>(
+  request: LlmRequest,
+  call: (provider: LlmProvider, providerReq: LlmProviderRequest) => Promise<T>,
+  canRetry: () => boolean = () => true,
+): Promise<T & { provider: LlmProviderName; model: string }> {
+  const route = resolveLlmRoute(request.feature);
+  const provider = getLlmProvider(route.provider);
+  const unavailable = provider.unavailableReason();
+  if (unavailable) throw new Error(unavailable);
+
+  const providerReq = providerRequest(request, route);
+  const started = Date.now();
+  const record = (
+    attempts: number,
+    usage: LlmUsage,
+    error: string | null,
+  ): void =>
+    recordUsage({
+      userId: request.userId ?? null,
+      feature: request.feature,
+      provider: provider.name,
+      model: providerReq.model,
+      inputTokens: usage.inputTokens,
+      outputTokens: usage.outputTokens,
+      costUsd: llmCostUsd(provider.name, providerReq.model, usage),
+      latencyMs: Date.now() - started,
+      attempts,
+      success: error === null,
+      error,
+    });
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const result = await call(provider, providerReq);
+      record(attempt, result.usage, null);
+      return { ...result, provider: provider.name, model: providerReq.model };
+    } catch (error: any) {
+      const retry =
+        attempt < LLM_RETRY_POLICY.maxAttempts &&
+        isRetryableLlmError(error) &&
+        canRetry();
+      logger.warn("[LLM] Call failed", {
+        feature: request.feature,
+        provider: provider.name,
+        model: providerReq.model,
+        attempt,
+        status: error?.status,
+        error: error?.message,
+        retrying: retry,
+      });
+      if (!retry) {
+        record(attempt, { inputTokens: 0, outputTokens: 0 }, error?.message);
+        throw new Error(`${provider.name} request failed: ${error?.message}`);
+      }
+      await new Promise((resolve) => setTimeout(resolve, backoffMs(attempt)));
+    }
+  }
+}
+
+export async function completeLlm(request: LlmRequest): Promise<LlmCompletion> {
+  return await callWithRetry(request, (provider, providerReq) =>
+    provider.complete(providerReq, {
+      timeoutMs: LLM_RETRY_POLICY.timeoutMs,
+    }),
+  );
+}
+
+/**
+ * Streamed completion. Only retried while nothing has been sent to onDelta;
+ * once output has started a failure is passed to the caller.
+ */
+export async function streamLlm(
+  request: LlmRequest,
+  onDelta: (delta: string) => void,
+): Promise<LlmCompletion> {
+  let text = "";
+  return await callWithRetry(
+    request,
+    async (provider, providerReq) => {
+      const usage = await provider.stream(
+        providerReq,
+        (delta) => {
+          text += delta;
+          onDelta(delta);
+        },
+        { timeoutMs: LLM_RETRY_POLICY.timeoutMs },
+      );
+      return { text, usage };
+    },
+    () => text.length === 0,
+  );
+}
+
+function stripCodeFences(text: string): string {
+  return text
+    .replace(/```json\s*\n?/g, "")
+    .replace(/```\s*$/g, "")
+    .trim();
+}
+
+// JSON completions: parsed object, or the error if the model returned junk
+export async function completeLlmJson<T = any>(
+  request: Omit<LlmRequest, "json">,
+): Promise<T> {
+  const completion = await completeLlm({ ...request, json: true });
+  return JSON.parse(stripCodeFences(completion.text) || "{}") as T;
+}
+
+export type LlmStructuredResult<T> =
+  | { ok: true; data: T; raw: string; model: string; repairs: number }
+  | { ok: false; error: string; raw: string; model: string; repairs: number };
+
+function validateOutput<S extends z.ZodTypeAny>(
+  raw: string,
+  schema: S,
+): { data: z.infer<S> } | { error: string } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(stripCodeFences(raw));
+  } catch {
+    return { error: "Response was not valid JSON" };
+  }
+  const result = schema.safeParse(parsed);
+  if (result.success) return { data: result.data };
+  return {
+    error: result.error.issues
+      .slice(0, 5)
+      .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+      .join("; "),
+  };
+}
+
+/**
+ * JSON completion validated against a zod schema. When the output doesn't
+ * parse or match, the model is shown its answer and the problems and asked
+ * to correct it, up to maxRepairs times. Provider errors still throw; an
+ * output that never validates comes back as ok: false with the last raw text.
+ */
+export async function completeLlmStructured<S extends z.ZodTypeAny>(
+  request: Omit<LlmRequest, "json">,
+  schema: S,
+  maxRepairs = 1,
+): Promise<LlmStructuredResult<z.infer<S>>> {
+  let completion = await completeLlm({ ...request, json: true });
+  for (let repairs = 0; ; repairs++) {
+    const raw = completion.text;
+    const output = validateOutput(raw, schema);
+    if ("data" in output) {
+      return {
+        ok: true,
+        data: output.data,
+        raw,
+        model: completion.model,
+        repairs,
+      };
+    }
+    const { error } = output;
+    if (repairs >= maxRepairs) {
+      return { ok: false, error, raw, model: completion.model, repairs };
+    }
+    logger.warn("[LLM] Structured output rejected, asking for a repair", {
+      feature: request.feature,
+      error,
+    });
+    completion = await completeLlm({
+      ...request,
+      json: true,
+      prompt: `${request.prompt}
+
+Your previous response was:
+${raw.slice(0, 4000)}
+
+It did not match the required format: ${error}
+Respond again with only the corrected JSON object.`,
+    });
+  }
+}
@@ -0,0 +1,295 @@
+/**
+ * LLM providers: OpenAI, Anthropic and a deterministic mock.
+ *
+ * Providers make one attempt with the given timeout and leave retries to
+ * the caller (see ./index.ts), so SDK-level retries are switched off.
+ */
+
+import Anthropic from "@anthropic-ai/sdk";
+import OpenAI from "openai";
+import type {
+  LlmCallOptions,
+  LlmProvider,
+  LlmProviderName,
+  LlmProviderRequest,
+  LlmProviderResult,
+  LlmUsage,
+} from "./types";
+
+function aiDisabled(): boolean {
+  return (
+    process.env.DISABLE_AI === "1" ||
+    (process.env.DISABLE_AI || "").toLowerCase() === "true"
+  );
+}
+
+export class OpenAIProvider implements LlmProvider {
+  readonly name = "openai" as const;
+  private client: OpenAI | null = null;
+
+  unavailableReason(): string | null {
+    if (aiDisabled()) return "AI disabled via DISABLE_AI";
+    if (!process.env.OPENAI_API_KEY) return "OPENAI_API_KEY missing";
+    return null;
+  }
+
+  private getClient(): OpenAI {
+    if (!this.client) {
+      this.client = new OpenAI({
+        apiKey: process.env.OPENAI_API_KEY,
+        maxRetries: 0,
+      });
+    }
+    return this.client;
+  }
+
+  async ping(): Promise<void> {
+    await this.getClient().models.list();
+  }
+
+  private messages(request: LlmProviderRequest) {
+    return [
+      ...(request.system
+        ? [{ role: "system" as const, content: request.system }]
+        : []),
+      { role: "user" as const, content: request.prompt },
+    ];
+  }
+
+  async complete(
+    request: LlmProviderRequest,
+    options: LlmCallOptions,
+  ): Promise<LlmProviderResult> {
+    const response = await this.getClient().chat.completions.create(
+      {
+        model: request.model,
+        messages: this.messages(request),
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        ...(request.json
+          ? { response_format: { type: "json_object" as const } }
+          : {}),
+      },
+      { timeout: options.timeoutMs },
+    );
+    return {
+      text: response.choices[0]?.message?.content ?? "",
+      usage: {
+        inputTokens: response.usage?.prompt_tokens ?? 0,
+        outputTokens: response.usage?.completion_tokens ?? 0,
+      },
+    };
+  }
+
+  async stream(
+    request: LlmProviderRequest,
+    onDelta: (delta: string) => void,
+    options: LlmCallOptions,
+  ): Promise<LlmUsage> {
+    const stream = await this.getClient().chat.completions.create(
+      {
+        model: request.model,
+        messages: this.messages(request),
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        stream: true,
+        stream_options: { include_usage: true },
+      },
+      { timeout: options.timeoutMs },
+    );
+    const usage: LlmUsage = { inputTokens: 0, outputTokens: 0 };
+    for await (const chunk of stream) {
+      const delta = chunk.choices?.[0]?.delta?.content;
+      if (typeof delta === "string" && delta.length) onDelta(delta);
+      if (chunk.usage) {
+        usage.inputTokens = chunk.usage.prompt_tokens;
+        usage.outputTokens = chunk.usage.completion_tokens;
+      }
+    }
+    return usage;
+  }
+}
+
+export class AnthropicProvider implements LlmProvider {
+  readonly name = "anthropic" as const;
+  private client: Anthropic | null = null;
+
+  unavailableReason(): string | null {
+    if (aiDisabled()) return "AI disabled via DISABLE_AI";
+    if (!process.env.ANTHROPIC_API_KEY) return "ANTHROPIC_API_KEY missing";
+    return null;
+  }
+
+  private getClient(): Anthropic {
+    if (!this.client) {
+      this.client = new Anthropic({
+        apiKey: process.env.ANTHROPIC_API_KEY,
+        maxRetries: 0,
+      });
+    }
+    return this.client;
+  }
+
+  async ping(): Promise<void> {
+    await this.getClient().models.list({ limit: 1 });
+  }
+
+  // Claude has no JSON mode, so JSON requests are steered by the system prompt
+  private system(request: LlmProviderRequest): string | undefined {
+    const jsonNote = request.json
+      ? "Respond with a single valid JSON object and no other text."
+      : "";
+    return [request.system, jsonNote].filter(Boolean).join("\n\n") || undefined;
+  }
+
+  async complete(
+    request: LlmProviderRequest,
+    options: LlmCallOptions,
+  ): Promise<LlmProviderResult> {
+    const response = await this.getClient().messages.create(
+      {
+        model: request.model,
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        system: this.system(request),
+        messages: [{ role: "user", content: request.prompt }],
+      },
+      { timeout: options.timeoutMs },
+    );
+    const text = response.content
+      .map((block) => (block.type === "text" ? block.text : ""))
+      .join("");
+    return {
+      text,
+      usage: {
+        inputTokens: response.usage.input_tokens,
+        outputTokens: response.usage.output_tokens,
+      },
+    };
+  }
+
+  async stream(
+    request: LlmProviderRequest,
+    onDelta: (delta: string) => void,
+    options: LlmCallOptions,
+  ): Promise<LlmUsage> {
+    const stream = await this.getClient().messages.create(
+      {
+        model: request.model,
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        system: this.system(request),
+        messages: [{ role: "user", content: request.prompt }],
+        stream: true,
+      },
+      { timeout: options.timeoutMs },
+    );
+    const usage: LlmUsage = { inputTokens: 0, outputTokens: 0 };
+    for await (const event of stream) {
+      if (event.type === "message_start") {
+        usage.inputTokens = event.message.usage.input_tokens;
+      } else if (event.type === "message_delta") {
+        usage.outputTokens = event.usage.output_tokens;
+      } else if (
+        event.type === "content_block_delta" &&
+        event.delta.type === "text_delta"
+      ) {
+        onDelta(event.delta.text);
+      }
+    }
+    return usage;
+  }
+}
+
+export interface MockLlmFixture {
+  // Matched against the system prompt and prompt together
+  match: RegExp | string;
+  text: string;
+}
+
+// Rough token count for the mock; real providers report exact usage
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Offline provider for tests and local development. Answers come from the
+ * first matching fixture; otherwise JSON requests get "{}" and text
+ * requests echo the prompt's first line, so output is deterministic.
+ * Queued errors are thrown by the next calls, for exercising retries.
+ */
+export class MockLlmProvider implements LlmProvider {
+  readonly name = "mock" as const;
+  readonly calls: LlmProviderRequest[] = [];
+  private fixtures: MockLlmFixture[];
+  private queuedErrors: Error[] = [];
+
+  constructor(fixtures: MockLlmFixture[] = []) {
+    this.fixtures = fixtures;
+  }
+
+  unavailableReason(): string | null {
+    return null;
+  }
+
+  async ping(): Promise<void> {}
+
+  addFixture(fixture: MockLlmFixture): void {
+    this.fixtures.push(fixture);
+  }
+
+  queueError(error: Error): void {
+    this.queuedErrors.push(error);
+  }
+
+  respond(request: LlmProviderRequest): string {
+    const haystack = `${request.system ?? ""}\n${request.prompt}`;
+    const fixture = this.fixtures.find((f) =>
+      typeof f.match === "string"
+        ? haystack.includes(f.match)
+        : f.match.test(haystack),
+    );
+    if (fixture) return fixture.text;
+    if (request.json) return "{}";
+    const firstLine = request.prompt.trim().split("\n")[0] ?? "";
+    return `[mock ${request.model}] ${firstLine.slice(0, 200)}`;
+  }
+
+  private take(request: LlmProviderRequest): LlmProviderResult {
+    this.calls.push(request);
+    const error = this.queuedErrors.shift();
+    if (error) throw error;
+    const text = this.respond(request);
+    return {
+      text,
+      usage: {
+        inputTokens: estimateTokens(`${request.system ?? ""}${request.prompt}`),
+        outputTokens: estimateTokens(text),
+      },
+    };
+  }
+
+  async complete(request: LlmProviderRequest): Promise<LlmProviderResult> {
+    return this.take(request);
+  }
+
+  async stream(
+    request: LlmProviderRequest,
+    onDelta: (delta: string) => void,
+  ): Promise<LlmUsage> {
+    const result = this.take(request);
+    for (const piece of result.text.match(/\S+\s*/g) ?? []) onDelta(piece);
+    return result.usage;
+  }
+}
+
+export function createLlmProvider(name: LlmProviderName): LlmProvider {
+  switch (name) {
+    case "openai":
+      return new OpenAIProvider();
+    case "anthropic":
+      return new AnthropicProvider();
+    case "mock":
+      return new MockLlmProvider();
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * Which provider and model serve each feature, and what they cost.
+ *
+ * Defaults live here; LLM_ROUTES overrides individual features
+ * ("client_intel=anthropic:claude-sonnet-4-20250514,general=openai:gpt-4o-mini")
+ * and LLM_PROVIDER=mock sends everything to the offline mock.
+ */
+
+import { logger } from "../../logger";
+import {
+  LLM_FEATURES,
+  LLM_PROVIDER_NAMES,
+  type LlmFeature,
+  type LlmProviderName,
+  type LlmRoute,
+  type LlmUsage,
+} from "./types";
+
+export const DEFAULT_LLM_ROUTES: Record<LlmFeature, LlmRoute> = {
+  assistant_sell: { provider: "openai", model: "gpt-4o-mini" },
+  assistant_support: { provider: "openai", model: "gpt-4o" },
+  client_intel: { provider: "openai", model: "gpt-4o" },
+  article_drafting: {
+    provider: "anthropic",
+    model: "claude-sonnet-4-20250514",
+  },
+  general: { provider: "openai", model: "gpt-4o" },
+};
+
+// USD per million tokens
+export const LLM_MODEL_PRICING: Record<
+  string,
+  { input: number; output: number }
+> = {
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "claude-sonnet-4-20250514": { input: 3, output: 15 },
+};
+
+// Null when the model isn't priced, so unknown spend isn't reported as $0
+export function llmCostUsd(
+  provider: LlmProviderName,
+  model: string,
+  usage: LlmUsage,
+): number | null {
+  if (provider === "mock") return 0;
+  const price = LLM_MODEL_PRICING[model];
+  if (!price) return null;
+  return (
+    (usage.inputTokens * price.input + usage.outputTokens * price.output) /
+    1_000_000
+  );
+}
+
+function isProviderName(value: string): value is LlmProviderName {
+  return (LLM_PROVIDER_NAMES as readonly string[]).includes(value);
+}
+
+function isFeature(value: string): value is LlmFeature {
+  return (LLM_FEATURES as readonly string[]).includes(value);
+}
+
+export function parseLlmRoutes(
+  raw: string | undefined,
+): Partial<Record<LlmFeature, LlmRoute>> {
+  const routes: Partial<Record<LlmFeature, LlmRoute>> = {};
+  for (const entry of (raw ?? "").split(",")) {
+    if (!entry.trim()) continue;
+    const [feature = "", target = ""] = entry.split("=").map((s) => s.trim());
+    const [provider = "", ...modelParts] = target.split(":");
+    const model = modelParts.join(":");
+    if (!isFeature(feature) || !isProviderName(provider) || !model) {
+      logger.warn("[LLM] Ignoring invalid LLM_ROUTES entry", { entry });
+      continue;
+    }
+    routes[feature] = { provider, model };
+  }
+  return routes;
+}
+
+// Parsed once per distinct value so a bad entry is warned about once
+let parsedRoutes: {
+  raw: string | undefined;
+  routes: Partial<Record<LlmFeature, LlmRoute>>;
+} | null = null;
+
+export function resolveLlmRoute(feature: LlmFeature): LlmRoute {
+  const raw = process.env.LLM_ROUTES;
+  if (!parsedRoutes || parsedRoutes.raw !== raw) {
+    parsedRoutes = { raw, routes: parseLlmRoutes(raw) };
+  }
+  const route = parsedRoutes.routes[feature] ?? DEFAULT_LLM_ROUTES[feature];
+  if (process.env.LLM_PROVIDER === "mock") {
+    return { provider: "mock", model: route.model };
+  }
+  return route;
+}
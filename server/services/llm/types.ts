@@ -0,0 +1,93 @@
+// Shared types for the LLM provider layer
+
+export const LLM_FEATURES = [
+  "assistant_sell",
+  "assistant_support",
+  "client_intel",
+  "article_drafting",
+  "general",
+] as const;
+export type LlmFeature = (typeof LLM_FEATURES)[number];
+
+export const LLM_PROVIDER_NAMES = ["openai", "anthropic", "mock"] as const;
+export type LlmProviderName = (typeof LLM_PROVIDER_NAMES)[number];
+
+export interface LlmRoute {
+  provider: LlmProviderName;
+  model: string;
+}
+
+export interface LlmUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+// What callers send; the feature decides provider and model
+export interface LlmRequest {
+  feature: LlmFeature;
+  prompt: string;
+  system?: string;
+  maxTokens?: number;
+  temperature?: number;
+  // Ask for a single JSON object back
+  json?: boolean;
+  // Attributed in usage accounting; omit for background jobs
+  userId?: number | null;
+  // Overrides the routed model (same provider)
+  model?: string;
+}
+
+// What providers receive, with defaults applied
+export interface LlmProviderRequest {
+  model: string;
+  prompt: string;
+  system?: string;
+  maxTokens: number;
+  temperature: number;
+  json: boolean;
+}
+
+export interface LlmCallOptions {
+  timeoutMs: number;
+}
+
+export interface LlmProviderResult {
+  text: string;
+  usage: LlmUsage;
+}
+
+export interface LlmProvider {
+  readonly name: LlmProviderName;
+  // Missing key or DISABLE_AI; calls would fail without reaching the API
+  unavailableReason(): string | null;
+  // Cheapest authenticated call, for health checks
+  ping(): Promise<void>;
+  complete(
+    request: LlmProviderRequest,
+    options: LlmCallOptions,
+  ): Promise<LlmProviderResult>;
+  stream(
+    request: LlmProviderRequest,
+    onDelta: (delta: string) => void,
+    options: LlmCallOptions,
+  ): Promise<LlmUsage>;
+}
+
+export interface LlmCompletion extends LlmProviderResult {
+  provider: LlmProviderName;
+  model: string;
+}
+
+export interface LlmUsageRecord {
+  userId: number | null;
+  feature: LlmFeature;
+  provider: LlmProviderName;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number | null;
+  latencyMs: number;
+  attempts: number;
+  success: boolean;
+  error: string | null;
+}
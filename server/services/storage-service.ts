@@ -3,10 +3,18 @@
  *
  * This is the "doorway" file for our cloud storage integration.
  * If we ever switch from Box to another provider, we only need to rewrite this file.
+ *
+ * Stored objects (putObject/getObject/deleteObject) go to Box in production
+ * and to local disk elsewhere; STORAGE_PROVIDER=box|local overrides that.
  */
 
 import BoxSDK from "box-node-sdk";
+import { randomBytes } from "crypto";
+import { constants, promises as fs } from "fs";
+import path from "path";
+import type { Readable } from "stream";
 import { logger } from "../logger";
+import { getErrorMessage } from "../utils/errors";
 import type { ServiceHealthResult } from "./index";
 
 export interface StorageFolder {
@@ -24,11 +32,54 @@ export interface StorageFile {
   folderId: string;
 }
 
+export type StorageProvider = "box" | "local";
+
+// A stored object; the key only means something to the provider that issued it
+export interface StoredObject {
+  provider: StorageProvider;
+  key: string;
+  size: number;
+}
+
+// Box SDK request errors carry the HTTP status and the API's response body
+type BoxRequestError = Error & {
+  statusCode?: number;
+  response?: {
+    body?: {
+      context_info?: { conflicts?: { id?: string } | { id?: string }[] };
+    };
+  };
+};
+
+function resolveStorageProvider(): StorageProvider {
+  const configured = (process.env.STORAGE_PROVIDER || "").toLowerCase();
+  if (configured === "box" || configured === "local") return configured;
+  return process.env.NODE_ENV === "production" ? "box" : "local";
+}
+
+// Keeps the original name readable without letting it pick the path
+function safeFileName(fileName: string): string {
+  return (
+    path
+      .basename(fileName)
+      .replace(/[^\w.\- ]+/g, "_")
+      .slice(-120) || "file"
+  );
+}
+
 export class StorageService {
   private client: any;
   private serviceAccountClient: any;
+  readonly provider: StorageProvider;
+  // Outside uploads/, which is served publicly
+  private localRoot: string;
 
   constructor() {
+    this.provider = resolveStorageProvider();
+    this.localRoot = path.resolve(
+      process.env.STORAGE_LOCAL_DIR || path.join(process.cwd(), ".storage"),
+    );
+
     const boxDisabled =
       process.env.DISABLE_BOX === "1" ||
       (process.env.DISABLE_BOX || "").toLowerCase() === "true";
@@ -93,6 +144,24 @@ export class StorageService {
   async healthCheck(): Promise<ServiceHealthResult> {
     const startTime = Date.now();
 
+    if (this.provider === "local") {
+      try {
+        await fs.mkdir(this.localRoot, { recursive: true });
+        await fs.access(this.localRoot, constants.W_OK);
+        return {
+          status: "healthy",
+          message: "Local disk storage",
+          responseTime: Date.now() - startTime,
+        };
+      } catch (error) {
+        return {
+          status: "unhealthy",
+          message: `Local storage not writable: ${getErrorMessage(error)}`,
+          responseTime: Date.now() - startTime,
+        };
+      }
+    }
+
     try {
       // Check if service is configured
       if (
@@ -310,4 +379,111 @@ export class StorageService {
       throw new Error(`Download URL generation failed: ${error.message}`);
     }
   }
+
+  async putObject(
+    folder: string,
+    fileName: string,
+    content: Buffer,
+  ): Promise<StoredObject> {
+    const name = `${Date.now()}-${randomBytes(4).toString("hex")}-${safeFileName(fileName)}`;
+    if (this.provider === "local") {
+      const key = path.posix.join(safeFileName(folder), name);
+      const filePath = this.localPath(key);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, content);
+      return { provider: "local", key, size: content.length };
+    }
+
+    this.requireBox();
+    const folderId = await this.ensureBoxFolder(
+      safeFileName(folder),
+      process.env.STORAGE_BOX_ROOT_FOLDER_ID || "0",
+    );
+    const file = await this.uploadFile(name, content, folderId);
+    return { provider: "box", key: file.id, size: content.length };
+  }
+
+  async getObject(object: Omit<StoredObject, "size">): Promise<Buffer> {
+    if (object.provider === "local") {
+      return await fs.readFile(this.localPath(object.key));
+    }
+
+    this.requireBox();
+    try {
+      const stream: Readable =
+        await this.serviceAccountClient.files.getReadStream(object.key);
+      const chunks: Buffer[] = [];
+      for await (const chunk of stream) chunks.push(Buffer.from(chunk));
+      return Buffer.concat(chunks);
+    } catch (error) {
+      logger.error("Storage object read failed", {
+        key: object.key,
+        error: getErrorMessage(error),
+      });
+      throw new Error(`Storage read failed: ${getErrorMessage(error)}`);
+    }
+  }
+
+  // Deleting an object that is already gone is not an error
+  async deleteObject(object: Omit<StoredObject, "size">): Promise<void> {
+    if (object.provider === "local") {
+      await fs.rm(this.localPath(object.key), { force: true });
+      return;
+    }
+
+    this.requireBox();
+    try {
+      await this.serviceAccountClient.files.delete(object.key);
+    } catch (error) {
+      if ((error as BoxRequestError).statusCode === 404) return;
+      logger.error("Storage object delete failed", {
+        key: object.key,
+        error: getErrorMessage(error),
+      });
+      throw new Error(`Storage delete failed: ${getErrorMessage(error)}`);
+    }
+  }
+
+  private localPath(key: string): string {
+    const filePath = path.resolve(this.localRoot, key);
+    if (!filePath.startsWith(this.localRoot + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+
+  private requireBox(): void {
+    if (!this.serviceAccountClient) {
+      throw new Error("Box storage is not configured");
+    }
+  }
+
+  // Box rejects duplicate folder names with a 409 naming the existing folder
+  private async ensureBoxFolder(
+    name: string,
+    parentFolderId: string,
+  ): Promise<string> {
+    try {
+      const folder = await this.serviceAccountClient.folders.create(
+        parentFolderId,
+        name,
+      );
+      return folder.id;
+    } catch (error) {
+      const { statusCode, response } = error as BoxRequestError;
+      const conflicts = response?.body?.context_info?.conflicts;
+      const existing = Array.isArray(conflicts)
+        ? conflicts[0]?.id
+        : conflicts?.id;
+      if (statusCode === 409 && existing) return existing;
+      logger.error("Storage folder lookup failed", {
+        name,
+        parentFolderId,
+        error: getErrorMessage(error),
+      });
+      throw new Error(
+        `Storage folder creation failed: ${getErrorMessage(error)}`,
+      );
+    }
+  }
 }
@@ -106,6 +106,83 @@ export async function sendSystemAlert(
   }
 }
 
+/**
+ * Send a quote approval request to admins with approve/reject links into the
+ * approval queue (decisions are made there, behind admin login)
+ */
+export async function sendApprovalRequestAlert(request: {
+  id: number;
+  typeLabel: string;
+  contactEmail: string;
+  requesterEmail: string;
+  reason: string;
+  maxDiscountPct?: number;
+  quoteId?: number | null;
+}): Promise<void> {
+  const queueUrl = `${process.env.APP_URL || "https://app.seedfinancial.io"}/admin/approvals?request=${request.id}`;
+  try {
+    await sendSlackMessage({
+      text: `:raised_hand: Approval requested: ${request.typeLabel} for ${request.contactEmail}`,
+      blocks: [
+        {
+          type: "header",
+          text: {
+            type: "plain_text",
+            text: `Approval Request #${request.id}: ${request.typeLabel}`,
+          },
+        },
+        {
+          type: "section",
+          fields: [
+            { type: "mrkdwn", text: `*Contact:* ${request.contactEmail}` },
+            {
+              type: "mrkdwn",
+              text: `*Requested by:* ${request.requesterEmail}`,
+            },
+            ...(request.maxDiscountPct !== undefined
+              ? [
+                  {
+                    type: "mrkdwn",
+                    text: `*Discount:* ${request.maxDiscountPct}%`,
+                  },
+                ]
+              : []),
+            ...(request.quoteId
+              ? [{ type: "mrkdwn", text: `*Quote:* #${request.quoteId}` }]
+              : []),
+          ],
+        },
+        {
+          type: "section",
+          text: { type: "mrkdwn", text: `*Reason:*\n${request.reason}` },
+        },
+        {
+          type: "actions",
+          elements: [
+            {
+              type: "button",
+              style: "primary",
+              text: { type: "plain_text", text: "Approve" },
+              url: `${queueUrl}&decision=approve`,
+            },
+            {
+              type: "button",
+              style: "danger",
+              text: { type: "plain_text", text: "Reject" },
+              url: `${queueUrl}&decision=reject`,
+            },
+          ],
+        },
+      ],
+    });
+  } catch (error) {
+    slackLogger.error(
+      { error, approvalRequestId: request.id },
+      "Failed to send approval request alert",
+    );
+  }
+}
+
 /**
  * Send BullMQ job failure alert
  */
@@ -0,0 +1,200 @@
+/**
+ * Statement of work documents
+ * Renders each service's SOW template (calculator service content, with
+ * defaults) against a quote and writes it out as .docx or PDF. Templates are
+ * light Markdown: "#" headings, "-" / "*" list items and plain paragraphs.
+ */
+
+import {
+  AlignmentType,
+  Document,
+  HeadingLevel,
+  Packer,
+  Paragraph,
+  TextRun,
+} from "docx";
+import { storage } from "./storage";
+import { savedQuotePricing } from "./quote-options";
+import { createPdfLayout, type PdfLayout } from "./pdf-layout";
+import {
+  DEFAULT_AGREEMENT_LINKS,
+  DEFAULT_INCLUDED_FIELDS,
+  SERVICE_KEYS_DB,
+  getDefaultSowTemplate,
+  getDefaultSowTitle,
+} from "./calculator-defaults";
+import type { Quote } from "@shared/schema";
+import {
+  renderQuoteSows,
+  type SowDocument,
+  type SowServiceContent,
+} from "@shared/sow-template";
+
+export type SowFormat = "docx" | "pdf";
+
+// Stored flags over the defaults, one level deep like the admin editor
+function includedFields(json: string | null | undefined): Record<string, any> {
+  let stored: Record<string, any> = {};
+  try {
+    stored = json ? JSON.parse(json) : {};
+  } catch {
+    stored = {};
+  }
+  const merged: Record<string, any> = { ...DEFAULT_INCLUDED_FIELDS };
+  for (const [group, flags] of Object.entries(stored ?? {})) {
+    merged[group] =
+      flags && typeof flags === "object"
+        ? { ...merged[group], ...flags }
+        : flags;
+  }
+  return merged;
+}
+
+// Admin-edited content where set, calculator defaults otherwise
+export async function loadSowContent(): Promise<SowServiceContent[]> {
+  const items = await storage.getAllCalculatorServiceContent();
+  return SERVICE_KEYS_DB.map((service) => {
+    const item = items.find((i) => i.service === service);
+    return {
+      service,
+      sowTitle: item?.sowTitle?.trim() || getDefaultSowTitle(service),
+      sowTemplate: item?.sowTemplate?.trim() || getDefaultSowTemplate(service),
+      agreementLink:
+        item?.agreementLink?.trim() || DEFAULT_AGREEMENT_LINKS[service],
+      includedFields: includedFields(item?.includedFieldsJson),
+    };
+  });
+}
+
+// One SOW per service on the quote
+export async function loadQuoteSows(quote: Quote): Promise<SowDocument[]> {
+  const [pricing, content] = await Promise.all([
+    savedQuotePricing(quote),
+    loadSowContent(),
+  ]);
+  return renderQuoteSows(quote, pricing, content);
+}
+
+type SowBlock =
+  | { kind: "heading"; text: string }
+  | { kind: "item"; text: string }
+  | { kind: "text"; text: string }
+  | { kind: "gap" };
+
+// The template's own top heading repeats the SOW title, so it's dropped
+function sowBlocks(sow: SowDocument): SowBlock[] {
+  return sow.body.split("\n").flatMap((raw): SowBlock[] => {
+    const line = raw.trim();
+    if (!line) return [{ kind: "gap" }];
+    if (line.startsWith("#")) {
+      const text = line.replace(/^#+\s*/, "");
+      return text === sow.title ? [] : [{ kind: "heading", text }];
+    }
+    if (/^[-*]\s+/.test(line)) {
+      return [{ kind: "item", text: line.replace(/^[-*]\s+/, "") }];
+    }
+    return [{ kind: "text", text: line }];
+  });
+}
+
+function drawSowBody(layout: PdfLayout, sow: SowDocument) {
+  for (const block of sowBlocks(sow)) {
+    if (block.kind === "gap") layout.nextLine(6);
+    else if (block.kind === "heading") {
+      layout.paragraph(block.text, { f: layout.bold });
+    } else if (block.kind === "item") {
+      layout.paragraph(`• ${block.text}`, { indent: 10 });
+    } else layout.paragraph(block.text, { indent: 10 });
+  }
+  if (sow.agreementLink) {
+    layout.paragraph(`Service schedule: ${sow.agreementLink}`, {
+      indent: 10,
+      grey: true,
+    });
+  }
+}
+
+// One SOW at the layout's cursor; the proposal PDF stacks these
+export function drawSowSection(layout: PdfLayout, sow: SowDocument) {
+  layout.text(sow.title, layout.margin, { size: 11, f: layout.bold });
+  layout.nextLine(16);
+  drawSowBody(layout, sow);
+  layout.nextLine(8);
+}
+
+export async function renderSowPdf(
+  sow: SowDocument,
+  companyName: string,
+): Promise<Uint8Array> {
+  const layout = await createPdfLayout();
+  layout.text("Seed Financial", layout.margin, {
+    size: 11,
+    f: layout.bold,
+    brand: true,
+  });
+  layout.nextLine(16);
+  layout.text(companyName, layout.margin, { grey: true });
+  layout.heading(sow.title);
+  drawSowBody(layout, sow);
+  return await layout.save();
+}
+
+export async function renderSowDocx(
+  sow: SowDocument,
+  companyName: string,
+): Promise<Buffer> {
+  const children = [
+    new Paragraph({
+      alignment: AlignmentType.CENTER,
+      heading: HeadingLevel.TITLE,
+      children: [new TextRun({ text: sow.title, bold: true })],
+    }),
+    new Paragraph({
+      alignment: AlignmentType.CENTER,
+      children: [new TextRun({ text: companyName, size: 22 })],
+    }),
+    ...sowBlocks(sow).map((block) => {
+      if (block.kind === "heading") {
+        return new Paragraph({
+          heading: HeadingLevel.HEADING_2,
+          children: [new TextRun({ text: block.text })],
+        });
+      }
+      if (block.kind === "item") {
+        return new Paragraph({
+          bullet: { level: 0 },
+          children: [new TextRun({ text: block.text, size: 22 })],
+        });
+      }
+      return new Paragraph({
+        children: [
+          new TextRun({
+            text: block.kind === "text" ? block.text : "",
+            size: 22,
+          }),
+        ],
+      });
+    }),
+  ];
+  if (sow.agreementLink) {
+    children.push(
+      new Paragraph({
+        children: [
+          new TextRun({
+            text: `Service schedule: ${sow.agreementLink}`,
+            size: 20,
+            italics: true,
+          }),
+        ],
+      }),
+    );
+  }
+  return await Packer.toBuffer(new Document({ sections: [{ children }] }));
+}
+
+export const sowFileName = (
+  quote: Pick<Quote, "id" | "companyName">,
+  sow: SowDocument,
+  format: SowFormat,
+) =>
+  `${(quote.companyName || `Quote-${quote.id}`).replace(/[^A-Za-z0-9]+/g, "-")}_${sow.service}_SOW.${format}`;
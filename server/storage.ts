@@ -1,9 +1,11 @@
 import {
   users,
   quotes,
-  approvalCodes,
+  approvalRequests,
+  approvalRequestEvents,
   kbCategories,
   kbArticles,
+  kbArticleVersions,
   kbBookmarks,
   kbSearchHistory,
   workspaceUsers,
@@ -13,6 +15,14 @@ import {
   commissionAdjustments,
   monthlyBonuses,
   milestoneBonuses,
+  commissionPlans,
+  salesRepCommissionPlans,
+  commissionPayoutRuns,
+  commissionPayoutStatements,
+  hubspotInvoices,
+  hubspotInvoiceLineItems,
+  hubspotSubscriptions,
+  commissionProductMappings,
   pricingBase,
   pricingIndustryMultipliers,
   pricingRevenueMultipliers,
@@ -20,17 +30,37 @@ import {
   pricingServiceSettings,
   pricingTiers,
   pricingHistory,
+  pricingConfigVersions,
+  promoCodes,
   calculatorServiceContent,
+  assistantIndexChunks,
+  assistantBoxFolders,
+  assistantConversations,
+  assistantMessages,
+  assistantMessageFeedback,
+  llmUsage,
+  clientIntelProfiles,
+  clientDocuments,
+  clientActivities,
+  quoteRevisions,
+  quotePricingOptions,
+  quoteProposals,
+  quoteProposalViews,
   type User,
   type InsertUser,
   type Quote,
   type InsertQuote,
-  type ApprovalCode,
-  type InsertApprovalCode,
+  type QuoteRevision,
+  type QuotePricingOption,
+  type QuoteProposal,
+  type ApprovalRequest,
+  type InsertApprovalRequest,
+  type ApprovalRequestEvent,
   type KbCategory,
   type InsertKbCategory,
   type KbArticle,
   type InsertKbArticle,
+  type KbArticleVersion,
   type KbBookmark,
   type InsertKbBookmark,
   type KbSearchHistory,
@@ -49,6 +79,19 @@ import {
   type InsertMonthlyBonus,
   type MilestoneBonus,
   type InsertMilestoneBonus,
+  type CommissionPlan,
+  type InsertCommissionPlan,
+  type SalesRepCommissionPlan,
+  type CommissionPayoutRun,
+  type InsertCommissionPayoutRun,
+  type CommissionPayoutStatement,
+  type InsertCommissionPayoutStatement,
+  type HubspotInvoice,
+  type HubspotInvoiceLineItem,
+  type HubspotSubscription,
+  type CommissionProductMapping,
+  type InsertCommissionProductMapping,
+  type InsertSalesRepCommissionPlan,
   type PricingBase,
   type InsertPricingBase,
   type PricingIndustryMultiplier,
@@ -63,14 +106,69 @@ import {
   type InsertPricingTier,
   type PricingHistory,
   type InsertPricingHistory,
+  type PricingConfigVersion,
+  type InsertPricingConfigVersion,
+  type PromoCode,
+  type InsertPromoCode,
   type CalculatorServiceContent,
   type InsertCalculatorServiceContent,
+  type AssistantIndexChunk,
+  type InsertAssistantIndexChunk,
+  type AssistantBoxFolder,
+  type InsertAssistantBoxFolder,
+  type AssistantConversation,
+  type InsertAssistantConversation,
+  type AssistantMessage,
+  type InsertAssistantMessage,
+  type AssistantMessageFeedback,
+  type InsertAssistantMessageFeedback,
+  type InsertLlmUsage,
+  type ClientIntelProfile,
+  type InsertClientIntelProfile,
+  type ClientDocument,
+  type InsertClientDocument,
+  type ClientActivity,
+  type InsertClientActivity,
   type updateQuoteSchema,
   type UpdateProfile,
 } from "@shared/schema";
+import type { ApprovalEventAction } from "@shared/approvals";
+import {
+  filterKbSearchMatches,
+  kbSearchFacets,
+  KB_SNIPPET_END,
+  KB_SNIPPET_START,
+  type KbContentGap,
+  type KbSearchFilters,
+  type KbSearchMatch,
+  type KbSearchResponse,
+  type KbSearchResult,
+} from "@shared/kb";
+import type { AssistantSourceType } from "@shared/assistant-retrieval";
+import type {
+  AssistantMode,
+  LowRatedAssistantAnswer,
+} from "@shared/assistant-conversations";
+import type { ClientDocumentListItem } from "@shared/client-documents";
+import { quoteSnapshot } from "@shared/quote-revisions";
 import { db } from "./db";
-import { safeDbQuery } from "./db-utils";
-import { eq, like, desc, asc, sql, and } from "drizzle-orm";
+import { safeDbQuery, StorageConflictError } from "./db-utils";
+import {
+  eq,
+  like,
+  desc,
+  asc,
+  sql,
+  and,
+  inArray,
+  isNull,
+  count,
+  lte,
+  notInArray,
+  or,
+  ne,
+  gte,
+} from "drizzle-orm";
 import type { z } from "zod";
 import session from "express-session";
 import MemoryStore from "memorystore";
@@ -121,9 +219,70 @@ export interface IStorage {
     profilePhoto: string | null,
   ): Promise<void>;
 
-  // Quote methods - now filtered by owner
-  createQuote(quote: InsertQuote): Promise<Quote>;
-  updateQuote(quote: UpdateQuote): Promise<Quote>;
+  // Quote methods - now filtered by owner. Saves record a quote revision;
+  // editedBy is the user behind the save (null for system writes)
+  // Approvals passed with a save are used by it, in the same transaction
+  createQuote(
+    quote: InsertQuote,
+    editedBy?: number | null,
+    approvalRequestIds?: number[],
+  ): Promise<Quote>;
+  updateQuote(
+    quote: UpdateQuote,
+    editedBy?: number | null,
+    approvalRequestIds?: number[],
+  ): Promise<Quote>;
+  getQuoteRevisions(quoteId: number): Promise<QuoteRevisionRecord[]>;
+  getQuoteRevision(
+    quoteId: number,
+    revision: number,
+  ): Promise<QuoteRevisionRecord | undefined>;
+  // Pricing options shown alongside a quote; selecting one writes the
+  // quote update and marks the option chosen in one transaction
+  getQuotePricingOptions(quoteId: number): Promise<QuotePricingOption[]>;
+  getQuotePricingOption(id: number): Promise<QuotePricingOption | undefined>;
+  createQuotePricingOption(option: {
+    quoteId: number;
+    name: string;
+    position: number;
+    overridesJson: string;
+    createdBy: number | null;
+  }): Promise<QuotePricingOption>;
+  updateQuotePricingOption(
+    id: number,
+    update: { name?: string; overridesJson?: string },
+  ): Promise<QuotePricingOption>;
+  deleteQuotePricingOption(id: number): Promise<void>;
+  selectQuotePricingOption(
+    id: number,
+    quoteUpdate: UpdateQuote,
+    selectedBy: number,
+    approvalRequestIds?: number[],
+  ): Promise<Quote>;
+  // Proposal links; creating the first one marks a draft quote sent and
+  // accepting marks it accepted
+  getQuoteProposals(quoteId: number): Promise<QuoteProposalRecord[]>;
+  getQuoteProposal(id: number): Promise<QuoteProposal | undefined>;
+  getQuoteProposalByToken(token: string): Promise<QuoteProposal | undefined>;
+  createQuoteProposal(proposal: {
+    quoteId: number;
+    token: string;
+    expiresAt: Date;
+    createdBy: number;
+  }): Promise<QuoteProposal>;
+  revokeQuoteProposal(id: number): Promise<QuoteProposal>;
+  recordQuoteProposalView(
+    proposalId: number,
+    view: { ipAddress: string | null; userAgent: string | null },
+  ): Promise<void>;
+  acceptQuoteProposal(
+    id: number,
+    acceptance: {
+      name: string;
+      optionId: number | null;
+      ipAddress: string | null;
+    },
+  ): Promise<QuoteProposal>;
   archiveQuote(id: number): Promise<Quote>;
   getQuotesByEmail(email: string): Promise<Quote[]>;
   getQuote(id: number): Promise<Quote | undefined>;
@@ -134,11 +293,33 @@ export interface IStorage {
     sortOrder?: "asc" | "desc",
   ): Promise<Quote[]>;
   getQuotesByOwner(ownerId: number): Promise<Quote[]>;
-
-  // Approval code methods
-  createApprovalCode(approvalCode: InsertApprovalCode): Promise<ApprovalCode>;
-  validateApprovalCode(code: string, email: string): Promise<boolean>;
-  markApprovalCodeUsed(code: string, email: string): Promise<void>;
+  getActiveQuotes(): Promise<Quote[]>;
+
+  // Approval request methods
+  createApprovalRequest(
+    request: InsertApprovalRequest,
+  ): Promise<ApprovalRequest>;
+  getApprovalRequest(id: number): Promise<ApprovalRequest | undefined>;
+  getApprovalRequests(filter?: {
+    status?: string;
+    quoteId?: number;
+  }): Promise<ApprovalRequest[]>;
+  getApprovalRequestEvents(
+    requestIds: number[],
+  ): Promise<ApprovalRequestEvent[]>;
+  decideApprovalRequest(
+    id: number,
+    decision: {
+      approved: boolean;
+      approverId: number;
+      note?: string;
+      expiresAt: Date;
+    },
+  ): Promise<ApprovalRequest | undefined>;
+  cancelApprovalRequest(
+    id: number,
+    actorId: number,
+  ): Promise<ApprovalRequest | undefined>;
 
   // Knowledge Base methods
   // Categories
@@ -159,23 +340,147 @@ export interface IStorage {
   ): Promise<KbArticle[]>;
   getKbArticle(id: number): Promise<KbArticle | undefined>;
   getKbArticleBySlug(slug: string): Promise<KbArticle | undefined>;
-  createKbArticle(article: InsertKbArticle): Promise<KbArticle>;
+  createKbArticle(
+    article: InsertKbArticle,
+    changeNote?: string | null,
+  ): Promise<KbArticle>;
   updateKbArticle(
     id: number,
     article: Partial<InsertKbArticle>,
+    revision?: KbArticleRevision,
   ): Promise<KbArticle>;
+  getKbArticleVersions(
+    articleId: number,
+  ): Promise<Array<KbArticleVersion & { authorName: string | null }>>;
+  getKbArticleVersion(
+    articleId: number,
+    versionId: number,
+  ): Promise<KbArticleVersion | undefined>;
   deleteKbArticle(id: number): Promise<void>;
+  archiveKbArticle(id: number): Promise<void>;
+  undeleteKbArticle(id: number): Promise<void>;
   incrementArticleViews(id: number): Promise<void>;
 
   // Search
-  searchKbArticles(query: string, userId?: number): Promise<KbArticle[]>;
+  searchKbArticles(
+    query: string,
+    filters?: KbSearchFilters,
+  ): Promise<KbSearchResponse>;
   recordKbSearch(search: InsertKbSearchHistory): Promise<KbSearchHistory>;
+  getUserKbSearchHistory(
+    userId: number,
+    limit?: number,
+  ): Promise<KbSearchHistory[]>;
+  getKbContentGaps(sinceDays?: number, limit?: number): Promise<KbContentGap[]>;
 
   // Bookmarks
   getUserKbBookmarks(userId: number): Promise<KbBookmark[]>;
   createKbBookmark(bookmark: InsertKbBookmark): Promise<KbBookmark>;
   deleteKbBookmark(userId: number, articleId: number): Promise<void>;
 
+  // Seed Assistant retrieval index
+  getAssistantIndexChunks(
+    embeddingModel: string,
+    sourceTypes: AssistantSourceType[],
+  ): Promise<AssistantIndexChunk[]>;
+  getAssistantSourceHash(
+    sourceType: AssistantSourceType,
+    sourceId: string,
+    embeddingModel: string,
+  ): Promise<string | undefined>;
+  replaceAssistantSourceChunks(
+    sourceType: AssistantSourceType,
+    sourceId: string,
+    chunks: InsertAssistantIndexChunk[],
+  ): Promise<void>;
+  deleteAssistantSourceChunks(
+    sourceType: AssistantSourceType,
+    sourceId: string,
+  ): Promise<void>;
+  getAssistantIndexedBoxFileIds(folderId: string): Promise<string[]>;
+  getAssistantIndexStats(): Promise<AssistantIndexStats[]>;
+  getAssistantBoxFolders(): Promise<AssistantBoxFolder[]>;
+  getAssistantBoxFolder(id: number): Promise<AssistantBoxFolder | undefined>;
+  createAssistantBoxFolder(
+    folder: InsertAssistantBoxFolder,
+  ): Promise<AssistantBoxFolder>;
+  updateAssistantBoxFolder(
+    id: number,
+    update: Pick<AssistantBoxFolder, "lastIndexedAt" | "lastIndexError">,
+  ): Promise<void>;
+  deleteAssistantBoxFolder(id: number): Promise<void>;
+
+  // Seed Assistant conversations
+  getUserAssistantConversations(
+    userId: number,
+    mode?: AssistantMode,
+  ): Promise<AssistantConversation[]>;
+  getAssistantConversation(
+    id: number,
+  ): Promise<AssistantConversation | undefined>;
+  getAssistantConversationByShareToken(
+    shareToken: string,
+  ): Promise<AssistantConversation | undefined>;
+  createAssistantConversation(
+    conversation: InsertAssistantConversation,
+  ): Promise<AssistantConversation>;
+  updateAssistantConversation(
+    id: number,
+    update: Partial<Pick<AssistantConversation, "title" | "shareToken">>,
+  ): Promise<AssistantConversation>;
+  deleteAssistantConversation(id: number): Promise<void>;
+  getAssistantMessages(conversationId: number): Promise<AssistantMessage[]>;
+  getAssistantMessage(id: number): Promise<AssistantMessage | undefined>;
+  addAssistantMessage(
+    message: InsertAssistantMessage,
+  ): Promise<AssistantMessage>;
+  getAssistantMessageFeedback(
+    conversationId: number,
+    userId: number,
+  ): Promise<AssistantMessageFeedback[]>;
+  upsertAssistantMessageFeedback(
+    feedback: InsertAssistantMessageFeedback,
+  ): Promise<AssistantMessageFeedback>;
+  getLowRatedAssistantAnswers(
+    sinceDays?: number,
+    limit?: number,
+  ): Promise<LowRatedAssistantAnswer[]>;
+
+  // LLM usage accounting
+  recordLlmUsage(usage: InsertLlmUsage): Promise<void>;
+  getLlmUsageSummary(sinceDays?: number): Promise<LlmUsageSummary[]>;
+
+  // Client intelligence profiles
+  getClientIntelProfileByEmail(
+    contactEmail: string,
+  ): Promise<ClientIntelProfile | undefined>;
+  saveClientIntelProfile(
+    profile: InsertClientIntelProfile,
+  ): Promise<ClientIntelProfile>;
+  getClientIntelProfile(id: number): Promise<ClientIntelProfile | undefined>;
+
+  // Client document vault
+  getClientDocuments(
+    clientProfileId: number,
+  ): Promise<ClientDocumentListItem[]>;
+  getClientDocument(id: number): Promise<ClientDocument | undefined>;
+  createClientDocument(document: InsertClientDocument): Promise<ClientDocument>;
+  updateClientDocument(
+    id: number,
+    changes: Partial<InsertClientDocument> & { summarizedAt?: Date | null },
+  ): Promise<ClientDocument | undefined>;
+  deleteClientDocument(id: number): Promise<void>;
+
+  // Client activity timeline
+  createClientActivity(activity: InsertClientActivity): Promise<ClientActivity>;
+  getClientActivities(clientProfileId: number): Promise<ClientActivityRecord[]>;
+  getApprovalEventsForContact(
+    contactEmail: string,
+  ): Promise<ContactApprovalEvent[]>;
+  getCommissionEventsForContact(
+    contactEmail: string,
+  ): Promise<ContactCommissionEvent[]>;
+
   // Workspace Users - synced from Google Admin API
   getAllWorkspaceUsers(): Promise<WorkspaceUser[]>;
   getWorkspaceUserByEmail(email: string): Promise<WorkspaceUser | undefined>;
@@ -213,6 +518,7 @@ export interface IStorage {
   getAllCommissions(salesRepId?: number): Promise<Commission[]>;
   getCommissionsBySalesRep(salesRepId: number): Promise<Commission[]>;
   getCommissionsByDeal(dealId: number): Promise<Commission[]>;
+  getCommission(id: number): Promise<Commission | undefined>;
   createCommission(commission: InsertCommission): Promise<Commission>;
   updateCommission(
     id: number,
@@ -253,6 +559,67 @@ export interface IStorage {
     bonus: Partial<InsertMilestoneBonus>,
   ): Promise<MilestoneBonus>;
 
+  // Commission plans
+  getCommissionPlans(): Promise<CommissionPlan[]>;
+  getCommissionPlan(id: number): Promise<CommissionPlan | undefined>;
+  createCommissionPlan(plan: InsertCommissionPlan): Promise<CommissionPlan>;
+  updateCommissionPlan(
+    id: number,
+    plan: Partial<InsertCommissionPlan>,
+  ): Promise<CommissionPlan>;
+  countCommissionsForPlan(planId: number): Promise<number>;
+  getSalesRepCommissionPlans(
+    salesRepId?: number,
+  ): Promise<SalesRepCommissionPlan[]>;
+  assignCommissionPlan(
+    assignment: InsertSalesRepCommissionPlan,
+  ): Promise<SalesRepCommissionPlan>;
+
+  // Commission payout runs
+  getPayoutRuns(): Promise<CommissionPayoutRun[]>;
+  getPayoutRun(id: number): Promise<CommissionPayoutRun | undefined>;
+  getUnpaidCommissionsEarnedBefore(before: Date): Promise<Commission[]>;
+  getUnsettledReversals(): Promise<CommissionAdjustment[]>;
+  getHubspotInvoicesWithLineItems(
+    ids: number[],
+  ): Promise<Array<HubspotInvoice & { lineItems: HubspotInvoiceLineItem[] }>>;
+  lockPayoutRun(
+    run: InsertCommissionPayoutRun,
+    statements: Omit<InsertCommissionPayoutStatement, "payoutRunId">[],
+    commissionIds: number[],
+    reversalIds: number[],
+  ): Promise<CommissionPayoutRun>;
+  markPayoutRunPaid(id: number, paidBy: number): Promise<CommissionPayoutRun>;
+  getPayoutStatements(
+    payoutRunId: number,
+  ): Promise<CommissionPayoutStatement[]>;
+
+  // Commission clawbacks
+  getCancelledHubspotSubscriptions(): Promise<HubspotSubscription[]>;
+  getCancelledHubspotInvoices(statuses: string[]): Promise<HubspotInvoice[]>;
+  getCommissionsForClawbackSource(source: {
+    hubspotInvoiceId?: number;
+    hubspotSubscriptionId?: number;
+    hubspotDealId?: string | null;
+  }): Promise<Commission[]>;
+  getClawbackCommissions(): Promise<Commission[]>;
+  createClawbackCommissions(entries: InsertCommission[]): Promise<Commission[]>;
+
+  // Commission product mappings
+  getCommissionProductMappings(): Promise<CommissionProductMapping[]>;
+  upsertCommissionProductMapping(
+    mapping: InsertCommissionProductMapping,
+  ): Promise<CommissionProductMapping>;
+  deleteCommissionProductMapping(id: number): Promise<boolean>;
+  getInvoiceLineItemsWithInvoice(): Promise<
+    Array<
+      HubspotInvoiceLineItem & {
+        invoiceNumber: string | null;
+        companyName: string | null;
+      }
+    >
+  >;
+
   // Pricing Configuration Methods
   // Base pricing
   getAllPricingBase(): Promise<PricingBase[]>;
@@ -330,6 +697,37 @@ export interface IStorage {
     tableAffected?: string,
     recordId?: number,
   ): Promise<PricingHistory[]>;
+  recordPricingHistory(entry: InsertPricingHistory): Promise<PricingHistory>;
+
+  // Pricing config versions
+  getPricingConfigVersions(): Promise<PricingConfigVersion[]>;
+  getPublishedPricingConfigVersions(): Promise<PricingConfigVersion[]>;
+  getPricingConfigVersion(id: number): Promise<PricingConfigVersion | undefined>;
+  createPricingConfigVersion(
+    version: Omit<InsertPricingConfigVersion, "version" | "status">,
+  ): Promise<PricingConfigVersion>;
+  updatePricingConfigVersionDraft(
+    id: number,
+    updateData: Partial<
+      Pick<InsertPricingConfigVersion, "label" | "notes" | "configJson">
+    >,
+  ): Promise<PricingConfigVersion>;
+  deletePricingConfigVersionDraft(id: number): Promise<void>;
+  publishPricingConfigVersion(
+    id: number,
+    effectiveFrom: Date,
+    publishedBy: number,
+  ): Promise<PricingConfigVersion>;
+
+  // Promo codes
+  getPromoCodes(): Promise<PromoCode[]>;
+  getPromoCodeByCode(code: string): Promise<PromoCode | undefined>;
+  createPromoCode(promo: InsertPromoCode): Promise<PromoCode>;
+  updatePromoCode(
+    id: number,
+    updateData: Partial<InsertPromoCode>,
+  ): Promise<PromoCode>;
+  redeemPromoCode(id: number): Promise<boolean>;
 
   // Calculator Service Content methods
   getAllCalculatorServiceContent(): Promise<CalculatorServiceContent[]>;
@@ -344,6 +742,167 @@ export interface IStorage {
   ): Promise<CalculatorServiceContent>;
 }
 
+// Who made a KB article save and why, for its version history
+export interface KbArticleRevision {
+  authorId: number;
+  changeNote?: string | null;
+}
+
+// Indexed sources and chunks per source type and embedding model
+export interface AssistantIndexStats {
+  sourceType: AssistantSourceType;
+  embeddingModel: string;
+  sources: number;
+  chunks: number;
+  lastIndexedAt: Date | null;
+}
+
+// A client_activities row with the name of who performed it
+export interface ClientActivityRecord extends ClientActivity {
+  userName: string | null;
+}
+
+// Approval audit events on a contact's quotes, for the client timeline
+export interface ContactApprovalEvent {
+  id: number;
+  approvalRequestId: number;
+  requestType: string;
+  quoteId: number | null;
+  action: string;
+  note: string | null;
+  actorName: string | null;
+  createdAt: Date;
+}
+
+// Commissions on deals with a contact; amounts are left out on purpose
+export interface ContactCommissionEvent {
+  id: number;
+  type: string;
+  status: string;
+  serviceType: string | null;
+  dealName: string;
+  salesRepName: string | null;
+  dateEarned: Date;
+}
+
+// LLM calls, tokens and spend per user, feature and model
+export interface LlmUsageSummary {
+  userId: number | null;
+  userName: string | null;
+  feature: string;
+  provider: string;
+  model: string;
+  calls: number;
+  failures: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  // Successful calls to models without a price; their cost isn't included
+  unpricedCalls: number;
+}
+
+export type QuoteRevisionRecord = QuoteRevision & {
+  editorName: string | null;
+};
+
+export type QuoteProposalRecord = QuoteProposal & {
+  viewCount: number;
+  lastViewedAt: Date | null;
+  acceptedOptionName: string | null;
+};
+
+// Writes the quote's next revision unless nothing changed since the latest
+// one. A quote saved before revisions were kept gets its prior state as
+// revision 1 first, so its first edit can still be compared.
+async function recordQuoteRevision(
+  tx: any,
+  quote: Quote,
+  editedBy: number | null,
+  before?: Quote,
+): Promise<void> {
+  const revisionOf = (row: Quote) => ({
+    quoteId: row.id,
+    snapshotJson: JSON.stringify(quoteSnapshot(row)),
+    pricingBreakdownJson: row.pricingBreakdownJson ?? null,
+    monthlyFee: row.monthlyFee,
+    setupFee: row.setupFee,
+    hubspotQuoteId: row.hubspotQuoteId ?? null,
+  });
+  const [latest]: QuoteRevision[] = await tx
+    .select()
+    .from(quoteRevisions)
+    .where(eq(quoteRevisions.quoteId, quote.id))
+    .orderBy(desc(quoteRevisions.revision))
+    .limit(1);
+  let revision = latest?.revision ?? 0;
+  if (!latest && before) {
+    revision = 1;
+    await tx
+      .insert(quoteRevisions)
+      .values({ ...revisionOf(before), revision, editedBy: null });
+  }
+
+  const next = revisionOf(quote);
+  const unchanged = latest
+    ? latest.snapshotJson === next.snapshotJson &&
+      latest.pricingBreakdownJson === next.pricingBreakdownJson
+    : before && JSON.stringify(quoteSnapshot(before)) === next.snapshotJson;
+  if (unchanged) return;
+  await tx
+    .insert(quoteRevisions)
+    .values({ ...next, revision: revision + 1, editedBy });
+}
+
+// Uses approved requests for the quote save they were checked against, so a
+// save that fails leaves them usable and two saves can't both use one.
+// Throws (rolling the save back) when one was used or expired meanwhile.
+async function useApprovalRequests(
+  tx: any,
+  ids: number[],
+  actorId: number | null,
+  quoteId: number,
+): Promise<void> {
+  const now = new Date();
+  for (const id of ids) {
+    const [used]: ApprovalRequest[] = await tx
+      .update(approvalRequests)
+      .set({ status: "used", usedAt: now, updatedAt: now, quoteId })
+      .where(
+        and(
+          eq(approvalRequests.id, id),
+          eq(approvalRequests.status, "approved"),
+          sql`(${approvalRequests.expiresAt} IS NULL OR ${approvalRequests.expiresAt} > NOW())`,
+        ),
+      )
+      .returning();
+    if (!used) {
+      throw new StorageConflictError(
+        "Approval has already been used or expired",
+      );
+    }
+    await tx.insert(approvalRequestEvents).values({
+      approvalRequestId: id,
+      action: "used",
+      actorId,
+      note: `Quote #${quoteId}`,
+    });
+  }
+}
+
+// Concurrent draft creation retries on a taken version number this many times
+const PRICING_VERSION_CREATE_ATTEMPTS = 5;
+
+// Postgres unique_violation, raised directly by pg or wrapped by drizzle
+function isUniqueViolation(error: unknown): boolean {
+  const err = error as { code?: string; cause?: { code?: string } } | null;
+  return err?.code === "23505" || err?.cause?.code === "23505";
+}
+
+// KB search: matches considered for ranking and facets, and the minimum
+// trigram word similarity for the typo-tolerant fallback
+const KB_SEARCH_MAX_MATCHES = 200;
+const KB_FUZZY_THRESHOLD = 0.4;
+
 export class DatabaseStorage implements IStorage {
   sessionStore!: session.Store;
 
@@ -760,7 +1319,11 @@ export class DatabaseStorage implements IStorage {
     }, "updateUserDefaultDashboard");
   }
 
-  async createQuote(insertQuote: InsertQuote): Promise<Quote> {
+  async createQuote(
+    insertQuote: InsertQuote,
+    editedBy: number | null = null,
+    approvalRequestIds: number[] = [],
+  ): Promise<Quote> {
     return await safeDbQuery(async () => {
       console.log(
         "🔵 Storage.createQuote - START - Inserting quote for:",
@@ -776,7 +1339,22 @@ export class DatabaseStorage implements IStorage {
       });
 
       console.log("🔵 EXECUTING DATABASE INSERT...");
-      const result = await db.insert(quotes).values(insertQuote).returning();
+      const result: Quote[] = await db.transaction(async (tx: typeof db) => {
+        const inserted: Quote[] = await tx
+          .insert(quotes)
+          .values(insertQuote)
+          .returning();
+        if (inserted[0]) {
+          await recordQuoteRevision(tx, inserted[0], editedBy);
+          await useApprovalRequests(
+            tx,
+            approvalRequestIds,
+            editedBy,
+            inserted[0].id,
+          );
+        }
+        return inserted;
+      });
 
       console.log("🟢 DATABASE INSERT COMPLETED");
       console.log("🟢 Raw result from DB:", {
@@ -812,22 +1390,362 @@ export class DatabaseStorage implements IStorage {
     }, "createQuote");
   }
 
-  async updateQuote(updateQuote: UpdateQuote): Promise<Quote> {
+  async updateQuote(
+    updateQuote: UpdateQuote,
+    editedBy: number | null = null,
+    approvalRequestIds: number[] = [],
+  ): Promise<Quote> {
     return await safeDbQuery(async () => {
-      const [quote] = await db
-        .update(quotes)
-        .set({ ...updateQuote, updatedAt: new Date() })
-        .where(eq(quotes.id, updateQuote.id))
-        .returning();
+      return await db.transaction(async (tx: typeof db) => {
+        const [before]: Quote[] = await tx
+          .select()
+          .from(quotes)
+          .where(eq(quotes.id, updateQuote.id));
+        const [quote]: Quote[] = await tx
+          .update(quotes)
+          .set({ ...updateQuote, updatedAt: new Date() })
+          .where(eq(quotes.id, updateQuote.id))
+          .returning();
 
-      if (!quote) {
-        throw new Error(
-          `Quote with ID ${updateQuote.id} not found or could not be updated`,
+        if (!before || !quote) {
+          throw new Error(
+            `Quote with ID ${updateQuote.id} not found or could not be updated`,
+          );
+        }
+
+        await recordQuoteRevision(tx, quote, editedBy, before);
+        await useApprovalRequests(tx, approvalRequestIds, editedBy, quote.id);
+        return quote;
+      });
+    }, "updateQuote");
+  }
+
+  // Newest first, with the editor's name for the history view
+  async getQuoteRevisions(quoteId: number): Promise<QuoteRevisionRecord[]> {
+    return await safeDbQuery(async () => {
+      const rows: Array<{
+        revision: QuoteRevision;
+        firstName: string | null;
+        lastName: string | null;
+        email: string | null;
+      }> = await db
+        .select({
+          revision: quoteRevisions,
+          firstName: users.firstName,
+          lastName: users.lastName,
+          email: users.email,
+        })
+        .from(quoteRevisions)
+        .leftJoin(users, eq(quoteRevisions.editedBy, users.id))
+        .where(eq(quoteRevisions.quoteId, quoteId))
+        .orderBy(desc(quoteRevisions.revision));
+      return rows.map((row) => ({
+        ...row.revision,
+        editorName:
+          [row.firstName, row.lastName].filter(Boolean).join(" ") || row.email,
+      }));
+    }, "getQuoteRevisions");
+  }
+
+  async getQuoteRevision(
+    quoteId: number,
+    revision: number,
+  ): Promise<QuoteRevisionRecord | undefined> {
+    const revisions = await this.getQuoteRevisions(quoteId);
+    return revisions.find((r) => r.revision === revision);
+  }
+
+  async getQuotePricingOptions(quoteId: number): Promise<QuotePricingOption[]> {
+    return await safeDbQuery(async () => {
+      return await db
+        .select()
+        .from(quotePricingOptions)
+        .where(eq(quotePricingOptions.quoteId, quoteId))
+        .orderBy(
+          asc(quotePricingOptions.position),
+          asc(quotePricingOptions.id),
         );
+    }, "getQuotePricingOptions");
+  }
+
+  async getQuotePricingOption(
+    id: number,
+  ): Promise<QuotePricingOption | undefined> {
+    return await safeDbQuery(async () => {
+      const [option]: QuotePricingOption[] = await db
+        .select()
+        .from(quotePricingOptions)
+        .where(eq(quotePricingOptions.id, id));
+      return option;
+    }, "getQuotePricingOption");
+  }
+
+  async createQuotePricingOption(option: {
+    quoteId: number;
+    name: string;
+    position: number;
+    overridesJson: string;
+    createdBy: number | null;
+  }): Promise<QuotePricingOption> {
+    return await safeDbQuery(async () => {
+      const [created]: QuotePricingOption[] = await db
+        .insert(quotePricingOptions)
+        .values(option)
+        .returning();
+      if (!created) {
+        throw new Error("Database insert returned no pricing option");
       }
+      return created;
+    }, "createQuotePricingOption");
+  }
 
-      return quote;
-    }, "updateQuote");
+  async updateQuotePricingOption(
+    id: number,
+    update: { name?: string; overridesJson?: string },
+  ): Promise<QuotePricingOption> {
+    return await safeDbQuery(async () => {
+      const [option]: QuotePricingOption[] = await db
+        .update(quotePricingOptions)
+        .set({ ...update, updatedAt: new Date() })
+        .where(eq(quotePricingOptions.id, id))
+        .returning();
+      if (!option) {
+        throw new Error(`Quote pricing option ${id} not found`);
+      }
+      return option;
+    }, "updateQuotePricingOption");
+  }
+
+  async deleteQuotePricingOption(id: number): Promise<void> {
+    await safeDbQuery(async () => {
+      await db.transaction(async (tx: typeof db) => {
+        // An accepted proposal keeps its acceptance, without the option
+        await tx
+          .update(quoteProposals)
+          .set({ acceptedOptionId: null })
+          .where(eq(quoteProposals.acceptedOptionId, id));
+        await tx
+          .delete(quotePricingOptions)
+          .where(eq(quotePricingOptions.id, id));
+      });
+    }, "deleteQuotePricingOption");
+  }
+
+  // Only one option per quote is chosen at a time
+  async selectQuotePricingOption(
+    id: number,
+    quoteUpdate: UpdateQuote,
+    selectedBy: number,
+    approvalRequestIds: number[] = [],
+  ): Promise<Quote> {
+    return await safeDbQuery(async () => {
+      return await db.transaction(async (tx: typeof db) => {
+        const [before]: Quote[] = await tx
+          .select()
+          .from(quotes)
+          .where(eq(quotes.id, quoteUpdate.id));
+        const [quote]: Quote[] = await tx
+          .update(quotes)
+          .set({ ...quoteUpdate, updatedAt: new Date() })
+          .where(eq(quotes.id, quoteUpdate.id))
+          .returning();
+        if (!before || !quote) {
+          throw new Error(`Quote with ID ${quoteUpdate.id} not found`);
+        }
+        await recordQuoteRevision(tx, quote, selectedBy, before);
+        await useApprovalRequests(tx, approvalRequestIds, selectedBy, quote.id);
+
+        await tx
+          .update(quotePricingOptions)
+          .set({ selectedAt: null, selectedBy: null })
+          .where(eq(quotePricingOptions.quoteId, quote.id));
+        await tx
+          .update(quotePricingOptions)
+          .set({ selectedAt: new Date(), selectedBy })
+          .where(eq(quotePricingOptions.id, id));
+        return quote;
+      });
+    }, "selectQuotePricingOption");
+  }
+
+  // Newest first, with view counts for the rep
+  async getQuoteProposals(quoteId: number): Promise<QuoteProposalRecord[]> {
+    return await safeDbQuery(async () => {
+      const rows: Array<{
+        proposal: QuoteProposal;
+        acceptedOptionName: string | null;
+      }> = await db
+        .select({
+          proposal: quoteProposals,
+          acceptedOptionName: quotePricingOptions.name,
+        })
+        .from(quoteProposals)
+        .leftJoin(
+          quotePricingOptions,
+          eq(quoteProposals.acceptedOptionId, quotePricingOptions.id),
+        )
+        .where(eq(quoteProposals.quoteId, quoteId))
+        .orderBy(desc(quoteProposals.createdAt), desc(quoteProposals.id));
+      if (rows.length === 0) return [];
+
+      const views: Array<{
+        proposalId: number;
+        viewCount: number;
+        lastViewedAt: Date | null;
+      }> = await db
+        .select({
+          proposalId: quoteProposalViews.proposalId,
+          viewCount: count(),
+          lastViewedAt: sql<Date | null>`max(${quoteProposalViews.viewedAt})`,
+        })
+        .from(quoteProposalViews)
+        .where(
+          inArray(
+            quoteProposalViews.proposalId,
+            rows.map((row) => row.proposal.id),
+          ),
+        )
+        .groupBy(quoteProposalViews.proposalId);
+      const viewsById = new Map(views.map((v) => [v.proposalId, v]));
+
+      return rows.map((row) => {
+        const view = viewsById.get(row.proposal.id);
+        return {
+          ...row.proposal,
+          viewCount: Number(view?.viewCount ?? 0),
+          lastViewedAt: view?.lastViewedAt ? new Date(view.lastViewedAt) : null,
+          acceptedOptionName: row.acceptedOptionName,
+        };
+      });
+    }, "getQuoteProposals");
+  }
+
+  async getQuoteProposal(id: number): Promise<QuoteProposal | undefined> {
+    return await safeDbQuery(async () => {
+      const [proposal]: QuoteProposal[] = await db
+        .select()
+        .from(quoteProposals)
+        .where(eq(quoteProposals.id, id));
+      return proposal;
+    }, "getQuoteProposal");
+  }
+
+  async getQuoteProposalByToken(
+    token: string,
+  ): Promise<QuoteProposal | undefined> {
+    return await safeDbQuery(async () => {
+      const [proposal]: QuoteProposal[] = await db
+        .select()
+        .from(quoteProposals)
+        .where(eq(quoteProposals.token, token));
+      return proposal;
+    }, "getQuoteProposalByToken");
+  }
+
+  async createQuoteProposal(proposal: {
+    quoteId: number;
+    token: string;
+    expiresAt: Date;
+    createdBy: number;
+  }): Promise<QuoteProposal> {
+    return await safeDbQuery(async () => {
+      return await db.transaction(async (tx: typeof db) => {
+        const [created]: QuoteProposal[] = await tx
+          .insert(quoteProposals)
+          .values(proposal)
+          .returning();
+        if (!created) {
+          throw new Error("Database insert returned no proposal");
+        }
+
+        const [before]: Quote[] = await tx
+          .select()
+          .from(quotes)
+          .where(eq(quotes.id, proposal.quoteId));
+        if (before?.status === "draft") {
+          const [quote]: Quote[] = await tx
+            .update(quotes)
+            .set({ status: "sent", updatedAt: new Date() })
+            .where(eq(quotes.id, before.id))
+            .returning();
+          if (quote) {
+            await recordQuoteRevision(tx, quote, proposal.createdBy, before);
+          }
+        }
+        return created;
+      });
+    }, "createQuoteProposal");
+  }
+
+  async revokeQuoteProposal(id: number): Promise<QuoteProposal> {
+    return await safeDbQuery(async () => {
+      const [proposal]: QuoteProposal[] = await db
+        .update(quoteProposals)
+        .set({ revokedAt: new Date() })
+        .where(eq(quoteProposals.id, id))
+        .returning();
+      if (!proposal) {
+        throw new Error(`Quote proposal ${id} not found`);
+      }
+      return proposal;
+    }, "revokeQuoteProposal");
+  }
+
+  async recordQuoteProposalView(
+    proposalId: number,
+    view: { ipAddress: string | null; userAgent: string | null },
+  ): Promise<void> {
+    await safeDbQuery(async () => {
+      await db.insert(quoteProposalViews).values({ proposalId, ...view });
+    }, "recordQuoteProposalView");
+  }
+
+  // Only the first acceptance counts; the quote revision has no editor since
+  // the client isn't a user
+  async acceptQuoteProposal(
+    id: number,
+    acceptance: {
+      name: string;
+      optionId: number | null;
+      ipAddress: string | null;
+    },
+  ): Promise<QuoteProposal> {
+    return await safeDbQuery(async () => {
+      return await db.transaction(async (tx: typeof db) => {
+        const [proposal]: QuoteProposal[] = await tx
+          .update(quoteProposals)
+          .set({
+            acceptedAt: new Date(),
+            acceptedName: acceptance.name,
+            acceptedOptionId: acceptance.optionId,
+            acceptedIp: acceptance.ipAddress,
+          })
+          .where(
+            and(eq(quoteProposals.id, id), isNull(quoteProposals.acceptedAt)),
+          )
+          .returning();
+        if (!proposal) {
+          throw new StorageConflictError(
+            `Quote proposal ${id} not found or already accepted`,
+          );
+        }
+
+        const [before]: Quote[] = await tx
+          .select()
+          .from(quotes)
+          .where(eq(quotes.id, proposal.quoteId));
+        const [quote]: Quote[] = await tx
+          .update(quotes)
+          .set({ status: "accepted", updatedAt: new Date() })
+          .where(eq(quotes.id, proposal.quoteId))
+          .returning();
+        if (!before || !quote) {
+          throw new Error(`Quote with ID ${proposal.quoteId} not found`);
+        }
+        await recordQuoteRevision(tx, quote, null, before);
+        return proposal;
+      });
+    }, "acceptQuoteProposal");
   }
 
   async archiveQuote(id: number): Promise<Quote> {
@@ -848,6 +1766,17 @@ export class DatabaseStorage implements IStorage {
     }, "archiveQuote");
   }
 
+  // Every non-archived quote across all owners
+  async getActiveQuotes(): Promise<Quote[]> {
+    return await safeDbQuery(async () => {
+      return await db
+        .select()
+        .from(quotes)
+        .where(eq(quotes.archived, false))
+        .orderBy(desc(quotes.updatedAt));
+    }, "getActiveQuotes");
+  }
+
   async getQuotesByEmail(email: string): Promise<Quote[]> {
     return await safeDbQuery(async () => {
       return await db
@@ -959,55 +1888,149 @@ export class DatabaseStorage implements IStorage {
     }, "getQuotesByOwner");
   }
 
-  async createApprovalCode(
-    insertApprovalCode: InsertApprovalCode,
-  ): Promise<ApprovalCode> {
+  async createApprovalRequest(
+    request: InsertApprovalRequest,
+  ): Promise<ApprovalRequest> {
     return await safeDbQuery(async () => {
-      const [approvalCode] = await db
-        .insert(approvalCodes)
-        .values(insertApprovalCode)
+      const [created] = await db
+        .insert(approvalRequests)
+        .values(request)
         .returning();
 
-      if (!approvalCode) {
-        throw new Error("Failed to create approval code");
+      if (!created) {
+        throw new Error("Failed to create approval request");
       }
 
-      return approvalCode;
-    }, "createApprovalCode");
+      await this.recordApprovalEvent(
+        created.id,
+        "requested",
+        created.requestedBy,
+        created.reason,
+      );
+      return created;
+    }, "createApprovalRequest");
+  }
+
+  async getApprovalRequest(id: number): Promise<ApprovalRequest | undefined> {
+    return await safeDbQuery(async () => {
+      const [request] = await db
+        .select()
+        .from(approvalRequests)
+        .where(eq(approvalRequests.id, id));
+      return request || undefined;
+    }, "getApprovalRequest");
+  }
+
+  async getApprovalRequests(
+    filter: { status?: string; quoteId?: number } = {},
+  ): Promise<ApprovalRequest[]> {
+    return await safeDbQuery(async () => {
+      const conditions = [];
+      if (filter.status) {
+        conditions.push(eq(approvalRequests.status, filter.status));
+      }
+      if (filter.quoteId) {
+        conditions.push(eq(approvalRequests.quoteId, filter.quoteId));
+      }
+      return await db
+        .select()
+        .from(approvalRequests)
+        .where(conditions.length ? and(...conditions) : undefined)
+        .orderBy(desc(approvalRequests.createdAt))
+        .limit(200);
+    }, "getApprovalRequests");
   }
 
-  async validateApprovalCode(code: string, email: string): Promise<boolean> {
+  async getApprovalRequestEvents(
+    requestIds: number[],
+  ): Promise<ApprovalRequestEvent[]> {
+    if (requestIds.length === 0) return [];
     return await safeDbQuery(async () => {
-      const [approvalCode] = await db
+      return await db
         .select()
-        .from(approvalCodes)
+        .from(approvalRequestEvents)
+        .where(inArray(approvalRequestEvents.approvalRequestId, requestIds))
+        .orderBy(asc(approvalRequestEvents.createdAt));
+    }, "getApprovalRequestEvents");
+  }
+
+  // Only pending requests can be decided; undefined when already decided
+  async decideApprovalRequest(
+    id: number,
+    decision: {
+      approved: boolean;
+      approverId: number;
+      note?: string;
+      expiresAt: Date;
+    },
+  ): Promise<ApprovalRequest | undefined> {
+    return await safeDbQuery(async () => {
+      const now = new Date();
+      const [decided] = await db
+        .update(approvalRequests)
+        .set({
+          status: decision.approved ? "approved" : "rejected",
+          approverId: decision.approverId,
+          decisionNote: decision.note || null,
+          decidedAt: now,
+          expiresAt: decision.approved ? decision.expiresAt : null,
+          updatedAt: now,
+        })
         .where(
           and(
-            eq(approvalCodes.code, code),
-            eq(approvalCodes.contactEmail, email),
-            eq(approvalCodes.used, false),
-            sql`${approvalCodes.expiresAt} > NOW()`,
+            eq(approvalRequests.id, id),
+            eq(approvalRequests.status, "pending"),
           ),
+        )
+        .returning();
+
+      if (decided) {
+        await this.recordApprovalEvent(
+          id,
+          decision.approved ? "approved" : "rejected",
+          decision.approverId,
+          decision.note,
         );
-      return !!approvalCode;
-    }, "validateApprovalCode");
+      }
+      return decided || undefined;
+    }, "decideApprovalRequest");
   }
 
-  async markApprovalCodeUsed(code: string, email: string): Promise<void> {
-    await safeDbQuery(async () => {
-      const result = await db
-        .update(approvalCodes)
-        .set({ used: true })
+  async cancelApprovalRequest(
+    id: number,
+    actorId: number,
+  ): Promise<ApprovalRequest | undefined> {
+    return await safeDbQuery(async () => {
+      const [cancelled] = await db
+        .update(approvalRequests)
+        .set({ status: "cancelled", updatedAt: new Date() })
         .where(
           and(
-            eq(approvalCodes.code, code),
-            eq(approvalCodes.contactEmail, email),
+            eq(approvalRequests.id, id),
+            eq(approvalRequests.status, "pending"),
           ),
-        );
+        )
+        .returning();
+
+      if (cancelled) {
+        await this.recordApprovalEvent(id, "cancelled", actorId);
+      }
+      return cancelled || undefined;
+    }, "cancelApprovalRequest");
+  }
 
-      // Note: Drizzle doesn't return affected rows count easily, so we trust the operation
-      return result;
-    }, "markApprovalCodeUsed");
+  private async recordApprovalEvent(
+    approvalRequestId: number,
+    action: ApprovalEventAction,
+    actorId: number | null,
+    note?: string,
+  ): Promise<void> {
+    await db.insert(approvalRequestEvents).values({
+      approvalRequestId,
+      action,
+      actorId,
+      note: note || null,
+    });
   }
 
   // Knowledge Base Categories
@@ -1113,43 +2136,165 @@ export class DatabaseStorage implements IStorage {
     }, "getKbArticleBySlug");
   }
 
-  async createKbArticle(insertArticle: InsertKbArticle): Promise<KbArticle> {
+  // Version 1 is written with the article
+  async createKbArticle(
+    insertArticle: InsertKbArticle,
+    changeNote?: string | null,
+  ): Promise<KbArticle> {
     return await safeDbQuery(async () => {
-      const [article] = await db
-        .insert(kbArticles)
-        .values(insertArticle)
-        .returning();
+      return await db.transaction(async (tx: typeof db) => {
+        const [article] = await tx
+          .insert(kbArticles)
+          .values(insertArticle)
+          .returning();
 
-      if (!article) {
-        throw new Error("Failed to create article");
-      }
+        if (!article) {
+          throw new Error("Failed to create article");
+        }
 
-      return article;
+        await tx.insert(kbArticleVersions).values({
+          articleId: article.id,
+          version: 1,
+          title: article.title,
+          content: article.content,
+          authorId: article.authorId,
+          changeNote: changeNote || "Created",
+        });
+
+        return article;
+      });
     }, "createKbArticle");
   }
 
+  // Every editor save (a revision) records a version with its change note,
+  // metadata-only edits included; workflow updates without one only do when
+  // the title or content changed. Articles from before versioning get their
+  // prior state as version 1 first, so the first edit can still be diffed
+  // and undone.
   async updateKbArticle(
     id: number,
     article: Partial<InsertKbArticle>,
+    revision?: KbArticleRevision,
   ): Promise<KbArticle> {
     return await safeDbQuery(async () => {
-      const [updatedArticle] = await db
-        .update(kbArticles)
-        .set({ ...article, updatedAt: new Date() })
-        .where(eq(kbArticles.id, id))
-        .returning();
+      return await db.transaction(async (tx: typeof db) => {
+        const [before] = await tx
+          .select()
+          .from(kbArticles)
+          .where(eq(kbArticles.id, id));
+        const [updatedArticle] = await tx
+          .update(kbArticles)
+          .set({ ...article, updatedAt: new Date() })
+          .where(eq(kbArticles.id, id))
+          .returning();
 
-      if (!updatedArticle) {
-        throw new Error(`Article with ID ${id} not found`);
-      }
+        if (!before || !updatedArticle) {
+          throw new Error(`Article with ID ${id} not found`);
+        }
+
+        if (
+          revision ||
+          updatedArticle.title !== before.title ||
+          updatedArticle.content !== before.content
+        ) {
+          const [latest] = await tx
+            .select({ version: kbArticleVersions.version })
+            .from(kbArticleVersions)
+            .where(eq(kbArticleVersions.articleId, id))
+            .orderBy(desc(kbArticleVersions.version))
+            .limit(1);
+          let version = latest?.version ?? 0;
+          if (!latest) {
+            version = 1;
+            await tx.insert(kbArticleVersions).values({
+              articleId: id,
+              version,
+              title: before.title,
+              content: before.content,
+              authorId: before.authorId,
+              changeNote: "Original version",
+            });
+          }
+          await tx.insert(kbArticleVersions).values({
+            articleId: id,
+            version: version + 1,
+            title: updatedArticle.title,
+            content: updatedArticle.content,
+            authorId: revision?.authorId ?? updatedArticle.authorId,
+            changeNote: revision?.changeNote || null,
+          });
+        }
 
-      return updatedArticle;
+        return updatedArticle;
+      });
     }, "updateKbArticle");
   }
 
+  // Newest first, with the editor's name for the history view
+  async getKbArticleVersions(
+    articleId: number,
+  ): Promise<Array<KbArticleVersion & { authorName: string | null }>> {
+    return await safeDbQuery(async () => {
+      const rows = await db
+        .select({
+          version: kbArticleVersions,
+          firstName: users.firstName,
+          lastName: users.lastName,
+          email: users.email,
+        })
+        .from(kbArticleVersions)
+        .leftJoin(users, eq(kbArticleVersions.authorId, users.id))
+        .where(eq(kbArticleVersions.articleId, articleId))
+        .orderBy(desc(kbArticleVersions.version));
+      return rows.map(
+        (row: {
+          version: KbArticleVersion;
+          firstName: string | null;
+          lastName: string | null;
+          email: string | null;
+        }) => ({
+          ...row.version,
+          authorName:
+            [row.firstName, row.lastName].filter(Boolean).join(" ") ||
+            row.email,
+        }),
+      );
+    }, "getKbArticleVersions");
+  }
+
+  async getKbArticleVersion(
+    articleId: number,
+    versionId: number,
+  ): Promise<KbArticleVersion | undefined> {
+    return await safeDbQuery(async () => {
+      const [version] = await db
+        .select()
+        .from(kbArticleVersions)
+        .where(
+          and(
+            eq(kbArticleVersions.id, versionId),
+            eq(kbArticleVersions.articleId, articleId),
+          ),
+        );
+      return version || undefined;
+    }, "getKbArticleVersion");
+  }
+
+  // Permanent: drops the article's versions and bookmarks, and unlinks it
+  // from search history
   async deleteKbArticle(id: number): Promise<void> {
     await safeDbQuery(async () => {
-      await db.delete(kbArticles).where(eq(kbArticles.id, id));
+      await db.transaction(async (tx: typeof db) => {
+        await tx
+          .delete(kbArticleVersions)
+          .where(eq(kbArticleVersions.articleId, id));
+        await tx.delete(kbBookmarks).where(eq(kbBookmarks.articleId, id));
+        await tx
+          .update(kbSearchHistory)
+          .set({ clickedArticleId: null })
+          .where(eq(kbSearchHistory.clickedArticleId, id));
+        await tx.delete(kbArticles).where(eq(kbArticles.id, id));
+      });
     }, "deleteKbArticle");
   }
 
@@ -1180,25 +2325,92 @@ export class DatabaseStorage implements IStorage {
     }, "incrementArticleViews");
   }
 
-  // Search
-  async searchKbArticles(query: string, userId?: number): Promise<KbArticle[]> {
+  // Search: weighted full-text match over the trigger-maintained
+  // search_vector, falling back to trigram similarity on titles and tags
+  // when nothing matches (typos, partial words)
+  async searchKbArticles(
+    query: string,
+    filters: KbSearchFilters = {},
+  ): Promise<KbSearchResponse> {
     return await safeDbQuery(async () => {
-      const searchResults = await db
-        .select()
+      const tsQuery = sql`websearch_to_tsquery('english', ${query})`;
+      const published = eq(kbArticles.status, "published");
+      const matchColumns = {
+        id: kbArticles.id,
+        categoryId: kbArticles.categoryId,
+        tags: kbArticles.tags,
+      };
+
+      const rank = sql<number>`ts_rank_cd(${kbArticles.searchVector}, ${tsQuery}, 32)`;
+      let matches: KbSearchMatch[] = await db
+        .select({ ...matchColumns, rank: rank.mapWith(Number) })
         .from(kbArticles)
-        .where(
-          and(
-            eq(kbArticles.status, "published"),
-            sql`(
-              ${kbArticles.title} ILIKE ${`%${query}%`} OR
-              ${kbArticles.content} ILIKE ${`%${query}%`} OR
-              ${kbArticles.excerpt} ILIKE ${`%${query}%`}
-            )`,
-          ),
-        )
-        .orderBy(desc(kbArticles.featured), desc(kbArticles.viewCount));
+        .where(and(published, sql`${kbArticles.searchVector} @@ ${tsQuery}`))
+        .orderBy(desc(rank), desc(kbArticles.viewCount))
+        .limit(KB_SEARCH_MAX_MATCHES);
+
+      let fuzzy = false;
+      if (matches.length === 0) {
+        fuzzy = true;
+        const similarity = sql<number>`word_similarity(${query}, ${kbArticles.title} || ' ' || coalesce(array_to_string(${kbArticles.tags}, ' '), ''))`;
+        matches = await db
+          .select({ ...matchColumns, rank: similarity.mapWith(Number) })
+          .from(kbArticles)
+          .where(and(published, sql`${similarity} >= ${KB_FUZZY_THRESHOLD}`))
+          .orderBy(desc(similarity), desc(kbArticles.viewCount))
+          .limit(KB_SEARCH_MAX_MATCHES);
+      }
 
-      return searchResults;
+      const filtered = filterKbSearchMatches(matches, filters);
+      const page = filtered.slice(0, filters.limit ?? 20);
+      const headlineOptions = `StartSel=${KB_SNIPPET_START}, StopSel=${KB_SNIPPET_END}, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "`;
+      const rows =
+        page.length === 0
+          ? []
+          : await db
+              .select({
+                id: kbArticles.id,
+                title: kbArticles.title,
+                slug: kbArticles.slug,
+                excerpt: kbArticles.excerpt,
+                categoryId: kbArticles.categoryId,
+                authorId: kbArticles.authorId,
+                status: kbArticles.status,
+                featured: kbArticles.featured,
+                tags: kbArticles.tags,
+                viewCount: kbArticles.viewCount,
+                aiSummary: kbArticles.aiSummary,
+                lastReviewedAt: kbArticles.lastReviewedAt,
+                lastReviewedBy: kbArticles.lastReviewedBy,
+                publishedAt: kbArticles.publishedAt,
+                createdAt: kbArticles.createdAt,
+                updatedAt: kbArticles.updatedAt,
+                snippet: sql<string>`ts_headline('english', regexp_replace(${kbArticles.content}, '<[^>]+>', ' ', 'g'), ${tsQuery}, ${headlineOptions})`,
+              })
+              .from(kbArticles)
+              .where(
+                inArray(
+                  kbArticles.id,
+                  page.map((m) => m.id),
+                ),
+              );
+      const rowsById = new Map<number, Omit<KbSearchResult, "rank">>(
+        rows.map((row: Omit<KbSearchResult, "rank">) => [row.id, row]),
+      );
+      const categories = await db
+        .select({ id: kbCategories.id, name: kbCategories.name })
+        .from(kbCategories);
+
+      return {
+        query,
+        results: page.flatMap((m) => {
+          const row = rowsById.get(m.id);
+          return row ? [{ ...row, rank: m.rank }] : [];
+        }),
+        total: filtered.length,
+        facets: kbSearchFacets(matches, categories),
+        fuzzy,
+      };
     }, "searchKbArticles");
   }
 
@@ -1219,6 +2431,54 @@ export class DatabaseStorage implements IStorage {
     }, "recordKbSearch");
   }
 
+  async getUserKbSearchHistory(
+    userId: number,
+    limit = 20,
+  ): Promise<KbSearchHistory[]> {
+    return await safeDbQuery(async () => {
+      return await db
+        .select()
+        .from(kbSearchHistory)
+        .where(eq(kbSearchHistory.userId, userId))
+        .orderBy(desc(kbSearchHistory.createdAt))
+        .limit(limit);
+    }, "getUserKbSearchHistory");
+  }
+
+  // Zero-result searches, most searched first, for the content gaps report
+  async getKbContentGaps(sinceDays = 90, limit = 50): Promise<KbContentGap[]> {
+    return await safeDbQuery(async () => {
+      const since = new Date(Date.now() - sinceDays * 24 * 60 * 60 * 1000);
+      const normalized = sql<string>`lower(trim(${kbSearchHistory.query}))`;
+      const searches = sql<number>`count(*)`;
+      const rows = await db
+        .select({
+          query: normalized,
+          searches: searches.mapWith(Number),
+          users: sql<number>`count(distinct ${kbSearchHistory.userId})`.mapWith(
+            Number,
+          ),
+          lastSearchedAt: sql<Date>`max(${kbSearchHistory.createdAt})`.mapWith(
+            kbSearchHistory.createdAt,
+          ),
+        })
+        .from(kbSearchHistory)
+        .where(
+          and(
+            eq(kbSearchHistory.resultsCount, 0),
+            gte(kbSearchHistory.createdAt, since),
+          ),
+        )
+        .groupBy(normalized)
+        .orderBy(desc(searches), desc(sql`max(${kbSearchHistory.createdAt})`))
+        .limit(limit);
+      return rows.map((row: (typeof rows)[number]) => ({
+        ...row,
+        lastSearchedAt: new Date(row.lastSearchedAt).toISOString(),
+      }));
+    }, "getKbContentGaps");
+  }
+
   // Bookmarks
   async getUserKbBookmarks(userId: number): Promise<KbBookmark[]> {
     return await safeDbQuery(async () => {
@@ -1260,6 +2520,773 @@ export class DatabaseStorage implements IStorage {
     }, "deleteKbBookmark");
   }
 
+  // Seed Assistant retrieval index
+  async getAssistantIndexChunks(
+    embeddingModel: string,
+    sourceTypes: AssistantSourceType[],
+  ): Promise<AssistantIndexChunk[]> {
+    if (sourceTypes.length === 0) return [];
+    return await safeDbQuery(async () => {
+      return await db
+        .select()
+        .from(assistantIndexChunks)
+        .where(
+          and(
+            eq(assistantIndexChunks.embeddingModel, embeddingModel),
+            inArray(assistantIndexChunks.sourceType, sourceTypes),
+          ),
+        );
+    }, "getAssistantIndexChunks");
+  }
+
+  async getAssistantSourceHash(
+    sourceType: AssistantSourceType,
+    sourceId: string,
+    embeddingModel: string,
+  ): Promise<string | undefined> {
+    return await safeDbQuery(async () => {
+      const [row] = await db
+        .select({ contentHash: assistantIndexChunks.contentHash })
+        .from(assistantIndexChunks)
+        .where(
+          and(
+            eq(assistantIndexChunks.sourceType, sourceType),
+            eq(assistantIndexChunks.sourceId, sourceId),
+            eq(assistantIndexChunks.embeddingModel, embeddingModel),
+          ),
+        )
+        .limit(1);
+      return row?.contentHash;
+    }, "getAssistantSourceHash");
+  }
+
+  // Swap a source's chunks in one transaction so retrieval never sees a
+  // half-indexed document
+  async replaceAssistantSourceChunks(
+    sourceType: AssistantSourceType,
+    sourceId: string,
+    chunks: InsertAssistantIndexChunk[],
+  ): Promise<void> {
+    await safeDbQuery(async () => {
+      await db.transaction(async (tx: typeof db) => {
+        await tx
+          .delete(assistantIndexChunks)
+          .where(
+            and(
+              eq(assistantIndexChunks.sourceType, sourceType),
+              eq(assistantIndexChunks.sourceId, sourceId),
+            ),
+          );
+        if (chunks.length > 0) {
+          await tx.insert(assistantIndexChunks).values(chunks);
+        }
+      });
+    }, "replaceAssistantSourceChunks");
+  }
+
+  async deleteAssistantSourceChunks(
+    sourceType: AssistantSourceType,
+    sourceId: string,
+  ): Promise<void> {
+    await safeDbQuery(async () => {
+      await db
+        .delete(assistantIndexChunks)
+        .where(
+          and(
+            eq(assistantIndexChunks.sourceType, sourceType),
+            eq(assistantIndexChunks.sourceId, sourceId),
+          ),
+        );
+    }, "deleteAssistantSourceChunks");
+  }
+
+  async getAssistantIndexedBoxFileIds(folderId: string): Promise<string[]> {
+    return await safeDbQuery(async () => {
+      const rows: Array<{ sourceId: string }> = await db
+        .selectDistinct({ sourceId: assistantIndexChunks.sourceId })
+        .from(assistantIndexChunks)
+        .where(
+          and(
+            eq(assistantIndexChunks.sourceType, "box_file"),
+            eq(assistantIndexChunks.boxFolderId, folderId),
+          ),
+        );
+      return rows.map((r) => r.sourceId);
+    }, "getAssistantIndexedBoxFileIds");
+  }
+
+  async getAssistantIndexStats(): Promise<AssistantIndexStats[]> {
+    return await safeDbQuery(async () => {
+      const rows: Array<{
+        sourceType: string;
+        embeddingModel: string;
+        sources: number;
+        chunks: number;
+        lastIndexedAt: Date | null;
+      }> = await db
+        .select({
+          sourceType: assistantIndexChunks.sourceType,
+          embeddingModel: assistantIndexChunks.embeddingModel,
+          sources: sql<number>`count(distinct ${assistantIndexChunks.sourceId})::int`,
+          chunks: sql<number>`count(*)::int`,
+          lastIndexedAt: sql<Date | null>`max(${assistantIndexChunks.createdAt})`,
+        })
+        .from(assistantIndexChunks)
+        .groupBy(
+          assistantIndexChunks.sourceType,
+          assistantIndexChunks.embeddingModel,
+        );
+      return rows.map((r) => ({
+        ...r,
+        sourceType: r.sourceType as AssistantSourceType,
+      }));
+    }, "getAssistantIndexStats");
+  }
+
+  async getAssistantBoxFolders(): Promise<AssistantBoxFolder[]> {
+    return await safeDbQuery(async () => {
+      return await db
+        .select()
+        .from(assistantBoxFolders)
+        .orderBy(asc(assistantBoxFolders.name));
+    }, "getAssistantBoxFolders");
+  }
+
+  async getAssistantBoxFolder(
+    id: number,
+  ): Promise<AssistantBoxFolder | undefined> {
+    return await safeDbQuery(async () => {
+      const [folder] = await db
+        .select()
+        .from(assistantBoxFolders)
+        .where(eq(assistantBoxFolders.id, id));
+      return folder;
+    }, "getAssistantBoxFolder");
+  }
+
+  async createAssistantBoxFolder(
+    folder: InsertAssistantBoxFolder,
+  ): Promise<AssistantBoxFolder> {
+    return await safeDbQuery(async () => {
+      const [created] = await db
+        .insert(assistantBoxFolders)
+        .values(folder)
+        .returning();
+      if (!created) {
+        throw new Error("Failed to approve Box folder");
+      }
+      return created;
+    }, "createAssistantBoxFolder");
+  }
+
+  async updateAssistantBoxFolder(
+    id: number,
+    update: Pick<AssistantBoxFolder, "lastIndexedAt" | "lastIndexError">,
+  ): Promise<void> {
+    await safeDbQuery(async () => {
+      await db
+        .update(assistantBoxFolders)
+        .set(update)
+        .where(eq(assistantBoxFolders.id, id));
+    }, "updateAssistantBoxFolder");
+  }
+
+  // Revoking approval also drops the folder's files from the index
+  async deleteAssistantBoxFolder(id: number): Promise<void> {
+    await safeDbQuery(async () => {
+      await db.transaction(async (tx: typeof db) => {
+        const [folder] = await tx
+          .delete(assistantBoxFolders)
+          .where(eq(assistantBoxFolders.id, id))
+          .returning();
+        if (folder) {
+          await tx
+            .delete(assistantIndexChunks)
+            .where(
+              and(
+                eq(assistantIndexChunks.sourceType, "box_file"),
+                eq(assistantIndexChunks.boxFolderId, folder.folderId),
+              ),
+            );
+        }
+      });
+    }, "deleteAssistantBoxFolder");
+  }
+
+  // Seed Assistant conversations
+  async getUserAssistantConversations(
+    userId: number,
+    mode?: AssistantMode,
+  ): Promise<AssistantConversation[]> {
+    return await safeDbQuery(async () => {
+      return await db
+        .select()
+        .from(assistantConversations)
+        .where(
+          and(
+            eq(assistantConversations.userId, userId),
+            mode ? eq(assistantConversations.mode, mode) : undefined,
+          ),
+        )
+        .orderBy(desc(assistantConversations.updatedAt))
+        .limit(100);
+    }, "getUserAssistantConversations");
+  }
+
+  async getAssistantConversation(
+    id: number,
+  ): Promise<AssistantConversation | undefined> {
+    return await safeDbQuery(async () => {
+      const [conversation] = await db
+        .select()
+        .from(assistantConversations)
+        .where(eq(assistantConversations.id, id));
+      return conversation;
+    }, "getAssistantConversation");
+  }
+
+  async getAssistantConversationByShareToken(
+    shareToken: string,
+  ): Promise<AssistantConversation | undefined> {
+    return await safeDbQuery(async () => {
+      const [conversation] = await db
+        .select()
+        .from(assistantConversations)
+        .where(eq(assistantConversations.shareToken, shareToken));
+      return conversation;
+    }, "getAssistantConversationByShareToken");
+  }
+
+  async createAssistantConversation(
+    conversation: InsertAssistantConversation,
+  ): Promise<AssistantConversation> {
+    return await safeDbQuery(async () => {
+      const [created] = await db
+        .insert(assistantConversations)
+        .values(conversation)
+        .returning();
+      if (!created) {
+        throw new Error("Failed to create conversation");
+      }
+      return created;
+    }, "createAssistantConversation");
+  }
+
+  async updateAssistantConversation(
+    id: number,
+    update: Partial<Pick<AssistantConversation, "title" | "shareToken">>,
+  ): Promise<AssistantConversation> {
+    return await safeDbQuery(async () => {
+      const [updated] = await db
+        .update(assistantConversations)
+        .set({ ...update, updatedAt: new Date() })
+        .where(eq(assistantConversations.id, id))
+        .returning();
+      if (!updated) {
+        throw new Error(`Conversation ${id} not found`);
+      }
+      return updated;
+    }, "updateAssistantConversation");
+  }
+
+  async deleteAssistantConversation(id: number): Promise<void> {
+    await safeDbQuery(async () => {
+      await db.transaction(async (tx: typeof db) => {
+        const messageIds = tx
+          .select({ id: assistantMessages.id })
+          .from(assistantMessages)
+          .where(eq(assistantMessages.conversationId, id));
+        await tx
+          .delete(assistantMessageFeedback)
+          .where(inArray(assistantMessageFeedback.messageId, messageIds));
+        await tx
+          .delete(assistantMessages)
+          .where(eq(assistantMessages.conversationId, id));
+        await tx
+          .delete(assistantConversations)
+          .where(eq(assistantConversations.id, id));
+      });
+    }, "deleteAssistantConversation");
+  }
+
+  async getAssistantMessages(
+    conversationId: number,
+  ): Promise<AssistantMessage[]> {
+    return await safeDbQuery(async () => {
+      return await db
+        .select()
+        .from(assistantMessages)
+        .where(eq(assistantMessages.conversationId, conversationId))
+        .orderBy(asc(assistantMessages.id));
+    }, "getAssistantMessages");
+  }
+
+  async getAssistantMessage(id: number): Promise<AssistantMessage | undefined> {
+    return await safeDbQuery(async () => {
+      const [message] = await db
+        .select()
+        .from(assistantMessages)
+        .where(eq(assistantMessages.id, id));
+      return message;
+    }, "getAssistantMessage");
+  }
+
+  // Adding a message moves the thread to the top of the owner's list
+  async addAssistantMessage(
+    message: InsertAssistantMessage,
+  ): Promise<AssistantMessage> {
+    return await safeDbQuery(async () => {
+      return await db.transaction(async (tx: typeof db) => {
+        const [created] = await tx
+          .insert(assistantMessages)
+          .values(message)
+          .returning();
+        if (!created) {
+          throw new Error("Failed to save message");
+        }
+        await tx
+          .update(assistantConversations)
+          .set({ updatedAt: new Date() })
+          .where(eq(assistantConversations.id, message.conversationId));
+        return created as AssistantMessage;
+      });
+    }, "addAssistantMessage");
+  }
+
+  async getAssistantMessageFeedback(
+    conversationId: number,
+    userId: number,
+  ): Promise<AssistantMessageFeedback[]> {
+    return await safeDbQuery(async () => {
+      const rows: Array<{ feedback: AssistantMessageFeedback }> = await db
+        .select({ feedback: assistantMessageFeedback })
+        .from(assistantMessageFeedback)
+        .innerJoin(
+          assistantMessages,
+          eq(assistantMessages.id, assistantMessageFeedback.messageId),
+        )
+        .where(
+          and(
+            eq(assistantMessages.conversationId, conversationId),
+            eq(assistantMessageFeedback.userId, userId),
+          ),
+        );
+      return rows.map((r) => r.feedback);
+    }, "getAssistantMessageFeedback");
+  }
+
+  async upsertAssistantMessageFeedback(
+    feedback: InsertAssistantMessageFeedback,
+  ): Promise<AssistantMessageFeedback> {
+    return await safeDbQuery(async () => {
+      const [saved] = await db
+        .insert(assistantMessageFeedback)
+        .values(feedback)
+        .onConflictDoUpdate({
+          target: [
+            assistantMessageFeedback.messageId,
+            assistantMessageFeedback.userId,
+          ],
+          set: {
+            rating: feedback.rating,
+            comment: feedback.comment ?? null,
+            updatedAt: new Date(),
+          },
+        })
+        .returning();
+      if (!saved) {
+        throw new Error("Failed to save feedback");
+      }
+      return saved;
+    }, "upsertAssistantMessageFeedback");
+  }
+
+  // Thumbs-down answers, newest first, each with the user question that
+  // preceded it in the thread
+  async getLowRatedAssistantAnswers(
+    sinceDays = 90,
+    limit = 100,
+  ): Promise<LowRatedAssistantAnswer[]> {
+    return await safeDbQuery(async () => {
+      const since = new Date(Date.now() - sinceDays * 24 * 60 * 60 * 1000);
+      const rows: Array<{
+        feedbackId: number;
+        messageId: number;
+        conversationId: number;
+        mode: string;
+        question: string | null;
+        answer: string;
+        citations: LowRatedAssistantAnswer["citations"];
+        comment: string | null;
+        firstName: string | null;
+        lastName: string | null;
+        email: string | null;
+        ratedAt: Date;
+      }> = await db
+        .select({
+          feedbackId: assistantMessageFeedback.id,
+          messageId: assistantMessages.id,
+          conversationId: assistantMessages.conversationId,
+          mode: assistantConversations.mode,
+          question: sql<string | null>`(
+            select q.content from assistant_messages q
+            where q.conversation_id = ${assistantMessages.conversationId}
+              and q.role = 'user' and q.id < ${assistantMessages.id}
+            order by q.id desc limit 1
+          )`,
+          answer: assistantMessages.content,
+          citations: assistantMessages.citations,
+          comment: assistantMessageFeedback.comment,
+          firstName: users.firstName,
+          lastName: users.lastName,
+          email: users.email,
+          ratedAt: assistantMessageFeedback.updatedAt,
+        })
+        .from(assistantMessageFeedback)
+        .innerJoin(
+          assistantMessages,
+          eq(assistantMessages.id, assistantMessageFeedback.messageId),
+        )
+        .innerJoin(
+          assistantConversations,
+          eq(assistantConversations.id, assistantMessages.conversationId),
+        )
+        .leftJoin(users, eq(users.id, assistantMessageFeedback.userId))
+        .where(
+          and(
+            eq(assistantMessageFeedback.rating, "down"),
+            gte(assistantMessageFeedback.updatedAt, since),
+          ),
+        )
+        .orderBy(desc(assistantMessageFeedback.updatedAt))
+        .limit(limit);
+      return rows.map(({ firstName, lastName, email, ...r }) => ({
+        ...r,
+        mode: r.mode as AssistantMode,
+        ratedBy: [firstName, lastName].filter(Boolean).join(" ") || email,
+        ratedAt: r.ratedAt.toISOString(),
+      }));
+    }, "getLowRatedAssistantAnswers");
+  }
+
+  async recordLlmUsage(usage: InsertLlmUsage): Promise<void> {
+    return await safeDbQuery(async () => {
+      await db.insert(llmUsage).values(usage);
+    }, "recordLlmUsage");
+  }
+
+  async getLlmUsageSummary(sinceDays = 30): Promise<LlmUsageSummary[]> {
+    return await safeDbQuery(async () => {
+      const since = new Date(Date.now() - sinceDays * 24 * 60 * 60 * 1000);
+      const rows: Array<{
+        userId: number | null;
+        firstName: string | null;
+        lastName: string | null;
+        email: string | null;
+        feature: string;
+        provider: string;
+        model: string;
+        calls: number;
+        failures: number;
+        inputTokens: number;
+        outputTokens: number;
+        costUsd: string | null;
+        unpricedCalls: number;
+      }> = await db
+        .select({
+          userId: llmUsage.userId,
+          firstName: users.firstName,
+          lastName: users.lastName,
+          email: users.email,
+          feature: llmUsage.feature,
+          provider: llmUsage.provider,
+          model: llmUsage.model,
+          calls: sql<number>`count(*)::int`,
+          failures: sql<number>`count(*) filter (where not ${llmUsage.success})::int`,
+          inputTokens: sql<number>`coalesce(sum(${llmUsage.inputTokens}), 0)::int`,
+          outputTokens: sql<number>`coalesce(sum(${llmUsage.outputTokens}), 0)::int`,
+          costUsd: sql<string | null>`sum(${llmUsage.costUsd})`,
+          unpricedCalls: sql<number>`count(*) filter (where ${llmUsage.success} and ${llmUsage.costUsd} is null)::int`,
+        })
+        .from(llmUsage)
+        .leftJoin(users, eq(users.id, llmUsage.userId))
+        .where(gte(llmUsage.createdAt, since))
+        .groupBy(
+          llmUsage.userId,
+          users.firstName,
+          users.lastName,
+          users.email,
+          llmUsage.feature,
+          llmUsage.provider,
+          llmUsage.model,
+        )
+        .orderBy(desc(sql`coalesce(sum(${llmUsage.costUsd}), 0)`));
+      return rows.map(({ firstName, lastName, email, ...r }) => ({
+        ...r,
+        userName: [firstName, lastName].filter(Boolean).join(" ") || email,
+        costUsd: Number(r.costUsd ?? 0),
+      }));
+    }, "getLlmUsageSummary");
+  }
+
+  async getClientIntelProfileByEmail(
+    contactEmail: string,
+  ): Promise<ClientIntelProfile | undefined> {
+    return await safeDbQuery(async () => {
+      const [profile] = await db
+        .select()
+        .from(clientIntelProfiles)
+        .where(eq(clientIntelProfiles.contactEmail, contactEmail));
+      return profile;
+    }, "getClientIntelProfileByEmail");
+  }
+
+  // Upsert by contact email. Only the given fields change, and analyses are
+  // merged per kind so one failed analysis doesn't wipe the others
+  async saveClientIntelProfile(
+    profile: InsertClientIntelProfile,
+  ): Promise<ClientIntelProfile> {
+    return await safeDbQuery(async () => {
+      const { contactEmail, aiAnalyses, ...rest } = profile;
+      const changes = Object.fromEntries(
+        Object.entries(rest).filter(([, value]) => value !== undefined),
+      );
+      const [saved] = await db
+        .insert(clientIntelProfiles)
+        .values(profile)
+        .onConflictDoUpdate({
+          target: clientIntelProfiles.contactEmail,
+          set: {
+            ...changes,
+            aiAnalyses: sql`${clientIntelProfiles.aiAnalyses} || ${JSON.stringify(aiAnalyses ?? {})}::jsonb`,
+            updatedAt: new Date(),
+          },
+        })
+        .returning();
+
+      if (!saved) {
+        throw new Error(`Failed to save client profile for ${contactEmail}`);
+      }
+      return saved;
+    }, "saveClientIntelProfile");
+  }
+
+  async getClientIntelProfile(
+    id: number,
+  ): Promise<ClientIntelProfile | undefined> {
+    return await safeDbQuery(async () => {
+      const [profile] = await db
+        .select()
+        .from(clientIntelProfiles)
+        .where(eq(clientIntelProfiles.id, id));
+      return profile;
+    }, "getClientIntelProfile");
+  }
+
+  // Client document vault; extracted text is left out of listings
+  async getClientDocuments(
+    clientProfileId: number,
+  ): Promise<ClientDocumentListItem[]> {
+    return await safeDbQuery(async () => {
+      const rows: Array<
+        Omit<ClientDocumentListItem, "uploadedByName" | "createdAt"> & {
+          firstName: string | null;
+          lastName: string | null;
+          email: string | null;
+          createdAt: Date;
+        }
+      > = await db
+        .select({
+          id: clientDocuments.id,
+          clientProfileId: clientDocuments.clientProfileId,
+          fileName: clientDocuments.fileName,
+          fileType: clientDocuments.fileType,
+          fileSize: clientDocuments.fileSize,
+          uploadedBy: clientDocuments.uploadedBy,
+          hasText: sql<boolean>`coalesce(length(${clientDocuments.extractedText}), 0) > 0`,
+          summary: clientDocuments.summary,
+          summaryStatus: clientDocuments.summaryStatus,
+          summaryError: clientDocuments.summaryError,
+          firstName: users.firstName,
+          lastName: users.lastName,
+          email: users.email,
+          createdAt: clientDocuments.createdAt,
+        })
+        .from(clientDocuments)
+        .leftJoin(users, eq(users.id, clientDocuments.uploadedBy))
+        .where(eq(clientDocuments.clientProfileId, clientProfileId))
+        .orderBy(desc(clientDocuments.createdAt));
+      return rows.map(({ firstName, lastName, email, ...r }) => ({
+        ...r,
+        uploadedByName:
+          [firstName, lastName].filter(Boolean).join(" ") || email,
+        createdAt: r.createdAt.toISOString(),
+      }));
+    }, "getClientDocuments");
+  }
+
+  async getClientDocument(id: number): Promise<ClientDocument | undefined> {
+    return await safeDbQuery(async () => {
+      const [document] = await db
+        .select()
+        .from(clientDocuments)
+        .where(eq(clientDocuments.id, id));
+      return document;
+    }, "getClientDocument");
+  }
+
+  async createClientDocument(
+    document: InsertClientDocument,
+  ): Promise<ClientDocument> {
+    return await safeDbQuery(async () => {
+      const [created] = await db
+        .insert(clientDocuments)
+        .values(document)
+        .returning();
+      return created;
+    }, "createClientDocument");
+  }
+
+  async updateClientDocument(
+    id: number,
+    changes: Partial<InsertClientDocument> & { summarizedAt?: Date | null },
+  ): Promise<ClientDocument | undefined> {
+    return await safeDbQuery(async () => {
+      const [updated] = await db
+        .update(clientDocuments)
+        .set(changes)
+        .where(eq(clientDocuments.id, id))
+        .returning();
+      return updated;
+    }, "updateClientDocument");
+  }
+
+  async deleteClientDocument(id: number): Promise<void> {
+    return await safeDbQuery(async () => {
+      await db.delete(clientDocuments).where(eq(clientDocuments.id, id));
+    }, "deleteClientDocument");
+  }
+
+  async createClientActivity(
+    activity: InsertClientActivity,
+  ): Promise<ClientActivity> {
+    return await safeDbQuery(async () => {
+      const [created] = await db
+        .insert(clientActivities)
+        .values(activity)
+        .returning();
+      return created;
+    }, "createClientActivity");
+  }
+
+  async getClientActivities(
+    clientProfileId: number,
+  ): Promise<ClientActivityRecord[]> {
+    return await safeDbQuery(async () => {
+      const rows: Array<
+        ClientActivity & {
+          firstName: string | null;
+          lastName: string | null;
+          email: string | null;
+        }
+      > = await db
+        .select({
+          id: clientActivities.id,
+          clientProfileId: clientActivities.clientProfileId,
+          activityType: clientActivities.activityType,
+          description: clientActivities.description,
+          userId: clientActivities.userId,
+          hubspotActivityId: clientActivities.hubspotActivityId,
+          activityDate: clientActivities.activityDate,
+          createdAt: clientActivities.createdAt,
+          firstName: users.firstName,
+          lastName: users.lastName,
+          email: users.email,
+        })
+        .from(clientActivities)
+        .leftJoin(users, eq(users.id, clientActivities.userId))
+        .where(eq(clientActivities.clientProfileId, clientProfileId))
+        .orderBy(desc(clientActivities.activityDate));
+      return rows.map(({ firstName, lastName, email, ...r }) => ({
+        ...r,
+        userName: [firstName, lastName].filter(Boolean).join(" ") || email,
+      }));
+    }, "getClientActivities");
+  }
+
+  async getApprovalEventsForContact(
+    contactEmail: string,
+  ): Promise<ContactApprovalEvent[]> {
+    return await safeDbQuery(async () => {
+      const rows: Array<
+        Omit<ContactApprovalEvent, "actorName"> & {
+          firstName: string | null;
+          lastName: string | null;
+          email: string | null;
+        }
+      > = await db
+        .select({
+          id: approvalRequestEvents.id,
+          approvalRequestId: approvalRequestEvents.approvalRequestId,
+          requestType: approvalRequests.type,
+          quoteId: approvalRequests.quoteId,
+          action: approvalRequestEvents.action,
+          note: approvalRequestEvents.note,
+          firstName: users.firstName,
+          lastName: users.lastName,
+          email: users.email,
+          createdAt: approvalRequestEvents.createdAt,
+        })
+        .from(approvalRequestEvents)
+        .innerJoin(
+          approvalRequests,
+          eq(approvalRequests.id, approvalRequestEvents.approvalRequestId),
+        )
+        .leftJoin(users, eq(users.id, approvalRequestEvents.actorId))
+        .where(eq(approvalRequests.contactEmail, contactEmail))
+        .orderBy(desc(approvalRequestEvents.createdAt));
+      return rows.map(({ firstName, lastName, email, ...r }) => ({
+        ...r,
+        actorName: [firstName, lastName].filter(Boolean).join(" ") || email,
+      }));
+    }, "getApprovalEventsForContact");
+  }
+
+  async getCommissionEventsForContact(
+    contactEmail: string,
+  ): Promise<ContactCommissionEvent[]> {
+    return await safeDbQuery(async () => {
+      const rows: Array<
+        Omit<ContactCommissionEvent, "salesRepName"> & {
+          firstName: string | null;
+          lastName: string | null;
+          email: string | null;
+        }
+      > = await db
+        .select({
+          id: commissions.id,
+          type: commissions.type,
+          status: commissions.status,
+          serviceType: commissions.serviceType,
+          dealName: deals.dealName,
+          firstName: users.firstName,
+          lastName: users.lastName,
+          email: users.email,
+          dateEarned: commissions.dateEarned,
+        })
+        .from(commissions)
+        .innerJoin(deals, eq(deals.id, commissions.dealId))
+        .leftJoin(salesReps, eq(salesReps.id, commissions.salesRepId))
+        .leftJoin(users, eq(users.id, salesReps.userId))
+        .where(eq(deals.contactEmail, contactEmail))
+        .orderBy(desc(commissions.dateEarned));
+      return rows.map(({ firstName, lastName, email, ...r }) => ({
+        ...r,
+        salesRepName: [firstName, lastName].filter(Boolean).join(" ") || email,
+      }));
+    }, "getCommissionEventsForContact");
+  }
+
   // Workspace Users - synced from Google Admin API
   async getAllWorkspaceUsers(): Promise<WorkspaceUser[]> {
     return await safeDbQuery(async () => {
@@ -1572,6 +3599,16 @@ export class DatabaseStorage implements IStorage {
     }, "getCommissionsByDeal");
   }
 
+  async getCommission(id: number): Promise<Commission | undefined> {
+    return await safeDbQuery(async () => {
+      const [commission] = await db
+        .select()
+        .from(commissions)
+        .where(eq(commissions.id, id));
+      return commission;
+    }, "getCommission");
+  }
+
   async createCommission(
     insertCommission: InsertCommission,
   ): Promise<Commission> {
@@ -1816,6 +3853,423 @@ export class DatabaseStorage implements IStorage {
     }, "updateMilestoneBonus");
   }
 
+  // Commission plans
+  async getCommissionPlans(): Promise<CommissionPlan[]> {
+    return await safeDbQuery(async () => {
+      return await db
+        .select()
+        .from(commissionPlans)
+        .orderBy(desc(commissionPlans.effectiveFrom));
+    }, "getCommissionPlans");
+  }
+
+  async getCommissionPlan(id: number): Promise<CommissionPlan | undefined> {
+    return await safeDbQuery(async () => {
+      const [plan] = await db
+        .select()
+        .from(commissionPlans)
+        .where(eq(commissionPlans.id, id));
+      return plan || undefined;
+    }, "getCommissionPlan");
+  }
+
+  async createCommissionPlan(
+    plan: InsertCommissionPlan,
+  ): Promise<CommissionPlan> {
+    return await safeDbQuery(async () => {
+      const [created] = await db
+        .insert(commissionPlans)
+        .values(plan)
+        .returning();
+
+      if (!created) {
+        throw new Error("Failed to create commission plan");
+      }
+      return created;
+    }, "createCommissionPlan");
+  }
+
+  async updateCommissionPlan(
+    id: number,
+    updateData: Partial<InsertCommissionPlan>,
+  ): Promise<CommissionPlan> {
+    return await safeDbQuery(async () => {
+      const [updated] = await db
+        .update(commissionPlans)
+        .set({ ...updateData, updatedAt: new Date() })
+        .where(eq(commissionPlans.id, id))
+        .returning();
+
+      if (!updated) {
+        throw new Error("Commission plan not found");
+      }
+      return updated;
+    }, "updateCommissionPlan");
+  }
+
+  async countCommissionsForPlan(planId: number): Promise<number> {
+    return await safeDbQuery(async () => {
+      const [result] = await db
+        .select({ total: count() })
+        .from(commissions)
+        .where(eq(commissions.commissionPlanId, planId));
+      return Number(result?.total ?? 0);
+    }, "countCommissionsForPlan");
+  }
+
+  async getSalesRepCommissionPlans(
+    salesRepId?: number,
+  ): Promise<SalesRepCommissionPlan[]> {
+    return await safeDbQuery(async () => {
+      return await db
+        .select()
+        .from(salesRepCommissionPlans)
+        .where(
+          salesRepId
+            ? eq(salesRepCommissionPlans.salesRepId, salesRepId)
+            : undefined,
+        )
+        .orderBy(desc(salesRepCommissionPlans.effectiveFrom));
+    }, "getSalesRepCommissionPlans");
+  }
+
+  async assignCommissionPlan(
+    assignment: InsertSalesRepCommissionPlan,
+  ): Promise<SalesRepCommissionPlan> {
+    return await safeDbQuery(async () => {
+      // The open assignment keeps covering everything earned before the switch
+      await db
+        .update(salesRepCommissionPlans)
+        .set({ effectiveTo: assignment.effectiveFrom })
+        .where(
+          and(
+            eq(salesRepCommissionPlans.salesRepId, assignment.salesRepId),
+            isNull(salesRepCommissionPlans.effectiveTo),
+          ),
+        );
+
+      const [created] = await db
+        .insert(salesRepCommissionPlans)
+        .values(assignment)
+        .returning();
+
+      if (!created) {
+        throw new Error("Failed to assign commission plan");
+      }
+      return created;
+    }, "assignCommissionPlan");
+  }
+
+  // Commission payout runs
+  async getPayoutRuns(): Promise<CommissionPayoutRun[]> {
+    return await safeDbQuery(async () => {
+      return await db
+        .select()
+        .from(commissionPayoutRuns)
+        .orderBy(desc(commissionPayoutRuns.periodStart));
+    }, "getPayoutRuns");
+  }
+
+  async getPayoutRun(id: number): Promise<CommissionPayoutRun | undefined> {
+    return await safeDbQuery(async () => {
+      const [run] = await db
+        .select()
+        .from(commissionPayoutRuns)
+        .where(eq(commissionPayoutRuns.id, id));
+      return run;
+    }, "getPayoutRun");
+  }
+
+  // Commissions not yet in a run, including carry-over from earlier periods
+  async getUnpaidCommissionsEarnedBefore(before: Date): Promise<Commission[]> {
+    return await safeDbQuery(async () => {
+      return await db
+        .select()
+        .from(commissions)
+        .where(
+          and(
+            isNull(commissions.payoutRunId),
+            notInArray(commissions.status, ["paid", "rejected"]),
+            lte(commissions.dateEarned, before),
+          ),
+        )
+        .orderBy(asc(commissions.dateEarned));
+    }, "getUnpaidCommissionsEarnedBefore");
+  }
+
+  async getUnsettledReversals(): Promise<CommissionAdjustment[]> {
+    return await safeDbQuery(async () => {
+      return await db
+        .select()
+        .from(commissionAdjustments)
+        .where(
+          and(
+            eq(commissionAdjustments.type, "reversal"),
+            eq(commissionAdjustments.status, "approved"),
+            isNull(commissionAdjustments.payoutRunId),
+          ),
+        )
+        .orderBy(asc(commissionAdjustments.requestedDate));
+    }, "getUnsettledReversals");
+  }
+
+  async getHubspotInvoicesWithLineItems(
+    ids: number[],
+  ): Promise<Array<HubspotInvoice & { lineItems: HubspotInvoiceLineItem[] }>> {
+    return await safeDbQuery(async () => {
+      if (ids.length === 0) return [];
+      const [invoices, lineItems]: [
+        HubspotInvoice[],
+        HubspotInvoiceLineItem[],
+      ] = await Promise.all([
+        db
+          .select()
+          .from(hubspotInvoices)
+          .where(inArray(hubspotInvoices.id, ids)),
+        db
+          .select()
+          .from(hubspotInvoiceLineItems)
+          .where(inArray(hubspotInvoiceLineItems.invoiceId, ids)),
+      ]);
+      return invoices.map((invoice) => ({
+        ...invoice,
+        lineItems: lineItems.filter((li) => li.invoiceId === invoice.id),
+      }));
+    }, "getHubspotInvoicesWithLineItems");
+  }
+
+  async lockPayoutRun(
+    run: InsertCommissionPayoutRun,
+    statements: Omit<InsertCommissionPayoutStatement, "payoutRunId">[],
+    commissionIds: number[],
+    reversalIds: number[],
+  ): Promise<CommissionPayoutRun> {
+    return await safeDbQuery(async () => {
+      // All-or-nothing: a half-locked period would pay some commissions twice
+      return await db.transaction(async (tx: typeof db) => {
+        const [created] = await tx
+          .insert(commissionPayoutRuns)
+          .values(run)
+          .returning();
+        if (!created) {
+          throw new Error("Failed to create payout run");
+        }
+
+        if (statements.length > 0) {
+          await tx
+            .insert(commissionPayoutStatements)
+            .values(
+              statements.map((st) => ({ ...st, payoutRunId: created.id })),
+            );
+        }
+        if (commissionIds.length > 0) {
+          await tx
+            .update(commissions)
+            .set({
+              payoutRunId: created.id,
+              status: "processing",
+              updatedAt: new Date(),
+            })
+            .where(inArray(commissions.id, commissionIds));
+        }
+        if (reversalIds.length > 0) {
+          await tx
+            .update(commissionAdjustments)
+            .set({ payoutRunId: created.id, updatedAt: new Date() })
+            .where(inArray(commissionAdjustments.id, reversalIds));
+        }
+        return created;
+      });
+    }, "lockPayoutRun");
+  }
+
+  async markPayoutRunPaid(
+    id: number,
+    paidBy: number,
+  ): Promise<CommissionPayoutRun> {
+    return await safeDbQuery(async () => {
+      const paidAt = new Date();
+      return await db.transaction(async (tx: typeof db) => {
+        const [updated] = await tx
+          .update(commissionPayoutRuns)
+          .set({ status: "paid", paidBy, paidAt, updatedAt: paidAt })
+          .where(eq(commissionPayoutRuns.id, id))
+          .returning();
+        if (!updated) {
+          throw new Error("Payout run not found");
+        }
+        await tx
+          .update(commissions)
+          .set({ status: "paid", datePaid: paidAt, updatedAt: paidAt })
+          .where(eq(commissions.payoutRunId, id));
+        return updated;
+      });
+    }, "markPayoutRunPaid");
+  }
+
+  async getPayoutStatements(
+    payoutRunId: number,
+  ): Promise<CommissionPayoutStatement[]> {
+    return await safeDbQuery(async () => {
+      return await db
+        .select()
+        .from(commissionPayoutStatements)
+        .where(eq(commissionPayoutStatements.payoutRunId, payoutRunId));
+    }, "getPayoutStatements");
+  }
+
+  async getCancelledHubspotSubscriptions(): Promise<HubspotSubscription[]> {
+    return await safeDbQuery(async () => {
+      return await db
+        .select()
+        .from(hubspotSubscriptions)
+        .where(eq(hubspotSubscriptions.status, "cancelled"));
+    }, "getCancelledHubspotSubscriptions");
+  }
+
+  async getCancelledHubspotInvoices(
+    statuses: string[],
+  ): Promise<HubspotInvoice[]> {
+    return await safeDbQuery(async () => {
+      return await db
+        .select()
+        .from(hubspotInvoices)
+        .where(inArray(hubspotInvoices.status, statuses));
+    }, "getCancelledHubspotInvoices");
+  }
+
+  // Commissions earned on an invoice or subscription; a subscription also
+  // covers invoices from the deal that created it
+  async getCommissionsForClawbackSource(source: {
+    hubspotInvoiceId?: number;
+    hubspotSubscriptionId?: number;
+    hubspotDealId?: string | null;
+  }): Promise<Commission[]> {
+    return await safeDbQuery(async () => {
+      const links = [];
+      if (source.hubspotInvoiceId !== undefined) {
+        links.push(eq(commissions.hubspotInvoiceId, source.hubspotInvoiceId));
+      }
+      if (source.hubspotSubscriptionId !== undefined) {
+        links.push(
+          eq(commissions.hubspotSubscriptionId, source.hubspotSubscriptionId),
+        );
+      }
+      if (source.hubspotDealId) {
+        links.push(
+          inArray(
+            commissions.hubspotInvoiceId,
+            db
+              .select({ id: hubspotInvoices.id })
+              .from(hubspotInvoices)
+              .where(eq(hubspotInvoices.hubspotDealId, source.hubspotDealId)),
+          ),
+        );
+      }
+      if (links.length === 0) return [];
+      return await db
+        .select()
+        .from(commissions)
+        .where(and(ne(commissions.type, "clawback"), or(...links)))
+        .orderBy(asc(commissions.dateEarned));
+    }, "getCommissionsForClawbackSource");
+  }
+
+  async getClawbackCommissions(): Promise<Commission[]> {
+    return await safeDbQuery(async () => {
+      return await db
+        .select()
+        .from(commissions)
+        .where(eq(commissions.type, "clawback"))
+        .orderBy(desc(commissions.dateEarned));
+    }, "getClawbackCommissions");
+  }
+
+  // A commission already clawed back is skipped (unique clawback_of_commission_id)
+  async createClawbackCommissions(
+    entries: InsertCommission[],
+  ): Promise<Commission[]> {
+    return await safeDbQuery(async () => {
+      if (entries.length === 0) return [];
+      return await db
+        .insert(commissions)
+        .values(entries)
+        .onConflictDoNothing()
+        .returning();
+    }, "createClawbackCommissions");
+  }
+
+  async getCommissionProductMappings(): Promise<CommissionProductMapping[]> {
+    return await safeDbQuery(async () => {
+      return await db
+        .select()
+        .from(commissionProductMappings)
+        .orderBy(asc(commissionProductMappings.hubspotProductId));
+    }, "getCommissionProductMappings");
+  }
+
+  async upsertCommissionProductMapping(
+    mapping: InsertCommissionProductMapping,
+  ): Promise<CommissionProductMapping> {
+    return await safeDbQuery(async () => {
+      const { hubspotProductId, createdBy, ...rest } = mapping;
+      const [saved] = await db
+        .insert(commissionProductMappings)
+        .values(mapping)
+        .onConflictDoUpdate({
+          target: commissionProductMappings.hubspotProductId,
+          set: { ...rest, updatedAt: new Date() },
+        })
+        .returning();
+
+      if (!saved) {
+        throw new Error(
+          `Failed to save mapping for product ${hubspotProductId}`,
+        );
+      }
+      return saved;
+    }, "upsertCommissionProductMapping");
+  }
+
+  async deleteCommissionProductMapping(id: number): Promise<boolean> {
+    return await safeDbQuery(async () => {
+      const deleted = await db
+        .delete(commissionProductMappings)
+        .where(eq(commissionProductMappings.id, id))
+        .returning({ id: commissionProductMappings.id });
+      return deleted.length > 0;
+    }, "deleteCommissionProductMapping");
+  }
+
+  async getInvoiceLineItemsWithInvoice(): Promise<
+    Array<
+      HubspotInvoiceLineItem & {
+        invoiceNumber: string | null;
+        companyName: string | null;
+      }
+    >
+  > {
+    return await safeDbQuery(async () => {
+      const rows: Array<{
+        line: HubspotInvoiceLineItem;
+        invoiceNumber: string | null;
+        companyName: string | null;
+      }> = await db
+        .select({
+          line: hubspotInvoiceLineItems,
+          invoiceNumber: hubspotInvoices.invoiceNumber,
+          companyName: hubspotInvoices.companyName,
+        })
+        .from(hubspotInvoiceLineItems)
+        .innerJoin(
+          hubspotInvoices,
+          eq(hubspotInvoiceLineItems.invoiceId, hubspotInvoices.id),
+        )
+        .orderBy(desc(hubspotInvoiceLineItems.createdAt));
+      return rows.map(({ line, ...invoice }) => ({ ...line, ...invoice }));
+    }, "getInvoiceLineItemsWithInvoice");
+  }
+
   // Pricing Configuration Methods Implementation
   async getAllPricingBase(): Promise<PricingBase[]> {
     return await safeDbQuery(async () => {
@@ -2280,6 +4734,257 @@ export class DatabaseStorage implements IStorage {
       return await query.orderBy(desc(pricingHistory.createdAt));
     }, "getPricingHistory");
   }
+
+  async recordPricingHistory(
+    entry: InsertPricingHistory,
+  ): Promise<PricingHistory> {
+    return await safeDbQuery(async () => {
+      const [created] = await db
+        .insert(pricingHistory)
+        .values(entry)
+        .returning();
+      if (!created) {
+        throw new Error("Failed to record pricing history");
+      }
+      return created;
+    }, "recordPricingHistory");
+  }
+
+  async getPricingConfigVersions(): Promise<PricingConfigVersion[]> {
+    return await safeDbQuery(async () => {
+      return await db
+        .select()
+        .from(pricingConfigVersions)
+        .orderBy(desc(pricingConfigVersions.version));
+    }, "getPricingConfigVersions");
+  }
+
+  async getPublishedPricingConfigVersions(): Promise<PricingConfigVersion[]> {
+    return await safeDbQuery(async () => {
+      return await db
+        .select()
+        .from(pricingConfigVersions)
+        .where(eq(pricingConfigVersions.status, "published"))
+        .orderBy(desc(pricingConfigVersions.effectiveFrom));
+    }, "getPublishedPricingConfigVersions");
+  }
+
+  async getPricingConfigVersion(
+    id: number,
+  ): Promise<PricingConfigVersion | undefined> {
+    return await safeDbQuery(async () => {
+      const [result] = await db
+        .select()
+        .from(pricingConfigVersions)
+        .where(eq(pricingConfigVersions.id, id));
+      return result || undefined;
+    }, "getPricingConfigVersion");
+  }
+
+  // Numbers the draft max(version)+1. Two admins creating at once can read
+  // the same max; the unique index on version rejects the second insert and
+  // it retries with the next number.
+  async createPricingConfigVersion(
+    versionData: Omit<InsertPricingConfigVersion, "version" | "status">,
+  ): Promise<PricingConfigVersion> {
+    return await safeDbQuery(async () => {
+      for (let attempt = 1; ; attempt++) {
+        try {
+          return await db.transaction(async (tx: typeof db) => {
+            const [{ maxVersion }] = await tx
+              .select({
+                maxVersion: sql<number>`coalesce(max(${pricingConfigVersions.version}), 0)`,
+              })
+              .from(pricingConfigVersions);
+
+            const [created] = await tx
+              .insert(pricingConfigVersions)
+              .values({
+                ...versionData,
+                version: Number(maxVersion) + 1,
+                status: "draft",
+              })
+              .returning();
+
+            if (!created) {
+              throw new Error("Failed to create pricing config version");
+            }
+            return created;
+          });
+        } catch (error) {
+          if (
+            !isUniqueViolation(error) ||
+            attempt >= PRICING_VERSION_CREATE_ATTEMPTS
+          ) {
+            throw error;
+          }
+        }
+      }
+    }, "createPricingConfigVersion");
+  }
+
+  async updatePricingConfigVersionDraft(
+    id: number,
+    updateData: Partial<
+      Pick<InsertPricingConfigVersion, "label" | "notes" | "configJson">
+    >,
+  ): Promise<PricingConfigVersion> {
+    return await safeDbQuery(async () => {
+      const [updated] = await db
+        .update(pricingConfigVersions)
+        .set({ ...updateData, updatedAt: new Date() })
+        .where(
+          and(
+            eq(pricingConfigVersions.id, id),
+            eq(pricingConfigVersions.status, "draft"),
+          ),
+        )
+        .returning();
+
+      if (!updated) {
+        throw new Error("Pricing config draft not found or already published");
+      }
+      return updated;
+    }, "updatePricingConfigVersionDraft");
+  }
+
+  async deletePricingConfigVersionDraft(id: number): Promise<void> {
+    return await safeDbQuery(async () => {
+      const deleted = await db
+        .delete(pricingConfigVersions)
+        .where(
+          and(
+            eq(pricingConfigVersions.id, id),
+            eq(pricingConfigVersions.status, "draft"),
+          ),
+        )
+        .returning({ id: pricingConfigVersions.id });
+
+      if (deleted.length === 0) {
+        throw new Error("Pricing config draft not found or already published");
+      }
+    }, "deletePricingConfigVersionDraft");
+  }
+
+  async publishPricingConfigVersion(
+    id: number,
+    effectiveFrom: Date,
+    publishedBy: number,
+  ): Promise<PricingConfigVersion> {
+    return await safeDbQuery(async () => {
+      const [published] = await db
+        .update(pricingConfigVersions)
+        .set({
+          status: "published",
+          effectiveFrom,
+          publishedBy,
+          publishedAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(
+          and(
+            eq(pricingConfigVersions.id, id),
+            eq(pricingConfigVersions.status, "draft"),
+          ),
+        )
+        .returning();
+
+      if (!published) {
+        throw new Error("Pricing config draft not found or already published");
+      }
+
+      await db.insert(pricingHistory).values({
+        tableAffected: "pricing_config_versions",
+        recordId: id,
+        fieldChanged: "status",
+        oldValue: "draft",
+        newValue: "published",
+        changedBy: publishedBy,
+        changeReason: `Version ${published.version} effective ${effectiveFrom.toISOString()}`,
+      });
+
+      return published;
+    }, "publishPricingConfigVersion");
+  }
+
+  async getPromoCodes(): Promise<PromoCode[]> {
+    return await safeDbQuery(async () => {
+      return await db
+        .select()
+        .from(promoCodes)
+        .orderBy(desc(promoCodes.createdAt));
+    }, "getPromoCodes");
+  }
+
+  async getPromoCodeByCode(code: string): Promise<PromoCode | undefined> {
+    return await safeDbQuery(async () => {
+      const [result] = await db
+        .select()
+        .from(promoCodes)
+        .where(eq(promoCodes.code, code.trim().toUpperCase()));
+      return result || undefined;
+    }, "getPromoCodeByCode");
+  }
+
+  async createPromoCode(promo: InsertPromoCode): Promise<PromoCode> {
+    return await safeDbQuery(async () => {
+      const [created] = await db
+        .insert(promoCodes)
+        .values({ ...promo, code: promo.code.trim().toUpperCase() })
+        .returning();
+
+      if (!created) {
+        throw new Error("Failed to create promo code");
+      }
+      return created;
+    }, "createPromoCode");
+  }
+
+  async updatePromoCode(
+    id: number,
+    updateData: Partial<InsertPromoCode>,
+  ): Promise<PromoCode> {
+    return await safeDbQuery(async () => {
+      const [updated] = await db
+        .update(promoCodes)
+        .set({
+          ...updateData,
+          ...(updateData.code
+            ? { code: updateData.code.trim().toUpperCase() }
+            : {}),
+          updatedAt: new Date(),
+        })
+        .where(eq(promoCodes.id, id))
+        .returning();
+
+      if (!updated) {
+        throw new Error("Promo code not found");
+      }
+      return updated;
+    }, "updatePromoCode");
+  }
+
+  // Count one use; false when the code is inactive, expired or used up
+  async redeemPromoCode(id: number): Promise<boolean> {
+    return await safeDbQuery(async () => {
+      const redeemed = await db
+        .update(promoCodes)
+        .set({
+          usesCount: sql`${promoCodes.usesCount} + 1`,
+          updatedAt: new Date(),
+        })
+        .where(
+          and(
+            eq(promoCodes.id, id),
+            eq(promoCodes.isActive, true),
+            sql`(${promoCodes.expiresAt} IS NULL OR ${promoCodes.expiresAt} > NOW())`,
+            sql`(${promoCodes.maxUses} IS NULL OR ${promoCodes.usesCount} < ${promoCodes.maxUses})`,
+          ),
+        )
+        .returning({ id: promoCodes.id });
+      return redeemed.length > 0;
+    }, "redeemPromoCode");
+  }
 }
 
 // Export a function that creates the storage instance
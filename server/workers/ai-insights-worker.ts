@@ -1,8 +1,14 @@
 // AI Insights Worker for processing expensive AI operations
 import { Worker, Job } from "bullmq";
 import Redis from "ioredis";
-import { AIInsightsJobData, JobResult, updateQueueMetrics } from "../queue.js";
+import {
+  AIInsightsJobData,
+  ClientDocumentSummaryJobData,
+  JobResult,
+  updateQueueMetrics,
+} from "../queue.js";
 import { clientIntelEngine } from "../client-intel";
+import { summarizeClientDocument } from "../client-documents";
 
 let workerRedis: Redis | null = null;
 
@@ -52,56 +58,28 @@ async function processAIInsights(
 
     // Generate AI insights using the intelligence engine (expensive operations)
     console.log(
-      `[Worker] Starting pain points analysis for ${clientData.companyName}:`,
+      `[Worker] Starting AI analysis for ${clientData.companyName}:`,
       {
         companyName: clientData.companyName,
         industry: clientData.industry,
         services: clientData.services,
       },
     );
-    const painPointsPromise = clientIntelEngine.extractPainPoints(clientData);
-    await job.updateProgress(50);
-
-    console.log(
-      `[Worker] Starting service gaps analysis for ${clientData.companyName}`,
-    );
-    const serviceGapsPromise = clientIntelEngine.detectServiceGaps(clientData);
-    await job.updateProgress(75);
-
-    console.log(
-      `[Worker] Starting risk score calculation for ${clientData.companyName}`,
+    const result: JobResult = await clientIntelEngine.generateInsights(
+      clientData,
+      job.data.contactId,
+      job.data.userId,
     );
-    const riskScorePromise = clientIntelEngine.calculateRiskScore(clientData);
-
-    // Wait for all AI operations to complete
-    console.log(`[Worker] Waiting for all AI operations to complete...`);
-    const [painPoints, serviceGaps, riskScore] = await Promise.all([
-      painPointsPromise,
-      serviceGapsPromise,
-      riskScorePromise,
-    ]);
 
     console.log(`[Worker] AI operations completed:`, {
-      painPointsCount: painPoints?.length || 0,
-      painPoints: painPoints,
-      serviceGapsCount: serviceGaps?.length || 0,
-      serviceGaps: serviceGaps,
-      riskScore: riskScore,
+      painPointsCount: result.painPoints.length,
+      serviceGapsCount: result.signals.length,
+      riskScore: result.riskScore,
+      analysis: result.analysis,
     });
 
     await job.updateProgress(100);
 
-    const result: JobResult = {
-      painPoints,
-      upsellOpportunities: serviceGaps.map(
-        (signal: any) =>
-          `${signal.title} - ${signal.estimatedValue || "Pricing TBD"}`,
-      ),
-      riskScore,
-      lastAnalyzed: new Date().toISOString(),
-      signals: serviceGaps,
-    };
-
     const processingTime = Date.now() - startTime;
     updateQueueMetrics(processingTime, false);
 
@@ -130,6 +108,39 @@ async function processAIInsights(
   }
 }
 
+// Summarise an uploaded client document
+async function processDocumentSummary(
+  job: Job<ClientDocumentSummaryJobData>,
+): Promise<{ documentId: number; summaryStatus: string | null }> {
+  const startTime = Date.now();
+  try {
+    const document = await summarizeClientDocument(job.data.documentId);
+    updateQueueMetrics(Date.now() - startTime, false);
+    console.log(
+      `[Worker] ✅ Summarised document ${job.data.documentId} (${document?.summaryStatus ?? "deleted"})`,
+    );
+    return {
+      documentId: job.data.documentId,
+      summaryStatus: document?.summaryStatus ?? null,
+    };
+  } catch (error) {
+    updateQueueMetrics(Date.now() - startTime, true);
+    console.error(
+      `[Worker] ❌ Document summary failed for ${job.data.documentId}:`,
+      error,
+    );
+    throw error;
+  }
+}
+
+// Document summaries share the queue; every other job is an insights run
+async function processJob(job: Job): Promise<unknown> {
+  if (job.name === "summarize-document") {
+    return await processDocumentSummary(job);
+  }
+  return await processAIInsights(job);
+}
+
 // Create and start the worker
 export async function startAIInsightsWorker(): Promise<Worker | null> {
   await initializeWorkerRedis();
@@ -139,7 +150,7 @@ export async function startAIInsightsWorker(): Promise<Worker | null> {
     return null;
   }
 
-  const worker = new Worker("ai-insights", processAIInsights, {
+  const worker = new Worker("ai-insights", processJob, {
     connection: workerRedis!,
     concurrency: 2, // Process up to 2 jobs concurrently
     removeOnComplete: { count: 100 },
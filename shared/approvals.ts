@@ -0,0 +1,136 @@
+import { z } from "zod";
+
+// Approval requests for quote overrides. Reps request, admins decide from the
+// approval queue (or via the Slack links into it), and the quote save consumes
+// the approved request.
+
+export const APPROVAL_REQUEST_TYPES = [
+  "duplicate_quote",
+  "cleanup_override",
+  "discount",
+] as const;
+export type ApprovalRequestType = (typeof APPROVAL_REQUEST_TYPES)[number];
+
+export const APPROVAL_REQUEST_TYPE_LABELS: Record<ApprovalRequestType, string> =
+  {
+    duplicate_quote: "Additional quote",
+    cleanup_override: "Cleanup override",
+    discount: "Discount",
+  };
+
+export const APPROVAL_STATUSES = [
+  "pending",
+  "approved",
+  "rejected",
+  "cancelled",
+  "used",
+] as const;
+export type ApprovalStatus = (typeof APPROVAL_STATUSES)[number];
+
+export type ApprovalEventAction =
+  "requested" | "approved" | "rejected" | "cancelled" | "used";
+
+// How long an approval stays usable after the decision
+export const APPROVAL_VALID_HOURS = 24;
+
+// Largest quote snapshot we keep with a request
+export const MAX_QUOTE_SNAPSHOT_CHARS = 50_000;
+
+export const RequestedOverrideSchema = z
+  .object({
+    // Discount approvals cover manual discounts up to this percent
+    maxDiscountPct: z.number().min(0).max(100).optional(),
+  })
+  .strict();
+export type RequestedOverride = z.infer<typeof RequestedOverrideSchema>;
+
+export const CreateApprovalRequestSchema = z
+  .object({
+    type: z.enum(APPROVAL_REQUEST_TYPES),
+    contactEmail: z.string().trim().email(),
+    quoteId: z.number().int().positive().optional(),
+    reason: z.string().trim().min(1, "A reason is required").max(1000),
+    requestedOverride: RequestedOverrideSchema.optional(),
+    quoteSnapshot: z.record(z.unknown()).optional(),
+  })
+  .refine(
+    (r) =>
+      r.type !== "discount" ||
+      r.requestedOverride?.maxDiscountPct !== undefined,
+    {
+      message: "Discount approvals need the requested discount percent",
+      path: ["requestedOverride", "maxDiscountPct"],
+    },
+  );
+export type CreateApprovalRequest = z.infer<typeof CreateApprovalRequestSchema>;
+
+export const ApprovalDecisionSchema = z.object({
+  decision: z.enum(["approve", "reject"]),
+  note: z.string().trim().max(1000).optional(),
+});
+export type ApprovalDecision = z.infer<typeof ApprovalDecisionSchema>;
+
+export function parseRequestedOverride(
+  json: string | null | undefined,
+): RequestedOverride {
+  if (!json) return {};
+  try {
+    const parsed = RequestedOverrideSchema.safeParse(JSON.parse(json));
+    return parsed.success ? parsed.data : {};
+  } catch {
+    return {};
+  }
+}
+
+export interface ApprovalRequestLike {
+  type: string;
+  status: string;
+  requestedBy: number;
+  contactEmail: string;
+  quoteId: number | null;
+  expiresAt: Date | string | null;
+  requestedOverrideJson: string | null;
+}
+
+// Why an approval cannot cover this save; null when it can
+export function approvalUnusableReason(
+  request: ApprovalRequestLike,
+  use: {
+    type: ApprovalRequestType;
+    contactEmail: string;
+    quoteId?: number | null;
+    discountPct?: number;
+    actorId: number;
+  },
+  now: Date = new Date(),
+): string | null {
+  if (request.type !== use.type) {
+    return "Approval was granted for a different override";
+  }
+  if (request.requestedBy !== use.actorId) {
+    return "Approval was requested by another rep";
+  }
+  if (
+    request.contactEmail.trim().toLowerCase() !==
+    use.contactEmail.trim().toLowerCase()
+  ) {
+    return "Approval was granted for a different contact";
+  }
+  if (request.quoteId && use.quoteId && request.quoteId !== use.quoteId) {
+    return "Approval was granted for a different quote";
+  }
+  if (request.status === "pending") return "Approval is still pending";
+  if (request.status === "used") return "Approval has already been used";
+  if (request.status !== "approved") return `Approval was ${request.status}`;
+  if (request.expiresAt && new Date(request.expiresAt) <= now) {
+    return "Approval has expired";
+  }
+  if (use.type === "discount" && use.discountPct !== undefined) {
+    const approvedPct =
+      parseRequestedOverride(request.requestedOverrideJson).maxDiscountPct ?? 0;
+    if (use.discountPct > approvedPct) {
+      return `Approval covers discounts up to ${approvedPct}%`;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,99 @@
+import type { AssistantCitation } from "./assistant-retrieval";
+
+// Seed Assistant conversation threads: one mode per thread, stored per user,
+// resumable and shareable by link. Answers can be rated up or down.
+
+export const ASSISTANT_MODES = ["sell", "support"] as const;
+export type AssistantMode = (typeof ASSISTANT_MODES)[number];
+
+export const ASSISTANT_FEEDBACK_RATINGS = ["up", "down"] as const;
+export type AssistantFeedbackRating =
+  (typeof ASSISTANT_FEEDBACK_RATINGS)[number];
+
+export type AssistantMessageRole = "user" | "assistant";
+
+// Earlier turns sent back to the model with each question
+export const ASSISTANT_HISTORY_MAX_MESSAGES = 12;
+export const ASSISTANT_HISTORY_MAX_CHARS = 8_000;
+
+export interface AssistantHistoryMessage {
+  role: AssistantMessageRole;
+  content: string;
+}
+
+export interface AssistantMessageView {
+  id: number;
+  role: AssistantMessageRole;
+  content: string;
+  citations: AssistantCitation[];
+  createdAt: string;
+  feedback: { rating: AssistantFeedbackRating; comment: string | null } | null;
+}
+
+export interface AssistantConversationDetail {
+  id: number;
+  userId: number;
+  mode: AssistantMode;
+  title: string;
+  shareToken: string | null;
+  createdAt: string;
+  updatedAt: string;
+  ownerName: string | null;
+  messages: AssistantMessageView[];
+}
+
+// A thumbs-down answer with the question that prompted it
+export interface LowRatedAssistantAnswer {
+  feedbackId: number;
+  messageId: number;
+  conversationId: number;
+  mode: AssistantMode;
+  question: string | null;
+  answer: string;
+  citations: AssistantCitation[];
+  comment: string | null;
+  ratedBy: string | null;
+  ratedAt: string;
+}
+
+export function assistantConversationTitle(question: string): string {
+  const firstLine = question.trim().split("\n")[0]!.trim();
+  return firstLine.length > 80
+    ? `${firstLine.slice(0, 77).trimEnd()}...`
+    : firstLine || "New conversation";
+}
+
+/**
+ * Transcript of the most recent turns for the prompt. Older turns are dropped
+ * first; a single over-long message is truncated rather than dropped so the
+ * latest exchange always survives.
+ */
+export function assistantHistoryPrompt(
+  messages: AssistantHistoryMessage[],
+  maxMessages = ASSISTANT_HISTORY_MAX_MESSAGES,
+  maxChars = ASSISTANT_HISTORY_MAX_CHARS,
+): string {
+  const lines: string[] = [];
+  let total = 0;
+  for (const message of messages.slice(-maxMessages).reverse()) {
+    const speaker = message.role === "user" ? "User" : "Assistant";
+    let line = `${speaker}: ${message.content.trim()}`;
+    if (total + line.length > maxChars) {
+      if (lines.length > 0) break;
+      line = `${line.slice(0, maxChars - 3)}...`;
+    }
+    lines.unshift(line);
+    total += line.length;
+  }
+  return lines.join("\n\n");
+}
+
+// Follow-ups like "what about for S corps?" retrieve poorly on their own, so
+// the previous question is searched along with the new one
+export function assistantRetrievalQuery(
+  history: AssistantHistoryMessage[],
+  question: string,
+): string {
+  const previous = [...history].reverse().find((m) => m.role === "user");
+  return previous ? `${previous.content}\n${question}` : question;
+}
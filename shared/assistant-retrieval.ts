@@ -0,0 +1,171 @@
+// Seed Assistant retrieval: passages from published KB articles and approved
+// Box client folders are chunked, embedded and ranked against the question,
+// so only the most relevant text goes into the prompt. Pure helpers here;
+// embedding and storage live on the server.
+
+export const ASSISTANT_SOURCE_TYPES = ["kb_article", "box_file"] as const;
+export type AssistantSourceType = (typeof ASSISTANT_SOURCE_TYPES)[number];
+
+// A document to be indexed (or searched in place, for ad-hoc attachments)
+export interface AssistantSource {
+  sourceType: AssistantSourceType;
+  sourceId: string;
+  title: string;
+  url: string;
+  text: string;
+}
+
+export interface AssistantPassage {
+  sourceType: AssistantSourceType;
+  sourceId: string;
+  title: string;
+  url: string;
+  chunkIndex: number;
+  content: string;
+  embedding: number[];
+}
+
+export interface AssistantCitation {
+  index: number; // [n] marker used in the prompt and answer
+  sourceType: AssistantSourceType;
+  sourceId: string;
+  name: string;
+  url: string;
+}
+
+export interface RankedPassage extends AssistantPassage {
+  score: number;
+}
+
+export const ASSISTANT_CHUNK_MAX_CHARS = 1200;
+export const ASSISTANT_CHUNK_OVERLAP_CHARS = 200;
+
+/**
+ * Split document text into overlapping chunks on paragraph boundaries.
+ * Paragraphs longer than a chunk are cut on sentence or word boundaries; each
+ * chunk after the first repeats the tail of the previous one so a passage
+ * split across chunks is still retrievable.
+ */
+export function chunkAssistantText(
+  text: string,
+  maxChars = ASSISTANT_CHUNK_MAX_CHARS,
+  overlapChars = ASSISTANT_CHUNK_OVERLAP_CHARS,
+): string[] {
+  const pieces: string[] = [];
+  for (const paragraph of text.split(/\n\s*\n|\n/)) {
+    let rest = paragraph.replace(/\s+/g, " ").trim();
+    while (rest.length > maxChars) {
+      const window = rest.slice(0, maxChars);
+      const cut = Math.max(
+        window.lastIndexOf(". ") + 1,
+        window.lastIndexOf(" ", maxChars - 1),
+      );
+      const at = cut > maxChars / 2 ? cut : maxChars;
+      pieces.push(rest.slice(0, at).trim());
+      rest = rest.slice(at).trim();
+    }
+    if (rest) pieces.push(rest);
+  }
+
+  const chunks: string[] = [];
+  let current = "";
+  for (const piece of pieces) {
+    if (current && current.length + piece.length + 1 > maxChars) {
+      chunks.push(current);
+      const tail = current.slice(-overlapChars);
+      const space = tail.indexOf(" ");
+      const overlap = space >= 0 ? tail.slice(space + 1) : "";
+      current =
+        overlap && overlap.length + piece.length + 1 <= maxChars
+          ? `${overlap}\n${piece}`
+          : piece;
+    } else {
+      current = current ? `${current}\n${piece}` : piece;
+    }
+  }
+  if (current) chunks.push(current);
+  return chunks;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i]! * b[i]!;
+    normA += a[i]! * a[i]!;
+    normB += b[i]! * b[i]!;
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+export interface RankPassageOptions {
+  limit?: number;
+  minScore?: number;
+  maxPerSource?: number; // Keep one long document from crowding out the rest
+}
+
+export function rankAssistantPassages(
+  queryEmbedding: number[],
+  passages: AssistantPassage[],
+  { limit = 8, minScore = 0.2, maxPerSource = 3 }: RankPassageOptions = {},
+): RankedPassage[] {
+  const ranked = passages
+    .map((p) => ({
+      ...p,
+      score: cosineSimilarity(queryEmbedding, p.embedding),
+    }))
+    .filter((p) => p.score >= minScore)
+    .sort((a, b) => b.score - a.score);
+
+  const perSource = new Map<string, number>();
+  const picked: RankedPassage[] = [];
+  for (const passage of ranked) {
+    const key = `${passage.sourceType}:${passage.sourceId}`;
+    const used = perSource.get(key) ?? 0;
+    if (used >= maxPerSource) continue;
+    perSource.set(key, used + 1);
+    picked.push(passage);
+    if (picked.length >= limit) break;
+  }
+  return picked;
+}
+
+/**
+ * Prompt context for the ranked passages, numbered by source so the model
+ * can cite [n], plus the matching citation list (one entry per source).
+ */
+export function buildAssistantContext(passages: RankedPassage[]): {
+  context: string;
+  citations: AssistantCitation[];
+} {
+  const citations: AssistantCitation[] = [];
+  const indexByKey = new Map<string, number>();
+  const blocks: string[] = [];
+  for (const passage of passages) {
+    const key = `${passage.sourceType}:${passage.sourceId}`;
+    let index = indexByKey.get(key);
+    if (index === undefined) {
+      index = citations.length + 1;
+      indexByKey.set(key, index);
+      citations.push({
+        index,
+        sourceType: passage.sourceType,
+        sourceId: passage.sourceId,
+        name: passage.title,
+        url: passage.url,
+      });
+    }
+    blocks.push(`[${index}] ${passage.title}\n${passage.content}`);
+  }
+  return { context: blocks.join("\n\n"), citations };
+}
+
+export function kbArticleAssistantUrl(slug: string): string {
+  return `/knowledge-base?article=${encodeURIComponent(slug)}`;
+}
+
+export function boxFileAssistantUrl(fileId: string): string {
+  return `https://app.box.com/file/${fileId}`;
+}
@@ -24,6 +24,7 @@ export interface InvoiceLineItem {
     price?: string;
     quantity?: string;
     amount?: string;
+    recurringbillingfrequency?: string;
     hs_recurring_billing_period?: string;
     hs_product_id?: string;
     [key: string]: any;
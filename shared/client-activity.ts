@@ -0,0 +1,153 @@
+import { z } from "zod";
+
+// Client activity timeline: everything that has happened with an account,
+// merged from quotes, HubSpot engagements, the document vault, AI insight
+// runs, approval decisions and commissions, newest first.
+
+export const CLIENT_ACTIVITY_SOURCES = [
+  "quote",
+  "hubspot",
+  "document",
+  "ai_insights",
+  "approval",
+  "commission",
+] as const;
+export type ClientActivitySource = (typeof CLIENT_ACTIVITY_SOURCES)[number];
+
+export const CLIENT_ACTIVITY_SOURCE_LABELS: Record<
+  ClientActivitySource,
+  string
+> = {
+  quote: "Quotes",
+  hubspot: "HubSpot",
+  document: "Documents",
+  ai_insights: "AI insights",
+  approval: "Approvals",
+  commission: "Commissions",
+};
+
+// Activity types written to client_activities
+export const CLIENT_ACTIVITY_TYPES = [
+  "email",
+  "call",
+  "meeting",
+  "quote",
+  "document_upload",
+  "ai_insights",
+] as const;
+export type ClientActivityType = (typeof CLIENT_ACTIVITY_TYPES)[number];
+
+export interface ClientTimelineEvent {
+  // Unique across sources, e.g. "quote:12:created"
+  id: string;
+  source: ClientActivitySource;
+  // Source-specific kind, e.g. created, call, approved, clawback
+  kind: string;
+  title: string;
+  detail: string | null;
+  occurredAt: string;
+  actor: string | null;
+}
+
+export const CLIENT_TIMELINE_PAGE_SIZE = 25;
+export const CLIENT_TIMELINE_MAX_PAGE_SIZE = 100;
+
+export interface ClientTimelineFilters {
+  // Empty or missing means every source
+  sources?: ClientActivitySource[];
+  from?: string;
+  to?: string;
+  page?: number;
+  pageSize?: number;
+}
+
+// Query string for GET /api/client-intel/activity/:contactId; sources is a
+// comma-separated list
+export const ClientTimelineQuerySchema = z.object({
+  email: z.string().trim().email(),
+  sources: z.string().optional(),
+  from: z.string().optional(),
+  to: z.string().optional(),
+  page: z.coerce.number().int().min(1).optional(),
+  pageSize: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .max(CLIENT_TIMELINE_MAX_PAGE_SIZE)
+    .optional(),
+});
+
+export interface ClientTimelinePage {
+  events: ClientTimelineEvent[];
+  total: number;
+  page: number;
+  pageSize: number;
+  // Events per source within the date range, ignoring the source filter
+  counts: Record<ClientActivitySource, number>;
+  // Sources that couldn't be loaded (e.g. HubSpot down); the rest still show
+  unavailable: ClientActivitySource[];
+}
+
+export function parseClientActivitySources(
+  value: unknown,
+): ClientActivitySource[] {
+  const raw = Array.isArray(value) ? value.join(",") : String(value ?? "");
+  return raw
+    .split(",")
+    .map((s) => s.trim())
+    .filter((s): s is ClientActivitySource =>
+      (CLIENT_ACTIVITY_SOURCES as readonly string[]).includes(s),
+    );
+}
+
+// Dates are compared as instants; "to" on a bare date covers that whole day
+function dateBound(value: string | undefined, endOfDay: boolean) {
+  if (!value) return null;
+  const bare = /^\d{4}-\d{2}-\d{2}$/.test(value);
+  const time = new Date(
+    bare ? `${value}T${endOfDay ? "23:59:59.999" : "00:00:00"}Z` : value,
+  ).getTime();
+  return Number.isNaN(time) ? null : time;
+}
+
+export function paginateClientTimeline(
+  events: ClientTimelineEvent[],
+  filters: ClientTimelineFilters = {},
+  unavailable: ClientActivitySource[] = [],
+): ClientTimelinePage {
+  const from = dateBound(filters.from, false);
+  const to = dateBound(filters.to, true);
+  const inRange = events.filter((event) => {
+    const time = new Date(event.occurredAt).getTime();
+    return (from === null || time >= from) && (to === null || time <= to);
+  });
+
+  const counts = Object.fromEntries(
+    CLIENT_ACTIVITY_SOURCES.map((source) => [source, 0]),
+  ) as Record<ClientActivitySource, number>;
+  for (const event of inRange) counts[event.source]++;
+
+  const sources = filters.sources?.length ? new Set(filters.sources) : null;
+  const matching = inRange
+    .filter((event) => !sources || sources.has(event.source))
+    .sort(
+      (a, b) =>
+        new Date(b.occurredAt).getTime() - new Date(a.occurredAt).getTime() ||
+        a.id.localeCompare(b.id),
+    );
+
+  const pageSize = Math.min(
+    Math.max(1, Math.floor(filters.pageSize ?? CLIENT_TIMELINE_PAGE_SIZE)),
+    CLIENT_TIMELINE_MAX_PAGE_SIZE,
+  );
+  const lastPage = Math.max(1, Math.ceil(matching.length / pageSize));
+  const page = Math.min(Math.max(1, Math.floor(filters.page ?? 1)), lastPage);
+  return {
+    events: matching.slice((page - 1) * pageSize, page * pageSize),
+    total: matching.length,
+    page,
+    pageSize,
+    counts,
+    unavailable,
+  };
+}
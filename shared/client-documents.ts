@@ -0,0 +1,51 @@
+// Client document vault: files uploaded against a client intel profile.
+// Text is extracted on upload and summarised by a background job; the
+// extracted text stays server-side and isn't part of the list payload.
+
+export const CLIENT_DOCUMENT_TYPES = [
+  "pdf",
+  "docx",
+  "xlsx",
+  "xls",
+  "csv",
+  "txt",
+] as const;
+export type ClientDocumentType = (typeof CLIENT_DOCUMENT_TYPES)[number];
+
+export const CLIENT_DOCUMENT_MAX_BYTES = 10 * 1024 * 1024;
+
+// pending: queued for summary; skipped: no text could be extracted
+export const CLIENT_DOCUMENT_SUMMARY_STATUSES = [
+  "pending",
+  "ready",
+  "failed",
+  "skipped",
+] as const;
+export type ClientDocumentSummaryStatus =
+  (typeof CLIENT_DOCUMENT_SUMMARY_STATUSES)[number];
+
+export function clientDocumentType(
+  fileName: string,
+): ClientDocumentType | null {
+  const i = fileName.lastIndexOf(".");
+  const ext = i >= 0 ? fileName.slice(i + 1).toLowerCase() : "";
+  return (CLIENT_DOCUMENT_TYPES as readonly string[]).includes(ext)
+    ? (ext as ClientDocumentType)
+    : null;
+}
+
+// A document as listed in the vault
+export interface ClientDocumentListItem {
+  id: number;
+  clientProfileId: number;
+  fileName: string;
+  fileType: string;
+  fileSize: number;
+  uploadedBy: number;
+  uploadedByName: string | null;
+  hasText: boolean;
+  summary: string | null;
+  summaryStatus: ClientDocumentSummaryStatus;
+  summaryError: string | null;
+  createdAt: string;
+}
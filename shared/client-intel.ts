@@ -0,0 +1,105 @@
+import { z } from "zod";
+import type { ProspectRulesScore } from "./prospect-scoring";
+
+// Client intelligence AI results. Each analysis has a zod schema the model's
+// JSON must satisfy; a result is either "ok" with parsed data or "failed",
+// so a failed analysis never reads as a genuinely low score.
+
+export const prospectScoreSchema = z.object({
+  score: z.number().min(0).max(10),
+  tier: z.enum(["A", "B", "C"]),
+  reasoning: z.string().trim().min(1),
+});
+export type ProspectScore = z.infer<typeof prospectScoreSchema>;
+
+export const clientSignalSchema = z.object({
+  type: z.enum(["upsell", "risk", "opportunity"]),
+  severity: z.enum(["Low", "Medium", "High"]),
+  confidence: z.number().min(0).max(1),
+  title: z.string().trim().min(1),
+  description: z.string().trim().min(1),
+  recommendedAction: z.string().trim().min(1),
+  estimatedValue: z.string().optional(),
+});
+export type ClientSignal = z.infer<typeof clientSignalSchema>;
+
+export const serviceGapsSchema = z.object({
+  signals: z.array(clientSignalSchema).max(10),
+});
+
+export const painPointsSchema = z.object({
+  painPoints: z.array(z.string().trim().min(1)).min(1).max(10),
+});
+
+export const riskScoreSchema = z.object({
+  riskScore: z.number().int().min(0).max(100),
+  riskFactors: z.array(z.string()).default([]),
+});
+export type RiskScore = z.infer<typeof riskScoreSchema>;
+
+export const CLIENT_INTEL_ANALYSES = [
+  "prospectScore",
+  "serviceGaps",
+  "painPoints",
+  "riskScore",
+] as const;
+export type ClientIntelAnalysisKind = (typeof CLIENT_INTEL_ANALYSES)[number];
+
+// Bump when a prompt changes, so stored outputs can be compared by version
+export const CLIENT_INTEL_PROMPT_VERSIONS: Record<
+  ClientIntelAnalysisKind,
+  string
+> = {
+  prospectScore: "prospect-score/v2",
+  serviceGaps: "service-gaps/v2",
+  painPoints: "pain-points/v2",
+  riskScore: "risk-score/v2",
+};
+
+interface ClientIntelAnalysisMeta {
+  promptVersion: string;
+  // Null when the call never reached a model
+  model: string | null;
+  // Last model output, kept for debugging failed or surprising analyses
+  raw: string | null;
+  analyzedAt: string;
+}
+
+export type ClientIntelAnalysis<T> =
+  | (ClientIntelAnalysisMeta & { status: "ok"; data: T })
+  | (ClientIntelAnalysisMeta & { status: "failed"; error: string });
+
+// As stored per analysis kind on client_intel_profiles.ai_analyses
+export type StoredClientIntelAnalysis = ClientIntelAnalysisMeta &
+  ({ status: "ok"; parsed: unknown } | { status: "failed"; error: string });
+
+export type ClientIntelAnalysisStatus = Partial<
+  Record<ClientIntelAnalysisKind, { status: "ok" | "failed"; error?: string }>
+>;
+
+// Insights for one client, as cached and shown on the client-intel page
+export interface ClientInsights {
+  // Null when the scoring analysis failed
+  aiScore: ProspectScore | null;
+  painPoints: string[];
+  upsellOpportunities: string[];
+  // Null when the risk analysis failed
+  riskScore: number | null;
+  lastAnalyzed: string;
+  signals: ClientSignal[];
+  analysis: ClientIntelAnalysisStatus;
+}
+
+// Insights with a failed analysis aren't cached, so the next request retries
+export function hasFailedAnalysis(insights: Pick<ClientInsights, "analysis">) {
+  return Object.values(insights.analysis ?? {}).some(
+    (result) => result?.status === "failed",
+  );
+}
+
+// Rules-based and AI lead scores for one contact, side by side
+export interface ProspectScoreComparison {
+  rules: ProspectRulesScore;
+  // Last stored AI scoring analysis; parsed is a ProspectScore when "ok"
+  ai: StoredClientIntelAnalysis | null;
+}
@@ -1,5 +1,18 @@
 // Commission calculation utilities and business logic
 
+import type { ContractTerm } from "./pricing-terms";
+import {
+  DEFAULT_COMMISSION_PLAN_RULES,
+  commissionRatesFor,
+  type CommissionPlanRules,
+} from "./commission-plans";
+import {
+  classifyLineItem,
+  type ClassifiableLineItem,
+  type CommissionProductMappingLike,
+  type LineItemClassification,
+} from "./commission-classification";
+
 export interface MonthlyBonusEligibility {
   eligible: boolean;
   amount: number;
@@ -32,35 +45,19 @@ export interface TotalEarnings {
  */
 export function calculateMonthlyBonus(
   clientsClosedThisMonth: number,
+  plan: CommissionPlanRules = DEFAULT_COMMISSION_PLAN_RULES,
 ): MonthlyBonusEligibility | null {
-  if (clientsClosedThisMonth >= 15) {
-    return {
-      eligible: true,
-      amount: 1500,
-      description: "15+ clients closed - $1,500 cash or MacBook Air",
-      type: "cash",
-    };
-  }
-
-  if (clientsClosedThisMonth >= 10) {
-    return {
-      eligible: true,
-      amount: 1000,
-      description: "10-14 clients closed - $1,000 cash or Apple Watch",
-      type: "cash",
-    };
-  }
-
-  if (clientsClosedThisMonth >= 5) {
-    return {
-      eligible: true,
-      amount: 500,
-      description: "5-9 clients closed - $500 cash or AirPods",
-      type: "cash",
-    };
-  }
+  const tier = [...plan.monthlyBonusTiers]
+    .sort((a, b) => b.minClients - a.minClients)
+    .find((t) => clientsClosedThisMonth >= t.minClients);
+  if (!tier) return null;
 
-  return null;
+  return {
+    eligible: true,
+    amount: tier.amount,
+    description: tier.description,
+    type: "cash",
+  };
 }
 
 /**
@@ -68,53 +65,31 @@ export function calculateMonthlyBonus(
  */
 export function calculateMilestoneBonus(
   totalClientsAllTime: number,
+  plan: CommissionPlanRules = DEFAULT_COMMISSION_PLAN_RULES,
 ): MilestoneBonusEligibility | null {
-  const milestones = [
-    {
-      threshold: 100,
-      amount: 10000,
-      equity: true,
-      description: "100 Client Milestone - $10,000 + Equity",
-    },
-    {
-      threshold: 60,
-      amount: 7500,
-      equity: false,
-      description: "60 Client Milestone - $7,500",
-    },
-    {
-      threshold: 40,
-      amount: 5000,
-      equity: false,
-      description: "40 Client Milestone - $5,000",
-    },
-    {
-      threshold: 25,
-      amount: 1000,
-      equity: false,
-      description: "25 Client Milestone - $1,000",
-    },
-  ];
+  const milestone = [...plan.milestoneBonuses]
+    .sort((a, b) => b.threshold - a.threshold)
+    .find((m) => totalClientsAllTime >= m.threshold);
+  if (!milestone) return null;
 
-  for (const milestone of milestones) {
-    if (totalClientsAllTime >= milestone.threshold) {
-      return {
-        eligible: true,
-        amount: milestone.amount,
-        includesEquity: milestone.equity,
-        description: milestone.description,
-      };
-    }
-  }
-
-  return null;
+  return {
+    eligible: true,
+    amount: milestone.amount,
+    includesEquity: milestone.includesEquity,
+    description: milestone.description,
+  };
 }
 
 /**
  * Get next milestone information and progress
  */
-export function getNextMilestone(totalClientsAllTime: number): NextMilestone {
-  const milestones = [25, 40, 60, 100];
+export function getNextMilestone(
+  totalClientsAllTime: number,
+  plan: CommissionPlanRules = DEFAULT_COMMISSION_PLAN_RULES,
+): NextMilestone {
+  const milestones = plan.milestoneBonuses
+    .map((m) => m.threshold)
+    .sort((a, b) => a - b);
 
   for (const milestone of milestones) {
     if (totalClientsAllTime < milestone) {
@@ -131,7 +106,7 @@ export function getNextMilestone(totalClientsAllTime: number): NextMilestone {
 
   // If beyond all milestones
   return {
-    nextMilestone: 100,
+    nextMilestone: milestones[milestones.length - 1] ?? 0,
     progress: 100,
     remaining: 0,
   };
@@ -170,91 +145,100 @@ export function calculateTotalEarnings(
 export function calculateCommissionRate(
   serviceType: string,
   isFirstMonth: boolean,
+  plan: CommissionPlanRules = DEFAULT_COMMISSION_PLAN_RULES,
 ): number {
-  // Aligned with COMMISSION_BONUS_STRUCTURE.md:
-  // - Month 1 Commission: 40% of first month's MRR
-  // - Residual Commission: 10% of months 2-12 MRR
-  // Note: Setup commission (20% of setup fee) is handled separately and should
-  // not use this function. We keep the signature for backward compatibility but
-  // ignore serviceType per the global policy.
-  return isFirstMonth ? 0.4 : 0.1;
+  // Month 1 and residual rates only; setup commission is a separate rate and
+  // should not use this function
+  const rates = commissionRatesFor(plan, serviceType);
+  return isFirstMonth ? rates.firstMonthRate : rates.residualRate;
 }
 
 /**
- * Calculate projected commission based on deal value and service type
+ * Calculate projected commission based on deal value and service type.
+ * setupFee and monthlyFee are the discounted prices the client pays; pass the
+ * quote's time-limited monthly discounts so residuals pick the full price back
+ * up once each discount ends. Annual prepay collects the first year up front,
+ * so the month 2–12 residuals are paid with the first month. Rates and the
+ * residual window come from the rep's commission plan.
  */
 export function calculateProjectedCommission(
   setupFee: number,
   monthlyFee: number,
   serviceType: string,
+  monthlyDiscounts: Array<{
+    amount: number;
+    durationMonths: number | null;
+  }> = [],
+  contractTerm: ContractTerm = "monthly",
+  plan: CommissionPlanRules = DEFAULT_COMMISSION_PLAN_RULES,
 ): { firstMonth: number; monthly: number; total: number } {
-  // Setup commission: 20% of setup fee
-  const setupCommission = setupFee * 0.2;
-  // Month 1 commission: 40% of first month's MRR
-  const firstMonthCommission = monthlyFee * 0.4;
-  // Residual commission (months 2–12): 10% of MRR
-  const monthlyCommission = monthlyFee * 0.1;
+  const rates = commissionRatesFor(plan, serviceType);
+  const lastResidualMonth = plan.residualThroughMonth;
+  // MRR in a given month: discounts lasting N months cover months 1..N
+  const mrrInMonth = (month: number) =>
+    monthlyDiscounts.reduce(
+      (mrr, d) =>
+        d.durationMonths && d.durationMonths < month ? mrr + d.amount : mrr,
+      monthlyFee,
+    );
+  const residualFor = (month: number) =>
+    month <= lastResidualMonth ? mrrInMonth(month) * rates.residualRate : 0;
+
+  // Setup and month 1 commission, plus any residual months collected up front
+  const prepaidThrough = contractTerm === "annual_prepay" ? 12 : 1;
+  let firstMonth =
+    setupFee * rates.setupRate + monthlyFee * rates.firstMonthRate;
+  for (let month = 2; month <= prepaidThrough; month++) {
+    firstMonth += residualFor(month);
+  }
 
-  const firstMonth = setupCommission + firstMonthCommission;
-  const total = firstMonth + monthlyCommission * 11; // 12-month projection (months 2–12)
+  let total = firstMonth;
+  for (let month = prepaidThrough + 1; month <= lastResidualMonth; month++) {
+    total += residualFor(month);
+  }
 
   return {
     firstMonth,
-    monthly: monthlyCommission,
+    monthly: residualFor(prepaidThrough + 1),
     total,
   };
 }
 
 /**
- * Calculate commission from HubSpot invoice line item
+ * Calculate commission from HubSpot invoice line item. The line is classified
+ * by its product (see commission-classification); monthly lines earn the
+ * residual rate unless the caller knows this is the client's first payment.
+ * Unclassified lines come back as "other" with no commission.
  */
 export function calculateCommissionFromInvoice(
-  lineItem: { description?: string; quantity?: number; price?: number },
+  lineItem: ClassifiableLineItem & { quantity?: number; price?: number },
   totalInvoiceAmount: number,
-): { amount: number; type: "setup" | "monthly" | "other" } {
-  const description = lineItem.description?.toLowerCase() || "";
+  plan: CommissionPlanRules = DEFAULT_COMMISSION_PLAN_RULES,
+  options: {
+    productMappings?: CommissionProductMappingLike[];
+    firstPayment?: boolean;
+  } = {},
+): {
+  amount: number;
+  type: "setup" | "monthly" | "other";
+  serviceType: string | null;
+  classification: LineItemClassification;
+} {
   const amount = (lineItem.quantity || 0) * (lineItem.price || 0);
+  const classification = classifyLineItem(lineItem, options.productMappings);
+  const { serviceType } = classification;
+  const rates = commissionRatesFor(plan, serviceType);
 
-  // Determine commission type based on description
   let commissionRate = 0;
   let type: "setup" | "monthly" | "other" = "other";
 
-  if (
-    description.includes("setup") ||
-    description.includes("onboarding") ||
-    description.includes("implementation")
-  ) {
-    // Setup/onboarding fees get 20% commission
-    commissionRate = 0.2;
+  if (classification.commissionType === "setup") {
+    commissionRate = rates.setupRate;
     type = "setup";
-  } else if (
-    description.includes("monthly") ||
-    description.includes("subscription") ||
-    description.includes("recurring")
-  ) {
-    // Monthly fees - determine if first month (40%) or recurring (10%)
-    // For now, assume 10% for monthly (admin can adjust for first month manually)
-    commissionRate = 0.1;
-    type = "monthly";
-
-    // Check if this looks like a first month payment (higher rate)
-    if (
-      description.includes("first") ||
-      description.includes("initial") ||
-      description.includes("month 1")
-    ) {
-      commissionRate = 0.4;
-    }
-  } else if (
-    description.includes("bookkeeping") ||
-    description.includes("accounting") ||
-    description.includes("taas") ||
-    description.includes("payroll") ||
-    description.includes("ap/ar") ||
-    description.includes("fp&a")
-  ) {
-    // Service-specific rates (default to 10% for ongoing services)
-    commissionRate = 0.1;
+  } else if (classification.commissionType === "monthly") {
+    commissionRate = options.firstPayment
+      ? rates.firstMonthRate
+      : rates.residualRate;
     type = "monthly";
   }
 
@@ -263,5 +247,7 @@ export function calculateCommissionFromInvoice(
   return {
     amount: commissionAmount,
     type,
+    serviceType,
+    classification,
   };
 }
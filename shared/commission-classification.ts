@@ -0,0 +1,146 @@
+import { getAllServices } from "./services";
+
+// Invoice lines are classified for commission by HubSpot product ID, never by
+// their wording: registry products first, then the admin mapping table for
+// legacy/unknown products, then the line's recurring billing frequency.
+// Anything left is unclassified and earns nothing until it is mapped.
+
+export const PRODUCT_COMMISSION_TYPES = ["setup", "monthly", "none"] as const;
+
+// none = deliberately not commissionable (pass-through fees, credits, ...)
+export type ProductCommissionType = (typeof PRODUCT_COMMISSION_TYPES)[number];
+
+export interface CommissionProductMappingLike {
+  hubspotProductId: string;
+  commissionType: string;
+  serviceType: string | null;
+}
+
+export interface ClassifiableLineItem {
+  productId?: string | null;
+  recurringBillingFrequency?: string | null;
+}
+
+export type ClassificationSource = "registry" | "mapping" | "billing_frequency";
+
+export interface LineItemClassification {
+  commissionType: ProductCommissionType | null; // null = unclassified
+  serviceType: string | null; // Plan serviceRates key, e.g. bookkeeping
+  source: ClassificationSource | null;
+}
+
+const UNCLASSIFIED: LineItemClassification = {
+  commissionType: null,
+  serviceType: null,
+  source: null,
+};
+
+const registryByProductId = new Map(
+  getAllServices()
+    .filter((service) => service.hubspotProductId)
+    .map((service) => [
+      service.hubspotProductId as string,
+      {
+        commissionType: service.commissionType as ProductCommissionType,
+        serviceType: service.pricingKey as string,
+      },
+    ]),
+);
+
+export function isRegistryProduct(productId: string): boolean {
+  return registryByProductId.has(productId);
+}
+
+const isProductCommissionType = (
+  value: string,
+): value is ProductCommissionType =>
+  (PRODUCT_COMMISSION_TYPES as readonly string[]).includes(value);
+
+export function classifyLineItem(
+  lineItem: ClassifiableLineItem,
+  mappings: CommissionProductMappingLike[] = [],
+): LineItemClassification {
+  const productId = lineItem.productId?.trim();
+  if (productId) {
+    const registered = registryByProductId.get(productId);
+    if (registered) return { ...registered, source: "registry" };
+    const mapped = mappings.find((m) => m.hubspotProductId === productId);
+    if (mapped && isProductCommissionType(mapped.commissionType)) {
+      return {
+        commissionType: mapped.commissionType,
+        serviceType: mapped.serviceType,
+        source: "mapping",
+      };
+    }
+  }
+  if (lineItem.recurringBillingFrequency?.trim()) {
+    return {
+      commissionType: "monthly",
+      serviceType: null,
+      source: "billing_frequency",
+    };
+  }
+  return UNCLASSIFIED;
+}
+
+// Product fields off a HubSpot line item's properties
+export function hubspotLineItemClassifiable(
+  properties: Record<string, string | null | undefined> | undefined,
+): ClassifiableLineItem {
+  return {
+    productId: properties?.hs_product_id || null,
+    recurringBillingFrequency:
+      properties?.recurringbillingfrequency ||
+      properties?.hs_recurring_billing_period ||
+      null,
+  };
+}
+
+export interface UnclassifiedProduct {
+  productId: string | null; // null = line has no HubSpot product at all
+  name: string;
+  lineCount: number;
+  totalAmount: number;
+  invoices: string[]; // A few example invoices
+}
+
+/**
+ * Invoice lines that would earn 0% because nothing classifies them, grouped
+ * by product (or by name for lines without one), largest amounts first.
+ */
+export function unclassifiedLineItemReport(
+  lines: Array<
+    ClassifiableLineItem & {
+      name: string;
+      amount: number;
+      invoice: string | null;
+    }
+  >,
+  mappings: CommissionProductMappingLike[],
+): UnclassifiedProduct[] {
+  const groups = new Map<string, UnclassifiedProduct>();
+  for (const line of lines) {
+    if (classifyLineItem(line, mappings).source !== null) continue;
+    const productId = line.productId?.trim() || null;
+    const key = productId ?? `name:${line.name.toLowerCase()}`;
+    const group = groups.get(key) ?? {
+      productId,
+      name: line.name,
+      lineCount: 0,
+      totalAmount: 0,
+      invoices: [],
+    };
+    group.lineCount++;
+    group.totalAmount =
+      Math.round((group.totalAmount + line.amount) * 100) / 100;
+    if (
+      line.invoice &&
+      group.invoices.length < 5 &&
+      !group.invoices.includes(line.invoice)
+    ) {
+      group.invoices.push(line.invoice);
+    }
+    groups.set(key, group);
+  }
+  return [...groups.values()].sort((a, b) => b.totalAmount - a.totalAmount);
+}
@@ -0,0 +1,112 @@
+import type {
+  ClawbackRule,
+  ClawbackTrigger,
+  CommissionPlanRules,
+} from "./commission-plans";
+
+// A client churning or an invoice being refunded takes back commissions paid
+// on it. Which commissions, and how much, comes from the clawback rules of
+// the plan each commission was earned under.
+
+// HubSpot invoice statuses that count as the money going back to the client
+export const CLAWBACK_INVOICE_STATUSES = ["cancelled", "refunded", "voided"];
+
+export interface ClawbackEvent {
+  trigger: ClawbackTrigger;
+  hubspotInvoiceId: number | null;
+  hubspotSubscriptionId: number | null;
+  label: string; // Company or invoice the event happened to
+  startedAt: Date | string; // Subscription start / invoice payment
+  occurredAt: Date | string; // Cancellation / refund
+}
+
+export interface ClawbackCommissionInput {
+  id: number;
+  salesRepId: number;
+  type: string;
+  amount: number;
+  dateEarned: Date | string;
+  hubspotInvoiceId: number | null;
+  hubspotSubscriptionId: number | null;
+  planRules: CommissionPlanRules;
+}
+
+export interface ClawbackEntry {
+  clawbackOfCommissionId: number;
+  salesRepId: number;
+  hubspotInvoiceId: number | null;
+  hubspotSubscriptionId: number | null;
+  amount: number; // Negative
+  reason: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const round2 = (n: number) => Math.round(n * 100) / 100;
+const isoDay = (d: Date | string) => new Date(d).toISOString().substring(0, 10);
+
+export function daysBetween(from: Date | string, to: Date | string): number {
+  return Math.floor(
+    (new Date(to).getTime() - new Date(from).getTime()) / DAY_MS,
+  );
+}
+
+export function clawbackRuleApplies(
+  rule: ClawbackRule,
+  event: ClawbackEvent,
+  commission: Pick<ClawbackCommissionInput, "type" | "dateEarned">,
+): boolean {
+  if (rule.trigger !== event.trigger) return false;
+  if (!rule.commissionTypes.includes(commission.type)) return false;
+  if (
+    rule.withinDays !== null &&
+    daysBetween(event.startedAt, event.occurredAt) > rule.withinDays
+  ) {
+    return false;
+  }
+  if (
+    rule.earnedAfterEventOnly &&
+    new Date(commission.dateEarned) <= new Date(event.occurredAt)
+  ) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Clawback entries for one cancellation or refund. A commission is clawed
+ * back at most once, by the matching rule that takes back the most; anything
+ * in `alreadyClawedBack` or already negative is skipped.
+ */
+export function computeClawbacks(
+  event: ClawbackEvent,
+  commissions: ClawbackCommissionInput[],
+  alreadyClawedBack: Set<number>,
+): ClawbackEntry[] {
+  const what =
+    event.trigger === "subscription_cancelled"
+      ? `${event.label} cancelled`
+      : `${event.label} refunded`;
+  const entries: ClawbackEntry[] = [];
+  for (const commission of commissions) {
+    if (alreadyClawedBack.has(commission.id) || commission.amount <= 0) {
+      continue;
+    }
+    const rule = commission.planRules.clawbackRules
+      .filter((r) => clawbackRuleApplies(r, event, commission))
+      .sort((a, b) => b.percent - a.percent)[0];
+    if (!rule) continue;
+    const amount = -round2(commission.amount * rule.percent);
+    if (amount === 0) continue;
+    const days = daysBetween(event.startedAt, event.occurredAt);
+    entries.push({
+      clawbackOfCommissionId: commission.id,
+      salesRepId: commission.salesRepId,
+      hubspotInvoiceId: commission.hubspotInvoiceId ?? event.hubspotInvoiceId,
+      hubspotSubscriptionId:
+        commission.hubspotSubscriptionId ?? event.hubspotSubscriptionId,
+      amount,
+      reason: `${rule.description}: ${what} on ${isoDay(event.occurredAt)}, ${days} days after start (${commission.type} commission #${commission.id})`,
+    });
+  }
+  return entries;
+}
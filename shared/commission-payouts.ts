@@ -0,0 +1,345 @@
+import {
+  commissionRatesFor,
+  type CommissionPlanRules,
+} from "./commission-plans";
+
+// Commission payouts run on a 14th–13th cycle: everything earned from the
+// 14th of one month through the 13th of the next is paid together.
+
+export interface CommissionPeriod {
+  periodStart: string; // YYYY-MM-DD, the 14th
+  periodEnd: string; // YYYY-MM-DD, the 13th of the following month
+}
+
+const isoDay = (year: number, month: number, day: number) =>
+  new Date(Date.UTC(year, month, day)).toISOString().substring(0, 10);
+
+// [year, month (1-12), day] of a YYYY-MM-DD string
+function parseDay(day: string): [number, number, number] {
+  const [y = 0, m = 1, d = 1] = day.split("-").map(Number);
+  return [y, m, d];
+}
+
+export function commissionPeriodFor(date: Date): CommissionPeriod {
+  const year = date.getFullYear();
+  const month = date.getMonth();
+  const startMonth = date.getDate() >= 14 ? month : month - 1;
+  return {
+    periodStart: isoDay(year, startMonth, 14),
+    periodEnd: isoDay(year, startMonth + 1, 13),
+  };
+}
+
+// Period starting on a given YYYY-MM-DD (must be a 14th)
+export function commissionPeriodStarting(
+  periodStart: string,
+): CommissionPeriod | null {
+  const match = /^(\d{4})-(\d{2})-14$/.exec(periodStart);
+  if (!match) return null;
+  const year = Number(match[1]);
+  const month = Number(match[2]) - 1;
+  return { periodStart, periodEnd: isoDay(year, month + 1, 13) };
+}
+
+export function previousCommissionPeriod(
+  period: CommissionPeriod,
+): CommissionPeriod {
+  const [year, month] = parseDay(period.periodStart);
+  return {
+    periodStart: isoDay(year, month - 2, 14),
+    periodEnd: isoDay(year, month - 1, 13),
+  };
+}
+
+// Local-time instants bounding the period (start of the 14th, end of the 13th)
+export function commissionPeriodBounds(period: CommissionPeriod): {
+  start: Date;
+  end: Date;
+} {
+  const [sy, sm, sd] = parseDay(period.periodStart);
+  const [ey, em, ed] = parseDay(period.periodEnd);
+  return {
+    start: new Date(sy, sm - 1, sd),
+    end: new Date(ey, em - 1, ed, 23, 59, 59, 999),
+  };
+}
+
+export function isInCommissionPeriod(
+  date: Date | string,
+  period: CommissionPeriod,
+): boolean {
+  return commissionPeriodFor(new Date(date)).periodStart === period.periodStart;
+}
+
+export type PayoutRunStatus = "locked" | "paid";
+
+// Commission types paid as bonuses rather than invoice commissions
+const BONUS_TYPES = new Set(["monthly_bonus", "milestone_bonus"]);
+
+export interface PayoutCommissionInput {
+  id: number;
+  type: string;
+  amount: number;
+  serviceType: string | null;
+  dateEarned: Date | string;
+  notes: string | null;
+  invoice?: {
+    invoiceNumber: string | null;
+    companyName: string | null;
+    totalAmount: number;
+    lineItems: Array<{ name: string; totalPrice: number }>;
+  } | null;
+  planRules: CommissionPlanRules;
+}
+
+export interface PayoutAdjustmentInput {
+  id: number;
+  commissionId: number;
+  type: string; // request, direct, reversal
+  status: string;
+  originalAmount: number;
+  finalAmount: number | null;
+  reason: string;
+  reviewedDate: Date | string | null;
+}
+
+export interface StatementAdjustment {
+  adjustmentId: number;
+  reason: string;
+  from: number;
+  to: number;
+}
+
+export interface StatementLine {
+  commissionId: number;
+  dateEarned: string;
+  type: string;
+  serviceType: string | null;
+  invoice: string | null;
+  lineItems: Array<{ name: string; amount: number }>;
+  baseAmount: number | null;
+  rate: number | null;
+  amount: number;
+  adjustments: StatementAdjustment[];
+}
+
+export interface StatementReversal {
+  adjustmentId: number;
+  commissionId: number;
+  reason: string;
+  amount: number; // signed correction paid with this run
+}
+
+export interface PayoutStatement {
+  salesRepId: number;
+  salesRepName: string;
+  period: CommissionPeriod;
+  commissions: StatementLine[];
+  bonuses: StatementLine[];
+  reversals: StatementReversal[];
+  commissionTotal: number;
+  bonusTotal: number;
+  reversalTotal: number;
+  total: number;
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+// Rate the commission was earned at: the effective rate on the invoice
+// before any adjustment, else the plan rate for its type
+function rateFor(
+  input: PayoutCommissionInput,
+  adjustments: StatementAdjustment[],
+): number | null {
+  if (BONUS_TYPES.has(input.type) || input.type === "clawback") return null;
+  const earned = adjustments[0]?.from ?? input.amount;
+  if (input.invoice && input.invoice.totalAmount > 0) {
+    return Math.round((earned / input.invoice.totalAmount) * 10000) / 10000;
+  }
+  const rates = commissionRatesFor(input.planRules, input.serviceType);
+  if (input.type === "setup") return rates.setupRate;
+  if (input.type === "month_1") return rates.firstMonthRate;
+  if (input.type === "residual") return rates.residualRate;
+  return null;
+}
+
+/**
+ * Per-rep statement for a payout run. Approved adjustments are listed under
+ * the commission they changed (the commission amount already reflects
+ * them); reversals of locked periods are separate signed lines.
+ */
+export function buildPayoutStatement(
+  rep: { id: number; name: string },
+  period: CommissionPeriod,
+  commissions: PayoutCommissionInput[],
+  adjustments: PayoutAdjustmentInput[],
+  reversals: PayoutAdjustmentInput[],
+): PayoutStatement {
+  const lines = commissions
+    .slice()
+    .sort(
+      (a, b) =>
+        new Date(a.dateEarned).getTime() - new Date(b.dateEarned).getTime(),
+    )
+    .map<StatementLine>((c) => {
+      const lineAdjustments = adjustments
+        .filter((a) => a.commissionId === c.id && a.status === "approved")
+        .sort(
+          (a, b) =>
+            new Date(a.reviewedDate ?? 0).getTime() -
+            new Date(b.reviewedDate ?? 0).getTime(),
+        )
+        .map((a) => ({
+          adjustmentId: a.id,
+          reason: a.reason,
+          from: a.originalAmount,
+          to: a.finalAmount ?? a.originalAmount,
+        }));
+      // Clawbacks are described by their notes (rule, event and commission)
+      const invoice = c.type === "clawback" ? null : c.invoice;
+      return {
+        commissionId: c.id,
+        dateEarned: new Date(c.dateEarned).toISOString().substring(0, 10),
+        type: c.type,
+        serviceType: c.serviceType,
+        invoice: invoice
+          ? [invoice.invoiceNumber, invoice.companyName]
+              .filter(Boolean)
+              .join(" – ") || null
+          : c.notes,
+        lineItems: (invoice?.lineItems ?? []).map((li) => ({
+          name: li.name,
+          amount: li.totalPrice,
+        })),
+        baseAmount: invoice ? invoice.totalAmount : null,
+        rate: rateFor(c, lineAdjustments),
+        amount: round2(c.amount),
+        adjustments: lineAdjustments,
+      };
+    });
+
+  const commissionLines = lines.filter((l) => !BONUS_TYPES.has(l.type));
+  const bonusLines = lines.filter((l) => BONUS_TYPES.has(l.type));
+  const reversalLines = reversals.map<StatementReversal>((r) => ({
+    adjustmentId: r.id,
+    commissionId: r.commissionId,
+    reason: r.reason,
+    amount: round2((r.finalAmount ?? r.originalAmount) - r.originalAmount),
+  }));
+
+  const sum = (xs: Array<{ amount: number }>) =>
+    round2(xs.reduce((s, x) => s + x.amount, 0));
+  const commissionTotal = sum(commissionLines);
+  const bonusTotal = sum(bonusLines);
+  const reversalTotal = sum(reversalLines);
+
+  return {
+    salesRepId: rep.id,
+    salesRepName: rep.name,
+    period,
+    commissions: commissionLines,
+    bonuses: bonusLines,
+    reversals: reversalLines,
+    commissionTotal,
+    bonusTotal,
+    reversalTotal,
+    total: round2(commissionTotal + bonusTotal + reversalTotal),
+  };
+}
+
+const csvCell = (value: string | number | null) => {
+  const s = value === null ? "" : String(value);
+  return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+};
+
+// One row per commission, line item, adjustment and reversal, then totals
+export function payoutStatementCsv(statement: PayoutStatement): string {
+  const rows: Array<Array<string | number | null>> = [
+    [
+      "Section",
+      "Date",
+      "Commission ID",
+      "Type",
+      "Service",
+      "Invoice",
+      "Line Item",
+      "Base Amount",
+      "Rate",
+      "Amount",
+      "Note",
+    ],
+  ];
+  for (const [section, lines] of [
+    ["Commission", statement.commissions],
+    ["Bonus", statement.bonuses],
+  ] as const) {
+    for (const line of lines) {
+      rows.push([
+        section,
+        line.dateEarned,
+        line.commissionId,
+        line.type,
+        line.serviceType,
+        line.invoice,
+        null,
+        line.baseAmount,
+        line.rate,
+        line.amount,
+        null,
+      ]);
+      for (const li of line.lineItems) {
+        rows.push([
+          "Line Item",
+          null,
+          line.commissionId,
+          null,
+          null,
+          null,
+          li.name,
+          li.amount,
+          null,
+          null,
+          null,
+        ]);
+      }
+      for (const adj of line.adjustments) {
+        rows.push([
+          "Adjustment",
+          null,
+          line.commissionId,
+          null,
+          null,
+          null,
+          null,
+          null,
+          null,
+          round2(adj.to - adj.from),
+          `${adj.from} → ${adj.to}: ${adj.reason}`,
+        ]);
+      }
+    }
+  }
+  for (const rev of statement.reversals) {
+    rows.push([
+      "Reversal",
+      null,
+      rev.commissionId,
+      null,
+      null,
+      null,
+      null,
+      null,
+      null,
+      rev.amount,
+      rev.reason,
+    ]);
+  }
+  rows.push(
+    [],
+    ["Commission Total", ...Array(8).fill(null), statement.commissionTotal],
+    ["Bonus Total", ...Array(8).fill(null), statement.bonusTotal],
+    ["Reversal Total", ...Array(8).fill(null), statement.reversalTotal],
+    ["Total", ...Array(8).fill(null), statement.total],
+  );
+  return `${rows.map((r) => r.map(csvCell).join(",")).join("\n")}\n`;
+}
@@ -0,0 +1,238 @@
+import { z } from "zod";
+
+// Commission plan rules stored on commission_plans.rules_json. Rates are
+// fractions (0.4 = 40%); service overrides replace individual rates for that
+// quote/deal service type.
+
+export const CommissionRatesSchema = z.object({
+  setupRate: z.number().min(0).max(1),
+  firstMonthRate: z.number().min(0).max(1),
+  residualRate: z.number().min(0).max(1),
+});
+
+export type CommissionRates = z.infer<typeof CommissionRatesSchema>;
+
+export const MonthlyBonusTierSchema = z.object({
+  minClients: z.number().int().positive(),
+  amount: z.number().nonnegative(),
+  bonusType: z.string().min(1).default("cash"), // cash, airpods, apple_watch, ...
+  description: z.string().min(1),
+});
+
+export type MonthlyBonusTier = z.infer<typeof MonthlyBonusTierSchema>;
+
+export const MilestoneBonusTierSchema = z.object({
+  threshold: z.number().int().positive(),
+  amount: z.number().nonnegative(),
+  includesEquity: z.boolean().default(false),
+  description: z.string().min(1),
+});
+
+export type MilestoneBonusTier = z.infer<typeof MilestoneBonusTierSchema>;
+
+// Events that can take commissions back: a subscription cancelled (client
+// churned) or an invoice refunded, voided or cancelled
+export const CLAWBACK_TRIGGERS = [
+  "subscription_cancelled",
+  "invoice_cancelled",
+] as const;
+
+export type ClawbackTrigger = (typeof CLAWBACK_TRIGGERS)[number];
+
+export const ClawbackRuleSchema = z.object({
+  trigger: z.enum(CLAWBACK_TRIGGERS),
+  commissionTypes: z.array(z.string().min(1)).min(1),
+  // Days from subscription start / invoice payment to the event; null = any time
+  withinDays: z.number().int().positive().nullable(),
+  percent: z.number().min(0).max(1), // Share of the commission taken back
+  // Only commissions earned after the event, e.g. residuals for unserved months
+  earnedAfterEventOnly: z.boolean().default(false),
+  description: z.string().min(1),
+});
+
+export type ClawbackRule = z.infer<typeof ClawbackRuleSchema>;
+
+export const DEFAULT_CLAWBACK_RULES: ClawbackRule[] = [
+  {
+    trigger: "subscription_cancelled",
+    commissionTypes: ["setup", "month_1"],
+    withinDays: 90,
+    percent: 1,
+    earnedAfterEventOnly: false,
+    description: "Client cancelled within 90 days - full setup clawback",
+  },
+  {
+    trigger: "subscription_cancelled",
+    commissionTypes: ["residual"],
+    withinDays: null,
+    percent: 1,
+    earnedAfterEventOnly: true,
+    description: "Residual earned after the client cancelled",
+  },
+  {
+    trigger: "invoice_cancelled",
+    commissionTypes: ["setup", "cleanup", "prior_years", "month_1", "residual"],
+    withinDays: null,
+    percent: 1,
+    earnedAfterEventOnly: false,
+    description: "Invoice refunded or cancelled",
+  },
+];
+
+export const CommissionPlanRulesSchema = z.object({
+  rates: CommissionRatesSchema,
+  serviceRates: z.record(CommissionRatesSchema.partial()).default({}),
+  // Residuals are paid on months 2..residualThroughMonth
+  residualThroughMonth: z.number().int().min(1).max(120),
+  monthlyBonusTiers: z.array(MonthlyBonusTierSchema),
+  milestoneBonuses: z.array(MilestoneBonusTierSchema),
+  // Plans saved before clawbacks existed get the standard rules
+  clawbackRules: z.array(ClawbackRuleSchema).default(DEFAULT_CLAWBACK_RULES),
+});
+
+export type CommissionPlanRules = z.infer<typeof CommissionPlanRulesSchema>;
+
+// The structure from COMMISSION_BONUS_STRUCTURE.md; used when no plan is
+// assigned or in effect
+export const DEFAULT_COMMISSION_PLAN_RULES: CommissionPlanRules = {
+  rates: { setupRate: 0.2, firstMonthRate: 0.4, residualRate: 0.1 },
+  serviceRates: {},
+  residualThroughMonth: 12,
+  monthlyBonusTiers: [
+    {
+      minClients: 5,
+      amount: 500,
+      bonusType: "airpods",
+      description: "5-9 clients closed - $500 cash or AirPods",
+    },
+    {
+      minClients: 10,
+      amount: 1000,
+      bonusType: "apple_watch",
+      description: "10-14 clients closed - $1,000 cash or Apple Watch",
+    },
+    {
+      minClients: 15,
+      amount: 1500,
+      bonusType: "macbook_air",
+      description: "15+ clients closed - $1,500 cash or MacBook Air",
+    },
+  ],
+  milestoneBonuses: [
+    {
+      threshold: 25,
+      amount: 1000,
+      includesEquity: false,
+      description: "25 Client Milestone - $1,000",
+    },
+    {
+      threshold: 40,
+      amount: 5000,
+      includesEquity: false,
+      description: "40 Client Milestone - $5,000",
+    },
+    {
+      threshold: 60,
+      amount: 7500,
+      includesEquity: false,
+      description: "60 Client Milestone - $7,500",
+    },
+    {
+      threshold: 100,
+      amount: 10000,
+      includesEquity: true,
+      description: "100 Client Milestone - $10,000 + Equity",
+    },
+  ],
+  clawbackRules: DEFAULT_CLAWBACK_RULES,
+};
+
+export function parseCommissionPlanRules(json: string): CommissionPlanRules {
+  return CommissionPlanRulesSchema.parse(JSON.parse(json));
+}
+
+// Plan rates for a service type, with any service override applied
+export function commissionRatesFor(
+  rules: CommissionPlanRules,
+  serviceType?: string | null,
+): CommissionRates {
+  const override = serviceType ? rules.serviceRates[serviceType] : undefined;
+  return { ...rules.rates, ...override };
+}
+
+export function formatCommissionRate(rate: number): string {
+  return `${Math.round(rate * 1000) / 10}%`;
+}
+
+// Minimal row shapes so the resolver works on DB rows and API payloads alike
+export interface CommissionPlanLike {
+  id: number;
+  name: string;
+  rulesJson: string;
+  isDefault: boolean;
+  effectiveFrom: Date | string;
+  effectiveTo: Date | string | null;
+}
+
+export interface CommissionPlanAssignmentLike {
+  salesRepId: number;
+  planId: number;
+  effectiveFrom: Date | string;
+  effectiveTo: Date | string | null;
+}
+
+export interface ResolvedCommissionPlan {
+  planId: number | null; // null = built-in default rules
+  name: string;
+  rules: CommissionPlanRules;
+}
+
+export const BUILT_IN_COMMISSION_PLAN: ResolvedCommissionPlan = {
+  planId: null,
+  name: "Standard",
+  rules: DEFAULT_COMMISSION_PLAN_RULES,
+};
+
+function inEffect(
+  row: { effectiveFrom: Date | string; effectiveTo: Date | string | null },
+  at: Date,
+): boolean {
+  return (
+    new Date(row.effectiveFrom) <= at &&
+    (!row.effectiveTo || new Date(row.effectiveTo) > at)
+  );
+}
+
+const newestFirst = (
+  a: { effectiveFrom: Date | string },
+  b: { effectiveFrom: Date | string },
+) => new Date(b.effectiveFrom).getTime() - new Date(a.effectiveFrom).getTime();
+
+/**
+ * The plan a rep earns under at a point in time: their assignment in effect
+ * then, else the company default plan in effect then, else the built-in
+ * rules. Commissions resolve at their earned date, so later plan changes
+ * never reach back into earlier periods.
+ */
+export function resolveCommissionPlan(
+  plans: CommissionPlanLike[],
+  assignments: CommissionPlanAssignmentLike[],
+  salesRepId: number,
+  at: Date = new Date(),
+): ResolvedCommissionPlan {
+  const plansById = new Map(plans.map((p) => [p.id, p]));
+  const assigned = assignments
+    .filter((a) => a.salesRepId === salesRepId && inEffect(a, at))
+    .sort(newestFirst)
+    .map((a) => plansById.get(a.planId))
+    .find((p) => p && inEffect(p, at));
+  const plan =
+    assigned ??
+    plans.filter((p) => p.isDefault && inEffect(p, at)).sort(newestFirst)[0];
+  if (!plan) return BUILT_IN_COMMISSION_PLAN;
+  return {
+    planId: plan.id,
+    name: plan.name,
+    rules: parseCommissionPlanRules(plan.rulesJson),
+  };
+}
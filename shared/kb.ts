@@ -0,0 +1,266 @@
+import type { KbArticle, KbCategory } from "./schema";
+
+// SEEDKB article lifecycle: drafts are only visible to editors, published
+// articles to everyone with knowledge base access, archived ones to editors
+// until they are restored to draft. Review is optional: a draft can be
+// submitted (in_review) and published by a second editor, or published
+// directly.
+export const KB_ARTICLE_STATUSES = [
+  "draft",
+  "in_review",
+  "published",
+  "archived",
+] as const;
+
+export type KbArticleStatus = (typeof KB_ARTICLE_STATUSES)[number];
+
+// Published articles not reviewed within this many days are flagged stale;
+// overridden with KB_REVIEW_MAX_AGE_DAYS
+export const DEFAULT_KB_REVIEW_MAX_AGE_DAYS = 180;
+
+export function isKbArticleStale(
+  article: Pick<
+    KbArticle,
+    "status" | "lastReviewedAt" | "publishedAt" | "createdAt"
+  >,
+  maxAgeDays: number,
+  now: Date = new Date(),
+): boolean {
+  if (article.status !== "published") return false;
+  const reviewed =
+    article.lastReviewedAt ?? article.publishedAt ?? article.createdAt;
+  const ageDays =
+    (now.getTime() - new Date(reviewed).getTime()) / (24 * 60 * 60 * 1000);
+  return ageDays > maxAgeDays;
+}
+
+export type KbCategoryNode = KbCategory & { children: KbCategoryNode[] };
+
+// URL-safe slug from an article or category title
+export function kbSlug(title: string): string {
+  return (
+    title
+      .toLowerCase()
+      .normalize("NFKD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "")
+      .substring(0, 80) || "untitled"
+  );
+}
+
+/**
+ * Nest categories under their parent. Categories whose parent is missing or
+ * inactive are kept at the top level rather than dropped.
+ */
+export function buildKbCategoryTree(
+  categories: KbCategory[],
+): KbCategoryNode[] {
+  const nodes = new Map<number, KbCategoryNode>(
+    categories.map((c) => [c.id, { ...c, children: [] }]),
+  );
+  const roots: KbCategoryNode[] = [];
+  for (const node of nodes.values()) {
+    const parent =
+      node.parentId !== null && node.parentId !== node.id
+        ? nodes.get(node.parentId)
+        : undefined;
+    if (parent) parent.children.push(node);
+    else roots.push(node);
+  }
+  return roots;
+}
+
+// ===== SEARCH =====
+
+// Highlight markers around matched terms in search snippets. Control
+// characters can't appear in article text, so the client can split on them
+// instead of rendering HTML.
+export const KB_SNIPPET_START = "\u0002";
+export const KB_SNIPPET_END = "\u0003";
+
+export interface KbSearchFilters {
+  categoryId?: number;
+  tag?: string;
+  limit?: number;
+}
+
+// One matching article, before filters and paging
+export interface KbSearchMatch {
+  id: number;
+  categoryId: number;
+  tags: string[] | null;
+  rank: number;
+}
+
+export type KbSearchResult = Omit<KbArticle, "content" | "searchVector"> & {
+  rank: number;
+  snippet: string;
+};
+
+export interface KbSearchFacets {
+  categories: Array<{ id: number; name: string; count: number }>;
+  tags: Array<{ tag: string; count: number }>;
+}
+
+export interface KbSearchResponse {
+  query: string;
+  results: KbSearchResult[];
+  total: number; // Matches after filters, before the limit
+  facets: KbSearchFacets; // Over all matches, ignoring filters
+  fuzzy: boolean; // No full-text match; results are close title/tag matches
+}
+
+export function filterKbSearchMatches(
+  matches: KbSearchMatch[],
+  filters: KbSearchFilters,
+): KbSearchMatch[] {
+  const tag = filters.tag?.toLowerCase();
+  return matches.filter(
+    (m) =>
+      (!filters.categoryId || m.categoryId === filters.categoryId) &&
+      (!tag || (m.tags ?? []).some((t) => t.toLowerCase() === tag)),
+  );
+}
+
+export function kbSearchFacets(
+  matches: KbSearchMatch[],
+  categories: Array<Pick<KbCategory, "id" | "name">>,
+): KbSearchFacets {
+  const byCategory = new Map<number, number>();
+  const byTag = new Map<string, number>();
+  for (const match of matches) {
+    byCategory.set(
+      match.categoryId,
+      (byCategory.get(match.categoryId) ?? 0) + 1,
+    );
+    for (const tag of new Set((match.tags ?? []).map((t) => t.toLowerCase()))) {
+      byTag.set(tag, (byTag.get(tag) ?? 0) + 1);
+    }
+  }
+  const names = new Map(categories.map((c) => [c.id, c.name]));
+  return {
+    categories: [...byCategory]
+      .map(([id, count]) => ({
+        id,
+        name: names.get(id) ?? "Uncategorized",
+        count,
+      }))
+      .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name)),
+    tags: [...byTag]
+      .map(([tag, count]) => ({ tag, count }))
+      .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag))
+      .slice(0, 20),
+  };
+}
+
+// Snippet text split into plain and highlighted runs
+export function splitKbSnippet(
+  snippet: string,
+): Array<{ text: string; highlight: boolean }> {
+  const parts: Array<{ text: string; highlight: boolean }> = [];
+  for (const [i, chunk] of snippet.split(KB_SNIPPET_START).entries()) {
+    const [highlighted, rest] =
+      i === 0 ? [null, chunk] : chunk.split(KB_SNIPPET_END, 2);
+    if (highlighted) parts.push({ text: highlighted, highlight: true });
+    if (rest) parts.push({ text: rest, highlight: false });
+  }
+  return parts;
+}
+
+// Searches that found nothing, grouped by normalized query
+export interface KbContentGap {
+  query: string;
+  searches: number;
+  users: number;
+  lastSearchedAt: string;
+}
+
+// ===== VERSION DIFF =====
+
+export interface KbDiffRow {
+  type: "same" | "added" | "removed" | "changed";
+  left: string | null; // Older version
+  right: string | null; // Newer version
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+  "&amp;": "&",
+  "&lt;": "<",
+  "&gt;": ">",
+  "&quot;": '"',
+  "&#39;": "'",
+  "&nbsp;": " ",
+};
+
+// Article HTML as text lines: one per block element or line break
+export function kbContentLines(html: string): string[] {
+  return html
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|h[1-6]|li|blockquote|pre|div|tr)>/gi, "\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&(amp|lt|gt|quot|#39|nbsp);/g, (e) => HTML_ENTITIES[e] ?? e)
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Side-by-side line diff of two article versions (longest common
+ * subsequence). A run of removed lines directly followed by added lines is
+ * paired up into "changed" rows so edits line up across the two columns.
+ */
+export function diffKbVersions(before: string, after: string): KbDiffRow[] {
+  const a = kbContentLines(before);
+  const b = kbContentLines(after);
+  // lcs[i][j] = common subsequence length of a[i..] and b[j..]
+  const lcs = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0),
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i]![j] =
+        a[i] === b[j]
+          ? lcs[i + 1]![j + 1]! + 1
+          : Math.max(lcs[i + 1]![j]!, lcs[i]![j + 1]!);
+    }
+  }
+
+  const rows: KbDiffRow[] = [];
+  let removed: string[] = [];
+  let added: string[] = [];
+  const flush = () => {
+    const paired = Math.min(removed.length, added.length);
+    for (let k = 0; k < paired; k++) {
+      rows.push({ type: "changed", left: removed[k]!, right: added[k]! });
+    }
+    for (const line of removed.slice(paired)) {
+      rows.push({ type: "removed", left: line, right: null });
+    }
+    for (const line of added.slice(paired)) {
+      rows.push({ type: "added", left: null, right: line });
+    }
+    removed = [];
+    added = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      flush();
+      rows.push({ type: "same", left: a[i]!, right: b[j]! });
+      i++;
+      j++;
+    } else if (
+      j < b.length &&
+      (i >= a.length || lcs[i]![j + 1]! >= lcs[i + 1]![j]!)
+    ) {
+      added.push(b[j++]!);
+    } else {
+      removed.push(a[i++]!);
+    }
+  }
+  flush();
+  return rows;
+}
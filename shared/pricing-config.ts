@@ -1,4 +1,5 @@
 import { z } from "zod";
+import type { PricingConfig as CalculatorPricingConfig } from "./pricing";
 
 // Canonical, consolidated pricing config shape used by server and client
 // Matches server/pricing-config.ts output and admin-routes inputs
@@ -19,3 +20,157 @@ export const PricingConfigSchema = z.object({
 });
 
 export type PricingConfig = z.infer<typeof PricingConfigSchema>;
+
+// Map the DB-shaped config onto the calculator config consumed by
+// calculateQuotePricing. Values without an admin-managed source keep the
+// calculator defaults.
+export function toCalculatorPricingConfig(
+  cfg: Partial<PricingConfig> | undefined,
+  version?: string,
+): CalculatorPricingConfig {
+  return {
+    version,
+    services: {
+      bookkeeping: { enabled: true },
+      taas: { enabled: true },
+      payroll: { enabled: true },
+      ap: { enabled: true },
+      ar: { enabled: true },
+      agentOfService: { enabled: true },
+      cfoAdvisory: { enabled: true },
+      qbo: { enabled: true },
+    },
+    fees: {
+      baseMonthlyFee: cfg?.baseFees?.bookkeeping ?? 150,
+      qboMonthly: cfg?.serviceSettings?.bookkeeping?.qbo_subscription_fee ?? 60,
+      priorYearFilingPerYear: 1500,
+      cleanupPerMonth: 100,
+      serviceTierFees: { Automated: 0, Guided: 79, Concierge: 249 },
+    },
+    discounts: {
+      bookkeepingWithTaasPct: 0.5,
+      approvalThresholdPct:
+        cfg?.serviceSettings?.discounts?.approval_threshold_pct,
+      contractTermPct: {
+        "12_month": cfg?.serviceSettings?.contract_terms?.["12_month_pct"],
+        "24_month": cfg?.serviceSettings?.contract_terms?.["24_month_pct"],
+        annual_prepay: cfg?.serviceSettings?.contract_terms?.annual_prepay_pct,
+      },
+    },
+    rounding: { monthlyStep: 25 },
+    multipliers: {
+      revenue: cfg?.revenueMultipliers,
+      transactionSurcharges: cfg?.transactionSurcharges,
+      industry: cfg?.industryMultipliers,
+    },
+    // AP/AR tier tables don't price live quotes; see simulationPricingConfig
+  };
+}
+
+export interface PricingConfigChange {
+  path: string;
+  before: number | null;
+  after: number | null;
+}
+
+// Flatten both configs to dotted leaf paths and report every numeric value
+// that was added, removed or changed between them.
+export function diffPricingConfigs(
+  before: PricingConfig,
+  after: PricingConfig,
+): PricingConfigChange[] {
+  const flatten = (
+    node: unknown,
+    prefix: string,
+    out: Map<string, number>,
+  ): Map<string, number> => {
+    if (typeof node === "number") {
+      out.set(prefix, node);
+    } else if (node && typeof node === "object") {
+      for (const [key, value] of Object.entries(node)) {
+        flatten(value, prefix ? `${prefix}.${key}` : key, out);
+      }
+    }
+    return out;
+  };
+
+  const a = flatten(before, "", new Map());
+  const b = flatten(after, "", new Map());
+  const paths = Array.from(new Set([...a.keys(), ...b.keys()])).sort();
+
+  const changes: PricingConfigChange[] = [];
+  for (const path of paths) {
+    const prev = a.get(path) ?? null;
+    const next = b.get(path) ?? null;
+    if (prev !== next) changes.push({ path, before: prev, after: next });
+  }
+  return changes;
+}
+
+// Sparse set of proposed edits, e.g. a single industry multiplier
+export const PricingConfigPatchSchema = z.object({
+  baseFees: z.record(z.number()).optional(),
+  revenueMultipliers: z.record(z.number()).optional(),
+  transactionSurcharges: z.record(z.number()).optional(),
+  industryMultipliers: z
+    .record(
+      z.object({
+        monthly: z.number().optional(),
+        cleanup: z.number().optional(),
+      }),
+    )
+    .optional(),
+  serviceSettings: z.record(z.record(z.number())).optional(),
+  pricingTiers: z
+    .record(z.record(z.record(PricingTierEntrySchema.partial())))
+    .optional(),
+});
+
+export type PricingConfigPatch = z.infer<typeof PricingConfigPatchSchema>;
+
+export function applyPricingConfigPatch(
+  base: PricingConfig,
+  patch: PricingConfigPatch,
+): PricingConfig {
+  const merge = (target: unknown, source: unknown): unknown => {
+    if (!source || typeof source !== "object") return source ?? target;
+    const result: Record<string, unknown> = {
+      ...((target as Record<string, unknown>) ?? {}),
+    };
+    for (const [key, value] of Object.entries(source)) {
+      if (value === undefined) continue;
+      result[key] = merge(result[key], value);
+    }
+    return result;
+  };
+  return PricingConfigSchema.parse(merge(base, patch));
+}
+
+// Calculator config for the proposed side of an impact simulation. Live AP/AR
+// pricing uses the calculator's built-in bands, so only the tier entries the
+// patch edits are applied: a tier edit previews its own effect without the
+// rest of the tier table repricing every AP/AR quote.
+export function simulationPricingConfig(
+  proposed: PricingConfig,
+  patch: PricingConfigPatch,
+): CalculatorPricingConfig {
+  const editedTiers = (service: "ap" | "ar") => {
+    const edits = patch.pricingTiers?.[service];
+    if (!edits) return undefined;
+    return Object.fromEntries(
+      Object.entries(edits).map(([tier, bands]) => [
+        tier,
+        Object.fromEntries(
+          Object.keys(bands).flatMap((band) => {
+            const entry = proposed.pricingTiers[service]?.[tier]?.[band];
+            return entry ? [[band, entry]] : [];
+          }),
+        ),
+      ]),
+    );
+  };
+  return {
+    ...toCalculatorPricingConfig(proposed),
+    tiers: { ap: editedTiers("ap"), ar: editedTiers("ar") },
+  };
+}
@@ -0,0 +1,290 @@
+import { z } from "zod";
+
+// Line-item discounts, promo codes and manual price overrides applied on top
+// of the calculated service fees. Consumed by calculateQuotePricing.
+
+export const DISCOUNT_SERVICE_LINES = [
+  "bookkeeping",
+  "taas",
+  "payroll",
+  "ap",
+  "ar",
+  "qbo",
+  "cleanup",
+  "priorYearFilings",
+  "agentOfService",
+  "cfoAdvisory",
+] as const;
+export type DiscountServiceLine = (typeof DISCOUNT_SERVICE_LINES)[number];
+
+export const DISCOUNT_SERVICE_LABELS: Record<DiscountServiceLine, string> = {
+  bookkeeping: "Bookkeeping",
+  taas: "TaaS",
+  payroll: "Payroll",
+  ap: "AP",
+  ar: "AR",
+  qbo: "QBO Subscription",
+  cleanup: "Cleanup Project",
+  priorYearFilings: "Prior Year Filings",
+  agentOfService: "Agent of Service",
+  cfoAdvisory: "CFO Advisory",
+};
+
+// Which fee a service line can discount; bookkeeping and TaaS have both
+export const DISCOUNTABLE_FEES: Record<
+  DiscountServiceLine,
+  ReadonlyArray<"monthly" | "setup">
+> = {
+  bookkeeping: ["monthly", "setup"],
+  taas: ["monthly", "setup"],
+  payroll: ["monthly"],
+  ap: ["monthly"],
+  ar: ["monthly"],
+  qbo: ["monthly"],
+  cleanup: ["setup"],
+  priorYearFilings: ["setup"],
+  agentOfService: ["setup"],
+  cfoAdvisory: ["setup"],
+};
+
+// Discounts above this share of a line's list price need an approval code
+export const DEFAULT_DISCOUNT_APPROVAL_THRESHOLD_PCT = 15;
+
+// percent: value is 0-100 off list; fixed: value is dollars off list;
+// override: value replaces the list price outright
+export const DiscountKindSchema = z.enum(["percent", "fixed", "override"]);
+export type DiscountKind = z.infer<typeof DiscountKindSchema>;
+
+export const DiscountTermsSchema = z
+  .object({
+    service: z.enum(DISCOUNT_SERVICE_LINES),
+    appliesTo: z.enum(["monthly", "setup"]),
+    kind: DiscountKindSchema,
+    value: z.number().nonnegative(),
+    // Monthly discounts only; null/omitted lasts for the life of the contract
+    durationMonths: z.number().int().positive().nullable().optional(),
+  })
+  .refine((d) => d.kind !== "percent" || d.value <= 100, {
+    message: "Percentage discounts cannot exceed 100",
+    path: ["value"],
+  })
+  .refine((d) => DISCOUNTABLE_FEES[d.service].includes(d.appliesTo), {
+    message: "Service has no fee of that type",
+    path: ["appliesTo"],
+  });
+export type DiscountTerms = z.infer<typeof DiscountTermsSchema>;
+
+export const LineItemDiscountSchema = z.intersection(
+  DiscountTermsSchema,
+  z.object({
+    reason: z.string().optional(),
+    source: z.enum(["manual", "promo"]).default("manual"),
+    promoCode: z.string().optional(),
+  }),
+);
+export type LineItemDiscount = z.infer<typeof LineItemDiscountSchema>;
+
+export interface AppliedLineItemDiscount {
+  service: DiscountServiceLine;
+  appliesTo: "monthly" | "setup";
+  kind: DiscountKind;
+  value: number;
+  durationMonths: number | null;
+  source: "manual" | "promo";
+  promoCode: string | null;
+  reason: string | null;
+  listPrice: number;
+  discountedPrice: number;
+  // Positive when the price went down; overrides may raise a price
+  amount: number;
+}
+
+export interface DiscountTotals {
+  monthly: number;
+  setup: number;
+  // Monthly fee once every time-limited discount has expired
+  steadyStateMonthlyFee: number;
+  // Largest manual discount as a percent of its line's list price
+  maxManualDiscountPct: number;
+  requiresApproval: boolean;
+}
+
+export const EMPTY_DISCOUNT_TOTALS: DiscountTotals = {
+  monthly: 0,
+  setup: 0,
+  steadyStateMonthlyFee: 0,
+  maxManualDiscountPct: 0,
+  requiresApproval: false,
+};
+
+// Quote rows store discounts as JSON text; tolerate bad rows rather than
+// failing the whole price calculation
+export function parseLineItemDiscounts(
+  value: unknown,
+): LineItemDiscount[] {
+  let raw = value;
+  if (typeof raw === "string") {
+    if (!raw.trim()) return [];
+    try {
+      raw = JSON.parse(raw);
+    } catch {
+      return [];
+    }
+  }
+  if (!Array.isArray(raw)) return [];
+  const discounts: LineItemDiscount[] = [];
+  for (const item of raw) {
+    const parsed = LineItemDiscountSchema.safeParse(item);
+    if (parsed.success) discounts.push(parsed.data);
+  }
+  return discounts;
+}
+
+export function discountedPrice(
+  listPrice: number,
+  discount: Pick<DiscountTerms, "kind" | "value">,
+): number {
+  let price = listPrice;
+  if (discount.kind === "percent") {
+    price = listPrice * (1 - discount.value / 100);
+  } else if (discount.kind === "fixed") {
+    price = listPrice - discount.value;
+  } else {
+    price = discount.value;
+  }
+  return Math.max(0, Math.round(price * 100) / 100);
+}
+
+export type DiscountLineKey = `${DiscountServiceLine}:${"monthly" | "setup"}`;
+
+// Apply discounts line by line, in order; several discounts on one line
+// compound against the running price. Lines without a price are not part of
+// the quote and are left alone.
+export function applyLineItemDiscounts(
+  listPrices: Partial<Record<DiscountLineKey, number>>,
+  discounts: LineItemDiscount[],
+  approvalThresholdPct: number = DEFAULT_DISCOUNT_APPROVAL_THRESHOLD_PCT,
+): {
+  prices: Partial<Record<DiscountLineKey, number>>;
+  applied: AppliedLineItemDiscount[];
+  maxManualDiscountPct: number;
+  requiresApproval: boolean;
+} {
+  const prices = { ...listPrices };
+  const applied: AppliedLineItemDiscount[] = [];
+  // Manual amounts per line, measured against the undiscounted price so
+  // stacked discounts cannot slip under the approval threshold one by one
+  const manualOff: Partial<Record<DiscountLineKey, number>> = {};
+  let maxManualDiscountPct = 0;
+
+  for (const discount of discounts) {
+    const key: DiscountLineKey = `${discount.service}:${discount.appliesTo}`;
+    const listPrice = prices[key] ?? 0;
+    if (listPrice <= 0) continue;
+
+    const price = discountedPrice(listPrice, discount);
+    const amount = Math.round((listPrice - price) * 100) / 100;
+    prices[key] = price;
+
+    if (discount.source === "manual" && amount > 0) {
+      manualOff[key] = (manualOff[key] ?? 0) + amount;
+      const original = listPrices[key] ?? listPrice;
+      maxManualDiscountPct = Math.max(
+        maxManualDiscountPct,
+        Math.round(((manualOff[key] ?? 0) / original) * 10000) / 100,
+      );
+    }
+
+    applied.push({
+      service: discount.service,
+      appliesTo: discount.appliesTo,
+      kind: discount.kind,
+      value: discount.value,
+      durationMonths:
+        discount.appliesTo === "monthly"
+          ? (discount.durationMonths ?? null)
+          : null,
+      source: discount.source,
+      promoCode: discount.promoCode ?? null,
+      reason: discount.reason ?? null,
+      listPrice,
+      discountedPrice: price,
+      amount,
+    });
+  }
+
+  return {
+    prices,
+    applied,
+    maxManualDiscountPct,
+    requiresApproval: maxManualDiscountPct > approvalThresholdPct,
+  };
+}
+
+// Short human description, e.g. "10% off for 6 months (promo SPRING)"
+export function describeDiscount(
+  discount: Pick<
+    AppliedLineItemDiscount,
+    "kind" | "value" | "durationMonths" | "promoCode"
+  >,
+): string {
+  let text = `price set to $${discount.value}`;
+  if (discount.kind === "percent") text = `${discount.value}% off`;
+  if (discount.kind === "fixed") text = `$${discount.value} off`;
+  if (discount.durationMonths) {
+    text += ` for ${discount.durationMonths} months`;
+  }
+  if (discount.promoCode) text += ` (promo ${discount.promoCode})`;
+  return text;
+}
+
+export function normalizePromoCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+// Structural view of a promo_codes row so the client can share these checks
+export interface PromoCodeTerms {
+  code: string;
+  discountsJson: string;
+  expiresAt: Date | string | null;
+  maxUses: number | null;
+  usesCount: number;
+  isActive: boolean;
+}
+
+// Why a promo code cannot be redeemed right now, or null when it can
+export function promoCodeUnavailableReason(
+  promo: PromoCodeTerms,
+  asOf: Date = new Date(),
+): string | null {
+  if (!promo.isActive) return "Promo code is no longer active";
+  if (promo.expiresAt && new Date(promo.expiresAt) <= asOf) {
+    return "Promo code has expired";
+  }
+  if (promo.maxUses !== null && promo.usesCount >= promo.maxUses) {
+    return "Promo code has reached its usage limit";
+  }
+  return null;
+}
+
+export function promoCodeDiscounts(promo: PromoCodeTerms): LineItemDiscount[] {
+  let terms: unknown;
+  try {
+    terms = JSON.parse(promo.discountsJson);
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(terms)) return [];
+  const discounts: LineItemDiscount[] = [];
+  for (const item of terms) {
+    const parsed = DiscountTermsSchema.safeParse(item);
+    if (parsed.success) {
+      discounts.push({
+        ...parsed.data,
+        source: "promo",
+        promoCode: normalizePromoCode(promo.code),
+      });
+    }
+  }
+  return discounts;
+}
@@ -0,0 +1,220 @@
+// Golden pricing fixtures
+// A fixture freezes a real quote's pricing input together with the result the
+// engine produced when it was captured. Replaying fixtures after an engine
+// change shows exactly which breakdown fields moved.
+
+import {
+  calculateQuotePricing,
+  type CombinedFeeResult,
+  type PricingConfig,
+  type QuotePricingInput,
+} from "./pricing";
+
+export interface PricingGoldenFixture {
+  name: string;
+  description?: string;
+  capturedAt: string;
+  // Pricing date passed to the engine on replay
+  asOf: string;
+  source: {
+    quoteId: number | null;
+    pricingConfigVersionId: number | null;
+  };
+  // Calculator config the quote was priced with; omitted means defaults
+  config?: PricingConfig;
+  input: QuotePricingInput;
+  expected: CombinedFeeResult;
+}
+
+export const GOLDEN_SECTIONS = [
+  "bookkeeping",
+  "taas",
+  "payroll",
+  "ap",
+  "ar",
+  "agentOfService",
+  "cfoAdvisory",
+  "qbo",
+  "combined",
+  "other",
+] as const;
+export type GoldenSection = (typeof GOLDEN_SECTIONS)[number];
+
+export interface GoldenFieldDiff {
+  section: GoldenSection;
+  path: string;
+  expected: unknown;
+  actual: unknown;
+}
+
+// Quote columns consumed by calculateQuotePricing
+const QUOTE_PRICING_INPUT_KEYS = [
+  "monthlyRevenueRange",
+  "monthlyTransactions",
+  "industry",
+  "cleanupMonths",
+  "cleanupComplexity",
+  "cleanupOverride",
+  "overrideReason",
+  "customSetupFee",
+  "serviceTier",
+  "includesTaas",
+  "numEntities",
+  "customNumEntities",
+  "statesFiled",
+  "customStatesFiled",
+  "internationalFiling",
+  "numBusinessOwners",
+  "customNumBusinessOwners",
+  "include1040s",
+  "priorYearsUnfiled",
+  "qboSubscription",
+  "entityType",
+  "bookkeepingQuality",
+  "serviceMonthlyBookkeeping",
+  "serviceTaasMonthly",
+  "serviceCleanupProjects",
+  "servicePriorYearFilings",
+  "serviceCfoAdvisory",
+  "servicePayrollService",
+  "serviceApArService",
+  "serviceArService",
+  "serviceAgentOfService",
+  "priorYearFilings",
+  "cleanupPeriods",
+  "cfoAdvisoryType",
+  "cfoAdvisoryBundleHours",
+  "payrollEmployeeCount",
+  "payrollStateCount",
+  "apServiceTier",
+  "apVendorBillsBand",
+  "apVendorCount",
+  "customApVendorCount",
+  "arServiceTier",
+  "arCustomerInvoicesBand",
+  "arCustomerCount",
+  "customArCustomerCount",
+  "agentOfServiceAdditionalStates",
+  "agentOfServiceComplexCase",
+  "lineItemDiscountsJson",
+  "contractTerm",
+] as const;
+
+// Pick the pricing input off a quote row, dropping nulls so the fixture
+// JSON only carries fields the deal actually set
+export function quoteToPricingInput(
+  quote: Record<string, unknown>,
+): QuotePricingInput {
+  const input: Record<string, unknown> = {};
+  for (const key of QUOTE_PRICING_INPUT_KEYS) {
+    const value = quote[key];
+    if (value !== null && value !== undefined) input[key] = value;
+  }
+  return input as unknown as QuotePricingInput;
+}
+
+export function buildGoldenFixture(params: {
+  name: string;
+  description?: string;
+  input: QuotePricingInput;
+  config?: PricingConfig;
+  source?: Partial<PricingGoldenFixture["source"]>;
+  asOf?: Date;
+}): PricingGoldenFixture {
+  const asOf = params.asOf ?? new Date();
+  return {
+    name: params.name,
+    description: params.description,
+    capturedAt: new Date().toISOString(),
+    asOf: asOf.toISOString(),
+    source: {
+      quoteId: params.source?.quoteId ?? null,
+      pricingConfigVersionId: params.source?.pricingConfigVersionId ?? null,
+    },
+    config: params.config,
+    input: params.input,
+    // Round-trip through JSON so expected matches what is stored on disk
+    expected: JSON.parse(
+      JSON.stringify(calculateQuotePricing(params.input, params.config, asOf)),
+    ),
+  };
+}
+
+export function goldenFixtureFileName(name: string): string {
+  const slug = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return `${slug || "fixture"}.json`;
+}
+
+function sectionFor(path: string): GoldenSection {
+  const [head = ""] = path.split(".");
+  if (head === "bookkeeping" || head === "includesBookkeeping") {
+    return "bookkeeping";
+  }
+  if (head === "taas" || head === "includesTaas") return "taas";
+  if (head.startsWith("payroll")) return "payroll";
+  if (head.startsWith("ap") || head === "includesAP") return "ap";
+  if (head.startsWith("ar") || head === "includesAR") return "ar";
+  if (head.startsWith("agentOfService") || head === "includesAgentOfService") {
+    return "agentOfService";
+  }
+  if (head.startsWith("cfoAdvisory")) return "cfoAdvisory";
+  if (head === "qboFee") return "qbo";
+  if (head === "combined") return "combined";
+  return "other";
+}
+
+function flatten(
+  value: unknown,
+  prefix: string,
+  out: Map<string, unknown>,
+): Map<string, unknown> {
+  if (value !== null && typeof value === "object") {
+    const entries = Array.isArray(value)
+      ? value.map((v, i) => [String(i), v] as const)
+      : Object.entries(value);
+    for (const [key, child] of entries) {
+      flatten(child, prefix ? `${prefix}.${key}` : key, out);
+    }
+    return out;
+  }
+  if (value !== undefined) out.set(prefix, value);
+  return out;
+}
+
+// Field-by-field comparison of two engine results, grouped by service
+export function diffPricingResults(
+  expected: CombinedFeeResult,
+  actual: CombinedFeeResult,
+): GoldenFieldDiff[] {
+  const before = flatten(expected, "", new Map());
+  const after = flatten(JSON.parse(JSON.stringify(actual)), "", new Map());
+  const paths = Array.from(new Set([...before.keys(), ...after.keys()]));
+  const diffs: GoldenFieldDiff[] = [];
+  for (const path of paths) {
+    const e = before.has(path) ? before.get(path) : null;
+    const a = after.has(path) ? after.get(path) : null;
+    if (e !== a) {
+      diffs.push({ section: sectionFor(path), path, expected: e, actual: a });
+    }
+  }
+  return diffs.sort(
+    (x, y) =>
+      GOLDEN_SECTIONS.indexOf(x.section) - GOLDEN_SECTIONS.indexOf(y.section) ||
+      x.path.localeCompare(y.path),
+  );
+}
+
+export function replayGoldenFixture(fixture: PricingGoldenFixture): {
+  actual: CombinedFeeResult;
+  diffs: GoldenFieldDiff[];
+} {
+  const actual = calculateQuotePricing(
+    fixture.input,
+    fixture.config,
+    new Date(fixture.asOf),
+  );
+  return { actual, diffs: diffPricingResults(fixture.expected, actual) };
+}
@@ -0,0 +1,188 @@
+// Pricing impact simulation
+// Re-prices a set of quotes under the current and a proposed config and
+// summarizes what would change before an admin commits a pricing edit.
+
+import {
+  calculateQuotePricing,
+  type CombinedFeeResult,
+  type PricingConfig,
+  type QuotePricingInput,
+} from "./pricing";
+import { DEFAULT_DISCOUNT_APPROVAL_THRESHOLD_PCT } from "./pricing-discounts";
+
+export const MRR_SERVICES = [
+  "bookkeeping",
+  "taas",
+  "payroll",
+  "ap",
+  "ar",
+  "qbo",
+] as const;
+export type MrrService = (typeof MRR_SERVICES)[number];
+
+export interface ImpactTotals {
+  monthlyFee: number;
+  setupFee: number;
+}
+
+// A quote whose manual discounts move across the config's discount approval
+// threshold, because the threshold or the list prices they come off changed
+export interface ThresholdCrossing {
+  direction: "now_requires_approval" | "no_longer_requires_approval";
+  currentDiscountPct: number;
+  proposedDiscountPct: number;
+}
+
+export interface QuotePricingImpact {
+  quoteId: number;
+  label: string;
+  current: ImpactTotals;
+  proposed: ImpactTotals;
+  delta: ImpactTotals;
+  crossings: ThresholdCrossing[];
+}
+
+export interface ServiceMrrImpact {
+  current: number;
+  proposed: number;
+  delta: number;
+}
+
+export interface PricingImpactReport {
+  quoteCount: number;
+  changedCount: number;
+  failedQuoteIds: number[];
+  totals: {
+    current: ImpactTotals;
+    proposed: ImpactTotals;
+    delta: ImpactTotals;
+  };
+  mrrByService: Record<MrrService, ServiceMrrImpact>;
+  // discounts.approvalThresholdPct of each config
+  approvalThresholdPct: { current: number; proposed: number };
+  quotes: QuotePricingImpact[];
+}
+
+export interface SimulatableQuote extends Record<string, unknown> {
+  id: number;
+  companyName?: string | null;
+  contactEmail?: string | null;
+}
+
+function serviceMrr(result: CombinedFeeResult): Record<MrrService, number> {
+  return {
+    bookkeeping: result.bookkeeping.monthlyFee,
+    taas: result.taas.monthlyFee,
+    payroll: result.payrollFee,
+    ap: result.apFee,
+    ar: result.arFee,
+    qbo: result.qboFee,
+  };
+}
+
+function crossingsFor(
+  before: CombinedFeeResult,
+  after: CombinedFeeResult,
+): ThresholdCrossing[] {
+  const current = before.discountTotals;
+  const proposed = after.discountTotals;
+  if (current.requiresApproval === proposed.requiresApproval) return [];
+  return [
+    {
+      direction: proposed.requiresApproval
+        ? "now_requires_approval"
+        : "no_longer_requires_approval",
+      currentDiscountPct: current.maxManualDiscountPct,
+      proposedDiscountPct: proposed.maxManualDiscountPct,
+    },
+  ];
+}
+
+const approvalThresholdPct = (config: PricingConfig) =>
+  config.discounts?.approvalThresholdPct ??
+  DEFAULT_DISCOUNT_APPROVAL_THRESHOLD_PCT;
+
+export function simulatePricingImpact(
+  quotes: SimulatableQuote[],
+  currentConfig: PricingConfig,
+  proposedConfig: PricingConfig,
+): PricingImpactReport {
+  const zero = (): ImpactTotals => ({ monthlyFee: 0, setupFee: 0 });
+  const totals = { current: zero(), proposed: zero(), delta: zero() };
+  const mrrByService = Object.fromEntries(
+    MRR_SERVICES.map((svc) => [svc, { current: 0, proposed: 0, delta: 0 }]),
+  ) as Record<MrrService, ServiceMrrImpact>;
+  const results: QuotePricingImpact[] = [];
+  const failedQuoteIds: number[] = [];
+
+  for (const quote of quotes) {
+    let before: CombinedFeeResult;
+    let after: CombinedFeeResult;
+    try {
+      const input = quote as unknown as QuotePricingInput;
+      before = calculateQuotePricing(input, currentConfig);
+      after = calculateQuotePricing(input, proposedConfig);
+    } catch {
+      failedQuoteIds.push(quote.id);
+      continue;
+    }
+
+    const current = {
+      monthlyFee: before.combined.monthlyFee,
+      setupFee: before.combined.setupFee,
+    };
+    const proposed = {
+      monthlyFee: after.combined.monthlyFee,
+      setupFee: after.combined.setupFee,
+    };
+    const delta = {
+      monthlyFee: proposed.monthlyFee - current.monthlyFee,
+      setupFee: proposed.setupFee - current.setupFee,
+    };
+
+    for (const key of ["monthlyFee", "setupFee"] as const) {
+      totals.current[key] += current[key];
+      totals.proposed[key] += proposed[key];
+      totals.delta[key] += delta[key];
+    }
+
+    const mrrBefore = serviceMrr(before);
+    const mrrAfter = serviceMrr(after);
+    for (const svc of MRR_SERVICES) {
+      mrrByService[svc].current += mrrBefore[svc];
+      mrrByService[svc].proposed += mrrAfter[svc];
+      mrrByService[svc].delta += mrrAfter[svc] - mrrBefore[svc];
+    }
+
+    results.push({
+      quoteId: quote.id,
+      label: quote.companyName || quote.contactEmail || `Quote #${quote.id}`,
+      current,
+      proposed,
+      delta,
+      crossings: crossingsFor(before, after),
+    });
+  }
+
+  // Largest absolute monthly movement first
+  results.sort(
+    (a, b) =>
+      Math.abs(b.delta.monthlyFee) - Math.abs(a.delta.monthlyFee) ||
+      Math.abs(b.delta.setupFee) - Math.abs(a.delta.setupFee),
+  );
+
+  return {
+    quoteCount: results.length,
+    changedCount: results.filter(
+      (r) => r.delta.monthlyFee !== 0 || r.delta.setupFee !== 0,
+    ).length,
+    failedQuoteIds,
+    totals,
+    mrrByService,
+    approvalThresholdPct: {
+      current: approvalThresholdPct(currentConfig),
+      proposed: approvalThresholdPct(proposedConfig),
+    },
+    quotes: results,
+  };
+}
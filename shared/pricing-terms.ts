@@ -0,0 +1,96 @@
+import { z } from "zod";
+
+// Contract terms: how long the client commits and how they are billed.
+// Longer commitments and prepayment earn a percentage off every monthly line.
+
+export const CONTRACT_TERMS = [
+  "monthly",
+  "12_month",
+  "24_month",
+  "annual_prepay",
+] as const;
+export type ContractTerm = (typeof CONTRACT_TERMS)[number];
+export const ContractTermSchema = z.enum(CONTRACT_TERMS);
+
+export const CONTRACT_TERM_LABELS: Record<ContractTerm, string> = {
+  monthly: "Month-to-month",
+  "12_month": "12-month commitment",
+  "24_month": "24-month commitment",
+  annual_prepay: "Annual prepay",
+};
+
+// Committed months; month-to-month has no commitment
+export const CONTRACT_TERM_MONTHS: Record<ContractTerm, number | null> = {
+  monthly: null,
+  "12_month": 12,
+  "24_month": 24,
+  annual_prepay: 12,
+};
+
+// Used when the admin pricing config has no contract_terms settings
+export const DEFAULT_TERM_DISCOUNT_PCT: Record<ContractTerm, number> = {
+  monthly: 0,
+  "12_month": 5,
+  "24_month": 10,
+  annual_prepay: 10,
+};
+
+export type BillingFrequency = "monthly" | "annually";
+
+export function billingFrequencyFor(term: ContractTerm): BillingFrequency {
+  return term === "annual_prepay" ? "annually" : "monthly";
+}
+
+export function parseContractTerm(value: unknown): ContractTerm {
+  const parsed = ContractTermSchema.safeParse(value);
+  return parsed.success ? parsed.data : "monthly";
+}
+
+export interface ContractTermResult {
+  term: ContractTerm;
+  commitmentMonths: number | null;
+  billingFrequency: BillingFrequency;
+  discountPct: number;
+  // Monthly amount taken off by the term discount
+  discountMonthly: number;
+  // Billed once up front for annual prepay; 0 otherwise
+  prepayAmount: number;
+}
+
+export const MONTH_TO_MONTH_TERMS: ContractTermResult = {
+  term: "monthly",
+  commitmentMonths: null,
+  billingFrequency: "monthly",
+  discountPct: 0,
+  discountMonthly: 0,
+  prepayAmount: 0,
+};
+
+// Term discount for a contract term, preferring configured values
+export function termDiscountPct(
+  term: ContractTerm,
+  configured?: Partial<Record<ContractTerm, number>>,
+): number {
+  const pct = configured?.[term] ?? DEFAULT_TERM_DISCOUNT_PCT[term];
+  return Math.min(100, Math.max(0, pct));
+}
+
+export function describeContractTerm(
+  terms: Pick<ContractTermResult, "term" | "discountPct">,
+): string {
+  const label = CONTRACT_TERM_LABELS[terms.term];
+  return terms.discountPct > 0 ? `${label} (${terms.discountPct}% off)` : label;
+}
+
+// Quote columns written alongside the server-calculated totals
+export function contractTermQuoteFields(terms: ContractTermResult): {
+  contractTerm: ContractTerm;
+  termDiscountAmount: string;
+  prepayAmount: string;
+} {
+  return {
+    contractTerm: terms.term,
+    termDiscountAmount: terms.discountMonthly.toFixed(2),
+    prepayAmount: terms.prepayAmount.toFixed(2),
+  };
+}
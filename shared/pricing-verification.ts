@@ -0,0 +1,76 @@
+import type { CombinedFeeResult } from "./pricing";
+
+// Quote fees are always priced on the server. The browser still sends the
+// fees it showed the rep; any that disagree with the server's result mean a
+// stale pricing config or a tampered request, and the save is rejected.
+
+export const QUOTE_FEE_FIELDS = [
+  "monthlyFee",
+  "setupFee",
+  "taasMonthlyFee",
+  "taasPriorYearsFee",
+] as const;
+export type QuoteFeeField = (typeof QUOTE_FEE_FIELDS)[number];
+
+export type QuoteFeeColumns = Record<QuoteFeeField, string>;
+
+// Rounding between browser and server never moves a fee by more than a cent
+export const PRICING_MISMATCH_TOLERANCE = 0.01;
+
+export const PRICING_MISMATCH_MESSAGE =
+  "Pricing changed since this quote was calculated. Review the updated totals and save again.";
+
+export interface PricingMismatch {
+  field: QuoteFeeField;
+  submitted: string;
+  expected: string;
+}
+
+// Fee columns stored on the quote for a calculator result
+export function quoteFeeColumns(calc: CombinedFeeResult): QuoteFeeColumns {
+  return {
+    monthlyFee: calc.combined.monthlyFee.toFixed(2),
+    setupFee: calc.combined.setupFee.toFixed(2),
+    taasMonthlyFee: calc.taas.monthlyFee.toFixed(2),
+    taasPriorYearsFee: calc.priorYearFilingsFee.toFixed(2),
+  };
+}
+
+// Submitted fees that differ from the server's; fees left out of the request
+// (e.g. API callers that never price) are not compared
+export function findPricingMismatches(
+  submitted: Partial<Record<QuoteFeeField, unknown>>,
+  expected: QuoteFeeColumns,
+): PricingMismatch[] {
+  const mismatches: PricingMismatch[] = [];
+  for (const field of QUOTE_FEE_FIELDS) {
+    const value = submitted[field];
+    if (value === undefined || value === null || value === "") continue;
+    const amount = Number(value);
+    if (
+      !Number.isFinite(amount) ||
+      Math.abs(amount - Number(expected[field])) > PRICING_MISMATCH_TOLERANCE
+    ) {
+      mismatches.push({
+        field,
+        submitted: String(value),
+        expected: expected[field],
+      });
+    }
+  }
+  return mismatches;
+}
+
+// Stored CombinedFeeResult (quotes.pricing_breakdown_json); null for quotes
+// priced before the breakdown was kept
+export function parsePricingBreakdown(
+  json: string | null | undefined,
+): CombinedFeeResult | null {
+  if (!json) return null;
+  try {
+    const parsed = JSON.parse(json);
+    return parsed?.combined ? (parsed as CombinedFeeResult) : null;
+  } catch {
+    return null;
+  }
+}
@@ -1,6 +1,24 @@
 // Shared pricing calculation logic
 // This ensures consistency between frontend and backend calculations
 
+import {
+  applyLineItemDiscounts,
+  parseLineItemDiscounts,
+  DEFAULT_DISCOUNT_APPROVAL_THRESHOLD_PCT,
+  type AppliedLineItemDiscount,
+  type DiscountLineKey,
+  type DiscountTotals,
+  type LineItemDiscount,
+} from "./pricing-discounts";
+import {
+  billingFrequencyFor,
+  CONTRACT_TERM_MONTHS,
+  parseContractTerm,
+  termDiscountPct,
+  type ContractTerm,
+  type ContractTermResult,
+} from "./pricing-terms";
+
 export interface PricingData {
   monthlyRevenueRange?: string;
   monthlyTransactions?: string;
@@ -26,6 +44,8 @@ export interface PricingData {
   qboSubscription?: boolean | null;
   entityType?: string;
   bookkeepingQuality?: string;
+  lineItemDiscounts?: LineItemDiscount[];
+  contractTerm?: ContractTerm | string | null;
 }
 
 export interface FeeResult {
@@ -57,6 +77,11 @@ export interface CombinedFeeResult {
   agentOfServiceFee: number;
   agentOfServiceBreakdown?: any;
   qboFee: number; // QBO subscription as separate line item
+  // Line-item discounts/overrides; the fees above are already net of them
+  lineItemDiscounts: AppliedLineItemDiscount[];
+  discountTotals: DiscountTotals;
+  // Commitment/prepay terms; monthly fees above are already net of the term discount
+  contractTerm: ContractTermResult;
 }
 
 // Strongly-typed input used by the Quote Calculator (extends PricingData
@@ -104,10 +129,14 @@ export type QuotePricingInput = PricingData & {
   // Tier + subscriptions
   serviceTier?: "Automated" | "Guided" | "Concierge";
   qboSubscription?: boolean;
+
+  // Discounts; saved quotes carry them as lineItemDiscountsJson
+  lineItemDiscounts?: LineItemDiscount[];
+  lineItemDiscountsJson?: string | null;
 };
 
-// Optional pricing configuration (future: admin-configurable via DB/BFF)
-// For now this is defined for forward-compatibility; callers may omit it.
+// Optional pricing configuration. Admin-managed values are mapped in via
+// toCalculatorPricingConfig (shared/pricing-config.ts); callers may omit it.
 export interface PricingConfig {
   version?: string;
   services?: Partial<{
@@ -133,12 +162,32 @@ export interface PricingConfig {
   }>;
   discounts?: Partial<{
     bookkeepingWithTaasPct: number; // e.g. 0.5
+    approvalThresholdPct: number; // manual line-item discounts above this % need approval
+    // Percent off every monthly line by contract term, e.g. { "24_month": 10 }
+    contractTermPct: Partial<Record<ContractTerm, number>>;
   }>;
   rounding?: Partial<{
     monthlyStep: number; // e.g. 25
   }>;
+  // Lookup tables; any key missing here falls back to PRICING_CONSTANTS
+  multipliers?: Partial<{
+    revenue: Record<string, number>;
+    transactionSurcharges: Record<string, number>;
+    industry: Record<string, { monthly: number; cleanup: number }>;
+  }>;
+  // AP/AR volume tiers keyed by service tier then volume band. Only the
+  // impact simulator sets these; live quotes use the built-in bands.
+  tiers?: Partial<{
+    ap: VolumeTierTable;
+    ar: VolumeTierTable;
+  }>;
 }
 
+export type VolumeTierTable = Record<
+  string,
+  Record<string, { baseFee: number; multiplier: number }>
+>;
+
 // Constants
 export const PRICING_CONSTANTS = {
   baseMonthlyFee: 150,
@@ -500,7 +549,10 @@ export function calculatePayrollFees(data: PricingData): {
   };
 }
 
-export function calculateAPFees(data: PricingData): {
+export function calculateAPFees(
+  data: PricingData,
+  tiers?: VolumeTierTable,
+): {
   apFee: number;
   breakdown?: {
     apServiceTier: string;
@@ -547,14 +599,19 @@ export function calculateAPFees(data: PricingData): {
       break;
   }
 
+  // Configured tier entry overrides the band base fee and tier multiplier
+  const tierEntry = tiers?.[apServiceTier]?.[apVendorBillsBand];
+  if (tierEntry) apLiteFee = tierEntry.baseFee;
+
   // Add vendor/payee count surcharge (first 5 are free, then $12/month per payee above 5)
   const vendorCountSurcharge = apVendorCount > 5 ? (apVendorCount - 5) * 12 : 0;
 
   const beforeMultiplier = apLiteFee + vendorCountSurcharge;
 
   // Apply 2.5x multiplier for AP Advanced tier
-  const totalApFee =
-    apServiceTier === "advanced" ? beforeMultiplier * 2.5 : beforeMultiplier;
+  const tierMultiplier =
+    tierEntry?.multiplier ?? (apServiceTier === "advanced" ? 2.5 : 1);
+  const totalApFee = beforeMultiplier * tierMultiplier;
 
   return {
     apFee: totalApFee,
@@ -570,7 +627,10 @@ export function calculateAPFees(data: PricingData): {
   };
 }
 
-export function calculateARFees(data: PricingData): {
+export function calculateARFees(
+  data: PricingData,
+  tiers?: VolumeTierTable,
+): {
   arFee: number;
   breakdown?: {
     arServiceTier: string;
@@ -617,6 +677,9 @@ export function calculateARFees(data: PricingData): {
       break;
   }
 
+  const tierEntry = tiers?.[arServiceTier]?.[arCustomerInvoicesBand];
+  if (tierEntry) arLiteFee = tierEntry.baseFee;
+
   // Add customer count surcharge (first 5 are free, then $12/month per customer above 5)
   const customerCountSurcharge =
     arCustomerCount > 5 ? (arCustomerCount - 5) * 12 : 0;
@@ -624,8 +687,9 @@ export function calculateARFees(data: PricingData): {
   const beforeMultiplier = arLiteFee + customerCountSurcharge;
 
   // Apply 2.5x multiplier for AR Advanced tier
-  const totalArFee =
-    arServiceTier === "advanced" ? beforeMultiplier * 2.5 : beforeMultiplier;
+  const tierMultiplier =
+    tierEntry?.multiplier ?? (arServiceTier === "advanced" ? 2.5 : 1);
+  const totalArFee = beforeMultiplier * tierMultiplier;
 
   return {
     arFee: totalArFee,
@@ -713,14 +777,16 @@ export function calculateCombinedFees(data: PricingData): CombinedFeeResult {
 }
 
 // Wrapper that accepts the richer quote input and an optional config.
-// Currently delegates to calculateCombinedFees; config reserved for future use.
+// Without a config the calculator defaults (PRICING_CONSTANTS) apply.
+// asOf pins the pricing date (the BK setup fee depends on the month).
 export function calculateQuotePricing(
   input: QuotePricingInput,
   _config?: PricingConfig,
+  asOf: Date = new Date(),
 ): CombinedFeeResult {
   // Always use the canonical config-aware implementation; supply defaults when none provided
   const config = _config ?? getDefaultPricingConfig();
-  return calculateCombinedFeesWithConfig(input, config);
+  return calculateCombinedFeesWithConfig(input, config, asOf);
 }
 
 // Config-aware combined calculator. Does not alter default calculateCombinedFees signature
@@ -730,6 +796,7 @@ export function calculateQuotePricing(
 function calculateCombinedFeesWithConfig(
   data: PricingData,
   config: PricingConfig,
+  asOf: Date = new Date(),
 ): CombinedFeeResult {
   // Service enablement flags (default true)
   const svcEnabled = {
@@ -756,6 +823,21 @@ function calculateCombinedFeesWithConfig(
   };
   const discountPct = config.discounts?.bookkeepingWithTaasPct ?? 0.5;
   const step = config.rounding?.monthlyStep ?? 25;
+  const revenueMultipliers: Record<string, number> = {
+    ...PRICING_CONSTANTS.revenueMultipliers,
+    ...(config.multipliers?.revenue ?? {}),
+  };
+  const txSurcharges: Record<string, number> = {
+    ...PRICING_CONSTANTS.txSurcharge,
+    ...(config.multipliers?.transactionSurcharges ?? {}),
+  };
+  const industryMultipliers: Record<
+    string,
+    { monthly: number; cleanup: number }
+  > = {
+    ...PRICING_CONSTANTS.industryMultipliers,
+    ...(config.multipliers?.industry ?? {}),
+  };
 
   // Determine which services are included per input, then apply enablement gates
   const includesMonthlyBookkeeping = Boolean(
@@ -793,7 +875,7 @@ function calculateCombinedFeesWithConfig(
   const includesCfoAdvisory =
     Boolean((data as any).serviceCfoAdvisory) && svcEnabled.cfoAdvisory;
 
-  // Bookkeeping monthly and setup (pre-discount). Use config base fee; multipliers remain from constants
+  // Bookkeeping monthly and setup (pre-discount). Base fee and multipliers come from config
   let bookkeepingFees: FeeResult = { monthlyFee: 0, setupFee: 0 };
   if (includesMonthlyBookkeeping && svcEnabled.bookkeeping) {
     if (
@@ -803,24 +885,20 @@ function calculateCombinedFeesWithConfig(
     ) {
       bookkeepingFees = { monthlyFee: 0, setupFee: 0 };
     } else {
-      const transactionUpcharge =
-        PRICING_CONSTANTS.txSurcharge[
-          data.monthlyTransactions as keyof typeof PRICING_CONSTANTS.txSurcharge
-        ] || 0;
+      const transactionUpcharge = txSurcharges[data.monthlyTransactions] || 0;
       const beforeMultipliers = baseMonthlyFee + transactionUpcharge;
       const revenueMultiplier =
-        PRICING_CONSTANTS.revenueMultipliers[
-          data.monthlyRevenueRange as keyof typeof PRICING_CONSTANTS.revenueMultipliers
-        ] || 1.0;
-      const industryData = PRICING_CONSTANTS.industryMultipliers[
-        data.industry as keyof typeof PRICING_CONSTANTS.industryMultipliers
-      ] || { monthly: 1, cleanup: 1 };
+        revenueMultipliers[data.monthlyRevenueRange] || 1.0;
+      const industryData = industryMultipliers[data.industry] || {
+        monthly: 1,
+        cleanup: 1,
+      };
       const industryMultiplier = industryData.monthly;
       const afterMultipliers = Math.round(
         beforeMultipliers * revenueMultiplier * industryMultiplier,
       );
       const monthlyFee = afterMultipliers;
-      const currentMonth = new Date().getMonth() + 1;
+      const currentMonth = asOf.getMonth() + 1;
       const setupFee = Math.round(afterMultipliers * currentMonth * 0.25);
       bookkeepingFees = {
         monthlyFee,
@@ -880,9 +958,10 @@ function calculateCombinedFeesWithConfig(
           const personal1040 = (data as any).include1040s
             ? effectiveNumBusinessOwners * 25
             : 0;
-          const industryData = PRICING_CONSTANTS.industryMultipliers[
-            data.industry as keyof typeof PRICING_CONSTANTS.industryMultipliers
-          ] || { monthly: 1.0, cleanup: 1.0 };
+          const industryData = industryMultipliers[data.industry] || {
+            monthly: 1.0,
+            cleanup: 1.0,
+          };
           const industryMult = industryData.monthly;
           const avgMonthlyRevenue =
             data.monthlyRevenueRange === "<$10K"
@@ -996,12 +1075,12 @@ function calculateCombinedFeesWithConfig(
   const { payrollFee, breakdown: payrollBreakdown } = payrollResult;
 
   const apResult = includesAP
-    ? calculateAPFees(data)
+    ? calculateAPFees(data, config.tiers?.ap)
     : { apFee: 0, breakdown: undefined };
   const { apFee, breakdown: apBreakdown } = apResult;
 
   const arResult = includesAR
-    ? calculateARFees(data)
+    ? calculateARFees(data, config.tiers?.ar)
     : { arFee: 0, breakdown: undefined };
   const { arFee, breakdown: arBreakdown } = arResult;
 
@@ -1010,28 +1089,119 @@ function calculateCombinedFeesWithConfig(
     : { agentOfServiceFee: 0, breakdown: undefined };
   const { agentOfServiceFee, breakdown: agentOfServiceBreakdown } = agentResult;
 
-  // Totals
-  const combinedMonthlyFee =
-    finalBookkeeping.monthlyFee +
-    taasFees.monthlyFee +
-    payrollFee +
-    apFee +
-    arFee +
-    qboFee;
   // Gate one-time/setup components by service toggles
   const includesPriorYear = Boolean((data as any).servicePriorYearFilings);
   const includesCleanup = Boolean((data as any).serviceCleanupProjects);
-  const combinedSetupFee =
-    (includesMonthlyBookkeeping ? finalBookkeeping.setupFee : 0) +
-    (includesTaas ? taasFees.setupFee : 0) +
-    (includesCleanup ? cleanupProjectFee : 0) +
-    (includesPriorYear ? priorYearFilingsFee : 0) +
-    (includesCfoAdvisory ? cfoAdvisoryFee : 0) +
-    (includesAgentOfService ? agentOfServiceFee : 0);
+
+  // Line-item discounts and overrides adjust each line before the totals
+  const listPrices: Partial<Record<DiscountLineKey, number>> = {
+    "bookkeeping:monthly": finalBookkeeping.monthlyFee,
+    "bookkeeping:setup": includesMonthlyBookkeeping
+      ? finalBookkeeping.setupFee
+      : 0,
+    "taas:monthly": taasFees.monthlyFee,
+    "taas:setup": includesTaas ? taasFees.setupFee : 0,
+    "payroll:monthly": payrollFee,
+    "ap:monthly": apFee,
+    "ar:monthly": arFee,
+    "qbo:monthly": qboFee,
+    "cleanup:setup": includesCleanup ? cleanupProjectFee : 0,
+    "priorYearFilings:setup": includesPriorYear ? priorYearFilingsFee : 0,
+    "cfoAdvisory:setup": includesCfoAdvisory ? cfoAdvisoryFee : 0,
+    "agentOfService:setup": includesAgentOfService ? agentOfServiceFee : 0,
+  };
+  const discountInput =
+    (data as any).lineItemDiscounts ?? (data as any).lineItemDiscountsJson;
+  const discounted = applyLineItemDiscounts(
+    listPrices,
+    parseLineItemDiscounts(discountInput),
+    config.discounts?.approvalThresholdPct ??
+      DEFAULT_DISCOUNT_APPROVAL_THRESHOLD_PCT,
+  );
+  // Contract term discount comes off each monthly line after line-item
+  // discounts, so per-service fees (and HubSpot line items) stay consistent
+  const term = parseContractTerm((data as any).contractTerm);
+  const termPct = termDiscountPct(term, config.discounts?.contractTermPct);
+  const afterTerm = (price: number) =>
+    Math.round(price * (1 - termPct / 100) * 100) / 100;
+  const prices = { ...discounted.prices };
+  for (const key of Object.keys(prices) as DiscountLineKey[]) {
+    if (key.endsWith(":monthly")) prices[key] = afterTerm(prices[key] ?? 0);
+  }
+  const net = (key: DiscountLineKey, original: number) =>
+    (listPrices[key] ?? 0) > 0 ? (prices[key] ?? original) : original;
+
+  // Totals
+  const monthlyKeys = Object.keys(listPrices).filter((k) =>
+    k.endsWith(":monthly"),
+  ) as DiscountLineKey[];
+  const setupKeys = Object.keys(listPrices).filter((k) =>
+    k.endsWith(":setup"),
+  ) as DiscountLineKey[];
+  const combinedMonthlyFee = monthlyKeys.reduce(
+    (sum, k) => sum + (prices[k] ?? 0),
+    0,
+  );
+  const combinedSetupFee = setupKeys.reduce(
+    (sum, k) => sum + (prices[k] ?? 0),
+    0,
+  );
+
+  const sumAmounts = (appliesTo: "monthly" | "setup", expiringOnly = false) =>
+    discounted.applied
+      .filter(
+        (d) => d.appliesTo === appliesTo && (!expiringOnly || d.durationMonths),
+      )
+      .reduce((sum, d) => sum + d.amount, 0);
+  const discountTotals: DiscountTotals = {
+    monthly: sumAmounts("monthly"),
+    setup: sumAmounts("setup"),
+    steadyStateMonthlyFee:
+      combinedMonthlyFee + afterTerm(sumAmounts("monthly", true)),
+    maxManualDiscountPct: discounted.maxManualDiscountPct,
+    requiresApproval: discounted.requiresApproval,
+  };
+
+  // Twelve months of fees, with time-limited discounts ending mid-year
+  const firstYearFees = () => {
+    const restored = discounted.applied
+      .filter(
+        (d) =>
+          d.appliesTo === "monthly" &&
+          d.durationMonths &&
+          d.durationMonths < 12,
+      )
+      .reduce(
+        (sum, d) => sum + afterTerm(d.amount) * (12 - (d.durationMonths ?? 12)),
+        0,
+      );
+    return Math.round((combinedMonthlyFee * 12 + restored) * 100) / 100;
+  };
+  const beforeTermMonthly = monthlyKeys.reduce(
+    (sum, k) => sum + (discounted.prices[k] ?? 0),
+    0,
+  );
+  const contractTerm: ContractTermResult = {
+    term,
+    commitmentMonths: CONTRACT_TERM_MONTHS[term],
+    billingFrequency: billingFrequencyFor(term),
+    discountPct: termPct,
+    discountMonthly:
+      Math.round((beforeTermMonthly - combinedMonthlyFee) * 100) / 100,
+    prepayAmount: term === "annual_prepay" ? firstYearFees() : 0,
+  };
 
   return {
-    bookkeeping: finalBookkeeping,
-    taas: taasFees,
+    bookkeeping: {
+      ...finalBookkeeping,
+      monthlyFee: net("bookkeeping:monthly", finalBookkeeping.monthlyFee),
+      setupFee: net("bookkeeping:setup", finalBookkeeping.setupFee),
+    },
+    taas: {
+      ...taasFees,
+      monthlyFee: net("taas:monthly", taasFees.monthlyFee),
+      setupFee: net("taas:setup", taasFees.setupFee),
+    },
     combined: { monthlyFee: combinedMonthlyFee, setupFee: combinedSetupFee },
     includesBookkeeping,
     includesTaas,
@@ -1039,19 +1209,22 @@ function calculateCombinedFeesWithConfig(
     includesAR,
     includesAgentOfService,
     serviceTierFee,
-    cleanupProjectFee,
-    priorYearFilingsFee,
-    cfoAdvisoryFee,
+    cleanupProjectFee: net("cleanup:setup", cleanupProjectFee),
+    priorYearFilingsFee: net("priorYearFilings:setup", priorYearFilingsFee),
+    cfoAdvisoryFee: net("cfoAdvisory:setup", cfoAdvisoryFee),
     cfoAdvisoryHubspotProductId: hubspotProductId,
-    payrollFee,
+    payrollFee: net("payroll:monthly", payrollFee),
     payrollBreakdown,
-    apFee,
+    apFee: net("ap:monthly", apFee),
     apBreakdown,
-    arFee,
+    arFee: net("ar:monthly", arFee),
     arBreakdown,
-    agentOfServiceFee,
+    agentOfServiceFee: net("agentOfService:setup", agentOfServiceFee),
     agentOfServiceBreakdown,
-    qboFee,
+    qboFee: net("qbo:monthly", qboFee),
+    lineItemDiscounts: discounted.applied,
+    discountTotals,
+    contractTerm,
   };
 }
 
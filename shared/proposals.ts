@@ -0,0 +1,222 @@
+import { z } from "zod";
+import type { CombinedFeeResult } from "./pricing";
+import { describeContractTerm } from "./pricing-terms";
+import { SERVICE_REGISTRY, getServiceKeys } from "./services";
+import type { FeeCadence } from "./quote-revisions";
+import {
+  quoteOptionServiceRows,
+  type QuoteOptionServiceRow,
+  type QuotePricingOptionView,
+} from "./quote-options";
+import {
+  renderQuoteSows,
+  sowTokensForQuote,
+  type SowDocument,
+  type SowServiceContent,
+} from "./sow-template";
+
+// Client-facing proposals: one document model for a quote, rendered as a PDF
+// for the rep and as a page behind an expiring, unguessable link the client
+// can open and accept.
+
+export const QUOTE_STATUSES = ["draft", "sent", "accepted"] as const;
+export type QuoteStatus = (typeof QUOTE_STATUSES)[number];
+
+export const PROPOSAL_DEFAULT_EXPIRY_DAYS = 30;
+export const PROPOSAL_MAX_EXPIRY_DAYS = 90;
+
+export const CreateProposalLinkSchema = z.object({
+  expiresInDays: z
+    .number()
+    .int()
+    .min(1)
+    .max(PROPOSAL_MAX_EXPIRY_DAYS)
+    .default(PROPOSAL_DEFAULT_EXPIRY_DAYS),
+});
+
+// The client accepts by typing their name; with pricing options they also
+// pick the one they want
+export const AcceptProposalSchema = z.object({
+  name: z.string().trim().min(2).max(120),
+  optionId: z.number().int().positive().optional(),
+});
+export type AcceptProposalInput = z.infer<typeof AcceptProposalSchema>;
+
+export type ProposalLinkStatus = "active" | "expired" | "revoked" | "accepted";
+
+// Accepted wins over revoked and expired so the client can still see what
+// they agreed to
+export function proposalLinkStatus(
+  link: {
+    expiresAt: Date | string;
+    revokedAt: Date | string | null;
+    acceptedAt: Date | string | null;
+  },
+  now: Date = new Date(),
+): ProposalLinkStatus {
+  if (link.acceptedAt) return "accepted";
+  if (link.revokedAt) return "revoked";
+  if (new Date(link.expiresAt).getTime() <= now.getTime()) return "expired";
+  return "active";
+}
+
+export const proposalPath = (token: string) => `/proposals/${token}`;
+
+export interface ProposalService {
+  key: string;
+  name: string;
+  description: string;
+}
+
+export interface ProposalPriceLine {
+  label: string;
+  cadence: FeeCadence;
+  amount: number;
+}
+
+export interface ProposalOption {
+  id: number;
+  name: string;
+  monthlyFee: number;
+  setupFee: number;
+  // "Service tier: Concierge", ...
+  changes: string[];
+}
+
+export interface ProposalDocument {
+  quoteId: number;
+  companyName: string;
+  contactName: string;
+  contactEmail: string;
+  preparedBy: string | null;
+  preparedAt: string;
+  // Set for shared links; a downloaded PDF has no expiry
+  validUntil: string | null;
+  services: ProposalService[];
+  pricing: {
+    monthlyFee: number;
+    setupFee: number;
+    lines: ProposalPriceLine[];
+    contractTerm: string;
+    prepayAmount: number;
+  };
+  // Alternatives to choose from when the quote has pricing options
+  options: { options: ProposalOption[]; rows: QuoteOptionServiceRow[] } | null;
+  sow: SowDocument[];
+  terms: string[];
+}
+
+const money = (n: number) =>
+  `$${n.toLocaleString("en-US", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+
+export function buildProposalDocument(input: {
+  quote: Record<string, any> & { id: number; contactEmail: string };
+  pricing: CombinedFeeResult;
+  options: QuotePricingOptionView[];
+  sowContent: SowServiceContent[];
+  preparedBy: string | null;
+  msaLink: string;
+  validUntil?: Date | null;
+  now?: Date;
+}): ProposalDocument {
+  const { quote, pricing } = input;
+  const tokens = sowTokensForQuote(quote, pricing);
+
+  const services: ProposalService[] = getServiceKeys()
+    .filter((key) => quote[key])
+    .map((key) => ({
+      key,
+      name: SERVICE_REGISTRY[key].name,
+      description: SERVICE_REGISTRY[key].description,
+    }));
+
+  const lines: ProposalPriceLine[] = quoteOptionServiceRows([pricing])
+    .filter((row) => row.service !== "total")
+    .map((row) => ({
+      label: row.label,
+      cadence: row.cadence,
+      amount: row.amounts[0] ?? 0,
+    }));
+
+  const terms = [describeContractTerm(pricing.contractTerm)];
+  if (pricing.contractTerm.prepayAmount > 0) {
+    terms.push(
+      `${money(pricing.contractTerm.prepayAmount)} is billed up front for the first year.`,
+    );
+  }
+  if (pricing.combined.setupFee > 0) {
+    terms.push(
+      `Setup fees of ${money(pricing.combined.setupFee)} are charged once.`,
+    );
+  }
+  terms.push(
+    `Services are provided under the Seed Financial Master Services Agreement (${input.msaLink}) and the schedule for each service.`,
+  );
+  if (input.validUntil) {
+    terms.push(
+      `This proposal is valid until ${input.validUntil.toISOString().slice(0, 10)}.`,
+    );
+  }
+
+  return {
+    quoteId: quote.id,
+    companyName: quote.companyName || quote.contactEmail,
+    contactName: String(tokens.contactName),
+    contactEmail: quote.contactEmail,
+    preparedBy: input.preparedBy,
+    preparedAt: (input.now ?? new Date()).toISOString(),
+    validUntil: input.validUntil ? input.validUntil.toISOString() : null,
+    services,
+    pricing: {
+      monthlyFee: pricing.combined.monthlyFee,
+      setupFee: pricing.combined.setupFee,
+      lines,
+      contractTerm: describeContractTerm(pricing.contractTerm),
+      prepayAmount: pricing.contractTerm.prepayAmount,
+    },
+    options: input.options.length
+      ? {
+          options: input.options.map((option) => ({
+            id: option.id,
+            name: option.name,
+            monthlyFee: option.monthlyFee,
+            setupFee: option.setupFee,
+            changes: option.changes.map(
+              (change) => `${change.label}: ${change.after ?? "not set"}`,
+            ),
+          })),
+          rows: quoteOptionServiceRows(input.options.map((o) => o.pricing)),
+        }
+      : null,
+    sow: renderQuoteSows(quote, pricing, input.sowContent),
+    terms,
+  };
+}
+
+// GET /api/public/proposals/:token
+export interface PublicProposal {
+  document: ProposalDocument;
+  status: ProposalLinkStatus;
+  expiresAt: string;
+  acceptedAt: string | null;
+  acceptedName: string | null;
+  acceptedOptionId: number | null;
+}
+
+// GET /api/quotes/:quoteId/proposals
+export interface ProposalLinkListItem {
+  id: number;
+  quoteId: number;
+  path: string;
+  status: ProposalLinkStatus;
+  expiresAt: string;
+  createdAt: string;
+  viewCount: number;
+  lastViewedAt: string | null;
+  acceptedAt: string | null;
+  acceptedName: string | null;
+  acceptedOptionName: string | null;
+}
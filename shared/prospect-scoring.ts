@@ -0,0 +1,287 @@
+import { PRICING_CONSTANTS } from "./pricing";
+
+// Rules-based prospect scoring: a transparent 0-100 lead score computed from
+// HubSpot data, shown next to the AI score. Each factor scores 0-1 and earns
+// its share of the weights; weights and tier cut-offs come from the
+// "prospect_scoring" pricing service settings, and the revenue and industry
+// factors reuse the calculator's pricing multipliers.
+
+export const PROSPECT_SCORING_FACTORS = [
+  "revenue",
+  "industry",
+  "employees",
+  "engagement",
+  "services",
+] as const;
+export type ProspectScoringFactor = (typeof PROSPECT_SCORING_FACTORS)[number];
+
+export const PROSPECT_SCORING_FACTOR_LABELS: Record<
+  ProspectScoringFactor,
+  string
+> = {
+  revenue: "Revenue band",
+  industry: "Industry",
+  employees: "Employee count",
+  engagement: "HubSpot engagement",
+  services: "Existing services",
+};
+
+export interface ProspectScoringConfig {
+  weights: Record<ProspectScoringFactor, number>;
+  // Minimum score for each tier; anything below tierBMin is C
+  tierAMin: number;
+  tierBMin: number;
+  revenueMultipliers: Record<string, number>;
+  industryMultipliers: Record<string, { monthly: number }>;
+}
+
+export const DEFAULT_PROSPECT_SCORING_CONFIG: ProspectScoringConfig = {
+  weights: {
+    revenue: 30,
+    industry: 20,
+    employees: 15,
+    engagement: 20,
+    services: 15,
+  },
+  tierAMin: 70,
+  tierBMin: 45,
+  revenueMultipliers: PRICING_CONSTANTS.revenueMultipliers,
+  industryMultipliers: PRICING_CONSTANTS.industryMultipliers,
+};
+
+// Build the config from the live pricing config; missing values keep defaults
+export function prospectScoringConfig(pricing?: {
+  serviceSettings?: Record<string, Record<string, number>>;
+  revenueMultipliers?: Record<string, number>;
+  industryMultipliers?: Record<string, { monthly: number }>;
+}): ProspectScoringConfig {
+  const settings = pricing?.serviceSettings?.prospect_scoring ?? {};
+  const defaults = DEFAULT_PROSPECT_SCORING_CONFIG;
+  const weights = { ...defaults.weights };
+  for (const factor of PROSPECT_SCORING_FACTORS) {
+    const weight = settings[`${factor}_weight`];
+    if (typeof weight === "number" && weight >= 0) weights[factor] = weight;
+  }
+  return {
+    weights,
+    tierAMin: settings.tier_a_min ?? defaults.tierAMin,
+    tierBMin: settings.tier_b_min ?? defaults.tierBMin,
+    revenueMultipliers: {
+      ...defaults.revenueMultipliers,
+      ...pricing?.revenueMultipliers,
+    },
+    industryMultipliers: {
+      ...defaults.industryMultipliers,
+      ...pricing?.industryMultipliers,
+    },
+  };
+}
+
+export interface ProspectScoringInput {
+  // Annual revenue in dollars, as HubSpot stores it
+  annualRevenue: number | null;
+  employees: number | null;
+  // HubSpot industry value (e.g. COMPUTER_SOFTWARE) or a calculator industry
+  industry: string | null;
+  lastActivityAt: string | null;
+  services: string[];
+}
+
+export interface ProspectScoreFactor {
+  factor: ProspectScoringFactor;
+  label: string;
+  // Share of the total score this factor can earn, in points
+  maxPoints: number;
+  // 0-1
+  value: number;
+  points: number;
+  detail: string;
+}
+
+export interface ProspectRulesScore {
+  score: number;
+  tier: "A" | "B" | "C";
+  factors: ProspectScoreFactor[];
+  inputs: ProspectScoringInput;
+}
+
+// HubSpot's industry picklist mapped onto the calculator's industries
+export const HUBSPOT_INDUSTRY_TO_PRICING: Record<string, string> = {
+  COMPUTER_SOFTWARE: "Software/SaaS",
+  FINANCIAL_SERVICES: "Accounting/Finance",
+  HEALTH_WELLNESS_FITNESS: "Healthcare/Medical",
+  MARKETING_ADVERTISING: "Marketing/Advertising",
+  CONSULTING: "Consulting",
+  REAL_ESTATE: "Real Estate",
+  RETAIL: "E-commerce/Retail",
+  RESTAURANTS: "Restaurant/Food Service",
+  ACCOUNTING: "Accounting/Finance",
+  LEGAL_SERVICES: "Law Firm",
+  CONSTRUCTION: "Construction/Trades",
+  AUTOMOTIVE: "Automotive",
+  EDUCATION_MANAGEMENT: "Education",
+  NONPROFIT_ORGANIZATION_MANAGEMENT: "Nonprofit",
+  INFORMATION_TECHNOLOGY_SERVICES: "Technology/IT Services",
+  HUMAN_RESOURCES: "Professional Services",
+  INSURANCE: "Insurance",
+  MANUFACTURING: "Manufacturing",
+  TRANSPORTATION_TRUCKING_RAILROAD: "Transportation/Logistics",
+};
+
+// Monthly revenue bands used by the calculator, by upper bound
+const MONTHLY_REVENUE_BANDS: Array<[band: string, below: number]> = [
+  ["<$10K", 10_000],
+  ["10K-25K", 25_000],
+  ["25K-75K", 75_000],
+  ["75K-250K", 250_000],
+  ["250K-1M", 1_000_000],
+  ["1M+", Infinity],
+];
+
+export function monthlyRevenueBand(annualRevenue: number): string {
+  const monthly = annualRevenue / 12;
+  return MONTHLY_REVENUE_BANDS.find(([, below]) => monthly < below)![0];
+}
+
+const EMPLOYEE_BANDS: Array<[upTo: number, value: number]> = [
+  [5, 0.25],
+  [20, 0.5],
+  [50, 0.8],
+  [Infinity, 1],
+];
+
+const ENGAGEMENT_RECENCY: Array<[withinDays: number, value: number]> = [
+  [14, 1],
+  [30, 0.75],
+  [90, 0.4],
+  [Infinity, 0.1],
+];
+
+// Services at which the relationship factor maxes out
+const FULL_SERVICE_COUNT = 3;
+
+// Position of a multiplier between the cheapest and priciest options
+function relativeTo(value: number, all: number[]): number {
+  const min = Math.min(...all);
+  const max = Math.max(...all);
+  return max > min ? (value - min) / (max - min) : 1;
+}
+
+function parseNumber(value: unknown): number | null {
+  const n = typeof value === "number" ? value : parseFloat(String(value));
+  return Number.isFinite(n) && n > 0 ? n : null;
+}
+
+export function prospectScoringInputFromHubSpot(
+  properties: Record<string, any>,
+  services: string[],
+): ProspectScoringInput {
+  return {
+    annualRevenue: parseNumber(properties.annualrevenue),
+    employees: parseNumber(properties.numemployees),
+    industry: properties.industry || null,
+    lastActivityAt:
+      properties.notes_last_activity_date ||
+      properties.notes_last_contacted ||
+      null,
+    services,
+  };
+}
+
+function factorValue(
+  factor: ProspectScoringFactor,
+  input: ProspectScoringInput,
+  config: ProspectScoringConfig,
+  now: Date,
+): { value: number; detail: string } {
+  switch (factor) {
+    case "revenue": {
+      if (input.annualRevenue === null) return { value: 0, detail: "Unknown" };
+      const band = monthlyRevenueBand(input.annualRevenue);
+      const multiplier = config.revenueMultipliers[band];
+      if (multiplier === undefined) return { value: 0, detail: band };
+      return {
+        value: relativeTo(multiplier, Object.values(config.revenueMultipliers)),
+        detail: `${band} monthly (${multiplier}x pricing)`,
+      };
+    }
+    case "industry": {
+      if (!input.industry) return { value: 0, detail: "Unknown" };
+      const industry =
+        HUBSPOT_INDUSTRY_TO_PRICING[input.industry] ??
+        (config.industryMultipliers[input.industry] ? input.industry : "Other");
+      const multiplier = config.industryMultipliers[industry]?.monthly;
+      if (multiplier === undefined) return { value: 0, detail: industry };
+      return {
+        value: relativeTo(
+          multiplier,
+          Object.values(config.industryMultipliers).map((m) => m.monthly),
+        ),
+        detail: `${industry} (${multiplier}x pricing)`,
+      };
+    }
+    case "employees": {
+      if (input.employees === null) return { value: 0, detail: "Unknown" };
+      const employees = input.employees;
+      const [, value] = EMPLOYEE_BANDS.find(([upTo]) => employees <= upTo)!;
+      return { value, detail: `${employees} employees` };
+    }
+    case "engagement": {
+      const last = input.lastActivityAt ? new Date(input.lastActivityAt) : null;
+      if (!last || Number.isNaN(last.getTime())) {
+        return { value: 0, detail: "No recorded activity" };
+      }
+      const days = Math.max(
+        0,
+        Math.floor((now.getTime() - last.getTime()) / 86_400_000),
+      );
+      const [, value] = ENGAGEMENT_RECENCY.find(
+        ([withinDays]) => days <= withinDays,
+      )!;
+      return {
+        value,
+        detail: days === 0 ? "Active today" : `Last activity ${days}d ago`,
+      };
+    }
+    case "services": {
+      const count = input.services.length;
+      return {
+        value: Math.min(count / FULL_SERVICE_COUNT, 1),
+        detail: count ? input.services.join(", ") : "None yet",
+      };
+    }
+  }
+}
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+export function scoreProspectRules(
+  input: ProspectScoringInput,
+  config: ProspectScoringConfig = DEFAULT_PROSPECT_SCORING_CONFIG,
+  now: Date = new Date(),
+): ProspectRulesScore {
+  const totalWeight = PROSPECT_SCORING_FACTORS.reduce(
+    (sum, factor) => sum + config.weights[factor],
+    0,
+  );
+  const factors = PROSPECT_SCORING_FACTORS.map((factor) => {
+    const maxPoints =
+      totalWeight > 0 ? (config.weights[factor] / totalWeight) * 100 : 0;
+    const { value, detail } = factorValue(factor, input, config, now);
+    return {
+      factor,
+      label: PROSPECT_SCORING_FACTOR_LABELS[factor],
+      maxPoints: round1(maxPoints),
+      value: Math.round(value * 100) / 100,
+      points: round1(maxPoints * value),
+      detail,
+    };
+  });
+  const score = Math.round(
+    factors.reduce((sum, factor) => sum + factor.points, 0),
+  );
+  let tier: ProspectRulesScore["tier"] = "C";
+  if (score >= config.tierAMin) tier = "A";
+  else if (score >= config.tierBMin) tier = "B";
+  return { score, tier, factors, inputs: input };
+}
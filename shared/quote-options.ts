@@ -0,0 +1,212 @@
+import { z } from "zod";
+import type { CombinedFeeResult } from "./pricing";
+import {
+  DISCOUNTABLE_FEES,
+  DISCOUNT_SERVICE_LINES,
+  type DiscountServiceLine,
+} from "./pricing-discounts";
+import { ContractTermSchema } from "./pricing-terms";
+import type { Quote } from "./schema";
+import {
+  cents,
+  quoteFieldLabel,
+  quoteServiceFee,
+  quoteServiceLabel,
+  type FeeCadence,
+  type QuoteFieldChange,
+} from "./quote-revisions";
+
+// Pricing options ("good / better / best"): alternatives a rep presents
+// alongside one quote, e.g. Automated vs Concierge or with and without TaaS.
+// An option only stores the inputs it changes; everything else comes from
+// the quote, so editing the quote re-prices every option with it. Choosing
+// an option writes its inputs into the quote.
+
+export const MAX_QUOTE_OPTIONS = 4;
+
+const Band = z.enum(["0-25", "26-100", "101-250", "251+"]);
+const ServiceLevel = z.enum(["lite", "advanced"]);
+const Count = z.number().int().min(0);
+
+// Quote inputs an option can change
+export const QuoteOptionOverridesSchema = z
+  .object({
+    serviceTier: z.enum(["Automated", "Guided", "Concierge"]),
+    contractTerm: ContractTermSchema,
+    serviceMonthlyBookkeeping: z.boolean(),
+    serviceTaasMonthly: z.boolean(),
+    serviceCleanupProjects: z.boolean(),
+    servicePriorYearFilings: z.boolean(),
+    serviceCfoAdvisory: z.boolean(),
+    servicePayrollService: z.boolean(),
+    serviceApArService: z.boolean(),
+    serviceArService: z.boolean(),
+    serviceAgentOfService: z.boolean(),
+    qboSubscription: z.boolean(),
+    cfoAdvisoryType: z.enum(["pay_as_you_go", "prepaid_bundle", "bundled"]),
+    cfoAdvisoryBundleHours: Count,
+    payrollEmployeeCount: Count,
+    payrollStateCount: Count,
+    apServiceTier: ServiceLevel,
+    apVendorBillsBand: Band,
+    arServiceTier: ServiceLevel,
+    arCustomerInvoicesBand: Band,
+    agentOfServiceAdditionalStates: Count,
+    agentOfServiceComplexCase: z.boolean(),
+  })
+  .partial()
+  .strict();
+export type QuoteOptionOverrides = z.infer<typeof QuoteOptionOverridesSchema>;
+
+export const QuotePricingOptionInputSchema = z.object({
+  name: z.string().trim().min(1).max(60),
+  overrides: QuoteOptionOverridesSchema,
+});
+export type QuotePricingOptionInput = z.infer<
+  typeof QuotePricingOptionInputSchema
+>;
+
+// Older service columns the pricing engine still reads as "on"; they follow
+// the toggle an option sets so turning a service off actually removes it
+const LEGACY_SERVICE_FLAGS: Partial<
+  Record<keyof QuoteOptionOverrides, string[]>
+> = {
+  serviceMonthlyBookkeeping: ["serviceBookkeeping", "includesBookkeeping"],
+  serviceTaasMonthly: ["serviceTaas", "includesTaas"],
+  servicePayrollService: ["servicePayroll"],
+  serviceApArService: ["serviceApLite", "serviceApAdvanced"],
+  serviceArService: ["serviceArLite", "serviceArAdvanced"],
+};
+
+export function parseQuoteOptionOverrides(
+  json: string | null | undefined,
+): QuoteOptionOverrides {
+  if (!json) return {};
+  try {
+    const parsed = QuoteOptionOverridesSchema.safeParse(JSON.parse(json));
+    return parsed.success ? parsed.data : {};
+  } catch {
+    return {};
+  }
+}
+
+// Quote columns an option changes, including the legacy service flags
+export function quoteOptionColumns(
+  overrides: QuoteOptionOverrides,
+): Record<string, unknown> {
+  const columns: Record<string, unknown> = { ...overrides };
+  for (const [field, legacy] of Object.entries(LEGACY_SERVICE_FLAGS)) {
+    const value = overrides[field as keyof QuoteOptionOverrides];
+    if (value === false) {
+      for (const column of legacy) columns[column] = false;
+    }
+  }
+  return columns;
+}
+
+// Pricing input for an option: the quote with the option's changes applied
+export function quoteOptionInput<T extends object>(
+  quote: T,
+  overrides: QuoteOptionOverrides,
+): T & Record<string, unknown> {
+  return { ...quote, ...quoteOptionColumns(overrides) };
+}
+
+// The option's changes as field edits against the quote it belongs to
+export function describeQuoteOption(
+  quote: object,
+  overrides: QuoteOptionOverrides,
+): QuoteFieldChange[] {
+  const base = quote as Record<string, unknown>;
+  return Object.entries(overrides)
+    .filter(([field, value]) => base[field] !== value)
+    .map(([field, value]) => ({
+      field,
+      label: quoteFieldLabel(field),
+      before:
+        base[field] === null || base[field] === undefined
+          ? null
+          : String(base[field]),
+      after: String(value),
+    }));
+}
+
+export interface QuoteOptionServiceRow {
+  // Service line, or "total" for the combined fees
+  service: DiscountServiceLine | "total";
+  label: string;
+  cadence: FeeCadence;
+  // One amount per option, in option order
+  amounts: number[];
+}
+
+// Per-service fees for several options side by side; services no option
+// includes are left out, the combined totals are always included
+export function quoteOptionServiceRows(
+  pricings: CombinedFeeResult[],
+): QuoteOptionServiceRow[] {
+  const rows: QuoteOptionServiceRow[] = [];
+  for (const service of DISCOUNT_SERVICE_LINES) {
+    for (const cadence of DISCOUNTABLE_FEES[service]) {
+      const amounts = pricings.map((p) =>
+        cents(quoteServiceFee(p, service, cadence)),
+      );
+      if (amounts.every((amount) => !amount)) continue;
+      rows.push({
+        service,
+        label: quoteServiceLabel(service, cadence),
+        cadence,
+        amounts,
+      });
+    }
+  }
+  rows.push(
+    {
+      service: "total",
+      label: "Total monthly",
+      cadence: "monthly",
+      amounts: pricings.map((p) => cents(p.combined.monthlyFee)),
+    },
+    {
+      service: "total",
+      label: "Total setup",
+      cadence: "setup",
+      amounts: pricings.map((p) => cents(p.combined.setupFee)),
+    },
+  );
+  return rows;
+}
+
+export interface QuotePricingOptionView {
+  id: number;
+  quoteId: number;
+  name: string;
+  position: number;
+  overrides: QuoteOptionOverrides;
+  changes: QuoteFieldChange[];
+  pricing: CombinedFeeResult;
+  monthlyFee: number;
+  setupFee: number;
+  // Set once the client chose this option and it was written to the quote
+  selectedAt: string | null;
+}
+
+// GET /api/quotes/:quoteId/options; also what a proposal lists
+export interface QuotePricingOptions {
+  quoteId: number;
+  options: QuotePricingOptionView[];
+  rows: QuoteOptionServiceRow[];
+}
+
+// POST /api/quotes/:quoteId/options/:optionId/select
+export interface QuoteOptionSelection {
+  quote: Quote;
+  options: QuotePricingOptions;
+  // Null when HubSpot isn't configured or the push was skipped
+  hubspot: {
+    success: boolean;
+    hubspotDealId?: string | null;
+    hubspotQuoteId?: string | null;
+    message?: string;
+  } | null;
+}
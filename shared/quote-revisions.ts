@@ -0,0 +1,264 @@
+import { z } from "zod";
+import type { CombinedFeeResult } from "./pricing";
+import {
+  DISCOUNTABLE_FEES,
+  DISCOUNT_SERVICE_LABELS,
+  DISCOUNT_SERVICE_LINES,
+  type DiscountServiceLine,
+} from "./pricing-discounts";
+
+// Quote revisions: every save of a quote keeps an immutable copy of its
+// inputs and the pricing the server computed, so what a client was quoted
+// last week can still be compared with what they are quoted today.
+
+export type QuoteSnapshot = Record<string, unknown>;
+
+// Row bookkeeping rather than quote content; pricing is kept separately
+const SNAPSHOT_EXCLUDED_FIELDS = new Set([
+  "id",
+  "createdAt",
+  "updatedAt",
+  "pricingBreakdownJson",
+]);
+
+// Derived from the inputs, so shown as service deltas rather than field edits
+const DIFF_EXCLUDED_FIELDS = new Set([
+  "monthlyFee",
+  "setupFee",
+  "taasMonthlyFee",
+  "taasPriorYearsFee",
+  "discountMonthlyAmount",
+  "discountSetupAmount",
+  "termDiscountAmount",
+  "prepayAmount",
+]);
+
+const FIELD_LABELS: Record<string, string> = {
+  contactEmail: "Contact email",
+  companyName: "Company",
+  monthlyRevenueRange: "Monthly revenue",
+  monthlyTransactions: "Monthly transactions",
+  industry: "Industry",
+  cleanupMonths: "Cleanup months",
+  cleanupComplexity: "Cleanup complexity",
+  cleanupOverride: "Cleanup override",
+  overrideReason: "Override reason",
+  customSetupFee: "Custom setup fee",
+  serviceTier: "Service tier",
+  serviceMonthlyBookkeeping: "Monthly bookkeeping",
+  serviceTaasMonthly: "Tax as a Service",
+  serviceCleanupProjects: "Cleanup project",
+  servicePriorYearFilings: "Prior year filings",
+  serviceCfoAdvisory: "CFO advisory",
+  servicePayrollService: "Payroll",
+  serviceApArService: "Accounts payable",
+  serviceArService: "Accounts receivable",
+  serviceAgentOfService: "Agent of service",
+  qboSubscription: "QBO subscription",
+  lineItemDiscountsJson: "Line-item discounts",
+  promoCode: "Promo code",
+  discountReason: "Discount reason",
+  contractTerm: "Contract term",
+  hubspotQuoteId: "HubSpot quote",
+  hubspotDealId: "HubSpot deal",
+  pricingConfigVersionId: "Pricing version",
+  ownerId: "Owner",
+};
+
+export function quoteFieldLabel(field: string): string {
+  const label = FIELD_LABELS[field];
+  if (label) return label;
+  const words = field.replace(/([a-z0-9])([A-Z])/g, "$1 $2").toLowerCase();
+  return `${words[0]?.toUpperCase() ?? ""}${words.slice(1)}`;
+}
+
+export function quoteSnapshot(quote: object): QuoteSnapshot {
+  return Object.fromEntries(
+    Object.entries(quote).filter(
+      ([field, value]) =>
+        !SNAPSHOT_EXCLUDED_FIELDS.has(field) && value !== undefined,
+    ),
+  );
+}
+
+// Empty strings, nulls and missing fields all read as "not set"
+function displayValue(value: unknown): string | null {
+  if (value === null || value === undefined || value === "") return null;
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+export interface QuoteFieldChange {
+  field: string;
+  label: string;
+  before: string | null;
+  after: string | null;
+}
+
+export function diffQuoteSnapshots(
+  before: QuoteSnapshot,
+  after: QuoteSnapshot,
+): QuoteFieldChange[] {
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+  const changes: QuoteFieldChange[] = [];
+  for (const field of fields) {
+    if (DIFF_EXCLUDED_FIELDS.has(field)) continue;
+    const from = displayValue(before[field]);
+    const to = displayValue(after[field]);
+    if (from !== to) {
+      changes.push({
+        field,
+        label: quoteFieldLabel(field),
+        before: from,
+        after: to,
+      });
+    }
+  }
+  return changes.sort((a, b) => a.label.localeCompare(b.label));
+}
+
+export type FeeCadence = "monthly" | "setup";
+
+export function quoteServiceFee(
+  pricing: CombinedFeeResult,
+  service: DiscountServiceLine,
+  cadence: FeeCadence,
+): number {
+  switch (service) {
+    case "bookkeeping":
+    case "taas":
+      return cadence === "monthly"
+        ? pricing[service].monthlyFee
+        : pricing[service].setupFee;
+    case "payroll":
+      return pricing.payrollFee;
+    case "ap":
+      return pricing.apFee;
+    case "ar":
+      return pricing.arFee;
+    case "qbo":
+      return pricing.qboFee;
+    case "cleanup":
+      return pricing.cleanupProjectFee;
+    case "priorYearFilings":
+      return pricing.priorYearFilingsFee;
+    case "agentOfService":
+      return pricing.agentOfServiceFee;
+    case "cfoAdvisory":
+      return pricing.cfoAdvisoryFee;
+  }
+}
+
+export interface QuoteServiceDelta {
+  // Service line, or "total" for the combined fees
+  service: DiscountServiceLine | "total";
+  label: string;
+  cadence: FeeCadence;
+  before: number;
+  after: number;
+  delta: number;
+}
+
+export const cents = (value: number | undefined) =>
+  Math.round((Number(value) || 0) * 100) / 100;
+
+// Services billed both monthly and at setup get the cadence in their label
+export function quoteServiceLabel(
+  service: DiscountServiceLine,
+  cadence: FeeCadence,
+): string {
+  return DISCOUNTABLE_FEES[service].length > 1
+    ? `${DISCOUNT_SERVICE_LABELS[service]} ${cadence}`
+    : DISCOUNT_SERVICE_LABELS[service];
+}
+
+// Per-service fees side by side; services priced at zero on both sides are
+// left out, the combined totals are always included
+export function quoteServiceDeltas(
+  before: CombinedFeeResult,
+  after: CombinedFeeResult,
+): QuoteServiceDelta[] {
+  const deltas: QuoteServiceDelta[] = [];
+  const add = (
+    service: QuoteServiceDelta["service"],
+    label: string,
+    cadence: FeeCadence,
+    from: number,
+    to: number,
+  ) => {
+    deltas.push({
+      service,
+      label,
+      cadence,
+      before: cents(from),
+      after: cents(to),
+      delta: cents(cents(to) - cents(from)),
+    });
+  };
+
+  for (const service of DISCOUNT_SERVICE_LINES) {
+    for (const cadence of DISCOUNTABLE_FEES[service]) {
+      const from = quoteServiceFee(before, service, cadence);
+      const to = quoteServiceFee(after, service, cadence);
+      if (!cents(from) && !cents(to)) continue;
+      add(service, quoteServiceLabel(service, cadence), cadence, from, to);
+    }
+  }
+  add(
+    "total",
+    "Total monthly",
+    "monthly",
+    before.combined.monthlyFee,
+    after.combined.monthlyFee,
+  );
+  add(
+    "total",
+    "Total setup",
+    "setup",
+    before.combined.setupFee,
+    after.combined.setupFee,
+  );
+  return deltas;
+}
+
+export interface QuoteRevisionListItem {
+  id: number;
+  quoteId: number;
+  revision: number;
+  editedBy: number | null;
+  editorName: string | null;
+  hubspotQuoteId: string | null;
+  monthlyFee: string;
+  setupFee: string;
+  // Labels of the fields changed since the previous revision
+  changedFields: string[];
+  createdAt: string;
+}
+
+export interface QuoteComparisonSide {
+  quoteId: number;
+  // Null for a quote saved before revisions were kept
+  revision: number | null;
+  editorName: string | null;
+  hubspotQuoteId: string | null;
+  savedAt: string;
+  monthlyFee: number;
+  setupFee: number;
+}
+
+export interface QuoteComparison {
+  left: QuoteComparisonSide;
+  right: QuoteComparisonSide;
+  fieldChanges: QuoteFieldChange[];
+  serviceDeltas: QuoteServiceDelta[];
+}
+
+// GET /api/quotes/compare; a missing revision means the quote's latest
+export const QuoteComparisonQuerySchema = z.object({
+  leftQuoteId: z.coerce.number().int().positive(),
+  leftRevision: z.coerce.number().int().positive().optional(),
+  rightQuoteId: z.coerce.number().int().positive(),
+  rightRevision: z.coerce.number().int().positive().optional(),
+});
+export type QuoteComparisonQuery = z.infer<typeof QuoteComparisonQuerySchema>;
@@ -6,9 +6,21 @@ import {
   decimal,
   timestamp,
   boolean,
+  real,
+  jsonb,
+  customType,
+  type AnyPgColumn,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import type { AssistantCitation } from "./assistant-retrieval";
+import type {
+  ClientIntelAnalysisKind,
+  StoredClientIntelAnalysis,
+} from "./client-intel";
+import type { ProspectRulesScore } from "./prospect-scoring";
+import type { ClientDocumentSummaryStatus } from "./client-documents";
+import type { ClientActivityType } from "./client-activity";
 
 export const quotes = pgTable("quotes", {
   id: serial("id").primaryKey(),
@@ -41,6 +53,9 @@ export const quotes = pgTable("quotes", {
   includesBookkeeping: boolean("includes_bookkeeping").default(true).notNull(),
   includesTaas: boolean("includes_taas").default(false).notNull(),
   archived: boolean("archived").default(false).notNull(),
+  // Where the client is with the quote: draft, sent (a proposal link was
+  // shared), accepted (the client accepted the proposal)
+  status: text("status").default("draft").notNull(),
   // Quote type - 'bookkeeping' or 'taas'
   quoteType: text("quote_type").default("bookkeeping").notNull(),
   // TaaS-specific fields
@@ -154,6 +169,36 @@ export const quotes = pgTable("quotes", {
   industryLocked: boolean("industry_locked").default(true),
   companyAddressLocked: boolean("company_address_locked").default(true),
 
+  // Published pricing config version that priced this quote (null for quotes
+  // created before config versioning)
+  pricingConfigVersionId: integer("pricing_config_version_id"),
+  // Full server calculator result (CombinedFeeResult JSON) behind the fees
+  // above, written on every save
+  pricingBreakdownJson: text("pricing_breakdown_json"),
+
+  // Line-item discounts and price overrides (JSON array of LineItemDiscount)
+  lineItemDiscountsJson: text("line_item_discounts_json"),
+  promoCode: text("promo_code"), // Promo code redeemed on this quote
+  discountReason: text("discount_reason"),
+  discountMonthlyAmount: decimal("discount_monthly_amount", {
+    precision: 10,
+    scale: 2,
+  }).default("0"),
+  discountSetupAmount: decimal("discount_setup_amount", {
+    precision: 10,
+    scale: 2,
+  }).default("0"),
+  // Contract term (see shared/pricing-terms.ts); monthlyFee is net of the
+  // term discount and annual prepay bills prepayAmount up front
+  contractTerm: text("contract_term").default("monthly").notNull(),
+  termDiscountAmount: decimal("term_discount_amount", {
+    precision: 10,
+    scale: 2,
+  }).default("0"),
+  prepayAmount: decimal("prepay_amount", { precision: 10, scale: 2 }).default(
+    "0",
+  ),
+
   // User ownership
   ownerId: integer("owner_id").notNull(),
   // HubSpot integration fields
@@ -183,6 +228,79 @@ export const updateQuoteSchema = createInsertSchema(quotes)
 export type InsertQuote = z.infer<typeof insertQuoteSchema>;
 export type Quote = typeof quotes.$inferSelect;
 
+// Immutable copy of a quote written on every save that changes it (see
+// shared/quote-revisions.ts). Revision numbers count up per quote.
+export const quoteRevisions = pgTable("quote_revisions", {
+  id: serial("id").primaryKey(),
+  quoteId: integer("quote_id")
+    .notNull()
+    .references(() => quotes.id),
+  revision: integer("revision").notNull(),
+  snapshotJson: text("snapshot_json").notNull(), // Quote columns at save time
+  pricingBreakdownJson: text("pricing_breakdown_json"), // CombinedFeeResult
+  monthlyFee: decimal("monthly_fee", { precision: 10, scale: 2 }).notNull(),
+  setupFee: decimal("setup_fee", { precision: 10, scale: 2 }).notNull(),
+  hubspotQuoteId: text("hubspot_quote_id"), // As it was at this revision
+  editedBy: integer("edited_by").references(() => users.id), // Null for system saves
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type QuoteRevision = typeof quoteRevisions.$inferSelect;
+
+// Named pricing alternative for a quote (see shared/quote-options.ts). Holds
+// only the inputs that differ from the quote; priced on read.
+export const quotePricingOptions = pgTable("quote_pricing_options", {
+  id: serial("id").primaryKey(),
+  quoteId: integer("quote_id")
+    .notNull()
+    .references(() => quotes.id),
+  name: text("name").notNull(), // e.g. "Good", "Better", "Best"
+  position: integer("position").default(0).notNull(),
+  overridesJson: text("overrides_json").notNull(), // QuoteOptionOverrides
+  selectedAt: timestamp("selected_at"), // When the client chose this option
+  selectedBy: integer("selected_by").references(() => users.id),
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export type QuotePricingOption = typeof quotePricingOptions.$inferSelect;
+
+// Client-facing proposal link for a quote (see shared/proposals.ts). The
+// token is the only credential; links expire and can be revoked.
+export const quoteProposals = pgTable("quote_proposals", {
+  id: serial("id").primaryKey(),
+  quoteId: integer("quote_id")
+    .notNull()
+    .references(() => quotes.id),
+  token: text("token").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  revokedAt: timestamp("revoked_at"),
+  acceptedAt: timestamp("accepted_at"),
+  acceptedName: text("accepted_name"), // Name the client signed with
+  acceptedOptionId: integer("accepted_option_id").references(
+    () => quotePricingOptions.id,
+  ),
+  acceptedIp: text("accepted_ip"),
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type QuoteProposal = typeof quoteProposals.$inferSelect;
+
+// One row per time the public proposal page was opened
+export const quoteProposalViews = pgTable("quote_proposal_views", {
+  id: serial("id").primaryKey(),
+  proposalId: integer("proposal_id")
+    .notNull()
+    .references(() => quoteProposals.id),
+  ipAddress: text("ip_address"),
+  userAgent: text("user_agent"),
+  viewedAt: timestamp("viewed_at").defaultNow().notNull(),
+});
+
+export type QuoteProposalView = typeof quoteProposalViews.$inferSelect;
+
 // Google Workspace Users table - synced nightly from Google Admin API
 export const workspaceUsers = pgTable("workspace_users", {
   id: serial("id").primaryKey(),
@@ -376,9 +494,28 @@ export const hubspotInvoiceLineItems = pgTable("hubspot_invoice_line_items", {
   totalPrice: decimal("total_price", { precision: 10, scale: 2 }).notNull(),
   serviceType: text("service_type"), // setup, cleanup, prior_years, recurring
   isRecurring: boolean("is_recurring").default(false),
+  hubspotProductId: text("hubspot_product_id"), // Drives commission classification
+  recurringBillingFrequency: text("recurring_billing_frequency"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Commission classification for HubSpot products outside SERVICE_REGISTRY
+// (legacy or one-off products)
+export const commissionProductMappings = pgTable(
+  "commission_product_mappings",
+  {
+    id: serial("id").primaryKey(),
+    hubspotProductId: text("hubspot_product_id").notNull().unique(),
+    productName: text("product_name"),
+    commissionType: text("commission_type").notNull(), // setup, monthly, none
+    serviceType: text("service_type"), // Plan serviceRates key, e.g. bookkeeping
+    notes: text("notes"),
+    createdBy: integer("created_by").references(() => users.id),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+);
+
 // HubSpot subscription tracking for ongoing commission calculations
 export const hubspotSubscriptions = pgTable("hubspot_subscriptions", {
   id: serial("id").primaryKey(),
@@ -420,11 +557,20 @@ export const commissions = pgTable("commissions", {
   salesRepId: integer("sales_rep_id")
     .notNull()
     .references(() => salesReps.id),
-  type: text("type").notNull(), // setup, cleanup, prior_years, month_1, residual, monthly_bonus, milestone_bonus
-  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  type: text("type").notNull(), // setup, cleanup, prior_years, month_1, residual, monthly_bonus, milestone_bonus, clawback
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(), // Negative for clawbacks
   status: text("status").notNull().default("pending"), // pending, processing, paid
   monthNumber: integer("month_number").notNull(), // 1, 2, 3, etc.
   serviceType: text("service_type"), // bookkeeping, tax, payroll, etc.
+  commissionPlanId: integer("commission_plan_id").references(
+    () => commissionPlans.id,
+  ), // Plan the amount was calculated under; null = built-in rates
+  payoutRunId: integer("payout_run_id").references(
+    () => commissionPayoutRuns.id,
+  ), // Set when a payout run locks the commission
+  clawbackOfCommissionId: integer("clawback_of_commission_id").references(
+    (): AnyPgColumn => commissions.id,
+  ), // Clawbacks: the commission being taken back; reason is in notes
   dateEarned: timestamp("date_earned").notNull(),
   datePaid: timestamp("date_paid"),
   paymentMethod: text("payment_method"), // direct_deposit, check, etc.
@@ -468,6 +614,68 @@ export const milestoneBonuses = pgTable("milestone_bonuses", {
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// Commission plans: rates, residual window and bonus ladders. Rules are frozen
+// once commissions have been earned under the plan.
+export const commissionPlans = pgTable("commission_plans", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  description: text("description"),
+  rulesJson: text("rules_json").notNull(), // JSON matching CommissionPlanRulesSchema
+  isDefault: boolean("is_default").default(false).notNull(), // Applies to reps without an assignment
+  effectiveFrom: timestamp("effective_from").notNull(),
+  effectiveTo: timestamp("effective_to"),
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Plan assignments per sales rep; a new assignment closes the previous one
+export const salesRepCommissionPlans = pgTable("sales_rep_commission_plans", {
+  id: serial("id").primaryKey(),
+  salesRepId: integer("sales_rep_id")
+    .notNull()
+    .references(() => salesReps.id),
+  planId: integer("plan_id")
+    .notNull()
+    .references(() => commissionPlans.id),
+  effectiveFrom: timestamp("effective_from").notNull(),
+  effectiveTo: timestamp("effective_to"),
+  assignedBy: integer("assigned_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Payout runs: one per 14th–13th period, created when the period is locked
+export const commissionPayoutRuns = pgTable("commission_payout_runs", {
+  id: serial("id").primaryKey(),
+  periodStart: text("period_start").notNull().unique(), // YYYY-MM-DD (14th)
+  periodEnd: text("period_end").notNull(), // YYYY-MM-DD (13th)
+  status: text("status").notNull().default("locked"), // locked, paid
+  totalAmount: decimal("total_amount", { precision: 10, scale: 2 }).notNull(),
+  lockedBy: integer("locked_by").references(() => users.id),
+  lockedAt: timestamp("locked_at").defaultNow().notNull(),
+  paidBy: integer("paid_by").references(() => users.id),
+  paidAt: timestamp("paid_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Per-rep statement snapshot taken at lock time; downloads render from it
+export const commissionPayoutStatements = pgTable(
+  "commission_payout_statements",
+  {
+    id: serial("id").primaryKey(),
+    payoutRunId: integer("payout_run_id")
+      .notNull()
+      .references(() => commissionPayoutRuns.id),
+    salesRepId: integer("sales_rep_id")
+      .notNull()
+      .references(() => salesReps.id),
+    totalAmount: decimal("total_amount", { precision: 10, scale: 2 }).notNull(),
+    statementJson: text("statement_json").notNull(), // PayoutStatement
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+);
+
 // Schema exports for commission tracking
 export const insertSalesRepSchema = createInsertSchema(salesReps).omit({
   id: true,
@@ -497,6 +705,14 @@ export const insertHubspotInvoiceLineItemSchema = createInsertSchema(
   createdAt: true,
 });
 
+export const insertCommissionProductMappingSchema = createInsertSchema(
+  commissionProductMappings,
+).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 export const insertHubspotSubscriptionSchema = createInsertSchema(
   hubspotSubscriptions,
 ).omit({
@@ -526,7 +742,10 @@ export const commissionAdjustments = pgTable("commission_adjustments", {
   finalAmount: decimal("final_amount", { precision: 10, scale: 2 }), // Amount after approval/modification
   reason: text("reason").notNull(),
   status: text("status").notNull().default("pending"), // pending, approved, rejected
-  type: text("type").notNull().default("request"), // request (by sales rep) or direct (by admin)
+  type: text("type").notNull().default("request"), // request (by sales rep), direct (by admin) or reversal (of a locked period)
+  payoutRunId: integer("payout_run_id").references(
+    () => commissionPayoutRuns.id,
+  ), // Reversals: the run that paid out the correction
   notes: text("notes"), // Admin notes for approval/rejection
   requestedDate: timestamp("requested_date").defaultNow().notNull(),
   reviewedDate: timestamp("reviewed_date"),
@@ -579,6 +798,11 @@ export type InsertHubspotSubscription = z.infer<
   typeof insertHubspotSubscriptionSchema
 >;
 export type HubspotSubscription = typeof hubspotSubscriptions.$inferSelect;
+export type InsertCommissionProductMapping = z.infer<
+  typeof insertCommissionProductMappingSchema
+>;
+export type CommissionProductMapping =
+  typeof commissionProductMappings.$inferSelect;
 export type InsertCommission = z.infer<typeof insertCommissionSchema>;
 export type Commission = typeof commissions.$inferSelect;
 export type InsertCommissionAdjustment = z.infer<
@@ -769,6 +993,112 @@ export type PricingTier = typeof pricingTiers.$inferSelect;
 export type InsertPricingTier = z.infer<typeof insertPricingTierSchema>;
 export type PricingHistory = typeof pricingHistory.$inferSelect;
 export type InsertPricingHistory = z.infer<typeof insertPricingHistorySchema>;
+
+// Immutable snapshots of the full pricing configuration. Drafts are editable;
+// once published a version never changes and becomes live at effective_from.
+export const pricingConfigVersions = pgTable("pricing_config_versions", {
+  id: serial("id").primaryKey(),
+  version: integer("version").notNull().unique(), // Sequential version number
+  label: text("label").notNull(),
+  notes: text("notes"),
+  status: text("status").notNull().default("draft"), // 'draft', 'published'
+  configJson: text("config_json").notNull(), // JSON string matching PricingConfigSchema
+  effectiveFrom: timestamp("effective_from"), // Set on publish; may be in the future
+  createdBy: integer("created_by")
+    .notNull()
+    .references(() => users.id),
+  publishedBy: integer("published_by").references(() => users.id),
+  publishedAt: timestamp("published_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertPricingConfigVersionSchema = createInsertSchema(
+  pricingConfigVersions,
+).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type PricingConfigVersion = typeof pricingConfigVersions.$inferSelect;
+export type InsertPricingConfigVersion = z.infer<
+  typeof insertPricingConfigVersionSchema
+>;
+
+// Reusable promo codes; each redemption on a quote counts against max_uses
+export const promoCodes = pgTable("promo_codes", {
+  id: serial("id").primaryKey(),
+  code: text("code").notNull().unique(), // Stored uppercase
+  description: text("description"),
+  discountsJson: text("discounts_json").notNull(), // JSON array of DiscountTerms
+  expiresAt: timestamp("expires_at"),
+  maxUses: integer("max_uses"), // Null means unlimited
+  usesCount: integer("uses_count").default(0).notNull(),
+  isActive: boolean("is_active").default(true).notNull(),
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertPromoCodeSchema = createInsertSchema(promoCodes).omit({
+  id: true,
+  usesCount: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type PromoCode = typeof promoCodes.$inferSelect;
+export type InsertPromoCode = z.infer<typeof insertPromoCodeSchema>;
+export const insertCommissionPlanSchema = createInsertSchema(
+  commissionPlans,
+).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertSalesRepCommissionPlanSchema = createInsertSchema(
+  salesRepCommissionPlans,
+).omit({
+  id: true,
+  effectiveTo: true,
+  createdAt: true,
+});
+
+export type CommissionPlan = typeof commissionPlans.$inferSelect;
+export type InsertCommissionPlan = z.infer<typeof insertCommissionPlanSchema>;
+export type SalesRepCommissionPlan =
+  typeof salesRepCommissionPlans.$inferSelect;
+export type InsertSalesRepCommissionPlan = z.infer<
+  typeof insertSalesRepCommissionPlanSchema
+>;
+
+export const insertCommissionPayoutRunSchema = createInsertSchema(
+  commissionPayoutRuns,
+).omit({
+  id: true,
+  lockedAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertCommissionPayoutStatementSchema = createInsertSchema(
+  commissionPayoutStatements,
+).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type CommissionPayoutRun = typeof commissionPayoutRuns.$inferSelect;
+export type InsertCommissionPayoutRun = z.infer<
+  typeof insertCommissionPayoutRunSchema
+>;
+export type CommissionPayoutStatement =
+  typeof commissionPayoutStatements.$inferSelect;
+export type InsertCommissionPayoutStatement = z.infer<
+  typeof insertCommissionPayoutStatementSchema
+>;
 export type InsertMonthlyBonus = z.infer<typeof insertMonthlyBonusSchema>;
 export type MonthlyBonus = typeof monthlyBonuses.$inferSelect;
 export type InsertMilestoneBonus = z.infer<typeof insertMilestoneBonusSchema>;
@@ -801,7 +1131,7 @@ export type InsertCalculatorServiceContent = z.infer<
 export type CalculatorServiceContent =
   typeof calculatorServiceContent.$inferSelect;
 
-// Approval codes for cleanup overrides
+// Legacy approval codes; superseded by approvalRequests, kept for history
 export const approvalCodes = pgTable("approval_codes", {
   id: serial("id").primaryKey(),
   code: text("code").notNull(),
@@ -819,6 +1149,60 @@ export const insertApprovalCodeSchema = createInsertSchema(approvalCodes).omit({
 export type InsertApprovalCode = z.infer<typeof insertApprovalCodeSchema>;
 export type ApprovalCode = typeof approvalCodes.$inferSelect;
 
+// Approval requests for quote overrides (duplicate quotes, cleanup overrides,
+// discounts over the threshold), decided by an admin from the approval queue
+export const approvalRequests = pgTable("approval_requests", {
+  id: serial("id").primaryKey(),
+  type: text("type").notNull(), // duplicate_quote, cleanup_override, discount
+  status: text("status").default("pending").notNull(), // pending, approved, rejected, cancelled, used
+  contactEmail: text("contact_email").notNull(),
+  quoteId: integer("quote_id").references(() => quotes.id), // Set on request for edits, on use for new quotes
+  requestedBy: integer("requested_by")
+    .references(() => users.id)
+    .notNull(),
+  reason: text("reason").notNull(),
+  requestedOverrideJson: text("requested_override_json"), // e.g. { maxDiscountPct }
+  quoteSnapshotJson: text("quote_snapshot_json"), // Calculator inputs and totals at request time
+  approverId: integer("approver_id").references(() => users.id),
+  decisionNote: text("decision_note"),
+  decidedAt: timestamp("decided_at"),
+  expiresAt: timestamp("expires_at"), // Approvals must be used before this
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertApprovalRequestSchema = createInsertSchema(
+  approvalRequests,
+).omit({
+  id: true,
+  status: true,
+  approverId: true,
+  decisionNote: true,
+  decidedAt: true,
+  expiresAt: true,
+  usedAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertApprovalRequest = z.infer<typeof insertApprovalRequestSchema>;
+export type ApprovalRequest = typeof approvalRequests.$inferSelect;
+
+// Audit trail: one row per request, decision, cancellation and use
+export const approvalRequestEvents = pgTable("approval_request_events", {
+  id: serial("id").primaryKey(),
+  approvalRequestId: integer("approval_request_id")
+    .references(() => approvalRequests.id)
+    .notNull(),
+  action: text("action").notNull(), // requested, approved, rejected, cancelled, used
+  actorId: integer("actor_id").references(() => users.id),
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type ApprovalRequestEvent = typeof approvalRequestEvents.$inferSelect;
+
 // Client Intelligence data for AI snapshots
 export const clientIntelProfiles = pgTable("client_intel_profiles", {
   id: serial("id").primaryKey(),
@@ -833,6 +1217,20 @@ export const clientIntelProfiles = pgTable("client_intel_profiles", {
   services: text("services").array(), // Current services array
   riskScore: integer("risk_score").default(0), // 0-100 risk assessment
   upsellOpportunities: text("upsell_opportunities").array(), // AI-generated opportunities
+  // Latest output per analysis kind: raw and parsed, model, prompt version
+  aiAnalyses: jsonb("ai_analyses")
+    .$type<
+      Partial<Record<ClientIntelAnalysisKind, StoredClientIntelAnalysis>>
+    >()
+    .default({})
+    .notNull(),
+  // Rules-based lead score (shared/prospect-scoring.ts), from the last
+  // HubSpot data it was calculated on
+  rulesScore: integer("rules_score"),
+  rulesScoreBreakdown: jsonb(
+    "rules_score_breakdown",
+  ).$type<ProspectRulesScore>(),
+  rulesScoredAt: timestamp("rules_scored_at"),
   lastAnalyzed: timestamp("last_analyzed"),
   lastActivity: timestamp("last_activity"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
@@ -852,8 +1250,18 @@ export const clientDocuments = pgTable("client_documents", {
     .notNull()
     .references(() => users.id),
   fileUrl: text("file_url"), // Storage URL
+  // Where StorageService put the file: local disk path or Box file id
+  storageProvider: text("storage_provider"), // local, box
+  storageKey: text("storage_key"),
+  contentType: text("content_type"),
   extractedText: text("extracted_text"), // OCR/extracted content for AI analysis
   summary: text("summary"), // AI-generated summary
+  summaryStatus: text("summary_status")
+    .$type<ClientDocumentSummaryStatus>()
+    .default("pending")
+    .notNull(),
+  summaryError: text("summary_error"),
+  summarizedAt: timestamp("summarized_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -863,7 +1271,7 @@ export const clientActivities = pgTable("client_activities", {
   clientProfileId: integer("client_profile_id")
     .notNull()
     .references(() => clientIntelProfiles.id),
-  activityType: text("activity_type").notNull(), // email, call, meeting, quote, document_upload
+  activityType: text("activity_type").$type<ClientActivityType>().notNull(), // email, call, meeting, quote, document_upload, ai_insights
   description: text("description").notNull(),
   userId: integer("user_id").references(() => users.id), // Who performed the activity
   hubspotActivityId: text("hubspot_activity_id"), // If synced from HubSpot
@@ -903,6 +1311,13 @@ export type InsertClientActivity = z.infer<typeof insertClientActivitySchema>;
 export type ClientActivity = typeof clientActivities.$inferSelect;
 
 // Knowledge Base Schema
+// Maintained by a database trigger (migrations/0012_kb_full_text_search.sql)
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return "tsvector";
+  },
+});
+
 export const kbCategories = pgTable("kb_categories", {
   id: serial("id").primaryKey(),
   name: text("name").notNull(),
@@ -933,7 +1348,7 @@ export const kbArticles = pgTable("kb_articles", {
   featured: boolean("featured").default(false), // Featured articles
   tags: text("tags").array(), // Array of tags for filtering
   viewCount: integer("view_count").default(0),
-  searchVector: text("search_vector"), // For full-text search
+  searchVector: tsvector("search_vector"), // Weighted full-text index
   aiSummary: text("ai_summary"), // AI-generated summary
   lastReviewedAt: timestamp("last_reviewed_at"),
   lastReviewedBy: integer("last_reviewed_by").references(() => users.id),
@@ -1025,3 +1440,164 @@ export type InsertKbBookmark = z.infer<typeof insertKbBookmarkSchema>;
 export type KbBookmark = typeof kbBookmarks.$inferSelect;
 export type InsertKbSearchHistory = z.infer<typeof insertKbSearchHistorySchema>;
 export type KbSearchHistory = typeof kbSearchHistory.$inferSelect;
+
+// Seed Assistant retrieval index: embedded chunks of published KB articles
+// and files in approved Box client folders. Rebuilt per source whenever the
+// source text changes (content_hash) or the embedding model differs.
+export const assistantIndexChunks = pgTable("assistant_index_chunks", {
+  id: serial("id").primaryKey(),
+  sourceType: text("source_type").notNull(), // kb_article | box_file
+  sourceId: text("source_id").notNull(), // Article ID or Box file ID
+  title: text("title").notNull(),
+  url: text("url").notNull(),
+  boxFolderId: text("box_folder_id"), // Approved folder a box_file came from
+  chunkIndex: integer("chunk_index").notNull(),
+  content: text("content").notNull(),
+  embedding: real("embedding").array().notNull(),
+  embeddingModel: text("embedding_model").notNull(),
+  contentHash: text("content_hash").notNull(), // Of the whole source text
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Box client folders an admin has approved for indexing
+export const assistantBoxFolders = pgTable("assistant_box_folders", {
+  id: serial("id").primaryKey(),
+  folderId: text("folder_id").notNull().unique(),
+  name: text("name").notNull(),
+  approvedBy: integer("approved_by").references(() => users.id),
+  lastIndexedAt: timestamp("last_indexed_at"),
+  lastIndexError: text("last_index_error"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertAssistantIndexChunkSchema = createInsertSchema(
+  assistantIndexChunks,
+).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertAssistantBoxFolderSchema = createInsertSchema(
+  assistantBoxFolders,
+).omit({
+  id: true,
+  lastIndexedAt: true,
+  lastIndexError: true,
+  createdAt: true,
+});
+
+export type InsertAssistantIndexChunk = z.infer<
+  typeof insertAssistantIndexChunkSchema
+>;
+export type AssistantIndexChunk = typeof assistantIndexChunks.$inferSelect;
+export type InsertAssistantBoxFolder = z.infer<
+  typeof insertAssistantBoxFolderSchema
+>;
+export type AssistantBoxFolder = typeof assistantBoxFolders.$inferSelect;
+
+// Seed Assistant conversation threads. share_token, when set, lets any
+// signed-in user open a read-only copy of the thread.
+export const assistantConversations = pgTable("assistant_conversations", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id")
+    .notNull()
+    .references(() => users.id),
+  mode: text("mode").notNull(), // sell | support
+  title: text("title").notNull(),
+  shareToken: text("share_token").unique(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const assistantMessages = pgTable("assistant_messages", {
+  id: serial("id").primaryKey(),
+  conversationId: integer("conversation_id")
+    .notNull()
+    .references(() => assistantConversations.id),
+  role: text("role").notNull(), // user | assistant
+  content: text("content").notNull(),
+  citations: jsonb("citations")
+    .$type<AssistantCitation[]>()
+    .default([])
+    .notNull(),
+  model: text("model"), // Model that wrote an assistant message
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// One rating per user per answer; re-rating replaces it
+export const assistantMessageFeedback = pgTable("assistant_message_feedback", {
+  id: serial("id").primaryKey(),
+  messageId: integer("message_id")
+    .notNull()
+    .references(() => assistantMessages.id),
+  userId: integer("user_id")
+    .notNull()
+    .references(() => users.id),
+  rating: text("rating").notNull(), // up | down
+  comment: text("comment"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertAssistantConversationSchema = createInsertSchema(
+  assistantConversations,
+).omit({
+  id: true,
+  shareToken: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertAssistantMessageSchema = createInsertSchema(
+  assistantMessages,
+).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertAssistantMessageFeedbackSchema = createInsertSchema(
+  assistantMessageFeedback,
+).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertAssistantConversation = z.infer<
+  typeof insertAssistantConversationSchema
+>;
+export type AssistantConversation = typeof assistantConversations.$inferSelect;
+export type InsertAssistantMessage = z.infer<
+  typeof insertAssistantMessageSchema
+>;
+export type AssistantMessage = typeof assistantMessages.$inferSelect;
+export type InsertAssistantMessageFeedback = z.infer<
+  typeof insertAssistantMessageFeedbackSchema
+>;
+export type AssistantMessageFeedback =
+  typeof assistantMessageFeedback.$inferSelect;
+
+// One row per model call made through the LLM provider layer
+export const llmUsage = pgTable("llm_usage", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id), // Null for background jobs
+  feature: text("feature").notNull(), // assistant_sell, client_intel, article_drafting, ...
+  provider: text("provider").notNull(), // openai | anthropic | mock
+  model: text("model").notNull(),
+  inputTokens: integer("input_tokens").default(0).notNull(),
+  outputTokens: integer("output_tokens").default(0).notNull(),
+  costUsd: decimal("cost_usd", { precision: 12, scale: 6 }), // Null when the model isn't priced
+  latencyMs: integer("latency_ms").notNull(),
+  attempts: integer("attempts").default(1).notNull(),
+  success: boolean("success").notNull(),
+  error: text("error"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertLlmUsageSchema = createInsertSchema(llmUsage).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertLlmUsage = z.infer<typeof insertLlmUsageSchema>;
+export type LlmUsageEntry = typeof llmUsage.$inferSelect;
@@ -0,0 +1,451 @@
+import { calculateQuotePricing, type CombinedFeeResult } from "./pricing";
+import { describeContractTerm } from "./pricing-terms";
+import { quoteServiceFee } from "./quote-revisions";
+import { SERVICE_REGISTRY } from "./services";
+
+// Statement of work templates (calculator_service_content.sow_template) are
+// Markdown with {{token}} placeholders; dotted tokens reach into groups such
+// as {{ap.serviceTier}}. SOW_TOKENS is the full vocabulary: admins can't save
+// a template using anything else, and empty values render as blank.
+
+// Calculator service content key for each quote service toggle
+export const SOW_CONTENT_SERVICES = {
+  serviceMonthlyBookkeeping: "bookkeeping",
+  serviceTaasMonthly: "taas",
+  servicePayrollService: "payroll",
+  serviceApArService: "ap",
+  serviceArService: "ar",
+  serviceAgentOfService: "agent_of_service",
+  serviceCfoAdvisory: "cfo_advisory",
+} as const;
+export type SowServiceToggle = keyof typeof SOW_CONTENT_SERVICES;
+export type SowContentService = (typeof SOW_CONTENT_SERVICES)[SowServiceToggle];
+
+export interface SowTokenDefinition {
+  token: string;
+  label: string;
+  group: string;
+}
+
+export const SOW_TOKENS: readonly SowTokenDefinition[] = [
+  { token: "companyName", label: "Client company name", group: "Client" },
+  { token: "contactName", label: "Client contact name", group: "Client" },
+  { token: "contactEmail", label: "Client contact email", group: "Client" },
+  {
+    token: "clientAddress",
+    label: "Client address, one line",
+    group: "Client",
+  },
+  {
+    token: "entityType",
+    label: "Entity type (LLC, S-Corp...)",
+    group: "Client",
+  },
+  { token: "industry", label: "Industry", group: "Client" },
+  { token: "monthlyFee", label: "Total monthly fee", group: "Fees" },
+  { token: "setupFee", label: "Total setup fee", group: "Fees" },
+  { token: "contractTerm", label: "Contract term and billing", group: "Fees" },
+  {
+    token: "fees.bookkeeping",
+    label: "Bookkeeping monthly fee",
+    group: "Fees",
+  },
+  {
+    token: "fees.bookkeepingSetup",
+    label: "Bookkeeping setup fee",
+    group: "Fees",
+  },
+  { token: "fees.taas", label: "TaaS monthly fee", group: "Fees" },
+  { token: "fees.taasSetup", label: "TaaS setup fee", group: "Fees" },
+  { token: "fees.payroll", label: "Payroll monthly fee", group: "Fees" },
+  { token: "fees.ap", label: "AP monthly fee", group: "Fees" },
+  { token: "fees.ar", label: "AR monthly fee", group: "Fees" },
+  {
+    token: "fees.agentOfService",
+    label: "Agent of Service fee",
+    group: "Fees",
+  },
+  { token: "fees.cfoAdvisory", label: "CFO Advisory fee", group: "Fees" },
+  {
+    token: "monthlyRevenueRange",
+    label: "Monthly revenue range",
+    group: "Bookkeeping",
+  },
+  {
+    token: "monthlyTransactions",
+    label: "Monthly transactions",
+    group: "Bookkeeping",
+  },
+  { token: "cleanupMonths", label: "Cleanup months", group: "Bookkeeping" },
+  { token: "numEntities", label: "Entities", group: "TaaS" },
+  { token: "statesFiled", label: "States filed", group: "TaaS" },
+  {
+    token: "internationalFiling",
+    label: "International filing (Yes/No)",
+    group: "TaaS",
+  },
+  { token: "numBusinessOwners", label: "Business owners", group: "TaaS" },
+  {
+    token: "payrollEmployeeCount",
+    label: "Payroll employees",
+    group: "Payroll",
+  },
+  { token: "payrollStateCount", label: "Payroll states", group: "Payroll" },
+  { token: "ap.serviceTier", label: "AP tier", group: "AP" },
+  {
+    token: "ap.vendorBillsBand",
+    label: "AP vendor bills per month",
+    group: "AP",
+  },
+  { token: "ap.vendorCount", label: "AP vendors", group: "AP" },
+  { token: "ar.serviceTier", label: "AR tier", group: "AR" },
+  {
+    token: "ar.customerInvoicesBand",
+    label: "AR invoices per month",
+    group: "AR",
+  },
+  { token: "ar.customerCount", label: "AR customers", group: "AR" },
+  {
+    token: "agentOfService.additionalStates",
+    label: "Additional states",
+    group: "Agent of Service",
+  },
+  {
+    token: "agentOfService.complexCase",
+    label: "Complex case (Yes/No)",
+    group: "Agent of Service",
+  },
+  {
+    token: "cfo.bundleHours",
+    label: "CFO hours bundle",
+    group: "CFO Advisory",
+  },
+  {
+    token: "includedFields",
+    label: "Fields ticked under Included Fields, as a list",
+    group: "Service",
+  },
+];
+
+const KNOWN_TOKENS = new Set(SOW_TOKENS.map((t) => t.token));
+
+export type SowTokens = Record<string, unknown>;
+
+const TOKEN_PATTERN = /\{\{\s*([a-zA-Z0-9_.]+)\s*\}\}/g;
+
+function tokenValue(tokens: SowTokens, key: string): string {
+  const value = key
+    .split(".")
+    .reduce<unknown>(
+      (acc, part) =>
+        acc && typeof acc === "object"
+          ? (acc as Record<string, unknown>)[part]
+          : undefined,
+      tokens,
+    );
+  return value === undefined || value === null ? "" : String(value);
+}
+
+export function renderSowTemplate(template: string, tokens: SowTokens): string {
+  return template.replace(TOKEN_PATTERN, (_, key: string) =>
+    tokenValue(tokens, key),
+  );
+}
+
+// Tokens a template uses that aren't in SOW_TOKENS, in order of appearance
+export function unknownSowTokens(template: string): string[] {
+  const unknown = new Set<string>();
+  for (const [, key] of template.matchAll(TOKEN_PATTERN)) {
+    if (key && !KNOWN_TOKENS.has(key)) unknown.add(key);
+  }
+  return [...unknown];
+}
+
+const amount = (value: number) =>
+  value.toLocaleString("en-US", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+
+const yesNo = (value: unknown) => (value ? "Yes" : "No");
+
+// Token values for a quote; fees come from the server's pricing
+export function sowTokensForQuote(
+  quote: Record<string, any>,
+  pricing: CombinedFeeResult,
+): SowTokens {
+  const fee = (service: Parameters<typeof quoteServiceFee>[1]) =>
+    amount(quoteServiceFee(pricing, service, "monthly"));
+  return {
+    companyName: quote.companyName || quote.contactEmail,
+    contactName:
+      [quote.contactFirstName, quote.contactLastName]
+        .filter(Boolean)
+        .join(" ") || quote.contactEmail,
+    contactEmail: quote.contactEmail,
+    clientAddress: [
+      quote.clientStreetAddress,
+      quote.clientCity,
+      [quote.clientState, quote.clientZipCode].filter(Boolean).join(" "),
+      quote.clientCountry,
+    ]
+      .filter(Boolean)
+      .join(", "),
+    entityType: quote.entityType,
+    industry: quote.industry,
+    monthlyFee: amount(pricing.combined.monthlyFee),
+    setupFee: amount(pricing.combined.setupFee),
+    contractTerm: describeContractTerm(pricing.contractTerm),
+    fees: {
+      bookkeeping: fee("bookkeeping"),
+      bookkeepingSetup: amount(pricing.bookkeeping.setupFee),
+      taas: fee("taas"),
+      taasSetup: amount(pricing.taas.setupFee),
+      payroll: fee("payroll"),
+      ap: fee("ap"),
+      ar: fee("ar"),
+      agentOfService: fee("agentOfService"),
+      cfoAdvisory: fee("cfoAdvisory"),
+    },
+    monthlyRevenueRange: quote.monthlyRevenueRange,
+    monthlyTransactions: quote.monthlyTransactions,
+    cleanupMonths: quote.cleanupMonths,
+    numEntities: quote.customNumEntities ?? quote.numEntities,
+    statesFiled: quote.customStatesFiled ?? quote.statesFiled,
+    internationalFiling: yesNo(quote.internationalFiling),
+    numBusinessOwners: quote.customNumBusinessOwners ?? quote.numBusinessOwners,
+    payrollEmployeeCount: quote.payrollEmployeeCount,
+    payrollStateCount: quote.payrollStateCount,
+    ap: {
+      serviceTier: quote.apServiceTier,
+      vendorBillsBand: quote.apVendorBillsBand,
+      vendorCount: quote.customApVendorCount ?? quote.apVendorCount,
+    },
+    ar: {
+      serviceTier: quote.arServiceTier,
+      customerInvoicesBand: quote.arCustomerInvoicesBand,
+      customerCount: quote.customArCustomerCount ?? quote.arCustomerCount,
+    },
+    agentOfService: {
+      additionalStates: quote.agentOfServiceAdditionalStates,
+      complexCase: yesNo(quote.agentOfServiceComplexCase),
+    },
+    cfo: { bundleHours: quote.cfoAdvisoryBundleHours },
+  };
+}
+
+// includedFieldsJson flags (admin "Included Fields") behind {{includedFields}},
+// keyed by the flag group each service's checkboxes write to
+const INCLUDED_FIELDS: Record<
+  SowContentService,
+  { group: string; fields: { flag: string; label: string; token: string }[] }
+> = {
+  bookkeeping: {
+    group: "bookkeeping",
+    fields: [
+      { flag: "includeIndustry", label: "Industry", token: "industry" },
+      {
+        flag: "includeTransactions",
+        label: "Monthly transactions",
+        token: "monthlyTransactions",
+      },
+      {
+        flag: "includeCleanupMonths",
+        label: "Cleanup months",
+        token: "cleanupMonths",
+      },
+    ],
+  },
+  taas: {
+    group: "taas",
+    fields: [
+      { flag: "includeEntities", label: "Entities", token: "numEntities" },
+      {
+        flag: "includeStatesFiled",
+        label: "States filed",
+        token: "statesFiled",
+      },
+      {
+        flag: "includeInternational",
+        label: "International filing",
+        token: "internationalFiling",
+      },
+      {
+        flag: "includeOwners",
+        label: "Business owners",
+        token: "numBusinessOwners",
+      },
+    ],
+  },
+  payroll: {
+    group: "payroll",
+    fields: [
+      {
+        flag: "includeEmployeeCount",
+        label: "Employees",
+        token: "payrollEmployeeCount",
+      },
+      {
+        flag: "includeStateCount",
+        label: "States",
+        token: "payrollStateCount",
+      },
+    ],
+  },
+  ap: {
+    group: "ap",
+    fields: [
+      { flag: "includeTier", label: "Tier", token: "ap.serviceTier" },
+      {
+        flag: "includeVolumeBand",
+        label: "Vendor bills per month",
+        token: "ap.vendorBillsBand",
+      },
+      { flag: "includeVendorCount", label: "Vendors", token: "ap.vendorCount" },
+    ],
+  },
+  ar: {
+    group: "ar",
+    fields: [
+      { flag: "includeTier", label: "Tier", token: "ar.serviceTier" },
+      {
+        flag: "includeInvoicesBand",
+        label: "Invoices per month",
+        token: "ar.customerInvoicesBand",
+      },
+      {
+        flag: "includeCustomerCount",
+        label: "Customers",
+        token: "ar.customerCount",
+      },
+    ],
+  },
+  agent_of_service: {
+    group: "agentOfService",
+    fields: [
+      {
+        flag: "includeAdditionalStates",
+        label: "Additional states",
+        token: "agentOfService.additionalStates",
+      },
+      {
+        flag: "includeComplexCase",
+        label: "Complex case",
+        token: "agentOfService.complexCase",
+      },
+    ],
+  },
+  cfo_advisory: { group: "cfo_advisory", fields: [] },
+};
+
+// The ticked fields for one service as a Markdown list; flags come from the
+// whole includedFieldsJson object, defaults already merged in
+export function includedFieldsList(
+  service: SowContentService,
+  included: Record<string, any>,
+  tokens: SowTokens,
+): string {
+  const { group, fields } = INCLUDED_FIELDS[service];
+  return fields
+    .filter((field) => included[group]?.[field.flag])
+    .map((field) => `- ${field.label}: ${tokenValue(tokens, field.token)}`)
+    .join("\n");
+}
+
+// Calculator service content for one service, with defaults already applied
+export interface SowServiceContent {
+  service: string;
+  sowTitle: string | null;
+  sowTemplate: string | null;
+  agreementLink: string | null;
+  includedFields?: Record<string, any>;
+}
+
+export interface SowDocument {
+  service: SowContentService;
+  title: string;
+  // Rendered Markdown
+  body: string;
+  agreementLink: string | null;
+}
+
+// One rendered statement of work per service on the quote that has a template
+export function renderQuoteSows(
+  quote: Record<string, any>,
+  pricing: CombinedFeeResult,
+  content: SowServiceContent[],
+): SowDocument[] {
+  const tokens = sowTokensForQuote(quote, pricing);
+  const sows: SowDocument[] = [];
+  for (const [toggle, service] of Object.entries(SOW_CONTENT_SERVICES) as [
+    SowServiceToggle,
+    SowContentService,
+  ][]) {
+    if (!quote[toggle]) continue;
+    const item = content.find((c) => c.service === service);
+    if (!item?.sowTemplate?.trim()) continue;
+    sows.push({
+      service,
+      title: item.sowTitle || SERVICE_REGISTRY[toggle].name,
+      body: renderSowTemplate(item.sowTemplate, {
+        ...tokens,
+        includedFields: includedFieldsList(
+          service,
+          item.includedFields ?? {},
+          tokens,
+        ),
+      }).trim(),
+      agreementLink: item.agreementLink,
+    });
+  }
+  return sows;
+}
+
+// Quote the admin preview renders templates against
+export const SOW_SAMPLE_QUOTE = {
+  companyName: "Acme Co",
+  contactFirstName: "Jordan",
+  contactLastName: "Lee",
+  contactEmail: "jordan@acme.example",
+  clientStreetAddress: "100 Market St",
+  clientCity: "San Francisco",
+  clientState: "CA",
+  clientZipCode: "94105",
+  clientCountry: "US",
+  entityType: "C-Corp",
+  industry: "Software/SaaS",
+  monthlyRevenueRange: "25K-75K",
+  monthlyTransactions: "100-300",
+  cleanupMonths: 6,
+  numEntities: 1,
+  statesFiled: 2,
+  internationalFiling: false,
+  numBusinessOwners: 2,
+  include1040s: false,
+  serviceMonthlyBookkeeping: true,
+  serviceTaasMonthly: true,
+  servicePayrollService: true,
+  payrollEmployeeCount: 12,
+  payrollStateCount: 2,
+  serviceApArService: true,
+  apServiceTier: "advanced" as const,
+  apVendorBillsBand: "26-100" as const,
+  apVendorCount: 40,
+  serviceArService: true,
+  arServiceTier: "lite" as const,
+  arCustomerInvoicesBand: "0-25" as const,
+  arCustomerCount: 15,
+  serviceAgentOfService: true,
+  agentOfServiceAdditionalStates: 1,
+  agentOfServiceComplexCase: false,
+  serviceCfoAdvisory: true,
+  cfoAdvisoryType: "prepaid_bundle" as const,
+  cfoAdvisoryBundleHours: 8,
+};
+
+export function sampleSowTokens(): SowTokens {
+  return sowTokensForQuote(
+    SOW_SAMPLE_QUOTE,
+    calculateQuotePricing(SOW_SAMPLE_QUOTE),
+  );
+}